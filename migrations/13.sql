@@ -0,0 +1,43 @@
+-- =====================================================
+-- MIGRAÇÃO 13: HORÁRIOS SEMANAIS DOS PROFISSIONAIS
+-- =====================================================
+-- Este script passa a usar a tabela `professional_schedules` (criada na
+-- migração 1) como fonte dos horários de trabalho, com uma linha por
+-- profissional e dia da semana.
+
+-- ETAPA 1: Garantir a chave estrangeira para a tabela de profissionais
+-- A migração 1 criou a tabela sem a constraint; a migração 3 só a cria em bancos novos.
+DO $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM information_schema.table_constraints
+                   WHERE constraint_name = 'fk_professional_schedules_professional') THEN
+        ALTER TABLE professional_schedules ADD CONSTRAINT fk_professional_schedules_professional
+        FOREIGN KEY (professional_id) REFERENCES professionals(id) ON DELETE CASCADE;
+    END IF;
+END $$;
+
+
+-- ETAPA 2: Garantir um único registo por profissional e dia da semana
+-- Necessário para o `upsert` feito pela aplicação.
+CREATE UNIQUE INDEX IF NOT EXISTS professional_schedules_professional_id_day_of_week_idx
+ON professional_schedules (professional_id, day_of_week);
+
+
+-- ETAPA 3: Migrar os horários únicos da migração 12 para a grade semanal
+-- Cada profissional com horário definido passa a trabalhar nesse horário em todos os dias.
+INSERT INTO professional_schedules (user_id, professional_id, day_of_week, start_time, end_time, lunch_start_time, lunch_end_time)
+SELECT p.user_id, p.id, d.day_of_week, p.work_start_time, p.work_end_time, p.lunch_start_time, p.lunch_end_time
+FROM professionals p
+CROSS JOIN generate_series(0, 6) AS d(day_of_week)
+WHERE p.work_start_time IS NOT NULL AND p.work_end_time IS NOT NULL
+ON CONFLICT (professional_id, day_of_week) DO NOTHING;
+
+
+-- =====================================================
+-- COMENTÁRIOS DE DOCUMENTAÇÃO
+-- =====================================================
+COMMENT ON TABLE professional_schedules IS 'Horário semanal de cada profissional (uma linha por dia da semana; horários nulos indicam folga).';
+COMMENT ON COLUMN public.professionals.work_start_time IS 'OBSOLETO: substituído por professional_schedules.';
+COMMENT ON COLUMN public.professionals.work_end_time IS 'OBSOLETO: substituído por professional_schedules.';
+COMMENT ON COLUMN public.professionals.lunch_start_time IS 'OBSOLETO: substituído por professional_schedules.';
+COMMENT ON COLUMN public.professionals.lunch_end_time IS 'OBSOLETO: substituído por professional_schedules.';
@@ -0,0 +1,43 @@
+-- =====================================================
+-- MIGRAÇÃO 14: AUSÊNCIAS DOS PROFISSIONAIS
+-- =====================================================
+-- Este script prepara a tabela `professional_exceptions` (criada na
+-- migração 1) para ser usada pela aplicação no cálculo dos horários livres.
+
+-- ETAPA 1: Garantir a chave estrangeira para a tabela de profissionais
+DO $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM information_schema.table_constraints
+                   WHERE constraint_name = 'fk_professional_exceptions_professional') THEN
+        ALTER TABLE professional_exceptions ADD CONSTRAINT fk_professional_exceptions_professional
+        FOREIGN KEY (professional_id) REFERENCES professionals(id) ON DELETE CASCADE;
+    END IF;
+END $$;
+
+
+-- ETAPA 2: Validar o intervalo de datas e o intervalo de horas
+DO $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM information_schema.table_constraints
+                   WHERE constraint_name = 'chk_professional_exceptions_dates') THEN
+        ALTER TABLE professional_exceptions ADD CONSTRAINT chk_professional_exceptions_dates
+        CHECK (end_date >= start_date);
+    END IF;
+
+    IF NOT EXISTS (SELECT 1 FROM information_schema.table_constraints
+                   WHERE constraint_name = 'chk_professional_exceptions_times') THEN
+        ALTER TABLE professional_exceptions ADD CONSTRAINT chk_professional_exceptions_times
+        CHECK ((start_time IS NULL AND end_time IS NULL) OR (start_time IS NOT NULL AND end_time IS NOT NULL AND end_time > start_time));
+    END IF;
+END $$;
+
+
+-- ETAPA 3: Índice para a busca das ausências que cobrem uma data
+CREATE INDEX IF NOT EXISTS idx_professional_exceptions_dates ON professional_exceptions(professional_id, start_date, end_date);
+
+
+-- =====================================================
+-- COMENTÁRIOS DE DOCUMENTAÇÃO
+-- =====================================================
+COMMENT ON TABLE professional_exceptions IS 'Ausências dos profissionais (férias, folgas). Sem horário, a ausência cobre os dias inteiros do intervalo.';
+COMMENT ON TABLE business_exceptions IS 'Exceções do estabelecimento. Sem horário o salão está fechado; com horário, é o expediente especial do dia.';
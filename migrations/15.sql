@@ -0,0 +1,59 @@
+-- =====================================================
+-- MIGRAÇÃO 15: IMPEDIR AGENDAMENTOS SOBREPOSTOS
+-- =====================================================
+-- Este script garante, no próprio banco, que um profissional não tem dois
+-- agendamentos no mesmo horário, mesmo que a validação da aplicação seja
+-- contornada (edição manual de horários, gravações simultâneas).
+
+-- ETAPA 1: Extensão necessária para combinar `=` e `&&` num índice GiST
+CREATE EXTENSION IF NOT EXISTS btree_gist;
+
+
+-- ETAPA 2: Garantir que o fim do agendamento é posterior ao início
+DO $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM information_schema.table_constraints
+                   WHERE constraint_name = 'chk_appointments_dates') THEN
+        ALTER TABLE appointments ADD CONSTRAINT chk_appointments_dates
+        CHECK (end_date > appointment_date);
+    END IF;
+END $$;
+
+
+-- ETAPA 3: Verificar se já existem sobreposições
+-- A constraint da etapa 4 não pode ser criada enquanto existirem; corrija-as
+-- manualmente (a consulta abaixo lista os pares em conflito) e execute de novo.
+--
+--   SELECT a.id, b.id, a.professional_id, a.appointment_date, b.appointment_date
+--   FROM appointments a JOIN appointments b
+--     ON a.professional_id = b.professional_id AND a.id < b.id
+--    AND tsrange(a.appointment_date, a.end_date) && tsrange(b.appointment_date, b.end_date);
+DO $$
+DECLARE
+    overlap_count INTEGER;
+BEGIN
+    SELECT COUNT(*) INTO overlap_count
+    FROM appointments a JOIN appointments b
+      ON a.professional_id = b.professional_id AND a.id < b.id
+     AND tsrange(a.appointment_date, a.end_date) && tsrange(b.appointment_date, b.end_date);
+
+    IF overlap_count > 0 THEN
+        RAISE EXCEPTION 'Existem % pares de agendamentos sobrepostos. Corrija-os antes de aplicar esta migração.', overlap_count;
+    END IF;
+END $$;
+
+
+-- ETAPA 4: Constraint de exclusão (viola com o código 23P01)
+DO $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'appointments_no_overlap') THEN
+        ALTER TABLE appointments ADD CONSTRAINT appointments_no_overlap
+        EXCLUDE USING gist (professional_id WITH =, tsrange(appointment_date, end_date) WITH &&);
+    END IF;
+END $$;
+
+
+-- =====================================================
+-- COMENTÁRIOS DE DOCUMENTAÇÃO
+-- =====================================================
+COMMENT ON CONSTRAINT appointments_no_overlap ON appointments IS 'Um profissional não pode ter dois agendamentos com horários sobrepostos.';
@@ -0,0 +1,44 @@
+-- =====================================================
+-- MIGRAÇÃO 16: AGENDAMENTOS RECORRENTES
+-- =====================================================
+-- Este script cria a tabela `appointment_series`, que guarda a regra de
+-- recorrência, e liga cada agendamento gerado à sua série.
+
+-- ETAPA 1: Criar a tabela de séries
+CREATE TABLE IF NOT EXISTS appointment_series (
+  id SERIAL PRIMARY KEY,
+  user_id TEXT NOT NULL,
+  frequency TEXT NOT NULL CHECK (frequency IN ('weekly', 'monthly')),
+  interval INTEGER NOT NULL DEFAULT 1 CHECK (interval BETWEEN 1 AND 12),
+  day_of_month INTEGER CHECK (day_of_month BETWEEN 1 AND 31),
+  until_date DATE,
+  occurrences INTEGER CHECK (occurrences BETWEEN 2 AND 52),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  CONSTRAINT chk_appointment_series_end CHECK (until_date IS NOT NULL OR occurrences IS NOT NULL)
+);
+
+CREATE INDEX IF NOT EXISTS idx_appointment_series_user_id ON appointment_series(user_id);
+
+
+-- ETAPA 2: Ligar os agendamentos à série
+-- Ao apagar a série, os agendamentos já criados permanecem como avulsos.
+ALTER TABLE appointments ADD COLUMN IF NOT EXISTS series_id INTEGER;
+
+DO $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM information_schema.table_constraints
+                   WHERE constraint_name = 'fk_appointments_series') THEN
+        ALTER TABLE appointments ADD CONSTRAINT fk_appointments_series
+        FOREIGN KEY (series_id) REFERENCES appointment_series(id) ON DELETE SET NULL;
+    END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_appointments_series ON appointments(series_id, appointment_date);
+
+
+-- =====================================================
+-- COMENTÁRIOS DE DOCUMENTAÇÃO
+-- =====================================================
+COMMENT ON TABLE appointment_series IS 'Regras de recorrência (a cada N semanas ou meses, até uma data ou N ocorrências).';
+COMMENT ON COLUMN appointments.series_id IS 'Série recorrente que gerou o agendamento (nulo para agendamentos avulsos).';
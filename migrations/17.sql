@@ -0,0 +1,58 @@
+-- =====================================================
+-- MIGRAÇÃO 17: STATUS DOS AGENDAMENTOS
+-- =====================================================
+-- Este script substitui o booleano `attended` por um ciclo de vida completo
+-- (agendado, confirmado, chegou, em atendimento, concluído, falta, cancelado
+-- pelo cliente, cancelado pelo salão) e regista cada mudança com data e motivo.
+-- A coluna `attended` é mantida, em sincronia com o status 'completed'.
+
+-- ETAPA 1: Adicionar a coluna de status
+ALTER TABLE appointments ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'scheduled';
+
+DO $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM information_schema.table_constraints
+                   WHERE constraint_name = 'chk_appointments_status') THEN
+        ALTER TABLE appointments ADD CONSTRAINT chk_appointments_status
+        CHECK (status IN ('scheduled', 'confirmed', 'checked_in', 'in_service', 'completed',
+                          'no_show', 'cancelled_by_client', 'cancelled_by_salon'));
+    END IF;
+END $$;
+
+
+-- ETAPA 2: Preencher o status a partir da presença já registada
+UPDATE appointments SET status = 'completed' WHERE attended = TRUE AND status = 'scheduled';
+
+CREATE INDEX IF NOT EXISTS idx_appointments_status ON appointments(user_id, status, appointment_date);
+
+
+-- ETAPA 3: Histórico de mudanças de status
+CREATE TABLE IF NOT EXISTS appointment_status_history (
+  id SERIAL PRIMARY KEY,
+  user_id TEXT NOT NULL,
+  appointment_id INTEGER NOT NULL REFERENCES appointments(id) ON DELETE CASCADE,
+  from_status TEXT,
+  to_status TEXT NOT NULL,
+  reason TEXT,
+  changed_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_appointment_status_history_appointment ON appointment_status_history(appointment_id, changed_at);
+
+
+-- ETAPA 4: Cancelamentos e faltas libertam o horário
+-- Recria a constraint da migração 15 para ignorar os agendamentos que já não ocupam o profissional.
+ALTER TABLE appointments DROP CONSTRAINT IF EXISTS appointments_no_overlap;
+
+ALTER TABLE appointments ADD CONSTRAINT appointments_no_overlap
+EXCLUDE USING gist (professional_id WITH =, tsrange(appointment_date, end_date) WITH &&)
+WHERE (status NOT IN ('no_show', 'cancelled_by_client', 'cancelled_by_salon'));
+
+
+-- =====================================================
+-- COMENTÁRIOS DE DOCUMENTAÇÃO
+-- =====================================================
+COMMENT ON COLUMN appointments.status IS 'Status do agendamento no seu ciclo de vida (scheduled, confirmed, checked_in, in_service, completed, no_show, cancelled_by_client, cancelled_by_salon).';
+COMMENT ON TABLE appointment_status_history IS 'Histórico das mudanças de status de cada agendamento, com data e motivo.';
+COMMENT ON COLUMN appointment_status_history.from_status IS 'Status anterior (nulo na criação do agendamento).';
+COMMENT ON CONSTRAINT appointments_no_overlap ON appointments IS 'Um profissional não pode ter dois agendamentos ativos com horários sobrepostos.';
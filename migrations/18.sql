@@ -0,0 +1,42 @@
+-- =====================================================
+-- MIGRAÇÃO 18: AGENDAMENTOS COM VÁRIOS SERVIÇOS
+-- =====================================================
+-- Este script cria a tabela `appointment_services`, com as linhas de serviço
+-- de cada agendamento (ex.: corte + coloração + escova), cada uma com o seu
+-- preço, duração e, opcionalmente, outro profissional.
+-- As colunas `service_id`, `service` e `price` de `appointments` continuam a
+-- existir como resumo (primeiro serviço, nomes concatenados e preço total).
+
+-- ETAPA 1: Criar a tabela de linhas de serviço
+CREATE TABLE IF NOT EXISTS appointment_services (
+  id SERIAL PRIMARY KEY,
+  user_id TEXT NOT NULL,
+  appointment_id INTEGER NOT NULL REFERENCES appointments(id) ON DELETE CASCADE,
+  service_id INTEGER REFERENCES services(id) ON DELETE SET NULL,
+  service TEXT NOT NULL,                 -- Nome do serviço no momento do agendamento
+  price INTEGER NOT NULL CHECK (price >= 0),
+  duration INTEGER NOT NULL CHECK (duration > 0),
+  professional_id INTEGER REFERENCES professionals(id) ON DELETE SET NULL,
+  position INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_appointment_services_appointment ON appointment_services(appointment_id, position);
+CREATE INDEX IF NOT EXISTS idx_appointment_services_professional ON appointment_services(professional_id);
+
+
+-- ETAPA 2: Criar uma linha para cada agendamento existente
+INSERT INTO appointment_services (user_id, appointment_id, service_id, service, price, duration, position)
+SELECT a.user_id, a.id, a.service_id, a.service, a.price,
+       GREATEST(1, (EXTRACT(EPOCH FROM (a.end_date - a.appointment_date)) / 60)::INTEGER), 0
+FROM appointments a
+WHERE NOT EXISTS (SELECT 1 FROM appointment_services s WHERE s.appointment_id = a.id);
+
+
+-- =====================================================
+-- COMENTÁRIOS DE DOCUMENTAÇÃO
+-- =====================================================
+COMMENT ON TABLE appointment_services IS 'Serviços de cada agendamento, executados pela ordem de `position`.';
+COMMENT ON COLUMN appointment_services.price IS 'Preço da linha em centavos.';
+COMMENT ON COLUMN appointment_services.duration IS 'Duração da linha em minutos.';
+COMMENT ON COLUMN appointment_services.professional_id IS 'Profissional que executa a linha (nulo: o profissional do agendamento).';
@@ -0,0 +1,58 @@
+-- =====================================================
+-- MIGRAÇÃO 19: AGENDAMENTO ONLINE
+-- =====================================================
+-- Este script cria as configurações da página pública de agendamento de cada
+-- salão (endereço, janela de agendamento e antecedência mínima), marca a origem
+-- de cada agendamento e regista os pedidos públicos para limitar abusos.
+-- Os agendamentos feitos pela página pública ficam com o status 'scheduled'
+-- até serem confirmados pelo salão.
+
+-- ETAPA 1: Configurações do agendamento online (uma linha por salão)
+CREATE TABLE IF NOT EXISTS booking_settings (
+  id SERIAL PRIMARY KEY,
+  user_id TEXT NOT NULL UNIQUE,
+  slug TEXT NOT NULL UNIQUE CHECK (slug ~ '^[a-z0-9]+(-[a-z0-9]+)*$'),
+  salon_name TEXT NOT NULL,
+  enabled BOOLEAN NOT NULL DEFAULT FALSE,
+  booking_window_days INTEGER NOT NULL DEFAULT 30 CHECK (booking_window_days BETWEEN 1 AND 365),
+  lead_time_minutes INTEGER NOT NULL DEFAULT 120 CHECK (lead_time_minutes >= 0),
+  timezone TEXT NOT NULL DEFAULT 'America/Sao_Paulo',
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+
+-- ETAPA 2: Origem do agendamento
+ALTER TABLE appointments ADD COLUMN IF NOT EXISTS source TEXT NOT NULL DEFAULT 'staff';
+
+DO $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM information_schema.table_constraints
+                   WHERE constraint_name = 'chk_appointments_source') THEN
+        ALTER TABLE appointments ADD CONSTRAINT chk_appointments_source
+        CHECK (source IN ('staff', 'online'));
+    END IF;
+END $$;
+
+
+-- ETAPA 3: Pedidos feitos à página pública, para o limite de agendamentos por origem
+CREATE TABLE IF NOT EXISTS booking_attempts (
+  id SERIAL PRIMARY KEY,
+  slug TEXT NOT NULL,
+  client_key TEXT NOT NULL,              -- IP de quem fez o pedido
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_booking_attempts_lookup ON booking_attempts(slug, client_key, created_at);
+
+
+-- =====================================================
+-- COMENTÁRIOS DE DOCUMENTAÇÃO
+-- =====================================================
+COMMENT ON TABLE booking_settings IS 'Configurações da página pública de agendamento de cada salão.';
+COMMENT ON COLUMN booking_settings.slug IS 'Endereço da página pública (/book/<slug>).';
+COMMENT ON COLUMN booking_settings.booking_window_days IS 'Até quantos dias à frente os clientes podem agendar.';
+COMMENT ON COLUMN booking_settings.lead_time_minutes IS 'Antecedência mínima, em minutos, de um agendamento online.';
+COMMENT ON COLUMN booking_settings.timezone IS 'Fuso horário do salão, usado para calcular a antecedência no servidor.';
+COMMENT ON COLUMN appointments.source IS 'Origem do agendamento: staff (criado na aplicação) ou online (página pública).';
+COMMENT ON TABLE booking_attempts IS 'Pedidos de agendamento feitos à página pública, usados para limitar abusos.';
@@ -0,0 +1,46 @@
+-- =====================================================
+-- MIGRAÇÃO 20: LINKS DE GESTÃO DE AGENDAMENTO
+-- =====================================================
+-- Este script adiciona a política de cancelamento do agendamento online e a
+-- tabela `appointment_changes`, onde fica registada cada alteração que o cliente
+-- faz através do link de gestão (cancelamento ou remarcação) até a equipa a ver.
+-- Os links são tokens assinados pelo Worker e não são guardados no banco.
+
+-- ETAPA 1: Política de cancelamento
+ALTER TABLE booking_settings ADD COLUMN IF NOT EXISTS cancellation_notice_hours INTEGER NOT NULL DEFAULT 24;
+ALTER TABLE booking_settings ADD COLUMN IF NOT EXISTS cancellation_policy TEXT;
+
+DO $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM information_schema.table_constraints
+                   WHERE constraint_name = 'chk_booking_settings_cancellation_notice') THEN
+        ALTER TABLE booking_settings ADD CONSTRAINT chk_booking_settings_cancellation_notice
+        CHECK (cancellation_notice_hours >= 0);
+    END IF;
+END $$;
+
+
+-- ETAPA 2: Alterações feitas pelos clientes
+CREATE TABLE IF NOT EXISTS appointment_changes (
+  id SERIAL PRIMARY KEY,
+  user_id TEXT NOT NULL,
+  appointment_id INTEGER NOT NULL REFERENCES appointments(id) ON DELETE CASCADE,
+  action TEXT NOT NULL CHECK (action IN ('rescheduled', 'cancelled')),
+  previous_date TIMESTAMP,               -- Início antes da alteração
+  new_date TIMESTAMP,                    -- Novo início (remarcação)
+  reason TEXT,
+  seen_at TIMESTAMP WITH TIME ZONE,      -- Quando a equipa marcou como vista
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_appointment_changes_unseen ON appointment_changes(user_id, created_at) WHERE seen_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_appointment_changes_appointment ON appointment_changes(appointment_id);
+
+
+-- =====================================================
+-- COMENTÁRIOS DE DOCUMENTAÇÃO
+-- =====================================================
+COMMENT ON COLUMN booking_settings.cancellation_notice_hours IS 'Antecedência mínima, em horas, para o cliente cancelar ou remarcar pelo link.';
+COMMENT ON COLUMN booking_settings.cancellation_policy IS 'Texto da política de cancelamento mostrado ao cliente.';
+COMMENT ON TABLE appointment_changes IS 'Cancelamentos e remarcações feitos pelos clientes através do link de gestão.';
+COMMENT ON COLUMN appointment_changes.seen_at IS 'Nulo enquanto a alteração não for vista pela equipa.';
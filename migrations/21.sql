@@ -0,0 +1,39 @@
+-- =====================================================
+-- MIGRAÇÃO 21: LISTA DE ESPERA
+-- =====================================================
+-- Este script cria a tabela `waitlist_entries`, com os clientes que pediram um
+-- horário sem vaga: serviço desejado, profissional preferido (ou qualquer um),
+-- período de datas e janela de horário. Quando um agendamento nessa janela é
+-- cancelado ou excluído, o pedido passa a 'matched' e guarda a vaga encontrada.
+
+-- ETAPA 1: Criar a tabela da lista de espera
+CREATE TABLE IF NOT EXISTS waitlist_entries (
+  id SERIAL PRIMARY KEY,
+  user_id TEXT NOT NULL,
+  client_id INTEGER NOT NULL REFERENCES clients(id) ON DELETE CASCADE,
+  service_id INTEGER NOT NULL REFERENCES services(id) ON DELETE CASCADE,
+  professional_id INTEGER REFERENCES professionals(id) ON DELETE SET NULL, -- Nulo: qualquer profissional
+  start_date DATE NOT NULL,
+  end_date DATE NOT NULL,
+  start_time TIME,                       -- Janela do dia (nula: qualquer horário)
+  end_time TIME,
+  notes TEXT,
+  status TEXT NOT NULL DEFAULT 'waiting' CHECK (status IN ('waiting', 'matched', 'booked', 'cancelled')),
+  matched_date TIMESTAMP,                -- Início da vaga encontrada
+  matched_professional_id INTEGER REFERENCES professionals(id) ON DELETE SET NULL,
+  matched_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  CONSTRAINT chk_waitlist_dates CHECK (end_date >= start_date),
+  CONSTRAINT chk_waitlist_times CHECK ((start_time IS NULL) = (end_time IS NULL) AND (end_time IS NULL OR end_time > start_time))
+);
+
+CREATE INDEX IF NOT EXISTS idx_waitlist_entries_status ON waitlist_entries(user_id, status, start_date, end_date);
+
+
+-- =====================================================
+-- COMENTÁRIOS DE DOCUMENTAÇÃO
+-- =====================================================
+COMMENT ON TABLE waitlist_entries IS 'Lista de espera: clientes à procura de um horário sem vaga.';
+COMMENT ON COLUMN waitlist_entries.status IS 'waiting (à espera), matched (abriu uma vaga), booked (agendado) ou cancelled (desistiu).';
+COMMENT ON COLUMN waitlist_entries.matched_date IS 'Início da vaga libertada que corresponde ao pedido.';
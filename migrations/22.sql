@@ -0,0 +1,65 @@
+-- =====================================================
+-- MIGRAÇÃO 22: LEMBRETES DE AGENDAMENTO
+-- =====================================================
+-- Este script cria as configurações dos lembretes automáticos, os modelos das
+-- mensagens e o registo de cada mensagem enviada aos clientes, com o estado da
+-- entrega. Os lembretes são enviados pelo Worker (tarefa agendada) quando faltam
+-- `reminder_hours_before` horas para o agendamento.
+
+-- ETAPA 1: Configurações dos lembretes (uma linha por salão)
+CREATE TABLE IF NOT EXISTS notification_settings (
+  id SERIAL PRIMARY KEY,
+  user_id TEXT NOT NULL UNIQUE,
+  reminders_enabled BOOLEAN NOT NULL DEFAULT false,
+  channel TEXT NOT NULL DEFAULT 'whatsapp' CHECK (channel IN ('email', 'sms', 'whatsapp')),
+  reminder_hours_before INTEGER NOT NULL DEFAULT 24 CHECK (reminder_hours_before BETWEEN 1 AND 168),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+
+-- ETAPA 2: Modelos das mensagens (sem modelo, é usado o texto padrão)
+CREATE TABLE IF NOT EXISTS message_templates (
+  id SERIAL PRIMARY KEY,
+  user_id TEXT NOT NULL,
+  kind TEXT NOT NULL CHECK (kind IN ('reminder')),
+  channel TEXT NOT NULL CHECK (channel IN ('email', 'sms', 'whatsapp')),
+  subject TEXT,                          -- Só para e-mail
+  body TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE (user_id, kind, channel)
+);
+
+
+-- ETAPA 3: Mensagens enviadas
+CREATE TABLE IF NOT EXISTS notifications (
+  id SERIAL PRIMARY KEY,
+  user_id TEXT NOT NULL,
+  appointment_id INTEGER NOT NULL REFERENCES appointments(id) ON DELETE CASCADE,
+  kind TEXT NOT NULL CHECK (kind IN ('reminder')),
+  channel TEXT NOT NULL CHECK (channel IN ('email', 'sms', 'whatsapp')),
+  recipient TEXT,                        -- Nulo quando o cliente não tem contato no canal
+  subject TEXT,
+  body TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'sent', 'failed')),
+  provider TEXT,
+  provider_message_id TEXT,
+  error TEXT,
+  reference_date TIMESTAMP NOT NULL,     -- Início do agendamento a que a mensagem se refere
+  sent_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  -- Um lembrete por horário: remarcar o agendamento gera um novo
+  UNIQUE (appointment_id, kind, reference_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_notifications_appointment ON notifications(appointment_id, created_at);
+
+
+-- =====================================================
+-- COMENTÁRIOS DE DOCUMENTAÇÃO
+-- =====================================================
+COMMENT ON TABLE notification_settings IS 'Lembretes automáticos: canal e antecedência do envio.';
+COMMENT ON TABLE message_templates IS 'Textos das mensagens, com marcadores como {{client_name}}.';
+COMMENT ON TABLE notifications IS 'Mensagens enviadas aos clientes e o estado da entrega.';
+COMMENT ON COLUMN notifications.reference_date IS 'Início do agendamento quando a mensagem foi gerada; evita lembretes repetidos.';
@@ -0,0 +1,36 @@
+-- =====================================================
+-- MIGRAÇÃO 23: MODELOS DE MENSAGEM EDITÁVEIS
+-- =====================================================
+-- Este script acrescenta os tipos de mensagem de aniversário e de pós-atendimento
+-- aos modelos e às mensagens enviadas. Os modelos passam a ser editados nas
+-- Configurações; sem modelo gravado, é usado o texto padrão.
+
+-- ETAPA 1: Novos tipos nos modelos
+DO $$
+BEGIN
+    ALTER TABLE message_templates DROP CONSTRAINT IF EXISTS message_templates_kind_check;
+    IF NOT EXISTS (SELECT 1 FROM information_schema.table_constraints
+                   WHERE constraint_name = 'chk_message_templates_kind') THEN
+        ALTER TABLE message_templates ADD CONSTRAINT chk_message_templates_kind
+        CHECK (kind IN ('reminder', 'birthday', 'post_visit'));
+    END IF;
+END $$;
+
+
+-- ETAPA 2: Novos tipos nas mensagens enviadas
+DO $$
+BEGIN
+    ALTER TABLE notifications DROP CONSTRAINT IF EXISTS notifications_kind_check;
+    IF NOT EXISTS (SELECT 1 FROM information_schema.table_constraints
+                   WHERE constraint_name = 'chk_notifications_kind') THEN
+        ALTER TABLE notifications ADD CONSTRAINT chk_notifications_kind
+        CHECK (kind IN ('reminder', 'birthday', 'post_visit'));
+    END IF;
+END $$;
+
+
+-- =====================================================
+-- COMENTÁRIOS DE DOCUMENTAÇÃO
+-- =====================================================
+COMMENT ON COLUMN message_templates.kind IS 'reminder (lembrete), birthday (aniversário) ou post_visit (pós-atendimento).';
+COMMENT ON COLUMN message_templates.body IS 'Texto com marcadores como {{client_name}}; marcadores desconhecidos são recusados ao salvar.';
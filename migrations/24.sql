@@ -0,0 +1,26 @@
+-- =====================================================
+-- MIGRAÇÃO 24: NOTAS DO CLIENTE
+-- =====================================================
+-- Este script cria a tabela `client_notes`, com as anotações livres feitas sobre
+-- um cliente ao longo do tempo (preferências, reações a produtos, conversas...).
+-- Ao contrário do campo `clients.notes`, cada nota fica registada com a sua data
+-- e é mostrada numa linha do tempo na ficha do cliente.
+
+-- ETAPA 1: Criar a tabela das notas
+CREATE TABLE IF NOT EXISTS client_notes (
+  id SERIAL PRIMARY KEY,
+  user_id TEXT NOT NULL,
+  client_id INTEGER NOT NULL REFERENCES clients(id) ON DELETE CASCADE,
+  note TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+-- ETAPA 2: Índices para a ficha do cliente
+CREATE INDEX IF NOT EXISTS idx_client_notes_client ON client_notes(client_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_appointments_client ON appointments(client_id, appointment_date);
+
+
+-- =====================================================
+-- COMENTÁRIOS DE DOCUMENTAÇÃO
+-- =====================================================
+COMMENT ON TABLE client_notes IS 'Anotações livres sobre um cliente, mostradas por ordem cronológica na ficha do cliente.';
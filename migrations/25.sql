@@ -0,0 +1,42 @@
+-- =====================================================
+-- MIGRAÇÃO 25: FICHA COMPLETA DO CLIENTE
+-- =====================================================
+-- Este script acrescenta à tabela `clients` os dados usados no atendimento e no
+-- marketing: data de nascimento, CPF, endereço, profissional preferido, notas
+-- técnicas (alergias, fórmula de coloração...), consentimento de marketing e
+-- etiquetas livres. O CPF é guardado só com os dígitos e é único por salão.
+
+-- ETAPA 1: Novas colunas
+ALTER TABLE clients ADD COLUMN IF NOT EXISTS birthday DATE;
+ALTER TABLE clients ADD COLUMN IF NOT EXISTS cpf TEXT;
+ALTER TABLE clients ADD COLUMN IF NOT EXISTS address TEXT;
+ALTER TABLE clients ADD COLUMN IF NOT EXISTS preferred_professional_id INTEGER REFERENCES professionals(id) ON DELETE SET NULL;
+ALTER TABLE clients ADD COLUMN IF NOT EXISTS technical_notes TEXT;
+ALTER TABLE clients ADD COLUMN IF NOT EXISTS marketing_consent BOOLEAN NOT NULL DEFAULT FALSE;
+ALTER TABLE clients ADD COLUMN IF NOT EXISTS tags TEXT[] NOT NULL DEFAULT '{}';
+
+
+-- ETAPA 2: CPF com 11 dígitos, sem repetição no mesmo salão
+DO $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM information_schema.table_constraints
+                   WHERE constraint_name = 'chk_clients_cpf') THEN
+        ALTER TABLE clients ADD CONSTRAINT chk_clients_cpf CHECK (cpf IS NULL OR cpf ~ '^[0-9]{11}$');
+    END IF;
+END $$;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_clients_user_cpf ON clients(user_id, cpf) WHERE cpf IS NOT NULL;
+
+
+-- ETAPA 3: Índices para os filtros da lista de clientes
+CREATE INDEX IF NOT EXISTS idx_clients_tags ON clients USING GIN (tags);
+CREATE INDEX IF NOT EXISTS idx_clients_preferred_professional ON clients(preferred_professional_id);
+
+
+-- =====================================================
+-- COMENTÁRIOS DE DOCUMENTAÇÃO
+-- =====================================================
+COMMENT ON COLUMN clients.cpf IS 'CPF só com os dígitos (11), único por salão.';
+COMMENT ON COLUMN clients.technical_notes IS 'Notas técnicas do atendimento: alergias, fórmula de coloração, produtos usados.';
+COMMENT ON COLUMN clients.marketing_consent IS 'O cliente aceitou receber mensagens promocionais.';
+COMMENT ON COLUMN clients.tags IS 'Etiquetas livres usadas para filtrar a lista de clientes (ex.: VIP, noiva).';
@@ -0,0 +1,32 @@
+-- =====================================================
+-- MIGRAÇÃO 26: FUSÃO DE CLIENTES DUPLICADOS
+-- =====================================================
+-- Este script cria a tabela `client_merges`, o registo de auditoria das fusões
+-- de clientes. Ao fundir um duplicado no cliente mantido, os seus agendamentos,
+-- pedidos da lista de espera e notas passam para o cliente mantido e o duplicado
+-- é excluído; aqui fica uma cópia dos seus dados e do que foi transferido.
+
+-- ETAPA 1: Criar a tabela de auditoria
+CREATE TABLE IF NOT EXISTS client_merges (
+  id SERIAL PRIMARY KEY,
+  user_id TEXT NOT NULL,
+  surviving_client_id INTEGER REFERENCES clients(id) ON DELETE SET NULL,
+  merged_client_id INTEGER NOT NULL,        -- Sem chave estrangeira: o cliente já foi excluído
+  merged_client JSONB NOT NULL,             -- Dados do duplicado no momento da fusão
+  appointment_ids INTEGER[] NOT NULL DEFAULT '{}',
+  waitlist_entry_ids INTEGER[] NOT NULL DEFAULT '{}',
+  note_ids INTEGER[] NOT NULL DEFAULT '{}',
+  financial_entry_ids INTEGER[] NOT NULL DEFAULT '{}',
+  merged_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_client_merges_user ON client_merges(user_id, merged_at);
+CREATE INDEX IF NOT EXISTS idx_client_merges_surviving ON client_merges(surviving_client_id);
+
+
+-- =====================================================
+-- COMENTÁRIOS DE DOCUMENTAÇÃO
+-- =====================================================
+COMMENT ON TABLE client_merges IS 'Auditoria das fusões de clientes duplicados.';
+COMMENT ON COLUMN client_merges.merged_client IS 'Cópia do registo do cliente duplicado, tal como estava antes de ser excluído.';
+COMMENT ON COLUMN client_merges.financial_entry_ids IS 'Receitas de atendimento cuja descrição passou a ter o nome do cliente mantido.';
@@ -0,0 +1,45 @@
+-- =====================================================
+-- MIGRAÇÃO 27: PEDIDOS DOS TITULARES (LGPD)
+-- =====================================================
+-- Este script acrescenta à tabela `clients` as datas dos consentimentos e da
+-- anonimização e cria a tabela `data_subject_requests`, o registo dos pedidos
+-- dos clientes atendidos com base na LGPD: exportação dos dados, anonimização
+-- (os dados pessoais são apagados, mas os agendamentos e os lançamentos
+-- financeiros ficam) e exclusão.
+
+-- ETAPA 1: Consentimentos e anonimização do cliente
+ALTER TABLE clients ADD COLUMN IF NOT EXISTS marketing_consent_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE clients ADD COLUMN IF NOT EXISTS privacy_consent_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE clients ADD COLUMN IF NOT EXISTS anonymized_at TIMESTAMP WITH TIME ZONE;
+
+
+-- ETAPA 2: Registo dos pedidos atendidos
+CREATE TABLE IF NOT EXISTS data_subject_requests (
+  id SERIAL PRIMARY KEY,
+  user_id TEXT NOT NULL,
+  client_id INTEGER NOT NULL,               -- Sem chave estrangeira: o registo fica após a exclusão
+  request_type TEXT NOT NULL,
+  notes TEXT,
+  fulfilled_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+DO $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM information_schema.table_constraints
+                   WHERE constraint_name = 'chk_data_subject_requests_type') THEN
+        ALTER TABLE data_subject_requests ADD CONSTRAINT chk_data_subject_requests_type
+          CHECK (request_type IN ('export', 'anonymization', 'deletion'));
+    END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_data_subject_requests_client ON data_subject_requests(client_id, fulfilled_at);
+CREATE INDEX IF NOT EXISTS idx_data_subject_requests_user ON data_subject_requests(user_id, fulfilled_at);
+
+
+-- =====================================================
+-- COMENTÁRIOS DE DOCUMENTAÇÃO
+-- =====================================================
+COMMENT ON COLUMN clients.marketing_consent_at IS 'Data da última mudança do consentimento de marketing.';
+COMMENT ON COLUMN clients.privacy_consent_at IS 'Data em que o cliente autorizou o tratamento dos seus dados; nula se não autorizou.';
+COMMENT ON COLUMN clients.anonymized_at IS 'Data da anonimização; os dados pessoais do cliente foram apagados.';
+COMMENT ON TABLE data_subject_requests IS 'Pedidos LGPD atendidos (exportação, anonimização, exclusão), sem dados pessoais.';
@@ -0,0 +1,93 @@
+-- =====================================================
+-- MIGRAÇÃO 28: PROGRAMA DE FIDELIDADE
+-- =====================================================
+-- Este script cria o programa de fidelidade: as regras de acumulação de cada
+-- salão, os prêmios que os clientes podem resgatar e o extrato de pontos de cada
+-- cliente. Os pontos são ganhos nos atendimentos concluídos e nas vendas de
+-- produtos, guardadas na nova tabela `product_sales`.
+
+-- ETAPA 1: Regras de acumulação (uma linha por salão)
+CREATE TABLE IF NOT EXISTS loyalty_settings (
+  id SERIAL PRIMARY KEY,
+  user_id TEXT NOT NULL UNIQUE,
+  enabled BOOLEAN NOT NULL DEFAULT false,
+  points_per_real NUMERIC(6, 2) NOT NULL DEFAULT 1 CHECK (points_per_real >= 0),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Pontos fixos por serviço; sem valor, o serviço rende `points_per_real` por real gasto
+ALTER TABLE services ADD COLUMN IF NOT EXISTS loyalty_points INTEGER CHECK (loyalty_points >= 0);
+
+
+-- ETAPA 2: Prêmios resgatáveis
+CREATE TABLE IF NOT EXISTS loyalty_rewards (
+  id SERIAL PRIMARY KEY,
+  user_id TEXT NOT NULL,
+  name TEXT NOT NULL,
+  points_cost INTEGER NOT NULL CHECK (points_cost > 0),
+  reward_type TEXT NOT NULL CHECK (reward_type IN ('free_service', 'discount')),
+  service_id INTEGER REFERENCES services(id) ON DELETE CASCADE, -- Só no serviço grátis
+  discount_amount INTEGER CHECK (discount_amount > 0),          -- Só no desconto, em centavos
+  active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+DO $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM information_schema.table_constraints
+                   WHERE constraint_name = 'chk_loyalty_rewards_value') THEN
+        ALTER TABLE loyalty_rewards ADD CONSTRAINT chk_loyalty_rewards_value
+          CHECK ((reward_type = 'free_service' AND service_id IS NOT NULL) OR (reward_type = 'discount' AND discount_amount IS NOT NULL));
+    END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_loyalty_rewards_user ON loyalty_rewards(user_id);
+
+
+-- ETAPA 3: Vendas de produtos
+CREATE TABLE IF NOT EXISTS product_sales (
+  id SERIAL PRIMARY KEY,
+  user_id TEXT NOT NULL,
+  product_id INTEGER REFERENCES products(id) ON DELETE SET NULL,
+  client_id INTEGER REFERENCES clients(id) ON DELETE SET NULL, -- Venda sem cliente: não rende pontos
+  product_name TEXT NOT NULL,               -- Nome no momento da venda
+  quantity INTEGER NOT NULL CHECK (quantity > 0),
+  unit_price INTEGER NOT NULL CHECK (unit_price >= 0), -- Em centavos
+  total INTEGER NOT NULL CHECK (total >= 0),           -- Em centavos
+  sold_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_product_sales_user ON product_sales(user_id, sold_at);
+CREATE INDEX IF NOT EXISTS idx_product_sales_client ON product_sales(client_id);
+
+
+-- ETAPA 4: Extrato de pontos
+CREATE TABLE IF NOT EXISTS loyalty_transactions (
+  id SERIAL PRIMARY KEY,
+  user_id TEXT NOT NULL,
+  client_id INTEGER NOT NULL REFERENCES clients(id) ON DELETE CASCADE,
+  points INTEGER NOT NULL CHECK (points <> 0), -- Negativo nos resgates
+  kind TEXT NOT NULL CHECK (kind IN ('earn', 'redeem', 'adjustment')),
+  description TEXT NOT NULL,
+  appointment_id INTEGER REFERENCES appointments(id) ON DELETE SET NULL,
+  product_sale_id INTEGER REFERENCES product_sales(id) ON DELETE SET NULL,
+  reward_id INTEGER REFERENCES loyalty_rewards(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_loyalty_transactions_client ON loyalty_transactions(client_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_loyalty_transactions_appointment ON loyalty_transactions(appointment_id);
+
+
+-- =====================================================
+-- COMENTÁRIOS DE DOCUMENTAÇÃO
+-- =====================================================
+COMMENT ON TABLE loyalty_settings IS 'Regras do programa de fidelidade de cada salão.';
+COMMENT ON COLUMN loyalty_settings.points_per_real IS 'Pontos ganhos por cada real gasto em serviços sem pontos fixos e em produtos.';
+COMMENT ON COLUMN services.loyalty_points IS 'Pontos fixos ganhos com o serviço; nulo para usar a taxa por real do salão.';
+COMMENT ON TABLE loyalty_rewards IS 'Prêmios do programa de fidelidade: serviço grátis ou desconto.';
+COMMENT ON TABLE product_sales IS 'Vendas de produtos; cada venda gera uma receita em financial_entries.';
+COMMENT ON TABLE loyalty_transactions IS 'Extrato de pontos de cada cliente; o saldo é a soma dos pontos.';
+COMMENT ON COLUMN loyalty_transactions.appointment_id IS 'Atendimento que rendeu os pontos; os pontos saem se o atendimento deixar de estar concluído.';
@@ -0,0 +1,65 @@
+-- =====================================================
+-- MIGRAÇÃO 29: PACOTES DE SESSÕES PRÉ-PAGAS
+-- =====================================================
+-- Este script cria os pacotes de serviços (ex.: "10 sessões de hidratação"), as
+-- vendas de pacotes aos clientes e o consumo das sessões. A receita do pacote é
+-- lançada uma única vez, na venda; cada linha de um atendimento concluído coberta
+-- por um pacote do cliente consome uma sessão e deixa de gerar receita própria.
+
+-- ETAPA 1: Pacotes à venda
+CREATE TABLE IF NOT EXISTS service_packages (
+  id SERIAL PRIMARY KEY,
+  user_id TEXT NOT NULL,
+  name TEXT NOT NULL,
+  description TEXT,
+  service_ids INTEGER[] NOT NULL,          -- Serviços cobertos; cada sessão vale para qualquer um deles
+  sessions INTEGER NOT NULL CHECK (sessions > 0),
+  price INTEGER NOT NULL CHECK (price > 0), -- Em centavos
+  validity_days INTEGER CHECK (validity_days > 0), -- Nulo: sem prazo
+  active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_service_packages_user ON service_packages(user_id);
+
+
+-- ETAPA 2: Pacotes vendidos (cópia das condições no momento da venda)
+CREATE TABLE IF NOT EXISTS client_packages (
+  id SERIAL PRIMARY KEY,
+  user_id TEXT NOT NULL,
+  client_id INTEGER NOT NULL REFERENCES clients(id) ON DELETE CASCADE,
+  package_id INTEGER REFERENCES service_packages(id) ON DELETE SET NULL,
+  package_name TEXT NOT NULL,
+  service_ids INTEGER[] NOT NULL,
+  sessions_total INTEGER NOT NULL CHECK (sessions_total > 0),
+  price INTEGER NOT NULL CHECK (price >= 0), -- Em centavos
+  purchased_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  expires_at DATE                            -- Último dia de uso; nulo: sem prazo
+);
+
+CREATE INDEX IF NOT EXISTS idx_client_packages_client ON client_packages(client_id);
+
+
+-- ETAPA 3: Sessões consumidas (uma por linha de serviço do atendimento)
+CREATE TABLE IF NOT EXISTS package_session_uses (
+  id SERIAL PRIMARY KEY,
+  user_id TEXT NOT NULL,
+  client_package_id INTEGER NOT NULL REFERENCES client_packages(id) ON DELETE CASCADE,
+  appointment_id INTEGER NOT NULL REFERENCES appointments(id) ON DELETE CASCADE,
+  service_id INTEGER NOT NULL,
+  used_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_package_session_uses_package ON package_session_uses(client_package_id);
+CREATE INDEX IF NOT EXISTS idx_package_session_uses_appointment ON package_session_uses(appointment_id);
+
+
+-- =====================================================
+-- COMENTÁRIOS DE DOCUMENTAÇÃO
+-- =====================================================
+COMMENT ON TABLE service_packages IS 'Pacotes de sessões pré-pagas à venda no salão.';
+COMMENT ON TABLE client_packages IS 'Pacotes vendidos; a receita é lançada em financial_entries no momento da venda.';
+COMMENT ON COLUMN client_packages.expires_at IS 'Último dia em que as sessões podem ser usadas.';
+COMMENT ON TABLE package_session_uses IS 'Sessões consumidas; o saldo do pacote é sessions_total menos as sessões usadas.';
+COMMENT ON COLUMN package_session_uses.appointment_id IS 'Atendimento concluído que consumiu a sessão; a sessão volta ao pacote se deixar de estar concluído.';
@@ -0,0 +1,81 @@
+-- =====================================================
+-- MIGRAÇÃO 30: PLANOS DE ASSINATURA (CLUBES MENSAIS)
+-- =====================================================
+-- Este script cria os planos de assinatura (ex.: "cortes ilimitados por R$ X/mês"),
+-- as assinaturas dos clientes e as mensalidades lançadas. Cada mensalidade gera uma
+-- receita em financial_entries no início do ciclo; os serviços incluídos num plano
+-- ficam com preço zero no agendamento e contam como uso do ciclo.
+
+-- ETAPA 1: Planos à venda
+CREATE TABLE IF NOT EXISTS membership_plans (
+  id SERIAL PRIMARY KEY,
+  user_id TEXT NOT NULL,
+  name TEXT NOT NULL,
+  description TEXT,
+  service_ids INTEGER[] NOT NULL,                 -- Serviços incluídos
+  usage_limit INTEGER CHECK (usage_limit > 0),    -- Usos por ciclo mensal; nulo: ilimitado
+  monthly_price INTEGER NOT NULL CHECK (monthly_price > 0), -- Em centavos
+  active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_membership_plans_user ON membership_plans(user_id);
+
+
+-- ETAPA 2: Assinaturas dos clientes (cópia das condições do plano na adesão)
+CREATE TABLE IF NOT EXISTS client_memberships (
+  id SERIAL PRIMARY KEY,
+  user_id TEXT NOT NULL,
+  client_id INTEGER NOT NULL REFERENCES clients(id) ON DELETE CASCADE,
+  plan_id INTEGER REFERENCES membership_plans(id) ON DELETE SET NULL,
+  plan_name TEXT NOT NULL,
+  service_ids INTEGER[] NOT NULL,
+  usage_limit INTEGER CHECK (usage_limit > 0),
+  monthly_price INTEGER NOT NULL CHECK (monthly_price > 0),
+  status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'paused', 'cancelled')),
+  started_at DATE NOT NULL,                       -- O dia do mês marca o início de cada ciclo
+  paused_at TIMESTAMP WITH TIME ZONE,
+  cancelled_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_client_memberships_client ON client_memberships(client_id);
+CREATE INDEX IF NOT EXISTS idx_client_memberships_status ON client_memberships(user_id, status);
+
+-- Linha de serviço incluída numa assinatura (preço zero, conta como uso do ciclo)
+ALTER TABLE appointment_services ADD COLUMN IF NOT EXISTS client_membership_id INTEGER REFERENCES client_memberships(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_appointment_services_membership ON appointment_services(client_membership_id);
+
+
+-- ETAPA 3: Mensalidades lançadas (uma por ciclo)
+CREATE TABLE IF NOT EXISTS membership_billings (
+  id SERIAL PRIMARY KEY,
+  user_id TEXT NOT NULL,
+  client_membership_id INTEGER NOT NULL REFERENCES client_memberships(id) ON DELETE CASCADE,
+  period_start DATE NOT NULL,
+  amount INTEGER NOT NULL CHECK (amount > 0), -- Em centavos
+  financial_entry_id INTEGER REFERENCES financial_entries(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+DO $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM information_schema.table_constraints
+                   WHERE constraint_name = 'uq_membership_billings_period') THEN
+        ALTER TABLE membership_billings ADD CONSTRAINT uq_membership_billings_period
+          UNIQUE (client_membership_id, period_start);
+    END IF;
+END $$;
+
+
+-- =====================================================
+-- COMENTÁRIOS DE DOCUMENTAÇÃO
+-- =====================================================
+COMMENT ON TABLE membership_plans IS 'Planos de assinatura mensal com serviços incluídos.';
+COMMENT ON TABLE client_memberships IS 'Assinaturas dos clientes; só as ativas são cobradas e dão serviços sem custo.';
+COMMENT ON COLUMN client_memberships.started_at IS 'Data de adesão; cada ciclo começa neste dia do mês (ou no último dia dos meses mais curtos).';
+COMMENT ON COLUMN appointment_services.client_membership_id IS 'Assinatura que cobre a linha; definida na gravação do agendamento.';
+COMMENT ON TABLE membership_billings IS 'Mensalidades lançadas; a restrição única impede cobrar duas vezes o mesmo ciclo.';
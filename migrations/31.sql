@@ -0,0 +1,54 @@
+-- =====================================================
+-- MIGRAÇÃO 31: VALES-PRESENTE
+-- =====================================================
+-- Este script cria os vales-presente e o extrato de cada vale. A venda do vale é
+-- lançada como receita em financial_entries; o valor usado num atendimento é
+-- descontado da receita desse atendimento, para não ser contado duas vezes.
+
+-- ETAPA 1: Vales vendidos
+CREATE TABLE IF NOT EXISTS gift_cards (
+  id SERIAL PRIMARY KEY,
+  user_id TEXT NOT NULL,
+  code TEXT NOT NULL,                                          -- Código impresso no vale (ex.: "K7QM-3XPA")
+  initial_amount INTEGER NOT NULL CHECK (initial_amount > 0),  -- Em centavos
+  client_id INTEGER REFERENCES clients(id) ON DELETE SET NULL, -- Cliente que comprou (opcional)
+  recipient_name TEXT,
+  message TEXT,
+  expires_at DATE,                                             -- Último dia de uso; nulo: sem prazo
+  sold_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+DO $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM information_schema.table_constraints
+                   WHERE constraint_name = 'uq_gift_cards_code') THEN
+        ALTER TABLE gift_cards ADD CONSTRAINT uq_gift_cards_code UNIQUE (user_id, code);
+    END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_gift_cards_client ON gift_cards(client_id);
+
+
+-- ETAPA 2: Extrato (o saldo é a soma dos movimentos)
+CREATE TABLE IF NOT EXISTS gift_card_transactions (
+  id SERIAL PRIMARY KEY,
+  user_id TEXT NOT NULL,
+  gift_card_id INTEGER NOT NULL REFERENCES gift_cards(id) ON DELETE CASCADE,
+  amount INTEGER NOT NULL CHECK (amount <> 0), -- Em centavos; positivo na emissão e nos estornos
+  kind TEXT NOT NULL CHECK (kind IN ('issue', 'redeem', 'refund')),
+  appointment_id INTEGER REFERENCES appointments(id) ON DELETE SET NULL,
+  description TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_gift_card_transactions_card ON gift_card_transactions(gift_card_id);
+CREATE INDEX IF NOT EXISTS idx_gift_card_transactions_appointment ON gift_card_transactions(appointment_id);
+
+
+-- =====================================================
+-- COMENTÁRIOS DE DOCUMENTAÇÃO
+-- =====================================================
+COMMENT ON TABLE gift_cards IS 'Vales-presente; a venda é lançada como receita no momento da emissão.';
+COMMENT ON COLUMN gift_cards.code IS 'Código único por salão, usado para resgatar o vale.';
+COMMENT ON TABLE gift_card_transactions IS 'Extrato dos vales: emissão, usos em atendimentos e estornos.';
+COMMENT ON COLUMN gift_card_transactions.appointment_id IS 'Atendimento pago com o vale; o valor é descontado da receita do atendimento ao concluir.';
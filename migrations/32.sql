@@ -0,0 +1,59 @@
+-- =====================================================
+-- MIGRAÇÃO 32: CUPONS E PROMOÇÕES
+-- =====================================================
+-- Este script cria as promoções (regras automáticas e cupons com código) e guarda em
+-- cada agendamento o valor bruto, o desconto e a promoção aplicada. A coluna `price`
+-- continua a ser o valor líquido, que é o lançado como receita ao concluir.
+
+-- ETAPA 1: Promoções
+CREATE TABLE IF NOT EXISTS promotions (
+  id SERIAL PRIMARY KEY,
+  user_id TEXT NOT NULL,
+  name TEXT NOT NULL,
+  code TEXT,                                    -- Nulo: regra automática; preenchido: cupom
+  discount_type TEXT NOT NULL CHECK (discount_type IN ('percent', 'fixed')),
+  discount_value INTEGER NOT NULL CHECK (discount_value > 0), -- Percentagem ou centavos
+  service_ids INTEGER[] NOT NULL DEFAULT '{}',  -- Vazio: todos os serviços
+  client_tags TEXT[] NOT NULL DEFAULT '{}',     -- Vazio: todos os clientes
+  weekdays SMALLINT[] NOT NULL DEFAULT '{}',    -- 0 = domingo; vazio: todos os dias
+  start_time TIME,                              -- Horário de início do agendamento abrangido
+  end_time TIME,
+  valid_from DATE,
+  valid_until DATE,
+  active BOOLEAN NOT NULL DEFAULT TRUE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+DO $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM information_schema.table_constraints
+                   WHERE constraint_name = 'chk_promotions_percent') THEN
+        ALTER TABLE promotions ADD CONSTRAINT chk_promotions_percent
+          CHECK (discount_type <> 'percent' OR discount_value <= 100);
+    END IF;
+END $$;
+
+CREATE UNIQUE INDEX IF NOT EXISTS uq_promotions_code ON promotions(user_id, code) WHERE code IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_promotions_user ON promotions(user_id);
+
+
+-- ETAPA 2: Valor bruto, desconto e promoção de cada agendamento
+ALTER TABLE appointments ADD COLUMN IF NOT EXISTS gross_price INTEGER;                    -- Nulo nos agendamentos anteriores: igual a `price`
+ALTER TABLE appointments ADD COLUMN IF NOT EXISTS discount_amount INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE appointments ADD COLUMN IF NOT EXISTS promotion_id INTEGER REFERENCES promotions(id) ON DELETE SET NULL;
+ALTER TABLE appointments ADD COLUMN IF NOT EXISTS coupon_code TEXT;                       -- Código usado, mantido mesmo que o cupom seja excluído
+
+ALTER TABLE appointment_services ADD COLUMN IF NOT EXISTS discount INTEGER NOT NULL DEFAULT 0; -- `price` já vem descontado
+
+CREATE INDEX IF NOT EXISTS idx_appointments_promotion ON appointments(promotion_id);
+
+
+-- =====================================================
+-- COMENTÁRIOS DE DOCUMENTAÇÃO
+-- =====================================================
+COMMENT ON TABLE promotions IS 'Promoções por dia da semana, horário, serviço, etiqueta do cliente e validade; com código são cupons.';
+COMMENT ON COLUMN promotions.discount_value IS 'Percentagem (1 a 100) ou valor fixo em centavos, conforme discount_type.';
+COMMENT ON COLUMN appointments.gross_price IS 'Soma dos preços antes do desconto, em centavos.';
+COMMENT ON COLUMN appointments.discount_amount IS 'Desconto da promoção aplicada, em centavos; price = gross_price - discount_amount.';
+COMMENT ON COLUMN appointment_services.discount IS 'Parte do desconto do agendamento atribuída a esta linha, em centavos.';
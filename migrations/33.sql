@@ -0,0 +1,33 @@
+-- =====================================================
+-- MIGRAÇÃO 33: TELEFONE NORMALIZADO DOS CLIENTES
+-- =====================================================
+-- Este script guarda em `clients.phone_digits` só os dígitos do telefone, mantidos
+-- por um trigger a cada gravação. O agendamento online encontra o cliente por esta
+-- coluna, com índice, em vez de ler e normalizar todos os clientes do salão.
+
+-- ETAPA 1: Nova coluna, preenchida para os clientes existentes
+ALTER TABLE clients ADD COLUMN IF NOT EXISTS phone_digits TEXT;
+
+UPDATE clients SET phone_digits = NULLIF(regexp_replace(phone, '[^0-9]', '', 'g'), '')
+WHERE phone IS NOT NULL AND phone_digits IS NULL;
+
+
+-- ETAPA 2: Trigger que mantém a coluna a cada gravação
+CREATE OR REPLACE FUNCTION set_client_phone_digits()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.phone_digits = NULLIF(regexp_replace(COALESCE(NEW.phone, ''), '[^0-9]', '', 'g'), '');
+    RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+DROP TRIGGER IF EXISTS set_clients_phone_digits ON clients;
+CREATE TRIGGER set_clients_phone_digits BEFORE INSERT OR UPDATE ON clients FOR EACH ROW EXECUTE FUNCTION set_client_phone_digits();
+
+CREATE INDEX IF NOT EXISTS idx_clients_user_phone_digits ON clients(user_id, phone_digits) WHERE phone_digits IS NOT NULL;
+
+
+-- =====================================================
+-- COMENTÁRIOS DE DOCUMENTAÇÃO
+-- =====================================================
+COMMENT ON COLUMN clients.phone_digits IS 'Só os dígitos de phone, mantidos pelo trigger set_clients_phone_digits.';
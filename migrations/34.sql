@@ -0,0 +1,41 @@
+-- =====================================================
+-- MIGRAÇÃO 34: EXCLUSÃO DE CLIENTES NUMA SÓ TRANSAÇÃO
+-- =====================================================
+-- Este script cria a função `delete_client`, chamada pela aplicação para atender um
+-- pedido de exclusão (LGPD). Os lançamentos financeiros dos agendamentos do cliente
+-- deixam de ter o nome dele, o pedido fica registado e o cliente é excluído (os
+-- agendamentos vão com ele, em cascata). Tudo acontece numa só transação: se um passo
+-- falhar, nada fica gravado, e o pedido nunca fica registado sem a exclusão.
+
+-- ETAPA 1: Função de exclusão
+-- Corre com as permissões de quem a chama (RLS), e só aceita clientes do próprio salão.
+CREATE OR REPLACE FUNCTION delete_client(p_client_id INTEGER)
+RETURNS VOID AS $$
+DECLARE
+    v_client clients%ROWTYPE;
+    v_suffix TEXT;
+BEGIN
+    SELECT * INTO v_client FROM clients WHERE id = p_client_id AND user_id = auth.uid()::text;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Cliente % não encontrado', p_client_id;
+    END IF;
+
+    -- Mesmo nome que `anonymizedName` (src/shared/lgpd.ts)
+    v_suffix := 'Cliente: ' || v_client.name;
+    UPDATE financial_entries
+    SET description = left(description, length(description) - length(v_client.name)) || 'Cliente anonimizado #' || p_client_id
+    WHERE is_virtual = true
+      AND right(description, length(v_suffix)) = v_suffix
+      AND appointment_id IN (SELECT id FROM appointments WHERE client_id = p_client_id);
+
+    INSERT INTO data_subject_requests (user_id, client_id, request_type) VALUES (v_client.user_id, p_client_id, 'deletion');
+
+    DELETE FROM clients WHERE id = p_client_id;
+END;
+$$ language 'plpgsql';
+
+
+-- =====================================================
+-- COMENTÁRIOS DE DOCUMENTAÇÃO
+-- =====================================================
+COMMENT ON FUNCTION delete_client(INTEGER) IS 'Exclusão LGPD de um cliente: anonimiza os lançamentos, regista o pedido e exclui, numa só transação.';
@@ -0,0 +1,96 @@
+-- =====================================================
+-- MIGRAÇÃO 35: FUSÃO DE CLIENTES NUMA SÓ TRANSAÇÃO
+-- =====================================================
+-- Este script cria a função `merge_clients`, chamada pela aplicação para fundir
+-- clientes duplicados. Tudo o que pertence aos duplicados passa para o cliente
+-- mantido, a fusão fica registada em `client_merges` (migração 26), os duplicados
+-- são excluídos e o cliente mantido recebe os dados combinados. Tudo acontece numa
+-- só transação: se um passo falhar, nada fica gravado.
+
+-- ETAPA 1: Função de fusão
+-- Corre com as permissões de quem a chama (RLS), e só aceita clientes do próprio salão.
+-- `p_merged` traz os dados combinados do cliente mantido (ver `mergeClientRecords`),
+-- gravados depois da exclusão dos duplicados porque o CPF é único por salão.
+CREATE OR REPLACE FUNCTION merge_clients(p_survivor_id INTEGER, p_duplicate_ids INTEGER[], p_merged JSONB)
+RETURNS SETOF clients AS $$
+DECLARE
+    v_survivor clients%ROWTYPE;
+    v_duplicate clients%ROWTYPE;
+    v_duplicate_id INTEGER;
+    v_suffix TEXT;
+    v_appointment_ids INTEGER[];
+    v_waitlist_entry_ids INTEGER[];
+    v_note_ids INTEGER[];
+    v_financial_entry_ids INTEGER[];
+BEGIN
+    SELECT * INTO v_survivor FROM clients WHERE id = p_survivor_id AND user_id = auth.uid()::text;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Cliente % não encontrado', p_survivor_id;
+    END IF;
+
+    FOREACH v_duplicate_id IN ARRAY p_duplicate_ids LOOP
+        SELECT * INTO v_duplicate FROM clients WHERE id = v_duplicate_id AND user_id = v_survivor.user_id AND id <> p_survivor_id;
+        IF NOT FOUND THEN
+            RAISE EXCEPTION 'Cliente % não encontrado', v_duplicate_id;
+        END IF;
+
+        WITH moved AS (
+            UPDATE appointments SET client_id = p_survivor_id, client_name = v_survivor.name WHERE client_id = v_duplicate_id RETURNING id
+        ) SELECT COALESCE(array_agg(id), '{}') INTO v_appointment_ids FROM moved;
+        WITH moved AS (
+            UPDATE waitlist_entries SET client_id = p_survivor_id WHERE client_id = v_duplicate_id RETURNING id
+        ) SELECT COALESCE(array_agg(id), '{}') INTO v_waitlist_entry_ids FROM moved;
+        WITH moved AS (
+            UPDATE client_notes SET client_id = p_survivor_id WHERE client_id = v_duplicate_id RETURNING id
+        ) SELECT COALESCE(array_agg(id), '{}') INTO v_note_ids FROM moved;
+
+        -- Os pontos, as compras, os pacotes, as assinaturas e os vales passam para o cliente mantido
+        UPDATE loyalty_transactions SET client_id = p_survivor_id WHERE client_id = v_duplicate_id;
+        UPDATE product_sales SET client_id = p_survivor_id WHERE client_id = v_duplicate_id;
+        UPDATE client_packages SET client_id = p_survivor_id WHERE client_id = v_duplicate_id;
+        UPDATE client_memberships SET client_id = p_survivor_id WHERE client_id = v_duplicate_id;
+        UPDATE gift_cards SET client_id = p_survivor_id WHERE client_id = v_duplicate_id;
+
+        -- As receitas dos atendimentos têm o nome do cliente no fim da descrição
+        v_financial_entry_ids := '{}';
+        IF v_duplicate.name <> v_survivor.name THEN
+            v_suffix := 'Cliente: ' || v_duplicate.name;
+            WITH renamed AS (
+                UPDATE financial_entries
+                SET description = left(description, length(description) - length(v_duplicate.name)) || v_survivor.name
+                WHERE is_virtual = true
+                  AND right(description, length(v_suffix)) = v_suffix
+                  AND appointment_id = ANY(v_appointment_ids)
+                RETURNING id
+            ) SELECT COALESCE(array_agg(id), '{}') INTO v_financial_entry_ids FROM renamed;
+        END IF;
+
+        INSERT INTO client_merges (user_id, surviving_client_id, merged_client_id, merged_client, appointment_ids, waitlist_entry_ids, note_ids, financial_entry_ids)
+        VALUES (v_survivor.user_id, p_survivor_id, v_duplicate_id, to_jsonb(v_duplicate), v_appointment_ids, v_waitlist_entry_ids, v_note_ids, v_financial_entry_ids);
+
+        DELETE FROM clients WHERE id = v_duplicate_id;
+    END LOOP;
+
+    RETURN QUERY
+    WITH saved AS (
+        UPDATE clients SET
+            phone = p_merged->>'phone',
+            email = p_merged->>'email',
+            birthday = NULLIF(p_merged->>'birthday', '')::date,
+            cpf = p_merged->>'cpf',
+            address = p_merged->>'address',
+            preferred_professional_id = NULLIF(p_merged->>'preferred_professional_id', '')::integer,
+            notes = p_merged->>'notes',
+            technical_notes = p_merged->>'technical_notes',
+            tags = ARRAY(SELECT jsonb_array_elements_text(COALESCE(p_merged->'tags', '[]'::jsonb)))
+        WHERE id = p_survivor_id
+        RETURNING *
+    ) SELECT * FROM saved;
+END;
+$$ language 'plpgsql';
+
+
+-- =====================================================
+-- COMENTÁRIOS DE DOCUMENTAÇÃO
+-- =====================================================
+COMMENT ON FUNCTION merge_clients(INTEGER, INTEGER[], JSONB) IS 'Fusão de clientes duplicados no cliente mantido, com a auditoria em client_merges, numa só transação.';
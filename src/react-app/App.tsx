@@ -14,9 +14,16 @@ const AppointmentsPage = lazy(() => import("./pages/Appointments"));
 const FinancialPage = lazy(() => import("./pages/Financial"));
 const ProductsPage = lazy(() => import("./pages/Products"));
 const ServicesPage = lazy(() => import("./pages/Services")); // <-- NOVA PÁGINA
+const PackagesPage = lazy(() => import("./pages/Packages"));
+const MembershipsPage = lazy(() => import("./pages/Memberships"));
+const GiftCardsPage = lazy(() => import("./pages/GiftCards"));
+const PromotionsPage = lazy(() => import("./pages/Promotions"));
 const ClientsPage = lazy(() => import("./pages/Clients"));
+const ClientProfilePage = lazy(() => import("./pages/ClientProfile"));
 const ProfessionalsPage = lazy(() => import("./pages/Professionals"));
 const SettingsPage = lazy(() => import("./pages/Settings"));
+const PublicBookingPage = lazy(() => import("./pages/PublicBooking"));
+const ManageBookingPage = lazy(() => import("./pages/ManageBooking"));
 
 function AppRoutes() {
   const { loading } = useSupabaseAuth();
@@ -31,6 +38,18 @@ function AppRoutes() {
       <Router>
         <Routes>
           <Route path="/" element={<HomePage />} />
+
+          {/* Rotas Públicas de Agendamento Online */}
+          <Route path="/book/:slug" element={
+            <Suspense fallback={<LoadingSpinner />}>
+              <PublicBookingPage />
+            </Suspense>
+          } />
+          <Route path="/manage/:token" element={
+            <Suspense fallback={<LoadingSpinner />}>
+              <ManageBookingPage />
+            </Suspense>
+          } />
           
           {/* Rotas Protegidas */}
           <Route path="/dashboard" element={
@@ -69,6 +88,34 @@ function AppRoutes() {
               </Suspense>
             </ProtectedRoute>
           } />
+          <Route path="/packages" element={
+            <ProtectedRoute>
+              <Suspense fallback={<LoadingSpinner />}>
+                <PackagesPage />
+              </Suspense>
+            </ProtectedRoute>
+          } />
+          <Route path="/memberships" element={
+            <ProtectedRoute>
+              <Suspense fallback={<LoadingSpinner />}>
+                <MembershipsPage />
+              </Suspense>
+            </ProtectedRoute>
+          } />
+          <Route path="/gift-cards" element={
+            <ProtectedRoute>
+              <Suspense fallback={<LoadingSpinner />}>
+                <GiftCardsPage />
+              </Suspense>
+            </ProtectedRoute>
+          } />
+          <Route path="/promotions" element={
+            <ProtectedRoute>
+              <Suspense fallback={<LoadingSpinner />}>
+                <PromotionsPage />
+              </Suspense>
+            </ProtectedRoute>
+          } />
           <Route path="/clients" element={
             <ProtectedRoute>
               <Suspense fallback={<LoadingSpinner />}>
@@ -76,6 +123,13 @@ function AppRoutes() {
               </Suspense>
             </ProtectedRoute>
           } />
+          <Route path="/clients/:id" element={
+            <ProtectedRoute>
+              <Suspense fallback={<LoadingSpinner />}>
+                <ClientProfilePage />
+              </Suspense>
+            </ProtectedRoute>
+          } />
           <Route path="/professionals" element={
             <ProtectedRoute>
               <Suspense fallback={<LoadingSpinner />}>
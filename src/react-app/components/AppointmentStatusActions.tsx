@@ -0,0 +1,105 @@
+import { useState } from 'react';
+import type { AppointmentStatus } from '../../shared/types';
+import { STATUS_LABELS, STATUS_TRANSITIONS, requiresReason } from '../../shared/appointmentStatus';
+
+interface AppointmentStatusActionsProps {
+  status: AppointmentStatus | null | undefined;
+  onChange: (status: AppointmentStatus, reason?: string) => Promise<void>;
+}
+
+// Rótulo do botão que leva a cada status
+const ACTION_LABELS: Record<AppointmentStatus, string> = {
+  scheduled: 'Reativar',
+  confirmed: 'Confirmar',
+  checked_in: 'Chegou',
+  in_service: 'Iniciar atendimento',
+  completed: 'Concluir',
+  no_show: 'Faltou',
+  cancelled_by_client: 'Cliente cancelou',
+  cancelled_by_salon: 'Salão cancelou',
+};
+
+/**
+ * Botões com os próximos status possíveis de um agendamento.
+ * Cancelamentos e faltas pedem um motivo antes de serem gravados.
+ */
+export default function AppointmentStatusActions({ status, onChange }: AppointmentStatusActionsProps) {
+  const [pending, setPending] = useState<AppointmentStatus | null>(null);
+  const [reason, setReason] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const apply = async (next: AppointmentStatus, nextReason?: string) => {
+    setIsSaving(true);
+    try {
+      await onChange(next, nextReason);
+      setPending(null);
+      setReason('');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleClick = (next: AppointmentStatus) => {
+    if (requiresReason(next)) {
+      setPending(next);
+      setReason('');
+    } else {
+      apply(next);
+    }
+  };
+
+  if (pending) {
+    return (
+      <div className="space-y-2">
+        <label className="block text-xs font-medium text-gray-700">
+          Motivo ({STATUS_LABELS[pending].toLowerCase()})
+        </label>
+        <textarea
+          value={reason}
+          onChange={(e) => setReason(e.target.value)}
+          rows={2}
+          autoFocus
+          className="block w-full border-gray-300 rounded-md shadow-sm focus:ring-pink-500 focus:border-pink-500 text-sm"
+        />
+        <div className="flex justify-end gap-2">
+          <button
+            type="button"
+            onClick={() => setPending(null)}
+            disabled={isSaving}
+            className="px-3 py-1 text-xs font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+          >
+            Voltar
+          </button>
+          <button
+            type="button"
+            onClick={() => apply(pending, reason.trim())}
+            disabled={isSaving || !reason.trim()}
+            className="px-3 py-1 text-xs font-medium text-white bg-red-600 rounded-md hover:bg-red-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isSaving ? 'Salvando...' : 'Confirmar'}
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-wrap gap-1">
+      {STATUS_TRANSITIONS[status ?? 'scheduled'].map((next) => (
+        <button
+          key={next}
+          type="button"
+          onClick={() => handleClick(next)}
+          disabled={isSaving}
+          className={`px-2 py-1 text-xs font-medium rounded-md border transition-colors disabled:opacity-50 ${
+            requiresReason(next)
+              ? 'border-red-200 text-red-700 hover:bg-red-50'
+              : 'border-pink-200 text-pink-700 hover:bg-pink-50'
+          }`}
+        >
+          {ACTION_LABELS[next]}
+        </button>
+      ))}
+    </div>
+  );
+}
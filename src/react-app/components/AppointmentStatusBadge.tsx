@@ -0,0 +1,16 @@
+import type { AppointmentStatus } from '../../shared/types';
+import { STATUS_BADGE_CLASSES, STATUS_LABELS } from '../../shared/appointmentStatus';
+
+interface AppointmentStatusBadgeProps {
+  status: AppointmentStatus | null | undefined;
+  className?: string;
+}
+
+export default function AppointmentStatusBadge({ status, className = '' }: AppointmentStatusBadgeProps) {
+  const current = status ?? 'scheduled';
+  return (
+    <span className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium ${STATUS_BADGE_CLASSES[current]} ${className}`}>
+      {STATUS_LABELS[current]}
+    </span>
+  );
+}
@@ -0,0 +1,162 @@
+// src/react-app/components/BackupSection.tsx
+
+import { useState } from 'react';
+import { Database, Download, Upload, AlertCircle } from 'lucide-react';
+import { useAppStore } from '../../shared/store';
+import type { RestoreResult } from '../../shared/store';
+import { useToastHelpers } from '../contexts/ToastContext';
+import ConfirmationModal from './ConfirmationModal';
+import { RestoreRollbackError, backupFileName, parseBackup } from '../../shared/backup';
+import type { AccountBackup } from '../../shared/backup';
+
+interface BackupSectionProps {
+  userId: string;
+}
+
+// Resumo do conteúdo de uma cópia, para a confirmação e o aviso final
+const describeContents = (counts: RestoreResult['counts']) =>
+  `${counts.clients} cliente(s), ${counts.professionals} profissional(is), ${counts.services} serviço(s), ${counts.products} produto(s), ${counts.appointments} agendamento(s) e ${counts.financial_entries} lançamento(s)`;
+
+const backupCounts = (backup: AccountBackup): RestoreResult['counts'] => ({
+  clients: backup.clients.length,
+  professionals: backup.professionals.length,
+  services: backup.services.length,
+  products: backup.products.length,
+  appointments: backup.appointments.length,
+  financial_entries: backup.financial_entries.length,
+});
+
+/**
+ * Exportação de todos os dados da conta para um arquivo JSON e restauração a partir
+ * de um desses arquivos. A cópia é validada por inteiro antes de gravar qualquer registo.
+ */
+export default function BackupSection({ userId }: BackupSectionProps) {
+  const { exportAccountData, restoreAccountData } = useAppStore();
+  const { showSuccess, showError, showWarning } = useToastHelpers();
+  const [isExporting, setIsExporting] = useState(false);
+  const [isRestoring, setIsRestoring] = useState(false);
+  const [pendingBackup, setPendingBackup] = useState<AccountBackup | null>(null);
+  const [errors, setErrors] = useState<string[]>([]);
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      const backup = await exportAccountData(userId);
+      const blob = new Blob([JSON.stringify(backup, null, 2)], { type: 'application/json;charset=utf-8;' });
+      const link = document.createElement('a');
+      const url = URL.createObjectURL(blob);
+      link.setAttribute('href', url);
+      link.setAttribute('download', backupFileName(new Date(backup.exported_at)));
+      link.style.visibility = 'hidden';
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+      showSuccess('Cópia exportada!', describeContents(backupCounts(backup)));
+    } catch (error) {
+      console.error('Erro ao exportar dados:', (error as Error).message);
+      showError('Erro ao exportar', 'Não foi possível gerar a cópia de segurança.');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setErrors([]);
+    let raw: unknown;
+    try {
+      raw = JSON.parse(await file.text());
+    } catch {
+      setErrors(['O arquivo não é um JSON válido.']);
+      return;
+    }
+    const result = parseBackup(raw);
+    if (result.success) setPendingBackup(result.backup);
+    else setErrors(result.errors);
+  };
+
+  const handleRestore = async () => {
+    if (!pendingBackup) return;
+    setIsRestoring(true);
+    try {
+      const result = await restoreAccountData(pendingBackup, userId);
+      showSuccess('Cópia restaurada!', describeContents(result.counts));
+      result.warnings.forEach(warning => showWarning('Atenção', warning));
+      setPendingBackup(null);
+    } catch (error) {
+      console.error('Erro ao restaurar dados:', (error as Error).message);
+      // Sem `RestoreRollbackError`, tudo o que a restauração gravou foi desfeito
+      showError('Erro ao restaurar', error instanceof RestoreRollbackError
+        ? error.message
+        : `${(error as Error).message} Nenhum registro da cópia foi gravado e as configurações não foram alteradas.`);
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  return (
+    <div className="bg-white shadow-sm rounded-lg border border-gray-200">
+      <div className="px-6 py-4 border-b border-gray-200">
+        <div className="flex items-center">
+          <Database className="w-5 h-5 text-gray-500 mr-2" />
+          <h3 className="text-lg font-medium text-gray-900">Cópia de Segurança</h3>
+        </div>
+      </div>
+      <div className="px-6 py-6 space-y-4">
+        <p className="text-sm text-gray-600">
+          Exporte clientes, profissionais, serviços, produtos, agendamentos, lançamentos financeiros e configurações
+          para um arquivo JSON. Ao restaurar, os registros da cópia são adicionados aos já existentes na conta.
+        </p>
+
+        {errors.length > 0 && (
+          <div className="rounded-md bg-red-50 border border-red-200 p-3">
+            <p className="flex items-center text-sm font-medium text-red-700">
+              <AlertCircle className="w-4 h-4 mr-1.5" /> A cópia não pode ser restaurada:
+            </p>
+            <ul className="mt-2 list-disc list-inside text-xs text-red-700 space-y-0.5">
+              {errors.map(error => <li key={error}>{error}</li>)}
+            </ul>
+          </div>
+        )}
+
+        <div className="flex justify-end gap-2">
+          <label className={`inline-flex items-center px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 ${isRestoring ? 'opacity-50' : 'cursor-pointer'}`}>
+            <Upload className="w-4 h-4 mr-2" />
+            {isRestoring ? 'Restaurando...' : 'Restaurar Cópia'}
+            <input
+              type="file"
+              accept=".json,application/json"
+              className="hidden"
+              disabled={isRestoring}
+              onChange={(e) => { handleFile(e.target.files?.[0]); e.target.value = ''; }}
+            />
+          </label>
+          <button
+            type="button"
+            onClick={handleExport}
+            disabled={isExporting}
+            className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-gradient-to-r from-pink-500 to-violet-500 hover:from-pink-600 hover:to-violet-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-pink-500 disabled:opacity-50"
+          >
+            <Download className="w-4 h-4 mr-2" />
+            {isExporting ? 'Exportando...' : 'Exportar Dados'}
+          </button>
+        </div>
+      </div>
+
+      <ConfirmationModal
+        isOpen={!!pendingBackup}
+        onClose={() => setPendingBackup(null)}
+        onConfirm={handleRestore}
+        title="Restaurar Cópia de Segurança"
+        message={pendingBackup
+          ? `A cópia de ${new Date(pendingBackup.exported_at).toLocaleString('pt-BR')} tem ${describeContents(backupCounts(pendingBackup))}. Esses registros serão adicionados à conta e as configurações substituídas.`
+          : ''}
+        confirmText="Restaurar"
+        cancelText="Cancelar"
+        variant="warning"
+        isLoading={isRestoring}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,364 @@
+// src/react-app/components/CalendarGrid.tsx
+
+import { useEffect, useMemo, useRef, useState } from 'react';
+import type { MouseEvent, PointerEvent as ReactPointerEvent } from 'react';
+import moment from 'moment';
+import { Repeat } from 'lucide-react';
+import AppointmentStatusBadge from './AppointmentStatusBadge';
+import type { AppointmentType, ClientType, ProfessionalType, ServiceType } from '../../shared/types';
+import type { AvailabilityContext, BlockedInterval } from '../../shared/availability';
+import { getBlockedIntervals, describeUnavailability, splitDateTime, toMinutes, formatMinutes } from '../../shared/availability';
+import { CANCELLED_STATUSES, occupiesSlot } from '../../shared/appointmentStatus';
+import { checkAppointmentAvailability } from '../../shared/appointmentItems';
+
+// --- Definição de Tipos ---
+export interface CalendarColumn {
+  key: string;
+  date: string;                  // YYYY-MM-DD
+  professionalId: number | null; // null: todos os profissionais
+  title: string;
+  subtitle?: string;
+  color?: string | null;
+}
+
+interface CalendarGridProps {
+  columns: CalendarColumn[];
+  appointments: AppointmentType[];
+  professionals: ProfessionalType[];
+  services: ServiceType[];
+  clients: ClientType[];
+  availabilityContext: AvailabilityContext;
+  onAppointmentClick: (appointment: AppointmentType) => void;
+  onSlotClick: (date: Date, professionalId: number | null) => void;
+  onAppointmentChange?: (appointment: AppointmentType, change: AppointmentChange) => void;
+}
+
+// Novo horário (e profissional) de um agendamento arrastado ou redimensionado
+export interface AppointmentChange {
+  professional_id: number;
+  appointment_date: string; // YYYY-MM-DD HH:mm:ss
+  end_date: string;
+}
+
+interface DragState {
+  mode: 'move' | 'resize';
+  appointment: AppointmentType;
+  start: number;            // Minutos originais
+  end: number;
+  originY: number;
+  originColumn: number;
+  column: number;           // Coluna sob o ponteiro
+  delta: number;            // Deslocamento em minutos, já arredondado
+  moved: boolean;
+}
+
+interface PositionedAppointment {
+  appointment: AppointmentType;
+  start: number;
+  end: number;
+  lane: number;
+}
+
+const HOUR_HEIGHT = 64;            // Altura de uma hora na grelha, em píxeis
+const SLOT_MINUTES = 30;           // Granularidade do clique numa célula vazia
+const DRAG_MINUTES = 15;           // Granularidade ao arrastar e redimensionar
+const DRAG_THRESHOLD = 4;          // Píxeis até um clique passar a ser arrastamento
+const DEFAULT_HOURS = { start: 8, end: 20 };
+const FALLBACK_COLOR = '#a855f7';
+
+const minutesToPx = (minutes: number) => (minutes / 60) * HOUR_HEIGHT;
+
+// Faixa horária da grelha: do início mais cedo ao fim mais tarde dos horários configurados.
+const getGridHours = (context: AvailabilityContext) => {
+  const ranges = [...context.businessHours, ...context.schedules]
+    .filter(h => h.start_time && h.end_time)
+    .map(h => ({ start: toMinutes(h.start_time!), end: toMinutes(h.end_time!) }));
+  if (ranges.length === 0) return DEFAULT_HOURS;
+  return {
+    start: Math.floor(Math.min(...ranges.map(r => r.start)) / 60),
+    end: Math.ceil(Math.max(...ranges.map(r => r.end)) / 60),
+  };
+};
+
+// Distribui agendamentos sobrepostos em faixas lado a lado.
+const layoutAppointments = (appointments: AppointmentType[], date: string): { items: PositionedAppointment[]; lanes: number } => {
+  const laneEnds: number[] = [];
+  const items = appointments
+    .map(appointment => {
+      const start = splitDateTime(appointment.appointment_date);
+      const end = splitDateTime(appointment.end_date);
+      return {
+        appointment,
+        start: start.date < date ? 0 : start.minutes,
+        end: end.date > date ? 24 * 60 : end.minutes,
+      };
+    })
+    .sort((a, b) => a.start - b.start)
+    .map(item => {
+      let lane = laneEnds.findIndex(laneEnd => laneEnd <= item.start);
+      if (lane === -1) lane = laneEnds.length;
+      laneEnds[lane] = item.end;
+      return { ...item, lane };
+    });
+  return { items, lanes: Math.max(laneEnds.length, 1) };
+};
+
+/**
+ * Grelha de agenda com uma coluna por dia ou por profissional, com os agendamentos
+ * posicionados pela hora e os períodos bloqueados (fora do expediente, almoço, ausências) sombreados.
+ */
+// Serviços de agendamentos de outro profissional executados pelo profissional da coluna
+const assistedIntervals = (column: CalendarColumn, appointments: AppointmentType[], context: AvailabilityContext): BlockedInterval[] => {
+  if (column.professionalId === null) return [];
+  const owners = new Map(appointments.map(app => [app.id, app.professional_id]));
+  return context.appointments
+    .filter(segment => segment.professional_id === column.professionalId && owners.get(segment.id) !== column.professionalId)
+    .map(segment => ({ segment, start: splitDateTime(segment.appointment_date), end: splitDateTime(segment.end_date) }))
+    .filter(({ start }) => start.date === column.date)
+    .map(({ segment, start, end }) => ({
+      start: start.minutes,
+      end: end.date === column.date ? end.minutes : 24 * 60,
+      reason: 'appointment_conflict' as const,
+      description: [segment.client_name, segment.service].filter(Boolean).join(' · '),
+    }));
+};
+
+export default function CalendarGrid({ columns, appointments, professionals, services, clients, availabilityContext, onAppointmentClick, onSlotClick, onAppointmentChange }: CalendarGridProps) {
+  const hours = useMemo(() => getGridHours(availabilityContext), [availabilityContext]);
+  const gridStart = hours.start * 60;
+  const gridEnd = hours.end * 60;
+  const gridHeight = minutesToPx(gridEnd - gridStart);
+
+  const columnRefs = useRef<(HTMLDivElement | null)[]>([]);
+  const [drag, setDrag] = useState<DragState | null>(null);
+  // O fim de um arrastamento dispara um clique na coluna, que não deve abrir um novo agendamento
+  const suppressClickRef = useRef(false);
+
+  // Posição resultante do arrastamento em curso
+  const dragPreview = useMemo(() => {
+    if (!drag) return null;
+    const column = columns[drag.column];
+    const start = drag.mode === 'move' ? drag.start + drag.delta : drag.start;
+    const end = drag.mode === 'move' ? drag.end + drag.delta : Math.max(drag.end + drag.delta, drag.start + DRAG_MINUTES);
+    const change: AppointmentChange = {
+      professional_id: column.professionalId ?? drag.appointment.professional_id,
+      appointment_date: `${column.date} ${formatMinutes(start)}:00`,
+      end_date: `${column.date} ${formatMinutes(end)}:00`,
+    };
+    const availability = checkAppointmentAvailability(availabilityContext, { ...change, id: drag.appointment.id, items: drag.appointment.items });
+    return { column, start, end, change, availability };
+  }, [drag, columns, availabilityContext]);
+
+  useEffect(() => {
+    if (!drag) return;
+
+    const handleMove = (event: PointerEvent) => {
+      const offsetY = event.clientY - drag.originY;
+      const delta = Math.round((offsetY / HOUR_HEIGHT) * 60 / DRAG_MINUTES) * DRAG_MINUTES;
+      let column = drag.column;
+      if (drag.mode === 'move') {
+        const index = columnRefs.current.findIndex(el => {
+          const rect = el?.getBoundingClientRect();
+          return !!rect && event.clientX >= rect.left && event.clientX < rect.right;
+        });
+        if (index !== -1) column = index;
+      }
+      const moved = drag.moved || Math.abs(offsetY) > DRAG_THRESHOLD || column !== drag.originColumn;
+      if (delta !== drag.delta || column !== drag.column || moved !== drag.moved) {
+        setDrag({ ...drag, delta, column, moved });
+      }
+    };
+
+    const handleUp = () => {
+      const unchanged = drag.delta === 0 && drag.column === drag.originColumn;
+      if (!drag.moved) {
+        onAppointmentClick(drag.appointment);
+      } else if (!unchanged && dragPreview && onAppointmentChange) {
+        onAppointmentChange(drag.appointment, dragPreview.change);
+      }
+      if (drag.moved) {
+        suppressClickRef.current = true;
+        setTimeout(() => { suppressClickRef.current = false; }, 0);
+      }
+      setDrag(null);
+    };
+
+    window.addEventListener('pointermove', handleMove);
+    window.addEventListener('pointerup', handleUp);
+    return () => {
+      window.removeEventListener('pointermove', handleMove);
+      window.removeEventListener('pointerup', handleUp);
+    };
+  }, [drag, dragPreview, onAppointmentClick, onAppointmentChange]);
+
+  const startDrag = (event: ReactPointerEvent<HTMLDivElement>, mode: DragState['mode'], appointment: AppointmentType, start: number, end: number, columnIndex: number) => {
+    if (event.button !== 0) return;
+    event.stopPropagation();
+    event.preventDefault();
+    setDrag({ mode, appointment, start, end, originY: event.clientY, originColumn: columnIndex, column: columnIndex, delta: 0, moved: false });
+  };
+
+  const columnData = useMemo(() => {
+    return columns.map(column => {
+      const columnAppointments = appointments.filter(app => {
+        const start = splitDateTime(app.appointment_date).date;
+        const end = splitDateTime(app.end_date).date;
+        const professionalMatch = column.professionalId === null || app.professional_id === column.professionalId;
+        // Os cancelados saem da grelha; continuam visíveis na lista
+        return professionalMatch && start <= column.date && column.date <= end && !CANCELLED_STATUSES.includes(app.status);
+      });
+      const blocked = [
+        ...getBlockedIntervals(availabilityContext, {
+          date: column.date,
+          professionalId: column.professionalId ?? undefined,
+        }),
+        ...assistedIntervals(column, appointments, availabilityContext),
+      ];
+      return { column, blocked, ...layoutAppointments(columnAppointments, column.date) };
+    });
+  }, [columns, appointments, availabilityContext]);
+
+  const handleColumnClick = (event: MouseEvent<HTMLDivElement>, column: CalendarColumn) => {
+    if (suppressClickRef.current) return;
+    const offsetY = event.clientY - event.currentTarget.getBoundingClientRect().top;
+    const minutes = gridStart + Math.floor((offsetY / HOUR_HEIGHT) * 60 / SLOT_MINUTES) * SLOT_MINUTES;
+    onSlotClick(moment(`${column.date} ${formatMinutes(minutes)}`, 'YYYY-MM-DD HH:mm').toDate(), column.professionalId);
+  };
+
+  const renderBlocked = (interval: BlockedInterval, index: number) => {
+    const start = Math.max(interval.start, gridStart);
+    const end = Math.min(interval.end, gridEnd);
+    if (end <= start) return null;
+    return (
+      <div
+        key={index}
+        className="absolute inset-x-0 bg-gray-100 bg-[repeating-linear-gradient(45deg,transparent,transparent_6px,rgba(156,163,175,0.15)_6px,rgba(156,163,175,0.15)_12px)] pointer-events-none"
+        style={{ top: minutesToPx(start - gridStart), height: minutesToPx(end - start) }}
+        title={describeUnavailability(interval.reason, interval.description)}
+      >
+        {interval.reason !== 'outside_hours' && end - start >= SLOT_MINUTES && (
+          <span className="block px-1 pt-0.5 text-[11px] text-gray-500 truncate">
+            {interval.reason === 'lunch' ? 'Almoço' : interval.description || 'Indisponível'}
+          </span>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="overflow-x-auto">
+      <div className="min-w-max">
+        {/* Cabeçalho das colunas */}
+        <div className="flex border-b border-gray-200 sticky top-0 bg-white z-10">
+          <div className="w-14 flex-shrink-0" />
+          {columns.map(column => (
+            <div key={column.key} className="flex-1 min-w-[140px] px-2 py-2 text-center border-l border-gray-200">
+              <div className="flex items-center justify-center gap-2">
+                {column.color && <span className="w-3 h-3 rounded-full flex-shrink-0" style={{ backgroundColor: column.color }} />}
+                <p className="text-sm font-semibold text-gray-800 truncate capitalize">{column.title}</p>
+              </div>
+              {column.subtitle && <p className="text-xs text-gray-500">{column.subtitle}</p>}
+            </div>
+          ))}
+        </div>
+
+        {/* Corpo da grelha */}
+        <div className="flex">
+          <div className="w-14 flex-shrink-0 relative" style={{ height: gridHeight }}>
+            {Array.from({ length: hours.end - hours.start }, (_, i) => (
+              <span key={i} className="absolute right-2 mt-0.5 text-xs text-gray-500" style={{ top: i * HOUR_HEIGHT }}>
+                {formatMinutes((hours.start + i) * 60)}
+              </span>
+            ))}
+          </div>
+
+          {columnData.map(({ column, blocked, items, lanes }, columnIndex) => (
+            <div
+              key={column.key}
+              ref={el => { columnRefs.current[columnIndex] = el; }}
+              className="flex-1 min-w-[140px] relative border-l border-gray-200 cursor-pointer"
+              style={{ height: gridHeight }}
+              onClick={(e) => handleColumnClick(e, column)}
+            >
+              {Array.from({ length: hours.end - hours.start }, (_, i) => (
+                <div key={i} className="absolute inset-x-0 border-t border-gray-100" style={{ top: i * HOUR_HEIGHT }} />
+              ))}
+
+              {blocked.map(renderBlocked)}
+
+              {items.map(({ appointment, start, end, lane }) => {
+                const professional = professionals.find(p => p.id === appointment.professional_id);
+                const service = services.find(s => s.id === appointment.service_id);
+                const client = clients.find(c => c.id === appointment.client_id);
+                const top = minutesToPx(Math.max(start, gridStart) - gridStart);
+                const height = Math.max(minutesToPx(Math.min(end, gridEnd) - Math.max(start, gridStart)), 20);
+                const serviceColor = service?.color || FALLBACK_COLOR;
+                const isDragging = drag?.appointment.id === appointment.id;
+                // Uma falta já não ocupa o horário e não pode ser arrastada
+                const isMovable = !!onAppointmentChange && occupiesSlot(appointment.status);
+                return (
+                  <div
+                    key={appointment.id}
+                    className={`absolute rounded-md border-l-4 px-2 py-1 overflow-hidden text-xs shadow-sm hover:shadow-md transition-shadow select-none touch-none ${isMovable ? 'cursor-grab' : 'cursor-pointer'} ${isDragging && drag?.moved ? 'opacity-40' : ''} ${occupiesSlot(appointment.status) ? '' : 'opacity-60'}`}
+                    style={{
+                      top,
+                      height,
+                      left: `${(lane / lanes) * 100}%`,
+                      width: `${100 / lanes}%`,
+                      backgroundColor: `${serviceColor}26`,
+                      borderLeftColor: professional?.color || FALLBACK_COLOR,
+                    }}
+                    onClick={(e) => e.stopPropagation()}
+                    onPointerDown={(e) => isMovable
+                      ? startDrag(e, 'move', appointment, start, end, columnIndex)
+                      : e.stopPropagation()}
+                    onPointerUp={(e) => {
+                      if (!isMovable) {
+                        e.stopPropagation();
+                        onAppointmentClick(appointment);
+                      }
+                    }}
+                  >
+                    <p className="font-semibold text-gray-800 truncate">
+                      {appointment.series_id && <Repeat className="inline w-3 h-3 mr-1 text-gray-500" aria-label="Recorrente" />}
+                      {formatMinutes(start)} {client?.name || appointment.client_name}
+                    </p>
+                    <p className="text-gray-600 truncate">{service?.name || appointment.service}</p>
+                    {column.professionalId === null && professional && (
+                      <p className="text-gray-500 truncate">com {professional.name}</p>
+                    )}
+                    {appointment.status && appointment.status !== 'scheduled' && (
+                      <AppointmentStatusBadge status={appointment.status} className="mt-0.5" />
+                    )}
+                    {isMovable && (
+                      // Puxador inferior para alterar a hora de fim
+                      <div
+                        className="absolute inset-x-0 bottom-0 h-2 cursor-ns-resize"
+                        onPointerDown={(e) => startDrag(e, 'resize', appointment, start, end, columnIndex)}
+                      />
+                    )}
+                  </div>
+                );
+              })}
+
+              {drag?.moved && dragPreview && dragPreview.column === column && (
+                <div
+                  className={`absolute inset-x-0 rounded-md border-2 border-dashed px-2 py-1 text-xs pointer-events-none z-20 ${dragPreview.availability.available ? 'border-pink-500 bg-pink-50/80 text-pink-800' : 'border-red-500 bg-red-50/80 text-red-800'}`}
+                  style={{
+                    top: minutesToPx(dragPreview.start - gridStart),
+                    height: Math.max(minutesToPx(dragPreview.end - dragPreview.start), 20),
+                  }}
+                >
+                  <p className="font-semibold">{formatMinutes(dragPreview.start)} - {formatMinutes(dragPreview.end)}</p>
+                  {!dragPreview.availability.available && (
+                    <p className="truncate">{describeUnavailability(dragPreview.availability.reason, dragPreview.availability.description)}</p>
+                  )}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
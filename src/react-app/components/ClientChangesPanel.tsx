@@ -0,0 +1,70 @@
+import { useEffect } from 'react';
+import moment from 'moment';
+import { Bell, Check } from 'lucide-react';
+import { useAppStore } from '../../shared/store';
+import type { ClientChange } from '../../shared/store';
+import { useToastHelpers } from '../contexts/ToastContext';
+
+interface ClientChangesPanelProps {
+  userId: string;
+}
+
+const formatDateTime = (dateTime?: string | null) => (dateTime ? moment(dateTime).format('DD/MM [às] HH:mm') : '');
+
+const describeChange = (change: ClientChange) =>
+  change.action === 'cancelled'
+    ? `cancelou ${change.appointment?.service ?? 'o agendamento'} de ${formatDateTime(change.previous_date)}`
+    : `remarcou ${change.appointment?.service ?? 'o agendamento'} de ${formatDateTime(change.previous_date)} para ${formatDateTime(change.new_date)}`;
+
+/**
+ * Cancelamentos e remarcações feitos pelos clientes através do link de gestão,
+ * até alguém da equipa os marcar como vistos.
+ */
+export default function ClientChangesPanel({ userId }: ClientChangesPanelProps) {
+  const { clientChanges, fetchClientChanges, markClientChangeSeen } = useAppStore();
+  const { showError } = useToastHelpers();
+
+  useEffect(() => {
+    fetchClientChanges(userId);
+  }, [userId, fetchClientChanges]);
+
+  const handleSeen = async (change: ClientChange) => {
+    try {
+      await markClientChangeSeen(change.id!);
+    } catch (error) {
+      showError('Erro ao marcar como visto', (error as Error).message);
+    }
+  };
+
+  if (clientChanges.length === 0) return null;
+
+  return (
+    <div className="bg-amber-50 shadow-sm rounded-lg border border-amber-200 mb-8">
+      <div className="px-6 py-4 border-b border-amber-200 flex items-center">
+        <Bell className="w-5 h-5 text-amber-600 mr-2" />
+        <h3 className="text-lg font-medium text-gray-900">Alterações feitas pelos clientes</h3>
+      </div>
+      <div className="divide-y divide-amber-100">
+        {clientChanges.map((change) => (
+          <div key={change.id} className="px-6 py-3 flex items-center justify-between">
+            <div>
+              <p className="text-sm text-gray-900">
+                <span className="font-medium">{change.appointment?.client_name ?? 'Cliente'}</span> {describeChange(change)}
+              </p>
+              {change.reason && <p className="text-xs text-gray-600 mt-1">Motivo: {change.reason}</p>}
+              <p className="text-xs text-gray-500 mt-1">{moment(change.created_at).fromNow()}</p>
+            </div>
+            <button
+              type="button"
+              onClick={() => handleSeen(change)}
+              className="ml-4 inline-flex items-center px-3 py-1 text-xs font-medium rounded-md text-amber-800 bg-amber-100 hover:bg-amber-200 transition-colors"
+            >
+              <Check className="w-3 h-3 mr-1" />
+              Visto
+            </button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
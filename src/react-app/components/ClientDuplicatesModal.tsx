@@ -0,0 +1,193 @@
+// src/react-app/components/ClientDuplicatesModal.tsx
+
+import { useEffect, useMemo, useState } from 'react';
+import moment from 'moment';
+import { X, Users, GitMerge, History, Phone, Mail } from 'lucide-react';
+import { useSupabaseAuth } from '../auth/SupabaseAuthProvider';
+import { useAppStore } from '../../shared/store';
+import { useToastHelpers } from '../contexts/ToastContext';
+import ConfirmationModal from './ConfirmationModal';
+import type { ClientMergeType, ClientType } from '../../shared/types';
+import { DUPLICATE_REASON_LABELS, findDuplicateGroups } from '../../shared/clientDuplicates';
+import type { DuplicateGroup } from '../../shared/clientDuplicates';
+import { formatCpf } from '../../shared/clients';
+
+interface ClientDuplicatesModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+// Chave estável de um grupo, para guardar o cliente escolhido
+const groupKey = (group: DuplicateGroup<ClientType>) => group.clients.map(c => c.id).join('-');
+
+/**
+ * Lista os clientes que parecem duplicados e funde cada grupo no registo escolhido.
+ * As fusões já feitas ficam no separador de histórico.
+ */
+export default function ClientDuplicatesModal({ isOpen, onClose }: ClientDuplicatesModalProps) {
+  const { user } = useSupabaseAuth();
+  const { clients, mergeClients, fetchClientMerges } = useAppStore();
+  const { showSuccess, showError } = useToastHelpers();
+  const [tab, setTab] = useState<'groups' | 'history'>('groups');
+  const [survivors, setSurvivors] = useState<Record<string, number>>({});
+  const [groupToMerge, setGroupToMerge] = useState<DuplicateGroup<ClientType> | null>(null);
+  const [isMerging, setIsMerging] = useState(false);
+  const [merges, setMerges] = useState<ClientMergeType[]>([]);
+
+  const groups = useMemo(() => (isOpen ? findDuplicateGroups(clients) : []), [isOpen, clients]);
+
+  useEffect(() => {
+    if (!isOpen || !user || tab !== 'history') return;
+    fetchClientMerges(user.id)
+      .then(setMerges)
+      .catch((error) => console.error('Erro ao buscar histórico de fusões:', (error as Error).message));
+  }, [isOpen, user, tab, fetchClientMerges]);
+
+  if (!isOpen) return null;
+
+  // Por omissão fica o registo mais antigo do grupo
+  const survivorOf = (group: DuplicateGroup<ClientType>) =>
+    group.clients.find(c => c.id === survivors[groupKey(group)]) ?? group.clients[0];
+
+  const handleMerge = async () => {
+    if (!groupToMerge) return;
+    const survivor = survivorOf(groupToMerge);
+    setIsMerging(true);
+    try {
+      await mergeClients(survivor, groupToMerge.clients.filter(c => c.id !== survivor.id));
+      showSuccess('Clientes mesclados!', `Os agendamentos e notas foram transferidos para ${survivor.name}.`);
+      setGroupToMerge(null);
+    } catch (error) {
+      console.error('Erro ao mesclar clientes:', (error as Error).message);
+      showError('Erro ao mesclar clientes', 'Tente novamente.');
+    } finally {
+      setIsMerging(false);
+    }
+  };
+
+  const clientName = (clientId: number | null) => clients.find(c => c.id === clientId)?.name ?? 'Cliente excluído';
+
+  return (
+    <>
+      <div className="fixed inset-0 z-50 overflow-y-auto">
+        <div className="flex items-center justify-center min-h-screen p-4 text-center">
+          <div className="fixed inset-0 bg-gray-500 bg-opacity-75 transition-opacity" onClick={onClose} aria-hidden="true"></div>
+          <div className="inline-block align-bottom bg-white rounded-lg text-left overflow-hidden shadow-xl transform transition-all sm:my-8 sm:align-middle sm:max-w-2xl sm:w-full">
+            <div className="bg-white px-4 pt-5 pb-4 sm:p-6 sm:pb-4">
+              <div className="flex items-center justify-between mb-4">
+                <h3 className="text-lg font-medium text-gray-900">Clientes duplicados</h3>
+                <button type="button" onClick={onClose} className="text-gray-400 hover:text-gray-600">
+                  <X className="w-6 h-6" />
+                </button>
+              </div>
+
+              <div className="flex gap-2 mb-4 border-b border-gray-200">
+                <button
+                  type="button"
+                  onClick={() => setTab('groups')}
+                  className={`inline-flex items-center px-3 py-2 text-sm font-medium border-b-2 -mb-px ${tab === 'groups' ? 'border-pink-500 text-pink-600' : 'border-transparent text-gray-500 hover:text-gray-700'}`}
+                >
+                  <Users className="w-4 h-4 mr-1.5" /> Possíveis duplicados ({groups.length})
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setTab('history')}
+                  className={`inline-flex items-center px-3 py-2 text-sm font-medium border-b-2 -mb-px ${tab === 'history' ? 'border-pink-500 text-pink-600' : 'border-transparent text-gray-500 hover:text-gray-700'}`}
+                >
+                  <History className="w-4 h-4 mr-1.5" /> Histórico
+                </button>
+              </div>
+
+              {tab === 'groups' && (groups.length === 0 ? (
+                <div className="text-center py-6">
+                  <Users className="mx-auto h-10 w-10 text-gray-400" />
+                  <p className="mt-2 text-sm text-gray-500">Nenhum cliente duplicado encontrado.</p>
+                </div>
+              ) : (
+                <div className="space-y-4 max-h-[60vh] overflow-y-auto">
+                  {groups.map(group => {
+                    const survivor = survivorOf(group);
+                    return (
+                      <div key={groupKey(group)} className="border border-gray-200 rounded-lg p-3">
+                        <div className="flex flex-wrap items-center gap-1 mb-2">
+                          {group.reasons.map(reason => (
+                            <span key={reason} className="px-2 py-0.5 text-xs rounded-full bg-amber-100 text-amber-800">{DUPLICATE_REASON_LABELS[reason]}</span>
+                          ))}
+                        </div>
+                        <div className="space-y-1">
+                          {group.clients.map(client => (
+                            <label key={client.id} className={`flex items-start gap-3 p-2 rounded-md cursor-pointer ${client.id === survivor.id ? 'bg-pink-50' : 'hover:bg-gray-50'}`}>
+                              <input
+                                type="radio"
+                                name={`survivor-${groupKey(group)}`}
+                                checked={client.id === survivor.id}
+                                onChange={() => setSurvivors(current => ({ ...current, [groupKey(group)]: client.id! }))}
+                                className="mt-1 text-pink-600 focus:ring-pink-500"
+                              />
+                              <div className="min-w-0 text-sm">
+                                <p className="font-medium text-gray-900">{client.name} <span className="text-xs text-gray-400">#{client.id}</span></p>
+                                <p className="text-gray-500 flex flex-wrap gap-x-3">
+                                  {client.phone && <span className="inline-flex items-center"><Phone className="w-3 h-3 mr-1" />{client.phone}</span>}
+                                  {client.email && <span className="inline-flex items-center"><Mail className="w-3 h-3 mr-1" />{client.email}</span>}
+                                  {client.cpf && <span>CPF {formatCpf(client.cpf)}</span>}
+                                </p>
+                              </div>
+                            </label>
+                          ))}
+                        </div>
+                        <div className="mt-2 flex items-center justify-between">
+                          <p className="text-xs text-gray-500">O registro selecionado é mantido; os outros são excluídos.</p>
+                          <button
+                            type="button"
+                            onClick={() => setGroupToMerge(group)}
+                            className="inline-flex items-center px-3 py-1.5 border border-transparent text-sm font-medium rounded-md text-white bg-gradient-to-r from-pink-500 to-violet-500 hover:from-pink-600 hover:to-violet-600"
+                          >
+                            <GitMerge className="w-4 h-4 mr-1.5" /> Mesclar
+                          </button>
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              ))}
+
+              {tab === 'history' && (merges.length === 0 ? (
+                <p className="py-6 text-center text-sm text-gray-500">Nenhuma fusão realizada.</p>
+              ) : (
+                <ul className="divide-y divide-gray-200 max-h-[60vh] overflow-y-auto">
+                  {merges.map(merge => (
+                    <li key={merge.id} className="py-2 text-sm">
+                      <p className="text-gray-900">
+                        <span className="font-medium">{merge.merged_client.name}</span> <span className="text-xs text-gray-400">#{merge.merged_client_id}</span>
+                        {' → '}
+                        <span className="font-medium">{clientName(merge.surviving_client_id)}</span>
+                      </p>
+                      <p className="text-gray-500">
+                        {merge.merged_at ? moment(merge.merged_at).format('DD/MM/YYYY HH:mm') : ''}
+                        {` · ${merge.appointment_ids.length} agendamento(s), ${merge.note_ids.length} nota(s), ${merge.waitlist_entry_ids.length} pedido(s) da lista de espera`}
+                      </p>
+                    </li>
+                  ))}
+                </ul>
+              ))}
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <ConfirmationModal
+        isOpen={!!groupToMerge}
+        onClose={() => setGroupToMerge(null)}
+        onConfirm={handleMerge}
+        title="Mesclar Clientes"
+        message={groupToMerge
+          ? `Os agendamentos, notas e pedidos da lista de espera de ${groupToMerge.clients.length - 1} registro(s) passam para "${survivorOf(groupToMerge).name}", e esses registros serão excluídos. Esta ação não pode ser desfeita.`
+          : ''}
+        confirmText="Mesclar"
+        cancelText="Cancelar"
+        variant="warning"
+        isLoading={isMerging}
+      />
+    </>
+  );
+}
@@ -1,27 +1,28 @@
 // src/react-app/components/ClientFormModal.tsx
 
-import { useEffect } from 'react';
+import { useEffect, useMemo } from 'react';
 import { useForm, Controller } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { useSupabaseAuth } from '../auth/SupabaseAuthProvider';
 import { useAppStore } from '../../shared/store';
 import { useToastHelpers } from '../contexts/ToastContext';
 import { X, User, Mail, Phone } from 'lucide-react'; // Ícone de notas removido
-import type { ClientType } from '../../shared/types';
+import type { ClientType, CreateClientData } from '../../shared/types';
 import { CreateClientSchema } from '../../shared/types';
+import { normalizeTags, onlyDigits } from '../../shared/clients';
+import { findPossibleDuplicates } from '../../shared/clientDuplicates';
+import { withConsentTimestamps } from '../../shared/lgpd';
 
 // --- PrimeReact Imports ---
 import { InputText } from 'primereact/inputtext';
 import { InputTextarea } from 'primereact/inputtextarea';
 import { InputMask } from 'primereact/inputmask';
+import { Dropdown } from 'primereact/dropdown';
+import { Chips } from 'primereact/chips';
+import { Checkbox } from 'primereact/checkbox';
 
 // --- Definição de Tipos ---
-interface ClientFormData {
-  name: string;
-  phone?: string;
-  email?: string;
-  notes?: string;
-}
+type ClientFormData = CreateClientData;
 
 interface ClientFormModalProps {
   isOpen: boolean;
@@ -35,39 +36,87 @@ const defaultFormValues: ClientFormData = {
     phone: '',
     email: '',
     notes: '',
+    birthday: '',
+    cpf: '',
+    address: '',
+    preferred_professional_id: null,
+    technical_notes: '',
+    marketing_consent: false,
+    privacy_consent_at: null,
+    tags: [],
 };
 
+// Valores do formulário a partir do cliente em edição
+const toFormValues = (client: ClientType): ClientFormData => ({
+    name: client.name,
+    phone: client.phone || '',
+    email: client.email || '',
+    notes: client.notes || '',
+    birthday: client.birthday || '',
+    cpf: client.cpf || '',
+    address: client.address || '',
+    preferred_professional_id: client.preferred_professional_id ?? null,
+    technical_notes: client.technical_notes || '',
+    marketing_consent: client.marketing_consent ?? false,
+    privacy_consent_at: client.privacy_consent_at ?? null,
+    tags: client.tags ?? [],
+});
+
+// Campos opcionais vazios são gravados como nulos; o CPF fica só com os dígitos
+const toClientData = (formData: ClientFormData): ClientFormData => ({
+    ...formData,
+    birthday: formData.birthday || null,
+    cpf: onlyDigits(formData.cpf) || null,
+    address: formData.address?.trim() || null,
+    technical_notes: formData.technical_notes?.trim() || null,
+    tags: normalizeTags(formData.tags ?? []),
+});
+
 export default function ClientFormModal({ isOpen, onClose, onClientCreated, editingClient }: ClientFormModalProps) {
   const { user } = useSupabaseAuth();
-  const { addClient, updateClient } = useAppStore();
+  const { addClient, updateClient, professionals, clients } = useAppStore();
   const { showSuccess, showError } = useToastHelpers();
 
   const {
     control,
     handleSubmit,
     reset,
+    watch,
     formState: { errors, isSubmitting },
   } = useForm<ClientFormData>({
     resolver: zodResolver(CreateClientSchema),
-    defaultValues: editingClient 
-      ? { name: editingClient.name, phone: editingClient.phone || '', email: editingClient.email || '', notes: editingClient.notes || '' } 
-      : defaultFormValues
+    defaultValues: editingClient ? toFormValues(editingClient) : defaultFormValues
   });
 
+  // Ao registar um cliente novo, avisa se já existe alguém com os mesmos contactos ou nome parecido
+  const [watchedName, watchedPhone, watchedEmail, watchedCpf] = watch(['name', 'phone', 'email', 'cpf']);
+  const possibleDuplicates = useMemo(() => (editingClient || !watchedName?.trim()
+    ? []
+    : findPossibleDuplicates({ name: watchedName, phone: watchedPhone, email: watchedEmail, cpf: watchedCpf }, clients).slice(0, 3)),
+  [editingClient, watchedName, watchedPhone, watchedEmail, watchedCpf, clients]);
+
+  const handleUseExisting = (client: ClientType) => {
+    onClientCreated(client);
+    onClose();
+  };
+
   const onSubmit = async (formData: ClientFormData) => {
     if (!user) return;
+    const clientData = withConsentTimestamps(editingClient, toClientData(formData), new Date());
     try {
       if (editingClient) {
-        await updateClient({ ...editingClient, ...formData });
+        await updateClient({ ...editingClient, ...clientData });
         showSuccess('Cliente atualizado!');
       } else {
-        const newClient = await addClient(formData, user.id);
+        const newClient = await addClient(clientData, user.id);
         showSuccess('Cliente adicionado!');
         onClientCreated(newClient);
       }
       onClose();
     } catch (error) {
-      showError('Erro ao salvar cliente');
+      // O índice único da migração 25 impede o mesmo CPF em dois clientes
+      const duplicatedCpf = (error as { code?: string }).code === '23505';
+      showError('Erro ao salvar cliente', duplicatedCpf ? 'Já existe um cliente com este CPF.' : undefined);
     }
   };
   
@@ -75,12 +124,7 @@ export default function ClientFormModal({ isOpen, onClose, onClientCreated, edit
     if (!isOpen) {
       reset(defaultFormValues);
     } else if (editingClient) {
-        reset({
-            name: editingClient.name,
-            phone: editingClient.phone || '',
-            email: editingClient.email || '',
-            notes: editingClient.notes || '',
-        });
+        reset(toFormValues(editingClient));
     }
   }, [isOpen, editingClient, reset]);
 
@@ -90,7 +134,7 @@ export default function ClientFormModal({ isOpen, onClose, onClientCreated, edit
     <div className="fixed inset-0 z-[60] overflow-y-auto">
       <div className="flex items-center justify-center min-h-screen p-4 text-center">
         <div className="fixed inset-0 bg-gray-500 bg-opacity-75 transition-opacity" onClick={onClose} aria-hidden="true"></div>
-        <div className="inline-block align-bottom bg-white rounded-lg text-left overflow-hidden shadow-xl transform transition-all sm:my-8 sm:align-middle sm:max-w-lg sm:w-full">
+        <div className="inline-block align-bottom bg-white rounded-lg text-left overflow-hidden shadow-xl transform transition-all sm:my-8 sm:align-middle sm:max-w-2xl sm:w-full">
           <form onSubmit={handleSubmit(onSubmit)}>
             <div className="bg-white px-4 pt-5 pb-4 sm:p-6 sm:pb-4">
               <div className="flex items-center justify-between mb-4">
@@ -102,6 +146,21 @@ export default function ClientFormModal({ isOpen, onClose, onClientCreated, edit
                 </button>
               </div>
               <div className="space-y-4">
+                {possibleDuplicates.length > 0 && (
+                  <div className="p-3 rounded-md bg-amber-50 border border-amber-200 text-sm">
+                    <p className="font-medium text-amber-800">Este cliente pode já estar registrado:</p>
+                    <ul className="mt-1 space-y-1">
+                      {possibleDuplicates.map(client => (
+                        <li key={client.id} className="flex items-center justify-between gap-2">
+                          <span className="text-amber-900">{client.name}{client.phone ? ` · ${client.phone}` : ''}{client.email ? ` · ${client.email}` : ''}</span>
+                          <button type="button" onClick={() => handleUseExisting(client)} className="text-xs font-medium text-pink-600 hover:text-pink-700 whitespace-nowrap">
+                            Usar este cliente
+                          </button>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
                 
                 {/* Campo Nome */}
                 <div>
@@ -169,6 +228,123 @@ export default function ClientFormModal({ isOpen, onClose, onClientCreated, edit
                   {errors.email && <p className="mt-1 text-sm text-red-600">{errors.email.message}</p>}
                 </div>
                 
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                  {/* Campo Data de Nascimento */}
+                  <div>
+                    <label htmlFor="birthday" className="block text-sm font-medium text-gray-700 mb-1">Data de nascimento</label>
+                    <Controller
+                      name="birthday"
+                      control={control}
+                      render={({ field, fieldState }) => (
+                        <InputText
+                          id={field.name}
+                          {...field}
+                          value={field.value ?? ''}
+                          type="date"
+                          className={`w-full ${fieldState.error ? 'p-invalid' : ''}`}
+                        />
+                      )}
+                    />
+                    {errors.birthday && <p className="mt-1 text-sm text-red-600">{errors.birthday.message}</p>}
+                  </div>
+
+                  {/* Campo CPF */}
+                  <div>
+                    <label htmlFor="cpf" className="block text-sm font-medium text-gray-700 mb-1">CPF</label>
+                    <Controller
+                      name="cpf"
+                      control={control}
+                      render={({ field, fieldState }) => (
+                        <InputMask
+                          id={field.name}
+                          {...field}
+                          value={field.value ?? ''}
+                          mask="999.999.999-99"
+                          placeholder="000.000.000-00"
+                          className={`w-full ${fieldState.error ? 'p-invalid' : ''}`}
+                          unmask={true}
+                        />
+                      )}
+                    />
+                    {errors.cpf && <p className="mt-1 text-sm text-red-600">{errors.cpf.message}</p>}
+                  </div>
+                </div>
+
+                {/* Campo Endereço */}
+                <div>
+                  <label htmlFor="address" className="block text-sm font-medium text-gray-700 mb-1">Endereço</label>
+                  <Controller
+                    name="address"
+                    control={control}
+                    render={({ field }) => (
+                      <InputText id={field.name} {...field} value={field.value ?? ''} placeholder="Rua, número, bairro, cidade" className="w-full" />
+                    )}
+                  />
+                  {errors.address && <p className="mt-1 text-sm text-red-600">{errors.address.message}</p>}
+                </div>
+
+                {/* Campo Profissional Preferido */}
+                <div>
+                  <label htmlFor="preferred_professional_id" className="block text-sm font-medium text-gray-700 mb-1">Profissional preferido</label>
+                  <Controller
+                    name="preferred_professional_id"
+                    control={control}
+                    render={({ field }) => (
+                      <Dropdown
+                        id={field.name}
+                        value={field.value ?? null}
+                        options={professionals}
+                        onChange={(e) => field.onChange(e.value ?? null)}
+                        optionLabel="name"
+                        optionValue="id"
+                        placeholder="Sem preferência"
+                        showClear
+                        className="w-full"
+                      />
+                    )}
+                  />
+                </div>
+
+                {/* Campo Etiquetas */}
+                <div>
+                  <label htmlFor="tags" className="block text-sm font-medium text-gray-700 mb-1">Etiquetas</label>
+                  <Controller
+                    name="tags"
+                    control={control}
+                    render={({ field }) => (
+                      <Chips
+                        id={field.name}
+                        value={field.value ?? []}
+                        onChange={(e) => field.onChange(e.value ?? [])}
+                        separator=","
+                        placeholder="Ex: VIP, noiva"
+                        className="w-full"
+                      />
+                    )}
+                  />
+                  <p className="mt-1 text-xs text-gray-500">Tecle Enter ou vírgula para adicionar.</p>
+                  {errors.tags && <p className="mt-1 text-sm text-red-600">{errors.tags.message}</p>}
+                </div>
+
+                {/* Campo Notas Técnicas */}
+                <div>
+                  <label htmlFor="technical_notes" className="block text-sm font-medium text-gray-700 mb-1">Alergias e notas técnicas</label>
+                  <Controller
+                    name="technical_notes"
+                    control={control}
+                    render={({ field }) => (
+                      <InputTextarea
+                        id={field.name}
+                        {...field}
+                        value={field.value ?? ''}
+                        rows={2}
+                        className="w-full"
+                        placeholder="Ex: alergia a amônia; fórmula 7.1 + 20 vol."
+                      />
+                    )}
+                  />
+                </div>
+
                 {/* Campo Notas (sem ícone) */}
                 <div>
                     <label htmlFor="notes" className="block text-sm font-medium text-gray-700 mb-1">Notas</label>
@@ -179,6 +355,7 @@ export default function ClientFormModal({ isOpen, onClose, onClientCreated, edit
                             <InputTextarea
                                 id={field.name}
                                 {...field}
+                                value={field.value ?? ''}
                                 rows={3}
                                 className="w-full"
                                 placeholder="Preferências, observações..."
@@ -188,6 +365,37 @@ export default function ClientFormModal({ isOpen, onClose, onClientCreated, edit
                     {errors.notes && <p className="mt-1 text-sm text-red-600">{errors.notes.message}</p>}
                 </div>
 
+                {/* Campo Consentimento de Marketing */}
+                <Controller
+                  name="marketing_consent"
+                  control={control}
+                  render={({ field }) => (
+                    <div className="flex items-center">
+                      <Checkbox inputId={field.name} checked={!!field.value} onChange={(e) => field.onChange(!!e.checked)} />
+                      <label htmlFor={field.name} className="ml-2 text-sm text-gray-700">Aceita receber promoções e novidades</label>
+                    </div>
+                  )}
+                />
+
+                {/* Autorização do tratamento dos dados (LGPD): guarda a data em que foi dada */}
+                <Controller
+                  name="privacy_consent_at"
+                  control={control}
+                  render={({ field }) => (
+                    <div className="flex items-center">
+                      <Checkbox
+                        inputId={field.name}
+                        checked={!!field.value}
+                        onChange={(e) => field.onChange(e.checked ? (editingClient?.privacy_consent_at ?? new Date().toISOString()) : null)}
+                      />
+                      <label htmlFor={field.name} className="ml-2 text-sm text-gray-700">
+                        Autorizou o tratamento dos seus dados (LGPD)
+                        {field.value && <span className="text-gray-400"> · desde {new Date(field.value).toLocaleDateString('pt-BR')}</span>}
+                      </label>
+                    </div>
+                  )}
+                />
+
               </div>
             </div>
             <div className="bg-gray-50 px-4 py-3 sm:px-6 sm:flex sm:flex-row-reverse">
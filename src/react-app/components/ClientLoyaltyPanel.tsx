@@ -0,0 +1,170 @@
+// src/react-app/components/ClientLoyaltyPanel.tsx
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import moment from 'moment';
+import { Dropdown } from 'primereact/dropdown';
+import { Gift } from 'lucide-react';
+import { useAppStore } from '../../shared/store';
+import { useToastHelpers } from '../contexts/ToastContext';
+import type { ClientType, LoyaltyRewardType, LoyaltyTransactionType } from '../../shared/types';
+import { TRANSACTION_KIND_LABELS, availableRewards, pointsBalance } from '../../shared/loyalty';
+
+interface ClientLoyaltyPanelProps {
+  client: ClientType;
+}
+
+/**
+ * Pontos de fidelidade do cliente: saldo, resgate de prêmios, ajustes manuais e o
+ * extrato com a origem de cada movimento.
+ */
+export default function ClientLoyaltyPanel({ client }: ClientLoyaltyPanelProps) {
+  const { loyaltyRewards, fetchLoyaltyRewards, fetchLoyaltyTransactions, redeemLoyaltyReward, adjustLoyaltyPoints } = useAppStore();
+  const { showSuccess, showError } = useToastHelpers();
+  const [transactions, setTransactions] = useState<LoyaltyTransactionType[]>([]);
+  const [selectedReward, setSelectedReward] = useState<LoyaltyRewardType | null>(null);
+  const [isRedeeming, setIsRedeeming] = useState(false);
+  const [adjustmentPoints, setAdjustmentPoints] = useState('');
+  const [adjustmentReason, setAdjustmentReason] = useState('');
+  const [isAdjusting, setIsAdjusting] = useState(false);
+
+  const loadTransactions = useCallback(() => {
+    fetchLoyaltyTransactions(client.id!)
+      .then(setTransactions)
+      .catch((error) => console.error('Erro ao buscar extrato de pontos:', (error as Error).message));
+  }, [client.id, fetchLoyaltyTransactions]);
+
+  useEffect(() => {
+    loadTransactions();
+    fetchLoyaltyRewards(client.user_id);
+  }, [loadTransactions, fetchLoyaltyRewards, client.user_id]);
+
+  const balance = pointsBalance(transactions);
+  const rewards = useMemo(() => availableRewards(loyaltyRewards, balance), [loyaltyRewards, balance]);
+
+  const handleRedeem = async () => {
+    if (!selectedReward) return;
+    setIsRedeeming(true);
+    try {
+      const saved = await redeemLoyaltyReward(client, selectedReward);
+      setTransactions(current => [saved, ...current]);
+      setSelectedReward(null);
+      showSuccess('Prêmio resgatado!', `${selectedReward.name}: ${selectedReward.points_cost} pontos descontados.`);
+    } catch (error) {
+      console.error('Erro ao resgatar prêmio:', (error as Error).message);
+      showError('Erro ao resgatar prêmio', (error as Error).message);
+    } finally {
+      setIsRedeeming(false);
+    }
+  };
+
+  const handleAdjust = async () => {
+    const points = Number(adjustmentPoints);
+    if (!Number.isInteger(points) || points === 0 || !adjustmentReason.trim()) return;
+    setIsAdjusting(true);
+    try {
+      const saved = await adjustLoyaltyPoints(client, points, adjustmentReason.trim());
+      setTransactions(current => [saved, ...current]);
+      setAdjustmentPoints('');
+      setAdjustmentReason('');
+      showSuccess('Saldo ajustado!');
+    } catch (error) {
+      console.error('Erro ao ajustar pontos:', (error as Error).message);
+      showError('Erro ao ajustar pontos', (error as Error).message);
+    } finally {
+      setIsAdjusting(false);
+    }
+  };
+
+  const canAdjust = Number.isInteger(Number(adjustmentPoints)) && Number(adjustmentPoints) !== 0 && !!adjustmentReason.trim();
+
+  return (
+    <div className="bg-white shadow-sm rounded-lg border border-gray-200">
+      <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+        <div className="flex items-center">
+          <Gift className="w-5 h-5 text-gray-500 mr-2" />
+          <h3 className="text-lg font-medium text-gray-900">Fidelidade</h3>
+        </div>
+        <span className="text-lg font-bold text-violet-600">{balance} pts</span>
+      </div>
+      <div className="px-6 py-4 space-y-4">
+        <div>
+          <p className="text-xs font-medium text-gray-500 uppercase tracking-wide mb-1">Resgatar prêmio</p>
+          {rewards.length === 0 ? (
+            <p className="text-sm text-gray-500">Nenhum prêmio disponível para o saldo atual.</p>
+          ) : (
+            <div className="flex gap-2">
+              <Dropdown
+                value={selectedReward}
+                options={rewards}
+                onChange={(e) => setSelectedReward(e.value)}
+                optionLabel="name"
+                itemTemplate={(reward: LoyaltyRewardType) => `${reward.name} · ${reward.points_cost} pts`}
+                placeholder="Selecione um prêmio"
+                className="w-full"
+              />
+              <button
+                type="button"
+                onClick={handleRedeem}
+                disabled={!selectedReward || isRedeeming}
+                className="px-3 py-1.5 text-sm font-medium rounded-md text-white bg-gradient-to-r from-pink-500 to-violet-500 hover:from-pink-600 hover:to-violet-600 disabled:opacity-50"
+              >
+                {isRedeeming ? 'Resgatando...' : 'Resgatar'}
+              </button>
+            </div>
+          )}
+        </div>
+
+        <div>
+          <p className="text-xs font-medium text-gray-500 uppercase tracking-wide mb-1">Ajuste manual</p>
+          <div className="flex gap-2">
+            <input
+              type="number"
+              step={1}
+              value={adjustmentPoints}
+              onChange={(e) => setAdjustmentPoints(e.target.value)}
+              placeholder="+/- pts"
+              className="w-24 border-gray-300 rounded-md shadow-sm focus:ring-pink-500 focus:border-pink-500 sm:text-sm"
+            />
+            <input
+              type="text"
+              value={adjustmentReason}
+              onChange={(e) => setAdjustmentReason(e.target.value)}
+              placeholder="Motivo"
+              maxLength={200}
+              className="flex-1 min-w-0 border-gray-300 rounded-md shadow-sm focus:ring-pink-500 focus:border-pink-500 sm:text-sm"
+            />
+            <button
+              type="button"
+              onClick={handleAdjust}
+              disabled={!canAdjust || isAdjusting}
+              className="px-3 py-1.5 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+            >
+              Ajustar
+            </button>
+          </div>
+        </div>
+
+        <div>
+          <p className="text-xs font-medium text-gray-500 uppercase tracking-wide mb-1">Extrato</p>
+          {transactions.length === 0 ? (
+            <p className="text-sm text-gray-500">Nenhum movimento de pontos.</p>
+          ) : (
+            <ul className="text-sm divide-y divide-gray-100 max-h-64 overflow-y-auto">
+              {transactions.map(transaction => (
+                <li key={transaction.id} className="flex justify-between gap-2 py-1.5">
+                  <div className="min-w-0">
+                    <p className="text-gray-700 truncate">{transaction.description}</p>
+                    <p className="text-xs text-gray-400">{TRANSACTION_KIND_LABELS[transaction.kind]} · {moment(transaction.created_at).format('DD/MM/YYYY')}</p>
+                  </div>
+                  <span className={`font-medium ${transaction.points > 0 ? 'text-green-600' : 'text-red-600'}`}>
+                    {transaction.points > 0 ? `+${transaction.points}` : transaction.points}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
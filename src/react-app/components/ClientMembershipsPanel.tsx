@@ -0,0 +1,67 @@
+// src/react-app/components/ClientMembershipsPanel.tsx
+
+import { useEffect, useState } from 'react';
+import moment from 'moment';
+import { CreditCard } from 'lucide-react';
+import { useAppStore } from '../../shared/store';
+import type { ClientMembershipType, ClientType } from '../../shared/types';
+import { MEMBERSHIP_STATUS_LABELS, billingPeriod, usesInPeriod } from '../../shared/memberships';
+import { formatCurrency } from '../utils';
+
+interface ClientMembershipsPanelProps {
+  client: ClientType;
+}
+
+/**
+ * Assinaturas do cliente, com os usos do ciclo atual e o fim do ciclo. A adesão,
+ * a pausa e o cancelamento são feitos na página de Assinaturas.
+ */
+export default function ClientMembershipsPanel({ client }: ClientMembershipsPanelProps) {
+  const { fetchClientMemberships } = useAppStore();
+  const [memberships, setMemberships] = useState<ClientMembershipType[]>([]);
+
+  useEffect(() => {
+    fetchClientMemberships(client.id!)
+      .then(setMemberships)
+      .catch((error) => console.error('Erro ao buscar assinaturas do cliente:', (error as Error).message));
+  }, [client.id, fetchClientMemberships]);
+
+  const today = moment().format('YYYY-MM-DD');
+
+  return (
+    <div className="bg-white shadow-sm rounded-lg border border-gray-200">
+      <div className="px-6 py-4 border-b border-gray-200 flex items-center">
+        <CreditCard className="w-5 h-5 text-gray-500 mr-2" />
+        <h3 className="text-lg font-medium text-gray-900">Assinaturas</h3>
+      </div>
+      <div className="px-6 py-4">
+        {memberships.length === 0 ? (
+          <p className="text-sm text-gray-500">Nenhuma assinatura.</p>
+        ) : (
+          <ul className="text-sm divide-y divide-gray-100">
+            {memberships.map(membership => {
+              const period = billingPeriod(membership.started_at, today);
+              const used = usesInPeriod(membership, today);
+              return (
+                <li key={membership.id} className={`py-2 ${membership.status === 'active' ? '' : 'opacity-60'}`}>
+                  <div className="flex justify-between gap-2">
+                    <p className="font-medium text-gray-800 truncate">{membership.plan_name}</p>
+                    <span className="text-xs font-medium text-gray-600 whitespace-nowrap">{MEMBERSHIP_STATUS_LABELS[membership.status]}</span>
+                  </div>
+                  <p className="text-xs text-gray-400">
+                    {formatCurrency(membership.monthly_price)}/mês · desde {moment(membership.started_at).format('DD/MM/YYYY')}
+                  </p>
+                  {membership.status === 'active' && period && (
+                    <p className="text-xs text-violet-600">
+                      {membership.usage_limit ? `${used} de ${membership.usage_limit} usos` : `${used} uso(s)`} no ciclo até {moment(period.end).format('DD/MM')}
+                    </p>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,66 @@
+// src/react-app/components/ClientPackagesPanel.tsx
+
+import { useEffect, useState } from 'react';
+import moment from 'moment';
+import { Layers } from 'lucide-react';
+import { useAppStore } from '../../shared/store';
+import type { ClientPackageType, ClientType } from '../../shared/types';
+import { isExpired, remainingSessions } from '../../shared/packages';
+import { formatCurrency } from '../utils';
+
+interface ClientPackagesPanelProps {
+  client: ClientType;
+}
+
+/**
+ * Pacotes comprados pelo cliente, com as sessões por usar e o prazo de cada um.
+ * A venda é feita na página de Pacotes.
+ */
+export default function ClientPackagesPanel({ client }: ClientPackagesPanelProps) {
+  const { fetchClientPackages } = useAppStore();
+  const [packages, setPackages] = useState<ClientPackageType[]>([]);
+
+  useEffect(() => {
+    fetchClientPackages(client.id!)
+      .then(setPackages)
+      .catch((error) => console.error('Erro ao buscar pacotes do cliente:', (error as Error).message));
+  }, [client.id, fetchClientPackages]);
+
+  const today = moment().format('YYYY-MM-DD');
+
+  return (
+    <div className="bg-white shadow-sm rounded-lg border border-gray-200">
+      <div className="px-6 py-4 border-b border-gray-200 flex items-center">
+        <Layers className="w-5 h-5 text-gray-500 mr-2" />
+        <h3 className="text-lg font-medium text-gray-900">Pacotes</h3>
+      </div>
+      <div className="px-6 py-4">
+        {packages.length === 0 ? (
+          <p className="text-sm text-gray-500">Nenhum pacote comprado.</p>
+        ) : (
+          <ul className="text-sm divide-y divide-gray-100">
+            {packages.map(pkg => {
+              const remaining = remainingSessions(pkg);
+              const expired = isExpired(pkg, today);
+              return (
+                <li key={pkg.id} className={`py-2 ${expired || remaining === 0 ? 'opacity-60' : ''}`}>
+                  <div className="flex justify-between gap-2">
+                    <p className="font-medium text-gray-800 truncate">{pkg.package_name}</p>
+                    <span className="font-medium text-violet-600 whitespace-nowrap">{remaining} de {pkg.sessions_total}</span>
+                  </div>
+                  <p className="text-xs text-gray-400">
+                    Comprado em {moment(pkg.purchased_at).format('DD/MM/YYYY')} · {formatCurrency(pkg.price)}
+                    {' · '}
+                    {pkg.expires_at
+                      ? `${expired ? 'Expirou' : 'Válido até'} ${moment(pkg.expires_at).format('DD/MM/YYYY')}`
+                      : 'Sem prazo'}
+                  </p>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
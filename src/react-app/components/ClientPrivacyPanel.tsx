@@ -0,0 +1,160 @@
+// src/react-app/components/ClientPrivacyPanel.tsx
+
+import { useCallback, useEffect, useState } from 'react';
+import moment from 'moment';
+import { ShieldCheck, Download, EyeOff } from 'lucide-react';
+import { useAppStore } from '../../shared/store';
+import { useToastHelpers } from '../contexts/ToastContext';
+import ConfirmationModal from './ConfirmationModal';
+import type { ClientType, DataSubjectRequestType } from '../../shared/types';
+import { DATA_REQUEST_LABELS, clientDataFileName, isAnonymized } from '../../shared/lgpd';
+
+interface ClientPrivacyPanelProps {
+  client: ClientType;
+  onAnonymized: () => void; // As notas do cliente são apagadas na anonimização
+}
+
+const formatTimestamp = (date: string | null | undefined) => (date ? moment(date).format('DD/MM/YYYY HH:mm') : null);
+
+/**
+ * Privacidade do cliente (LGPD): consentimentos, exportação dos dados, anonimização
+ * e o registro dos pedidos já atendidos.
+ */
+export default function ClientPrivacyPanel({ client, onAnonymized }: ClientPrivacyPanelProps) {
+  const { exportClientData, anonymizeClient, fetchDataSubjectRequests } = useAppStore();
+  const { showSuccess, showError } = useToastHelpers();
+  const [requests, setRequests] = useState<DataSubjectRequestType[]>([]);
+  const [isExporting, setIsExporting] = useState(false);
+  const [isConfirmOpen, setIsConfirmOpen] = useState(false);
+  const [isAnonymizing, setIsAnonymizing] = useState(false);
+
+  const loadRequests = useCallback(() => {
+    fetchDataSubjectRequests(client.id!)
+      .then(setRequests)
+      .catch((error) => console.error('Erro ao buscar pedidos LGPD:', (error as Error).message));
+  }, [client.id, fetchDataSubjectRequests]);
+
+  useEffect(() => {
+    loadRequests();
+  }, [loadRequests]);
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      const exported = await exportClientData(client);
+      const blob = new Blob([JSON.stringify(exported, null, 2)], { type: 'application/json;charset=utf-8;' });
+      const link = document.createElement('a');
+      const url = URL.createObjectURL(blob);
+      link.setAttribute('href', url);
+      link.setAttribute('download', clientDataFileName(client, new Date(exported.generated_at)));
+      link.style.visibility = 'hidden';
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+      showSuccess('Dados exportados!', 'O pedido ficou registrado no histórico LGPD.');
+      loadRequests();
+    } catch (error) {
+      console.error('Erro ao exportar dados do cliente:', (error as Error).message);
+      showError('Erro ao exportar dados', 'Tente novamente.');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleAnonymize = async () => {
+    setIsAnonymizing(true);
+    try {
+      await anonymizeClient(client);
+      showSuccess('Cliente anonimizado!', 'Os dados pessoais foram apagados; o histórico financeiro foi mantido.');
+      setIsConfirmOpen(false);
+      onAnonymized();
+      loadRequests();
+    } catch (error) {
+      console.error('Erro ao anonimizar cliente:', (error as Error).message);
+      showError('Erro ao anonimizar cliente', 'Tente novamente.');
+    } finally {
+      setIsAnonymizing(false);
+    }
+  };
+
+  const anonymized = isAnonymized(client);
+
+  return (
+    <div className="bg-white shadow-sm rounded-lg border border-gray-200">
+      <div className="px-6 py-4 border-b border-gray-200 flex items-center">
+        <ShieldCheck className="w-5 h-5 text-gray-500 mr-2" />
+        <h3 className="text-lg font-medium text-gray-900">Privacidade (LGPD)</h3>
+      </div>
+      <div className="px-6 py-4 space-y-4">
+        {anonymized ? (
+          <p className="text-sm text-gray-600">Dados pessoais anonimizados em {formatTimestamp(client.anonymized_at)}.</p>
+        ) : (
+          <dl className="text-sm space-y-1">
+            <div className="flex justify-between gap-2">
+              <dt className="text-gray-500">Tratamento dos dados</dt>
+              <dd className="text-gray-900">{client.privacy_consent_at ? `Autorizado em ${moment(client.privacy_consent_at).format('DD/MM/YYYY')}` : 'Não autorizado'}</dd>
+            </div>
+            <div className="flex justify-between gap-2">
+              <dt className="text-gray-500">Marketing</dt>
+              <dd className="text-gray-900">
+                {client.marketing_consent ? 'Aceita' : 'Não aceita'}
+                {client.marketing_consent_at && <span className="text-gray-400"> · {moment(client.marketing_consent_at).format('DD/MM/YYYY')}</span>}
+              </dd>
+            </div>
+          </dl>
+        )}
+
+        <div className="flex flex-wrap gap-2">
+          <button
+            type="button"
+            onClick={handleExport}
+            disabled={isExporting}
+            className="inline-flex items-center px-3 py-1.5 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+          >
+            <Download className="w-4 h-4 mr-1.5" />
+            {isExporting ? 'Exportando...' : 'Exportar dados'}
+          </button>
+          {!anonymized && (
+            <button
+              type="button"
+              onClick={() => setIsConfirmOpen(true)}
+              className="inline-flex items-center px-3 py-1.5 border border-red-300 text-sm font-medium rounded-md text-red-700 bg-white hover:bg-red-50"
+            >
+              <EyeOff className="w-4 h-4 mr-1.5" />
+              Anonimizar
+            </button>
+          )}
+        </div>
+
+        <div>
+          <p className="text-xs font-medium text-gray-500 uppercase tracking-wide mb-1">Pedidos atendidos</p>
+          {requests.length === 0 ? (
+            <p className="text-sm text-gray-500">Nenhum pedido registrado.</p>
+          ) : (
+            <ul className="text-sm space-y-1">
+              {requests.map(request => (
+                <li key={request.id} className="flex justify-between gap-2">
+                  <span className="text-gray-700">{DATA_REQUEST_LABELS[request.request_type]}</span>
+                  <span className="text-gray-500">{formatTimestamp(request.fulfilled_at)}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+
+      <ConfirmationModal
+        isOpen={isConfirmOpen}
+        onClose={() => setIsConfirmOpen(false)}
+        onConfirm={handleAnonymize}
+        title="Anonimizar Cliente"
+        message={`Nome, contatos, CPF, endereço, notas e etiquetas de "${client.name}" serão apagados, também das mensagens enviadas. Os agendamentos e os valores recebidos ficam no histórico. Esta ação não pode ser desfeita.`}
+        confirmText="Anonimizar"
+        cancelText="Cancelar"
+        variant="danger"
+        isLoading={isAnonymizing}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,68 @@
+// src/react-app/components/DiscountReportPanel.tsx
+
+import { useEffect, useState } from 'react';
+import moment from 'moment';
+import { Tag } from 'lucide-react';
+import { useAppStore } from '../../shared/store';
+import type { DiscountReportRow } from '../../shared/promotions';
+import { summarizeDiscounts } from '../../shared/promotions';
+import { formatCurrency } from '../utils';
+
+interface DiscountReportPanelProps {
+  userId: string;
+  month: Date;
+}
+
+/**
+ * Atendimentos concluídos no mês: valor bruto, descontos das promoções e valor
+ * líquido, com o desconto dado por cada promoção.
+ */
+export default function DiscountReportPanel({ userId, month }: DiscountReportPanelProps) {
+  const { fetchDiscountReport } = useAppStore();
+  const [rows, setRows] = useState<DiscountReportRow[]>([]);
+
+  useEffect(() => {
+    const start = moment(month).startOf('month').format('YYYY-MM-DD');
+    const end = moment(month).endOf('month').format('YYYY-MM-DD');
+    fetchDiscountReport(userId, start, end)
+      .then(setRows)
+      .catch((error) => console.error('Erro ao buscar descontos do mês:', (error as Error).message));
+  }, [userId, month, fetchDiscountReport]);
+
+  const summary = summarizeDiscounts(rows);
+
+  return (
+    <div className="bg-white shadow-sm rounded-lg border border-gray-200">
+      <div className="px-6 py-4 border-b border-gray-200 flex items-center">
+        <Tag className="w-5 h-5 text-gray-500 mr-2" />
+        <h3 className="text-lg font-medium text-gray-900">Atendimentos e descontos</h3>
+      </div>
+      <div className="px-6 py-4">
+        <dl className="grid grid-cols-3 gap-4 text-sm">
+          <div>
+            <dt className="text-gray-500">Bruto</dt>
+            <dd className="font-semibold text-gray-900">{formatCurrency(summary.gross)}</dd>
+          </div>
+          <div>
+            <dt className="text-gray-500">Descontos</dt>
+            <dd className="font-semibold text-red-600">-{formatCurrency(summary.discount)}</dd>
+          </div>
+          <div>
+            <dt className="text-gray-500">Líquido</dt>
+            <dd className="font-semibold text-green-600">{formatCurrency(summary.net)}</dd>
+          </div>
+        </dl>
+        {summary.byPromotion.length > 0 && (
+          <ul className="mt-3 text-sm divide-y divide-gray-100 border-t border-gray-100">
+            {summary.byPromotion.map(promotion => (
+              <li key={promotion.name} className="flex justify-between gap-2 py-1.5">
+                <span className="text-gray-700 truncate">{promotion.name} <span className="text-xs text-gray-400">· {promotion.count} atendimento(s)</span></span>
+                <span className="font-medium text-red-600">-{formatCurrency(promotion.discount)}</span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
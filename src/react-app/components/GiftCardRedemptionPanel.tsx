@@ -0,0 +1,172 @@
+// src/react-app/components/GiftCardRedemptionPanel.tsx
+
+import { useEffect, useState } from 'react';
+import moment from 'moment';
+import { Ticket, Undo2 } from 'lucide-react';
+import { useAppStore } from '../../shared/store';
+import type { AppointmentType, GiftCardTransactionType, GiftCardType } from '../../shared/types';
+import { appointmentCredit, giftCardBalance, giftCardRedemptionError, normalizeGiftCardCode } from '../../shared/giftCards';
+import { useToastHelpers } from '../contexts/ToastContext';
+import { formatCurrency } from '../utils';
+
+type AppointmentGiftCardTransaction = GiftCardTransactionType & { gift_card?: { code: string } };
+
+interface GiftCardRedemptionPanelProps {
+  appointment: AppointmentType;
+  userId: string;
+}
+
+/**
+ * Pagamento de um agendamento com vales-presente: procura o vale pelo código, usa
+ * parte do saldo e permite estornar um uso enquanto o atendimento não é concluído.
+ */
+export default function GiftCardRedemptionPanel({ appointment, userId }: GiftCardRedemptionPanelProps) {
+  const { findGiftCard, redeemGiftCard, refundGiftCardRedemption, fetchAppointmentGiftCards } = useAppStore();
+  const { showSuccess, showError } = useToastHelpers();
+  const [transactions, setTransactions] = useState<AppointmentGiftCardTransaction[]>([]);
+  const [code, setCode] = useState('');
+  const [card, setCard] = useState<GiftCardType | null>(null);
+  const [amount, setAmount] = useState('');
+  const [busy, setBusy] = useState(false);
+
+  // Recarrega ao mudar o status: o cancelamento estorna os vales automaticamente
+  useEffect(() => {
+    fetchAppointmentGiftCards(appointment.id!)
+      .then(setTransactions)
+      .catch((error) => console.error('Erro ao buscar vales do agendamento:', (error as Error).message));
+  }, [appointment.id, appointment.status, fetchAppointmentGiftCards]);
+
+  const credit = appointmentCredit(transactions, appointment.id!);
+  const due = Math.max(appointment.price - credit, 0);
+  const locked = appointment.status === 'completed';
+  // Usos ainda não estornados (um estorno aponta para o mesmo vale e atendimento)
+  const refunds = transactions.filter(t => t.kind === 'refund').map(t => `${t.gift_card_id}:${-t.amount}`);
+  const redemptions = transactions.filter(t => {
+    if (t.kind !== 'redeem') return false;
+    const index = refunds.indexOf(`${t.gift_card_id}:${t.amount}`);
+    if (index >= 0) refunds.splice(index, 1);
+    return index < 0;
+  });
+
+  const handleFind = async () => {
+    const normalized = normalizeGiftCardCode(code);
+    if (!normalized) return;
+    setBusy(true);
+    try {
+      const found = await findGiftCard(normalized, userId);
+      if (!found) {
+        showError('Vale não encontrado', `Nenhum vale com o código ${normalized}.`);
+        return;
+      }
+      const balance = giftCardBalance(found.transactions ?? []);
+      setCode(found.code);
+      setCard(found);
+      setAmount((Math.min(balance, due) / 100).toFixed(2));
+    } catch (error) {
+      showError('Erro ao buscar vale', (error as Error).message);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleRedeem = async () => {
+    if (!card) return;
+    const cents = Math.round(Number(amount.replace(',', '.')) * 100);
+    const refusal = giftCardRedemptionError(card, giftCardBalance(card.transactions ?? []), cents, moment().format('YYYY-MM-DD'));
+    if (refusal) {
+      showError('Vale não aplicado', refusal);
+      return;
+    }
+    setBusy(true);
+    try {
+      const transaction = await redeemGiftCard(card, cents, appointment);
+      setTransactions(current => [...current, { ...transaction, gift_card: { code: card.code } }]);
+      setCard(null);
+      setCode('');
+      setAmount('');
+      showSuccess('Vale aplicado', `${formatCurrency(cents)} do vale ${card.code}.`);
+    } catch (error) {
+      showError('Erro ao usar vale', (error as Error).message);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleRefund = async (transaction: AppointmentGiftCardTransaction) => {
+    setBusy(true);
+    try {
+      const refund = await refundGiftCardRedemption(transaction, appointment);
+      setTransactions(current => [...current, { ...refund, gift_card: transaction.gift_card }]);
+    } catch (error) {
+      showError('Erro ao estornar vale', (error as Error).message);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  // Enter no código procura o vale em vez de submeter o formulário do agendamento
+  const handleCodeKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key !== 'Enter') return;
+    e.preventDefault();
+    handleFind();
+  };
+
+  if (locked && redemptions.length === 0) return null;
+
+  return (
+    <div>
+      <span className="flex items-center text-sm font-medium text-gray-700 mb-1">
+        <Ticket className="w-4 h-4 mr-1" /> Vale-presente
+      </span>
+      {redemptions.length > 0 && (
+        <ul className="mb-2 space-y-1 text-xs text-gray-600">
+          {redemptions.map(transaction => (
+            <li key={transaction.id} className="flex items-center justify-between gap-2">
+              <span>
+                <span className="font-mono">{transaction.gift_card?.code}</span> · {formatCurrency(-transaction.amount)}
+              </span>
+              {!locked && (
+                <button type="button" disabled={busy} onClick={() => handleRefund(transaction)} className="inline-flex items-center text-pink-600 hover:text-pink-700 disabled:opacity-50">
+                  <Undo2 className="w-3 h-3 mr-1" /> Estornar
+                </button>
+              )}
+            </li>
+          ))}
+          <li className="text-violet-600">A pagar no atendimento: {formatCurrency(due)}</li>
+        </ul>
+      )}
+      {!locked && (
+        <div className="flex flex-wrap items-center gap-2">
+          <input
+            type="text"
+            value={code}
+            onChange={(e) => { setCode(e.target.value); setCard(null); }}
+            onKeyDown={handleCodeKeyDown}
+            placeholder="Código do vale"
+            className="w-36 font-mono uppercase border-gray-300 rounded-md shadow-sm focus:ring-pink-500 focus:border-pink-500 sm:text-sm"
+          />
+          {card ? (
+            <>
+              <input
+                type="text"
+                inputMode="decimal"
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                onKeyDown={(e) => { if (e.key === 'Enter') { e.preventDefault(); handleRedeem(); } }}
+                className="w-24 border-gray-300 rounded-md shadow-sm focus:ring-pink-500 focus:border-pink-500 sm:text-sm"
+              />
+              <button type="button" disabled={busy} onClick={handleRedeem} className="px-3 py-1.5 text-xs font-medium rounded-md text-white bg-pink-600 hover:bg-pink-700 disabled:opacity-50">
+                Aplicar
+              </button>
+              <span className="text-xs text-gray-500">Saldo {formatCurrency(giftCardBalance(card.transactions ?? []))}</span>
+            </>
+          ) : (
+            <button type="button" disabled={busy || !code.trim()} onClick={handleFind} className="px-3 py-1.5 text-xs font-medium rounded-md border border-gray-300 text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50">
+              Buscar
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
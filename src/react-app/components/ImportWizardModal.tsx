@@ -0,0 +1,275 @@
+// src/react-app/components/ImportWizardModal.tsx
+
+import { useMemo, useState } from 'react';
+import { Dropdown } from 'primereact/dropdown';
+import { X, Upload, FileSpreadsheet, CheckCircle, AlertCircle, ArrowLeft } from 'lucide-react';
+import { useSupabaseAuth } from '../auth/SupabaseAuthProvider';
+import { useAppStore } from '../../shared/store';
+import type { ImportResult } from '../../shared/store';
+import { useToastHelpers } from '../contexts/ToastContext';
+import { readSpreadsheet } from '../spreadsheet';
+import { IMPORT_FIELDS, IMPORT_TARGET_LABELS, guessMapping, validateRows } from '../../shared/dataImport';
+import type { ColumnMapping, ImportTarget, SheetRow } from '../../shared/dataImport';
+
+interface ImportWizardModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  target: ImportTarget;
+}
+
+type Step = 'upload' | 'mapping' | 'preview' | 'done';
+
+// Linhas mostradas na pré-visualização (a importação grava todas)
+const PREVIEW_LIMIT = 200;
+
+/**
+ * Assistente de importação: escolha do arquivo (CSV ou XLSX), associação das
+ * colunas aos campos, pré-visualização com os erros de cada linha e o resumo final.
+ * Só as linhas válidas são gravadas.
+ */
+export default function ImportWizardModal({ isOpen, onClose, target }: ImportWizardModalProps) {
+  const { user } = useSupabaseAuth();
+  const { importRecords } = useAppStore();
+  const { showSuccess, showError } = useToastHelpers();
+  const [step, setStep] = useState<Step>('upload');
+  const [fileName, setFileName] = useState('');
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [rows, setRows] = useState<SheetRow[]>([]);
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [onlyErrors, setOnlyErrors] = useState(false);
+  const [isReading, setIsReading] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const [result, setResult] = useState<ImportResult | null>(null);
+
+  const fields = IMPORT_FIELDS[target];
+  const label = IMPORT_TARGET_LABELS[target].toLowerCase();
+  const validated = useMemo(() => (step === 'preview' ? validateRows(rows, mapping, target) : []), [step, rows, mapping, target]);
+  const validCount = validated.filter(row => row.data).length;
+  const invalidCount = validated.length - validCount;
+  const missingRequired = fields.filter(field => field.required && mapping[field.key] == null);
+  const columnOptions = headers.map((header, index) => ({ label: header || `Coluna ${index + 1}`, value: index }));
+
+  if (!isOpen) return null;
+
+  const handleClose = () => {
+    setStep('upload');
+    setFileName('');
+    setHeaders([]);
+    setRows([]);
+    setMapping({});
+    setOnlyErrors(false);
+    setResult(null);
+    onClose();
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setIsReading(true);
+    try {
+      const [first, ...data] = await readSpreadsheet(file);
+      const header = first?.cells ?? [];
+      if (data.length === 0) {
+        showError('Planilha vazia', 'O arquivo não tem linhas além do cabeçalho.');
+        return;
+      }
+      setFileName(file.name);
+      setHeaders(header.map(h => h.trim()));
+      setRows(data);
+      setMapping(guessMapping(header, target));
+      setStep('mapping');
+    } catch (error) {
+      console.error('Erro ao ler planilha:', (error as Error).message);
+      showError('Não foi possível ler o arquivo', (error as Error).message);
+    } finally {
+      setIsReading(false);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!user) return;
+    setIsImporting(true);
+    try {
+      const imported = await importRecords(target, validated, user.id);
+      setResult(imported);
+      setStep('done');
+      if (imported.inserted > 0) showSuccess('Importação concluída!', `${imported.inserted} registro(s) de ${label} importado(s).`);
+    } catch (error) {
+      console.error('Erro ao importar:', (error as Error).message);
+      showError('Erro ao importar', 'Tente novamente.');
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const visibleRows = validated.filter(row => !onlyErrors || row.errors.length > 0).slice(0, PREVIEW_LIMIT);
+  const mappedFields = fields.filter(field => mapping[field.key] != null);
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto">
+      <div className="flex items-center justify-center min-h-screen p-4 text-center">
+        <div className="fixed inset-0 bg-gray-500 bg-opacity-75 transition-opacity" onClick={handleClose} aria-hidden="true"></div>
+        <div className="inline-block align-bottom bg-white rounded-lg text-left overflow-hidden shadow-xl transform transition-all sm:my-8 sm:align-middle sm:max-w-4xl sm:w-full">
+          <div className="bg-white px-4 pt-5 pb-4 sm:p-6 sm:pb-4">
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="text-lg font-medium text-gray-900">Importar {label}</h3>
+              <button type="button" onClick={handleClose} className="text-gray-400 hover:text-gray-600">
+                <X className="w-6 h-6" />
+              </button>
+            </div>
+
+            {step === 'upload' && (
+              <div>
+                <label className="flex flex-col items-center justify-center border-2 border-dashed border-gray-300 rounded-lg p-8 cursor-pointer hover:border-pink-400">
+                  <Upload className="w-10 h-10 text-gray-400" />
+                  <span className="mt-2 text-sm font-medium text-gray-700">{isReading ? 'Lendo arquivo...' : 'Escolha um arquivo CSV ou XLSX'}</span>
+                  <span className="mt-1 text-xs text-gray-500">A primeira linha deve ter os nomes das colunas.</span>
+                  <input
+                    type="file"
+                    accept=".csv,.txt,.xlsx"
+                    className="hidden"
+                    disabled={isReading}
+                    onChange={(e) => { handleFile(e.target.files?.[0]); e.target.value = ''; }}
+                  />
+                </label>
+                <p className="mt-3 text-xs text-gray-500">
+                  Campos disponíveis: {fields.map(field => `${field.label}${field.required ? ' *' : ''}`).join(', ')}.
+                  Preços no formato "35,90", datas como "31/12/1990" e "sim"/"não" para as opções.
+                </p>
+              </div>
+            )}
+
+            {step === 'mapping' && (
+              <div>
+                <p className="text-sm text-gray-600 mb-3 inline-flex items-center">
+                  <FileSpreadsheet className="w-4 h-4 mr-1.5" /> {fileName} · {rows.length} linha(s)
+                </p>
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                  {fields.map(field => (
+                    <div key={field.key}>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">
+                        {field.label}{field.required && <span className="text-red-500"> *</span>}
+                      </label>
+                      <Dropdown
+                        value={mapping[field.key] ?? null}
+                        options={columnOptions}
+                        onChange={(e) => setMapping(current => ({ ...current, [field.key]: e.value ?? null }))}
+                        placeholder="Não importar"
+                        showClear
+                        className="w-full"
+                      />
+                    </div>
+                  ))}
+                </div>
+                {missingRequired.length > 0 && (
+                  <p className="mt-3 text-sm text-red-600">Escolha a coluna de: {missingRequired.map(field => field.label).join(', ')}.</p>
+                )}
+              </div>
+            )}
+
+            {step === 'preview' && (
+              <div>
+                <div className="flex flex-wrap items-center gap-3 mb-3 text-sm">
+                  <span className="inline-flex items-center text-green-700"><CheckCircle className="w-4 h-4 mr-1" /> {validCount} válida(s)</span>
+                  <span className="inline-flex items-center text-red-600"><AlertCircle className="w-4 h-4 mr-1" /> {invalidCount} com erros</span>
+                  <label className="ml-auto inline-flex items-center gap-2 text-gray-700">
+                    <input type="checkbox" checked={onlyErrors} onChange={(e) => setOnlyErrors(e.target.checked)} className="rounded text-pink-600 focus:ring-pink-500" />
+                    Só linhas com erros
+                  </label>
+                </div>
+                <div className="max-h-[50vh] overflow-auto border border-gray-200 rounded-md">
+                  <table className="min-w-full divide-y divide-gray-200 text-sm">
+                    <thead className="bg-gray-50 sticky top-0">
+                      <tr>
+                        <th className="px-3 py-2 text-left font-medium text-gray-500">Linha</th>
+                        {mappedFields.map(field => (
+                          <th key={field.key} className="px-3 py-2 text-left font-medium text-gray-500 whitespace-nowrap">{field.label}</th>
+                        ))}
+                        <th className="px-3 py-2 text-left font-medium text-gray-500">Situação</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-200">
+                      {visibleRows.map(row => (
+                        <tr key={row.line} className={row.errors.length > 0 ? 'bg-red-50' : ''}>
+                          <td className="px-3 py-2 text-gray-500">{row.line}</td>
+                          {mappedFields.map(field => (
+                            <td key={field.key} className="px-3 py-2 text-gray-900 max-w-[12rem] truncate">{row.cells[mapping[field.key]!] ?? ''}</td>
+                          ))}
+                          <td className="px-3 py-2">
+                            {row.errors.length === 0
+                              ? <span className="text-green-700">OK</span>
+                              : <ul className="text-red-600 text-xs space-y-0.5">{row.errors.map(error => <li key={error}>{error}</li>)}</ul>}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+                {validated.length > PREVIEW_LIMIT && (
+                  <p className="mt-2 text-xs text-gray-500">Mostrando as primeiras {PREVIEW_LIMIT} linhas.</p>
+                )}
+              </div>
+            )}
+
+            {step === 'done' && result && (
+              <div className="space-y-3">
+                <p className="inline-flex items-center text-green-700"><CheckCircle className="w-5 h-5 mr-2" /> {result.inserted} registro(s) importado(s).</p>
+                {invalidCount > 0 && (
+                  <p className="text-sm text-gray-600">{invalidCount} linha(s) ignorada(s) por erros de validação.</p>
+                )}
+                {result.failed.length > 0 && (
+                  <div>
+                    <p className="inline-flex items-center text-red-600"><AlertCircle className="w-5 h-5 mr-2" /> {result.failed.length} linha(s) não gravada(s):</p>
+                    <ul className="mt-2 max-h-48 overflow-y-auto text-sm text-gray-700 space-y-1">
+                      {result.failed.map(failure => <li key={failure.line}>Linha {failure.line}: {failure.message}</li>)}
+                    </ul>
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+
+          <div className="bg-gray-50 px-4 py-3 sm:px-6 sm:flex sm:flex-row-reverse gap-3">
+            {step === 'mapping' && (
+              <button
+                type="button"
+                disabled={missingRequired.length > 0}
+                onClick={() => { setOnlyErrors(false); setStep('preview'); }}
+                className="w-full inline-flex justify-center rounded-md border border-transparent shadow-sm px-4 py-2 bg-gradient-to-r from-pink-500 to-violet-500 text-base font-medium text-white hover:from-pink-600 hover:to-violet-600 disabled:opacity-50 sm:w-auto sm:text-sm"
+              >
+                Pré-visualizar
+              </button>
+            )}
+            {step === 'preview' && (
+              <button
+                type="button"
+                disabled={validCount === 0 || isImporting}
+                onClick={handleImport}
+                className="w-full inline-flex justify-center rounded-md border border-transparent shadow-sm px-4 py-2 bg-gradient-to-r from-pink-500 to-violet-500 text-base font-medium text-white hover:from-pink-600 hover:to-violet-600 disabled:opacity-50 sm:w-auto sm:text-sm"
+              >
+                {isImporting ? 'Importando...' : `Importar ${validCount} linha(s)`}
+              </button>
+            )}
+            {(step === 'mapping' || step === 'preview') && (
+              <button
+                type="button"
+                disabled={isImporting}
+                onClick={() => setStep(step === 'preview' ? 'mapping' : 'upload')}
+                className="mt-3 w-full inline-flex justify-center items-center rounded-md border border-gray-300 shadow-sm px-4 py-2 bg-white text-base font-medium text-gray-700 hover:bg-gray-50 sm:mt-0 sm:w-auto sm:text-sm"
+              >
+                <ArrowLeft className="w-4 h-4 mr-1" /> Voltar
+              </button>
+            )}
+            <button
+              type="button"
+              onClick={handleClose}
+              disabled={isImporting}
+              className="mt-3 w-full inline-flex justify-center rounded-md border border-gray-300 shadow-sm px-4 py-2 bg-white text-base font-medium text-gray-700 hover:bg-gray-50 sm:mt-0 sm:w-auto sm:text-sm"
+            >
+              {step === 'done' ? 'Fechar' : 'Cancelar'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -13,7 +13,11 @@ import {
   Menu,
   X,
   LogOut,
-  Scissors // Ícone para Serviços
+  Scissors, // Ícone para Serviços
+  Layers,
+  CreditCard,
+  Ticket,
+  Tag
 } from 'lucide-react';
 
 // --- Definição de Tipos ---
@@ -28,6 +32,10 @@ const navigation = [
   { name: 'Financeiro', href: '/financial', icon: DollarSign },
   { name: 'Produtos', href: '/products', icon: Package },
   { name: 'Serviços', href: '/services', icon: Scissors }, // <-- NOVO LINK
+  { name: 'Pacotes', href: '/packages', icon: Layers },
+  { name: 'Assinaturas', href: '/memberships', icon: CreditCard },
+  { name: 'Vales-presente', href: '/gift-cards', icon: Ticket },
+  { name: 'Promoções', href: '/promotions', icon: Tag },
   { name: 'Clientes', href: '/clients', icon: Users },
   { name: 'Profissionais', href: '/professionals', icon: Briefcase },
   { name: 'Configurações', href: '/settings', icon: Settings },
@@ -80,7 +88,7 @@ export default function Layout({ children }: LayoutProps) {
               </div>
               <nav className="mt-5 space-y-1 px-2">
                 {navigation.map((item) => {
-                  const isActive = location.pathname === item.href;
+                  const isActive = location.pathname === item.href || location.pathname.startsWith(`${item.href}/`);
                   return (
                     <Link
                       key={item.name}
@@ -140,7 +148,7 @@ export default function Layout({ children }: LayoutProps) {
             </div>
             <nav className="mt-5 flex-1 space-y-1 px-2">
               {navigation.map((item) => {
-                const isActive = location.pathname === item.href;
+                const isActive = location.pathname === item.href || location.pathname.startsWith(`${item.href}/`);
                 return (
                   <Link
                     key={item.name}
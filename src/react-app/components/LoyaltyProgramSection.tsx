@@ -0,0 +1,351 @@
+// src/react-app/components/LoyaltyProgramSection.tsx
+
+import { useEffect, useState } from 'react';
+import { useForm, Controller } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Dropdown } from 'primereact/dropdown';
+import { InputNumber } from 'primereact/inputnumber';
+import { Gift, Plus, Save, Edit, Trash2, X } from 'lucide-react';
+import { useAppStore } from '../../shared/store';
+import { useToastHelpers } from '../contexts/ToastContext';
+import ConfirmationModal from './ConfirmationModal';
+import { LoyaltyRewardFormSchema, LoyaltySettingsFormSchema } from '../../shared/types';
+import type { LoyaltyRewardFormData, LoyaltyRewardType, LoyaltySettingsFormData } from '../../shared/types';
+import { REWARD_TYPE_LABELS } from '../../shared/loyalty';
+import { formatCurrency } from '../utils';
+
+interface LoyaltyProgramSectionProps {
+  userId: string;
+}
+
+// No formulário o desconto é em reais; no banco, em centavos
+const defaultRewardValues: LoyaltyRewardFormData = {
+  name: '',
+  points_cost: 100,
+  reward_type: 'free_service',
+  service_id: null,
+  discount_amount: null,
+  active: true,
+};
+
+/**
+ * Regras de acumulação de pontos do salão e os prêmios que os clientes podem
+ * resgatar na ficha do cliente.
+ */
+export default function LoyaltyProgramSection({ userId }: LoyaltyProgramSectionProps) {
+  const {
+    services, loyaltyRewards,
+    fetchServices, fetchLoyaltyRewards, fetchLoyaltySettings,
+    saveLoyaltySettings, saveLoyaltyReward, deleteLoyaltyReward,
+  } = useAppStore();
+  const { showSuccess, showError } = useToastHelpers();
+  const [editingReward, setEditingReward] = useState<LoyaltyRewardType | null>(null);
+  const [isRewardFormOpen, setIsRewardFormOpen] = useState(false);
+  const [rewardToDelete, setRewardToDelete] = useState<LoyaltyRewardType | null>(null);
+  const [isDeleting, setIsDeleting] = useState(false);
+
+  const {
+    register: registerSettings,
+    handleSubmit: handleSubmitSettings,
+    reset: resetSettings,
+    watch: watchSettings,
+    formState: { errors: settingsErrors, isSubmitting: isSubmittingSettings },
+  } = useForm<LoyaltySettingsFormData>({
+    resolver: zodResolver(LoyaltySettingsFormSchema),
+    defaultValues: { enabled: false, points_per_real: 1 },
+  });
+  const pointsPerReal = watchSettings('points_per_real');
+
+  const {
+    register: registerReward,
+    handleSubmit: handleSubmitReward,
+    reset: resetReward,
+    watch: watchReward,
+    control: rewardControl,
+    formState: { errors: rewardErrors, isSubmitting: isSubmittingReward },
+  } = useForm<LoyaltyRewardFormData>({
+    resolver: zodResolver(LoyaltyRewardFormSchema),
+    defaultValues: defaultRewardValues,
+  });
+  const rewardType = watchReward('reward_type');
+
+  useEffect(() => {
+    fetchServices(userId);
+    fetchLoyaltyRewards(userId);
+    fetchLoyaltySettings(userId)
+      .then(resetSettings)
+      .catch((error) => console.error('Erro ao carregar fidelidade:', (error as Error).message));
+  }, [userId, fetchServices, fetchLoyaltyRewards, fetchLoyaltySettings, resetSettings]);
+
+  const describeReward = (reward: LoyaltyRewardType) =>
+    reward.reward_type === 'free_service'
+      ? `${REWARD_TYPE_LABELS.free_service}: ${services.find(s => s.id === reward.service_id)?.name ?? 'serviço removido'}`
+      : `${REWARD_TYPE_LABELS.discount} de ${formatCurrency(reward.discount_amount ?? 0)}`;
+
+  const onSubmitSettings = async (data: LoyaltySettingsFormData) => {
+    try {
+      await saveLoyaltySettings(data, userId);
+      showSuccess('Fidelidade salva!', data.enabled ? `Os clientes ganham ${data.points_per_real} ponto(s) por real gasto.` : 'O programa de fidelidade está desativado.');
+    } catch (error) {
+      console.error('Erro ao salvar fidelidade:', (error as Error).message);
+      showError('Erro ao salvar', 'Não foi possível salvar o programa de fidelidade. Tente novamente.');
+    }
+  };
+
+  const openRewardForm = (reward: LoyaltyRewardType | null) => {
+    setEditingReward(reward);
+    resetReward(reward
+      ? { ...reward, discount_amount: reward.discount_amount ? reward.discount_amount / 100 : null }
+      : defaultRewardValues);
+    setIsRewardFormOpen(true);
+  };
+
+  const closeRewardForm = () => {
+    setIsRewardFormOpen(false);
+    setEditingReward(null);
+    resetReward(defaultRewardValues);
+  };
+
+  const onSubmitReward = async (data: LoyaltyRewardFormData) => {
+    const isFreeService = data.reward_type === 'free_service';
+    try {
+      await saveLoyaltyReward({
+        ...data,
+        id: editingReward?.id,
+        service_id: isFreeService ? data.service_id : null,
+        discount_amount: !isFreeService && data.discount_amount ? Math.round(data.discount_amount * 100) : null,
+      }, userId);
+      showSuccess(editingReward ? 'Prêmio atualizado!' : 'Prêmio criado!', `${data.name} por ${data.points_cost} pontos.`);
+      closeRewardForm();
+    } catch (error) {
+      console.error('Erro ao salvar prêmio:', (error as Error).message);
+      showError('Erro ao salvar prêmio', 'Tente novamente.');
+    }
+  };
+
+  const toggleRewardActive = async (reward: LoyaltyRewardType) => {
+    try {
+      await saveLoyaltyReward({ ...reward, active: !reward.active }, userId);
+    } catch (error) {
+      console.error('Erro ao atualizar prêmio:', (error as Error).message);
+      showError('Erro ao atualizar prêmio', 'Tente novamente.');
+    }
+  };
+
+  const handleDeleteReward = async () => {
+    if (!rewardToDelete) return;
+    setIsDeleting(true);
+    try {
+      await deleteLoyaltyReward(rewardToDelete.id!);
+      showSuccess('Prêmio removido!');
+      setRewardToDelete(null);
+    } catch (error) {
+      console.error('Erro ao excluir prêmio:', (error as Error).message);
+      showError('Erro ao remover prêmio', 'Tente novamente.');
+    } finally {
+      setIsDeleting(false);
+    }
+  };
+
+  return (
+    <div className="bg-white shadow-sm rounded-lg border border-gray-200">
+      <div className="px-6 py-4 border-b border-gray-200">
+        <div className="flex items-center">
+          <Gift className="w-5 h-5 text-gray-500 mr-2" />
+          <h3 className="text-lg font-medium text-gray-900">Programa de Fidelidade</h3>
+        </div>
+      </div>
+
+      <form onSubmit={handleSubmitSettings(onSubmitSettings)} className="px-6 py-6 space-y-4 border-b border-gray-200">
+        <label className="flex items-center space-x-2">
+          <input type="checkbox" {...registerSettings('enabled')} className="rounded border-gray-300 text-pink-600 focus:ring-pink-500" />
+          <span className="text-sm font-medium text-gray-700">Acumular pontos nos atendimentos concluídos e nas vendas de produtos</span>
+        </label>
+        <div className="sm:w-1/2">
+          <label htmlFor="points_per_real" className="block text-sm font-medium text-gray-700">Pontos por real gasto</label>
+          <input
+            type="number"
+            id="points_per_real"
+            min={0}
+            step={0.01}
+            {...registerSettings('points_per_real', { valueAsNumber: true })}
+            className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-pink-500 focus:border-pink-500 sm:text-sm"
+          />
+          {settingsErrors.points_per_real && <p className="mt-1 text-sm text-red-600">{settingsErrors.points_per_real.message}</p>}
+          <p className="mt-1 text-xs text-gray-500">
+            Um atendimento de R$ 100,00 rende {Math.floor((Number(pointsPerReal) || 0) * 100)} pontos. Serviços com pontos fixos (ver Serviços) rendem sempre esses pontos.
+          </p>
+        </div>
+        <div className="flex justify-end">
+          <button
+            type="submit"
+            disabled={isSubmittingSettings}
+            className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-gradient-to-r from-pink-500 to-violet-500 hover:from-pink-600 hover:to-violet-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-pink-500 disabled:opacity-50"
+          >
+            <Save className="w-4 h-4 mr-2" />
+            {isSubmittingSettings ? 'Salvando...' : 'Salvar Fidelidade'}
+          </button>
+        </div>
+      </form>
+
+      <div className="px-6 py-6 space-y-4">
+        <div className="flex items-center justify-between">
+          <h4 className="text-sm font-medium text-gray-900">Prêmios</h4>
+          {!isRewardFormOpen && (
+            <button
+              type="button"
+              onClick={() => openRewardForm(null)}
+              className="inline-flex items-center px-3 py-1.5 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50"
+            >
+              <Plus className="w-4 h-4 mr-1.5" />
+              Novo Prêmio
+            </button>
+          )}
+        </div>
+
+        {loyaltyRewards.length === 0 && !isRewardFormOpen && (
+          <p className="text-sm text-gray-500">Nenhum prêmio cadastrado. Crie prêmios para os clientes trocarem pelos pontos.</p>
+        )}
+
+        {loyaltyRewards.length > 0 && (
+          <ul className="divide-y divide-gray-200 border border-gray-200 rounded-md">
+            {loyaltyRewards.map(reward => (
+              <li key={reward.id} className="flex items-center justify-between gap-4 px-4 py-3">
+                <div className={reward.active ? '' : 'opacity-50'}>
+                  <p className="text-sm font-medium text-gray-900">{reward.name}</p>
+                  <p className="text-xs text-gray-500">{describeReward(reward)} · {reward.points_cost} pontos</p>
+                </div>
+                <div className="flex items-center gap-3">
+                  <label className="flex items-center space-x-1 text-xs text-gray-600">
+                    <input type="checkbox" checked={reward.active} onChange={() => toggleRewardActive(reward)} className="rounded border-gray-300 text-pink-600 focus:ring-pink-500" />
+                    <span>Ativo</span>
+                  </label>
+                  <button type="button" onClick={() => openRewardForm(reward)} className="text-gray-400 hover:text-gray-600" title="Editar">
+                    <Edit className="w-4 h-4" />
+                  </button>
+                  <button type="button" onClick={() => setRewardToDelete(reward)} className="text-gray-400 hover:text-red-600" title="Excluir">
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {isRewardFormOpen && (
+          <form onSubmit={handleSubmitReward(onSubmitReward)} className="border border-gray-200 rounded-md p-4 space-y-4">
+            <div className="flex items-center justify-between">
+              <h4 className="text-sm font-medium text-gray-900">{editingReward ? 'Editar Prêmio' : 'Novo Prêmio'}</h4>
+              <button type="button" onClick={closeRewardForm} className="text-gray-400 hover:text-gray-600"><X className="w-5 h-5" /></button>
+            </div>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div>
+                <label htmlFor="reward_name" className="block text-sm font-medium text-gray-700">Nome *</label>
+                <input
+                  id="reward_name"
+                  type="text"
+                  {...registerReward('name')}
+                  placeholder="Ex: Escova grátis"
+                  className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-pink-500 focus:border-pink-500 sm:text-sm"
+                />
+                {rewardErrors.name && <p className="mt-1 text-sm text-red-600">{rewardErrors.name.message}</p>}
+              </div>
+              <div>
+                <label htmlFor="points_cost" className="block text-sm font-medium text-gray-700">Custo (pontos) *</label>
+                <input
+                  id="points_cost"
+                  type="number"
+                  min={1}
+                  {...registerReward('points_cost', { valueAsNumber: true })}
+                  className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-pink-500 focus:border-pink-500 sm:text-sm"
+                />
+                {rewardErrors.points_cost && <p className="mt-1 text-sm text-red-600">{rewardErrors.points_cost.message}</p>}
+              </div>
+              <div>
+                <label htmlFor="reward_type" className="block text-sm font-medium text-gray-700">Tipo</label>
+                <select
+                  id="reward_type"
+                  {...registerReward('reward_type')}
+                  className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-pink-500 focus:border-pink-500 sm:text-sm"
+                >
+                  {Object.entries(REWARD_TYPE_LABELS).map(([value, label]) => (
+                    <option key={value} value={value}>{label}</option>
+                  ))}
+                </select>
+              </div>
+              {rewardType === 'free_service' ? (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">Serviço *</label>
+                  <Controller
+                    name="service_id"
+                    control={rewardControl}
+                    render={({ field }) => (
+                      <Dropdown
+                        value={field.value ?? null}
+                        options={services.map(s => ({ label: s.name, value: s.id }))}
+                        onChange={(e) => field.onChange(e.value)}
+                        placeholder="Selecione um serviço"
+                        className="w-full mt-1"
+                        filter
+                      />
+                    )}
+                  />
+                  {rewardErrors.service_id && <p className="mt-1 text-sm text-red-600">{rewardErrors.service_id.message}</p>}
+                </div>
+              ) : (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">Desconto (R$) *</label>
+                  <Controller
+                    name="discount_amount"
+                    control={rewardControl}
+                    render={({ field, fieldState }) => (
+                      <InputNumber
+                        value={field.value ?? null}
+                        onValueChange={(e) => field.onChange(e.value ?? null)}
+                        mode="currency"
+                        currency="BRL"
+                        locale="pt-BR"
+                        placeholder="R$ 20,00"
+                        className={`w-full mt-1 ${fieldState.error ? 'p-invalid' : ''}`}
+                      />
+                    )}
+                  />
+                  {rewardErrors.discount_amount && <p className="mt-1 text-sm text-red-600">{rewardErrors.discount_amount.message}</p>}
+                </div>
+              )}
+            </div>
+            <div className="flex justify-end gap-2">
+              <button
+                type="button"
+                onClick={closeRewardForm}
+                className="inline-flex items-center px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+              >
+                Cancelar
+              </button>
+              <button
+                type="submit"
+                disabled={isSubmittingReward}
+                className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-gradient-to-r from-pink-500 to-violet-500 hover:from-pink-600 hover:to-violet-600 disabled:opacity-50"
+              >
+                <Save className="w-4 h-4 mr-2" />
+                {isSubmittingReward ? 'Salvando...' : 'Salvar Prêmio'}
+              </button>
+            </div>
+          </form>
+        )}
+      </div>
+
+      <ConfirmationModal
+        isOpen={!!rewardToDelete}
+        onClose={() => setRewardToDelete(null)}
+        onConfirm={handleDeleteReward}
+        title="Excluir Prêmio"
+        message={`Tem certeza que deseja excluir o prêmio "${rewardToDelete?.name}"? Os resgates já feitos continuam no extrato dos clientes.`}
+        confirmText="Excluir"
+        cancelText="Cancelar"
+        variant="danger"
+        isLoading={isDeleting}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,112 @@
+// src/react-app/components/MembershipSubscribeModal.tsx
+
+import { useEffect, useState } from 'react';
+import { Dropdown } from 'primereact/dropdown';
+import { X } from 'lucide-react';
+import { useAppStore } from '../../shared/store';
+import { useToastHelpers } from '../contexts/ToastContext';
+import type { MembershipPlanType } from '../../shared/types';
+import { formatCurrency } from '../utils';
+
+interface MembershipSubscribeModalProps {
+  plan: MembershipPlanType | null; // Nulo: modal fechado
+  userId: string;
+  onClose: () => void;
+}
+
+/**
+ * Adesão de um cliente a um plano: a assinatura começa hoje e a primeira mensalidade
+ * é lançada de imediato.
+ */
+export default function MembershipSubscribeModal({ plan, userId, onClose }: MembershipSubscribeModalProps) {
+  const { clients, fetchClients, subscribeClient } = useAppStore();
+  const { showSuccess, showError } = useToastHelpers();
+  const [clientId, setClientId] = useState<number | null>(null);
+  const [isSubscribing, setIsSubscribing] = useState(false);
+
+  useEffect(() => {
+    if (plan) {
+      setClientId(null);
+      fetchClients(userId);
+    }
+  }, [plan, userId, fetchClients]);
+
+  if (!plan) return null;
+
+  const handleSubscribe = async () => {
+    if (!clientId) return;
+    setIsSubscribing(true);
+    try {
+      await subscribeClient(plan, clientId, userId);
+      const clientName = clients.find(c => c.id === clientId)?.name;
+      showSuccess('Assinatura criada!', `${clientName ?? 'Cliente'}: primeira mensalidade de ${formatCurrency(plan.monthly_price)} lançada.`);
+      onClose();
+    } catch (error) {
+      console.error('Erro ao criar assinatura:', (error as Error).message);
+      showError('Erro ao criar assinatura', (error as Error).message);
+    } finally {
+      setIsSubscribing(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto">
+      <div className="flex items-end justify-center min-h-screen pt-4 px-4 pb-20 text-center sm:block sm:p-0">
+        <div className="fixed inset-0 bg-gray-500 bg-opacity-75 transition-opacity" onClick={onClose}></div>
+
+        <div className="inline-block align-bottom bg-white rounded-lg text-left overflow-hidden shadow-xl transform transition-all sm:my-8 sm:align-middle sm:max-w-md sm:w-full">
+          <div className="bg-white px-4 pt-5 pb-4 sm:p-6 sm:pb-4">
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="text-lg font-medium text-gray-900">Assinar {plan.name}</h3>
+              <button type="button" onClick={onClose} className="text-gray-400 hover:text-gray-600">
+                <X className="w-6 h-6" />
+              </button>
+            </div>
+
+            <div className="space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Cliente *</label>
+                <Dropdown
+                  value={clientId}
+                  options={clients.map(c => ({ label: c.name, value: c.id }))}
+                  onChange={(e) => setClientId(e.value ?? null)}
+                  placeholder="Selecione um cliente"
+                  className="w-full"
+                  filter
+                />
+              </div>
+
+              <div className="text-sm text-gray-600 space-y-1">
+                <p>{plan.usage_limit ? `Até ${plan.usage_limit} uso(s) por ciclo` : 'Usos ilimitados'}</p>
+                <p>A mensalidade é cobrada todo mês no dia de hoje.</p>
+              </div>
+
+              <div className="flex items-center justify-between border-t border-gray-200 pt-3">
+                <span className="text-sm text-gray-600">Mensalidade</span>
+                <span className="text-lg font-bold text-green-600">{formatCurrency(plan.monthly_price)}</span>
+              </div>
+            </div>
+          </div>
+
+          <div className="bg-gray-50 px-4 py-3 sm:px-6 sm:flex sm:flex-row-reverse">
+            <button
+              type="button"
+              onClick={handleSubscribe}
+              disabled={!clientId || isSubscribing}
+              className="w-full inline-flex justify-center rounded-md border border-transparent shadow-sm px-4 py-2 bg-gradient-to-r from-pink-500 to-violet-500 text-base font-medium text-white hover:from-pink-600 hover:to-violet-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-pink-500 sm:ml-3 sm:w-auto sm:text-sm disabled:opacity-50"
+            >
+              {isSubscribing ? 'Registrando...' : 'Criar Assinatura'}
+            </button>
+            <button
+              type="button"
+              onClick={onClose}
+              className="mt-3 w-full inline-flex justify-center rounded-md border border-gray-300 shadow-sm px-4 py-2 bg-white text-base font-medium text-gray-700 hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-pink-500 sm:mt-0 sm:ml-3 sm:w-auto sm:text-sm"
+            >
+              Cancelar
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,242 @@
+// src/react-app/components/MessageTemplatesEditor.tsx
+
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Dropdown } from 'primereact/dropdown';
+import moment from 'moment';
+import { MessageSquare, Save, RotateCcw } from 'lucide-react';
+import { useAppStore } from '../../shared/store';
+import { useToastHelpers } from '../contexts/ToastContext';
+import { MessageTemplateFormSchema } from '../../shared/types';
+import type { MessageTemplateFormData, NotificationChannel, NotificationKind } from '../../shared/types';
+import {
+  CHANNEL_LABELS,
+  DEFAULT_TEMPLATES,
+  KIND_LABELS,
+  KIND_VARIABLES,
+  TEMPLATE_VARIABLES,
+  appointmentValues,
+  checkTemplatePlaceholders,
+  renderMessage,
+} from '../../shared/notifications';
+import type { TemplateVariable } from '../../shared/notifications';
+
+interface MessageTemplatesEditorProps {
+  userId: string;
+  salonName: string; // Usado na pré-visualização
+}
+
+const templateSchema = MessageTemplateFormSchema.superRefine(checkTemplatePlaceholders);
+
+const tabClass = (active: boolean) =>
+  `inline-flex items-center px-3 py-2 text-sm font-medium ${active ? 'bg-pink-50 text-pink-700' : 'bg-white text-gray-700 hover:bg-gray-50'}`;
+
+/**
+ * Edição dos modelos de mensagem por tipo e canal, com os marcadores disponíveis,
+ * pré-visualização com um agendamento real e validação dos marcadores ao salvar.
+ */
+export default function MessageTemplatesEditor({ userId, salonName }: MessageTemplatesEditorProps) {
+  const {
+    messageTemplates, appointments, professionals,
+    fetchMessageTemplates, fetchAppointments, fetchProfessionals,
+    saveMessageTemplate, deleteMessageTemplate,
+  } = useAppStore();
+  const { showSuccess, showError } = useToastHelpers();
+  const [kind, setKind] = useState<NotificationKind>('reminder');
+  const [channel, setChannel] = useState<NotificationChannel>('whatsapp');
+  const [previewAppointmentId, setPreviewAppointmentId] = useState<number | null>(null);
+  const bodyRef = useRef<HTMLTextAreaElement | null>(null);
+
+  const {
+    register,
+    handleSubmit,
+    reset,
+    watch,
+    setValue,
+    formState: { errors, isSubmitting },
+  } = useForm<MessageTemplateFormData>({
+    resolver: zodResolver(templateSchema),
+    defaultValues: { kind, channel, ...DEFAULT_TEMPLATES[kind][channel] },
+  });
+  const { ref: bodyFieldRef, ...bodyField } = register('body');
+
+  useEffect(() => {
+    fetchMessageTemplates(userId);
+    fetchAppointments(userId);
+    fetchProfessionals(userId);
+  }, [userId, fetchMessageTemplates, fetchAppointments, fetchProfessionals]);
+
+  const saved = messageTemplates.find(t => t.kind === kind && t.channel === channel);
+
+  // Ao trocar de tipo ou canal, carrega o modelo gravado ou o texto padrão
+  useEffect(() => {
+    const content = saved ?? DEFAULT_TEMPLATES[kind][channel];
+    reset({ kind, channel, subject: content.subject ?? '', body: content.body });
+  }, [kind, channel, saved, reset]);
+
+  // Os agendamentos mais recentes servem de exemplo para a pré-visualização
+  const previewOptions = useMemo(() =>
+    [...appointments]
+      .sort((a, b) => b.appointment_date.localeCompare(a.appointment_date))
+      .slice(0, 30)
+      .map(a => ({ id: a.id, label: `${moment(a.appointment_date).format('DD/MM HH:mm')} · ${a.client_name} · ${a.service}` })),
+  [appointments]);
+
+  const previewAppointment = appointments.find(a => a.id === previewAppointmentId) ?? appointments.find(a => a.id === previewOptions[0]?.id);
+  const subject = watch('subject');
+  const body = watch('body');
+  const preview = previewAppointment
+    ? renderMessage({ subject, body }, appointmentValues(previewAppointment, {
+        professional: professionals.find(p => p.id === previewAppointment.professional_id)?.name,
+        salonName,
+        confirmUrl: `${window.location.origin}/manage/…`,
+      }))
+    : null;
+
+  // Insere o marcador na posição do cursor
+  const insertVariable = (variable: TemplateVariable) => {
+    const textarea = bodyRef.current;
+    const current = body ?? '';
+    const start = textarea?.selectionStart ?? current.length;
+    const end = textarea?.selectionEnd ?? current.length;
+    const placeholder = `{{${variable}}}`;
+    setValue('body', current.slice(0, start) + placeholder + current.slice(end), { shouldValidate: true, shouldDirty: true });
+    requestAnimationFrame(() => {
+      textarea?.focus();
+      textarea?.setSelectionRange(start + placeholder.length, start + placeholder.length);
+    });
+  };
+
+  const onSubmit = async (data: MessageTemplateFormData) => {
+    try {
+      await saveMessageTemplate({ ...data, subject: data.channel === 'email' ? data.subject || null : null }, userId);
+      showSuccess('Modelo salvo!', `${KIND_LABELS[data.kind]} por ${CHANNEL_LABELS[data.channel]}.`);
+    } catch (error) {
+      console.error('Erro ao salvar modelo:', (error as Error).message);
+      showError('Erro ao salvar', 'Não foi possível salvar o modelo. Tente novamente.');
+    }
+  };
+
+  const restoreDefault = async () => {
+    try {
+      if (saved) await deleteMessageTemplate(saved.id!);
+      else reset({ kind, channel, ...DEFAULT_TEMPLATES[kind][channel] });
+      showSuccess('Texto padrão restaurado!');
+    } catch (error) {
+      console.error('Erro ao restaurar modelo:', (error as Error).message);
+      showError('Erro ao restaurar o texto padrão');
+    }
+  };
+
+  return (
+    <div className="bg-white shadow-sm rounded-lg border border-gray-200">
+      <div className="px-6 py-4 border-b border-gray-200">
+        <div className="flex items-center">
+          <MessageSquare className="w-5 h-5 text-gray-500 mr-2" />
+          <h3 className="text-lg font-medium text-gray-900">Modelos de Mensagem</h3>
+        </div>
+      </div>
+      <form onSubmit={handleSubmit(onSubmit)} className="px-6 py-6 space-y-4">
+        <div className="flex flex-wrap gap-3">
+          <div className="inline-flex rounded-md shadow-sm border border-gray-300 overflow-hidden">
+            {(Object.keys(KIND_LABELS) as NotificationKind[]).map(option => (
+              <button key={option} type="button" onClick={() => setKind(option)} className={tabClass(kind === option)}>
+                {KIND_LABELS[option]}
+              </button>
+            ))}
+          </div>
+          <div className="inline-flex rounded-md shadow-sm border border-gray-300 overflow-hidden">
+            {(Object.keys(CHANNEL_LABELS) as NotificationChannel[]).map(option => (
+              <button key={option} type="button" onClick={() => setChannel(option)} className={tabClass(channel === option)}>
+                {CHANNEL_LABELS[option]}
+              </button>
+            ))}
+          </div>
+          {!saved && <span className="self-center text-xs text-gray-500">Usando o texto padrão</span>}
+        </div>
+
+        {channel === 'email' && (
+          <div>
+            <label htmlFor="template_subject" className="block text-sm font-medium text-gray-700">Assunto</label>
+            <input
+              type="text"
+              id="template_subject"
+              {...register('subject')}
+              className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-pink-500 focus:border-pink-500 sm:text-sm"
+            />
+            {errors.subject && <p className="mt-1 text-sm text-red-600">{errors.subject.message}</p>}
+          </div>
+        )}
+
+        <div>
+          <label htmlFor="template_body" className="block text-sm font-medium text-gray-700">Mensagem</label>
+          <div className="mt-1 flex flex-wrap gap-1">
+            {KIND_VARIABLES[kind].map(variable => (
+              <button
+                key={variable}
+                type="button"
+                onClick={() => insertVariable(variable)}
+                title={TEMPLATE_VARIABLES[variable]}
+                className="px-2 py-0.5 text-xs font-mono rounded-full bg-violet-50 text-violet-700 hover:bg-violet-100"
+              >
+                {`{{${variable}}}`}
+              </button>
+            ))}
+          </div>
+          <textarea
+            id="template_body"
+            rows={5}
+            {...bodyField}
+            ref={(element) => { bodyFieldRef(element); bodyRef.current = element; }}
+            className="mt-2 block w-full border-gray-300 rounded-md shadow-sm focus:ring-pink-500 focus:border-pink-500 sm:text-sm"
+          />
+          {errors.body && <p className="mt-1 text-sm text-red-600">{errors.body.message}</p>}
+        </div>
+
+        <div>
+          <div className="flex items-center justify-between mb-1">
+            <span className="text-sm font-medium text-gray-700">Pré-visualização</span>
+            {previewOptions.length > 0 && (
+              <Dropdown
+                value={previewAppointment?.id ?? null}
+                options={previewOptions}
+                onChange={(e) => setPreviewAppointmentId(e.value)}
+                optionLabel="label"
+                optionValue="id"
+                className="w-72"
+              />
+            )}
+          </div>
+          {preview ? (
+            <div className="p-3 bg-gray-50 rounded-md text-sm text-gray-700 whitespace-pre-line">
+              {channel === 'email' && preview.subject && <p className="font-medium mb-2">{preview.subject}</p>}
+              {preview.body}
+            </div>
+          ) : (
+            <div className="p-3 bg-gray-50 rounded-md text-sm text-gray-500">Crie um agendamento para ver a pré-visualização.</div>
+          )}
+        </div>
+
+        <div className="flex justify-end gap-2">
+          <button
+            type="button"
+            onClick={restoreDefault}
+            className="inline-flex items-center px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+          >
+            <RotateCcw className="w-4 h-4 mr-2" />
+            Restaurar padrão
+          </button>
+          <button
+            type="submit"
+            disabled={isSubmitting}
+            className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-gradient-to-r from-pink-500 to-violet-500 hover:from-pink-600 hover:to-violet-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-pink-500 disabled:opacity-50"
+          >
+            <Save className="w-4 h-4 mr-2" />
+            {isSubmitting ? 'Salvando...' : 'Salvar Modelo'}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,112 @@
+// src/react-app/components/PackageSaleModal.tsx
+
+import { useEffect, useState } from 'react';
+import { Dropdown } from 'primereact/dropdown';
+import { X } from 'lucide-react';
+import { useAppStore } from '../../shared/store';
+import { useToastHelpers } from '../contexts/ToastContext';
+import type { ServicePackageType } from '../../shared/types';
+import { formatCurrency } from '../utils';
+
+interface PackageSaleModalProps {
+  servicePackage: ServicePackageType | null; // Nulo: modal fechado
+  userId: string;
+  onClose: () => void;
+}
+
+/**
+ * Venda de um pacote a um cliente: lança a receita de uma vez e deixa as sessões
+ * disponíveis para os próximos atendimentos.
+ */
+export default function PackageSaleModal({ servicePackage, userId, onClose }: PackageSaleModalProps) {
+  const { clients, fetchClients, sellServicePackage } = useAppStore();
+  const { showSuccess, showError } = useToastHelpers();
+  const [clientId, setClientId] = useState<number | null>(null);
+  const [isSelling, setIsSelling] = useState(false);
+
+  useEffect(() => {
+    if (servicePackage) {
+      setClientId(null);
+      fetchClients(userId);
+    }
+  }, [servicePackage, userId, fetchClients]);
+
+  if (!servicePackage) return null;
+
+  const handleSell = async () => {
+    if (!clientId) return;
+    setIsSelling(true);
+    try {
+      const sold = await sellServicePackage(servicePackage, clientId, userId);
+      const clientName = clients.find(c => c.id === clientId)?.name;
+      showSuccess('Pacote vendido!', `${clientName ?? 'Cliente'}: ${sold.sessions_total} sessões disponíveis.`);
+      onClose();
+    } catch (error) {
+      console.error('Erro ao vender pacote:', (error as Error).message);
+      showError('Erro ao vender pacote', (error as Error).message);
+    } finally {
+      setIsSelling(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto">
+      <div className="flex items-end justify-center min-h-screen pt-4 px-4 pb-20 text-center sm:block sm:p-0">
+        <div className="fixed inset-0 bg-gray-500 bg-opacity-75 transition-opacity" onClick={onClose}></div>
+
+        <div className="inline-block align-bottom bg-white rounded-lg text-left overflow-hidden shadow-xl transform transition-all sm:my-8 sm:align-middle sm:max-w-md sm:w-full">
+          <div className="bg-white px-4 pt-5 pb-4 sm:p-6 sm:pb-4">
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="text-lg font-medium text-gray-900">Vender {servicePackage.name}</h3>
+              <button type="button" onClick={onClose} className="text-gray-400 hover:text-gray-600">
+                <X className="w-6 h-6" />
+              </button>
+            </div>
+
+            <div className="space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Cliente *</label>
+                <Dropdown
+                  value={clientId}
+                  options={clients.map(c => ({ label: c.name, value: c.id }))}
+                  onChange={(e) => setClientId(e.value ?? null)}
+                  placeholder="Selecione um cliente"
+                  className="w-full"
+                  filter
+                />
+              </div>
+
+              <div className="text-sm text-gray-600 space-y-1">
+                <p>{servicePackage.sessions} sessões</p>
+                <p>{servicePackage.validity_days ? `Válido por ${servicePackage.validity_days} dias a partir de hoje` : 'Sem prazo de validade'}</p>
+              </div>
+
+              <div className="flex items-center justify-between border-t border-gray-200 pt-3">
+                <span className="text-sm text-gray-600">Total</span>
+                <span className="text-lg font-bold text-green-600">{formatCurrency(servicePackage.price)}</span>
+              </div>
+            </div>
+          </div>
+
+          <div className="bg-gray-50 px-4 py-3 sm:px-6 sm:flex sm:flex-row-reverse">
+            <button
+              type="button"
+              onClick={handleSell}
+              disabled={!clientId || isSelling}
+              className="w-full inline-flex justify-center rounded-md border border-transparent shadow-sm px-4 py-2 bg-gradient-to-r from-pink-500 to-violet-500 text-base font-medium text-white hover:from-pink-600 hover:to-violet-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-pink-500 sm:ml-3 sm:w-auto sm:text-sm disabled:opacity-50"
+            >
+              {isSelling ? 'Registrando...' : 'Registrar Venda'}
+            </button>
+            <button
+              type="button"
+              onClick={onClose}
+              className="mt-3 w-full inline-flex justify-center rounded-md border border-gray-300 shadow-sm px-4 py-2 bg-white text-base font-medium text-gray-700 hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-pink-500 sm:mt-0 sm:ml-3 sm:w-auto sm:text-sm"
+            >
+              Cancelar
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
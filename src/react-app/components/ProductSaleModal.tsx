@@ -0,0 +1,144 @@
+// src/react-app/components/ProductSaleModal.tsx
+
+import { useEffect } from 'react';
+import { useForm, Controller } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Dropdown } from 'primereact/dropdown';
+import { X } from 'lucide-react';
+import { useAppStore } from '../../shared/store';
+import { useToastHelpers } from '../contexts/ToastContext';
+import { ProductSaleFormSchema } from '../../shared/types';
+import type { ProductSaleFormData, ProductType } from '../../shared/types';
+import { formatCurrency } from '../utils';
+
+interface ProductSaleModalProps {
+  product: ProductType | null; // Nulo: modal fechado
+  userId: string;
+  onClose: () => void;
+}
+
+const defaultValues: ProductSaleFormData = { quantity: 1, client_id: null };
+
+/**
+ * Venda de um produto no balcão: baixa o estoque, lança a receita e, com cliente,
+ * credita os pontos de fidelidade.
+ */
+export default function ProductSaleModal({ product, userId, onClose }: ProductSaleModalProps) {
+  const { clients, fetchClients, sellProduct } = useAppStore();
+  const { showSuccess, showError } = useToastHelpers();
+
+  const {
+    register,
+    handleSubmit,
+    reset,
+    watch,
+    control,
+    formState: { errors, isSubmitting },
+  } = useForm<ProductSaleFormData>({
+    resolver: zodResolver(ProductSaleFormSchema),
+    defaultValues,
+  });
+  const quantity = watch('quantity');
+
+  useEffect(() => {
+    if (product) {
+      reset(defaultValues);
+      fetchClients(userId);
+    }
+  }, [product, userId, reset, fetchClients]);
+
+  if (!product) return null;
+
+  const stock = product.quantity ?? 0;
+
+  const onSubmit = async (data: ProductSaleFormData) => {
+    try {
+      const { points } = await sellProduct(product, data, userId);
+      const clientName = clients.find(c => c.id === data.client_id)?.name;
+      showSuccess('Venda registrada!', points > 0 && clientName ? `${clientName} ganhou ${points} pontos.` : `${data.quantity}x ${product.name}`);
+      onClose();
+    } catch (error) {
+      console.error('Erro ao registrar venda:', (error as Error).message);
+      showError('Erro ao registrar venda', (error as Error).message);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto">
+      <div className="flex items-end justify-center min-h-screen pt-4 px-4 pb-20 text-center sm:block sm:p-0">
+        <div className="fixed inset-0 bg-gray-500 bg-opacity-75 transition-opacity" onClick={onClose}></div>
+
+        <div className="inline-block align-bottom bg-white rounded-lg text-left overflow-hidden shadow-xl transform transition-all sm:my-8 sm:align-middle sm:max-w-md sm:w-full">
+          <form onSubmit={handleSubmit(onSubmit)}>
+            <div className="bg-white px-4 pt-5 pb-4 sm:p-6 sm:pb-4">
+              <div className="flex items-center justify-between mb-4">
+                <h3 className="text-lg font-medium text-gray-900">Vender {product.name}</h3>
+                <button type="button" onClick={onClose} className="text-gray-400 hover:text-gray-600">
+                  <X className="w-6 h-6" />
+                </button>
+              </div>
+
+              <div className="space-y-4">
+                <div>
+                  <label htmlFor="sale_quantity" className="block text-sm font-medium text-gray-700">Quantidade *</label>
+                  <input
+                    id="sale_quantity"
+                    type="number"
+                    min={1}
+                    max={stock}
+                    {...register('quantity', { valueAsNumber: true })}
+                    className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-pink-500 focus:border-pink-500 sm:text-sm"
+                  />
+                  <p className="mt-1 text-xs text-gray-500">Em estoque: {stock}</p>
+                  {errors.quantity && <p className="mt-1 text-sm text-red-600">{errors.quantity.message}</p>}
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Cliente</label>
+                  <Controller
+                    name="client_id"
+                    control={control}
+                    render={({ field }) => (
+                      <Dropdown
+                        value={field.value ?? null}
+                        options={clients.map(c => ({ label: c.name, value: c.id }))}
+                        onChange={(e) => field.onChange(e.value ?? null)}
+                        placeholder="Venda avulsa"
+                        className="w-full"
+                        filter
+                        showClear
+                      />
+                    )}
+                  />
+                  <p className="mt-1 text-xs text-gray-500">Com cliente, a compra rende pontos de fidelidade.</p>
+                </div>
+
+                <div className="flex items-center justify-between border-t border-gray-200 pt-3">
+                  <span className="text-sm text-gray-600">Total</span>
+                  <span className="text-lg font-bold text-green-600">{formatCurrency(product.price * (Number(quantity) || 0))}</span>
+                </div>
+              </div>
+            </div>
+
+            <div className="bg-gray-50 px-4 py-3 sm:px-6 sm:flex sm:flex-row-reverse">
+              <button
+                type="submit"
+                disabled={isSubmitting}
+                className="w-full inline-flex justify-center rounded-md border border-transparent shadow-sm px-4 py-2 bg-gradient-to-r from-pink-500 to-violet-500 text-base font-medium text-white hover:from-pink-600 hover:to-violet-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-pink-500 sm:ml-3 sm:w-auto sm:text-sm disabled:opacity-50"
+              >
+                {isSubmitting ? 'Registrando...' : 'Registrar Venda'}
+              </button>
+              <button
+                type="button"
+                onClick={onClose}
+                className="mt-3 w-full inline-flex justify-center rounded-md border border-gray-300 shadow-sm px-4 py-2 bg-white text-base font-medium text-gray-700 hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-pink-500 sm:mt-0 sm:ml-3 sm:w-auto sm:text-sm"
+              >
+                Cancelar
+              </button>
+            </div>
+          </form>
+        </div>
+      </div>
+    </div>
+  );
+}
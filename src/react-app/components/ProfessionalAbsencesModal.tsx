@@ -0,0 +1,194 @@
+// src/react-app/components/ProfessionalAbsencesModal.tsx
+
+import { useEffect, useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { useSupabaseAuth } from '../auth/SupabaseAuthProvider';
+import { useAppStore } from '../../shared/store';
+import { useToastHelpers } from '../contexts/ToastContext';
+import { X, Plus, Trash2, CalendarOff } from 'lucide-react';
+import type { ProfessionalType } from '../../shared/types';
+import { CreateProfessionalExceptionSchema } from '../../shared/types';
+import { formatDate } from '../utils';
+
+// --- Definição de Tipos ---
+interface AbsenceFormData {
+  professional_id: number;
+  start_date: string;
+  end_date: string;
+  start_time?: string | null;
+  end_time?: string | null;
+  description: string;
+}
+
+interface ProfessionalAbsencesModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  professional: ProfessionalType | null;
+}
+
+const emptyForm = (professionalId?: number): Partial<AbsenceFormData> => ({
+  professional_id: professionalId,
+  start_date: '',
+  end_date: '',
+  start_time: '',
+  end_time: '',
+  description: '',
+});
+
+/**
+ * Modal para registar e remover as ausências (férias, folgas) de um profissional.
+ */
+export default function ProfessionalAbsencesModal({ isOpen, onClose, professional }: ProfessionalAbsencesModalProps) {
+  const { user } = useSupabaseAuth();
+  const { professionalExceptions, addProfessionalException, deleteProfessionalException } = useAppStore();
+  const { showSuccess, showError } = useToastHelpers();
+  const [deletingId, setDeletingId] = useState<number | null>(null);
+
+  const {
+    register,
+    handleSubmit,
+    reset,
+    formState: { errors, isSubmitting },
+  } = useForm<AbsenceFormData>({
+    resolver: zodResolver(CreateProfessionalExceptionSchema),
+    defaultValues: emptyForm(),
+  });
+
+  useEffect(() => {
+    if (isOpen && professional) {
+      reset(emptyForm(professional.id));
+    }
+  }, [isOpen, professional, reset]);
+
+  const absences = professionalExceptions.filter(e => e.professional_id === professional?.id);
+
+  const onSubmit = async (formData: AbsenceFormData) => {
+    if (!user || !professional) return;
+    try {
+      await addProfessionalException({
+        ...formData,
+        professional_id: professional.id!,
+        start_time: formData.start_time || null,
+        end_time: formData.end_time || null,
+      }, user.id);
+      showSuccess('Ausência registada!', 'Os horários deste período ficam bloqueados na agenda.');
+      reset(emptyForm(professional.id));
+    } catch (error) {
+      console.error('Erro ao salvar ausência:', (error as Error).message);
+      showError('Erro ao salvar ausência', 'Verifique os dados e tente novamente.');
+    }
+  };
+
+  const handleDelete = async (absenceId: number) => {
+    setDeletingId(absenceId);
+    try {
+      await deleteProfessionalException(absenceId);
+      showSuccess('Ausência removida!');
+    } catch (error) {
+      console.error('Erro ao remover ausência:', (error as Error).message);
+      showError('Erro ao remover ausência');
+    } finally {
+      setDeletingId(null);
+    }
+  };
+
+  if (!isOpen || !professional) return null;
+
+  return (
+    <div className="fixed inset-0 z-[60] overflow-y-auto">
+      <div className="flex items-center justify-center min-h-screen p-4 text-center">
+        <div className="fixed inset-0 bg-gray-500 bg-opacity-75 transition-opacity" onClick={onClose} aria-hidden="true"></div>
+        <div className="inline-block align-bottom bg-white rounded-lg text-left overflow-hidden shadow-xl transform transition-all sm:my-8 sm:align-middle sm:max-w-lg sm:w-full">
+          <div className="bg-white px-4 pt-5 pb-4 sm:p-6 sm:pb-4">
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="text-lg font-medium text-gray-900">Ausências de {professional.name}</h3>
+              <button type="button" onClick={onClose} className="text-gray-400 hover:text-gray-600">
+                <X className="w-6 h-6" />
+              </button>
+            </div>
+
+            {absences.length === 0 ? (
+              <div className="text-center py-6">
+                <CalendarOff className="mx-auto h-10 w-10 text-gray-400" />
+                <p className="mt-2 text-sm text-gray-500">Nenhuma ausência registada.</p>
+              </div>
+            ) : (
+              <div className="space-y-2 max-h-60 overflow-y-auto">
+                {absences.map(absence => (
+                  <div key={absence.id} className="flex items-center justify-between p-3 border border-gray-200 rounded-lg">
+                    <div>
+                      <p className="text-sm font-medium text-gray-900">
+                        {absence.start_date === absence.end_date
+                          ? formatDate(absence.start_date)
+                          : `${formatDate(absence.start_date)} a ${formatDate(absence.end_date)}`}
+                      </p>
+                      <p className="text-sm text-gray-600">{absence.description}</p>
+                      {absence.start_time && absence.end_time ? (
+                        <p className="text-sm text-gray-500">{absence.start_time.slice(0, 5)} - {absence.end_time.slice(0, 5)}</p>
+                      ) : (
+                        <p className="text-sm text-gray-500 italic">Dia inteiro</p>
+                      )}
+                    </div>
+                    <button
+                      type="button"
+                      onClick={() => handleDelete(absence.id!)}
+                      disabled={deletingId === absence.id}
+                      className="text-red-600 hover:text-red-900 disabled:opacity-50"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <form onSubmit={handleSubmit(onSubmit)} className="border-t border-gray-200">
+            <div className="px-4 py-4 sm:px-6 space-y-4">
+              <h4 className="text-sm font-medium text-gray-900">Nova Ausência</h4>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label htmlFor="start_date" className="block text-sm font-medium text-gray-700">De *</label>
+                  <input type="date" id="start_date" {...register('start_date')} className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-pink-500 focus:border-pink-500 sm:text-sm" />
+                  {errors.start_date && <p className="mt-1 text-sm text-red-600">{errors.start_date.message}</p>}
+                </div>
+                <div>
+                  <label htmlFor="end_date" className="block text-sm font-medium text-gray-700">Até *</label>
+                  <input type="date" id="end_date" {...register('end_date')} className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-pink-500 focus:border-pink-500 sm:text-sm" />
+                  {errors.end_date && <p className="mt-1 text-sm text-red-600">{errors.end_date.message}</p>}
+                </div>
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label htmlFor="start_time" className="block text-sm font-medium text-gray-700">Hora Início</label>
+                  <input type="time" id="start_time" {...register('start_time')} className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-pink-500 focus:border-pink-500 sm:text-sm" />
+                  <p className="mt-1 text-xs text-gray-500">Deixe vazio para o dia inteiro</p>
+                </div>
+                <div>
+                  <label htmlFor="end_time" className="block text-sm font-medium text-gray-700">Hora Fim</label>
+                  <input type="time" id="end_time" {...register('end_time')} className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-pink-500 focus:border-pink-500 sm:text-sm" />
+                  {errors.end_time && <p className="mt-1 text-sm text-red-600">{errors.end_time.message}</p>}
+                </div>
+              </div>
+              <div>
+                <label htmlFor="description" className="block text-sm font-medium text-gray-700">Descrição *</label>
+                <input type="text" id="description" {...register('description')} placeholder="Ex: Férias" className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-pink-500 focus:border-pink-500 sm:text-sm" />
+                {errors.description && <p className="mt-1 text-sm text-red-600">{errors.description.message}</p>}
+              </div>
+            </div>
+            <div className="bg-gray-50 px-4 py-3 sm:px-6 sm:flex sm:flex-row-reverse">
+              <button type="submit" disabled={isSubmitting} className="w-full inline-flex justify-center items-center rounded-md border border-transparent shadow-sm px-4 py-2 bg-gradient-to-r from-pink-500 to-violet-500 text-base font-medium text-white hover:from-pink-600 hover:to-violet-600 sm:ml-3 sm:w-auto sm:text-sm disabled:opacity-50">
+                <Plus className="w-4 h-4 mr-2" />
+                {isSubmitting ? 'Salvando...' : 'Adicionar Ausência'}
+              </button>
+              <button type="button" onClick={onClose} className="mt-3 w-full inline-flex justify-center rounded-md border border-gray-300 shadow-sm px-4 py-2 bg-white text-base font-medium text-gray-700 hover:bg-gray-50 sm:mt-0 sm:w-auto sm:text-sm">
+                Fechar
+              </button>
+            </div>
+          </form>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,130 @@
+// src/react-app/components/RecurrenceFields.tsx
+
+import moment from 'moment';
+import { Dropdown } from 'primereact/dropdown';
+import { InputNumber } from 'primereact/inputnumber';
+import { Repeat } from 'lucide-react';
+import type { RecurrenceRuleType } from '../../shared/types';
+
+interface RecurrenceFieldsProps {
+  value: RecurrenceRuleType | null | undefined;
+  onChange: (value: RecurrenceRuleType | null) => void;
+  startDate: Date;
+  errors?: Partial<Record<keyof RecurrenceRuleType, { message?: string }>>;
+}
+
+const FREQUENCY_OPTIONS = [
+  { value: null, label: 'Não repetir' },
+  { value: 'weekly', label: 'Semanalmente' },
+  { value: 'monthly', label: 'Mensalmente' },
+];
+
+/**
+ * Campos da regra de recorrência do modal de agendamento (a cada N semanas ou meses, até uma data ou N vezes).
+ */
+export default function RecurrenceFields({ value, onChange, startDate, errors }: RecurrenceFieldsProps) {
+  const handleFrequencyChange = (frequency: RecurrenceRuleType['frequency'] | null) => {
+    if (!frequency) return onChange(null);
+    onChange({
+      frequency,
+      interval: value?.interval ?? 1,
+      day_of_month: frequency === 'monthly' ? value?.day_of_month ?? startDate.getDate() : null,
+      end_type: value?.end_type ?? 'count',
+      until_date: value?.until_date ?? null,
+      occurrences: value?.occurrences ?? 4,
+    });
+  };
+
+  const update = (changes: Partial<RecurrenceRuleType>) => {
+    if (value) onChange({ ...value, ...changes });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <label className="flex items-center text-sm font-medium text-gray-700 mb-1">
+          <Repeat className="w-4 h-4 mr-1" /> Repetir
+        </label>
+        <Dropdown
+          value={value?.frequency ?? null}
+          options={FREQUENCY_OPTIONS}
+          onChange={(e) => handleFrequencyChange(e.value)}
+          optionLabel="label"
+          optionValue="value"
+          className="w-full"
+        />
+      </div>
+
+      {value && (
+        <div className="p-3 bg-gray-50 rounded-md space-y-3">
+          <div className="flex items-center gap-2 text-sm text-gray-700">
+            <span>A cada</span>
+            <InputNumber
+              value={value.interval}
+              onValueChange={(e) => update({ interval: e.value ?? 1 })}
+              min={1}
+              max={12}
+              showButtons
+              inputClassName="w-12 text-center"
+            />
+            <span>{value.frequency === 'weekly' ? 'semana(s)' : 'mês(es)'}</span>
+            {value.frequency === 'monthly' && (
+              <>
+                <span>no dia</span>
+                <InputNumber
+                  value={value.day_of_month ?? startDate.getDate()}
+                  onValueChange={(e) => update({ day_of_month: e.value ?? null })}
+                  min={1}
+                  max={31}
+                  inputClassName="w-12 text-center"
+                />
+              </>
+            )}
+          </div>
+          {errors?.interval && <p className="text-sm text-red-600">{errors.interval.message}</p>}
+
+          <div className="space-y-2 text-sm text-gray-700">
+            <label className="flex items-center gap-2">
+              <input
+                type="radio"
+                checked={value.end_type === 'count'}
+                onChange={() => update({ end_type: 'count' })}
+                className="text-pink-600 focus:ring-pink-500"
+              />
+              <span>Após</span>
+              <InputNumber
+                value={value.occurrences ?? null}
+                onValueChange={(e) => update({ occurrences: e.value ?? null })}
+                disabled={value.end_type !== 'count'}
+                min={2}
+                max={52}
+                inputClassName="w-12 text-center"
+              />
+              <span>ocorrências</span>
+            </label>
+            {errors?.occurrences && <p className="text-sm text-red-600">{errors.occurrences.message}</p>}
+
+            <label className="flex items-center gap-2">
+              <input
+                type="radio"
+                checked={value.end_type === 'until'}
+                onChange={() => update({ end_type: 'until' })}
+                className="text-pink-600 focus:ring-pink-500"
+              />
+              <span>Até</span>
+              <input
+                type="date"
+                value={value.until_date ?? ''}
+                min={moment(startDate).format('YYYY-MM-DD')}
+                onChange={(e) => update({ until_date: e.target.value || null })}
+                disabled={value.end_type !== 'until'}
+                className="border-gray-300 rounded-md shadow-sm focus:ring-pink-500 focus:border-pink-500 sm:text-sm disabled:opacity-50"
+              />
+            </label>
+            {errors?.until_date && <p className="text-sm text-red-600">{errors.until_date.message}</p>}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
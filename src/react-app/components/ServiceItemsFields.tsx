@@ -0,0 +1,139 @@
+// src/react-app/components/ServiceItemsFields.tsx
+
+import { Dropdown } from 'primereact/dropdown';
+import { InputNumber } from 'primereact/inputnumber';
+import { Plus, Trash2, ChevronUp, ChevronDown, Scissors } from 'lucide-react';
+import type { ProfessionalType, ServiceType } from '../../shared/types';
+
+// Linha do formulário; o preço está em reais, como no resto do formulário
+export interface ServiceItemFormValue {
+  service_id: number;
+  professional_id?: number | null;
+  price: number;
+  duration: number;
+}
+
+interface ServiceItemsFieldsProps {
+  value: ServiceItemFormValue[];
+  onChange: (value: ServiceItemFormValue[]) => void;
+  services: ServiceType[];
+  professionals: ProfessionalType[];
+  error?: string;
+  itemErrors?: ({ [K in keyof ServiceItemFormValue]?: { message?: string } } | undefined)[];
+}
+
+const formatCurrency = (value: number) =>
+  new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' }).format(value);
+
+/**
+ * Lista ordenada de serviços do agendamento (ex.: corte + coloração + escova).
+ * Cada linha tem o seu preço, duração e, opcionalmente, outro profissional.
+ */
+export default function ServiceItemsFields({ value, onChange, services, professionals, error, itemErrors }: ServiceItemsFieldsProps) {
+  const items = value || [];
+  const professionalOptions = [{ id: null, name: 'Mesmo profissional' }, ...professionals];
+
+  const update = (index: number, changes: Partial<ServiceItemFormValue>) =>
+    onChange(items.map((item, i) => (i === index ? { ...item, ...changes } : item)));
+
+  // Ao escolher o serviço, o preço e a duração vêm do catálogo
+  const selectService = (index: number, service: ServiceType | null) => {
+    if (!service) return;
+    update(index, { service_id: service.id!, price: service.price / 100, duration: service.duration });
+  };
+
+  const move = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= items.length) return;
+    const reordered = [...items];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    onChange(reordered);
+  };
+
+  const add = () => onChange([...items, { service_id: 0, professional_id: null, price: 0, duration: 30 }]);
+  const remove = (index: number) => onChange(items.filter((_, i) => i !== index));
+
+  const totalPrice = items.reduce((sum, item) => sum + (item.price || 0), 0);
+  const totalDuration = items.reduce((sum, item) => sum + (item.duration || 0), 0);
+
+  return (
+    <div className="space-y-3">
+      <label className="block text-sm font-medium text-gray-700">Serviços *</label>
+
+      {items.map((item, index) => (
+        <div key={index} className="p-3 bg-gray-50 rounded-md space-y-2">
+          <div className="flex items-center gap-2">
+            <span className="text-xs font-medium text-gray-500 w-4">{index + 1}.</span>
+            <Dropdown
+              value={services.find(s => s.id === item.service_id) || null}
+              options={services}
+              onChange={(e) => selectService(index, e.value)}
+              optionLabel="name"
+              placeholder="Selecione um serviço"
+              itemTemplate={(option: ServiceType) => (
+                <div className="flex items-center">
+                  <Scissors className="w-4 h-4 mr-2 text-gray-400" />
+                  <span>{option.name}</span>
+                </div>
+              )}
+              className="flex-1 min-w-0"
+              filter
+            />
+            <button type="button" onClick={() => move(index, -1)} disabled={index === 0} className="p-1 text-gray-400 hover:text-gray-600 disabled:opacity-30" aria-label="Subir">
+              <ChevronUp className="w-4 h-4" />
+            </button>
+            <button type="button" onClick={() => move(index, 1)} disabled={index === items.length - 1} className="p-1 text-gray-400 hover:text-gray-600 disabled:opacity-30" aria-label="Descer">
+              <ChevronDown className="w-4 h-4" />
+            </button>
+            <button type="button" onClick={() => remove(index)} disabled={items.length === 1} className="p-1 text-red-400 hover:text-red-600 disabled:opacity-30" aria-label="Remover serviço">
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+          {itemErrors?.[index]?.service_id && <p className="text-sm text-red-600">{itemErrors[index]?.service_id?.message}</p>}
+
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-2 pl-6">
+            <InputNumber
+              value={item.price}
+              onValueChange={(e) => update(index, { price: e.value ?? 0 })}
+              mode="currency"
+              currency="BRL"
+              locale="pt-BR"
+              placeholder="Preço"
+              inputClassName="w-full"
+            />
+            <InputNumber
+              value={item.duration}
+              onValueChange={(e) => update(index, { duration: e.value ?? 0 })}
+              suffix=" min"
+              min={5}
+              step={5}
+              placeholder="Duração"
+              inputClassName="w-full"
+            />
+            <Dropdown
+              value={item.professional_id ?? null}
+              options={professionalOptions}
+              onChange={(e) => update(index, { professional_id: e.value })}
+              optionLabel="name"
+              optionValue="id"
+              className="w-full"
+            />
+          </div>
+          {itemErrors?.[index]?.price && <p className="text-sm text-red-600 pl-6">{itemErrors[index]?.price?.message}</p>}
+          {itemErrors?.[index]?.duration && <p className="text-sm text-red-600 pl-6">{itemErrors[index]?.duration?.message}</p>}
+        </div>
+      ))}
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      <div className="flex items-center justify-between">
+        <button type="button" onClick={add} className="inline-flex items-center text-sm font-medium text-pink-600 hover:text-pink-700">
+          <Plus className="w-4 h-4 mr-1" /> Adicionar serviço
+        </button>
+        <span className="text-sm text-gray-600">
+          Total: <span className="font-medium text-gray-900">{formatCurrency(totalPrice)}</span> · {totalDuration} min
+        </span>
+      </div>
+    </div>
+  );
+}
@@ -3,99 +3,56 @@
 import { useMemo } from 'react';
 import { SelectButton } from 'primereact/selectbutton';
 import moment from 'moment';
-import type { AppointmentType, ProfessionalType } from '../../shared/types';
+import type {
+  ProfessionalType,
+  ProfessionalScheduleType,
+  BusinessHoursType,
+  BusinessExceptionType,
+  ProfessionalExceptionType
+} from '../../shared/types';
+import { getAvailableSlots, describeUnavailability } from '../../shared/availability';
+import type { AvailabilityAppointment } from '../../shared/availability';
 
 interface TimeSlotPickerProps {
   selectedDate: Date;
-  appointments: AppointmentType[];
+  appointments: AvailabilityAppointment[]; // Já expandidos por profissional (ver `expandAppointments`)
   professional: ProfessionalType | null;
+  schedules: ProfessionalScheduleType[];
+  businessHours: BusinessHoursType[];
+  businessExceptions: BusinessExceptionType[];
+  professionalExceptions: ProfessionalExceptionType[];
   serviceDuration: number;
+  ignoreAppointmentId?: number; // Agendamento em edição, que não ocupa o próprio horário
   value: Date | null;
   onChange: (date: Date) => void;
+  onJoinWaitlist?: () => void; // Sem horários, oferece adicionar o cliente à lista de espera
 }
 
-export function TimeSlotPicker({ selectedDate, appointments, professional, serviceDuration, value, onChange }: TimeSlotPickerProps) {
-
-  const timeSlots = useMemo(() => {
-    if (!professional || !professional.work_start_time || !professional.work_end_time) {
-      return [];
-    }
-
-    const allPossibleSlots = [];
-    const {
-      work_start_time,
-      work_end_time,
-      lunch_start_time,
-      lunch_end_time
-    } = professional;
-
-    const [startHour, startMinute] = work_start_time.split(':').map(Number);
-    const [endHour, endMinute] = work_end_time.split(':').map(Number);
-
-    const workDayStart = moment(selectedDate).startOf('day').hour(startHour).minute(startMinute);
-    const workDayEnd = moment(selectedDate).startOf('day').hour(endHour).minute(endMinute);
-
-    const lunchStart = lunch_start_time ? moment(selectedDate).startOf('day').hour(parseInt(lunch_start_time.split(':')[0])).minute(parseInt(lunch_start_time.split(':')[1])) : null;
-    const lunchEnd = lunch_end_time ? moment(selectedDate).startOf('day').hour(parseInt(lunch_end_time.split(':')[0])).minute(parseInt(lunch_end_time.split(':')[1])) : null;
-
-    const slotInterval = 30;
-
-    // 1. Gerar todos os slots possíveis do dia
-    let tempTime = workDayStart.clone();
-    while (tempTime.isBefore(workDayEnd)) {
-      allPossibleSlots.push(tempTime.clone());
-      tempTime.add(slotInterval, 'minutes');
-    }
-
-    const professionalAppointments = appointments.filter(
-      app => app.professional_id === professional.id && moment(app.appointment_date).isSame(selectedDate, 'day')
-    );
-    
-    const now = moment();
-
-    // 2. Filtrar os slots, removendo os inválidos
-    const availableSlots = allPossibleSlots.filter(slotStartTime => {
-      const slotEndTime = slotStartTime.clone().add(serviceDuration, 'minutes');
-
-      // Filtro 1: O slot já passou (para o dia de hoje)
-      if (moment(selectedDate).isSame(now, 'day') && slotStartTime.isBefore(now)) {
-        return false;
+export function TimeSlotPicker({ selectedDate, appointments, professional, schedules, businessHours, businessExceptions, professionalExceptions, serviceDuration, ignoreAppointmentId, value, onChange, onJoinWaitlist }: TimeSlotPickerProps) {
+
+  const selectedDay = moment(selectedDate).format('YYYY-MM-DD');
+
+  // As regras de disponibilidade são as mesmas usadas pelo Worker (src/shared/availability.ts)
+  const availability = useMemo(() => {
+    if (!professional) return null;
+    return getAvailableSlots(
+      { businessHours, schedules, businessExceptions, professionalExceptions, appointments },
+      {
+        date: selectedDay,
+        professionalId: professional.id!,
+        duration: serviceDuration,
+        ignoreAppointmentId,
+        now: moment().format('YYYY-MM-DD HH:mm'),
       }
-      
-      // Filtro 2: O serviço termina DEPOIS do fim do expediente
-      if (slotEndTime.isAfter(workDayEnd)) {
-        return false;
-      }
-
-      // Filtro 3: O slot está ocupado por outro agendamento
-      const isOccupied = professionalAppointments.some(app => {
-        const existingStart = moment(app.appointment_date);
-        const existingEnd = moment(app.end_date);
-        return slotStartTime.isBefore(existingEnd) && slotEndTime.isAfter(existingStart);
-      });
-      if (isOccupied) {
-        return false;
-      }
-
-      // Filtro 4: O slot está durante o horário de almoço
-      const isDuringLunch = lunchStart && lunchEnd ?
-        (slotStartTime.isBetween(lunchStart, lunchEnd, undefined, '[)') || slotEndTime.isAfter(lunchStart) && slotStartTime.isBefore(lunchStart))
-        : false;
-      if (isDuringLunch) {
-        return false;
-      }
-
-      // Se passou por todos os filtros, o slot está disponível
-      return true;
-    });
+    );
+  }, [professional, businessHours, schedules, businessExceptions, professionalExceptions, appointments, selectedDay, serviceDuration, ignoreAppointmentId]);
 
-    // 3. Formatar os slots disponíveis para o componente
-    return availableSlots.map(slot => ({
-      label: slot.format('HH:mm'),
-      value: slot.toDate(),
+  const timeSlots = useMemo(() => {
+    return (availability?.slots || []).map(slot => ({
+      label: slot,
+      value: moment(`${selectedDay} ${slot}`, 'YYYY-MM-DD HH:mm').toDate(),
     }));
-
-  }, [selectedDate, appointments, professional, serviceDuration]);
+  }, [availability, selectedDay]);
 
   const selectedTimeValue = value ? moment(value).toDate() : null;
 
@@ -105,16 +62,23 @@ export function TimeSlotPicker({ selectedDate, appointments, professional, servi
       }
   }
 
-  if (!professional) {
+  if (!professional || !availability) {
       return <div className="text-center p-4 bg-gray-100 rounded-md text-sm text-gray-600">Selecione um profissional para ver os horários.</div>
   }
 
-  if (!professional.work_start_time || !professional.work_end_time) {
-      return <div className="text-center p-4 bg-gray-100 rounded-md text-sm text-gray-600">Este profissional não tem um horário de trabalho definido.</div>
-  }
-
-  if (timeSlots.length === 0) {
-      return <div className="text-center p-4 bg-gray-100 rounded-md text-sm text-gray-600">Nenhum horário disponível para este profissional no dia selecionado.</div>
+  if (availability.reason || timeSlots.length === 0) {
+      return (
+          <div className="text-center p-4 bg-gray-100 rounded-md text-sm text-gray-600">
+              {availability.reason
+                  ? describeUnavailability(availability.reason, availability.description)
+                  : 'Nenhum horário disponível para este profissional no dia selecionado.'}
+              {onJoinWaitlist && (
+                  <button type="button" onClick={onJoinWaitlist} className="block mx-auto mt-2 text-sm font-medium text-pink-600 hover:text-pink-800">
+                      Adicionar à lista de espera
+                  </button>
+              )}
+          </div>
+      );
   }
 
   return (
@@ -129,4 +93,4 @@ export function TimeSlotPicker({ selectedDate, appointments, professional, servi
       allowEmpty={false}
     />
   );
-}
\ No newline at end of file
+}
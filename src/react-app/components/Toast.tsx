@@ -3,12 +3,18 @@ import { CheckCircle, XCircle, AlertCircle, Info, X } from 'lucide-react';
 
 export type ToastType = 'success' | 'error' | 'warning' | 'info';
 
+export interface ToastAction {
+  label: string;
+  onClick: () => void;
+}
+
 export interface Toast {
   id: string;
   type: ToastType;
   title: string;
   message?: string;
   duration?: number;
+  action?: ToastAction; // Botão opcional, ex.: "Desfazer"
 }
 
 interface ToastProps {
@@ -83,6 +89,18 @@ export function ToastComponent({ toast, onRemove }: ToastProps) {
             {toast.message && (
               <p className="mt-1 text-sm opacity-90">{toast.message}</p>
             )}
+            {toast.action && (
+              <button
+                type="button"
+                className="mt-2 text-sm font-semibold underline hover:opacity-80"
+                onClick={() => {
+                  toast.action!.onClick();
+                  handleRemove();
+                }}
+              >
+                {toast.action.label}
+              </button>
+            )}
           </div>
           <div className="ml-4 flex-shrink-0 flex">
             <button
@@ -0,0 +1,277 @@
+// src/react-app/components/WaitlistPanel.tsx
+
+import { useEffect, useState } from 'react';
+import { useForm, Controller } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Dropdown } from 'primereact/dropdown';
+import moment from 'moment';
+import { useSupabaseAuth } from '../auth/SupabaseAuthProvider';
+import { useAppStore } from '../../shared/store';
+import { useToastHelpers } from '../contexts/ToastContext';
+import { X, Plus, Trash2, Hourglass, CalendarCheck, RotateCcw } from 'lucide-react';
+import type { CreateWaitlistEntryData, WaitlistEntryType } from '../../shared/types';
+import { CreateWaitlistEntrySchema } from '../../shared/types';
+import { WAITLIST_BADGE_CLASSES, WAITLIST_STATUS_LABELS } from '../../shared/waitlist';
+import { formatDate } from '../utils';
+
+// --- Definição de Tipos ---
+export type WaitlistDraft = Partial<CreateWaitlistEntryData>;
+
+interface WaitlistPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  draft?: WaitlistDraft | null; // Pedido pré-preenchido a partir do formulário de agendamento
+  onBook: (entry: WaitlistEntryType) => void;
+}
+
+const ANY_PROFESSIONAL = { id: null, name: 'Qualquer profissional' };
+
+const emptyForm = (draft?: WaitlistDraft | null): WaitlistDraft => ({
+  client_id: undefined,
+  service_id: undefined,
+  professional_id: null,
+  start_date: '',
+  end_date: '',
+  start_time: '',
+  end_time: '',
+  notes: '',
+  ...draft,
+});
+
+/**
+ * Modal da lista de espera: clientes que pediram um horário sem vaga. Quando um
+ * agendamento na janela de um pedido é cancelado ou excluído, o pedido aparece
+ * destacado com a vaga encontrada e pode ser agendado diretamente.
+ */
+export default function WaitlistPanel({ isOpen, onClose, draft, onBook }: WaitlistPanelProps) {
+  const { user } = useSupabaseAuth();
+  const { waitlist, clients, services, professionals, addWaitlistEntry, setWaitlistStatus, deleteWaitlistEntry } = useAppStore();
+  const { showSuccess, showError } = useToastHelpers();
+  const [busyId, setBusyId] = useState<number | null>(null);
+
+  const {
+    register,
+    handleSubmit,
+    reset,
+    control,
+    formState: { errors, isSubmitting },
+  } = useForm<CreateWaitlistEntryData>({
+    resolver: zodResolver(CreateWaitlistEntrySchema),
+    defaultValues: emptyForm(),
+  });
+
+  useEffect(() => {
+    if (isOpen) {
+      reset(emptyForm(draft));
+    }
+  }, [isOpen, draft, reset]);
+
+  // Vagas encontradas primeiro; dentro de cada grupo, por ordem de chegada
+  const entries = [...waitlist].sort((a, b) => Number(b.status === 'matched') - Number(a.status === 'matched'));
+
+  const onSubmit = async (formData: CreateWaitlistEntryData) => {
+    if (!user) return;
+    try {
+      await addWaitlistEntry({
+        ...formData,
+        professional_id: formData.professional_id || null,
+        start_time: formData.start_time || null,
+        end_time: formData.end_time || null,
+        notes: formData.notes || null,
+      }, user.id);
+      showSuccess('Cliente adicionado à lista de espera!', 'O pedido fica destacado quando abrir uma vaga no período pedido.');
+      reset(emptyForm());
+    } catch (error) {
+      console.error('Erro ao salvar pedido da lista de espera:', (error as Error).message);
+      showError('Erro ao salvar pedido', 'Verifique os dados e tente novamente.');
+    }
+  };
+
+  const runAction = async (entry: WaitlistEntryType, action: () => Promise<void>, successMessage: string) => {
+    setBusyId(entry.id!);
+    try {
+      await action();
+      showSuccess(successMessage);
+    } catch (error) {
+      console.error('Erro ao atualizar a lista de espera:', (error as Error).message);
+      showError('Erro ao atualizar a lista de espera');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const describeWindow = (entry: WaitlistEntryType) => {
+    const dates = entry.start_date === entry.end_date
+      ? formatDate(entry.start_date)
+      : `${formatDate(entry.start_date)} a ${formatDate(entry.end_date)}`;
+    const times = entry.start_time && entry.end_time
+      ? `${entry.start_time.slice(0, 5)} - ${entry.end_time.slice(0, 5)}`
+      : 'qualquer horário';
+    return `${dates}, ${times}`;
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto">
+      <div className="flex items-center justify-center min-h-screen p-4 text-center">
+        <div className="fixed inset-0 bg-gray-500 bg-opacity-75 transition-opacity" onClick={onClose} aria-hidden="true"></div>
+        <div className="inline-block align-bottom bg-white rounded-lg text-left overflow-hidden shadow-xl transform transition-all sm:my-8 sm:align-middle sm:max-w-lg sm:w-full">
+          <div className="bg-white px-4 pt-5 pb-4 sm:p-6 sm:pb-4">
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="text-lg font-medium text-gray-900">Lista de Espera</h3>
+              <button type="button" onClick={onClose} className="text-gray-400 hover:text-gray-600">
+                <X className="w-6 h-6" />
+              </button>
+            </div>
+
+            {entries.length === 0 ? (
+              <div className="text-center py-6">
+                <Hourglass className="mx-auto h-10 w-10 text-gray-400" />
+                <p className="mt-2 text-sm text-gray-500">Nenhum cliente à espera.</p>
+              </div>
+            ) : (
+              <div className="space-y-2 max-h-72 overflow-y-auto">
+                {entries.map(entry => {
+                  const client = clients.find(c => c.id === entry.client_id);
+                  const service = services.find(s => s.id === entry.service_id);
+                  const professional = professionals.find(p => p.id === entry.professional_id);
+                  const matchedProfessional = professionals.find(p => p.id === entry.matched_professional_id);
+                  const isMatched = entry.status === 'matched';
+                  return (
+                    <div key={entry.id} className={`p-3 border rounded-lg ${isMatched ? 'border-amber-300 bg-amber-50' : 'border-gray-200'}`}>
+                      <div className="flex items-start justify-between">
+                        <div>
+                          <p className="text-sm font-medium text-gray-900">{client?.name ?? 'Cliente'}</p>
+                          <p className="text-sm text-gray-600">{service?.name ?? 'Serviço'} · {professional?.name ?? 'Qualquer profissional'}</p>
+                          <p className="text-sm text-gray-500">{describeWindow(entry)}</p>
+                          {entry.notes && <p className="text-xs text-gray-500 mt-1">{entry.notes}</p>}
+                        </div>
+                        <span className={`ml-2 px-2 py-0.5 text-xs font-medium rounded-full whitespace-nowrap ${WAITLIST_BADGE_CLASSES[entry.status]}`}>
+                          {WAITLIST_STATUS_LABELS[entry.status]}
+                        </span>
+                      </div>
+                      {isMatched && entry.matched_date && (
+                        <p className="mt-2 text-sm text-amber-800">
+                          Vaga em {moment(entry.matched_date).format('DD/MM [às] HH:mm')}{matchedProfessional ? ` com ${matchedProfessional.name}` : ''}
+                        </p>
+                      )}
+                      <div className="mt-2 flex items-center justify-end gap-2">
+                        {isMatched && (
+                          <button
+                            type="button"
+                            onClick={() => runAction(entry, () => setWaitlistStatus(entry, 'waiting'), 'Pedido de volta à espera.')}
+                            disabled={busyId === entry.id}
+                            className="inline-flex items-center px-2 py-1 text-xs font-medium rounded-md text-gray-700 bg-white border border-gray-300 hover:bg-gray-50 disabled:opacity-50"
+                          >
+                            <RotateCcw className="w-3 h-3 mr-1" />
+                            Voltar à espera
+                          </button>
+                        )}
+                        <button
+                          type="button"
+                          onClick={() => onBook(entry)}
+                          disabled={busyId === entry.id}
+                          className="inline-flex items-center px-2 py-1 text-xs font-medium rounded-md text-white bg-gradient-to-r from-pink-500 to-violet-500 hover:from-pink-600 hover:to-violet-600 disabled:opacity-50"
+                        >
+                          <CalendarCheck className="w-3 h-3 mr-1" />
+                          Agendar
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => runAction(entry, () => deleteWaitlistEntry(entry.id!), 'Pedido removido da lista de espera.')}
+                          disabled={busyId === entry.id}
+                          title="Remover"
+                          className="text-red-600 hover:text-red-900 disabled:opacity-50"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+
+          <form onSubmit={handleSubmit(onSubmit)} className="border-t border-gray-200">
+            <div className="px-4 py-4 sm:px-6 space-y-4">
+              <h4 className="text-sm font-medium text-gray-900">Novo Pedido</h4>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Cliente *</label>
+                <Controller
+                  name="client_id"
+                  control={control}
+                  render={({ field }) => (
+                    <Dropdown value={field.value ?? null} options={clients} onChange={(e) => field.onChange(e.value)} optionLabel="name" optionValue="id" placeholder="Selecione um cliente" className="w-full" filter />
+                  )}
+                />
+                {errors.client_id && <p className="mt-1 text-sm text-red-600">{errors.client_id.message}</p>}
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Serviço *</label>
+                  <Controller
+                    name="service_id"
+                    control={control}
+                    render={({ field }) => (
+                      <Dropdown value={field.value ?? null} options={services} onChange={(e) => field.onChange(e.value)} optionLabel="name" optionValue="id" placeholder="Selecione" className="w-full" />
+                    )}
+                  />
+                  {errors.service_id && <p className="mt-1 text-sm text-red-600">{errors.service_id.message}</p>}
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Profissional</label>
+                  <Controller
+                    name="professional_id"
+                    control={control}
+                    render={({ field }) => (
+                      <Dropdown value={field.value ?? null} options={[ANY_PROFESSIONAL, ...professionals]} onChange={(e) => field.onChange(e.value)} optionLabel="name" optionValue="id" className="w-full" />
+                    )}
+                  />
+                </div>
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label htmlFor="waitlist_start_date" className="block text-sm font-medium text-gray-700">De *</label>
+                  <input type="date" id="waitlist_start_date" {...register('start_date')} className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-pink-500 focus:border-pink-500 sm:text-sm" />
+                  {errors.start_date && <p className="mt-1 text-sm text-red-600">{errors.start_date.message}</p>}
+                </div>
+                <div>
+                  <label htmlFor="waitlist_end_date" className="block text-sm font-medium text-gray-700">Até *</label>
+                  <input type="date" id="waitlist_end_date" {...register('end_date')} className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-pink-500 focus:border-pink-500 sm:text-sm" />
+                  {errors.end_date && <p className="mt-1 text-sm text-red-600">{errors.end_date.message}</p>}
+                </div>
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label htmlFor="waitlist_start_time" className="block text-sm font-medium text-gray-700">A partir das</label>
+                  <input type="time" id="waitlist_start_time" {...register('start_time')} className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-pink-500 focus:border-pink-500 sm:text-sm" />
+                  <p className="mt-1 text-xs text-gray-500">Deixe vazio para qualquer horário</p>
+                </div>
+                <div>
+                  <label htmlFor="waitlist_end_time" className="block text-sm font-medium text-gray-700">Até às</label>
+                  <input type="time" id="waitlist_end_time" {...register('end_time')} className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-pink-500 focus:border-pink-500 sm:text-sm" />
+                  {errors.end_time && <p className="mt-1 text-sm text-red-600">{errors.end_time.message}</p>}
+                </div>
+              </div>
+              <div>
+                <label htmlFor="waitlist_notes" className="block text-sm font-medium text-gray-700">Observações</label>
+                <input type="text" id="waitlist_notes" {...register('notes')} placeholder="Ex: Só às terças" className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-pink-500 focus:border-pink-500 sm:text-sm" />
+              </div>
+            </div>
+            <div className="bg-gray-50 px-4 py-3 sm:px-6 sm:flex sm:flex-row-reverse">
+              <button type="submit" disabled={isSubmitting} className="w-full inline-flex justify-center items-center rounded-md border border-transparent shadow-sm px-4 py-2 bg-gradient-to-r from-pink-500 to-violet-500 text-base font-medium text-white hover:from-pink-600 hover:to-violet-600 sm:ml-3 sm:w-auto sm:text-sm disabled:opacity-50">
+                <Plus className="w-4 h-4 mr-2" />
+                {isSubmitting ? 'Salvando...' : 'Adicionar à Lista'}
+              </button>
+              <button type="button" onClick={onClose} className="mt-3 w-full inline-flex justify-center rounded-md border border-gray-300 shadow-sm px-4 py-2 bg-white text-base font-medium text-gray-700 hover:bg-gray-50 sm:mt-0 sm:w-auto sm:text-sm">
+                Fechar
+              </button>
+            </div>
+          </form>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,5 +1,5 @@
 import { createContext, useContext, useState, useCallback, ReactNode } from 'react';
-import { Toast, ToastType } from '../components/Toast';
+import { Toast, ToastType, ToastAction } from '../components/Toast';
 
 interface ToastContextType {
   toasts: Toast[];
@@ -55,8 +55,8 @@ export function useToast() {
 export function useToastHelpers() {
   const { addToast } = useToast();
 
-  const showSuccess = useCallback((title: string, message?: string) => {
-    addToast({ type: 'success', title, message });
+  const showSuccess = useCallback((title: string, message?: string, action?: ToastAction) => {
+    addToast({ type: 'success', title, message, action });
   }, [addToast]);
 
   const showError = useCallback((title: string, message?: string) => {
@@ -3,22 +3,43 @@ import { useForm, Controller } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { useSupabaseAuth } from '../auth/SupabaseAuthProvider';
 import { useAppStore } from '../../shared/store';
+import { fetchWorker } from '../supabaseClient';
 import Layout from '../components/Layout';
 import LoadingSpinner from '../components/LoadingSpinner';
 import ConfirmationModal from '../components/ConfirmationModal';
 import { TimeSlotPicker } from '../components/TimeSlotPicker';
+import CalendarGrid from '../components/CalendarGrid';
+import type { CalendarColumn, AppointmentChange } from '../components/CalendarGrid';
 import { useToastHelpers } from '../contexts/ToastContext';
-import { Plus, X, User, Calendar as CalendarIcon, ChevronLeft, ChevronRight, Scissors } from 'lucide-react';
+import { Plus, X, User, Calendar as CalendarIcon, ChevronLeft, ChevronRight, AlertTriangle, List, Columns, CalendarDays, Repeat, Globe, Link2, Hourglass, Gift, Layers, CreditCard, Tag } from 'lucide-react';
 import moment from 'moment';
 import 'moment/locale/pt-br';
-import type { AppointmentType, ProfessionalType, ClientType, ServiceType } from '../../shared/types';
+import type { AppointmentType, AppointmentStatus, AppointmentStatusChangeType, ProfessionalType, ClientType, RecurrenceRuleType, WaitlistEntryType, NotificationType, ClientPackageType, ClientMembershipType } from '../../shared/types';
 import { AppointmentFormSchema } from '../../shared/types';
+import { describeUnavailability, AppointmentConflictError } from '../../shared/availability';
+import { checkAppointmentAvailability, expandAppointments, sortItems, summarizeItems } from '../../shared/appointmentItems';
+import type { AvailabilityContext } from '../../shared/availability';
+import type { SeriesScope, SkippedOccurrence } from '../../shared/recurrence';
 import ClientFormModal from '../components/ClientFormModal';
+import RecurrenceFields from '../components/RecurrenceFields';
+import ServiceItemsFields from '../components/ServiceItemsFields';
+import type { ServiceItemFormValue } from '../components/ServiceItemsFields';
+import AppointmentStatusBadge from '../components/AppointmentStatusBadge';
+import AppointmentStatusActions from '../components/AppointmentStatusActions';
+import WaitlistPanel from '../components/WaitlistPanel';
+import GiftCardRedemptionPanel from '../components/GiftCardRedemptionPanel';
+import type { WaitlistDraft } from '../components/WaitlistPanel';
+import { occupiesSlot, STATUS_LABELS } from '../../shared/appointmentStatus';
+import { CHANNEL_LABELS, NOTIFICATION_STATUS_LABELS } from '../../shared/notifications';
+import { availableRewards } from '../../shared/loyalty';
+import { allocateSessions, remainingSessions, usablePackages } from '../../shared/packages';
+import { coveredLines, usesInPeriod } from '../../shared/memberships';
+import { normalizeCouponCode, priceAppointment } from '../../shared/promotions';
+import { formatCurrency } from '../utils';
 
 // --- PrimeReact Imports ---
 import { Calendar } from 'primereact/calendar';
 import { Dropdown } from 'primereact/dropdown';
-import { InputNumber } from 'primereact/inputnumber';
 import 'primereact/resources/themes/tailwind-light/theme.css';
 import 'primereact/resources/primereact.min.css';
 import 'primeicons/primeicons.css';
@@ -28,42 +49,83 @@ import './primereact-calendar-styles.css';
 interface AppointmentFormData {
   client_id: number;
   professional_id: number;
-  service_id: number;
-  price: number;
+  items: ServiceItemFormValue[];
   appointment_date: Date;
   end_date: Date;
   attended?: boolean;
+  recurrence?: RecurrenceRuleType | null;
 }
 
+type AgendaView = 'list' | 'day' | 'week';
+
+const VIEW_OPTIONS: { value: AgendaView; label: string; icon: typeof List }[] = [
+  { value: 'list', label: 'Lista', icon: List },
+  { value: 'day', label: 'Dia', icon: Columns },
+  { value: 'week', label: 'Semana', icon: CalendarDays },
+];
+
 const defaultFormValues: Partial<AppointmentFormData> = {
   client_id: undefined,
   professional_id: undefined,
-  service_id: undefined,
-  price: undefined,
+  items: [],
   appointment_date: new Date(),
   end_date: new Date(),
   attended: false,
+  recurrence: null,
+};
+
+const SERIES_SCOPE_OPTIONS: { value: SeriesScope; label: string }[] = [
+  { value: 'this', label: 'Apenas este' },
+  { value: 'following', label: 'Este e os seguintes' },
+  { value: 'all', label: 'Todos da série' },
+];
+
+// Resumo das ocorrências de uma série que não puderam ser gravadas
+const describeSkipped = (skipped: SkippedOccurrence[]) => {
+  const listed = skipped.slice(0, 5).map(o => `${moment(o.appointment_date).format('DD/MM')}: ${describeUnavailability(o.check.reason, o.check.description)}`);
+  if (skipped.length > listed.length) listed.push(`e mais ${skipped.length - listed.length}.`);
+  return listed.join(' ');
 };
 
 // --- Componente Principal ---
 export default function Appointments() {
   const { user } = useSupabaseAuth();
-  const { showSuccess, showError } = useToastHelpers();
+  const { showSuccess, showError, showWarning } = useToastHelpers();
 
   const {
-    appointments, clients, professionals, services, loading,
-    fetchAppointments, fetchClients, fetchProfessionals, fetchServices,
-    addAppointment, updateAppointment, deleteAppointment
+    appointments, clients, professionals, services, professionalSchedules, professionalExceptions, businessHours, businessExceptions, loading,
+    fetchAppointments, fetchClients, fetchProfessionals, fetchServices, fetchProfessionalSchedules,
+    fetchProfessionalExceptions, fetchBusinessHours, fetchBusinessExceptions,
+    addAppointment, updateAppointment,
+    addAppointmentSeries, updateAppointmentSeries, deleteAppointmentSeries,
+    changeAppointmentStatus, fetchAppointmentStatusHistory, fetchAppointmentNotifications,
+    waitlist, fetchWaitlist, setWaitlistStatus,
+    loyaltyRewards, fetchLoyaltyRewards, fetchLoyaltyBalance, fetchClientPackages, fetchClientMemberships,
+    promotions, fetchPromotions
   } = useAppStore();
 
   const [selectedDate, setSelectedDate] = useState<Date | Date[] | undefined>(new Date());
   const [selectedProfessionalId, setSelectedProfessionalId] = useState<number | null>(null);
+  const [view, setView] = useState<AgendaView>('list');
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [editingAppointment, setEditingAppointment] = useState<AppointmentType | null>(null);
   const [isDeleteModalOpen, setIsDeleteModalOpen] = useState(false);
   const [appointmentToDelete, setAppointmentToDelete] = useState<AppointmentType | null>(null);
   
   const [isClientModalOpen, setIsClientModalOpen] = useState(false);
+  const [conflictError, setConflictError] = useState<AppointmentConflictError | null>(null);
+  const [seriesScope, setSeriesScope] = useState<SeriesScope>('this');
+  const [statusHistory, setStatusHistory] = useState<AppointmentStatusChangeType[]>([]);
+  const [notifications, setNotifications] = useState<NotificationType[]>([]);
+  const [isWaitlistOpen, setIsWaitlistOpen] = useState(false);
+  const [waitlistDraft, setWaitlistDraft] = useState<WaitlistDraft | null>(null);
+  const [waitlistEntryToBook, setWaitlistEntryToBook] = useState<WaitlistEntryType | null>(null);
+  const [clientPoints, setClientPoints] = useState<number | null>(null);
+  const [clientPackages, setClientPackages] = useState<ClientPackageType[]>([]);
+  const [clientMemberships, setClientMemberships] = useState<ClientMembershipType[]>([]);
+  const [couponCode, setCouponCode] = useState('');
+
+  const matchedWaitlistCount = waitlist.filter(entry => entry.status === 'matched').length;
 
   const {
     handleSubmit, reset, setValue, watch, control,
@@ -73,15 +135,21 @@ export default function Appointments() {
     defaultValues: defaultFormValues,
   });
 
-  const watchedServiceId = watch('service_id');
+  const watchedItems = watch('items');
   const watchedStartDate = watch('appointment_date');
   const watchedClientId = watch('client_id');
   const watchedProfessionalId = watch('professional_id');
 
-  const selectedService = useMemo(() => {
-    return services.find(s => s.id === Number(watchedServiceId));
-  }, [watchedServiceId, services]);
-  const serviceDuration = selectedService?.duration || 30;
+  // A duração total dos serviços define o fim do agendamento e os horários livres
+  const serviceDuration = useMemo(() => {
+    const total = (watchedItems || []).reduce((sum, item) => sum + (item.duration || 0), 0);
+    return total || 30;
+  }, [watchedItems]);
+
+  // O aviso de conflito deixa de se aplicar quando o horário, o profissional ou os serviços mudam
+  useEffect(() => {
+    setConflictError(null);
+  }, [watchedStartDate, watchedProfessionalId, watchedItems]);
 
   const selectedProfessional = useMemo(() => {
     return professionals.find(p => p.id === watchedProfessionalId) || null;
@@ -94,19 +162,81 @@ export default function Appointments() {
         fetchProfessionals(user.id),
         fetchServices(user.id),
         fetchAppointments(user.id),
+        fetchProfessionalSchedules(user.id),
+        fetchProfessionalExceptions(user.id),
+        fetchBusinessHours(user.id),
+        fetchBusinessExceptions(user.id),
+        fetchWaitlist(user.id),
+        fetchLoyaltyRewards(user.id),
+        fetchPromotions(user.id),
       ]);
     }
-  }, [user, fetchClients, fetchProfessionals, fetchServices, fetchAppointments]);
+  }, [user, fetchClients, fetchProfessionals, fetchServices, fetchAppointments, fetchProfessionalSchedules, fetchProfessionalExceptions, fetchBusinessHours, fetchBusinessExceptions, fetchWaitlist, fetchLoyaltyRewards, fetchPromotions]);
+
+  // Saldo de fidelidade do cliente selecionado no formulário
+  useEffect(() => {
+    if (!isModalOpen || !watchedClientId) {
+      setClientPoints(null);
+      return;
+    }
+    fetchLoyaltyBalance(watchedClientId)
+      .then(setClientPoints)
+      .catch((error) => console.error('Erro ao buscar saldo de pontos:', (error as Error).message));
+  }, [isModalOpen, watchedClientId, fetchLoyaltyBalance]);
+  const rewardsInReach = clientPoints === null ? 0 : availableRewards(loyaltyRewards, clientPoints).length;
+
+  // Pacotes do cliente selecionado: as sessões só são consumidas quando o atendimento é concluído
+  useEffect(() => {
+    if (!isModalOpen || !watchedClientId) {
+      setClientPackages([]);
+      return;
+    }
+    fetchClientPackages(watchedClientId)
+      .then(setClientPackages)
+      .catch((error) => console.error('Erro ao buscar pacotes do cliente:', (error as Error).message));
+  }, [isModalOpen, watchedClientId, fetchClientPackages]);
+  const packageDate = watchedStartDate ? moment(watchedStartDate).format('YYYY-MM-DD') : moment().format('YYYY-MM-DD');
+  const openPackages = usablePackages(clientPackages, packageDate);
+
+  // Assinaturas do cliente selecionado: os serviços incluídos são gravados sem custo
+  useEffect(() => {
+    if (!isModalOpen || !watchedClientId) {
+      setClientMemberships([]);
+      return;
+    }
+    fetchClientMemberships(watchedClientId)
+      .then(setClientMemberships)
+      .catch((error) => console.error('Erro ao buscar assinaturas do cliente:', (error as Error).message));
+  }, [isModalOpen, watchedClientId, fetchClientMemberships]);
+  const activeMemberships = clientMemberships.filter(m => m.status === 'active');
+  const lineMemberships = coveredLines((watchedItems || []).map(item => ({ service_id: Number(item.service_id) })), clientMemberships, packageDate, editingAppointment?.id);
+  const includedLines = lineMemberships.filter(id => id !== null).length;
+  const prepaidLines = allocateSessions(
+    (watchedItems || []).filter((item, index) => item.service_id && lineMemberships[index] === null),
+    openPackages,
+    packageDate,
+  ).length;
+
+  // Promoção aplicada: o cupom informado ou a melhor regra automática para o dia, a hora e o cliente
+  const pricing = priceAppointment(
+    promotions,
+    (watchedItems || []).map((item, index) => ({
+      service_id: Number(item.service_id),
+      price: lineMemberships[index] !== null ? 0 : Math.round(Number(item.price || 0) * 100),
+    })),
+    {
+      appointmentDate: moment(watchedStartDate ?? new Date()).format('YYYY-MM-DD HH:mm:ss'),
+      clientTags: clients.find(c => c.id === watchedClientId)?.tags ?? [],
+    },
+    couponCode,
+  );
   
   useEffect(() => {
-    if (selectedService) {
-      setValue('price', selectedService.price / 100);
-      if (watchedStartDate) {
-        const newEndDate = moment(watchedStartDate).add(selectedService.duration, 'minutes').toDate();
-        setValue('end_date', newEndDate, { shouldValidate: true });
-      }
+    if (watchedStartDate) {
+      const newEndDate = moment(watchedStartDate).add(serviceDuration, 'minutes').toDate();
+      setValue('end_date', newEndDate, { shouldValidate: true });
     }
-  }, [watchedServiceId, watchedStartDate, services, setValue, selectedService]);
+  }, [watchedStartDate, serviceDuration, setValue]);
   
   const handleClientCreated = (newClient: ClientType) => {
     if (newClient && newClient.id) {
@@ -123,8 +253,40 @@ export default function Appointments() {
 
   const currentDate = Array.isArray(selectedDate) ? selectedDate[0] : selectedDate;
 
+  const availabilityContext: AvailabilityContext = useMemo(() => ({
+    businessHours, schedules: professionalSchedules, businessExceptions, professionalExceptions, appointments: expandAppointments(appointments),
+  }), [businessHours, professionalSchedules, businessExceptions, professionalExceptions, appointments]);
+
+  // Colunas da grelha: na vista de dia, uma por profissional; na de semana, uma por dia.
+  const calendarColumns: CalendarColumn[] = useMemo(() => {
+    if (!currentDate) return [];
+    if (view === 'day') {
+      const date = moment(currentDate).format('YYYY-MM-DD');
+      return professionals
+        .filter(p => selectedProfessionalId === null || p.id === selectedProfessionalId)
+        .map(p => ({ key: `${date}-${p.id}`, date, professionalId: p.id!, title: p.name, color: p.color }));
+    }
+    const weekStart = moment(currentDate).startOf('isoWeek');
+    const professional = professionals.find(p => p.id === selectedProfessionalId);
+    return Array.from({ length: 7 }, (_, i) => {
+      const day = weekStart.clone().add(i, 'days');
+      return {
+        key: day.format('YYYY-MM-DD'),
+        date: day.format('YYYY-MM-DD'),
+        professionalId: selectedProfessionalId,
+        title: day.format('ddd'),
+        subtitle: day.format('DD/MM'),
+        color: professional?.color,
+      };
+    });
+  }, [view, currentDate, professionals, selectedProfessionalId]);
+
   const formatHeaderDate = (date: Date | undefined) => {
     if (!date) return 'Selecione uma data';
+    if (view === 'week') {
+      const weekStart = moment(date).startOf('isoWeek');
+      return `${weekStart.format('DD MMM')} - ${weekStart.clone().add(6, 'days').format('DD MMM')}`;
+    }
     return new Intl.DateTimeFormat('pt-BR', {
       weekday: 'long',
       day: 'numeric',
@@ -155,35 +317,71 @@ export default function Appointments() {
   }, [filteredAppointments]);
   
   const handleDayNavigation = (direction: 'prev' | 'next') => {
-      const newDate = moment(currentDate || new Date()).add(direction === 'prev' ? -1 : 1, 'day').toDate();
+      const newDate = moment(currentDate || new Date()).add(direction === 'prev' ? -1 : 1, view === 'week' ? 'week' : 'day').toDate();
       setSelectedDate(newDate);
   }
 
-  const handleOpenModal = (appointment?: AppointmentType, slotDate?: Date) => {
+  const loadStatusHistory = async (appointmentId: number) => {
+    try {
+      setStatusHistory(await fetchAppointmentStatusHistory(appointmentId));
+    } catch (error) {
+      console.error("Erro ao buscar histórico de status:", error);
+      setStatusHistory([]);
+    }
+  };
+
+  const loadNotifications = async (appointmentId: number) => {
+    try {
+      setNotifications(await fetchAppointmentNotifications(appointmentId));
+    } catch (error) {
+      console.error("Erro ao buscar lembretes:", error);
+      setNotifications([]);
+    }
+  };
+
+  const handleOpenModal = (appointment?: AppointmentType, slotDate?: Date, professionalId?: number | null) => {
     if (appointment) {
       setEditingAppointment(appointment);
+      loadStatusHistory(appointment.id!);
+      loadNotifications(appointment.id!);
       reset({
         client_id: appointment.client_id,
         professional_id: appointment.professional_id,
-        service_id: appointment.service_id,
-        price: appointment.price / 100,
+        // Agendamentos anteriores às linhas de serviço têm apenas o serviço principal
+        items: appointment.items?.length
+          ? sortItems(appointment.items).map(item => ({
+              service_id: item.service_id,
+              professional_id: item.professional_id ?? null,
+              price: (item.price + (item.discount ?? 0)) / 100, // O desconto é recalculado ao salvar
+              duration: item.duration,
+            }))
+          : [{
+              service_id: appointment.service_id,
+              professional_id: null,
+              price: (appointment.gross_price ?? appointment.price) / 100,
+              duration: moment(appointment.end_date).diff(moment(appointment.appointment_date), 'minutes'),
+            }],
         appointment_date: new Date(appointment.appointment_date),
         end_date: new Date(appointment.end_date),
         attended: appointment.attended,
       });
+      setCouponCode(appointment.coupon_code ?? '');
     } else {
       setEditingAppointment(null);
+      setCouponCode('');
       
       const initialDate = slotDate || (currentDate && moment(currentDate).isAfter(moment()) ? currentDate : new Date());
+      // Um clique numa célula da grelha traz a hora; caso contrário, começa às 09:00
+      const initialStart = slotDate ? moment(slotDate).second(0) : moment(initialDate).hour(9).minute(0).second(0);
       
       reset({
           client_id: undefined,
-          professional_id: selectedProfessionalId ?? undefined,
-          service_id: undefined,
-          price: undefined,
+          professional_id: professionalId ?? selectedProfessionalId ?? undefined,
+          items: [{ service_id: 0, professional_id: null, price: 0, duration: 30 }],
           attended: false,
-          appointment_date: moment(initialDate).hour(9).minute(0).second(0).toDate(),
-          end_date: moment(initialDate).hour(9).minute(30).second(0).toDate(),
+          appointment_date: initialStart.toDate(),
+          end_date: initialStart.clone().add(30, 'minutes').toDate(),
+          recurrence: null,
       });
     }
     setIsModalOpen(true);
@@ -192,59 +390,221 @@ export default function Appointments() {
   const handleCloseModal = () => {
     setIsModalOpen(false);
     setEditingAppointment(null);
+    setConflictError(null);
+    setSeriesScope('this');
+    setStatusHistory([]);
+    setNotifications([]);
+    setWaitlistEntryToBook(null);
+    setCouponCode('');
     reset(defaultFormValues);
   };
+
+  // --- Lista de Espera ---
+  const handleOpenWaitlist = (draft: WaitlistDraft | null = null) => {
+    setWaitlistDraft(draft);
+    setIsWaitlistOpen(true);
+  };
+
+  // Sem horários livres, o pedido parte do cliente, serviço, profissional e dia do formulário
+  const handleJoinWaitlist = () => {
+    const day = moment(watchedStartDate).format('YYYY-MM-DD');
+    handleCloseModal();
+    handleOpenWaitlist({
+      client_id: watchedClientId || undefined,
+      service_id: watchedItems?.[0]?.service_id || undefined,
+      professional_id: watchedProfessionalId || null,
+      start_date: day,
+      end_date: day,
+    });
+  };
+
+  // Abre um novo agendamento com os dados do pedido e, se houver, a vaga encontrada
+  const handleBookFromWaitlist = (entry: WaitlistEntryType) => {
+    const service = services.find(s => s.id === entry.service_id);
+    const start = entry.matched_date
+      ? moment(entry.matched_date)
+      : moment(`${entry.start_date} ${entry.start_time ?? '09:00'}`, 'YYYY-MM-DD HH:mm');
+    setIsWaitlistOpen(false);
+    setEditingAppointment(null);
+    setWaitlistEntryToBook(entry);
+    setCouponCode('');
+    reset({
+      client_id: entry.client_id,
+      professional_id: entry.matched_professional_id ?? entry.professional_id ?? undefined,
+      items: [{ service_id: entry.service_id, professional_id: null, price: (service?.price ?? 0) / 100, duration: service?.duration ?? 30 }],
+      attended: false,
+      appointment_date: start.toDate(),
+      end_date: start.clone().add(service?.duration ?? 30, 'minutes').toDate(),
+      recurrence: null,
+    });
+    setIsModalOpen(true);
+  };
+
+  // Avisa quando um cancelamento ou exclusão abriu vaga para alguém da lista de espera
+  const notifyWaitlistMatches = (matchedBefore: number) => {
+    const found = useAppStore.getState().waitlist.filter(entry => entry.status === 'matched').length - matchedBefore;
+    if (found > 0) {
+      showSuccess(
+        found > 1 ? `${found} clientes da lista de espera podem ocupar a vaga` : 'Um cliente da lista de espera pode ocupar a vaga',
+        undefined,
+        { label: 'Ver', onClick: () => handleOpenWaitlist() },
+      );
+    }
+  };
+
+  const handleStatusChange = async (status: AppointmentStatus, reason?: string) => {
+    if (!editingAppointment) return;
+    try {
+      await changeAppointmentStatus(editingAppointment, status, reason);
+      setEditingAppointment({ ...editingAppointment, status, attended: status === 'completed' });
+      await loadStatusHistory(editingAppointment.id!);
+      showSuccess(`Status alterado para "${STATUS_LABELS[status]}".`);
+      notifyWaitlistMatches(matchedWaitlistCount);
+    } catch (error) {
+      showError("Não foi possível alterar o status", (error as Error).message);
+    }
+  };
   
+  // O link é assinado pelo Worker; o cliente pode vê-lo, cancelar ou remarcar sem login
+  const handleCopyManageLink = async () => {
+    if (!editingAppointment) return;
+    try {
+      const response = await fetchWorker(`/api/appointments/${editingAppointment.id}/manage-link`, { method: 'POST' });
+      if (!response.ok) throw new Error('Não foi possível gerar o link.');
+      const { url } = await response.json();
+      await navigator.clipboard.writeText(url);
+      showSuccess('Link copiado!', 'Envie-o ao cliente para que possa gerir o agendamento.');
+    } catch (error) {
+      showError('Erro ao gerar link', (error as Error).message);
+    }
+  };
+
   const onSubmit = async (data: AppointmentFormData) => {
      if (!user) return;
      const newStart = moment(data.appointment_date);
      const newEnd = moment(data.end_date);
      const professionalId = Number(data.professional_id);
-     const conflictingAppointment = appointments.find(app => {
-         if (editingAppointment && app.id === editingAppointment.id) return false;
-         if (app.professional_id !== professionalId) return false;
-         const existingStart = moment(app.appointment_date);
-         const existingEnd = moment(app.end_date);
-         return newStart.isBefore(existingEnd) && newEnd.isAfter(existingStart);
-     });
-     if (conflictingAppointment) {
-         showError("Conflito de Horário", "O profissional já tem um agendamento neste horário.");
-         return;
-     }
      const client = clients.find(c => c.id === Number(data.client_id));
      const professional = professionals.find(p => p.id === Number(data.professional_id));
-     const service = services.find(s => s.id === Number(data.service_id));
-     if (!client || !professional || !service) {
+     const itemServices = data.items.map(item => services.find(s => s.id === Number(item.service_id)));
+     if (!client || !professional || itemServices.some(service => !service)) {
          showError("Dados inválidos.", "Cliente, profissional ou serviço não encontrado.");
          return;
      }
+     // As linhas incluídas numa assinatura ativa do cliente ficam sem custo e contam como uso do ciclo
+     const newStartDate = moment(data.appointment_date).format('YYYY-MM-DD');
+     const lineMemberships = coveredLines(data.items.map(item => ({ service_id: Number(item.service_id) })), clientMemberships, newStartDate, editingAppointment?.id);
+     const priced = priceAppointment(
+       promotions,
+       data.items.map((item, position) => ({
+         service_id: Number(item.service_id),
+         price: lineMemberships[position] !== null ? 0 : Math.round(Number(item.price) * 100),
+       })),
+       { appointmentDate: moment(data.appointment_date).format('YYYY-MM-DD HH:mm:ss'), clientTags: client.tags ?? [] },
+       couponCode,
+     );
+     if (priced.couponError) {
+         showError("Cupom inválido", priced.couponError);
+         return;
+     }
+     const items = data.items.map((item, position) => ({
+       service_id: Number(item.service_id),
+       service: itemServices[position]!.name,
+       price: priced.lines[position].price,
+       discount: priced.lines[position].discount,
+       duration: item.duration,
+       professional_id: item.professional_id || null,
+       position,
+       client_membership_id: lineMemberships[position],
+     }));
+     const availability = checkAppointmentAvailability(availabilityContext, {
+       id: editingAppointment?.id,
+       professional_id: professionalId,
+       appointment_date: newStart.format("YYYY-MM-DD HH:mm:ss"),
+       end_date: newEnd.format("YYYY-MM-DD HH:mm:ss"),
+       items,
+     });
+     if (!availability.available) {
+         setConflictError(new AppointmentConflictError(availability));
+         return;
+     }
+     const { recurrence, ...formData } = data;
+     // `service_id`, `service` e `price` resumem as linhas (primeiro serviço, nomes e total)
      const appointmentData = {
-       ...data,
+       ...formData,
        appointment_date: newStart.format("YYYY-MM-DD HH:mm:ss"),
        end_date: newEnd.format("YYYY-MM-DD HH:mm:ss"),
-       price: Math.round(Number(data.price) * 100),
+       price: priced.net,
+       gross_price: priced.gross,
+       discount_amount: priced.discount,
+       promotion_id: priced.promotion?.id ?? null,
+       coupon_code: priced.promotion?.code ? normalizeCouponCode(couponCode) : null,
        client_id: Number(data.client_id),
        professional_id: professionalId,
-       service_id: Number(data.service_id),
+       service_id: items[0].service_id,
        client_name: client.name,
        professional: professional.name,
-       service: service.name,
+       service: summarizeItems(items),
+       items,
        attended: data.attended ?? false,
+       status: editingAppointment?.status ?? 'scheduled',
      };
      try {
        if (editingAppointment) {
-         await updateAppointment({ ...editingAppointment, ...appointmentData });
-         showSuccess("Agendamento atualizado!");
+         const { saved, skipped } = await updateAppointmentSeries({ ...editingAppointment, ...appointmentData }, seriesScope);
+         showSuccess(saved.length > 1 ? `${saved.length} agendamentos atualizados!` : "Agendamento atualizado!");
+         if (skipped.length > 0) showWarning(`${skipped.length} ocorrência(s) não atualizada(s)`, describeSkipped(skipped));
+       } else if (recurrence) {
+         const { saved, skipped } = await addAppointmentSeries(appointmentData, recurrence, user.id);
+         showSuccess(`${saved.length} agendamentos criados!`);
+         if (skipped.length > 0) showWarning(`${skipped.length} ocorrência(s) não agendada(s)`, describeSkipped(skipped));
        } else {
          await addAppointment(appointmentData, user.id);
          showSuccess("Agendamento criado!");
        }
+       if (waitlistEntryToBook && !editingAppointment) await setWaitlistStatus(waitlistEntryToBook, 'booked');
        handleCloseModal();
      } catch (error) {
+       // O horário é reconfirmado no banco antes da gravação e pode ter sido ocupado entretanto
+       if (error instanceof AppointmentConflictError) {
+         setConflictError(error);
+         return;
+       }
        showError("Não foi possível salvar", "Verifique os dados e tente novamente.");
      }
   };
 
+  // Reagendamento pela grelha (arrastar ou redimensionar), com opção de desfazer
+  const handleAppointmentChange = async (appointment: AppointmentType, change: AppointmentChange) => {
+    const updated = { ...appointment, ...change };
+    const availability = checkAppointmentAvailability(availabilityContext, updated);
+    if (!availability.available) {
+      showError("Horário indisponível", describeUnavailability(availability.reason, availability.description));
+      return;
+    }
+    try {
+      await updateAppointment(updated);
+      const professional = professionals.find(p => p.id === updated.professional_id);
+      showSuccess(
+        "Agendamento reagendado!",
+        `${moment(updated.appointment_date).format('DD/MM HH:mm')} - ${moment(updated.end_date).format('HH:mm')}${professional ? ` com ${professional.name}` : ''}`,
+        {
+          label: 'Desfazer',
+          onClick: async () => {
+            try {
+              await updateAppointment(appointment);
+              showSuccess("Alteração desfeita!");
+            } catch (error) {
+              showError("Não foi possível desfazer", error instanceof AppointmentConflictError ? error.message : undefined);
+            }
+          },
+        }
+      );
+    } catch (error) {
+      showError("Não foi possível reagendar", error instanceof AppointmentConflictError ? error.message : "Verifique os dados e tente novamente.");
+    }
+  };
+
   const handleDeleteClick = (appointment: AppointmentType) => {
     setAppointmentToDelete(appointment);
     setIsDeleteModalOpen(true);
@@ -253,10 +613,12 @@ export default function Appointments() {
   const handleDeleteConfirm = async () => {
     if (!user || !appointmentToDelete) return;
     try {
-      await deleteAppointment(appointmentToDelete.id!);
-      showSuccess("Agendamento removido!");
+      await deleteAppointmentSeries(appointmentToDelete, seriesScope);
+      showSuccess(seriesScope === 'this' ? "Agendamento removido!" : "Agendamentos da série removidos!");
+      notifyWaitlistMatches(matchedWaitlistCount);
       setIsDeleteModalOpen(false);
       setAppointmentToDelete(null);
+      if (editingAppointment?.id === appointmentToDelete.id) handleCloseModal();
     } catch (err: any) {
       showError("Falha ao remover agendamento.");
     }
@@ -293,14 +655,7 @@ export default function Appointments() {
     </div>
   );
 
-  const serviceOptionTemplate = (option: ServiceType) => (
-    <div className="flex items-center">
-        <Scissors className="w-4 h-4 mr-2 text-gray-400" />
-        <span>{option.name}</span>
-    </div>
-  );
-
-  if (loading.clients || loading.professionals || loading.services || loading.appointments) {
+  if (loading.clients || loading.professionals || loading.services || loading.appointments || loading.professionalSchedules || loading.professionalExceptions || loading.businessHours || loading.businessExceptions) {
     return <Layout><LoadingSpinner /></Layout>;
   }
 
@@ -313,6 +668,20 @@ export default function Appointments() {
             <p className="mt-2 text-gray-600">Visualize e gerencie os seus agendamentos</p>
           </div>
           <div className="mt-4 sm:mt-0 flex items-center space-x-3">
+             <div className="inline-flex rounded-md shadow-sm border border-gray-300 overflow-hidden">
+               {VIEW_OPTIONS.map(option => (
+                 <button
+                   key={option.value}
+                   type="button"
+                   onClick={() => setView(option.value)}
+                   title={option.label}
+                   className={`inline-flex items-center px-3 py-2 text-sm font-medium ${view === option.value ? 'bg-pink-50 text-pink-700' : 'bg-white text-gray-700 hover:bg-gray-50'}`}
+                 >
+                   <option.icon className="w-4 h-4 sm:mr-1" />
+                   <span className="hidden sm:inline">{option.label}</span>
+                 </button>
+               ))}
+             </div>
              <Dropdown
                 value={professionalOptions.find(p => p.id === selectedProfessionalId) || professionalOptions[0]}
                 options={professionalOptions} 
@@ -335,6 +704,21 @@ export default function Appointments() {
                 inputClassName="hidden" 
              />
 
+            <button
+              type="button"
+              onClick={() => handleOpenWaitlist()}
+              title="Lista de espera"
+              className="relative inline-flex items-center px-3 py-2 text-sm font-medium rounded-md border border-gray-300 bg-white text-gray-700 shadow-sm hover:bg-gray-50"
+            >
+              <Hourglass className="w-4 h-4 sm:mr-1" />
+              <span className="hidden sm:inline">Lista de espera</span>
+              {matchedWaitlistCount > 0 && (
+                <span className="absolute -top-2 -right-2 inline-flex items-center justify-center w-5 h-5 text-xs font-bold text-white bg-amber-500 rounded-full">
+                  {matchedWaitlistCount}
+                </span>
+              )}
+            </button>
+
             <button
               type="button"
               onClick={() => handleOpenModal()}
@@ -362,6 +746,29 @@ export default function Appointments() {
                  <button onClick={() => handleDayNavigation('next')} className="p-2 rounded-full hover:bg-gray-100 transition-colors"><ChevronRight className="w-5 h-5"/></button>
               </div>
 
+              {view !== 'list' ? (
+                <div className="p-2 sm:p-4">
+                  {calendarColumns.length === 0 ? (
+                    <div className="text-center py-20">
+                      <User className="mx-auto h-12 w-12 text-gray-300" />
+                      <h3 className="mt-2 text-sm font-medium text-gray-900">Nenhum profissional</h3>
+                      <p className="mt-1 text-sm text-gray-500">Cadastre profissionais para ver a agenda da equipa.</p>
+                    </div>
+                  ) : (
+                    <CalendarGrid
+                      columns={calendarColumns}
+                      appointments={appointments}
+                      professionals={professionals}
+                      services={services}
+                      clients={clients}
+                      availabilityContext={availabilityContext}
+                      onAppointmentClick={(app) => handleOpenModal(app)}
+                      onSlotClick={(date, professionalId) => handleOpenModal(undefined, date, professionalId)}
+                      onAppointmentChange={handleAppointmentChange}
+                    />
+                  )}
+                </div>
+              ) : (
               <div className="p-4 sm:p-6">
                 {Object.keys(groupedAppointments).length === 0 ? (
                   <div className="text-center py-20">
@@ -391,18 +798,23 @@ export default function Appointments() {
                                 return (
                                 <div 
                                     key={app.id} 
-                                    className="bg-gray-50 p-3 rounded-lg border-l-4 cursor-pointer hover:bg-gray-100 transition-colors"
+                                    className={`bg-gray-50 p-3 rounded-lg border-l-4 cursor-pointer hover:bg-gray-100 transition-colors ${occupiesSlot(app.status) ? '' : 'opacity-60'}`}
                                     style={{ borderLeftColor: professional?.color || '#a855f7' }}
                                     onClick={() => handleOpenModal(app)}
                                 >
                                     <div className="flex justify-between items-start">
                                         <div>
-                                          <p className="font-semibold text-gray-800">{service?.name || 'Serviço não encontrado'}</p>
+                                          <p className="font-semibold text-gray-800 flex items-center">
+                                            {app.items && app.items.length > 1 ? summarizeItems(app.items) : service?.name || 'Serviço não encontrado'}
+                                            {app.series_id && <Repeat className="w-3 h-3 ml-1 text-gray-400" aria-label="Recorrente" />}
+                                            {app.source === 'online' && <Globe className="w-3 h-3 ml-1 text-blue-500" aria-label="Agendamento online" />}
+                                          </p>
                                           <p className="text-sm text-gray-600">{client?.name || 'Cliente não encontrado'}</p>
                                           <p className="text-xs text-gray-500 mt-1">com {professional?.name || 'Profissional não encontrado'}</p>
                                         </div>
                                         <div className="text-right flex-shrink-0 ml-4">
                                           <p className="text-sm font-medium text-gray-800">{moment(app.end_date).diff(moment(app.appointment_date), 'minutes')} min</p>
+                                          <AppointmentStatusBadge status={app.status} className="mt-1" />
                                         </div>
                                     </div>
                                 </div>
@@ -415,6 +827,7 @@ export default function Appointments() {
                   </div>
                 )}
               </div>
+              )}
             </div>
           </div>
         </div>
@@ -446,6 +859,33 @@ export default function Appointments() {
                             </button>
                           </div>
                           {errors.client_id && <p className="mt-1 text-sm text-red-600">{errors.client_id.message}</p>}
+                          {clientPoints !== null && (
+                            <p className="mt-1 flex items-center text-xs text-violet-600">
+                              <Gift className="w-3.5 h-3.5 mr-1" />
+                              Fidelidade: {clientPoints} pontos
+                              {rewardsInReach > 0 && ` · ${rewardsInReach} prêmio(s) para resgatar na ficha do cliente`}
+                            </p>
+                          )}
+                          {openPackages.map(pkg => (
+                            <p key={pkg.id} className="mt-1 flex items-center text-xs text-violet-600">
+                              <Layers className="w-3.5 h-3.5 mr-1" />
+                              {pkg.package_name}: {remainingSessions(pkg)} de {pkg.sessions_total} sessões
+                              {pkg.expires_at && ` · válido até ${moment(pkg.expires_at).format('DD/MM/YYYY')}`}
+                            </p>
+                          ))}
+                          {prepaidLines > 0 && (
+                            <p className="mt-1 text-xs text-gray-500">{prepaidLines} serviço(s) serão pagos com o pacote ao concluir o atendimento.</p>
+                          )}
+                          {activeMemberships.map(membership => (
+                            <p key={membership.id} className="mt-1 flex items-center text-xs text-violet-600">
+                              <CreditCard className="w-3.5 h-3.5 mr-1" />
+                              Assinatura {membership.plan_name}: {usesInPeriod(membership, packageDate, editingAppointment?.id)}
+                              {membership.usage_limit ? ` de ${membership.usage_limit}` : ''} uso(s) no ciclo
+                            </p>
+                          ))}
+                          {includedLines > 0 && (
+                            <p className="mt-1 text-xs text-gray-500">{includedLines} serviço(s) incluído(s) na assinatura serão gravados sem custo.</p>
+                          )}
                         </div>
 
                         <div>
@@ -453,34 +893,40 @@ export default function Appointments() {
                           <Dropdown value={professionals.find(p => p.id === watchedProfessionalId) || null} options={professionals} onChange={(e) => setValue('professional_id', e.value?.id)} optionLabel="name" placeholder="Selecione um profissional" valueTemplate={selectedProfessionalTemplate} itemTemplate={professionalOptionTemplate} className="w-full" />
                           {errors.professional_id && <p className="mt-1 text-sm text-red-600">{errors.professional_id.message}</p>}
                         </div>
+                        <Controller
+                            name="items"
+                            control={control}
+                            render={({ field }) => (
+                                <ServiceItemsFields
+                                    value={field.value}
+                                    onChange={field.onChange}
+                                    services={services}
+                                    professionals={professionals.filter(p => p.id !== watchedProfessionalId)}
+                                    error={errors.items?.message ?? errors.items?.root?.message}
+                                    itemErrors={Array.isArray(errors.items) ? errors.items : undefined}
+                                />
+                            )}
+                        />
+
                         <div>
-                          <label className="block text-sm font-medium text-gray-700 mb-1">Serviço *</label>
-                          <Dropdown value={services.find(s => s.id === watchedServiceId) || null} options={services} onChange={(e) => setValue('service_id', e.value?.id)} optionLabel="name" placeholder="Selecione um serviço" itemTemplate={serviceOptionTemplate} className="w-full" filter />
-                           {errors.service_id && <p className="mt-1 text-sm text-red-600">{errors.service_id.message}</p>}
-                        </div>
-                       
-                        <div>
-                          <label htmlFor="price" className="block text-sm font-medium text-gray-700">Preço (R$) *</label>
-                          <Controller
-                              name="price"
-                              control={control}
-                              rules={{ required: 'O preço é obrigatório.' }}
-                              render={({ field, fieldState }) => (
-                                  <InputNumber
-                                      id={field.name}
-                                      ref={field.ref}
-                                      value={field.value}
-                                      onBlur={field.onBlur}
-                                      onValueChange={(e) => field.onChange(e.value)}
-                                      mode="currency"
-                                      currency="BRL"
-                                      locale="pt-BR"
-                                      placeholder="R$ 50,00"
-                                      className={`w-full ${fieldState.error ? 'p-invalid' : ''}`}
-                                  />
-                              )}
+                          <label htmlFor="coupon_code" className="flex items-center text-sm font-medium text-gray-700 mb-1">
+                            <Tag className="w-4 h-4 mr-1" /> Cupom
+                          </label>
+                          <input
+                            id="coupon_code"
+                            type="text"
+                            value={couponCode}
+                            onChange={(e) => setCouponCode(e.target.value)}
+                            onKeyDown={(e) => { if (e.key === 'Enter') e.preventDefault(); }}
+                            placeholder="Opcional"
+                            className="w-40 font-mono uppercase border-gray-300 rounded-md shadow-sm focus:ring-pink-500 focus:border-pink-500 sm:text-sm"
                           />
-                          {errors.price && <p className="mt-1 text-sm text-red-600">{errors.price.message}</p>}
+                          {pricing.couponError && <p className="mt-1 text-sm text-red-600">{pricing.couponError}</p>}
+                          {pricing.promotion && (
+                            <p className="mt-1 text-xs text-violet-600">
+                              {pricing.promotion.name}: -{formatCurrency(pricing.discount)} · Total com desconto {formatCurrency(pricing.net)}
+                            </p>
+                          )}
                         </div>
                        
                        <div>
@@ -516,18 +962,119 @@ export default function Appointments() {
                               render={({ field }) => (
                                   <TimeSlotPicker
                                       selectedDate={field.value}
-                                      appointments={appointments}
+                                      appointments={availabilityContext.appointments}
                                       professional={selectedProfessional}
+                                      schedules={professionalSchedules}
+                                      businessHours={businessHours}
+                                      businessExceptions={businessExceptions}
+                                      professionalExceptions={professionalExceptions}
                                       serviceDuration={serviceDuration}
+                                      ignoreAppointmentId={editingAppointment?.id}
                                       value={field.value}
                                       onChange={(newTimeValue: Date) => {
                                         field.onChange(newTimeValue);
                                       }}
+                                      onJoinWaitlist={!editingAppointment ? handleJoinWaitlist : undefined}
                                   />
                               )}
                           />
                           {errors.appointment_date && <p className="mt-1 text-sm text-red-600">{errors.appointment_date.message}</p>}
                         </div>
+
+                        {!editingAppointment && (
+                          <Controller
+                              name="recurrence"
+                              control={control}
+                              render={({ field }) => (
+                                  <RecurrenceFields
+                                      value={field.value}
+                                      onChange={field.onChange}
+                                      startDate={watchedStartDate || new Date()}
+                                      errors={errors.recurrence}
+                                  />
+                              )}
+                          />
+                        )}
+
+                        {editingAppointment && (
+                          <div>
+                            <div className="flex items-center justify-between mb-2">
+                              <span className="text-sm font-medium text-gray-700">Status</span>
+                              <div className="flex items-center gap-2">
+                                <button type="button" onClick={handleCopyManageLink} className="inline-flex items-center text-xs text-pink-600 hover:text-pink-700">
+                                  <Link2 className="w-3 h-3 mr-1" /> Link do cliente
+                                </button>
+                                <AppointmentStatusBadge status={editingAppointment.status} />
+                              </div>
+                            </div>
+                            <AppointmentStatusActions status={editingAppointment.status} onChange={handleStatusChange} />
+                            {statusHistory.length > 0 && (
+                              <ul className="mt-3 space-y-1 text-xs text-gray-500">
+                                {statusHistory.map((change) => (
+                                  <li key={change.id}>
+                                    {moment(change.changed_at).format('DD/MM/YYYY HH:mm')} · {STATUS_LABELS[change.to_status]}
+                                    {change.reason && <span className="text-gray-400"> — {change.reason}</span>}
+                                  </li>
+                                ))}
+                              </ul>
+                            )}
+                            {notifications.length > 0 && (
+                              <div className="mt-3">
+                                <span className="text-sm font-medium text-gray-700">Lembretes</span>
+                                <ul className="mt-1 space-y-1 text-xs text-gray-500">
+                                  {notifications.map((notification) => (
+                                    <li key={notification.id}>
+                                      {moment(notification.sent_at ?? notification.created_at).format('DD/MM/YYYY HH:mm')} · {CHANNEL_LABELS[notification.channel]} · <span className={notification.status === 'failed' ? 'text-red-600' : notification.status === 'sent' ? 'text-green-700' : ''}>{NOTIFICATION_STATUS_LABELS[notification.status]}</span>
+                                      {notification.error && <span className="text-gray-400"> — {notification.error}</span>}
+                                    </li>
+                                  ))}
+                                </ul>
+                              </div>
+                            )}
+                          </div>
+                        )}
+
+                        {editingAppointment && user && (
+                          <GiftCardRedemptionPanel appointment={editingAppointment} userId={user.id} />
+                        )}
+
+                        {editingAppointment?.series_id && (
+                          <div>
+                            <label className="flex items-center text-sm font-medium text-gray-700 mb-1">
+                              <Repeat className="w-4 h-4 mr-1" /> Aplicar alterações a
+                            </label>
+                            <div className="flex flex-wrap gap-x-4 gap-y-2">
+                              {SERIES_SCOPE_OPTIONS.map(option => (
+                                <label key={option.value} className="flex items-center gap-2 text-sm text-gray-700">
+                                  <input
+                                    type="radio"
+                                    name="series_scope"
+                                    checked={seriesScope === option.value}
+                                    onChange={() => setSeriesScope(option.value)}
+                                    className="text-pink-600 focus:ring-pink-500"
+                                  />
+                                  {option.label}
+                                </label>
+                              ))}
+                            </div>
+                          </div>
+                        )}
+
+                        {conflictError && (
+                          <div className="flex items-start gap-3 p-3 rounded-md border border-red-200 bg-red-50">
+                            <AlertTriangle className="w-5 h-5 text-red-500 flex-shrink-0 mt-0.5" />
+                            <div className="text-sm">
+                              <p className="font-medium text-red-800">{conflictError.message}</p>
+                              {conflictError.conflict && (
+                                <p className="mt-1 text-red-700">
+                                  Conflito com: {conflictError.conflict.client_name ?? 'outro agendamento'}
+                                  {conflictError.conflict.service && ` · ${conflictError.conflict.service}`}
+                                  {` · ${moment(conflictError.conflict.appointment_date).format('DD/MM HH:mm')} - ${moment(conflictError.conflict.end_date).format('HH:mm')}`}
+                                </p>
+                              )}
+                            </div>
+                          </div>
+                        )}
                      </div>
                    </div>
                    <div className="bg-gray-50 px-4 py-3 sm:px-6 sm:flex sm:flex-row-reverse items-center">
@@ -553,6 +1100,13 @@ export default function Appointments() {
            </div>
         )}
 
+        <WaitlistPanel
+          isOpen={isWaitlistOpen}
+          onClose={() => setIsWaitlistOpen(false)}
+          draft={waitlistDraft}
+          onBook={handleBookFromWaitlist}
+        />
+
         <ClientFormModal
           isOpen={isClientModalOpen}
           onClose={() => setIsClientModalOpen(false)}
@@ -565,7 +1119,9 @@ export default function Appointments() {
           onClose={() => setIsDeleteModalOpen(false)}
           onConfirm={handleDeleteConfirm}
           title="Excluir Agendamento"
-          message={`Tem certeza que deseja excluir o agendamento para "${appointmentToDelete?.client_name}"?`}
+          message={appointmentToDelete?.series_id && seriesScope !== 'this'
+            ? `Tem certeza que deseja excluir ${seriesScope === 'all' ? 'todos os agendamentos' : 'este e os próximos agendamentos'} da série de "${appointmentToDelete.client_name}"?`
+            : `Tem certeza que deseja excluir o agendamento para "${appointmentToDelete?.client_name}"?`}
           confirmText="Excluir"
           cancelText="Cancelar"
           variant="danger"
@@ -0,0 +1,328 @@
+// src/react-app/pages/ClientProfile.tsx
+
+import { useState, useEffect, useMemo } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import moment from 'moment';
+import { useSupabaseAuth } from '../auth/SupabaseAuthProvider';
+import { useAppStore } from '../../shared/store';
+import Layout from '../components/Layout';
+import LoadingSpinner from '../components/LoadingSpinner';
+import ClientFormModal from '../components/ClientFormModal';
+import AppointmentStatusBadge from '../components/AppointmentStatusBadge';
+import ClientLoyaltyPanel from '../components/ClientLoyaltyPanel';
+import ClientPackagesPanel from '../components/ClientPackagesPanel';
+import ClientMembershipsPanel from '../components/ClientMembershipsPanel';
+import ClientPrivacyPanel from '../components/ClientPrivacyPanel';
+import { useToastHelpers } from '../contexts/ToastContext';
+import {
+  ArrowLeft, Edit, Phone, Mail, MessageCircle, DollarSign, Receipt, CalendarCheck, UserX, Clock,
+  Scissors, Users, StickyNote, Trash2, Plus, Cake, IdCard, MapPin, Heart, Megaphone,
+} from 'lucide-react';
+import type { AppointmentType, ClientNoteType } from '../../shared/types';
+import { splitByDate, summarizeClient } from '../../shared/clientProfile';
+import { formatCpf } from '../../shared/clients';
+import { formatCurrency } from '../utils';
+
+const formatDateTime = (date: string) => moment(date).format('DD/MM/YYYY [às] HH:mm');
+
+/**
+ * Ficha do cliente: contactos, indicadores, histórico completo de agendamentos,
+ * serviços e profissionais mais frequentes e a linha do tempo de notas.
+ */
+export default function ClientProfile() {
+  const { id } = useParams<{ id: string }>();
+  const clientId = Number(id);
+  const { user } = useSupabaseAuth();
+  const {
+    clients, appointments, financialEntries, professionals, loading,
+    fetchClients, fetchAppointments, fetchFinancialEntries, fetchProfessionals,
+    fetchClientNotes, addClientNote, deleteClientNote,
+  } = useAppStore();
+  const { showSuccess, showError } = useToastHelpers();
+
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [notes, setNotes] = useState<ClientNoteType[]>([]);
+  const [newNote, setNewNote] = useState('');
+  const [isSavingNote, setIsSavingNote] = useState(false);
+
+  useEffect(() => {
+    if (user) {
+      fetchClients(user.id);
+      fetchAppointments(user.id);
+      fetchFinancialEntries(user.id);
+      fetchProfessionals(user.id);
+    }
+  }, [user, fetchClients, fetchAppointments, fetchFinancialEntries, fetchProfessionals]);
+
+  useEffect(() => {
+    if (!clientId) return;
+    fetchClientNotes(clientId)
+      .then(setNotes)
+      .catch((error) => console.error('Erro ao buscar notas do cliente:', (error as Error).message));
+  }, [clientId, fetchClientNotes]);
+
+  const client = clients.find(c => c.id === clientId);
+  const clientAppointments = useMemo(() => appointments.filter(a => a.client_id === clientId), [appointments, clientId]);
+  const now = useMemo(() => moment().format('YYYY-MM-DD HH:mm:ss'), []);
+  const summary = useMemo(() => summarizeClient(clientAppointments, financialEntries, now), [clientAppointments, financialEntries, now]);
+  const { upcoming, past } = useMemo(() => splitByDate(clientAppointments, now), [clientAppointments, now]);
+  const professionalName = (professionalId: number) => professionals.find(p => p.id === professionalId)?.name ?? 'Profissional removido';
+
+  const handleAddNote = async () => {
+    if (!user || !newNote.trim()) return;
+    setIsSavingNote(true);
+    try {
+      const saved = await addClientNote(clientId, newNote.trim(), user.id);
+      setNotes(current => [saved, ...current]);
+      setNewNote('');
+    } catch (error) {
+      console.error('Erro ao salvar nota:', (error as Error).message);
+      showError('Erro ao salvar nota', 'Tente novamente.');
+    } finally {
+      setIsSavingNote(false);
+    }
+  };
+
+  const handleDeleteNote = async (noteId: number) => {
+    try {
+      await deleteClientNote(noteId);
+      setNotes(current => current.filter(n => n.id !== noteId));
+      showSuccess('Nota removida!');
+    } catch (error) {
+      console.error('Erro ao remover nota:', (error as Error).message);
+      showError('Erro ao remover nota', 'Tente novamente.');
+    }
+  };
+
+  const sendWhatsAppMessage = () => {
+    if (!client?.phone) return;
+    const message = `Olá, ${client.name}! Tudo bem?`;
+    const phoneNumber = client.phone.replace(/\D/g, '');
+    window.open(`https://wa.me/55${phoneNumber}?text=${encodeURIComponent(message)}`, '_blank');
+  };
+
+  if (loading.clients || loading.appointments) {
+    return <Layout><LoadingSpinner /></Layout>;
+  }
+
+  if (!client) {
+    return (
+      <Layout>
+        <div className="px-4 sm:px-6 lg:px-8 text-center py-12">
+          <Users className="mx-auto h-12 w-12 text-gray-400" />
+          <h3 className="mt-2 text-sm font-medium text-gray-900">Cliente não encontrado</h3>
+          <Link to="/clients" className="mt-4 inline-flex items-center text-sm font-medium text-pink-600 hover:text-pink-700">
+            <ArrowLeft className="w-4 h-4 mr-1" /> Voltar aos clientes
+          </Link>
+        </div>
+      </Layout>
+    );
+  }
+
+  const kpis = [
+    { label: 'Total gasto', value: formatCurrency(summary.totalSpent), icon: DollarSign, color: 'bg-green-100 text-green-600' },
+    { label: 'Ticket médio', value: formatCurrency(summary.averageTicket), icon: Receipt, color: 'bg-blue-100 text-blue-600' },
+    { label: 'Visitas', value: String(summary.visits), icon: CalendarCheck, color: 'bg-violet-100 text-violet-600' },
+    { label: 'Faltas', value: String(summary.noShows), icon: UserX, color: 'bg-red-100 text-red-600' },
+    { label: 'Última visita', value: summary.lastVisit ? moment(summary.lastVisit).format('DD/MM/YYYY') : '—', icon: Clock, color: 'bg-amber-100 text-amber-600' },
+  ];
+
+  const renderAppointment = (appointment: AppointmentType) => (
+    <li key={appointment.id} className="py-3 flex items-center justify-between gap-4">
+      <div className="min-w-0">
+        <p className="text-sm font-medium text-gray-900 truncate">{appointment.service}</p>
+        <p className="text-sm text-gray-500">{formatDateTime(appointment.appointment_date)} · {professionalName(appointment.professional_id)}</p>
+      </div>
+      <div className="flex items-center gap-3 flex-shrink-0">
+        <span className="text-sm text-gray-700">{formatCurrency(appointment.price)}</span>
+        <AppointmentStatusBadge status={appointment.status} />
+      </div>
+    </li>
+  );
+
+  return (
+    <Layout>
+      <div className="px-4 sm:px-6 lg:px-8 space-y-6">
+        <Link to="/clients" className="inline-flex items-center text-sm font-medium text-gray-500 hover:text-gray-700">
+          <ArrowLeft className="w-4 h-4 mr-1" /> Clientes
+        </Link>
+
+        <div className="sm:flex sm:items-start sm:justify-between">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900">{client.name}</h1>
+            <div className="mt-2 flex flex-wrap gap-4 text-sm text-gray-600">
+              {client.phone && <span className="flex items-center"><Phone className="w-4 h-4 mr-1.5" />{client.phone}</span>}
+              {client.email && <span className="flex items-center"><Mail className="w-4 h-4 mr-1.5" />{client.email}</span>}
+              {summary.nextAppointment && (
+                <span className="flex items-center text-violet-700"><CalendarCheck className="w-4 h-4 mr-1.5" />Próximo: {formatDateTime(summary.nextAppointment)}</span>
+              )}
+            </div>
+            <div className="mt-2 flex flex-wrap gap-4 text-sm text-gray-600">
+              {client.birthday && <span className="flex items-center"><Cake className="w-4 h-4 mr-1.5" />{moment(client.birthday).format('DD/MM/YYYY')}</span>}
+              {client.cpf && <span className="flex items-center"><IdCard className="w-4 h-4 mr-1.5" />{formatCpf(client.cpf)}</span>}
+              {client.address && <span className="flex items-center"><MapPin className="w-4 h-4 mr-1.5" />{client.address}</span>}
+              {client.preferred_professional_id && <span className="flex items-center"><Heart className="w-4 h-4 mr-1.5" />Prefere {professionalName(client.preferred_professional_id)}</span>}
+              <span className={`flex items-center ${client.marketing_consent ? 'text-green-700' : 'text-gray-400'}`}>
+                <Megaphone className="w-4 h-4 mr-1.5" />{client.marketing_consent ? 'Aceita marketing' : 'Sem consentimento de marketing'}
+              </span>
+            </div>
+            {(client.tags ?? []).length > 0 && (
+              <div className="mt-2 flex flex-wrap gap-1">
+                {client.tags!.map(tag => <span key={tag} className="px-2 py-0.5 text-xs rounded-full bg-violet-50 text-violet-700">{tag}</span>)}
+              </div>
+            )}
+            {client.technical_notes && (
+              <p className="mt-2 text-sm text-amber-800 bg-amber-50 rounded-md px-3 py-2 whitespace-pre-line">{client.technical_notes}</p>
+            )}
+            {client.notes && <p className="mt-2 text-sm text-gray-600 italic">"{client.notes}"</p>}
+          </div>
+          <div className="mt-4 sm:mt-0 flex items-center gap-3">
+            {client.phone && (
+              <button
+                onClick={sendWhatsAppMessage}
+                title="Enviar mensagem no WhatsApp"
+                className="inline-flex items-center justify-center p-2 border border-green-300 shadow-sm rounded-full text-green-700 bg-white hover:bg-green-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-green-500"
+              >
+                <MessageCircle className="w-5 h-5" />
+              </button>
+            )}
+            <button
+              onClick={() => setIsModalOpen(true)}
+              className="inline-flex items-center justify-center px-3 py-2 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-pink-500"
+            >
+              <Edit className="w-4 h-4 mr-1.5" />
+              Editar
+            </button>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 gap-4 sm:grid-cols-3 lg:grid-cols-5">
+          {kpis.map(kpi => (
+            <div key={kpi.label} className="bg-white overflow-hidden shadow-sm rounded-lg border border-gray-200 p-4">
+              <div className="flex items-center">
+                <div className={`rounded-md p-2 ${kpi.color}`}><kpi.icon className="h-5 w-5" /></div>
+                <dl className="ml-3 min-w-0">
+                  <dt className="text-xs font-medium text-gray-500 truncate">{kpi.label}</dt>
+                  <dd className="text-lg font-semibold text-gray-900">{kpi.value}</dd>
+                </dl>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <div className="grid gap-6 lg:grid-cols-3">
+          <div className="lg:col-span-2 space-y-6">
+            <div className="bg-white shadow-sm rounded-lg border border-gray-200">
+              <div className="px-6 py-4 border-b border-gray-200">
+                <h3 className="text-lg font-medium text-gray-900">Próximos agendamentos</h3>
+              </div>
+              <div className="px-6">
+                {upcoming.length === 0
+                  ? <p className="py-4 text-sm text-gray-500">Nenhum agendamento futuro.</p>
+                  : <ul className="divide-y divide-gray-200">{upcoming.map(renderAppointment)}</ul>}
+              </div>
+            </div>
+
+            <div className="bg-white shadow-sm rounded-lg border border-gray-200">
+              <div className="px-6 py-4 border-b border-gray-200">
+                <h3 className="text-lg font-medium text-gray-900">Histórico</h3>
+              </div>
+              <div className="px-6">
+                {past.length === 0
+                  ? <p className="py-4 text-sm text-gray-500">Ainda sem atendimentos.</p>
+                  : <ul className="divide-y divide-gray-200">{past.map(renderAppointment)}</ul>}
+              </div>
+            </div>
+          </div>
+
+          <div className="space-y-6">
+            <div className="bg-white shadow-sm rounded-lg border border-gray-200">
+              <div className="px-6 py-4 border-b border-gray-200 flex items-center">
+                <Scissors className="w-5 h-5 text-gray-500 mr-2" />
+                <h3 className="text-lg font-medium text-gray-900">Serviços</h3>
+              </div>
+              <ul className="px-6 py-3 space-y-2">
+                {summary.services.length === 0 && <li className="text-sm text-gray-500">Nenhum serviço concluído.</li>}
+                {summary.services.map(({ key, count }) => (
+                  <li key={key} className="flex justify-between text-sm"><span className="text-gray-700">{key}</span><span className="text-gray-500">{count}x</span></li>
+                ))}
+              </ul>
+            </div>
+
+            <div className="bg-white shadow-sm rounded-lg border border-gray-200">
+              <div className="px-6 py-4 border-b border-gray-200 flex items-center">
+                <Users className="w-5 h-5 text-gray-500 mr-2" />
+                <h3 className="text-lg font-medium text-gray-900">Profissionais</h3>
+              </div>
+              <ul className="px-6 py-3 space-y-2">
+                {summary.professionals.length === 0 && <li className="text-sm text-gray-500">Nenhum atendimento concluído.</li>}
+                {summary.professionals.map(({ key, count }) => (
+                  <li key={key} className="flex justify-between text-sm"><span className="text-gray-700">{professionalName(key)}</span><span className="text-gray-500">{count}x</span></li>
+                ))}
+              </ul>
+            </div>
+
+            <div className="bg-white shadow-sm rounded-lg border border-gray-200">
+              <div className="px-6 py-4 border-b border-gray-200 flex items-center">
+                <StickyNote className="w-5 h-5 text-gray-500 mr-2" />
+                <h3 className="text-lg font-medium text-gray-900">Notas</h3>
+              </div>
+              <div className="px-6 py-4 space-y-4">
+                <div>
+                  <textarea
+                    rows={3}
+                    value={newNote}
+                    onChange={(e) => setNewNote(e.target.value)}
+                    placeholder="Ex: Prefere água sem gás; alergia a amônia."
+                    className="block w-full border-gray-300 rounded-md shadow-sm focus:ring-pink-500 focus:border-pink-500 sm:text-sm"
+                  />
+                  <div className="mt-2 flex justify-end">
+                    <button
+                      type="button"
+                      onClick={handleAddNote}
+                      disabled={isSavingNote || !newNote.trim()}
+                      className="inline-flex items-center px-3 py-1.5 border border-transparent text-sm font-medium rounded-md text-white bg-gradient-to-r from-pink-500 to-violet-500 hover:from-pink-600 hover:to-violet-600 disabled:opacity-50"
+                    >
+                      <Plus className="w-4 h-4 mr-1" />
+                      {isSavingNote ? 'Salvando...' : 'Adicionar nota'}
+                    </button>
+                  </div>
+                </div>
+                <ol className="relative border-l border-gray-200 ml-1 space-y-4">
+                  {notes.map(note => (
+                    <li key={note.id} className="ml-4">
+                      <div className="absolute -left-1.5 mt-1.5 w-3 h-3 rounded-full bg-violet-300 border border-white" />
+                      <div className="flex items-start justify-between gap-2">
+                        <time className="text-xs text-gray-500">{note.created_at ? moment(note.created_at).format('DD/MM/YYYY HH:mm') : ''}</time>
+                        <button onClick={() => handleDeleteNote(note.id!)} title="Remover nota" className="text-gray-400 hover:text-red-600">
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </div>
+                      <p className="text-sm text-gray-700 whitespace-pre-line">{note.note}</p>
+                    </li>
+                  ))}
+                </ol>
+                {notes.length === 0 && <p className="text-sm text-gray-500">Nenhuma nota registrada.</p>}
+              </div>
+            </div>
+
+            <ClientMembershipsPanel client={client} />
+
+            <ClientPackagesPanel client={client} />
+
+            <ClientLoyaltyPanel client={client} />
+
+            <ClientPrivacyPanel client={client} onAnonymized={() => setNotes([])} />
+          </div>
+        </div>
+
+        <ClientFormModal
+          isOpen={isModalOpen}
+          onClose={() => setIsModalOpen(false)}
+          editingClient={client}
+          onClientCreated={() => {}}
+        />
+      </div>
+    </Layout>
+  );
+}
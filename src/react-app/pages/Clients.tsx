@@ -1,6 +1,7 @@
 // src/react-app/pages/Clients.tsx
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
+import { Link } from 'react-router-dom';
 // O useForm e o Zod não são mais necessários aqui, pois o modal cuidará disso.
 import { useSupabaseAuth } from '../auth/SupabaseAuthProvider';
 import { useAppStore } from '../../shared/store';
@@ -8,10 +9,24 @@ import Layout from '../components/Layout';
 import LoadingSpinner from '../components/LoadingSpinner';
 import ConfirmationModal from '../components/ConfirmationModal';
 import { useToastHelpers } from '../contexts/ToastContext';
-import { Users, Plus, Edit, Trash2, Phone, Mail, MessageCircle } from 'lucide-react';
+import { Users, Plus, Edit, Trash2, Phone, Mail, MessageCircle, Eye, Search, Cake, Tag, GitMerge, Upload } from 'lucide-react';
+import { Dropdown } from 'primereact/dropdown';
 import type { ClientType } from '../../shared/types';
+import { birthdayMonth, collectTags, filterClients } from '../../shared/clients';
+import type { ClientFilters } from '../../shared/clients';
+import { isAnonymized } from '../../shared/lgpd';
 // Importamos o nosso novo modal
 import ClientFormModal from '../components/ClientFormModal';
+import ClientDuplicatesModal from '../components/ClientDuplicatesModal';
+import ImportWizardModal from '../components/ImportWizardModal';
+
+const MONTH_OPTIONS = ['Janeiro', 'Fevereiro', 'Março', 'Abril', 'Maio', 'Junho', 'Julho', 'Agosto', 'Setembro', 'Outubro', 'Novembro', 'Dezembro']
+  .map((label, index) => ({ label, value: index + 1 }));
+
+const CONSENT_OPTIONS = [
+  { label: 'Aceita marketing', value: true },
+  { label: 'Não aceita marketing', value: false },
+];
 
 /**
  * Página para gerir os clientes (Criar, Ler, Atualizar, Apagar).
@@ -20,8 +35,10 @@ export default function Clients() {
   const { user } = useSupabaseAuth();
   const { 
     clients, 
+    professionals,
     loading, 
     fetchClients, 
+    fetchProfessionals,
     deleteClient // A lógica de add/update agora está no modal
   } = useAppStore();
   const { showSuccess, showError } = useToastHelpers();
@@ -31,14 +48,26 @@ export default function Clients() {
   const [isDeleteModalOpen, setIsDeleteModalOpen] = useState(false);
   const [clientToDelete, setClientToDelete] = useState<ClientType | null>(null);
   const [isDeleting, setIsDeleting] = useState(false);
+  const [filters, setFilters] = useState<ClientFilters>({});
+  const [isDuplicatesOpen, setIsDuplicatesOpen] = useState(false);
+  const [isImportOpen, setIsImportOpen] = useState(false);
 
   // A lógica do formulário (useForm, onSubmit) foi movida para o ClientFormModal.
 
   useEffect(() => {
     if (user) {
       fetchClients(user.id);
+      fetchProfessionals(user.id);
     }
-  }, [user, fetchClients]);
+  }, [user, fetchClients, fetchProfessionals]);
+
+  const tagOptions = useMemo(() => collectTags(clients), [clients]);
+  const filteredClients = useMemo(() => filterClients(clients, filters), [clients, filters]);
+  const hasFilters = Object.values(filters).some(value => value != null && value !== '');
+  const currentMonth = new Date().getMonth() + 1;
+
+  const updateFilter = <K extends keyof ClientFilters>(key: K, value: ClientFilters[K]) =>
+    setFilters(current => ({ ...current, [key]: value }));
 
 
   const handleDeleteClick = (client: ClientType) => {
@@ -105,7 +134,23 @@ export default function Clients() {
             <h1 className="text-3xl font-bold text-gray-900">Clientes</h1>
             <p className="mt-2 text-gray-600">Gerencie a sua base de clientes</p>
           </div>
-          <div className="mt-4 sm:mt-0 sm:ml-16 sm:flex-none">
+          <div className="mt-4 sm:mt-0 sm:ml-16 sm:flex-none flex gap-3">
+            <button
+              type="button"
+              onClick={() => setIsImportOpen(true)}
+              className="inline-flex items-center justify-center rounded-md border border-gray-300 bg-white px-4 py-2 text-sm font-medium text-gray-700 shadow-sm hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-pink-500 focus:ring-offset-2"
+            >
+              <Upload className="w-4 h-4 mr-2" />
+              Importar
+            </button>
+            <button
+              type="button"
+              onClick={() => setIsDuplicatesOpen(true)}
+              className="inline-flex items-center justify-center rounded-md border border-gray-300 bg-white px-4 py-2 text-sm font-medium text-gray-700 shadow-sm hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-pink-500 focus:ring-offset-2"
+            >
+              <GitMerge className="w-4 h-4 mr-2" />
+              Duplicados
+            </button>
             <button
               type="button"
               onClick={handleNewClient}
@@ -117,7 +162,69 @@ export default function Clients() {
           </div>
         </div>
 
+        {clients.length > 0 && (
+          <div className="mt-6 flex flex-wrap items-center gap-3">
+            <div className="relative flex-grow sm:flex-grow-0 sm:w-72">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400" />
+              <input
+                type="search"
+                value={filters.search ?? ''}
+                onChange={(e) => updateFilter('search', e.target.value)}
+                placeholder="Nome, telefone, e-mail, CPF ou etiqueta"
+                className="block w-full pl-9 border-gray-300 rounded-md shadow-sm focus:ring-pink-500 focus:border-pink-500 sm:text-sm"
+              />
+            </div>
+            <Dropdown
+              value={filters.tag ?? null}
+              options={tagOptions}
+              onChange={(e) => updateFilter('tag', e.value ?? null)}
+              placeholder="Etiqueta"
+              showClear
+              className="w-40"
+            />
+            <Dropdown
+              value={filters.preferredProfessionalId ?? null}
+              options={professionals}
+              onChange={(e) => updateFilter('preferredProfessionalId', e.value ?? null)}
+              optionLabel="name"
+              optionValue="id"
+              placeholder="Profissional preferido"
+              showClear
+              className="w-52"
+            />
+            <Dropdown
+              value={filters.birthdayMonth ?? null}
+              options={MONTH_OPTIONS}
+              onChange={(e) => updateFilter('birthdayMonth', e.value ?? null)}
+              placeholder="Aniversário"
+              showClear
+              className="w-40"
+            />
+            <Dropdown
+              value={filters.marketingConsent ?? null}
+              options={CONSENT_OPTIONS}
+              onChange={(e) => updateFilter('marketingConsent', e.value ?? null)}
+              placeholder="Marketing"
+              showClear
+              className="w-48"
+            />
+            {hasFilters && (
+              <button type="button" onClick={() => setFilters({})} className="text-sm font-medium text-pink-600 hover:text-pink-700">
+                Limpar filtros
+              </button>
+            )}
+            <span className="ml-auto text-sm text-gray-500">{filteredClients.length} de {clients.length} clientes</span>
+          </div>
+        )}
+
         <div className="mt-8">
+          {clients.length > 0 && filteredClients.length === 0 && (
+            <div className="text-center py-12">
+              <Search className="mx-auto h-12 w-12 text-gray-400" />
+              <h3 className="mt-2 text-sm font-medium text-gray-900">Nenhum cliente encontrado</h3>
+              <p className="mt-1 text-sm text-gray-500">Ajuste a pesquisa ou os filtros.</p>
+            </div>
+          )}
           {clients.length === 0 ? (
             <div className="text-center py-12">
               <Users className="mx-auto h-12 w-12 text-gray-400" />
@@ -138,7 +245,7 @@ export default function Clients() {
             </div>
           ) : (
             <div className="grid gap-6 sm:grid-cols-1 lg:grid-cols-2 xl:grid-cols-3">
-              {clients.map((client) => (
+              {filteredClients.map((client) => (
                 <div
                   key={client.id}
                   className="bg-white overflow-hidden shadow-sm rounded-lg border border-gray-200 hover:shadow-md transition-shadow flex flex-col"
@@ -150,7 +257,8 @@ export default function Clients() {
                           <Users className="h-5 w-5 text-blue-600" />
                         </div>
                         <div>
-                          <h3 className="text-lg font-semibold text-gray-900">{client.name}</h3>
+                          <Link to={`/clients/${client.id}`} className="text-lg font-semibold text-gray-900 hover:text-pink-600">{client.name}</Link>
+                          {isAnonymized(client) && <p className="text-xs text-gray-400">Dados pessoais anonimizados</p>}
                         </div>
                       </div>
                     </div>
@@ -170,6 +278,22 @@ export default function Clients() {
                         </div>
                       )}
                       
+                      {client.birthday && (
+                        <div className={`flex items-center text-sm ${birthdayMonth(client.birthday) === currentMonth ? 'text-pink-600 font-medium' : 'text-gray-600'}`}>
+                          <Cake className="w-4 h-4 mr-2" />
+                          {client.birthday.slice(8, 10)}/{client.birthday.slice(5, 7)}
+                        </div>
+                      )}
+
+                      {(client.tags ?? []).length > 0 && (
+                        <div className="flex flex-wrap items-center gap-1">
+                          <Tag className="w-4 h-4 mr-1 text-gray-400" />
+                          {client.tags!.map(tag => (
+                            <span key={tag} className="px-2 py-0.5 text-xs rounded-full bg-violet-50 text-violet-700">{tag}</span>
+                          ))}
+                        </div>
+                      )}
+
                       {client.notes && (
                         <div className="text-sm text-gray-600 mt-2">
                           <p className="italic">"{client.notes}"</p>
@@ -195,6 +319,14 @@ export default function Clients() {
                         <Trash2 className="w-4 h-4 mr-1.5" />
                         Excluir
                       </button>
+
+                      <Link
+                        to={`/clients/${client.id}`}
+                        className="inline-flex items-center justify-center px-3 py-2 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-pink-500"
+                      >
+                        <Eye className="w-4 h-4 mr-1.5" />
+                        Ficha
+                      </Link>
                     </div>
                     
                     {client.phone && (
@@ -222,12 +354,16 @@ export default function Clients() {
           onClientCreated={() => {}} 
         />
 
+        <ClientDuplicatesModal isOpen={isDuplicatesOpen} onClose={() => setIsDuplicatesOpen(false)} />
+
+        <ImportWizardModal isOpen={isImportOpen} onClose={() => setIsImportOpen(false)} target="clients" />
+
         <ConfirmationModal
           isOpen={isDeleteModalOpen}
           onClose={handleDeleteCancel}
           onConfirm={handleDeleteConfirm}
           title="Excluir Cliente"
-          message={`Tem certeza que deseja excluir o cliente "${clientToDelete?.name}"? Esta ação não pode ser desfeita.`}
+          message={`Tem certeza que deseja excluir o cliente "${clientToDelete?.name}"? Os agendamentos do cliente também serão excluídos e esta ação não pode ser desfeita. Para apagar os dados pessoais mantendo o histórico, use "Anonimizar" na ficha do cliente.`}
           confirmText="Excluir"
           cancelText="Cancelar"
           variant="danger"
@@ -3,17 +3,23 @@ import { useSupabaseAuth } from '../auth/SupabaseAuthProvider';
 import { supabase } from '../supabaseClient';
 import Layout from '../components/Layout';
 import LoadingSpinner from '../components/LoadingSpinner';
-import { Calendar, DollarSign, TrendingUp, MessageCircle } from 'lucide-react';
-import type { AppointmentType } from '../../shared/types';
+import AppointmentStatusBadge from '../components/AppointmentStatusBadge';
+import AppointmentStatusActions from '../components/AppointmentStatusActions';
+import ClientChangesPanel from '../components/ClientChangesPanel';
+import { Calendar, DollarSign, TrendingUp, MessageCircle, UserX } from 'lucide-react';
+import type { AppointmentType, AppointmentStatus } from '../../shared/types';
 import moment from 'moment';
 import { useAppStore } from '../../shared/store';
 import { useToastHelpers } from '../contexts/ToastContext';
+import { computeStatusKpis, CANCELLED_STATUSES, STATUS_LABELS } from '../../shared/appointmentStatus';
 
 // --- Definição de Tipos para os dados do Dashboard ---
 interface DashboardKPIs {
   dailyEarnings: number;
   dailyAppointments: number;
   avgTicket: number;
+  noShowRate: number; // Últimos 30 dias, entre 0 e 1
+  noShows: number;
 }
 interface WeeklyEarning {
   entry_date: string;
@@ -26,7 +32,7 @@ interface WeeklyEarning {
 export default function Dashboard() {
   const { user } = useSupabaseAuth();
   // MODIFICADO: Adicionado 'fetchClients' para carregar os clientes.
-  const { clients, fetchClients } = useAppStore();
+  const { clients, fetchClients, changeAppointmentStatus } = useAppStore();
   const { showSuccess, showError } = useToastHelpers();
 
   // --- Estados do Componente ---
@@ -72,34 +78,46 @@ export default function Dashboard() {
   // --- Funções de Busca de Dados Específicas ---
 
   const fetchKPIs = async (): Promise<DashboardKPIs> => {
-    if (!user) return { dailyEarnings: 0, dailyAppointments: 0, avgTicket: 0 };
+    if (!user) return { dailyEarnings: 0, dailyAppointments: 0, avgTicket: 0, noShowRate: 0, noShows: 0 };
     const today = moment().format('YYYY-MM-DD');
     
-    // Calcula os ganhos com base nos agendamentos que foram marcados como 'attended'
-    const { data: attendedAppointments, error } = await supabase
+    // Calcula os ganhos com base nos agendamentos concluídos
+    const { data: completedAppointments, error } = await supabase
       .from('appointments')
       .select('price')
       .eq('user_id', user.id)
-      .eq('attended', true)
+      .eq('status', 'completed')
       .gte('appointment_date', `${today}T00:00:00`)
       .lt('appointment_date', `${today}T23:59:59`);
       
     if (error) throw error;
     
-    // Total de agendamentos do dia (independentemente de terem comparecido)
+    // Total de agendamentos do dia que não foram cancelados
     const { count: totalAppointmentsCount } = await supabase
         .from('appointments')
         .select('*', { count: 'exact', head: true })
         .eq('user_id', user.id)
+        .not('status', 'in', `(${CANCELLED_STATUSES.join(',')})`)
         .gte('appointment_date', `${today}T00:00:00`)
         .lt('appointment_date', `${today}T23:59:59`);
 
+    // Taxa de faltas dos últimos 30 dias
+    const thirtyDaysAgo = moment().subtract(30, 'days').format('YYYY-MM-DD');
+    const { data: recentStatuses, error: statusError } = await supabase
+      .from('appointments')
+      .select('status')
+      .eq('user_id', user.id)
+      .gte('appointment_date', `${thirtyDaysAgo}T00:00:00`)
+      .lt('appointment_date', `${today}T23:59:59`);
+
+    if (statusError) throw statusError;
 
     const dailyAppointments = totalAppointmentsCount || 0;
-    const dailyEarnings = attendedAppointments?.reduce((sum, app) => sum + app.price, 0) || 0;
+    const dailyEarnings = completedAppointments?.reduce((sum, app) => sum + app.price, 0) || 0;
     const avgTicket = dailyAppointments > 0 ? dailyEarnings / dailyAppointments : 0;
+    const { noShowRate, noShows } = computeStatusKpis(recentStatuses || []);
 
-    return { dailyEarnings, dailyAppointments, avgTicket };
+    return { dailyEarnings, dailyAppointments, avgTicket, noShowRate, noShows };
   };
 
   const fetchTodayAppointments = async (): Promise<AppointmentType[] | null> => {
@@ -107,7 +125,7 @@ export default function Dashboard() {
     const today = moment().format('YYYY-MM-DD');
     const { data, error } = await supabase
       .from('appointments')
-      .select('*')
+      .select('*, items:appointment_services(*)') // As linhas de serviço geram as receitas ao concluir
       .eq('user_id', user.id)
       .gte('appointment_date', `${today}T00:00:00`)
       .lt('appointment_date', `${today}T23:59:59`)
@@ -140,69 +158,17 @@ export default function Dashboard() {
   // --- Lógica de Negócio ---
 
   /**
-   * Lida com a mudança de status de presença de um agendamento.
-   * Cria ou remove a entrada financeira correspondente.
+   * Muda o status de um agendamento. A receita do atendimento é criada ou
+   * removida pela store ao entrar ou sair do status "Concluído".
    */
-  const handleAttendanceChange = async (appointment: AppointmentType, hasAttended: boolean) => {
-    if (!user) return;
-
-    // MODIFICADO: Usa a lista de clientes atual para obter o nome mais recente.
-    const clientName = clients.find(c => c.id === appointment.client_id)?.name || appointment.client_name;
-    
-    // 1. Atualiza o status de presença no agendamento
-    const { error: updateError } = await supabase
-      .from('appointments')
-      .update({ attended: hasAttended })
-      .eq('id', appointment.id!);
-      
-    if (updateError) {
-      showError('Erro ao atualizar presença', updateError.message);
-      return;
-    }
-
-    if (hasAttended) {
-      // 2a. Se o cliente compareceu, cria a entrada financeira
-      const { error: insertError } = await supabase
-        .from('financial_entries')
-        .insert({
-          user_id: user.id,
-          description: `Serviço: ${appointment.service} - Cliente: ${clientName}`,
-          amount: appointment.price,
-          type: 'receita',
-          entry_type: 'pontual',
-          entry_date: moment(appointment.appointment_date).format('YYYY-MM-DD'),
-          is_virtual: true, // Indica que foi gerado por um agendamento
-        });
-
-      if (insertError) {
-        showError('Erro ao criar receita', insertError.message);
-        // Desfaz a alteração de presença em caso de erro
-        await supabase.from('appointments').update({ attended: false }).eq('id', appointment.id!);
-        return;
-      }
-      showSuccess('Receita registrada!');
-
-    } else {
-      // 2b. Se o cliente não compareceu (desmarcou), remove a entrada financeira
-      // A condição `is_virtual` garante que só vamos apagar a entrada gerada por este fluxo
-      const { error: deleteError } = await supabase
-        .from('financial_entries')
-        .delete()
-        .eq('user_id', user.id)
-        .eq('description', `Serviço: ${appointment.service} - Cliente: ${clientName}`)
-        .eq('is_virtual', true);
-
-      if (deleteError) {
-        showError('Erro ao remover receita', deleteError.message);
-         // Desfaz a alteração de presença em caso de erro
-        await supabase.from('appointments').update({ attended: true }).eq('id', appointment.id!);
-        return;
-      }
-      showSuccess('Receita removida.');
+  const handleStatusChange = async (appointment: AppointmentType, status: AppointmentStatus, reason?: string) => {
+    try {
+      await changeAppointmentStatus(appointment, status, reason);
+      showSuccess(`Status alterado para "${STATUS_LABELS[status]}".`);
+      await fetchDashboardData();
+    } catch (error) {
+      showError('Erro ao alterar status', (error as Error).message);
     }
-    
-    // 3. Recarrega todos os dados do dashboard para refletir as mudanças
-    await fetchDashboardData();
   };
 
 
@@ -243,7 +209,9 @@ export default function Dashboard() {
           <p className="mt-2 text-gray-600">Acompanhe o desempenho do seu negócio</p>
         </div>
 
-        <div className="grid grid-cols-1 gap-5 sm:grid-cols-2 lg:grid-cols-3 mb-8">
+        {user && <ClientChangesPanel userId={user.id} />}
+
+        <div className="grid grid-cols-1 gap-5 sm:grid-cols-2 lg:grid-cols-4 mb-8">
           <div className="bg-white overflow-hidden shadow-sm rounded-lg border border-gray-200">
             <div className="p-5">
               <div className="flex items-center">
@@ -301,6 +269,28 @@ export default function Dashboard() {
               </div>
             </div>
           </div>
+          <div className="bg-white overflow-hidden shadow-sm rounded-lg border border-gray-200">
+            <div className="p-5">
+              <div className="flex items-center">
+                <div className="flex-shrink-0">
+                  <div className="bg-red-100 rounded-md p-3">
+                    <UserX className="h-6 w-6 text-red-600" />
+                  </div>
+                </div>
+                <div className="ml-5 w-0 flex-1">
+                  <dl>
+                    <dt className="text-sm font-medium text-gray-500 truncate">Taxa de Faltas (30 dias)</dt>
+                    <dd className="text-lg font-semibold text-gray-900">
+                      {kpis ? `${(kpis.noShowRate * 100).toFixed(1).replace('.', ',')}%` : '0%'}
+                      <span className="ml-2 text-xs font-normal text-gray-500">
+                        {kpis ? `${kpis.noShows} falta(s)` : ''}
+                      </span>
+                    </dd>
+                  </dl>
+                </div>
+              </div>
+            </div>
+          </div>
         </div>
 
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
@@ -317,24 +307,23 @@ export default function Dashboard() {
                 todayAppointments.map((appointment) => (
                   <div key={appointment.id} className="px-6 py-4 hover:bg-gray-50">
                     <div className="flex items-center justify-between">
-                      {/* Checkbox para marcar presença */}
-                      <div className="flex items-center">
-                        <input
-                          type="checkbox"
-                          id={`attended-${appointment.id}`}
-                          className="h-5 w-5 rounded border-gray-300 text-pink-600 focus:ring-pink-500"
-                          checked={appointment.attended}
-                          onChange={(e) => handleAttendanceChange(appointment, e.target.checked)}
-                        />
-                        <label htmlFor={`attended-${appointment.id}`} className="ml-3 flex-1">
+                      <div className="flex-1">
+                        <div className="flex items-center gap-2">
                           <p className="text-sm font-medium text-gray-900">
                             {/* MODIFICADO: Usa a lista de clientes atual para exibir o nome. */}
                             {formatTime(appointment.appointment_date)} - {clients.find(c => c.id === appointment.client_id)?.name || appointment.client_name}
                           </p>
-                          <p className="text-sm text-gray-600 mt-1">
-                            {appointment.service} • {appointment.professional} • {formatCurrency(appointment.price)}
-                          </p>
-                        </label>
+                          <AppointmentStatusBadge status={appointment.status} />
+                        </div>
+                        <p className="text-sm text-gray-600 mt-1">
+                          {appointment.service} • {appointment.professional} • {formatCurrency(appointment.price)}
+                        </p>
+                        <div className="mt-2">
+                          <AppointmentStatusActions
+                            status={appointment.status}
+                            onChange={(status, reason) => handleStatusChange(appointment, status, reason)}
+                          />
+                        </div>
                       </div>
                       
                       <button
@@ -6,6 +6,7 @@ import { supabase } from '../supabaseClient';
 import Layout from '../components/Layout';
 import LoadingSpinner from '../components/LoadingSpinner';
 import ConfirmationModal from '../components/ConfirmationModal';
+import DiscountReportPanel from '../components/DiscountReportPanel';
 import { useToastHelpers } from '../contexts/ToastContext';
 import {
   DollarSign,
@@ -378,6 +379,12 @@ export default function Financial() {
             <div className="bg-white overflow-hidden shadow-sm rounded-lg border border-gray-200 p-5"><div className="flex items-center"><div className="flex-shrink-0"><div className="bg-blue-100 rounded-md p-3"><DollarSign className="h-6 w-6 text-blue-600" /></div></div><div className="ml-5 w-0 flex-1"><dl><dt className="text-sm font-medium text-gray-500 truncate">Lucro Líquido</dt><dd className="text-lg font-semibold text-gray-900">{formatCurrency(kpis.netProfit)}</dd></dl></div></div></div>
         </div>
 
+        {user && (
+          <div className="mt-8">
+            <DiscountReportPanel userId={user.id} month={currentDate} />
+          </div>
+        )}
+
         <div className="mt-8">
             <div className="bg-white shadow-sm rounded-lg border border-gray-200">
                 <div className="px-4 sm:px-6 py-4 border-b border-gray-200">
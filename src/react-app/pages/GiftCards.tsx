@@ -0,0 +1,352 @@
+import { useState, useEffect, useMemo } from 'react';
+import { useForm, Controller } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import moment from 'moment';
+import jsPDF from 'jspdf';
+import { useSupabaseAuth } from '@/react-app/auth/SupabaseAuthProvider';
+import { useAppStore } from '@/shared/store';
+import Layout from '@/react-app/components/Layout';
+import LoadingSpinner from '@/react-app/components/LoadingSpinner';
+import { useToastHelpers } from '@/react-app/contexts/ToastContext';
+import { Ticket, Plus, X, Search, FileDown, ChevronDown, ChevronUp } from 'lucide-react';
+import type { GiftCardFormData, GiftCardType } from '@/shared/types';
+import { GiftCardFormSchema } from '@/shared/types';
+import { GIFT_CARD_TRANSACTION_LABELS, giftCardBalance, isGiftCardExpired, normalizeGiftCardCode } from '@/shared/giftCards';
+import { formatCurrency } from '@/react-app/utils';
+import { InputNumber } from 'primereact/inputnumber';
+import { Dropdown } from 'primereact/dropdown';
+
+// Valores padrão para o formulário (valor em reais; validade de um ano)
+const defaultFormValues = (): GiftCardFormData => ({
+  amount: 0,
+  client_id: null,
+  recipient_name: '',
+  message: '',
+  expires_at: moment().add(1, 'year').format('YYYY-MM-DD'),
+});
+
+/**
+ * Página para vender vales-presente, acompanhar o saldo e o extrato de cada vale e
+ * imprimir o vale em PDF. Os vales são usados no formulário do agendamento.
+ */
+export default function GiftCards() {
+  const { user } = useSupabaseAuth();
+  const { clients, giftCards, loading, fetchClients, fetchGiftCards, sellGiftCard } = useAppStore();
+  const { showSuccess, showError } = useToastHelpers();
+
+  const [searchTerm, setSearchTerm] = useState('');
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [expandedId, setExpandedId] = useState<number | null>(null);
+
+  const {
+    register,
+    handleSubmit,
+    reset,
+    control,
+    formState: { errors, isSubmitting },
+  } = useForm<GiftCardFormData>({
+    resolver: zodResolver(GiftCardFormSchema),
+    defaultValues: defaultFormValues(),
+  });
+
+  useEffect(() => {
+    if (user) {
+      fetchClients(user.id);
+      fetchGiftCards(user.id);
+    }
+  }, [user, fetchClients, fetchGiftCards]);
+
+  const today = moment().format('YYYY-MM-DD');
+  const clientNames = useMemo(() => new Map(clients.map(c => [c.id!, c.name])), [clients]);
+
+  const filteredCards = useMemo(() => {
+    if (!searchTerm) return giftCards;
+    const code = normalizeGiftCardCode(searchTerm);
+    const lowercasedTerm = searchTerm.toLowerCase();
+    return giftCards.filter(card =>
+      card.code.includes(code) ||
+      card.recipient_name?.toLowerCase().includes(lowercasedTerm) ||
+      (card.client_id && clientNames.get(card.client_id)?.toLowerCase().includes(lowercasedTerm))
+    );
+  }, [giftCards, searchTerm, clientNames]);
+
+  const handleDownloadPDF = (card: GiftCardType) => {
+    const doc = new jsPDF({ orientation: 'landscape', format: 'a5' });
+    const width = doc.internal.pageSize.getWidth();
+    doc.setFillColor(236, 72, 153);
+    doc.rect(0, 0, width, 28, 'F');
+    doc.setTextColor(255, 255, 255);
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(22);
+    doc.text('Vale-presente', width / 2, 18, { align: 'center' });
+
+    doc.setTextColor(31, 41, 55);
+    doc.setFontSize(30);
+    doc.text(formatCurrency(card.initial_amount), width / 2, 55, { align: 'center' });
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(12);
+    if (card.recipient_name) doc.text(`Para: ${card.recipient_name}`, width / 2, 68, { align: 'center' });
+    if (card.message) doc.text(doc.splitTextToSize(`"${card.message}"`, width - 40), width / 2, 78, { align: 'center' });
+
+    doc.setFont('courier', 'bold');
+    doc.setFontSize(20);
+    doc.text(card.code, width / 2, 110, { align: 'center' });
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(10);
+    doc.text(
+      card.expires_at ? `Válido até ${moment(card.expires_at).format('DD/MM/YYYY')}` : 'Sem prazo de validade',
+      width / 2, 120, { align: 'center' }
+    );
+
+    doc.save(`vale_presente_${card.code}.pdf`);
+  };
+
+  const onSubmit = async (formData: GiftCardFormData) => {
+    if (!user) return;
+    try {
+      const card = await sellGiftCard({ ...formData, amount: Math.round(Number(formData.amount) * 100) }, user.id);
+      showSuccess('Vale-presente vendido!', `Código ${card.code}`);
+      handleCloseModal();
+      handleDownloadPDF(card);
+    } catch (error) {
+      console.error('Erro ao vender vale-presente:', (error as Error).message);
+      showError('Erro ao vender vale-presente', 'Tente novamente ou contacte o suporte se o problema persistir.');
+    }
+  };
+
+  const handleCloseModal = () => {
+    setIsModalOpen(false);
+    reset(defaultFormValues());
+  };
+
+  if (loading.giftCards) {
+    return <Layout><LoadingSpinner /></Layout>;
+  }
+
+  return (
+    <Layout>
+      <div className="px-4 sm:px-6 lg:px-8">
+        <div className="sm:flex sm:items-center">
+          <div className="sm:flex-auto">
+            <h1 className="text-3xl font-bold text-gray-900">Vales-presente</h1>
+            <p className="mt-2 text-gray-600">Venda vales com código e use o saldo nos atendimentos</p>
+          </div>
+          <div className="mt-4 sm:mt-0 sm:ml-16 sm:flex-none">
+            <button
+              type="button"
+              onClick={() => setIsModalOpen(true)}
+              className="inline-flex items-center justify-center rounded-md border border-transparent bg-gradient-to-r from-pink-500 to-violet-500 px-4 py-2 text-sm font-medium text-white shadow-sm hover:from-pink-600 hover:to-violet-600 focus:outline-none focus:ring-2 focus:ring-pink-500 focus:ring-offset-2"
+            >
+              <Plus className="w-4 h-4 mr-2" />
+              Vender Vale
+            </button>
+          </div>
+        </div>
+
+        <div className="mt-6 relative w-full sm:max-w-xs">
+          <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+            <Search className="h-5 w-5 text-gray-400" />
+          </div>
+          <input
+            type="text"
+            placeholder="Buscar por código ou nome..."
+            value={searchTerm}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => setSearchTerm(e.target.value)}
+            className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-md shadow-sm focus:ring-pink-500 focus:border-pink-500"
+          />
+        </div>
+
+        <div className="mt-8">
+          {filteredCards.length === 0 ? (
+            <div className="text-center py-12">
+              <Ticket className="mx-auto h-12 w-12 text-gray-400" />
+              <h3 className="mt-2 text-sm font-medium text-gray-900">
+                {searchTerm ? 'Nenhum vale encontrado' : 'Nenhum vale-presente vendido'}
+              </h3>
+            </div>
+          ) : (
+            <div className="bg-white shadow-sm rounded-lg border border-gray-200">
+              <ul className="divide-y divide-gray-100">
+                {filteredCards.map(card => {
+                  const balance = giftCardBalance(card.transactions ?? []);
+                  const expired = isGiftCardExpired(card, today);
+                  const expanded = expandedId === card.id;
+                  return (
+                    <li key={card.id} className="px-6 py-3">
+                      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2">
+                        <div className="min-w-0">
+                          <p className="font-mono font-semibold text-gray-900">{card.code}</p>
+                          <p className="text-sm text-gray-500 truncate">
+                            {card.recipient_name ? `Para ${card.recipient_name}` : 'Sem destinatário'}
+                            {card.client_id && ` · comprado por ${clientNames.get(card.client_id) ?? 'cliente removido'}`}
+                            {' · '}
+                            {card.expires_at ? `${expired ? 'expirou' : 'válido até'} ${moment(card.expires_at).format('DD/MM/YYYY')}` : 'sem prazo'}
+                          </p>
+                        </div>
+                        <div className="flex items-center gap-3">
+                          <span className={`font-bold ${expired || balance === 0 ? 'text-gray-400' : 'text-green-600'}`}>
+                            {formatCurrency(balance)}
+                            <span className="ml-1 text-xs font-normal text-gray-500">de {formatCurrency(card.initial_amount)}</span>
+                          </span>
+                          <button
+                            type="button"
+                            onClick={() => handleDownloadPDF(card)}
+                            className="inline-flex items-center px-2 py-1 border border-gray-300 text-xs font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50"
+                          >
+                            <FileDown className="w-3.5 h-3.5 mr-1" />
+                            PDF
+                          </button>
+                          <button
+                            type="button"
+                            onClick={() => setExpandedId(expanded ? null : card.id!)}
+                            className="text-gray-400 hover:text-gray-600"
+                            title="Extrato"
+                          >
+                            {expanded ? <ChevronUp className="w-5 h-5" /> : <ChevronDown className="w-5 h-5" />}
+                          </button>
+                        </div>
+                      </div>
+                      {expanded && (
+                        <ul className="mt-2 text-sm divide-y divide-gray-100 border-t border-gray-100">
+                          {(card.transactions ?? []).map(transaction => (
+                            <li key={transaction.id} className="flex justify-between gap-2 py-1.5">
+                              <div className="min-w-0">
+                                <p className="text-gray-700 truncate">{transaction.description}</p>
+                                <p className="text-xs text-gray-400">{GIFT_CARD_TRANSACTION_LABELS[transaction.kind]} · {moment(transaction.created_at).format('DD/MM/YYYY HH:mm')}</p>
+                              </div>
+                              <span className={`font-medium ${transaction.amount > 0 ? 'text-green-600' : 'text-red-600'}`}>
+                                {transaction.amount > 0 ? '+' : '-'}{formatCurrency(Math.abs(transaction.amount))}
+                              </span>
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+                    </li>
+                  );
+                })}
+              </ul>
+            </div>
+          )}
+        </div>
+
+        {isModalOpen && (
+          <div className="fixed inset-0 z-50 overflow-y-auto">
+            <div className="flex items-end justify-center min-h-screen pt-4 px-4 pb-20 text-center sm:block sm:p-0">
+              <div className="fixed inset-0 bg-gray-500 bg-opacity-75 transition-opacity" onClick={handleCloseModal}></div>
+
+              <div className="inline-block align-bottom bg-white rounded-lg text-left overflow-hidden shadow-xl transform transition-all sm:my-8 sm:align-middle sm:max-w-lg sm:w-full">
+                <form onSubmit={handleSubmit(onSubmit)}>
+                  <div className="bg-white px-4 pt-5 pb-4 sm:p-6 sm:pb-4">
+                    <div className="flex items-center justify-between mb-4">
+                      <h3 className="text-lg font-medium text-gray-900">Vender Vale-presente</h3>
+                      <button type="button" onClick={handleCloseModal} className="text-gray-400 hover:text-gray-600">
+                        <X className="w-6 h-6" />
+                      </button>
+                    </div>
+
+                    <div className="space-y-4">
+                      <div className="grid grid-cols-2 gap-4">
+                        <div>
+                          <label htmlFor="amount" className="block text-sm font-medium text-gray-700">Valor (R$) *</label>
+                          <Controller
+                            name="amount"
+                            control={control}
+                            render={({ field, fieldState }) => (
+                              <InputNumber
+                                id={field.name}
+                                ref={field.ref}
+                                value={field.value}
+                                onBlur={field.onBlur}
+                                onValueChange={(e) => field.onChange(e.value)}
+                                mode="currency"
+                                currency="BRL"
+                                locale="pt-BR"
+                                className={`w-full ${fieldState.error ? 'p-invalid' : ''}`}
+                              />
+                            )}
+                          />
+                          {errors.amount && <p className="mt-1 text-sm text-red-600">{errors.amount.message}</p>}
+                        </div>
+
+                        <div>
+                          <label htmlFor="expires_at" className="block text-sm font-medium text-gray-700">Válido até</label>
+                          <input
+                            id="expires_at"
+                            type="date"
+                            min={today}
+                            {...register('expires_at', { setValueAs: (value) => value || null })}
+                            className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-pink-500 focus:border-pink-500 sm:text-sm"
+                          />
+                          <p className="mt-1 text-xs text-gray-500">Vazio: sem prazo.</p>
+                        </div>
+                      </div>
+
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">Comprado por</label>
+                        <Controller
+                          name="client_id"
+                          control={control}
+                          render={({ field }) => (
+                            <Dropdown
+                              value={field.value ?? null}
+                              options={clients.map(c => ({ label: c.name, value: c.id }))}
+                              onChange={(e) => field.onChange(e.value ?? null)}
+                              placeholder="Venda avulsa"
+                              className="w-full"
+                              filter
+                              showClear
+                            />
+                          )}
+                        />
+                      </div>
+
+                      <div>
+                        <label htmlFor="recipient_name" className="block text-sm font-medium text-gray-700">Para</label>
+                        <input
+                          id="recipient_name"
+                          type="text"
+                          {...register('recipient_name')}
+                          placeholder="Nome de quem vai receber o vale"
+                          className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-pink-500 focus:border-pink-500 sm:text-sm"
+                        />
+                        {errors.recipient_name && <p className="mt-1 text-sm text-red-600">{errors.recipient_name.message}</p>}
+                      </div>
+
+                      <div>
+                        <label htmlFor="message" className="block text-sm font-medium text-gray-700">Mensagem</label>
+                        <textarea
+                          id="message"
+                          {...register('message')}
+                          rows={2}
+                          className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-pink-500 focus:border-pink-500 sm:text-sm"
+                        />
+                        {errors.message && <p className="mt-1 text-sm text-red-600">{errors.message.message}</p>}
+                      </div>
+                    </div>
+                  </div>
+
+                  <div className="bg-gray-50 px-4 py-3 sm:px-6 sm:flex sm:flex-row-reverse">
+                    <button
+                      type="submit"
+                      disabled={isSubmitting}
+                      className="w-full inline-flex justify-center rounded-md border border-transparent shadow-sm px-4 py-2 bg-gradient-to-r from-pink-500 to-violet-500 text-base font-medium text-white hover:from-pink-600 hover:to-violet-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-pink-500 sm:ml-3 sm:w-auto sm:text-sm disabled:opacity-50"
+                    >
+                      {isSubmitting ? 'Registrando...' : 'Registrar Venda'}
+                    </button>
+                    <button
+                      type="button"
+                      onClick={handleCloseModal}
+                      className="mt-3 w-full inline-flex justify-center rounded-md border border-gray-300 shadow-sm px-4 py-2 bg-white text-base font-medium text-gray-700 hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-pink-500 sm:mt-0 sm:ml-3 sm:w-auto sm:text-sm"
+                    >
+                      Cancelar
+                    </button>
+                  </div>
+                </form>
+              </div>
+            </div>
+          </div>
+        )}
+      </div>
+    </Layout>
+  );
+}
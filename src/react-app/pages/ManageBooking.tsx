@@ -0,0 +1,282 @@
+// src/react-app/pages/ManageBooking.tsx
+
+import { useCallback, useEffect, useState } from 'react';
+import { useParams } from 'react-router-dom';
+import { Calendar } from 'primereact/calendar';
+import { SelectButton } from 'primereact/selectbutton';
+import moment from 'moment';
+import { Scissors, AlertCircle, CheckCircle, Calendar as CalendarIcon } from 'lucide-react';
+import LoadingSpinner from '../components/LoadingSpinner';
+import AppointmentStatusBadge from '../components/AppointmentStatusBadge';
+import type { AppointmentStatus } from '../../shared/types';
+
+// --- Definição de Tipos ---
+interface ManagedAppointment {
+  salon_name: string;
+  client_name: string;
+  service: string;
+  professional?: string;
+  appointment_date: string;
+  end_date: string;
+  status: AppointmentStatus;
+  can_confirm: boolean;
+  can_change: boolean;
+  change_blocked_reason: string | null;
+  change_deadline: string;
+  cancellation_policy: string | null;
+  first_date: string; // Janela de agendamento, para a remarcação
+  last_date: string;
+}
+
+type Mode = 'view' | 'reschedule' | 'cancel';
+
+const formatDateTime = (dateTime: string) => moment(dateTime).locale('pt-br').format('dddd, D [de] MMMM [às] HH:mm');
+
+// Lê o erro devolvido pelo Worker ({ error: string })
+const readError = async (response: Response) => {
+  const body = await response.json().catch(() => null);
+  return (body as { error?: string } | null)?.error ?? 'Ocorreu um erro. Tente novamente.';
+};
+
+/**
+ * Página pública (/manage/:token) onde o cliente vê o seu agendamento, confirma a
+ * presença (link enviado no lembrete) e, dentro da política de cancelamento do
+ * salão, o cancela ou escolhe um novo horário.
+ * O token é assinado e validado pelo Worker.
+ */
+export default function ManageBooking() {
+  const { token } = useParams<{ token: string }>();
+
+  // --- Estados do Componente ---
+  const [appointment, setAppointment] = useState<ManagedAppointment | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [mode, setMode] = useState<Mode>('view');
+  const [date, setDate] = useState<Date | null>(null);
+  const [slots, setSlots] = useState<string[]>([]);
+  const [loadingSlots, setLoadingSlots] = useState(false);
+  const [time, setTime] = useState<string | null>(null);
+  const [reason, setReason] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [actionError, setActionError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const day = date ? moment(date).format('YYYY-MM-DD') : null;
+
+  const loadAppointment = useCallback(async () => {
+    const response = await fetch(`/api/manage/${token}`).catch(() => null);
+    if (!response) {
+      setLoadError('Não foi possível contatar o salão. Verifique sua conexão.');
+    } else if (!response.ok) {
+      setLoadError(await readError(response));
+    } else {
+      setAppointment(await response.json());
+    }
+    setLoading(false);
+  }, [token]);
+
+  // --- Efeitos para Carregar os Dados ---
+  useEffect(() => {
+    loadAppointment();
+  }, [loadAppointment]);
+
+  useEffect(() => {
+    setTime(null);
+    setSlots([]);
+    if (mode !== 'reschedule' || !day) return;
+
+    setLoadingSlots(true);
+    fetch(`/api/manage/${token}/availability?date=${day}`)
+      .then(response => (response.ok ? response.json() : { slots: [] }))
+      .then((data: { slots: string[] }) => setSlots(data.slots))
+      .catch(() => setSlots([]))
+      .finally(() => setLoadingSlots(false));
+  }, [token, mode, day]);
+
+  const openReschedule = () => {
+    if (!appointment) return;
+    setActionError(null);
+    setDate(moment(appointment.first_date).toDate());
+    setMode('reschedule');
+  };
+
+  const submit = async (path: 'confirm' | 'cancel' | 'reschedule', body: object, successMessage: string) => {
+    setIsSaving(true);
+    setActionError(null);
+    try {
+      const response = await fetch(`/api/manage/${token}/${path}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+      if (!response.ok) {
+        setActionError(await readError(response));
+        return;
+      }
+      setMessage(successMessage);
+      setMode('view');
+      await loadAppointment();
+    } catch {
+      setActionError('Não foi possível contatar o salão. Verifique sua conexão.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleConfirm = () => submit('confirm', {}, 'Presença confirmada. Até breve!');
+  const handleCancel = () => submit('cancel', { reason: reason.trim() || null }, 'O seu agendamento foi cancelado.');
+  const handleReschedule = () =>
+    day && time && submit('reschedule', { appointment_date: `${day} ${time}:00` }, 'O seu agendamento foi remarcado.');
+
+  if (loading) {
+    return <LoadingSpinner />;
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-8 px-4">
+      <div className="w-full max-w-md mx-auto">
+        <div className="text-center mb-8">
+          <div className="inline-flex items-center justify-center bg-gradient-to-r from-pink-500 to-violet-500 rounded-xl p-3 mb-4">
+            <Scissors className="w-8 h-8 text-white" />
+          </div>
+          <h1 className="text-3xl font-bold text-gray-900">{appointment?.salon_name ?? 'O seu agendamento'}</h1>
+        </div>
+
+        {!appointment ? (
+          <div className="bg-white p-8 rounded-lg shadow-md border border-gray-200 text-center">
+            <AlertCircle className="mx-auto h-12 w-12 text-gray-400" />
+            <p className="mt-2 text-sm text-gray-600">{loadError}</p>
+          </div>
+        ) : (
+          <div className="bg-white p-6 rounded-lg shadow-md border border-gray-200 space-y-4">
+            {message && (
+              <div className="flex items-center p-3 bg-green-50 rounded-md text-sm text-green-700">
+                <CheckCircle className="w-4 h-4 mr-2 flex-shrink-0" />
+                {message}
+              </div>
+            )}
+
+            <div>
+              <div className="flex items-center justify-between">
+                <p className="text-lg font-medium text-gray-900">{appointment.service}</p>
+                <AppointmentStatusBadge status={appointment.status} />
+              </div>
+              <p className="text-sm text-gray-600 mt-1">{formatDateTime(appointment.appointment_date)}</p>
+              {appointment.professional && <p className="text-sm text-gray-600">com {appointment.professional}</p>}
+            </div>
+
+            {appointment.can_confirm && mode === 'view' && (
+              <button
+                type="button"
+                onClick={handleConfirm}
+                disabled={isSaving}
+                className="w-full inline-flex justify-center items-center px-4 py-2 text-sm font-medium rounded-md text-white bg-green-600 hover:bg-green-700 disabled:opacity-50"
+              >
+                <CheckCircle className="w-4 h-4 mr-2" />
+                {isSaving ? 'Confirmando...' : 'Confirmar presença'}
+              </button>
+            )}
+
+            {appointment.cancellation_policy && (
+              <div className="p-3 bg-gray-50 rounded-md text-sm text-gray-600">
+                <p className="font-medium text-gray-700 mb-1">Política de cancelamento</p>
+                {appointment.cancellation_policy}
+              </div>
+            )}
+
+            {!appointment.can_change ? (
+              appointment.change_blocked_reason && <p className="text-sm text-gray-500">{appointment.change_blocked_reason}</p>
+            ) : mode === 'view' ? (
+              <>
+                <p className="text-xs text-gray-500">
+                  Pode cancelar ou remarcar até {moment(appointment.change_deadline).format('DD/MM/YYYY [às] HH:mm')}.
+                </p>
+                <div className="flex gap-2">
+                  <button
+                    type="button"
+                    onClick={openReschedule}
+                    className="flex-1 px-4 py-2 text-sm font-medium rounded-md text-white bg-gradient-to-r from-pink-500 to-violet-500 hover:from-pink-600 hover:to-violet-600"
+                  >
+                    Remarcar
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => { setActionError(null); setMode('cancel'); }}
+                    className="flex-1 px-4 py-2 text-sm font-medium rounded-md border border-red-200 text-red-700 hover:bg-red-50"
+                  >
+                    Cancelar agendamento
+                  </button>
+                </div>
+              </>
+            ) : mode === 'reschedule' ? (
+              <div className="space-y-3">
+                <Calendar
+                  value={date}
+                  onChange={(e) => setDate(e.value as Date)}
+                  minDate={moment(appointment.first_date).toDate()}
+                  maxDate={moment(appointment.last_date).toDate()}
+                  locale="pt-BR"
+                  dateFormat="dd/mm/yy"
+                  showIcon
+                  icon={<CalendarIcon className="w-5 h-5 text-gray-500" />}
+                  className="w-full"
+                />
+                {loadingSlots ? (
+                  <div className="text-center p-4 text-sm text-gray-500">Carregando horários...</div>
+                ) : slots.length === 0 ? (
+                  <div className="text-center p-4 bg-gray-100 rounded-md text-sm text-gray-600">Nenhum horário disponível neste dia.</div>
+                ) : (
+                  <SelectButton value={time} options={slots} onChange={(e) => setTime(e.value)} className="flex flex-wrap gap-2" />
+                )}
+                <div className="flex justify-end gap-2">
+                  <button type="button" onClick={() => setMode('view')} disabled={isSaving} className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50">
+                    Voltar
+                  </button>
+                  <button
+                    type="button"
+                    onClick={handleReschedule}
+                    disabled={isSaving || !time}
+                    className="px-4 py-2 text-sm font-medium rounded-md text-white bg-gradient-to-r from-pink-500 to-violet-500 hover:from-pink-600 hover:to-violet-600 disabled:opacity-50"
+                  >
+                    {isSaving ? 'Salvando...' : 'Confirmar novo horário'}
+                  </button>
+                </div>
+              </div>
+            ) : (
+              <div className="space-y-3">
+                <label htmlFor="reason" className="block text-sm font-medium text-gray-700">Motivo (opcional)</label>
+                <textarea
+                  id="reason"
+                  value={reason}
+                  onChange={(e) => setReason(e.target.value)}
+                  rows={2}
+                  className="block w-full border-gray-300 rounded-md shadow-sm focus:ring-pink-500 focus:border-pink-500 text-sm"
+                />
+                <div className="flex justify-end gap-2">
+                  <button type="button" onClick={() => setMode('view')} disabled={isSaving} className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50">
+                    Voltar
+                  </button>
+                  <button
+                    type="button"
+                    onClick={handleCancel}
+                    disabled={isSaving}
+                    className="px-4 py-2 text-sm font-medium text-white bg-red-600 rounded-md hover:bg-red-700 disabled:opacity-50"
+                  >
+                    {isSaving ? 'Cancelando...' : 'Confirmar cancelamento'}
+                  </button>
+                </div>
+              </div>
+            )}
+
+            {actionError && (
+              <div className="flex items-center p-3 bg-red-50 rounded-md text-sm text-red-700">
+                <AlertCircle className="w-4 h-4 mr-2 flex-shrink-0" />
+                {actionError}
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,510 @@
+import { useState, useEffect, useMemo } from 'react';
+import { useForm, Controller } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import moment from 'moment';
+import { useSupabaseAuth } from '@/react-app/auth/SupabaseAuthProvider';
+import { useAppStore } from '@/shared/store';
+import { fetchWorker } from '@/react-app/supabaseClient';
+import Layout from '@/react-app/components/Layout';
+import LoadingSpinner from '@/react-app/components/LoadingSpinner';
+import ConfirmationModal from '@/react-app/components/ConfirmationModal';
+import MembershipSubscribeModal from '@/react-app/components/MembershipSubscribeModal';
+import { useToastHelpers } from '@/react-app/contexts/ToastContext';
+import { CreditCard, Plus, Edit, Trash2, X, UserPlus, Pause, Play, Ban, RefreshCw } from 'lucide-react';
+import type { ClientMembershipType, CreateMembershipPlanData, MembershipPlanType, MembershipStatus } from '@/shared/types';
+import { CreateMembershipPlanSchema } from '@/shared/types';
+import { MEMBERSHIP_STATUS_LABELS } from '@/shared/memberships';
+import { formatCurrency } from '@/react-app/utils';
+import { InputNumber } from 'primereact/inputnumber';
+import { MultiSelect } from 'primereact/multiselect';
+
+// Valores padrão para o formulário (mensalidade em reais)
+const defaultFormValues: CreateMembershipPlanData = {
+  name: '',
+  description: '',
+  service_ids: [],
+  usage_limit: null,
+  monthly_price: 0,
+  active: true,
+};
+
+const STATUS_BADGE_CLASSES: Record<MembershipStatus, string> = {
+  active: 'bg-green-100 text-green-800',
+  paused: 'bg-amber-100 text-amber-800',
+  cancelled: 'bg-gray-100 text-gray-600',
+};
+
+/**
+ * Página para gerir os planos de assinatura e as assinaturas dos clientes.
+ * As mensalidades são lançadas automaticamente pelo Worker no início de cada ciclo.
+ */
+export default function Memberships() {
+  const { user } = useSupabaseAuth();
+  const {
+    clients,
+    services,
+    membershipPlans,
+    memberships,
+    loading,
+    fetchClients,
+    fetchServices,
+    fetchMembershipPlans,
+    fetchMemberships,
+    addMembershipPlan,
+    updateMembershipPlan,
+    deleteMembershipPlan,
+    setMembershipStatus
+  } = useAppStore();
+  const { showSuccess, showError } = useToastHelpers();
+
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [editingPlan, setEditingPlan] = useState<MembershipPlanType | null>(null);
+  const [planToDelete, setPlanToDelete] = useState<MembershipPlanType | null>(null);
+  const [isDeleting, setIsDeleting] = useState(false);
+  const [planToSubscribe, setPlanToSubscribe] = useState<MembershipPlanType | null>(null);
+  const [membershipToCancel, setMembershipToCancel] = useState<ClientMembershipType | null>(null);
+  const [isCancelling, setIsCancelling] = useState(false);
+  const [isBilling, setIsBilling] = useState(false);
+
+  const {
+    register,
+    handleSubmit,
+    reset,
+    control,
+    formState: { errors, isSubmitting },
+  } = useForm<CreateMembershipPlanData>({
+    resolver: zodResolver(CreateMembershipPlanSchema),
+    defaultValues: defaultFormValues,
+  });
+
+  useEffect(() => {
+    if (user) {
+      fetchClients(user.id);
+      fetchServices(user.id);
+      fetchMembershipPlans(user.id);
+      fetchMemberships(user.id);
+    }
+  }, [user, fetchClients, fetchServices, fetchMembershipPlans, fetchMemberships]);
+
+  const serviceNames = useMemo(() => new Map(services.map(s => [s.id!, s.name])), [services]);
+  const clientNames = useMemo(() => new Map(clients.map(c => [c.id!, c.name])), [clients]);
+
+  const onSubmit = async (formData: CreateMembershipPlanData) => {
+    if (!user) return;
+
+    const planData = {
+      ...formData,
+      monthly_price: Math.round(Number(formData.monthly_price) * 100),
+      usage_limit: formData.usage_limit ?? null,
+    };
+
+    try {
+      if (editingPlan) {
+        await updateMembershipPlan({ ...editingPlan, ...planData });
+        showSuccess('Plano atualizado!', 'As assinaturas já feitas mantêm as condições da adesão.');
+      } else {
+        await addMembershipPlan(planData, user.id);
+        showSuccess('Plano criado!', 'Os clientes já podem assinar o plano.');
+      }
+      handleCloseModal();
+    } catch (error) {
+      console.error('Erro ao salvar plano:', (error as Error).message);
+      showError('Erro ao salvar plano', 'Tente novamente ou contacte o suporte se o problema persistir.');
+    }
+  };
+
+  const handleDeleteConfirm = async () => {
+    if (!planToDelete) return;
+
+    setIsDeleting(true);
+    try {
+      await deleteMembershipPlan(planToDelete.id!);
+      showSuccess('Plano removido!', 'As assinaturas existentes continuam ativas.');
+      setPlanToDelete(null);
+    } catch (error) {
+      console.error('Erro ao excluir plano:', (error as Error).message);
+      showError('Erro ao remover plano', 'Tente novamente ou contacte o suporte se o problema persistir.');
+    } finally {
+      setIsDeleting(false);
+    }
+  };
+
+  const handleStatusChange = async (membership: ClientMembershipType, status: MembershipStatus) => {
+    try {
+      await setMembershipStatus(membership, status);
+      showSuccess(status === 'paused' ? 'Assinatura pausada!' : 'Assinatura retomada!');
+    } catch (error) {
+      console.error('Erro ao alterar assinatura:', (error as Error).message);
+      showError('Erro ao alterar assinatura', (error as Error).message);
+    }
+  };
+
+  const handleCancelConfirm = async () => {
+    if (!membershipToCancel) return;
+
+    setIsCancelling(true);
+    try {
+      await setMembershipStatus(membershipToCancel, 'cancelled');
+      showSuccess('Assinatura cancelada!', 'Não serão lançadas novas mensalidades.');
+      setMembershipToCancel(null);
+    } catch (error) {
+      console.error('Erro ao cancelar assinatura:', (error as Error).message);
+      showError('Erro ao cancelar assinatura', (error as Error).message);
+    } finally {
+      setIsCancelling(false);
+    }
+  };
+
+  // As mensalidades são lançadas automaticamente pelo Worker; isto antecipa o próximo lançamento
+  const billDueMemberships = async () => {
+    setIsBilling(true);
+    try {
+      const response = await fetchWorker('/api/memberships/bill-due', { method: 'POST' });
+      if (!response.ok) throw new Error('Não foi possível lançar as mensalidades.');
+      const { billed } = await response.json();
+      showSuccess(billed > 0 ? `${billed} mensalidade(s) lançada(s)` : 'Nenhuma mensalidade pendente.');
+    } catch (error) {
+      showError('Erro ao lançar mensalidades', (error as Error).message);
+    } finally {
+      setIsBilling(false);
+    }
+  };
+
+  const handleEditPlan = (plan: MembershipPlanType) => {
+    setEditingPlan(plan);
+    reset({
+      name: plan.name,
+      description: plan.description || '',
+      service_ids: plan.service_ids,
+      usage_limit: plan.usage_limit ?? null,
+      monthly_price: plan.monthly_price / 100,
+      active: plan.active,
+    });
+    setIsModalOpen(true);
+  };
+
+  const handleCloseModal = () => {
+    setIsModalOpen(false);
+    setEditingPlan(null);
+    reset(defaultFormValues);
+  };
+
+  if (loading.membershipPlans || loading.memberships) {
+    return <Layout><LoadingSpinner /></Layout>;
+  }
+
+  return (
+    <Layout>
+      <div className="px-4 sm:px-6 lg:px-8">
+        <div className="sm:flex sm:items-center">
+          <div className="sm:flex-auto">
+            <h1 className="text-3xl font-bold text-gray-900">Assinaturas</h1>
+            <p className="mt-2 text-gray-600">Planos mensais com serviços incluídos e cobrança automática</p>
+          </div>
+          <div className="mt-4 sm:mt-0 sm:ml-16 sm:flex-none flex gap-3">
+            <button
+              type="button"
+              onClick={billDueMemberships}
+              disabled={isBilling}
+              className="inline-flex items-center justify-center rounded-md border border-gray-300 bg-white px-4 py-2 text-sm font-medium text-gray-700 shadow-sm hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-pink-500 focus:ring-offset-2 disabled:opacity-50"
+            >
+              <RefreshCw className="w-4 h-4 mr-2" />
+              {isBilling ? 'Lançando...' : 'Lançar mensalidades'}
+            </button>
+            <button
+              type="button"
+              onClick={() => setIsModalOpen(true)}
+              className="inline-flex items-center justify-center rounded-md border border-transparent bg-gradient-to-r from-pink-500 to-violet-500 px-4 py-2 text-sm font-medium text-white shadow-sm hover:from-pink-600 hover:to-violet-600 focus:outline-none focus:ring-2 focus:ring-pink-500 focus:ring-offset-2"
+            >
+              <Plus className="w-4 h-4 mr-2" />
+              Novo Plano
+            </button>
+          </div>
+        </div>
+
+        <div className="mt-8">
+          {membershipPlans.length === 0 ? (
+            <div className="text-center py-12">
+              <CreditCard className="mx-auto h-12 w-12 text-gray-400" />
+              <h3 className="mt-2 text-sm font-medium text-gray-900">Nenhum plano cadastrado</h3>
+              <p className="mt-1 text-sm text-gray-500">Crie planos como "cortes ilimitados" com uma mensalidade fixa.</p>
+            </div>
+          ) : (
+            <div className="grid gap-6 sm:grid-cols-1 lg:grid-cols-2 xl:grid-cols-3">
+              {membershipPlans.map((plan) => (
+                <div
+                  key={plan.id}
+                  className={`bg-white overflow-hidden shadow-sm rounded-lg border border-gray-200 hover:shadow-md transition-shadow flex flex-col justify-between ${plan.active ? '' : 'opacity-60'}`}
+                >
+                  <div className="px-6 py-4">
+                    <div className="flex items-start justify-between mb-3">
+                      <div className="flex-1">
+                        <h3 className="text-lg font-semibold text-gray-900">{plan.name}</h3>
+                        {plan.description && (
+                          <p className="text-sm text-gray-600 mt-1">{plan.description}</p>
+                        )}
+                      </div>
+                      {!plan.active && (
+                        <span className="ml-2 px-2 py-0.5 text-xs font-medium rounded-full bg-gray-100 text-gray-600">Inativo</span>
+                      )}
+                    </div>
+
+                    <p className="text-sm text-gray-600">
+                      {plan.service_ids.map(id => serviceNames.get(id) ?? 'Serviço removido').join(', ')}
+                    </p>
+
+                    <div className="flex items-center justify-between mt-4">
+                      <div className="text-lg font-bold text-green-600">
+                        {formatCurrency(plan.monthly_price)}
+                        <span className="ml-1 text-sm font-normal text-gray-500">/ mês</span>
+                      </div>
+                      <div className="text-sm text-gray-600">
+                        {plan.usage_limit ? `${plan.usage_limit} uso(s) por mês` : 'Ilimitado'}
+                      </div>
+                    </div>
+                  </div>
+
+                  <div className="px-6 py-3 bg-gray-50 border-t border-gray-200 flex justify-between space-x-3">
+                    <button
+                      onClick={() => setPlanToSubscribe(plan)}
+                      disabled={!plan.active}
+                      className="flex-1 inline-flex items-center justify-center px-3 py-2 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-gradient-to-r from-pink-500 to-violet-500 hover:from-pink-600 hover:to-violet-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-pink-500 disabled:opacity-50"
+                    >
+                      <UserPlus className="w-4 h-4 mr-1" />
+                      Assinar
+                    </button>
+
+                    <button
+                      onClick={() => handleEditPlan(plan)}
+                      className="flex-1 inline-flex items-center justify-center px-3 py-2 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-pink-500"
+                    >
+                      <Edit className="w-4 h-4 mr-1" />
+                      Editar
+                    </button>
+
+                    <button
+                      onClick={() => setPlanToDelete(plan)}
+                      className="flex-1 inline-flex items-center justify-center px-3 py-2 border border-red-300 shadow-sm text-sm font-medium rounded-md text-red-700 bg-white hover:bg-red-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-red-500"
+                    >
+                      <Trash2 className="w-4 h-4 mr-1" />
+                      Excluir
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className="mt-10 bg-white shadow-sm rounded-lg border border-gray-200">
+          <div className="px-6 py-4 border-b border-gray-200">
+            <h2 className="text-lg font-medium text-gray-900">Assinantes</h2>
+          </div>
+          {memberships.length === 0 ? (
+            <p className="px-6 py-4 text-sm text-gray-500">Nenhuma assinatura registrada.</p>
+          ) : (
+            <ul className="divide-y divide-gray-100">
+              {memberships.map(membership => (
+                <li key={membership.id} className="px-6 py-3 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2">
+                  <div className="min-w-0">
+                    <p className="font-medium text-gray-900 truncate">{clientNames.get(membership.client_id) ?? 'Cliente removido'}</p>
+                    <p className="text-sm text-gray-500">
+                      {membership.plan_name} · {formatCurrency(membership.monthly_price)}/mês · desde {moment(membership.started_at).format('DD/MM/YYYY')}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <span className={`px-2 py-0.5 text-xs font-medium rounded-full ${STATUS_BADGE_CLASSES[membership.status]}`}>
+                      {MEMBERSHIP_STATUS_LABELS[membership.status]}
+                    </span>
+                    {membership.status === 'active' && (
+                      <button
+                        type="button"
+                        onClick={() => handleStatusChange(membership, 'paused')}
+                        className="inline-flex items-center px-2 py-1 border border-gray-300 text-xs font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50"
+                      >
+                        <Pause className="w-3.5 h-3.5 mr-1" />
+                        Pausar
+                      </button>
+                    )}
+                    {membership.status === 'paused' && (
+                      <button
+                        type="button"
+                        onClick={() => handleStatusChange(membership, 'active')}
+                        className="inline-flex items-center px-2 py-1 border border-gray-300 text-xs font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50"
+                      >
+                        <Play className="w-3.5 h-3.5 mr-1" />
+                        Retomar
+                      </button>
+                    )}
+                    {membership.status !== 'cancelled' && (
+                      <button
+                        type="button"
+                        onClick={() => setMembershipToCancel(membership)}
+                        className="inline-flex items-center px-2 py-1 border border-red-300 text-xs font-medium rounded-md text-red-700 bg-white hover:bg-red-50"
+                      >
+                        <Ban className="w-3.5 h-3.5 mr-1" />
+                        Cancelar
+                      </button>
+                    )}
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        {isModalOpen && (
+          <div className="fixed inset-0 z-50 overflow-y-auto">
+            <div className="flex items-end justify-center min-h-screen pt-4 px-4 pb-20 text-center sm:block sm:p-0">
+              <div className="fixed inset-0 bg-gray-500 bg-opacity-75 transition-opacity" onClick={handleCloseModal}></div>
+
+              <div className="inline-block align-bottom bg-white rounded-lg text-left overflow-hidden shadow-xl transform transition-all sm:my-8 sm:align-middle sm:max-w-lg sm:w-full">
+                <form onSubmit={handleSubmit(onSubmit)}>
+                  <div className="bg-white px-4 pt-5 pb-4 sm:p-6 sm:pb-4">
+                    <div className="flex items-center justify-between mb-4">
+                      <h3 className="text-lg font-medium text-gray-900">
+                        {editingPlan ? 'Editar Plano' : 'Novo Plano'}
+                      </h3>
+                      <button type="button" onClick={handleCloseModal} className="text-gray-400 hover:text-gray-600">
+                        <X className="w-6 h-6" />
+                      </button>
+                    </div>
+
+                    <div className="space-y-4">
+                      <div>
+                        <label htmlFor="name" className="block text-sm font-medium text-gray-700">Nome *</label>
+                        <input
+                          id="name"
+                          type="text"
+                          {...register('name')}
+                          placeholder="Ex: Clube do corte"
+                          className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-pink-500 focus:border-pink-500 sm:text-sm"
+                        />
+                        {errors.name && <p className="mt-1 text-sm text-red-600">{errors.name.message}</p>}
+                      </div>
+
+                      <div>
+                        <label htmlFor="description" className="block text-sm font-medium text-gray-700">Descrição</label>
+                        <textarea
+                          id="description"
+                          {...register('description')}
+                          rows={2}
+                          className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-pink-500 focus:border-pink-500 sm:text-sm"
+                        />
+                      </div>
+
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">Serviços incluídos *</label>
+                        <Controller
+                          name="service_ids"
+                          control={control}
+                          render={({ field }) => (
+                            <MultiSelect
+                              value={field.value}
+                              options={services.map(s => ({ label: s.name, value: s.id }))}
+                              onChange={(e) => field.onChange(e.value)}
+                              placeholder="Selecione os serviços"
+                              className="w-full"
+                              display="chip"
+                              filter
+                            />
+                          )}
+                        />
+                        {errors.service_ids && <p className="mt-1 text-sm text-red-600">{errors.service_ids.message}</p>}
+                      </div>
+
+                      <div className="grid grid-cols-2 gap-4">
+                        <div>
+                          <label htmlFor="monthly_price" className="block text-sm font-medium text-gray-700">Mensalidade (R$) *</label>
+                          <Controller
+                            name="monthly_price"
+                            control={control}
+                            render={({ field, fieldState }) => (
+                              <InputNumber
+                                id={field.name}
+                                ref={field.ref}
+                                value={field.value}
+                                onBlur={field.onBlur}
+                                onValueChange={(e) => field.onChange(e.value)}
+                                mode="currency"
+                                currency="BRL"
+                                locale="pt-BR"
+                                className={`w-full ${fieldState.error ? 'p-invalid' : ''}`}
+                              />
+                            )}
+                          />
+                          {errors.monthly_price && <p className="mt-1 text-sm text-red-600">{errors.monthly_price.message}</p>}
+                        </div>
+
+                        <div>
+                          <label htmlFor="usage_limit" className="block text-sm font-medium text-gray-700">Usos por mês</label>
+                          <input
+                            id="usage_limit"
+                            type="number"
+                            min={1}
+                            {...register('usage_limit', { setValueAs: (value) => (value === '' || value === null ? null : Number(value)) })}
+                            placeholder="Ilimitado"
+                            className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-pink-500 focus:border-pink-500 sm:text-sm"
+                          />
+                          {errors.usage_limit && <p className="mt-1 text-sm text-red-600">{errors.usage_limit.message}</p>}
+                        </div>
+                      </div>
+
+                      <label className="flex items-center gap-2 text-sm text-gray-700">
+                        <input type="checkbox" {...register('active')} className="rounded border-gray-300 text-pink-600 focus:ring-pink-500" />
+                        Disponível para novas assinaturas
+                      </label>
+                    </div>
+                  </div>
+
+                  <div className="bg-gray-50 px-4 py-3 sm:px-6 sm:flex sm:flex-row-reverse">
+                    <button
+                      type="submit"
+                      disabled={isSubmitting}
+                      className="w-full inline-flex justify-center rounded-md border border-transparent shadow-sm px-4 py-2 bg-gradient-to-r from-pink-500 to-violet-500 text-base font-medium text-white hover:from-pink-600 hover:to-violet-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-pink-500 sm:ml-3 sm:w-auto sm:text-sm disabled:opacity-50"
+                    >
+                      {isSubmitting ? 'Salvando...' : (editingPlan ? 'Atualizar' : 'Criar')}
+                    </button>
+                    <button
+                      type="button"
+                      onClick={handleCloseModal}
+                      className="mt-3 w-full inline-flex justify-center rounded-md border border-gray-300 shadow-sm px-4 py-2 bg-white text-base font-medium text-gray-700 hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-pink-500 sm:mt-0 sm:ml-3 sm:w-auto sm:text-sm"
+                    >
+                      Cancelar
+                    </button>
+                  </div>
+                </form>
+              </div>
+            </div>
+          </div>
+        )}
+
+        {user && <MembershipSubscribeModal plan={planToSubscribe} userId={user.id} onClose={() => setPlanToSubscribe(null)} />}
+
+        <ConfirmationModal
+          isOpen={!!planToDelete}
+          onClose={() => setPlanToDelete(null)}
+          onConfirm={handleDeleteConfirm}
+          title="Excluir Plano"
+          message={`Tem certeza que deseja excluir o plano "${planToDelete?.name}"? As assinaturas existentes continuam ativas.`}
+          confirmText="Excluir"
+          cancelText="Cancelar"
+          variant="danger"
+          isLoading={isDeleting}
+        />
+
+        <ConfirmationModal
+          isOpen={!!membershipToCancel}
+          onClose={() => setMembershipToCancel(null)}
+          onConfirm={handleCancelConfirm}
+          title="Cancelar Assinatura"
+          message={`Cancelar a assinatura "${membershipToCancel?.plan_name}" de ${clientNames.get(membershipToCancel?.client_id ?? 0) ?? 'cliente'}? Não serão lançadas novas mensalidades e os serviços deixam de estar incluídos.`}
+          confirmText="Cancelar assinatura"
+          cancelText="Voltar"
+          variant="warning"
+          isLoading={isCancelling}
+        />
+      </div>
+    </Layout>
+  );
+}
@@ -0,0 +1,387 @@
+import { useState, useEffect, useMemo } from 'react';
+import { useForm, Controller } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { useSupabaseAuth } from '@/react-app/auth/SupabaseAuthProvider';
+import { useAppStore } from '@/shared/store';
+import Layout from '@/react-app/components/Layout';
+import LoadingSpinner from '@/react-app/components/LoadingSpinner';
+import ConfirmationModal from '@/react-app/components/ConfirmationModal';
+import PackageSaleModal from '@/react-app/components/PackageSaleModal';
+import { useToastHelpers } from '@/react-app/contexts/ToastContext';
+import { Layers, Plus, Edit, Trash2, X, ShoppingCart, CalendarClock } from 'lucide-react';
+import type { CreateServicePackageData, ServicePackageType } from '@/shared/types';
+import { CreateServicePackageSchema } from '@/shared/types';
+import { formatCurrency } from '@/react-app/utils';
+import { InputNumber } from 'primereact/inputnumber';
+import { MultiSelect } from 'primereact/multiselect';
+
+// Valores padrão para o formulário (preço em reais)
+const defaultFormValues: CreateServicePackageData = {
+  name: '',
+  description: '',
+  service_ids: [],
+  sessions: 10,
+  price: 0,
+  validity_days: null,
+  active: true,
+};
+
+/**
+ * Página para gerir os pacotes de sessões pré-pagas e vendê-los aos clientes.
+ */
+export default function Packages() {
+  const { user } = useSupabaseAuth();
+  const {
+    services,
+    servicePackages,
+    loading,
+    fetchServices,
+    fetchServicePackages,
+    addServicePackage,
+    updateServicePackage,
+    deleteServicePackage
+  } = useAppStore();
+  const { showSuccess, showError } = useToastHelpers();
+
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [editingPackage, setEditingPackage] = useState<ServicePackageType | null>(null);
+  const [packageToDelete, setPackageToDelete] = useState<ServicePackageType | null>(null);
+  const [isDeleting, setIsDeleting] = useState(false);
+  const [packageToSell, setPackageToSell] = useState<ServicePackageType | null>(null);
+
+  const {
+    register,
+    handleSubmit,
+    reset,
+    control,
+    formState: { errors, isSubmitting },
+  } = useForm<CreateServicePackageData>({
+    resolver: zodResolver(CreateServicePackageSchema),
+    defaultValues: defaultFormValues,
+  });
+
+  useEffect(() => {
+    if (user) {
+      fetchServices(user.id);
+      fetchServicePackages(user.id);
+    }
+  }, [user, fetchServices, fetchServicePackages]);
+
+  const serviceNames = useMemo(() => new Map(services.map(s => [s.id!, s.name])), [services]);
+
+  const onSubmit = async (formData: CreateServicePackageData) => {
+    if (!user) return;
+
+    const packageData = {
+      ...formData,
+      price: Math.round(Number(formData.price) * 100),
+      validity_days: formData.validity_days ?? null,
+    };
+
+    try {
+      if (editingPackage) {
+        await updateServicePackage({ ...editingPackage, ...packageData });
+        showSuccess('Pacote atualizado!', 'Os pacotes já vendidos mantêm as condições da venda.');
+      } else {
+        await addServicePackage(packageData, user.id);
+        showSuccess('Pacote criado!', 'O pacote já pode ser vendido aos clientes.');
+      }
+      handleCloseModal();
+    } catch (error) {
+      console.error('Erro ao salvar pacote:', (error as Error).message);
+      showError('Erro ao salvar pacote', 'Tente novamente ou contacte o suporte se o problema persistir.');
+    }
+  };
+
+  const handleDeleteConfirm = async () => {
+    if (!packageToDelete) return;
+
+    setIsDeleting(true);
+    try {
+      await deleteServicePackage(packageToDelete.id!);
+      showSuccess('Pacote removido!', 'Os pacotes já vendidos continuam válidos.');
+      setPackageToDelete(null);
+    } catch (error) {
+      console.error('Erro ao excluir pacote:', (error as Error).message);
+      showError('Erro ao remover pacote', 'Tente novamente ou contacte o suporte se o problema persistir.');
+    } finally {
+      setIsDeleting(false);
+    }
+  };
+
+  const handleEditPackage = (servicePackage: ServicePackageType) => {
+    setEditingPackage(servicePackage);
+    reset({
+      name: servicePackage.name,
+      description: servicePackage.description || '',
+      service_ids: servicePackage.service_ids,
+      sessions: servicePackage.sessions,
+      price: servicePackage.price / 100,
+      validity_days: servicePackage.validity_days ?? null,
+      active: servicePackage.active,
+    });
+    setIsModalOpen(true);
+  };
+
+  const handleCloseModal = () => {
+    setIsModalOpen(false);
+    setEditingPackage(null);
+    reset(defaultFormValues);
+  };
+
+  if (loading.servicePackages) {
+    return <Layout><LoadingSpinner /></Layout>;
+  }
+
+  return (
+    <Layout>
+      <div className="px-4 sm:px-6 lg:px-8">
+        <div className="sm:flex sm:items-center">
+          <div className="sm:flex-auto">
+            <h1 className="text-3xl font-bold text-gray-900">Pacotes</h1>
+            <p className="mt-2 text-gray-600">Venda sessões pré-pagas; cada atendimento concluído consome uma sessão</p>
+          </div>
+          <div className="mt-4 sm:mt-0 sm:ml-16 sm:flex-none">
+            <button
+              type="button"
+              onClick={() => setIsModalOpen(true)}
+              className="inline-flex items-center justify-center rounded-md border border-transparent bg-gradient-to-r from-pink-500 to-violet-500 px-4 py-2 text-sm font-medium text-white shadow-sm hover:from-pink-600 hover:to-violet-600 focus:outline-none focus:ring-2 focus:ring-pink-500 focus:ring-offset-2"
+            >
+              <Plus className="w-4 h-4 mr-2" />
+              Novo Pacote
+            </button>
+          </div>
+        </div>
+
+        <div className="mt-8">
+          {servicePackages.length === 0 ? (
+            <div className="text-center py-12">
+              <Layers className="mx-auto h-12 w-12 text-gray-400" />
+              <h3 className="mt-2 text-sm font-medium text-gray-900">Nenhum pacote cadastrado</h3>
+              <p className="mt-1 text-sm text-gray-500">Crie pacotes como "10 sessões de hidratação" para vender antecipadamente.</p>
+            </div>
+          ) : (
+            <div className="grid gap-6 sm:grid-cols-1 lg:grid-cols-2 xl:grid-cols-3">
+              {servicePackages.map((servicePackage) => (
+                <div
+                  key={servicePackage.id}
+                  className={`bg-white overflow-hidden shadow-sm rounded-lg border border-gray-200 hover:shadow-md transition-shadow flex flex-col justify-between ${servicePackage.active ? '' : 'opacity-60'}`}
+                >
+                  <div className="px-6 py-4">
+                    <div className="flex items-start justify-between mb-3">
+                      <div className="flex-1">
+                        <h3 className="text-lg font-semibold text-gray-900">{servicePackage.name}</h3>
+                        {servicePackage.description && (
+                          <p className="text-sm text-gray-600 mt-1">{servicePackage.description}</p>
+                        )}
+                      </div>
+                      {!servicePackage.active && (
+                        <span className="ml-2 px-2 py-0.5 text-xs font-medium rounded-full bg-gray-100 text-gray-600">Inativo</span>
+                      )}
+                    </div>
+
+                    <p className="text-sm text-gray-600">
+                      {servicePackage.service_ids.map(id => serviceNames.get(id) ?? 'Serviço removido').join(', ')}
+                    </p>
+
+                    <div className="flex items-center justify-between mt-4">
+                      <div className="text-lg font-bold text-green-600">
+                        {formatCurrency(servicePackage.price)}
+                        <span className="ml-1 text-sm font-normal text-gray-500">/ {servicePackage.sessions} sessões</span>
+                      </div>
+                      <div className="flex items-center text-sm text-gray-600">
+                        <CalendarClock className="w-4 h-4 mr-1.5 text-gray-400" />
+                        {servicePackage.validity_days ? `${servicePackage.validity_days} dias` : 'Sem prazo'}
+                      </div>
+                    </div>
+                  </div>
+
+                  <div className="px-6 py-3 bg-gray-50 border-t border-gray-200 flex justify-between space-x-3">
+                    <button
+                      onClick={() => setPackageToSell(servicePackage)}
+                      disabled={!servicePackage.active}
+                      className="flex-1 inline-flex items-center justify-center px-3 py-2 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-gradient-to-r from-pink-500 to-violet-500 hover:from-pink-600 hover:to-violet-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-pink-500 disabled:opacity-50"
+                    >
+                      <ShoppingCart className="w-4 h-4 mr-1" />
+                      Vender
+                    </button>
+
+                    <button
+                      onClick={() => handleEditPackage(servicePackage)}
+                      className="flex-1 inline-flex items-center justify-center px-3 py-2 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-pink-500"
+                    >
+                      <Edit className="w-4 h-4 mr-1" />
+                      Editar
+                    </button>
+
+                    <button
+                      onClick={() => setPackageToDelete(servicePackage)}
+                      className="flex-1 inline-flex items-center justify-center px-3 py-2 border border-red-300 shadow-sm text-sm font-medium rounded-md text-red-700 bg-white hover:bg-red-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-red-500"
+                    >
+                      <Trash2 className="w-4 h-4 mr-1" />
+                      Excluir
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {isModalOpen && (
+          <div className="fixed inset-0 z-50 overflow-y-auto">
+            <div className="flex items-end justify-center min-h-screen pt-4 px-4 pb-20 text-center sm:block sm:p-0">
+              <div className="fixed inset-0 bg-gray-500 bg-opacity-75 transition-opacity" onClick={handleCloseModal}></div>
+
+              <div className="inline-block align-bottom bg-white rounded-lg text-left overflow-hidden shadow-xl transform transition-all sm:my-8 sm:align-middle sm:max-w-lg sm:w-full">
+                <form onSubmit={handleSubmit(onSubmit)}>
+                  <div className="bg-white px-4 pt-5 pb-4 sm:p-6 sm:pb-4">
+                    <div className="flex items-center justify-between mb-4">
+                      <h3 className="text-lg font-medium text-gray-900">
+                        {editingPackage ? 'Editar Pacote' : 'Novo Pacote'}
+                      </h3>
+                      <button type="button" onClick={handleCloseModal} className="text-gray-400 hover:text-gray-600">
+                        <X className="w-6 h-6" />
+                      </button>
+                    </div>
+
+                    <div className="space-y-4">
+                      <div>
+                        <label htmlFor="name" className="block text-sm font-medium text-gray-700">Nome *</label>
+                        <input
+                          id="name"
+                          type="text"
+                          {...register('name')}
+                          placeholder="Ex: 10 sessões de hidratação"
+                          className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-pink-500 focus:border-pink-500 sm:text-sm"
+                        />
+                        {errors.name && <p className="mt-1 text-sm text-red-600">{errors.name.message}</p>}
+                      </div>
+
+                      <div>
+                        <label htmlFor="description" className="block text-sm font-medium text-gray-700">Descrição</label>
+                        <textarea
+                          id="description"
+                          {...register('description')}
+                          rows={2}
+                          className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-pink-500 focus:border-pink-500 sm:text-sm"
+                        />
+                      </div>
+
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">Serviços incluídos *</label>
+                        <Controller
+                          name="service_ids"
+                          control={control}
+                          render={({ field }) => (
+                            <MultiSelect
+                              value={field.value}
+                              options={services.map(s => ({ label: s.name, value: s.id }))}
+                              onChange={(e) => field.onChange(e.value)}
+                              placeholder="Selecione os serviços"
+                              className="w-full"
+                              display="chip"
+                              filter
+                            />
+                          )}
+                        />
+                        <p className="mt-1 text-xs text-gray-500">Cada sessão pode ser usada em qualquer um destes serviços.</p>
+                        {errors.service_ids && <p className="mt-1 text-sm text-red-600">{errors.service_ids.message}</p>}
+                      </div>
+
+                      <div className="grid grid-cols-2 gap-4">
+                        <div>
+                          <label htmlFor="sessions" className="block text-sm font-medium text-gray-700">Sessões *</label>
+                          <input
+                            id="sessions"
+                            type="number"
+                            min={1}
+                            {...register('sessions', { valueAsNumber: true })}
+                            className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-pink-500 focus:border-pink-500 sm:text-sm"
+                          />
+                          {errors.sessions && <p className="mt-1 text-sm text-red-600">{errors.sessions.message}</p>}
+                        </div>
+
+                        <div>
+                          <label htmlFor="price" className="block text-sm font-medium text-gray-700">Preço (R$) *</label>
+                          <Controller
+                            name="price"
+                            control={control}
+                            render={({ field, fieldState }) => (
+                              <InputNumber
+                                id={field.name}
+                                ref={field.ref}
+                                value={field.value}
+                                onBlur={field.onBlur}
+                                onValueChange={(e) => field.onChange(e.value)}
+                                mode="currency"
+                                currency="BRL"
+                                locale="pt-BR"
+                                className={`w-full ${fieldState.error ? 'p-invalid' : ''}`}
+                              />
+                            )}
+                          />
+                          {errors.price && <p className="mt-1 text-sm text-red-600">{errors.price.message}</p>}
+                        </div>
+                      </div>
+
+                      <div>
+                        <label htmlFor="validity_days" className="block text-sm font-medium text-gray-700">Validade (dias)</label>
+                        <input
+                          id="validity_days"
+                          type="number"
+                          min={1}
+                          {...register('validity_days', { setValueAs: (value) => (value === '' || value === null ? null : Number(value)) })}
+                          placeholder="Sem prazo"
+                          className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-pink-500 focus:border-pink-500 sm:text-sm"
+                        />
+                        <p className="mt-1 text-xs text-gray-500">Contados a partir do dia da venda. Vazio: as sessões não expiram.</p>
+                        {errors.validity_days && <p className="mt-1 text-sm text-red-600">{errors.validity_days.message}</p>}
+                      </div>
+
+                      <label className="flex items-center gap-2 text-sm text-gray-700">
+                        <input type="checkbox" {...register('active')} className="rounded border-gray-300 text-pink-600 focus:ring-pink-500" />
+                        Disponível para venda
+                      </label>
+                    </div>
+                  </div>
+
+                  <div className="bg-gray-50 px-4 py-3 sm:px-6 sm:flex sm:flex-row-reverse">
+                    <button
+                      type="submit"
+                      disabled={isSubmitting}
+                      className="w-full inline-flex justify-center rounded-md border border-transparent shadow-sm px-4 py-2 bg-gradient-to-r from-pink-500 to-violet-500 text-base font-medium text-white hover:from-pink-600 hover:to-violet-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-pink-500 sm:ml-3 sm:w-auto sm:text-sm disabled:opacity-50"
+                    >
+                      {isSubmitting ? 'Salvando...' : (editingPackage ? 'Atualizar' : 'Criar')}
+                    </button>
+                    <button
+                      type="button"
+                      onClick={handleCloseModal}
+                      className="mt-3 w-full inline-flex justify-center rounded-md border border-gray-300 shadow-sm px-4 py-2 bg-white text-base font-medium text-gray-700 hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-pink-500 sm:mt-0 sm:ml-3 sm:w-auto sm:text-sm"
+                    >
+                      Cancelar
+                    </button>
+                  </div>
+                </form>
+              </div>
+            </div>
+          </div>
+        )}
+
+        {user && <PackageSaleModal servicePackage={packageToSell} userId={user.id} onClose={() => setPackageToSell(null)} />}
+
+        <ConfirmationModal
+          isOpen={!!packageToDelete}
+          onClose={() => setPackageToDelete(null)}
+          onConfirm={handleDeleteConfirm}
+          title="Excluir Pacote"
+          message={`Tem certeza que deseja excluir o pacote "${packageToDelete?.name}"? Os pacotes já vendidos continuam válidos.`}
+          confirmText="Excluir"
+          cancelText="Cancelar"
+          variant="danger"
+          isLoading={isDeleting}
+        />
+      </div>
+    </Layout>
+  );
+}
@@ -6,8 +6,10 @@ import { useAppStore } from '@/shared/store';
 import Layout from '@/react-app/components/Layout';
 import LoadingSpinner from '@/react-app/components/LoadingSpinner';
 import ConfirmationModal from '@/react-app/components/ConfirmationModal';
+import ImportWizardModal from '@/react-app/components/ImportWizardModal';
+import ProductSaleModal from '@/react-app/components/ProductSaleModal';
 import { useToastHelpers } from '@/react-app/contexts/ToastContext';
-import { Package, Plus, Edit, Trash2, AlertTriangle, X, Search } from 'lucide-react';
+import { Package, Plus, Edit, Trash2, AlertTriangle, X, Search, Upload, ShoppingCart } from 'lucide-react';
 import type { ProductType } from '@/shared/types';
 import { CreateProductSchema } from '@/shared/types';
 import { formatCurrency } from '@/react-app/utils';
@@ -52,6 +54,8 @@ export default function Products() {
   const [isDeleteModalOpen, setIsDeleteModalOpen] = useState(false);
   const [productToDelete, setProductToDelete] = useState<ProductType | null>(null);
   const [isDeleting, setIsDeleting] = useState(false);
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [productToSell, setProductToSell] = useState<ProductType | null>(null);
 
   const {
     register,
@@ -166,7 +170,15 @@ export default function Products() {
             <h1 className="text-3xl font-bold text-gray-900">Produtos</h1>
             <p className="mt-2 text-gray-600">Gerencie o seu catálogo de produtos</p>
           </div>
-          <div className="mt-4 sm:mt-0 sm:ml-16 sm:flex-none">
+          <div className="mt-4 sm:mt-0 sm:ml-16 sm:flex-none flex gap-3">
+            <button
+              type="button"
+              onClick={() => setIsImportOpen(true)}
+              className="inline-flex items-center justify-center rounded-md border border-gray-300 bg-white px-4 py-2 text-sm font-medium text-gray-700 shadow-sm hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-pink-500 focus:ring-offset-2"
+            >
+              <Upload className="w-4 h-4 mr-2" />
+              Importar
+            </button>
             <button
               type="button"
               onClick={() => setIsModalOpen(true)}
@@ -265,6 +277,15 @@ export default function Products() {
                   </div>
 
                   <div className="px-6 py-3 bg-gray-50 border-t border-gray-200 flex justify-between space-x-3">
+                    <button
+                      onClick={() => setProductToSell(product)}
+                      disabled={(product.quantity ?? 0) === 0}
+                      className="flex-1 inline-flex items-center justify-center px-3 py-2 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-gradient-to-r from-pink-500 to-violet-500 hover:from-pink-600 hover:to-violet-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-pink-500 disabled:opacity-50"
+                    >
+                      <ShoppingCart className="w-4 h-4 mr-1" />
+                      Vender
+                    </button>
+
                     <button
                       onClick={() => handleEditProduct(product)}
                       className="flex-1 inline-flex items-center justify-center px-3 py-2 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-pink-500"
@@ -414,6 +435,10 @@ export default function Products() {
           </div>
         )}
 
+        <ImportWizardModal isOpen={isImportOpen} onClose={() => setIsImportOpen(false)} target="products" />
+
+        {user && <ProductSaleModal product={productToSell} userId={user.id} onClose={() => setProductToSell(null)} />}
+
         <ConfirmationModal
           isOpen={isDeleteModalOpen}
           onClose={handleDeleteCancel}
@@ -1,5 +1,5 @@
 import { useState, useEffect } from 'react';
-import { useForm } from 'react-hook-form';
+import { useForm, useFieldArray } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
 import { useSupabaseAuth } from '../auth/SupabaseAuthProvider';
@@ -7,42 +7,91 @@ import { useAppStore } from '../../shared/store';
 import Layout from '../components/Layout';
 import LoadingSpinner from '../components/LoadingSpinner';
 import ConfirmationModal from '../components/ConfirmationModal';
+import ProfessionalAbsencesModal from '../components/ProfessionalAbsencesModal';
 import { useToastHelpers } from '../contexts/ToastContext';
-import { Plus, Edit, Trash2, X, Briefcase, Palette } from 'lucide-react';
-import type { ProfessionalType } from '../../shared/types';
+import { Plus, Edit, Trash2, X, Briefcase, Palette, Copy, CalendarOff } from 'lucide-react';
+import type { ProfessionalType, ProfessionalScheduleType } from '../../shared/types';
+import { DAYS_OF_WEEK } from '../utils';
 
-// Esquema de validação Zod que inclui o novo campo de cor e os campos de horário existentes.
+// Esquema de um dia do horário semanal. Um dia sem início e fim é uma folga.
+const ScheduleDaySchema = z.object({
+  day_of_week: z.number(),
+  start_time: z.string().optional().nullable(),
+  end_time: z.string().optional().nullable(),
+  lunch_start_time: z.string().optional().nullable(),
+  lunch_end_time: z.string().optional().nullable(),
+}).superRefine((day, ctx) => {
+  if (!!day.start_time !== !!day.end_time) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Preencha início e fim", path: ['end_time'] });
+    return;
+  }
+  if (day.start_time && day.end_time && day.end_time <= day.start_time) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "O fim deve ser após o início", path: ['end_time'] });
+  }
+  if (!!day.lunch_start_time !== !!day.lunch_end_time) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Preencha início e fim do almoço", path: ['lunch_end_time'] });
+    return;
+  }
+  if (day.lunch_start_time && day.lunch_end_time) {
+    if (!day.start_time) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Almoço definido num dia de folga", path: ['lunch_start_time'] });
+    } else if (day.lunch_end_time <= day.lunch_start_time || day.lunch_start_time < day.start_time || day.lunch_end_time > day.end_time!) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: "O almoço deve estar dentro do expediente", path: ['lunch_end_time'] });
+    }
+  }
+});
+
+// Esquema de validação Zod com o campo de cor e o horário semanal.
 const ProfessionalFormSchema = z.object({
   name: z.string().min(1, "O nome do profissional é obrigatório"),
   color: z.string().regex(/^#[0-9a-fA-F]{6}$/, "Cor inválida").optional().nullable(),
-  work_start_time: z.string().optional().nullable(),
-  work_end_time: z.string().optional().nullable(),
-  lunch_start_time: z.string().optional().nullable(),
-  lunch_end_time: z.string().optional().nullable(),
+  schedule: z.array(ScheduleDaySchema),
 });
 
 // Interface para os dados do formulário, derivada do esquema Zod.
 type ProfessionalFormData = z.infer<typeof ProfessionalFormSchema>;
 
+// O banco devolve horários no formato HH:MM:SS; os inputs do tipo "time" usam HH:MM.
+const toTimeInput = (time?: string | null) => (time ? time.slice(0, 5) : '');
+
+const emptySchedule = () => DAYS_OF_WEEK.map(day => ({
+  day_of_week: day.value,
+  start_time: '',
+  end_time: '',
+  lunch_start_time: '',
+  lunch_end_time: '',
+}));
+
 // Valores padrão para o formulário.
 const defaultFormValues: ProfessionalFormData = {
     name: '',
     color: '#8b5cf6', // Cor padrão (violeta)
-    work_start_time: '',
-    work_end_time: '',
-    lunch_start_time: '',
-    lunch_end_time: '',
+    schedule: emptySchedule(),
+};
+
+/**
+ * Resume o horário semanal de um profissional para a listagem (ex: "Seg, Ter, Sáb").
+ */
+const summarizeSchedule = (schedule: ProfessionalScheduleType[]) => {
+  const workingDays = DAYS_OF_WEEK.filter(day =>
+    schedule.some(s => s.day_of_week === day.value && s.start_time && s.end_time)
+  );
+  return workingDays.length > 0 ? workingDays.map(day => day.short).join(', ') : 'Não definido';
 };
 
 export default function Professionals() {
   const { user } = useSupabaseAuth();
   const {
     professionals,
+    professionalSchedules,
     loading,
     fetchProfessionals,
+    fetchProfessionalSchedules,
+    fetchProfessionalExceptions,
     addProfessional,
     updateProfessional,
-    deleteProfessional
+    deleteProfessional,
+    saveProfessionalSchedule
   } = useAppStore();
   const { showSuccess, showError } = useToastHelpers();
   
@@ -51,6 +100,7 @@ export default function Professionals() {
   const [isDeleteModalOpen, setIsDeleteModalOpen] = useState(false);
   const [professionalToDelete, setProfessionalToDelete] = useState<ProfessionalType | null>(null);
   const [isDeleting, setIsDeleting] = useState(false);
+  const [absencesProfessional, setAbsencesProfessional] = useState<ProfessionalType | null>(null);
 
   const {
     register,
@@ -58,41 +108,48 @@ export default function Professionals() {
     reset,
     watch, // <-- Adicionado para observar os campos
     setValue, // <-- Adicionado para definir valores programaticamente
+    getValues,
+    control,
     formState: { errors, isSubmitting },
   } = useForm<ProfessionalFormData>({
     resolver: zodResolver(ProfessionalFormSchema),
     defaultValues: defaultFormValues
   });
 
+  const { fields: scheduleFields } = useFieldArray({ control, name: 'schedule' });
+
   // Observa o valor do campo 'color' em tempo real
   const watchedColor = watch('color');
 
   useEffect(() => {
     if (user) {
       fetchProfessionals(user.id);
+      fetchProfessionalSchedules(user.id);
+      fetchProfessionalExceptions(user.id);
     }
-  }, [user, fetchProfessionals]);
+  }, [user, fetchProfessionals, fetchProfessionalSchedules, fetchProfessionalExceptions]);
 
   const onSubmit = async (formData: ProfessionalFormData) => {
     if (!user) return;
 
+    const { schedule, ...professionalData } = formData;
     // Transforma strings vazias dos campos de tempo em null antes de enviar
-    const dataToSubmit = {
-      ...formData,
-      work_start_time: formData.work_start_time || null,
-      work_end_time: formData.work_end_time || null,
-      lunch_start_time: formData.lunch_start_time || null,
-      lunch_end_time: formData.lunch_end_time || null,
-    };
+    const scheduleToSubmit = schedule.map(day => ({
+      day_of_week: day.day_of_week,
+      start_time: day.start_time || null,
+      end_time: day.end_time || null,
+      lunch_start_time: day.lunch_start_time || null,
+      lunch_end_time: day.lunch_end_time || null,
+    }));
 
     try {
       if (editingProfessional) {
-        // @ts-ignore
-        await updateProfessional({ ...editingProfessional, ...dataToSubmit });
+        await updateProfessional({ ...editingProfessional, ...professionalData });
+        await saveProfessionalSchedule(editingProfessional.id!, scheduleToSubmit, user.id);
         showSuccess('Profissional atualizado!', 'As alterações foram salvas com sucesso.');
       } else {
-        // @ts-ignore
-        await addProfessional(dataToSubmit, user.id);
+        const newProfessional = await addProfessional(professionalData, user.id);
+        await saveProfessionalSchedule(newProfessional.id!, scheduleToSubmit, user.id);
         showSuccess('Profissional adicionado!', 'O novo profissional foi adicionado à sua equipe.');
       }
       handleCloseModal();
@@ -131,29 +188,38 @@ export default function Professionals() {
 
   const handleEditProfessional = (professional: ProfessionalType) => {
     setEditingProfessional(professional);
+    const schedule = professionalSchedules.filter(s => s.professional_id === professional.id);
     reset({
       name: professional.name,
-      // @ts-ignore
       color: professional.color || defaultFormValues.color,
-      // @ts-ignore
-      work_start_time: professional.work_start_time || '',
-      // @ts-ignore
-      work_end_time: professional.work_end_time || '',
-      // @ts-ignore
-      lunch_start_time: professional.lunch_start_time || '',
-      // @ts-ignore
-      lunch_end_time: professional.lunch_end_time || '',
+      schedule: DAYS_OF_WEEK.map(day => {
+        const existing = schedule.find(s => s.day_of_week === day.value);
+        return {
+          day_of_week: day.value,
+          start_time: toTimeInput(existing?.start_time),
+          end_time: toTimeInput(existing?.end_time),
+          lunch_start_time: toTimeInput(existing?.lunch_start_time),
+          lunch_end_time: toTimeInput(existing?.lunch_end_time),
+        };
+      }),
     });
     setIsModalOpen(true);
   };
 
+  // Copia o horário de um dia para todos os outros dias da semana.
+  const copyDayToAll = (index: number) => {
+    const source = getValues(`schedule.${index}`);
+    const schedule = getValues('schedule').map(day => ({ ...source, day_of_week: day.day_of_week }));
+    setValue('schedule', schedule, { shouldValidate: true });
+  };
+
   const handleCloseModal = () => {
     setIsModalOpen(false);
     setEditingProfessional(null);
     reset(defaultFormValues);
   };
 
-  if (loading.professionals) {
+  if (loading.professionals || loading.professionalSchedules) {
     return <Layout><LoadingSpinner /></Layout>;
   }
 
@@ -195,8 +261,7 @@ export default function Professionals() {
                       <tr>
                         <th scope="col" className="py-3.5 pl-4 pr-3 text-left text-sm font-semibold text-gray-900 sm:pl-6">Nome</th>
                         <th scope="col" className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900">Cor</th>
-                        <th scope="col" className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900 hidden sm:table-cell">Horário de Trabalho</th>
-                        <th scope="col" className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900 hidden sm:table-cell">Horário de Almoço</th>
+                        <th scope="col" className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900 hidden sm:table-cell">Dias de Trabalho</th>
                         <th scope="col" className="relative py-3.5 pl-3 pr-4 sm:pr-6">
                           <span className="sr-only">Ações</span>
                         </th>
@@ -208,27 +273,17 @@ export default function Professionals() {
                           <td className="whitespace-nowrap py-4 pl-4 pr-3 text-sm font-medium text-gray-900 sm:pl-6">{professional.name}</td>
                           <td className="whitespace-nowrap px-3 py-4 text-sm text-gray-500">
                             <div className="flex items-center gap-2">
-                                {/* @ts-ignore */}
                                 <div className="h-5 w-5 rounded-full border border-gray-300" style={{ backgroundColor: professional.color || '#cccccc' }} />
-                                {/* @ts-ignore */}
                                 <span className="hidden md:inline">{professional.color || 'N/D'}</span>
                             </div>
                           </td>
-                          {/* @ts-ignore */}
                           <td className="whitespace-nowrap px-3 py-4 text-sm text-gray-500 hidden sm:table-cell">
-                            {professional.work_start_time && professional.work_end_time 
-                              ? `${professional.work_start_time} - ${professional.work_end_time}`
-                              : 'Não definido'
-                            }
-                          </td>
-                          {/* @ts-ignore */}
-                          <td className="whitespace-nowrap px-3 py-4 text-sm text-gray-500 hidden sm:table-cell">
-                            {professional.lunch_start_time && professional.lunch_end_time 
-                              ? `${professional.lunch_start_time} - ${professional.lunch_end_time}`
-                              : 'Não definido'
-                            }
+                            {summarizeSchedule(professionalSchedules.filter(s => s.professional_id === professional.id))}
                           </td>
                           <td className="relative whitespace-nowrap py-4 pl-3 pr-4 text-right text-sm font-medium sm:pr-6">
+                            <button onClick={() => setAbsencesProfessional(professional)} title="Ausências" className="text-gray-500 hover:text-gray-700 mr-4">
+                              <CalendarOff className="w-4 h-4" />
+                            </button>
                             <button onClick={() => handleEditProfessional(professional)} className="text-indigo-600 hover:text-indigo-900 mr-4">
                               <Edit className="w-4 h-4" />
                             </button>
@@ -250,7 +305,7 @@ export default function Professionals() {
           <div className="fixed inset-0 z-50 overflow-y-auto">
             <div className="flex items-center justify-center min-h-screen">
               <div className="fixed inset-0 bg-gray-500 bg-opacity-75" onClick={handleCloseModal}></div>
-              <div className="relative bg-white rounded-lg text-left overflow-hidden shadow-xl transform transition-all sm:max-w-lg sm:w-full">
+              <div className="relative bg-white rounded-lg text-left overflow-hidden shadow-xl transform transition-all sm:max-w-3xl sm:w-full">
                 <form onSubmit={handleSubmit(onSubmit)}>
                   <div className="bg-white px-4 pt-5 pb-4 sm:p-6 sm:pb-4">
                     <div className="flex items-center justify-between">
@@ -297,41 +352,51 @@ export default function Professionals() {
                           {errors.color && <p className="mt-1 text-sm text-red-600">{errors.color.message}</p>}
                       </div>
                       
-                      <div className="grid grid-cols-2 gap-4">
-                        <div>
-                          <label htmlFor="work_start_time" className="block text-sm font-medium text-gray-700">Início do Trabalho</label>
-                          <input
-                            type="time"
-                            {...register('work_start_time')}
-                            className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-pink-500 focus:border-pink-500 sm:text-sm"
-                          />
-                        </div>
-                        <div>
-                          <label htmlFor="work_end_time" className="block text-sm font-medium text-gray-700">Fim do Trabalho</label>
-                          <input
-                            type="time"
-                            {...register('work_end_time')}
-                            className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-pink-500 focus:border-pink-500 sm:text-sm"
-                          />
-                        </div>
-                      </div>
-                      
-                      <div className="grid grid-cols-2 gap-4">
-                        <div>
-                          <label htmlFor="lunch_start_time" className="block text-sm font-medium text-gray-700">Início do Almoço</label>
-                          <input
-                            type="time"
-                            {...register('lunch_start_time')}
-                            className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-pink-500 focus:border-pink-500 sm:text-sm"
-                          />
-                        </div>
-                        <div>
-                          <label htmlFor="lunch_end_time" className="block text-sm font-medium text-gray-700">Fim do Almoço</label>
-                          <input
-                            type="time"
-                            {...register('lunch_end_time')}
-                            className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-pink-500 focus:border-pink-500 sm:text-sm"
-                          />
+                      <div>
+                        <h4 className="block text-sm font-medium text-gray-700">Horário Semanal</h4>
+                        <p className="mt-1 text-xs text-gray-500">Deixe o expediente vazio nos dias de folga.</p>
+                        <div className="mt-2 overflow-x-auto">
+                          <table className="min-w-full text-sm">
+                            <thead>
+                              <tr className="text-left text-xs text-gray-500">
+                                <th className="py-1 pr-2 font-medium">Dia</th>
+                                <th className="py-1 px-1 font-medium" colSpan={2}>Expediente</th>
+                                <th className="py-1 px-1 font-medium" colSpan={2}>Almoço</th>
+                                <th className="py-1 pl-1"><span className="sr-only">Ações</span></th>
+                              </tr>
+                            </thead>
+                            <tbody>
+                              {scheduleFields.map((field, index) => {
+                                const dayErrors = errors.schedule?.[index];
+                                const dayError = dayErrors?.end_time?.message || dayErrors?.lunch_start_time?.message || dayErrors?.lunch_end_time?.message;
+                                return (
+                                  <tr key={field.id} className="align-top">
+                                    <td className="py-1 pr-2 text-gray-700 whitespace-nowrap">
+                                      {DAYS_OF_WEEK.find(d => d.value === field.day_of_week)?.label}
+                                      {dayError && <p className="text-xs text-red-600">{dayError}</p>}
+                                    </td>
+                                    <td className="py-1 px-1">
+                                      <input type="time" {...register(`schedule.${index}.start_time`)} aria-label="Início do expediente" className="block w-full border-gray-300 rounded-md shadow-sm focus:ring-pink-500 focus:border-pink-500 sm:text-sm" />
+                                    </td>
+                                    <td className="py-1 px-1">
+                                      <input type="time" {...register(`schedule.${index}.end_time`)} aria-label="Fim do expediente" className="block w-full border-gray-300 rounded-md shadow-sm focus:ring-pink-500 focus:border-pink-500 sm:text-sm" />
+                                    </td>
+                                    <td className="py-1 px-1">
+                                      <input type="time" {...register(`schedule.${index}.lunch_start_time`)} aria-label="Início do almoço" className="block w-full border-gray-300 rounded-md shadow-sm focus:ring-pink-500 focus:border-pink-500 sm:text-sm" />
+                                    </td>
+                                    <td className="py-1 px-1">
+                                      <input type="time" {...register(`schedule.${index}.lunch_end_time`)} aria-label="Fim do almoço" className="block w-full border-gray-300 rounded-md shadow-sm focus:ring-pink-500 focus:border-pink-500 sm:text-sm" />
+                                    </td>
+                                    <td className="py-1 pl-1">
+                                      <button type="button" onClick={() => copyDayToAll(index)} title="Aplicar este horário a todos os dias" className="p-2 text-gray-400 hover:text-pink-600">
+                                        <Copy className="w-4 h-4" />
+                                      </button>
+                                    </td>
+                                  </tr>
+                                );
+                              })}
+                            </tbody>
+                          </table>
                         </div>
                       </div>
                     </div>
@@ -350,6 +415,12 @@ export default function Professionals() {
           </div>
         )}
 
+        <ProfessionalAbsencesModal
+          isOpen={!!absencesProfessional}
+          onClose={() => setAbsencesProfessional(null)}
+          professional={absencesProfessional}
+        />
+
         <ConfirmationModal
           isOpen={isDeleteModalOpen}
           onClose={handleDeleteCancel}
@@ -0,0 +1,511 @@
+import { useState, useEffect, useMemo } from 'react';
+import { useForm, Controller } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import moment from 'moment';
+import { useSupabaseAuth } from '@/react-app/auth/SupabaseAuthProvider';
+import { useAppStore } from '@/shared/store';
+import Layout from '@/react-app/components/Layout';
+import LoadingSpinner from '@/react-app/components/LoadingSpinner';
+import ConfirmationModal from '@/react-app/components/ConfirmationModal';
+import { useToastHelpers } from '@/react-app/contexts/ToastContext';
+import { Tag, Plus, Edit, Trash2, X } from 'lucide-react';
+import type { CreatePromotionData, PromotionType } from '@/shared/types';
+import { CreatePromotionSchema } from '@/shared/types';
+import { DISCOUNT_TYPE_LABELS, WEEKDAY_LABELS, normalizeCouponCode } from '@/shared/promotions';
+import { collectTags } from '@/shared/clients';
+import { formatCurrency } from '@/react-app/utils';
+import { InputNumber } from 'primereact/inputnumber';
+import { MultiSelect } from 'primereact/multiselect';
+import { Dropdown } from 'primereact/dropdown';
+
+// Valores padrão para o formulário (desconto fixo em reais)
+const defaultFormValues: CreatePromotionData = {
+  name: '',
+  code: '',
+  discount_type: 'percent',
+  discount_value: 10,
+  service_ids: [],
+  client_tags: [],
+  weekdays: [],
+  start_time: null,
+  end_time: null,
+  valid_from: null,
+  valid_until: null,
+  active: true,
+};
+
+const discountTypeOptions = (Object.keys(DISCOUNT_TYPE_LABELS) as CreatePromotionData['discount_type'][])
+  .map(value => ({ label: DISCOUNT_TYPE_LABELS[value], value }));
+
+const formatDiscount = (promotion: Pick<PromotionType, 'discount_type' | 'discount_value'>) =>
+  promotion.discount_type === 'percent' ? `${promotion.discount_value}%` : formatCurrency(promotion.discount_value);
+
+// Resumo das condições, ex.: "Ter, Qui · 08:00 às 12:00 · até 31/12/2026"
+const describeConditions = (promotion: PromotionType) => {
+  const parts: string[] = [];
+  if (promotion.weekdays.length > 0) parts.push([...promotion.weekdays].sort().map(day => WEEKDAY_LABELS[day]).join(', '));
+  if (promotion.start_time || promotion.end_time) {
+    parts.push(`${promotion.start_time?.slice(0, 5) ?? 'abertura'} às ${promotion.end_time?.slice(0, 5) ?? 'fecho'}`);
+  }
+  if (promotion.valid_from) parts.push(`de ${moment(promotion.valid_from).format('DD/MM/YYYY')}`);
+  if (promotion.valid_until) parts.push(`até ${moment(promotion.valid_until).format('DD/MM/YYYY')}`);
+  return parts.length > 0 ? parts.join(' · ') : 'Todos os dias e horários';
+};
+
+/**
+ * Página para gerir as promoções: regras aplicadas automaticamente no agendamento
+ * (dia da semana, horário, serviço, etiqueta do cliente, validade) e cupons com código.
+ */
+export default function Promotions() {
+  const { user } = useSupabaseAuth();
+  const {
+    clients,
+    services,
+    promotions,
+    loading,
+    fetchClients,
+    fetchServices,
+    fetchPromotions,
+    addPromotion,
+    updatePromotion,
+    deletePromotion
+  } = useAppStore();
+  const { showSuccess, showError } = useToastHelpers();
+
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [editingPromotion, setEditingPromotion] = useState<PromotionType | null>(null);
+  const [promotionToDelete, setPromotionToDelete] = useState<PromotionType | null>(null);
+  const [isDeleting, setIsDeleting] = useState(false);
+
+  const {
+    register,
+    handleSubmit,
+    reset,
+    control,
+    watch,
+    formState: { errors, isSubmitting },
+  } = useForm<CreatePromotionData>({
+    resolver: zodResolver(CreatePromotionSchema),
+    defaultValues: defaultFormValues,
+  });
+  const watchedDiscountType = watch('discount_type');
+
+  useEffect(() => {
+    if (user) {
+      fetchClients(user.id);
+      fetchServices(user.id);
+      fetchPromotions(user.id);
+    }
+  }, [user, fetchClients, fetchServices, fetchPromotions]);
+
+  const serviceNames = useMemo(() => new Map(services.map(s => [s.id!, s.name])), [services]);
+  const tagOptions = useMemo(() => collectTags(clients).map(tag => ({ label: tag, value: tag })), [clients]);
+
+  const onSubmit = async (formData: CreatePromotionData) => {
+    if (!user) return;
+
+    const promotionData = {
+      ...formData,
+      code: formData.code ? normalizeCouponCode(formData.code) : null,
+      discount_value: formData.discount_type === 'fixed' ? Math.round(Number(formData.discount_value) * 100) : formData.discount_value,
+      start_time: formData.start_time || null,
+      end_time: formData.end_time || null,
+      valid_from: formData.valid_from || null,
+      valid_until: formData.valid_until || null,
+    };
+
+    try {
+      if (editingPromotion) {
+        await updatePromotion({ ...editingPromotion, ...promotionData });
+        showSuccess('Promoção atualizada!', 'Os agendamentos já gravados mantêm o desconto calculado.');
+      } else {
+        await addPromotion(promotionData, user.id);
+        showSuccess('Promoção criada!', promotionData.code ? `Cupom ${promotionData.code} disponível.` : 'O desconto é aplicado automaticamente nos agendamentos.');
+      }
+      handleCloseModal();
+    } catch (error) {
+      console.error('Erro ao salvar promoção:', (error as Error).message);
+      showError('Erro ao salvar promoção', (error as Error).message);
+    }
+  };
+
+  const handleDeleteConfirm = async () => {
+    if (!promotionToDelete) return;
+
+    setIsDeleting(true);
+    try {
+      await deletePromotion(promotionToDelete.id!);
+      showSuccess('Promoção removida!', 'Os agendamentos com esta promoção mantêm o desconto.');
+      setPromotionToDelete(null);
+    } catch (error) {
+      console.error('Erro ao excluir promoção:', (error as Error).message);
+      showError('Erro ao remover promoção', 'Tente novamente ou contacte o suporte se o problema persistir.');
+    } finally {
+      setIsDeleting(false);
+    }
+  };
+
+  const handleEditPromotion = (promotion: PromotionType) => {
+    setEditingPromotion(promotion);
+    reset({
+      name: promotion.name,
+      code: promotion.code || '',
+      discount_type: promotion.discount_type,
+      discount_value: promotion.discount_type === 'fixed' ? promotion.discount_value / 100 : promotion.discount_value,
+      service_ids: promotion.service_ids,
+      client_tags: promotion.client_tags,
+      weekdays: promotion.weekdays,
+      start_time: promotion.start_time?.slice(0, 5) ?? null,
+      end_time: promotion.end_time?.slice(0, 5) ?? null,
+      valid_from: promotion.valid_from ?? null,
+      valid_until: promotion.valid_until ?? null,
+      active: promotion.active,
+    });
+    setIsModalOpen(true);
+  };
+
+  const handleCloseModal = () => {
+    setIsModalOpen(false);
+    setEditingPromotion(null);
+    reset(defaultFormValues);
+  };
+
+  if (loading.promotions) {
+    return <Layout><LoadingSpinner /></Layout>;
+  }
+
+  return (
+    <Layout>
+      <div className="px-4 sm:px-6 lg:px-8">
+        <div className="sm:flex sm:items-center">
+          <div className="sm:flex-auto">
+            <h1 className="text-3xl font-bold text-gray-900">Promoções</h1>
+            <p className="mt-2 text-gray-600">Descontos automáticos por dia, horário, serviço ou cliente, e cupons com código</p>
+          </div>
+          <div className="mt-4 sm:mt-0 sm:ml-16 sm:flex-none">
+            <button
+              type="button"
+              onClick={() => setIsModalOpen(true)}
+              className="inline-flex items-center justify-center rounded-md border border-transparent bg-gradient-to-r from-pink-500 to-violet-500 px-4 py-2 text-sm font-medium text-white shadow-sm hover:from-pink-600 hover:to-violet-600 focus:outline-none focus:ring-2 focus:ring-pink-500 focus:ring-offset-2"
+            >
+              <Plus className="w-4 h-4 mr-2" />
+              Nova Promoção
+            </button>
+          </div>
+        </div>
+
+        <div className="mt-8">
+          {promotions.length === 0 ? (
+            <div className="text-center py-12">
+              <Tag className="mx-auto h-12 w-12 text-gray-400" />
+              <h3 className="mt-2 text-sm font-medium text-gray-900">Nenhuma promoção cadastrada</h3>
+              <p className="mt-1 text-sm text-gray-500">Crie regras como "terça de manhã -20%" ou cupons para campanhas.</p>
+            </div>
+          ) : (
+            <div className="grid gap-6 sm:grid-cols-1 lg:grid-cols-2 xl:grid-cols-3">
+              {promotions.map((promotion) => (
+                <div
+                  key={promotion.id}
+                  className={`bg-white overflow-hidden shadow-sm rounded-lg border border-gray-200 hover:shadow-md transition-shadow flex flex-col justify-between ${promotion.active ? '' : 'opacity-60'}`}
+                >
+                  <div className="px-6 py-4">
+                    <div className="flex items-start justify-between mb-3">
+                      <div className="flex-1">
+                        <h3 className="text-lg font-semibold text-gray-900">{promotion.name}</h3>
+                        <p className="text-sm text-gray-600 mt-1">
+                          {promotion.code ? <>Cupom <span className="font-mono font-medium">{promotion.code}</span></> : 'Aplicada automaticamente'}
+                        </p>
+                      </div>
+                      {!promotion.active && (
+                        <span className="ml-2 px-2 py-0.5 text-xs font-medium rounded-full bg-gray-100 text-gray-600">Inativa</span>
+                      )}
+                    </div>
+
+                    <p className="text-sm text-gray-600">{describeConditions(promotion)}</p>
+                    <p className="text-sm text-gray-600 mt-1">
+                      {promotion.service_ids.length > 0
+                        ? promotion.service_ids.map(id => serviceNames.get(id) ?? 'Serviço removido').join(', ')
+                        : 'Todos os serviços'}
+                    </p>
+                    {promotion.client_tags.length > 0 && (
+                      <p className="text-sm text-gray-600 mt-1">Clientes: {promotion.client_tags.join(', ')}</p>
+                    )}
+
+                    <div className="mt-4 text-lg font-bold text-green-600">-{formatDiscount(promotion)}</div>
+                  </div>
+
+                  <div className="px-6 py-3 bg-gray-50 border-t border-gray-200 flex justify-between space-x-3">
+                    <button
+                      onClick={() => handleEditPromotion(promotion)}
+                      className="flex-1 inline-flex items-center justify-center px-3 py-2 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-pink-500"
+                    >
+                      <Edit className="w-4 h-4 mr-1" />
+                      Editar
+                    </button>
+
+                    <button
+                      onClick={() => setPromotionToDelete(promotion)}
+                      className="flex-1 inline-flex items-center justify-center px-3 py-2 border border-red-300 shadow-sm text-sm font-medium rounded-md text-red-700 bg-white hover:bg-red-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-red-500"
+                    >
+                      <Trash2 className="w-4 h-4 mr-1" />
+                      Excluir
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {isModalOpen && (
+          <div className="fixed inset-0 z-50 overflow-y-auto">
+            <div className="flex items-end justify-center min-h-screen pt-4 px-4 pb-20 text-center sm:block sm:p-0">
+              <div className="fixed inset-0 bg-gray-500 bg-opacity-75 transition-opacity" onClick={handleCloseModal}></div>
+
+              <div className="inline-block align-bottom bg-white rounded-lg text-left overflow-hidden shadow-xl transform transition-all sm:my-8 sm:align-middle sm:max-w-lg sm:w-full">
+                <form onSubmit={handleSubmit(onSubmit)}>
+                  <div className="bg-white px-4 pt-5 pb-4 sm:p-6 sm:pb-4">
+                    <div className="flex items-center justify-between mb-4">
+                      <h3 className="text-lg font-medium text-gray-900">
+                        {editingPromotion ? 'Editar Promoção' : 'Nova Promoção'}
+                      </h3>
+                      <button type="button" onClick={handleCloseModal} className="text-gray-400 hover:text-gray-600">
+                        <X className="w-6 h-6" />
+                      </button>
+                    </div>
+
+                    <div className="space-y-4">
+                      <div className="grid grid-cols-2 gap-4">
+                        <div>
+                          <label htmlFor="name" className="block text-sm font-medium text-gray-700">Nome *</label>
+                          <input
+                            id="name"
+                            type="text"
+                            {...register('name')}
+                            placeholder="Ex: Terça de manhã"
+                            className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-pink-500 focus:border-pink-500 sm:text-sm"
+                          />
+                          {errors.name && <p className="mt-1 text-sm text-red-600">{errors.name.message}</p>}
+                        </div>
+
+                        <div>
+                          <label htmlFor="code" className="block text-sm font-medium text-gray-700">Código do cupom</label>
+                          <input
+                            id="code"
+                            type="text"
+                            {...register('code')}
+                            placeholder="Vazio: automática"
+                            className="mt-1 block w-full font-mono uppercase border-gray-300 rounded-md shadow-sm focus:ring-pink-500 focus:border-pink-500 sm:text-sm"
+                          />
+                          {errors.code && <p className="mt-1 text-sm text-red-600">{errors.code.message}</p>}
+                        </div>
+                      </div>
+
+                      <div className="grid grid-cols-2 gap-4">
+                        <div>
+                          <label className="block text-sm font-medium text-gray-700 mb-1">Tipo de desconto *</label>
+                          <Controller
+                            name="discount_type"
+                            control={control}
+                            render={({ field }) => (
+                              <Dropdown
+                                value={field.value}
+                                options={discountTypeOptions}
+                                onChange={(e) => field.onChange(e.value)}
+                                className="w-full"
+                              />
+                            )}
+                          />
+                        </div>
+
+                        <div>
+                          <label htmlFor="discount_value" className="block text-sm font-medium text-gray-700 mb-1">
+                            {watchedDiscountType === 'percent' ? 'Desconto (%) *' : 'Desconto (R$) *'}
+                          </label>
+                          <Controller
+                            name="discount_value"
+                            control={control}
+                            render={({ field, fieldState }) => (
+                              watchedDiscountType === 'percent' ? (
+                                <InputNumber
+                                  id={field.name}
+                                  ref={field.ref}
+                                  value={field.value}
+                                  onBlur={field.onBlur}
+                                  onValueChange={(e) => field.onChange(e.value)}
+                                  suffix="%"
+                                  min={1}
+                                  max={100}
+                                  className={`w-full ${fieldState.error ? 'p-invalid' : ''}`}
+                                />
+                              ) : (
+                                <InputNumber
+                                  id={field.name}
+                                  ref={field.ref}
+                                  value={field.value}
+                                  onBlur={field.onBlur}
+                                  onValueChange={(e) => field.onChange(e.value)}
+                                  mode="currency"
+                                  currency="BRL"
+                                  locale="pt-BR"
+                                  className={`w-full ${fieldState.error ? 'p-invalid' : ''}`}
+                                />
+                              )
+                            )}
+                          />
+                          {errors.discount_value && <p className="mt-1 text-sm text-red-600">{errors.discount_value.message}</p>}
+                        </div>
+                      </div>
+
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">Serviços</label>
+                        <Controller
+                          name="service_ids"
+                          control={control}
+                          render={({ field }) => (
+                            <MultiSelect
+                              value={field.value}
+                              options={services.map(s => ({ label: s.name, value: s.id }))}
+                              onChange={(e) => field.onChange(e.value)}
+                              placeholder="Todos os serviços"
+                              className="w-full"
+                              display="chip"
+                              filter
+                            />
+                          )}
+                        />
+                      </div>
+
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">Etiquetas do cliente</label>
+                        <Controller
+                          name="client_tags"
+                          control={control}
+                          render={({ field }) => (
+                            <MultiSelect
+                              value={field.value}
+                              options={tagOptions}
+                              onChange={(e) => field.onChange(e.value)}
+                              placeholder="Todos os clientes"
+                              className="w-full"
+                              display="chip"
+                              filter
+                            />
+                          )}
+                        />
+                      </div>
+
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">Dias da semana</label>
+                        <Controller
+                          name="weekdays"
+                          control={control}
+                          render={({ field }) => (
+                            <div className="flex flex-wrap gap-1">
+                              {WEEKDAY_LABELS.map((label, day) => {
+                                const selected = field.value.includes(day);
+                                return (
+                                  <button
+                                    key={day}
+                                    type="button"
+                                    onClick={() => field.onChange(selected ? field.value.filter(d => d !== day) : [...field.value, day])}
+                                    className={`px-2.5 py-1 text-xs font-medium rounded-md border ${selected ? 'border-pink-500 bg-pink-50 text-pink-700' : 'border-gray-300 bg-white text-gray-600 hover:bg-gray-50'}`}
+                                  >
+                                    {label}
+                                  </button>
+                                );
+                              })}
+                            </div>
+                          )}
+                        />
+                        <p className="mt-1 text-xs text-gray-500">Nenhum dia marcado: todos os dias.</p>
+                      </div>
+
+                      <div className="grid grid-cols-2 gap-4">
+                        <div>
+                          <label htmlFor="start_time" className="block text-sm font-medium text-gray-700">Início a partir de</label>
+                          <input
+                            id="start_time"
+                            type="time"
+                            {...register('start_time', { setValueAs: (value) => value || null })}
+                            className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-pink-500 focus:border-pink-500 sm:text-sm"
+                          />
+                        </div>
+                        <div>
+                          <label htmlFor="end_time" className="block text-sm font-medium text-gray-700">Início antes de</label>
+                          <input
+                            id="end_time"
+                            type="time"
+                            {...register('end_time', { setValueAs: (value) => value || null })}
+                            className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-pink-500 focus:border-pink-500 sm:text-sm"
+                          />
+                          {errors.end_time && <p className="mt-1 text-sm text-red-600">{errors.end_time.message}</p>}
+                        </div>
+                      </div>
+
+                      <div className="grid grid-cols-2 gap-4">
+                        <div>
+                          <label htmlFor="valid_from" className="block text-sm font-medium text-gray-700">Válida de</label>
+                          <input
+                            id="valid_from"
+                            type="date"
+                            {...register('valid_from', { setValueAs: (value) => value || null })}
+                            className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-pink-500 focus:border-pink-500 sm:text-sm"
+                          />
+                        </div>
+                        <div>
+                          <label htmlFor="valid_until" className="block text-sm font-medium text-gray-700">Válida até</label>
+                          <input
+                            id="valid_until"
+                            type="date"
+                            {...register('valid_until', { setValueAs: (value) => value || null })}
+                            className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-pink-500 focus:border-pink-500 sm:text-sm"
+                          />
+                          {errors.valid_until && <p className="mt-1 text-sm text-red-600">{errors.valid_until.message}</p>}
+                        </div>
+                      </div>
+
+                      <label className="flex items-center gap-2 text-sm text-gray-700">
+                        <input type="checkbox" {...register('active')} className="rounded border-gray-300 text-pink-600 focus:ring-pink-500" />
+                        Ativa
+                      </label>
+                    </div>
+                  </div>
+
+                  <div className="bg-gray-50 px-4 py-3 sm:px-6 sm:flex sm:flex-row-reverse">
+                    <button
+                      type="submit"
+                      disabled={isSubmitting}
+                      className="w-full inline-flex justify-center rounded-md border border-transparent shadow-sm px-4 py-2 bg-gradient-to-r from-pink-500 to-violet-500 text-base font-medium text-white hover:from-pink-600 hover:to-violet-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-pink-500 sm:ml-3 sm:w-auto sm:text-sm disabled:opacity-50"
+                    >
+                      {isSubmitting ? 'Salvando...' : (editingPromotion ? 'Atualizar' : 'Criar')}
+                    </button>
+                    <button
+                      type="button"
+                      onClick={handleCloseModal}
+                      className="mt-3 w-full inline-flex justify-center rounded-md border border-gray-300 shadow-sm px-4 py-2 bg-white text-base font-medium text-gray-700 hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-pink-500 sm:mt-0 sm:ml-3 sm:w-auto sm:text-sm"
+                    >
+                      Cancelar
+                    </button>
+                  </div>
+                </form>
+              </div>
+            </div>
+          </div>
+        )}
+
+        <ConfirmationModal
+          isOpen={!!promotionToDelete}
+          onClose={() => setPromotionToDelete(null)}
+          onConfirm={handleDeleteConfirm}
+          title="Excluir Promoção"
+          message={`Tem certeza que deseja excluir a promoção "${promotionToDelete?.name}"? Os agendamentos já gravados mantêm o desconto.`}
+          confirmText="Excluir"
+          cancelText="Cancelar"
+          variant="danger"
+          isLoading={isDeleting}
+        />
+      </div>
+    </Layout>
+  );
+}
@@ -0,0 +1,305 @@
+// src/react-app/pages/PublicBooking.tsx
+
+import { useEffect, useState } from 'react';
+import { useParams } from 'react-router-dom';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Calendar } from 'primereact/calendar';
+import { Dropdown } from 'primereact/dropdown';
+import { SelectButton } from 'primereact/selectbutton';
+import moment from 'moment';
+import { Scissors, CheckCircle, AlertCircle, Calendar as CalendarIcon } from 'lucide-react';
+import LoadingSpinner from '../components/LoadingSpinner';
+import { PublicBookingSchema } from '../../shared/types';
+
+// --- Definição de Tipos ---
+interface PublicService {
+  id: number;
+  name: string;
+  description?: string | null;
+  price: number; // Em centavos
+  duration: number;
+}
+
+interface PublicSalon {
+  salon_name: string;
+  first_date: string; // YYYY-MM-DD
+  last_date: string;
+  services: PublicService[];
+  professionals: { id: number; name: string }[];
+}
+
+interface BookingConfirmation {
+  service: string;
+  professional: string;
+  appointment_date: string;
+  manage_url: string; // Link assinado para o cliente ver, cancelar ou remarcar
+}
+
+const ContactSchema = PublicBookingSchema.pick({ client_name: true, client_phone: true });
+type ContactFormData = { client_name: string; client_phone: string };
+
+const formatCurrency = (cents: number) =>
+  new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' }).format(cents / 100);
+
+// Lê o erro devolvido pelo Worker ({ error: string })
+const readError = async (response: Response) => {
+  const body = await response.json().catch(() => null);
+  return (body as { error?: string } | null)?.error ?? 'Ocorreu um erro. Tente novamente.';
+};
+
+/**
+ * Página pública de agendamento de um salão (/book/:slug), sem autenticação.
+ * O cliente escolhe o serviço, o profissional (ou qualquer um), o dia e o horário,
+ * e deixa o nome e o telefone. O agendamento fica aguardando a confirmação do salão.
+ */
+export default function PublicBooking() {
+  const { slug } = useParams<{ slug: string }>();
+
+  // --- Estados do Componente ---
+  const [salon, setSalon] = useState<PublicSalon | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [notFound, setNotFound] = useState(false);
+  const [serviceId, setServiceId] = useState<number | null>(null);
+  const [professionalId, setProfessionalId] = useState<number | null>(null);
+  const [date, setDate] = useState<Date | null>(null);
+  const [slots, setSlots] = useState<string[]>([]);
+  const [loadingSlots, setLoadingSlots] = useState(false);
+  const [time, setTime] = useState<string | null>(null);
+  const [slotsVersion, setSlotsVersion] = useState(0); // Força o recarregamento dos horários
+  const [submitError, setSubmitError] = useState<string | null>(null);
+  const [confirmation, setConfirmation] = useState<BookingConfirmation | null>(null);
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors, isSubmitting },
+  } = useForm<ContactFormData>({ resolver: zodResolver(ContactSchema) });
+
+  const day = date ? moment(date).format('YYYY-MM-DD') : null;
+
+  // --- Efeitos para Carregar os Dados ---
+  useEffect(() => {
+    fetch(`/api/public/${slug}`)
+      .then(async (response) => {
+        if (!response.ok) {
+          setNotFound(true);
+          return;
+        }
+        const data: PublicSalon = await response.json();
+        setSalon(data);
+        setDate(moment(data.first_date).toDate());
+      })
+      .catch(() => setNotFound(true))
+      .finally(() => setLoading(false));
+  }, [slug]);
+
+  useEffect(() => {
+    setTime(null);
+    setSlots([]);
+    if (!serviceId || !day) return;
+
+    const params = new URLSearchParams({ date: day, service_id: String(serviceId) });
+    if (professionalId) params.set('professional_id', String(professionalId));
+    setLoadingSlots(true);
+    fetch(`/api/public/${slug}/availability?${params}`)
+      .then(response => (response.ok ? response.json() : { slots: [] }))
+      .then((data: { slots: string[] }) => setSlots(data.slots))
+      .catch(() => setSlots([]))
+      .finally(() => setLoadingSlots(false));
+  }, [slug, serviceId, professionalId, day, slotsVersion]);
+
+  const onSubmit = async (contact: ContactFormData) => {
+    if (!serviceId || !day || !time) return;
+    setSubmitError(null);
+    const response = await fetch(`/api/public/${slug}/bookings`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        ...contact,
+        service_id: serviceId,
+        professional_id: professionalId,
+        appointment_date: `${day} ${time}:00`,
+      }),
+    }).catch(() => null);
+
+    if (!response) {
+      setSubmitError('Não foi possível contatar o salão. Verifique sua conexão.');
+      return;
+    }
+    if (!response.ok) {
+      setSubmitError(await readError(response));
+      // O horário pode ter sido ocupado entretanto: recarrega a lista
+      if (response.status === 409) setSlotsVersion(version => version + 1);
+      return;
+    }
+    setConfirmation(await response.json());
+  };
+
+  if (loading) {
+    return <LoadingSpinner />;
+  }
+
+  const header = (
+    <div className="text-center mb-8">
+      <div className="inline-flex items-center justify-center bg-gradient-to-r from-pink-500 to-violet-500 rounded-xl p-3 mb-4">
+        <Scissors className="w-8 h-8 text-white" />
+      </div>
+      <h1 className="text-3xl font-bold text-gray-900">{salon?.salon_name ?? 'Agendamento online'}</h1>
+    </div>
+  );
+
+  if (notFound || !salon) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center p-4">
+        <div className="w-full max-w-md">
+          {header}
+          <div className="bg-white p-8 rounded-lg shadow-md border border-gray-200 text-center">
+            <AlertCircle className="mx-auto h-12 w-12 text-gray-400" />
+            <p className="mt-2 text-sm text-gray-600">Esta página de agendamento não está disponível.</p>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (confirmation) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center p-4">
+        <div className="w-full max-w-md">
+          {header}
+          <div className="bg-white p-8 rounded-lg shadow-md border border-gray-200 text-center">
+            <CheckCircle className="mx-auto h-12 w-12 text-green-500" />
+            <h2 className="mt-2 text-lg font-medium text-gray-900">Pedido de agendamento enviado!</h2>
+            <p className="mt-2 text-sm text-gray-600">
+              {confirmation.service} com {confirmation.professional}
+              <br />
+              {moment(confirmation.appointment_date).locale('pt-br').format('dddd, D [de] MMMM [às] HH:mm')}
+            </p>
+            <p className="mt-4 text-sm text-gray-500">O salão vai confirmar o seu horário.</p>
+            <p className="mt-4 text-sm text-gray-600">
+              Guarde este link para ver, cancelar ou remarcar o seu agendamento:
+            </p>
+            <a href={confirmation.manage_url} className="mt-1 block text-sm text-pink-600 hover:text-pink-700 break-all">
+              {confirmation.manage_url}
+            </a>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  const professionalOptions = [{ id: null, name: 'Qualquer profissional' }, ...salon.professionals];
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-8 px-4">
+      <div className="w-full max-w-2xl mx-auto">
+        {header}
+
+        <form onSubmit={handleSubmit(onSubmit)} className="bg-white p-6 rounded-lg shadow-md border border-gray-200 space-y-6">
+          <div>
+            <h2 className="text-sm font-medium text-gray-700 mb-2">1. Escolha o serviço</h2>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+              {salon.services.map(service => (
+                <button
+                  key={service.id}
+                  type="button"
+                  onClick={() => setServiceId(service.id)}
+                  className={`text-left p-3 rounded-lg border transition-colors ${
+                    serviceId === service.id ? 'border-pink-500 bg-pink-50' : 'border-gray-200 hover:bg-gray-50'
+                  }`}
+                >
+                  <p className="text-sm font-medium text-gray-900">{service.name}</p>
+                  <p className="text-xs text-gray-500">{formatCurrency(service.price)} · {service.duration} min</p>
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <h2 className="text-sm font-medium text-gray-700 mb-2">2. Escolha o profissional</h2>
+            <Dropdown
+              value={professionalId}
+              options={professionalOptions}
+              onChange={(e) => setProfessionalId(e.value)}
+              optionLabel="name"
+              optionValue="id"
+              className="w-full"
+            />
+          </div>
+
+          <div>
+            <h2 className="text-sm font-medium text-gray-700 mb-2">3. Escolha o dia e o horário</h2>
+            <Calendar
+              value={date}
+              onChange={(e) => setDate(e.value as Date)}
+              minDate={moment(salon.first_date).toDate()}
+              maxDate={moment(salon.last_date).toDate()}
+              locale="pt-BR"
+              dateFormat="dd/mm/yy"
+              showIcon
+              icon={<CalendarIcon className="w-5 h-5 text-gray-500" />}
+              className="w-full mb-3"
+            />
+            {!serviceId ? (
+              <div className="text-center p-4 bg-gray-100 rounded-md text-sm text-gray-600">Selecione um serviço para ver os horários.</div>
+            ) : loadingSlots ? (
+              <div className="text-center p-4 text-sm text-gray-500">Carregando horários...</div>
+            ) : slots.length === 0 ? (
+              <div className="text-center p-4 bg-gray-100 rounded-md text-sm text-gray-600">Nenhum horário disponível neste dia.</div>
+            ) : (
+              <SelectButton
+                value={time}
+                options={slots}
+                onChange={(e) => setTime(e.value)}
+                className="flex flex-wrap gap-2"
+              />
+            )}
+          </div>
+
+          <div>
+            <h2 className="text-sm font-medium text-gray-700 mb-2">4. Seus dados</h2>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div>
+                <label htmlFor="client_name" className="block text-sm font-medium text-gray-700">Nome *</label>
+                <input
+                  type="text"
+                  id="client_name"
+                  {...register('client_name')}
+                  className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-pink-500 focus:border-pink-500 sm:text-sm"
+                />
+                {errors.client_name && <p className="mt-1 text-sm text-red-600">{errors.client_name.message}</p>}
+              </div>
+              <div>
+                <label htmlFor="client_phone" className="block text-sm font-medium text-gray-700">Telefone *</label>
+                <input
+                  type="tel"
+                  id="client_phone"
+                  {...register('client_phone')}
+                  placeholder="(11) 91234-5678"
+                  className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-pink-500 focus:border-pink-500 sm:text-sm"
+                />
+                {errors.client_phone && <p className="mt-1 text-sm text-red-600">{errors.client_phone.message}</p>}
+              </div>
+            </div>
+          </div>
+
+          {submitError && (
+            <div className="flex items-center p-3 bg-red-50 rounded-md text-sm text-red-700">
+              <AlertCircle className="w-4 h-4 mr-2 flex-shrink-0" />
+              {submitError}
+            </div>
+          )}
+
+          <button
+            type="submit"
+            disabled={isSubmitting || !serviceId || !time}
+            className="w-full inline-flex justify-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-gradient-to-r from-pink-500 to-violet-500 hover:from-pink-600 hover:to-violet-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-pink-500 disabled:opacity-50"
+          >
+            {isSubmitting ? 'Enviando...' : 'Pedir agendamento'}
+          </button>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -6,8 +6,9 @@ import { useAppStore } from '@/shared/store';
 import Layout from '@/react-app/components/Layout';
 import LoadingSpinner from '@/react-app/components/LoadingSpinner';
 import ConfirmationModal from '@/react-app/components/ConfirmationModal';
+import ImportWizardModal from '@/react-app/components/ImportWizardModal';
 import { useToastHelpers } from '@/react-app/contexts/ToastContext';
-import { Scissors, Plus, Edit, Trash2, Clock, X, Search } from 'lucide-react';
+import { Scissors, Plus, Edit, Trash2, Clock, X, Search, Upload } from 'lucide-react';
 import type { ServiceType } from '@/shared/types';
 import { CreateServiceSchema } from '@/shared/types';
 import { formatCurrency } from '@/react-app/utils';
@@ -19,6 +20,7 @@ interface ServiceFormData {
   description?: string;
   price: number;
   duration: number; // Duração em minutos
+  loyalty_points?: number | null; // Vazio: taxa por real do programa de fidelidade
 }
 
 // Valores padrão para o formulário
@@ -27,6 +29,7 @@ const defaultFormValues: ServiceFormData = {
   description: '',
   price: 0,
   duration: 30,
+  loyalty_points: null,
 };
 
 /**
@@ -50,6 +53,7 @@ export default function Services() {
   const [isDeleteModalOpen, setIsDeleteModalOpen] = useState(false);
   const [serviceToDelete, setServiceToDelete] = useState<ServiceType | null>(null);
   const [isDeleting, setIsDeleting] = useState(false);
+  const [isImportOpen, setIsImportOpen] = useState(false);
 
   const {
     register,
@@ -88,6 +92,7 @@ export default function Services() {
       ...formData,
       price: Math.round(Number(formData.price) * 100),
       duration: Number(formData.duration),
+      loyalty_points: formData.loyalty_points ?? null,
     };
 
     try {
@@ -139,6 +144,7 @@ export default function Services() {
       description: service.description || '',
       price: service.price / 100, // Ajuste para exibir o valor correto no formulário
       duration: service.duration,
+      loyalty_points: service.loyalty_points ?? null,
     });
     setIsModalOpen(true);
   };
@@ -161,7 +167,15 @@ export default function Services() {
             <h1 className="text-3xl font-bold text-gray-900">Serviços</h1>
             <p className="mt-2 text-gray-600">Gerencie seu catálogo de serviços</p>
           </div>
-          <div className="mt-4 sm:mt-0 sm:ml-16 sm:flex-none">
+          <div className="mt-4 sm:mt-0 sm:ml-16 sm:flex-none flex gap-3">
+            <button
+              type="button"
+              onClick={() => setIsImportOpen(true)}
+              className="inline-flex items-center justify-center rounded-md border border-gray-300 bg-white px-4 py-2 text-sm font-medium text-gray-700 shadow-sm hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-pink-500 focus:ring-offset-2"
+            >
+              <Upload className="w-4 h-4 mr-2" />
+              Importar
+            </button>
             <button
               type="button"
               onClick={() => setIsModalOpen(true)}
@@ -356,6 +370,21 @@ export default function Services() {
                           {errors.duration && <p className="mt-1 text-sm text-red-600">{errors.duration.message}</p>}
                         </div>
                       </div>
+
+                      <div>
+                        <label htmlFor="loyalty_points" className="block text-sm font-medium text-gray-700">
+                          Pontos de fidelidade
+                        </label>
+                        <input
+                          type="number"
+                          min={0}
+                          {...register('loyalty_points', { setValueAs: (value) => (value === '' || value === null ? null : Number(value)) })}
+                          placeholder="Pela taxa por real"
+                          className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-pink-500 focus:border-pink-500 sm:text-sm"
+                        />
+                        <p className="mt-1 text-xs text-gray-500">Pontos fixos ganhos com este serviço. Vazio: usa a taxa por real definida nas Configurações.</p>
+                        {errors.loyalty_points && <p className="mt-1 text-sm text-red-600">{errors.loyalty_points.message}</p>}
+                      </div>
                     </div>
                   </div>
 
@@ -381,6 +410,8 @@ export default function Services() {
           </div>
         )}
 
+        <ImportWizardModal isOpen={isImportOpen} onClose={() => setIsImportOpen(false)} target="services" />
+
         <ConfirmationModal
           isOpen={isDeleteModalOpen}
           onClose={handleDeleteCancel}
@@ -1,12 +1,20 @@
 import { useState, useEffect } from 'react';
 import { useForm, useFieldArray } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
 import { useSupabaseAuth } from '../auth/SupabaseAuthProvider';
-import { supabase } from '../supabaseClient';
+import { supabase, fetchWorker } from '../supabaseClient';
 import Layout from '../components/Layout';
 import LoadingSpinner from '../components/LoadingSpinner';
-import { Settings as SettingsIcon, Clock, Plus, Trash2, X, Save } from 'lucide-react';
+import { Settings as SettingsIcon, Clock, Plus, Trash2, X, Save, Globe, Copy, Bell, Send } from 'lucide-react';
 import { useToastHelpers } from '../contexts/ToastContext';
 import ConfirmationModal from '../components/ConfirmationModal';
+import MessageTemplatesEditor from '../components/MessageTemplatesEditor';
+import LoyaltyProgramSection from '../components/LoyaltyProgramSection';
+import BackupSection from '../components/BackupSection';
+import { DAYS_OF_WEEK } from '../utils';
+import { BookingSettingsFormSchema, NotificationSettingsFormSchema, type BookingSettingsFormData, type NotificationSettingsFormData } from '../../shared/types';
+import { slugify } from '../../shared/onlineBooking';
+import { CHANNEL_LABELS } from '../../shared/notifications';
 
 // --- Definição de Tipos ---
 interface BusinessHours {
@@ -25,16 +33,6 @@ interface BusinessException {
   description: string;
 }
 
-const DAYS_OF_WEEK = [
-  { value: 1, label: 'Segunda-feira' },
-  { value: 2, label: 'Terça-feira' },
-  { value: 3, label: 'Quarta-feira' },
-  { value: 4, label: 'Quinta-feira' },
-  { value: 5, label: 'Sexta-feira' },
-  { value: 6, label: 'Sábado' },
-  { value: 0, label: 'Domingo' },
-];
-
 /**
  * Página para gerir as configurações do estabelecimento.
  */
@@ -76,12 +74,54 @@ export default function Settings() {
     formState: { errors: exceptionErrors, isSubmitting: isSubmittingException },
   } = useForm<BusinessException>();
 
+  // --- Formulário do Agendamento Online ---
+  const {
+    register: registerBooking,
+    handleSubmit: handleSubmitBooking,
+    reset: resetBooking,
+    watch: watchBooking,
+    setValue: setBookingValue,
+    formState: { errors: bookingErrors, isSubmitting: isSubmittingBooking },
+  } = useForm<BookingSettingsFormData>({
+    resolver: zodResolver(BookingSettingsFormSchema),
+    defaultValues: {
+      slug: '',
+      salon_name: '',
+      enabled: false,
+      booking_window_days: 30,
+      lead_time_minutes: 120,
+      cancellation_notice_hours: 24,
+      cancellation_policy: '',
+    },
+  });
+  const bookingSlug = watchBooking('slug');
+  const bookingSalonName = watchBooking('salon_name');
+
+  // --- Formulário dos Lembretes ---
+  const {
+    register: registerReminders,
+    handleSubmit: handleSubmitReminders,
+    reset: resetReminders,
+    formState: { errors: reminderErrors, isSubmitting: isSubmittingReminders },
+  } = useForm<NotificationSettingsFormData>({
+    resolver: zodResolver(NotificationSettingsFormSchema),
+    defaultValues: {
+      reminders_enabled: false,
+      channel: 'whatsapp',
+      reminder_hours_before: 24,
+    },
+  });
+  const [isSendingReminders, setIsSendingReminders] = useState(false);
+  const bookingUrl = `${window.location.origin}/book/${bookingSlug}`;
+
   // --- Efeito para Carregar os Dados ---
   useEffect(() => {
     if (user) {
       Promise.all([
         fetchBusinessHours(),
-        fetchExceptions()
+        fetchExceptions(),
+        fetchBookingSettings(),
+        fetchNotificationSettings()
       ]).finally(() => setLoading(false));
     }
   }, [user]);
@@ -150,6 +190,101 @@ export default function Settings() {
     }
   };
 
+  const fetchBookingSettings = async () => {
+    if (!user) return;
+    try {
+      const { data, error } = await supabase
+        .from('booking_settings')
+        .select('slug, salon_name, enabled, booking_window_days, lead_time_minutes, cancellation_notice_hours, cancellation_policy')
+        .eq('user_id', user.id)
+        .maybeSingle();
+
+      if (error) throw error;
+      if (data) resetBooking(data);
+    } catch (error) {
+      console.error('Erro ao carregar agendamento online:', (error as Error).message);
+      showError('Erro ao carregar agendamento online', 'Não foi possível buscar as configurações da página pública.');
+    }
+  };
+
+  const onSubmitBooking = async (data: BookingSettingsFormData) => {
+    if (!user) return;
+    try {
+      const { error } = await supabase
+        .from('booking_settings')
+        .upsert({ ...data, user_id: user.id, updated_at: new Date().toISOString() }, { onConflict: 'user_id' });
+
+      // 23505: o endereço já é usado por outro salão
+      if (error?.code === '23505') {
+        showError('Endereço indisponível', 'Este endereço já está sendo usado. Escolha outro.');
+        return;
+      }
+      if (error) throw error;
+
+      showSuccess('Agendamento online salvo!', data.enabled ? 'Sua página pública está ativa.' : 'Sua página pública está desativada.');
+    } catch (error) {
+      console.error('Erro ao salvar agendamento online:', (error as Error).message);
+      showError('Erro ao salvar', 'Não foi possível salvar as configurações. Tente novamente.');
+    }
+  };
+
+  const fetchNotificationSettings = async () => {
+    if (!user) return;
+    try {
+      const { data, error } = await supabase
+        .from('notification_settings')
+        .select('reminders_enabled, channel, reminder_hours_before')
+        .eq('user_id', user.id)
+        .maybeSingle();
+
+      if (error) throw error;
+      if (data) resetReminders(data);
+    } catch (error) {
+      console.error('Erro ao carregar lembretes:', (error as Error).message);
+      showError('Erro ao carregar lembretes', 'Não foi possível buscar as configurações dos lembretes.');
+    }
+  };
+
+  const onSubmitReminders = async (data: NotificationSettingsFormData) => {
+    if (!user) return;
+    try {
+      const { error } = await supabase
+        .from('notification_settings')
+        .upsert({ ...data, user_id: user.id, updated_at: new Date().toISOString() }, { onConflict: 'user_id' });
+      if (error) throw error;
+
+      showSuccess('Lembretes salvos!', data.reminders_enabled ? `Os clientes serão lembrados ${data.reminder_hours_before}h antes por ${CHANNEL_LABELS[data.channel]}.` : 'Os lembretes estão desativados.');
+    } catch (error) {
+      console.error('Erro ao salvar lembretes:', (error as Error).message);
+      showError('Erro ao salvar', 'Não foi possível salvar os lembretes. Tente novamente.');
+    }
+  };
+
+  // Os lembretes são enviados automaticamente pelo Worker; isto antecipa o próximo envio
+  const sendDueReminders = async () => {
+    setIsSendingReminders(true);
+    try {
+      const response = await fetchWorker('/api/notifications/send-due', { method: 'POST' });
+      if (!response.ok) throw new Error('Não foi possível enviar os lembretes.');
+      const { sent, failed } = await response.json();
+      if (sent + failed === 0) showSuccess('Nenhum lembrete pendente.');
+      else showSuccess(`${sent} lembrete(s) enviado(s)`, failed > 0 ? `${failed} não puderam ser enviados; veja o agendamento para o motivo.` : undefined);
+    } catch (error) {
+      showError('Erro ao enviar lembretes', (error as Error).message);
+    } finally {
+      setIsSendingReminders(false);
+    }
+  };
+
+  const copyBookingUrl = async () => {
+    try {
+      await navigator.clipboard.writeText(bookingUrl);
+      showSuccess('Link copiado!');
+    } catch {
+      showError('Não foi possível copiar o link.');
+    }
+  };
+
   const onSubmitException = async (data: BusinessException) => {
     if (!user) return;
     try {
@@ -361,6 +496,185 @@ export default function Settings() {
               )}
             </div>
           </div>
+          <div className="bg-white shadow-sm rounded-lg border border-gray-200">
+            <div className="px-6 py-4 border-b border-gray-200">
+              <div className="flex items-center">
+                <Globe className="w-5 h-5 text-gray-500 mr-2" />
+                <h3 className="text-lg font-medium text-gray-900">Agendamento Online</h3>
+              </div>
+            </div>
+            <form onSubmit={handleSubmitBooking(onSubmitBooking)} className="px-6 py-6 space-y-4">
+              <label className="flex items-center space-x-2">
+                <input type="checkbox" {...registerBooking('enabled')} className="rounded border-gray-300 text-pink-600 focus:ring-pink-500" />
+                <span className="text-sm font-medium text-gray-700">Permitir que os clientes agendem pela página pública</span>
+              </label>
+
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <div>
+                  <label htmlFor="salon_name" className="block text-sm font-medium text-gray-700">Nome do salão *</label>
+                  <input
+                    type="text"
+                    id="salon_name"
+                    {...registerBooking('salon_name', {
+                      onBlur: (e) => { if (!bookingSlug) setBookingValue('slug', slugify(e.target.value)); },
+                    })}
+                    className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-pink-500 focus:border-pink-500 sm:text-sm"
+                  />
+                  {bookingErrors.salon_name && <p className="mt-1 text-sm text-red-600">{bookingErrors.salon_name.message}</p>}
+                </div>
+                <div>
+                  <label htmlFor="slug" className="block text-sm font-medium text-gray-700">Endereço da página *</label>
+                  <input
+                    type="text"
+                    id="slug"
+                    {...registerBooking('slug')}
+                    placeholder="meu-salao"
+                    className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-pink-500 focus:border-pink-500 sm:text-sm"
+                  />
+                  {bookingErrors.slug && <p className="mt-1 text-sm text-red-600">{bookingErrors.slug.message}</p>}
+                </div>
+                <div>
+                  <label htmlFor="booking_window_days" className="block text-sm font-medium text-gray-700">Agendar até (dias à frente)</label>
+                  <input
+                    type="number"
+                    id="booking_window_days"
+                    min={1}
+                    max={365}
+                    {...registerBooking('booking_window_days', { valueAsNumber: true })}
+                    className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-pink-500 focus:border-pink-500 sm:text-sm"
+                  />
+                  {bookingErrors.booking_window_days && <p className="mt-1 text-sm text-red-600">{bookingErrors.booking_window_days.message}</p>}
+                </div>
+                <div>
+                  <label htmlFor="lead_time_minutes" className="block text-sm font-medium text-gray-700">Antecedência mínima (minutos)</label>
+                  <input
+                    type="number"
+                    id="lead_time_minutes"
+                    min={0}
+                    step={15}
+                    {...registerBooking('lead_time_minutes', { valueAsNumber: true })}
+                    className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-pink-500 focus:border-pink-500 sm:text-sm"
+                  />
+                  {bookingErrors.lead_time_minutes && <p className="mt-1 text-sm text-red-600">{bookingErrors.lead_time_minutes.message}</p>}
+                </div>
+              </div>
+
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                <div>
+                  <label htmlFor="cancellation_notice_hours" className="block text-sm font-medium text-gray-700">Cancelar/remarcar até (horas antes)</label>
+                  <input
+                    type="number"
+                    id="cancellation_notice_hours"
+                    min={0}
+                    {...registerBooking('cancellation_notice_hours', { valueAsNumber: true })}
+                    className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-pink-500 focus:border-pink-500 sm:text-sm"
+                  />
+                  {bookingErrors.cancellation_notice_hours && <p className="mt-1 text-sm text-red-600">{bookingErrors.cancellation_notice_hours.message}</p>}
+                </div>
+                <div className="sm:col-span-2">
+                  <label htmlFor="cancellation_policy" className="block text-sm font-medium text-gray-700">Política de cancelamento</label>
+                  <textarea
+                    id="cancellation_policy"
+                    rows={2}
+                    {...registerBooking('cancellation_policy')}
+                    placeholder="Ex: Cancelamentos com menos de 24 horas de antecedência podem ser cobrados."
+                    className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-pink-500 focus:border-pink-500 sm:text-sm"
+                  />
+                  <p className="mt-1 text-xs text-gray-500">Mostrada ao cliente na página de gestão do agendamento.</p>
+                </div>
+              </div>
+
+              {bookingSlug && (
+                <div className="flex items-center justify-between p-3 bg-blue-50 rounded-lg">
+                  <span className="text-sm text-blue-900 truncate">{bookingUrl}</span>
+                  <button type="button" onClick={copyBookingUrl} className="ml-2 inline-flex items-center text-sm text-blue-700 hover:text-blue-900">
+                    <Copy className="w-4 h-4 mr-1" /> Copiar
+                  </button>
+                </div>
+              )}
+
+              <div className="flex justify-end">
+                <button
+                  type="submit"
+                  disabled={isSubmittingBooking}
+                  className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-gradient-to-r from-pink-500 to-violet-500 hover:from-pink-600 hover:to-violet-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-pink-500 disabled:opacity-50"
+                >
+                  <Save className="w-4 h-4 mr-2" />
+                  {isSubmittingBooking ? 'Salvando...' : 'Salvar Agendamento Online'}
+                </button>
+              </div>
+            </form>
+          </div>
+
+          <div className="bg-white shadow-sm rounded-lg border border-gray-200">
+            <div className="px-6 py-4 border-b border-gray-200">
+              <div className="flex items-center">
+                <Bell className="w-5 h-5 text-gray-500 mr-2" />
+                <h3 className="text-lg font-medium text-gray-900">Lembretes</h3>
+              </div>
+            </div>
+            <form onSubmit={handleSubmitReminders(onSubmitReminders)} className="px-6 py-6 space-y-4">
+              <label className="flex items-center space-x-2">
+                <input type="checkbox" {...registerReminders('reminders_enabled')} className="rounded border-gray-300 text-pink-600 focus:ring-pink-500" />
+                <span className="text-sm font-medium text-gray-700">Enviar lembretes automáticos aos clientes antes do agendamento</span>
+              </label>
+
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <div>
+                  <label htmlFor="channel" className="block text-sm font-medium text-gray-700">Canal</label>
+                  <select
+                    id="channel"
+                    {...registerReminders('channel')}
+                    className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-pink-500 focus:border-pink-500 sm:text-sm"
+                  >
+                    {Object.entries(CHANNEL_LABELS).map(([value, label]) => (
+                      <option key={value} value={value}>{label}</option>
+                    ))}
+                  </select>
+                  <p className="mt-1 text-xs text-gray-500">Usa o telefone ou o e-mail registado no cliente.</p>
+                </div>
+                <div>
+                  <label htmlFor="reminder_hours_before" className="block text-sm font-medium text-gray-700">Enviar (horas antes)</label>
+                  <input
+                    type="number"
+                    id="reminder_hours_before"
+                    min={1}
+                    max={168}
+                    {...registerReminders('reminder_hours_before', { valueAsNumber: true })}
+                    className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-pink-500 focus:border-pink-500 sm:text-sm"
+                  />
+                  {reminderErrors.reminder_hours_before && <p className="mt-1 text-sm text-red-600">{reminderErrors.reminder_hours_before.message}</p>}
+                </div>
+              </div>
+              <p className="text-xs text-gray-500">O lembrete inclui um link para o cliente confirmar a presença, disponível com o agendamento online configurado.</p>
+
+              <div className="flex justify-end gap-2">
+                <button
+                  type="button"
+                  onClick={sendDueReminders}
+                  disabled={isSendingReminders}
+                  className="inline-flex items-center px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+                >
+                  <Send className="w-4 h-4 mr-2" />
+                  {isSendingReminders ? 'Enviando...' : 'Enviar pendentes agora'}
+                </button>
+                <button
+                  type="submit"
+                  disabled={isSubmittingReminders}
+                  className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-gradient-to-r from-pink-500 to-violet-500 hover:from-pink-600 hover:to-violet-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-pink-500 disabled:opacity-50"
+                >
+                  <Save className="w-4 h-4 mr-2" />
+                  {isSubmittingReminders ? 'Salvando...' : 'Salvar Lembretes'}
+                </button>
+              </div>
+            </form>
+          </div>
+
+          {user && <MessageTemplatesEditor userId={user.id} salonName={bookingSalonName} />}
+
+          {user && <LoyaltyProgramSection userId={user.id} />}
+
+          {user && <BackupSection userId={user.id} />}
         </div>
 
         {isExceptionModalOpen && (
@@ -0,0 +1,59 @@
+// src/react-app/spreadsheet.ts
+
+import { strFromU8, unzipSync } from 'fflate';
+import { parseCsv, withoutBlankRows } from '../shared/dataImport';
+import type { SheetRow } from '../shared/dataImport';
+
+/**
+ * Leitura de planilhas no navegador: CSV ou a primeira folha de um XLSX.
+ *
+ * O XLSX é um zip de XMLs; lemos os textos partilhados (`sharedStrings.xml`) e as
+ * células da primeira folha, devolvendo tudo como texto. Datas ficam com o número
+ * de série do Excel, convertido depois em `coerceValue`.
+ */
+
+// Coluna de uma referência de célula ("C12" → 2)
+const columnIndex = (reference: string) =>
+  [...reference.replace(/\d+/g, '')].reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+
+function readXlsx(buffer: ArrayBuffer): SheetRow[] {
+  const files = unzipSync(new Uint8Array(buffer));
+  const parse = (path: string) => (files[path] ? new DOMParser().parseFromString(strFromU8(files[path]), 'application/xml') : null);
+
+  // Caminho da primeira folha, pela relação declarada no livro
+  const workbook = parse('xl/workbook.xml');
+  const relationships = parse('xl/_rels/workbook.xml.rels');
+  const relationId = workbook?.getElementsByTagName('sheet')[0]?.getAttribute('r:id');
+  const target = [...(relationships?.getElementsByTagName('Relationship') ?? [])]
+    .find(relationship => relationship.getAttribute('Id') === relationId)
+    ?.getAttribute('Target');
+  const sheetPath = target ? (target.startsWith('/') ? target.slice(1) : `xl/${target}`) : 'xl/worksheets/sheet1.xml';
+  const sheet = parse(sheetPath);
+  if (!sheet) throw new Error('A planilha não tem nenhuma folha.');
+
+  const sharedStrings = [...(parse('xl/sharedStrings.xml')?.getElementsByTagName('si') ?? [])]
+    .map(item => [...item.getElementsByTagName('t')].map(text => text.textContent ?? '').join(''));
+
+  const rows = [...sheet.getElementsByTagName('row')].map((row, rowIndex): SheetRow => {
+    const values: string[] = [];
+    [...row.getElementsByTagName('c')].forEach((cell, position) => {
+      const type = cell.getAttribute('t');
+      const raw = cell.getElementsByTagName('v')[0]?.textContent ?? '';
+      const index = cell.getAttribute('r') ? columnIndex(cell.getAttribute('r')!) : position;
+      values[index] = type === 's' ? sharedStrings[Number(raw)] ?? ''
+        : type === 'inlineStr' ? [...cell.getElementsByTagName('t')].map(text => text.textContent ?? '').join('')
+        : type === 'b' ? (raw === '1' ? 'sim' : 'não')
+        : raw;
+    });
+    // O número da linha vem do atributo `r`; as linhas sem células podem nem estar no XML
+    return { line: Number(row.getAttribute('r')) || rowIndex + 1, cells: Array.from(values, value => value ?? '') };
+  });
+  return withoutBlankRows(rows);
+}
+
+/** Linhas da planilha (a primeira é o cabeçalho), como texto e com o número de cada uma. */
+export async function readSpreadsheet(file: File): Promise<SheetRow[]> {
+  if (/\.(csv|txt)$/i.test(file.name)) return parseCsv(await file.text());
+  if (/\.xlsx$/i.test(file.name)) return readXlsx(await file.arrayBuffer());
+  throw new Error('Formato não suportado. Use um arquivo CSV ou XLSX.');
+}
@@ -14,4 +14,15 @@ if (!supabaseUrl || !supabaseAnonKey) {
  * Esta instância única será usada em toda a aplicação para interagir
  * com o seu banco de dados, autenticação e outros serviços do Supabase.
  */
-export const supabase = createClient(supabaseUrl, supabaseAnonKey);
\ No newline at end of file
+export const supabase = createClient(supabaseUrl, supabaseAnonKey);
+
+/**
+ * Chama uma rota da equipa no Worker com o token da sessão do Supabase, que o Worker
+ * valida para saber de que salão é o pedido.
+ */
+export const fetchWorker = async (path: string, init: RequestInit = {}) => {
+  const { data: { session } } = await supabase.auth.getSession();
+  const headers = new Headers(init.headers);
+  if (session) headers.set('Authorization', `Bearer ${session.access_token}`);
+  return fetch(path, { ...init, headers });
+};
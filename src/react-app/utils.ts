@@ -21,3 +21,17 @@ export const formatDate = (dateString: string) => {
   // evitando problemas de fuso horário que podem alterar o dia.
   return new Date(`${dateString}T00:00:00`).toLocaleDateString('pt-BR');
 };
+
+/**
+ * Dias da semana na ordem exibida nos formulários (segunda a domingo).
+ * O `value` segue a convenção do banco de dados: 0=domingo, 1=segunda, etc.
+ */
+export const DAYS_OF_WEEK = [
+  { value: 1, label: 'Segunda-feira', short: 'Seg' },
+  { value: 2, label: 'Terça-feira', short: 'Ter' },
+  { value: 3, label: 'Quarta-feira', short: 'Qua' },
+  { value: 4, label: 'Quinta-feira', short: 'Qui' },
+  { value: 5, label: 'Sexta-feira', short: 'Sex' },
+  { value: 6, label: 'Sábado', short: 'Sáb' },
+  { value: 0, label: 'Domingo', short: 'Dom' },
+];
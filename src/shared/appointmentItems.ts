@@ -0,0 +1,74 @@
+// src/shared/appointmentItems.ts
+
+/**
+ * Agendamentos com vários serviços (ex.: corte + coloração + escova).
+ *
+ * Os serviços são executados pela ordem das linhas. O profissional do agendamento
+ * fica ocupado durante todo o agendamento (é o que a constraint da migração 15
+ * garante no banco); uma linha com outro profissional ocupa também esse
+ * profissional, mas só durante o tempo dessa linha.
+ */
+
+import type { AppointmentItemType } from './types';
+import type { AvailabilityAppointment, AvailabilityCheck, AvailabilityContext } from './availability';
+import { checkAvailability, splitDateTime } from './availability';
+import { atMinutes } from './recurrence';
+
+export type ItemizedAppointment = AvailabilityAppointment & {
+  items?: Pick<AppointmentItemType, 'service' | 'duration' | 'professional_id' | 'position'>[];
+};
+
+export const sortItems = <T extends Pick<AppointmentItemType, 'position'>>(items: T[]) =>
+  [...items].sort((a, b) => a.position - b.position);
+
+export const itemsTotals = (items: Pick<AppointmentItemType, 'price' | 'duration'>[]) => ({
+  price: items.reduce((sum, item) => sum + item.price, 0),
+  duration: items.reduce((sum, item) => sum + item.duration, 0),
+});
+
+// Nome resumido do agendamento, ex.: "Corte + Coloração + Escova"
+export const summarizeItems = (items: Pick<AppointmentItemType, 'service' | 'position'>[]) =>
+  sortItems(items).map(item => item.service).join(' + ');
+
+/**
+ * Intervalos de ocupação de um agendamento: o agendamento inteiro para o seu
+ * profissional e, para cada linha feita por outro profissional, o tempo dessa linha.
+ * A última linha termina no fim do agendamento, mesmo que este tenha sido redimensionado.
+ */
+export function appointmentSegments(appointment: ItemizedAppointment): AvailabilityAppointment[] {
+  const { items, ...whole } = appointment;
+  const segments: AvailabilityAppointment[] = [whole];
+  if (!items || items.length === 0) return segments;
+
+  const start = splitDateTime(appointment.appointment_date);
+  const sorted = sortItems(items);
+  let offset = 0;
+  sorted.forEach((item, index) => {
+    const itemStart = offset;
+    offset += item.duration;
+    if (!item.professional_id || item.professional_id === appointment.professional_id) return;
+    segments.push({
+      ...whole,
+      professional_id: item.professional_id,
+      service: item.service,
+      appointment_date: atMinutes(start.date, start.minutes + itemStart),
+      end_date: index === sorted.length - 1 ? appointment.end_date : atMinutes(start.date, start.minutes + offset),
+    });
+  });
+  return segments;
+}
+
+// Converte os agendamentos no formato usado pelo motor de disponibilidade.
+export const expandAppointments = (appointments: ItemizedAppointment[]) => appointments.flatMap(appointmentSegments);
+
+/**
+ * Verifica a disponibilidade de todos os profissionais envolvidos num agendamento.
+ * O contexto deve conter os agendamentos já expandidos com `expandAppointments`.
+ */
+export function checkAppointmentAvailability(context: AvailabilityContext, appointment: ItemizedAppointment): AvailabilityCheck {
+  for (const segment of appointmentSegments(appointment)) {
+    const check = checkAvailability(context, segment);
+    if (!check.available) return check;
+  }
+  return { available: true };
+}
@@ -0,0 +1,92 @@
+// src/shared/appointmentStatus.ts
+
+/**
+ * Ciclo de vida de um agendamento: transições permitidas, rótulos e indicadores.
+ *
+ * Funções puras, partilhadas pela aplicação React e pelo Worker.
+ */
+
+import type { AppointmentStatus } from './types';
+
+// Próximos status possíveis a partir de cada status.
+// Os regressos (ex.: falta -> agendado) servem para corrigir marcações feitas por engano.
+export const STATUS_TRANSITIONS: Record<AppointmentStatus, AppointmentStatus[]> = {
+  scheduled: ['confirmed', 'checked_in', 'no_show', 'cancelled_by_client', 'cancelled_by_salon'],
+  confirmed: ['checked_in', 'no_show', 'cancelled_by_client', 'cancelled_by_salon'],
+  checked_in: ['in_service', 'completed', 'cancelled_by_client'],
+  in_service: ['completed'],
+  completed: ['in_service'],
+  no_show: ['scheduled', 'checked_in'],
+  cancelled_by_client: ['scheduled'],
+  cancelled_by_salon: ['scheduled'],
+};
+
+export const STATUS_LABELS: Record<AppointmentStatus, string> = {
+  scheduled: 'Agendado',
+  confirmed: 'Confirmado',
+  checked_in: 'Chegou',
+  in_service: 'Em atendimento',
+  completed: 'Concluído',
+  no_show: 'Faltou',
+  cancelled_by_client: 'Cancelado pelo cliente',
+  cancelled_by_salon: 'Cancelado pelo salão',
+};
+
+// Classes Tailwind do badge de cada status
+export const STATUS_BADGE_CLASSES: Record<AppointmentStatus, string> = {
+  scheduled: 'bg-gray-100 text-gray-700',
+  confirmed: 'bg-blue-100 text-blue-700',
+  checked_in: 'bg-amber-100 text-amber-700',
+  in_service: 'bg-violet-100 text-violet-700',
+  completed: 'bg-green-100 text-green-700',
+  no_show: 'bg-red-100 text-red-700',
+  cancelled_by_client: 'bg-rose-100 text-rose-700',
+  cancelled_by_salon: 'bg-rose-100 text-rose-700',
+};
+
+export const CANCELLED_STATUSES: AppointmentStatus[] = ['cancelled_by_client', 'cancelled_by_salon'];
+
+export const canTransition = (from: AppointmentStatus, to: AppointmentStatus) =>
+  STATUS_TRANSITIONS[from].includes(to);
+
+// Cancelamentos e faltas exigem um motivo.
+export const requiresReason = (status: AppointmentStatus) =>
+  status === 'no_show' || CANCELLED_STATUSES.includes(status);
+
+// Agendamentos cancelados ou com falta libertam o horário do profissional.
+export const occupiesSlot = (status: AppointmentStatus | null | undefined) =>
+  status !== 'no_show' && !CANCELLED_STATUSES.includes(status as AppointmentStatus);
+
+export interface StatusKpis {
+  total: number;
+  completed: number;
+  noShows: number;
+  cancelled: number;
+  noShowRate: number;       // Faltas / (concluídos + faltas), entre 0 e 1
+  cancellationRate: number; // Cancelados / total, entre 0 e 1
+}
+
+/**
+ * Calcula os indicadores de comparecimento de um conjunto de agendamentos.
+ * A taxa de faltas considera só os agendamentos já resolvidos (concluídos ou com falta),
+ * para que os agendamentos futuros não a diluam.
+ */
+export function computeStatusKpis(appointments: { status?: AppointmentStatus | null }[]): StatusKpis {
+  const count = (statuses: AppointmentStatus[]) =>
+    appointments.filter(a => statuses.includes(a.status ?? 'scheduled')).length;
+
+  const total = appointments.length;
+  const completed = count(['completed']);
+  const noShows = count(['no_show']);
+  const cancelled = count(CANCELLED_STATUSES);
+  const resolved = completed + noShows;
+
+  return {
+    total,
+    completed,
+    noShows,
+    cancelled,
+    noShowRate: resolved > 0 ? noShows / resolved : 0,
+    cancellationRate: total > 0 ? cancelled / total : 0,
+  };
+}
@@ -0,0 +1,314 @@
+// src/shared/availability.ts
+
+/**
+ * Motor de disponibilidade partilhado entre a aplicação React e o Worker.
+ *
+ * Todas as funções são puras: recebem as regras do estabelecimento (horário de
+ * funcionamento, horário semanal dos profissionais, exceções, ausências) e os
+ * agendamentos existentes, e devolvem os horários livres de um dia.
+ *
+ * Datas e horas são tratadas como texto local ("YYYY-MM-DD" e "HH:mm"), tal como
+ * são gravadas no banco, para que o resultado não dependa do fuso horário de quem
+ * executa o cálculo (browser ou Cloudflare).
+ */
+
+import type {
+  AppointmentType,
+  BusinessHoursType,
+  BusinessExceptionType,
+  ProfessionalScheduleType,
+  ProfessionalExceptionType,
+} from './types';
+import { occupiesSlot } from './appointmentStatus';
+
+// --- Definição de Tipos ---
+export type AvailabilityAppointment = Pick<AppointmentType, 'professional_id' | 'appointment_date' | 'end_date'> & {
+  id?: number;
+  status?: AppointmentType['status'] | null;
+  client_name?: string;
+  service?: string;
+};
+
+export interface AvailabilityContext {
+  businessHours: BusinessHoursType[];
+  schedules: Pick<ProfessionalScheduleType, 'professional_id' | 'day_of_week' | 'start_time' | 'end_time' | 'lunch_start_time' | 'lunch_end_time'>[];
+  businessExceptions: Pick<BusinessExceptionType, 'exception_date' | 'start_time' | 'end_time' | 'description'>[];
+  professionalExceptions: Pick<ProfessionalExceptionType, 'professional_id' | 'start_date' | 'end_date' | 'start_time' | 'end_time' | 'description'>[];
+  appointments: AvailabilityAppointment[];
+}
+
+export type UnavailabilityReason =
+  | 'salon_closed'          // Dia sem horário de funcionamento ou feriado
+  | 'professional_absent'   // Ausência do profissional no dia inteiro
+  | 'no_schedule'           // Profissional sem horário semanal definido
+  | 'day_off'               // Profissional não trabalha neste dia da semana
+  | 'outside_hours'         // Fora do expediente
+  | 'lunch'                 // Horário de almoço
+  | 'absence'               // Ausência parcial do profissional
+  | 'appointment_conflict'  // Sobreposição com outro agendamento
+  | 'past';                 // Horário já passou
+
+export interface DayQuery {
+  date: string;                 // YYYY-MM-DD
+  professionalId: number;
+  ignoreAppointmentId?: number; // Agendamento a ignorar (edição)
+}
+
+export interface SlotQuery extends DayQuery {
+  duration: number;             // Duração do serviço em minutos
+  slotInterval?: number;        // Intervalo entre horários, em minutos (padrão: 30)
+  now?: string;                 // "YYYY-MM-DD HH:mm" local; horários anteriores são descartados
+}
+
+export interface SlotsResult {
+  slots: string[];              // Horários de início livres, em "HH:mm"
+  reason: UnavailabilityReason | null;
+  description?: string;
+}
+
+export interface BlockedInterval {
+  start: number;                // Minutos desde a meia-noite
+  end: number;
+  reason: UnavailabilityReason;
+  description?: string;
+}
+
+export type AvailabilityCheck =
+  | { available: true }
+  | { available: false; reason: UnavailabilityReason; description?: string; conflict?: AvailabilityAppointment };
+
+interface Interval {
+  start: number; // minutos desde a meia-noite
+  end: number;
+}
+
+interface DayRules {
+  reason: UnavailabilityReason | null;
+  description?: string;
+  open: Interval | null;
+  lunch: Interval | null;
+  absences: (Interval & { description: string })[];
+  appointments: (Interval & { appointment: AvailabilityAppointment })[];
+}
+
+export const DEFAULT_SLOT_INTERVAL = 30;
+
+// --- Funções Auxiliares ---
+
+/** Converte "HH:mm" ou "HH:mm:ss" em minutos desde a meia-noite. */
+export const toMinutes = (time: string) => {
+  const [hour, minute] = time.split(':').map(Number);
+  return hour * 60 + minute;
+};
+
+/** Converte minutos desde a meia-noite em "HH:mm". */
+export const formatMinutes = (minutes: number) => {
+  const hour = Math.floor(minutes / 60);
+  const minute = minutes % 60;
+  return `${String(hour).padStart(2, '0')}:${String(minute).padStart(2, '0')}`;
+};
+
+/**
+ * Separa um timestamp local ("YYYY-MM-DD HH:mm:ss" ou "YYYY-MM-DDTHH:mm") em data e minutos.
+ */
+export const splitDateTime = (dateTime: string) => {
+  const match = /^(\d{4}-\d{2}-\d{2})[T ](\d{2}):(\d{2})/.exec(dateTime);
+  if (!match) throw new Error(`Data/hora inválida: ${dateTime}`);
+  return { date: match[1], minutes: Number(match[2]) * 60 + Number(match[3]) };
+};
+
+/** Dia da semana (0=domingo) de uma data "YYYY-MM-DD", independente do fuso horário. */
+export const dayOfWeek = (date: string) => new Date(`${date}T00:00:00Z`).getUTCDay();
+
+const overlaps = (a: Interval, b: Interval) => a.start < b.end && a.end > b.start;
+
+const toInterval = (start?: string | null, end?: string | null): Interval | null =>
+  start && end ? { start: toMinutes(start), end: toMinutes(end) } : null;
+
+const WHOLE_DAY: Interval = { start: 0, end: 24 * 60 };
+
+/**
+ * Aplica as regras do estabelecimento e do profissional a um dia.
+ * Sem profissional, aplica apenas as regras do estabelecimento.
+ */
+function resolveDay(context: AvailabilityContext, query: Omit<DayQuery, 'professionalId'> & { professionalId?: number }): DayRules {
+  const closed = (reason: UnavailabilityReason, description?: string): DayRules => ({
+    reason, description, open: null, lunch: null, absences: [], appointments: [],
+  });
+
+  const weekday = dayOfWeek(query.date);
+
+  // 1. Exceção do estabelecimento: sem horário, o salão está fechado;
+  //    com horário, substitui o horário de funcionamento do dia.
+  const businessException = context.businessExceptions.find(e => e.exception_date === query.date);
+  if (businessException && !toInterval(businessException.start_time, businessException.end_time)) {
+    return closed('salon_closed', businessException.description);
+  }
+
+  // 2. Horário de funcionamento do dia (só se aplica se o salão configurou horários).
+  let open: Interval | null = null;
+  if (businessException) {
+    open = toInterval(businessException.start_time, businessException.end_time);
+  } else if (context.businessHours.length > 0) {
+    const hours = context.businessHours.find(h => h.day_of_week === weekday);
+    open = toInterval(hours?.start_time, hours?.end_time);
+    if (!open) return closed('salon_closed');
+  }
+
+  if (query.professionalId === undefined) {
+    return { reason: null, open: open ?? WHOLE_DAY, lunch: null, absences: [], appointments: [] };
+  }
+
+  // 3. Ausências do profissional que cobrem o dia.
+  const absences = context.professionalExceptions.filter(
+    e => e.professional_id === query.professionalId && e.start_date <= query.date && query.date <= e.end_date
+  );
+  const fullDayAbsence = absences.find(a => !toInterval(a.start_time, a.end_time));
+  if (fullDayAbsence) return closed('professional_absent', fullDayAbsence.description);
+
+  // 4. Horário semanal do profissional.
+  const professionalSchedules = context.schedules.filter(s => s.professional_id === query.professionalId);
+  if (!professionalSchedules.some(s => s.start_time && s.end_time)) return closed('no_schedule');
+  const daySchedule = professionalSchedules.find(s => s.day_of_week === weekday);
+  const work = toInterval(daySchedule?.start_time, daySchedule?.end_time);
+  if (!work) return closed('day_off');
+
+  const window = open
+    ? { start: Math.max(open.start, work.start), end: Math.min(open.end, work.end) }
+    : work;
+  if (window.end <= window.start) return closed('outside_hours');
+
+  // 5. Agendamentos existentes do profissional no dia (cancelados e faltas não ocupam o horário).
+  const appointments = context.appointments
+    .filter(app => app.professional_id === query.professionalId && app.id !== query.ignoreAppointmentId && occupiesSlot(app.status))
+    .map(app => ({ app, start: splitDateTime(app.appointment_date), end: splitDateTime(app.end_date) }))
+    .filter(({ start, end }) => start.date <= query.date && query.date <= end.date)
+    .map(({ app, start, end }) => ({
+      appointment: app,
+      start: start.date < query.date ? 0 : start.minutes,
+      end: end.date > query.date ? WHOLE_DAY.end : end.minutes,
+    }));
+
+  return {
+    reason: null,
+    open: window,
+    lunch: toInterval(daySchedule?.lunch_start_time, daySchedule?.lunch_end_time),
+    absences: absences.map(a => ({ ...toInterval(a.start_time, a.end_time)!, description: a.description })),
+    appointments,
+  };
+}
+
+/**
+ * Verifica um intervalo concreto contra as regras do dia.
+ */
+function checkInterval(rules: DayRules, interval: Interval): AvailabilityCheck {
+  if (!rules.open) return { available: false, reason: rules.reason ?? 'outside_hours', description: rules.description };
+  if (interval.start < rules.open.start || interval.end > rules.open.end) return { available: false, reason: 'outside_hours' };
+  if (rules.lunch && overlaps(interval, rules.lunch)) return { available: false, reason: 'lunch' };
+
+  const absence = rules.absences.find(a => overlaps(interval, a));
+  if (absence) return { available: false, reason: 'absence', description: absence.description };
+
+  const conflict = rules.appointments.find(a => overlaps(interval, a));
+  if (conflict) return { available: false, reason: 'appointment_conflict', conflict: conflict.appointment };
+
+  return { available: true };
+}
+
+// --- API Pública ---
+
+/**
+ * Calcula os horários de início livres de um profissional num dia.
+ */
+export function getAvailableSlots(context: AvailabilityContext, query: SlotQuery): SlotsResult {
+  const rules = resolveDay(context, query);
+  if (!rules.open) return { slots: [], reason: rules.reason, description: rules.description };
+
+  const interval = query.slotInterval ?? DEFAULT_SLOT_INTERVAL;
+  const now = query.now ? splitDateTime(query.now) : null;
+
+  const slots: string[] = [];
+  for (let start = rules.open.start; start + query.duration <= rules.open.end; start += interval) {
+    if (now && (query.date < now.date || (query.date === now.date && start < now.minutes))) continue;
+    if (checkInterval(rules, { start, end: start + query.duration }).available) {
+      slots.push(formatMinutes(start));
+    }
+  }
+  return { slots, reason: null };
+}
+
+/**
+ * Intervalos bloqueados de um dia (fora do expediente, almoço e ausências), para
+ * sombrear a agenda. Sem profissional, considera apenas o horário do estabelecimento.
+ */
+export function getBlockedIntervals(context: AvailabilityContext, query: { date: string; professionalId?: number }): BlockedInterval[] {
+  const rules = resolveDay(context, query);
+  if (!rules.open) {
+    return [{ ...WHOLE_DAY, reason: rules.reason ?? 'outside_hours', description: rules.description }];
+  }
+
+  const blocked: BlockedInterval[] = [];
+  if (rules.open.start > WHOLE_DAY.start) blocked.push({ start: WHOLE_DAY.start, end: rules.open.start, reason: 'outside_hours' });
+  if (rules.open.end < WHOLE_DAY.end) blocked.push({ start: rules.open.end, end: WHOLE_DAY.end, reason: 'outside_hours' });
+  if (rules.lunch) blocked.push({ ...rules.lunch, reason: 'lunch' });
+  rules.absences.forEach(a => blocked.push({ start: a.start, end: a.end, reason: 'absence', description: a.description }));
+  return blocked.sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Verifica se um agendamento (início e fim em timestamps locais) cabe na agenda.
+ * Usado para reconfirmar a disponibilidade no momento da gravação.
+ */
+export function checkAvailability(
+  context: AvailabilityContext,
+  appointment: { professional_id: number; appointment_date: string; end_date: string; id?: number }
+): AvailabilityCheck {
+  const start = splitDateTime(appointment.appointment_date);
+  const end = splitDateTime(appointment.end_date);
+  if (end.date !== start.date) return { available: false, reason: 'outside_hours' };
+
+  const rules = resolveDay(context, {
+    date: start.date,
+    professionalId: appointment.professional_id,
+    ignoreAppointmentId: appointment.id,
+  });
+  return checkInterval(rules, { start: start.minutes, end: end.minutes });
+}
+
+const REASON_MESSAGES: Record<UnavailabilityReason, string> = {
+  salon_closed: 'O estabelecimento está fechado neste dia.',
+  professional_absent: 'Este profissional está ausente neste dia.',
+  no_schedule: 'Este profissional não tem um horário de trabalho definido.',
+  day_off: 'Este profissional não trabalha no dia da semana selecionado.',
+  outside_hours: 'O horário está fora do expediente.',
+  lunch: 'O horário coincide com o almoço do profissional.',
+  absence: 'O profissional está ausente neste horário.',
+  appointment_conflict: 'O profissional já tem um agendamento neste horário.',
+  past: 'Este horário já passou.',
+};
+
+/**
+ * Mensagem em pt-BR para o motivo de indisponibilidade.
+ */
+export const describeUnavailability = (reason: UnavailabilityReason, description?: string) => {
+  const message = REASON_MESSAGES[reason];
+  return description ? `${message.slice(0, -1)} (${description}).` : message;
+};
+
+/**
+ * Erro lançado quando a gravação de um agendamento é recusada por falta de disponibilidade.
+ * Transporta o motivo e, em caso de sobreposição, o agendamento com que colide.
+ */
+export class AppointmentConflictError extends Error {
+  reason: UnavailabilityReason;
+  description?: string;
+  conflict?: AvailabilityAppointment;
+
+  constructor(check: Extract<AvailabilityCheck, { available: false }>) {
+    super(describeUnavailability(check.reason, check.description));
+    this.name = 'AppointmentConflictError';
+    this.reason = check.reason;
+    this.description = check.description;
+    this.conflict = check.conflict;
+  }
+}
@@ -0,0 +1,269 @@
+// src/shared/backup.ts
+
+/**
+ * Cópia de segurança de toda a conta: um JSON versionado com clientes, profissionais,
+ * serviços, produtos, agendamentos, lançamentos financeiros e configurações.
+ *
+ * As linhas são exportadas com o id original e sem o `user_id`. Ao restaurar, tudo é
+ * gravado como novo e os ids antigos são trocados pelos novos (`IdMaps`) em cada
+ * ligação: `client_id`, `service_id`, `professional_id` e `appointment_id`.
+ * As séries recorrentes não são copiadas: os agendamentos voltam como avulsos.
+ * Se a restauração falhar a meio, as linhas já gravadas são apagadas e as configurações
+ * voltam ao que eram; o que não puder ser desfeito é indicado em `RestoreRollbackError`.
+ */
+
+import { z } from 'zod';
+import {
+  AppointmentItemSchema,
+  AppointmentSchema,
+  BookingSettingsSchema,
+  BusinessExceptionSchema,
+  BusinessHoursSchema,
+  ClientNoteSchema,
+  ClientSchema,
+  FinancialEntrySchema,
+  MessageTemplateSchema,
+  NotificationSettingsSchema,
+  ProductSchema,
+  ProfessionalExceptionSchema,
+  ProfessionalScheduleSchema,
+  ProfessionalSchema,
+  ServiceSchema,
+} from './types';
+
+export const BACKUP_FORMAT = 'salonflow-backup';
+export const BACKUP_VERSION = 1;
+
+/** Restauração que falhou e não pôde ser toda desfeita: `pending` são as tabelas a rever. */
+export class RestoreRollbackError extends Error {
+  pending: string[];
+
+  constructor(cause: Error, pending: string[]) {
+    super(`${cause.message} Não foi possível desfazer toda a restauração; confira os dados de: ${pending.join(', ')}.`);
+    this.name = 'RestoreRollbackError';
+    this.pending = pending;
+  }
+}
+
+const OriginalId = z.number().int();
+
+export const AccountBackupSchema = z.object({
+  format: z.literal(BACKUP_FORMAT),
+  version: z.number().int(),
+  exported_at: z.string(),
+  professionals: z.array(ProfessionalSchema.omit({ user_id: true }).extend({ id: OriginalId })),
+  professional_schedules: z.array(ProfessionalScheduleSchema.omit({ id: true, user_id: true })),
+  professional_exceptions: z.array(ProfessionalExceptionSchema.omit({ id: true, user_id: true })),
+  services: z.array(ServiceSchema.omit({ user_id: true }).extend({ id: OriginalId })),
+  products: z.array(ProductSchema.omit({ id: true, user_id: true })),
+  clients: z.array(ClientSchema.omit({ user_id: true }).extend({ id: OriginalId })),
+  client_notes: z.array(ClientNoteSchema.omit({ id: true, user_id: true })),
+  appointments: z.array(AppointmentSchema.omit({ user_id: true, series_id: true }).extend({
+    id: OriginalId,
+    items: z.array(AppointmentItemSchema.omit({ id: true, appointment_id: true })).optional(),
+  })),
+  financial_entries: z.array(FinancialEntrySchema.omit({ id: true, user_id: true }).extend({
+    entry_date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Data inválida'), // No banco é DATE, não Date
+  })),
+  settings: z.object({
+    business_hours: z.array(BusinessHoursSchema),
+    business_exceptions: z.array(BusinessExceptionSchema.omit({ id: true, user_id: true })),
+    booking: BookingSettingsSchema.omit({ id: true, user_id: true }).nullable(),
+    notifications: NotificationSettingsSchema.omit({ id: true, user_id: true }).nullable(),
+    message_templates: z.array(MessageTemplateSchema.omit({ id: true, user_id: true })),
+  }),
+});
+
+export type AccountBackup = z.infer<typeof AccountBackupSchema>;
+export type BackupData = Omit<AccountBackup, 'format' | 'version' | 'exported_at'>;
+
+export type BackupParseResult =
+  | { success: true; backup: AccountBackup }
+  | { success: false; errors: string[] };
+
+// Ids antigos (da cópia) → ids novos (gravados na restauração)
+export interface IdMaps {
+  clients: Map<number, number>;
+  professionals: Map<number, number>;
+  services: Map<number, number>;
+  appointments: Map<number, number>;
+}
+
+// Número máximo de erros de validação mostrados
+const MAX_ERRORS = 20;
+
+export const backupFileName = (exportedAt: Date) => `salonflow-backup-${exportedAt.toISOString().slice(0, 10)}.json`;
+
+/** Tira o `user_id` das linhas lidas do banco e junta o cabeçalho da cópia. */
+export function createBackup(data: BackupData, exportedAt: Date): AccountBackup {
+  const strip = <T extends object>(rows: T[]) => rows.map(row => {
+    const copy = { ...row } as Record<string, unknown>;
+    delete copy.user_id;
+    return copy as Omit<T, 'user_id'>;
+  });
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    exported_at: exportedAt.toISOString(),
+    professionals: strip(data.professionals),
+    professional_schedules: strip(data.professional_schedules),
+    professional_exceptions: strip(data.professional_exceptions),
+    services: strip(data.services),
+    products: strip(data.products),
+    clients: strip(data.clients),
+    client_notes: strip(data.client_notes),
+    appointments: data.appointments.map(appointment => ({
+      ...strip([appointment])[0],
+      items: appointment.items && strip(appointment.items),
+    })),
+    financial_entries: strip(data.financial_entries),
+    settings: {
+      business_hours: strip(data.settings.business_hours),
+      business_exceptions: strip(data.settings.business_exceptions),
+      booking: data.settings.booking && strip([data.settings.booking])[0],
+      notifications: data.settings.notifications && strip([data.settings.notifications])[0],
+      message_templates: strip(data.settings.message_templates),
+    },
+  };
+}
+
+/** Ligações para registos que não estão na cópia (ex.: agendamento de um cliente em falta). */
+export function referenceErrors(backup: AccountBackup): string[] {
+  const ids = (rows: { id: number }[]) => new Set(rows.map(row => row.id));
+  const clients = ids(backup.clients);
+  const professionals = ids(backup.professionals);
+  const services = ids(backup.services);
+  const appointments = ids(backup.appointments);
+  const errors: string[] = [];
+  const check = (known: Set<number>, id: number | null | undefined, owner: string, what: string) => {
+    if (id != null && !known.has(id)) errors.push(`${owner}: ${what} #${id} não existe na cópia`);
+  };
+
+  backup.clients.forEach(c => check(professionals, c.preferred_professional_id, `Cliente #${c.id}`, 'profissional'));
+  backup.client_notes.forEach(n => check(clients, n.client_id, 'Nota', 'cliente'));
+  backup.professional_schedules.forEach(s => check(professionals, s.professional_id, 'Horário', 'profissional'));
+  backup.professional_exceptions.forEach(e => check(professionals, e.professional_id, 'Ausência', 'profissional'));
+  backup.appointments.forEach(a => {
+    const owner = `Agendamento #${a.id}`;
+    check(clients, a.client_id, owner, 'cliente');
+    check(professionals, a.professional_id, owner, 'profissional');
+    check(services, a.service_id, owner, 'serviço');
+    (a.items ?? []).forEach(item => {
+      check(services, item.service_id, owner, 'serviço');
+      check(professionals, item.professional_id, owner, 'profissional');
+    });
+  });
+  backup.financial_entries.forEach(f => check(appointments, f.appointment_id, `Lançamento "${f.description}"`, 'agendamento'));
+  return [...new Set(errors)];
+}
+
+/** Lê e valida o conteúdo de um arquivo de cópia de segurança. */
+export function parseBackup(raw: unknown): BackupParseResult {
+  const header = raw as { format?: unknown; version?: unknown } | null;
+  if (!header || typeof header !== 'object' || header.format !== BACKUP_FORMAT) {
+    return { success: false, errors: ['O arquivo não é uma cópia de segurança do SalonFlow.'] };
+  }
+  if (typeof header.version === 'number' && header.version > BACKUP_VERSION) {
+    return { success: false, errors: [`A cópia foi feita numa versão mais recente (v${header.version}). Atualize a aplicação para restaurá-la.`] };
+  }
+
+  const result = AccountBackupSchema.safeParse(raw);
+  if (!result.success) {
+    return {
+      success: false,
+      errors: result.error.issues.slice(0, MAX_ERRORS).map(issue => `${issue.path.join('.')}: ${issue.message}`),
+    };
+  }
+  const errors = referenceErrors(result.data);
+  if (errors.length > 0) return { success: false, errors: errors.slice(0, MAX_ERRORS) };
+  return { success: true, backup: result.data };
+}
+
+/** Id novo correspondente a um id da cópia (validado antes por `referenceErrors`). */
+export function remapId(map: Map<number, number>, id: number): number;
+export function remapId(map: Map<number, number>, id: number | null | undefined): number | null;
+export function remapId(map: Map<number, number>, id: number | null | undefined) {
+  if (id == null) return null;
+  const mapped = map.get(id);
+  if (mapped === undefined) throw new Error(`Registo #${id} não encontrado na restauração.`);
+  return mapped;
+}
+
+export const withoutId = <T extends { id?: number }>(row: T): Omit<T, 'id'> => {
+  const copy = { ...row };
+  delete copy.id;
+  return copy;
+};
+
+export const remapClient = (client: AccountBackup['clients'][number], ids: IdMaps) => ({
+  ...withoutId(client),
+  preferred_professional_id: remapId(ids.professionals, client.preferred_professional_id),
+});
+
+/** Agendamento pronto a gravar, sem as linhas de serviço (ver `remapAppointmentItems`). */
+export function remapAppointment(appointment: AccountBackup['appointments'][number], ids: IdMaps) {
+  const row = withoutId(appointment);
+  delete row.items;
+  // As promoções não fazem parte da cópia; ficam o desconto e o código do cupom
+  delete row.promotion_id;
+  return {
+    ...row,
+    client_id: remapId(ids.clients, appointment.client_id),
+    professional_id: remapId(ids.professionals, appointment.professional_id),
+    service_id: remapId(ids.services, appointment.service_id),
+  };
+}
+
+export const remapAppointmentItems = (appointment: AccountBackup['appointments'][number], ids: IdMaps) =>
+  (appointment.items ?? []).map(item => {
+    const row = {
+      ...item,
+      appointment_id: remapId(ids.appointments, appointment.id),
+      service_id: remapId(ids.services, item.service_id),
+      professional_id: remapId(ids.professionals, item.professional_id),
+    };
+    // As assinaturas não fazem parte da cópia; a linha mantém o preço gravado
+    delete row.client_membership_id;
+    return row;
+  });
+
+export const remapFinancialEntry = (entry: AccountBackup['financial_entries'][number], ids: IdMaps) => ({
+  ...entry,
+  appointment_id: remapId(ids.appointments, entry.appointment_id),
+});
+
+// Colunas que identificam cada linha gravada na restauração, para associar o id novo ao id da cópia
+export const RESTORE_KEYS = {
+  professionals: ['name', 'color'],
+  services: ['name', 'price', 'duration'],
+  clients: ['name', 'phone', 'email', 'cpf', 'birthday'],
+  appointments: ['client_id', 'professional_id', 'service_id', 'appointment_date', 'status'],
+} as const;
+
+// O banco devolve as datas com "T" e segundos; a cópia guarda "YYYY-MM-DD HH:mm:ss"
+const keyValue = (value: unknown) => {
+  if (value === undefined || value === '') return null;
+  if (typeof value === 'string' && /^\d{4}-\d{2}-\d{2}[ T]\d{2}:\d{2}/.test(value)) return value.replace('T', ' ').slice(0, 16);
+  return value;
+};
+
+export const restoreKey = (row: object, columns: readonly string[]) =>
+  JSON.stringify(columns.map(column => keyValue((row as Record<string, unknown>)[column])));
+
+/**
+ * Associa o id de cada linha da cópia ao id com que foi gravada, pelas colunas `columns`
+ * e não pela ordem em que o banco devolve as linhas. `sent[i]` é a linha gravada para
+ * `backupIds[i]`; linhas iguais nessas colunas são intercambiáveis.
+ */
+export function matchRestoredIds(backupIds: number[], sent: object[], created: { id: number }[], columns: readonly string[]) {
+  const byKey = new Map<string, number[]>();
+  created.forEach(row => {
+    const key = restoreKey(row, columns);
+    byKey.set(key, [...(byKey.get(key) ?? []), row.id]);
+  });
+  return new Map(backupIds.map((backupId, index) => {
+    const id = byKey.get(restoreKey(sent[index], columns))?.shift();
+    if (id === undefined) throw new Error(`Registo #${backupId} não encontrado na restauração.`);
+    return [backupId, id];
+  }));
+}
@@ -0,0 +1,59 @@
+// src/shared/bookingTokens.ts
+
+/**
+ * Tokens dos links de gestão de agendamento enviados aos clientes.
+ *
+ * O token tem o formato "<agendamento>.<expiração>.<assinatura>", em que a
+ * assinatura é um HMAC-SHA256 dos dois primeiros campos com o segredo do Worker.
+ * Usa apenas a Web Crypto API, disponível no Worker, no browser e no Node.
+ */
+
+export interface ManageTokenPayload {
+  appointmentId: number;
+  expiresAt: number; // Segundos desde 1970 (UTC)
+}
+
+export type ManageTokenCheck =
+  | { valid: true; payload: ManageTokenPayload }
+  | { valid: false; reason: 'invalid' | 'expired' };
+
+// Validade de um link de gestão a partir da sua emissão
+export const MANAGE_TOKEN_TTL_DAYS = 90;
+
+const encoder = new TextEncoder();
+
+const toBase64Url = (bytes: Uint8Array) =>
+  btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+const sign = async (secret: string, data: string) => {
+  const key = await crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+  return toBase64Url(new Uint8Array(await crypto.subtle.sign('HMAC', key, encoder.encode(data))));
+};
+
+// Comparação em tempo constante, para não revelar a assinatura correta
+const sameSignature = (a: string, b: string) => {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  return diff === 0;
+};
+
+/** Emite um token para um agendamento, válido por `MANAGE_TOKEN_TTL_DAYS` a partir de `now`. */
+export async function issueManageToken(secret: string, appointmentId: number, now: number = Date.now()) {
+  const expiresAt = Math.floor(now / 1000) + MANAGE_TOKEN_TTL_DAYS * 24 * 60 * 60;
+  const body = `${appointmentId}.${expiresAt}`;
+  return { token: `${body}.${await sign(secret, body)}`, expiresAt };
+}
+
+/** Verifica a assinatura e a validade de um token. */
+export async function verifyManageToken(secret: string, token: string, now: number = Date.now()): Promise<ManageTokenCheck> {
+  const match = /^(\d+)\.(\d+)\.([A-Za-z0-9_-]+)$/.exec(token);
+  if (!match) return { valid: false, reason: 'invalid' };
+
+  const expected = await sign(secret, `${match[1]}.${match[2]}`);
+  if (!sameSignature(expected, match[3])) return { valid: false, reason: 'invalid' };
+
+  const payload = { appointmentId: Number(match[1]), expiresAt: Number(match[2]) };
+  if (payload.expiresAt * 1000 < now) return { valid: false, reason: 'expired' };
+  return { valid: true, payload };
+}
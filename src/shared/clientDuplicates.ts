@@ -0,0 +1,140 @@
+// src/shared/clientDuplicates.ts
+
+/**
+ * Deteção e fusão de clientes duplicados.
+ *
+ * Dois registos são considerados o mesmo cliente quando têm o mesmo telefone
+ * (comparado só pelos dígitos, sem o código do país), o mesmo e-mail, o mesmo CPF
+ * ou nomes quase iguais (sem acentos, pela ordem das palavras indiferente e com
+ * até ~15% de letras diferentes). Os grupos juntam todos os registos ligados entre
+ * si: se A e B partilham o telefone e B e C o e-mail, A, B e C formam um só grupo.
+ */
+
+import type { ClientType } from './types';
+import { normalizeTags, normalizeText, onlyDigits } from './clients';
+
+export type DuplicateReason = 'phone' | 'email' | 'cpf' | 'name';
+
+export type DuplicateCandidate = Pick<ClientType, 'name' | 'phone' | 'email' | 'cpf' | 'anonymized_at'> & { id?: number };
+
+export interface DuplicateGroup<T extends DuplicateCandidate> {
+  clients: T[];
+  reasons: DuplicateReason[];
+}
+
+export const DUPLICATE_REASON_LABELS: Record<DuplicateReason, string> = {
+  phone: 'Mesmo telefone',
+  email: 'Mesmo e-mail',
+  cpf: 'Mesmo CPF',
+  name: 'Nome parecido',
+};
+
+// Semelhança mínima entre dois nomes para serem sugeridos como o mesmo cliente
+const NAME_SIMILARITY_THRESHOLD = 0.85;
+
+/** Telefone só com os dígitos, sem o 55 do Brasil nem o zero do DDD. */
+export function normalizePhone(phone: string | null | undefined) {
+  const digits = onlyDigits(phone).replace(/^0+/, '');
+  return digits.length > 11 && digits.startsWith('55') ? digits.slice(2) : digits;
+}
+
+const levenshtein = (a: string, b: string) => {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+// Nome normalizado com as palavras por ordem alfabética ("Silva Maria" = "Maria Silva")
+const nameKey = (name: string) => normalizeText(name).split(' ').sort().join(' ');
+
+/** Semelhança entre dois nomes, de 0 (nada em comum) a 1 (iguais). */
+export function nameSimilarity(a: string, b: string) {
+  const [first, second] = [nameKey(a), nameKey(b)];
+  const length = Math.max(first.length, second.length);
+  if (length === 0) return 0;
+  // A distância nunca é menor do que a diferença de tamanho: evita o cálculo em nomes muito diferentes
+  if (Math.abs(first.length - second.length) / length > 1 - NAME_SIMILARITY_THRESHOLD) return 0;
+  return 1 - levenshtein(first, second) / length;
+}
+
+/** Motivos pelos quais dois registos parecem o mesmo cliente. */
+export function duplicateReasons(a: DuplicateCandidate, b: DuplicateCandidate): DuplicateReason[] {
+  // Os anonimizados têm todos o mesmo nome genérico e já não têm contactos
+  if (a.anonymized_at || b.anonymized_at) return [];
+  const reasons: DuplicateReason[] = [];
+  const phone = normalizePhone(a.phone);
+  if (phone.length >= 8 && phone === normalizePhone(b.phone)) reasons.push('phone');
+  const email = normalizeText(a.email);
+  if (email && email === normalizeText(b.email)) reasons.push('email');
+  const cpf = onlyDigits(a.cpf);
+  if (cpf && cpf === onlyDigits(b.cpf)) reasons.push('cpf');
+  if (nameSimilarity(a.name, b.name) >= NAME_SIMILARITY_THRESHOLD) reasons.push('name');
+  return reasons;
+}
+
+/** Grupos de registos que parecem ser o mesmo cliente, mais antigo primeiro em cada grupo. */
+export function findDuplicateGroups<T extends DuplicateCandidate>(clients: T[]): DuplicateGroup<T>[] {
+  const parent = clients.map((_, index) => index);
+  const root = (index: number): number => (parent[index] === index ? index : (parent[index] = root(parent[index])));
+  const reasonsByRoot = new Map<number, Set<DuplicateReason>>();
+  const links: [number, number, DuplicateReason[]][] = [];
+
+  for (let i = 0; i < clients.length; i++) {
+    for (let j = i + 1; j < clients.length; j++) {
+      const reasons = duplicateReasons(clients[i], clients[j]);
+      if (reasons.length > 0) {
+        parent[root(j)] = root(i);
+        links.push([i, j, reasons]);
+      }
+    }
+  }
+  links.forEach(([i, , reasons]) => {
+    const key = root(i);
+    reasonsByRoot.set(key, new Set([...(reasonsByRoot.get(key) ?? []), ...reasons]));
+  });
+
+  return [...reasonsByRoot.entries()].map(([key, reasons]) => ({
+    clients: clients
+      .filter((_, index) => root(index) === key)
+      .sort((a, b) => (a.id ?? Infinity) - (b.id ?? Infinity)),
+    reasons: [...reasons],
+  }));
+}
+
+/** Clientes já registados que parecem ser a pessoa que se está a registar. */
+export const findPossibleDuplicates = <T extends DuplicateCandidate>(candidate: DuplicateCandidate, clients: T[]) =>
+  clients.filter(client => client.id !== candidate.id && duplicateReasons(candidate, client).length > 0);
+
+/**
+ * Dados do cliente que fica após a fusão: os campos vazios são preenchidos com os
+ * dos duplicados (pela ordem dada), as etiquetas são somadas e as notas juntadas.
+ * O consentimento de marketing não é herdado: vale só o do registo mantido.
+ */
+export function mergeClientRecords<T extends ClientType>(survivor: T, duplicates: ClientType[]): T {
+  const fill = <K extends 'phone' | 'email' | 'birthday' | 'cpf' | 'address' | 'preferred_professional_id'>(key: K) =>
+    survivor[key] || duplicates.map(d => d[key]).find(Boolean) || survivor[key];
+  const joinTexts = (key: 'notes' | 'technical_notes') =>
+    [survivor[key], ...duplicates.map(d => d[key])]
+      .map(text => text?.trim())
+      .filter((text, index, texts): text is string => !!text && texts.indexOf(text) === index)
+      .join('\n') || null;
+
+  return {
+    ...survivor,
+    phone: fill('phone'),
+    email: fill('email'),
+    birthday: fill('birthday'),
+    cpf: fill('cpf'),
+    address: fill('address'),
+    preferred_professional_id: fill('preferred_professional_id'),
+    notes: joinTexts('notes'),
+    technical_notes: joinTexts('technical_notes'),
+    tags: normalizeTags([...(survivor.tags ?? []), ...duplicates.flatMap(d => d.tags ?? [])]),
+  };
+}
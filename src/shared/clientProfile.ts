@@ -0,0 +1,83 @@
+// src/shared/clientProfile.ts
+
+/**
+ * Resumo do histórico de um cliente para a sua ficha.
+ *
+ * Só os agendamentos concluídos contam como visitas; o valor gasto vem das receitas
+ * geradas por esses atendimentos em `financial_entries` (ver `changeAppointmentStatus`),
+ * por isso reflete o que foi efetivamente lançado e não o preço previsto. As datas
+ * são texto local do salão ("YYYY-MM-DD HH:mm:ss"), tal como em `availability.ts`.
+ */
+
+import type { AppointmentItemType, AppointmentStatus, AppointmentType, FinancialEntryType } from './types';
+import { occupiesSlot } from './appointmentStatus';
+
+export type ProfileAppointment = Pick<AppointmentType, 'id' | 'professional_id' | 'service' | 'appointment_date'> & {
+  status?: AppointmentStatus | null;
+  items?: Pick<AppointmentItemType, 'service' | 'professional_id'>[];
+};
+
+export type ProfileEntry = Pick<FinancialEntryType, 'amount' | 'type' | 'appointment_id'>;
+
+export interface UsageCount<T> {
+  key: T;
+  count: number;
+}
+
+export interface ClientSummary {
+  visits: number;           // Atendimentos concluídos
+  totalSpent: number;       // Em centavos
+  averageTicket: number;    // Em centavos, por visita
+  noShows: number;
+  lastVisit: string | null;
+  nextAppointment: string | null;
+  services: UsageCount<string>[];        // Mais usados primeiro
+  professionals: UsageCount<number>[];   // Por id, mais frequentes primeiro
+}
+
+// Contagem por chave, ordenada da mais frequente para a menos frequente
+const countBy = <T>(keys: T[]): UsageCount<T>[] => {
+  const counts = new Map<T, number>();
+  keys.forEach(key => counts.set(key, (counts.get(key) ?? 0) + 1));
+  return [...counts.entries()]
+    .map(([key, count]) => ({ key, count }))
+    .sort((a, b) => b.count - a.count);
+};
+
+/** Agendamentos do cliente divididos em futuros (mais próximo primeiro) e passados (mais recente primeiro). */
+export function splitByDate<T extends Pick<AppointmentType, 'appointment_date'>>(appointments: T[], now: string) {
+  const sorted = [...appointments].sort((a, b) => a.appointment_date.localeCompare(b.appointment_date));
+  return {
+    upcoming: sorted.filter(a => a.appointment_date > now),
+    past: sorted.filter(a => a.appointment_date <= now).reverse(),
+  };
+}
+
+/**
+ * Indicadores do cliente a partir dos seus agendamentos e das entradas financeiras
+ * (as de outros agendamentos são ignoradas).
+ */
+export function summarizeClient(appointments: ProfileAppointment[], entries: ProfileEntry[], now: string): ClientSummary {
+  const completed = appointments.filter(a => a.status === 'completed');
+  const completedIds = new Set(completed.map(a => a.id));
+  const totalSpent = entries
+    .filter(e => e.type === 'receita' && e.appointment_id != null && completedIds.has(e.appointment_id))
+    .reduce((sum, e) => sum + e.amount, 0);
+  const { upcoming } = splitByDate(appointments.filter(a => occupiesSlot(a.status)), now);
+
+  // Cada linha de serviço conta, com o profissional que a fez
+  const lines = completed.flatMap(a => a.items?.length
+    ? a.items.map(item => ({ service: item.service, professional_id: item.professional_id ?? a.professional_id }))
+    : [{ service: a.service, professional_id: a.professional_id }]);
+
+  return {
+    visits: completed.length,
+    totalSpent,
+    averageTicket: completed.length > 0 ? Math.round(totalSpent / completed.length) : 0,
+    noShows: appointments.filter(a => a.status === 'no_show').length,
+    lastVisit: completed.reduce<string | null>((last, a) => !last || a.appointment_date > last ? a.appointment_date : last, null),
+    nextAppointment: upcoming[0]?.appointment_date ?? null,
+    services: countBy(lines.map(line => line.service)),
+    professionals: countBy(lines.map(line => line.professional_id)),
+  };
+}
@@ -0,0 +1,80 @@
+// src/shared/clients.ts
+
+/**
+ * Dados da ficha do cliente: CPF, etiquetas, aniversário e a pesquisa/filtros da
+ * lista de clientes.
+ *
+ * O CPF e o telefone são comparados só pelos dígitos e os nomes sem acentos nem
+ * maiúsculas, para que "José" encontre "jose" e "(11) 99999-0000" encontre "11999990000".
+ */
+
+import type { ClientType } from './types';
+
+export interface ClientFilters {
+  search?: string;
+  tag?: string | null;
+  preferredProfessionalId?: number | null;
+  birthdayMonth?: number | null; // 1 a 12
+  marketingConsent?: boolean | null;
+}
+
+export const onlyDigits = (value: string | null | undefined) => (value ?? '').replace(/\D/g, '');
+
+/** Texto sem acentos, em minúsculas e sem espaços repetidos, para comparações. */
+export const normalizeText = (value: string | null | undefined) =>
+  (value ?? '').normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/\s+/g, ' ').trim();
+
+/** Valida os dígitos verificadores de um CPF (com ou sem pontuação). */
+export function isValidCpf(value: string) {
+  const cpf = onlyDigits(value);
+  if (cpf.length !== 11 || /^(\d)\1{10}$/.test(cpf)) return false;
+  const checkDigit = (length: number) => {
+    const sum = [...cpf.slice(0, length)].reduce((total, digit, index) => total + Number(digit) * (length + 1 - index), 0);
+    const rest = (sum * 10) % 11;
+    return rest === 10 ? 0 : rest;
+  };
+  return checkDigit(9) === Number(cpf[9]) && checkDigit(10) === Number(cpf[10]);
+}
+
+export const formatCpf = (value: string | null | undefined) =>
+  onlyDigits(value).replace(/^(\d{3})(\d{3})(\d{3})(\d{2})$/, '$1.$2.$3-$4');
+
+/** Etiquetas sem espaços nas pontas, sem vazias e sem repetições (ignorando maiúsculas). */
+export function normalizeTags(tags: string[]) {
+  const seen = new Set<string>();
+  return tags.map(tag => tag.trim()).filter(tag => {
+    const key = normalizeText(tag);
+    if (!key || seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+/** Todas as etiquetas em uso, por ordem alfabética. */
+export const collectTags = (clients: Pick<ClientType, 'tags'>[]) =>
+  normalizeTags(clients.flatMap(client => client.tags ?? [])).sort((a, b) => a.localeCompare(b, 'pt-BR'));
+
+/** Mês do aniversário (1 a 12) a partir da data "YYYY-MM-DD". */
+export const birthdayMonth = (birthday: string | null | undefined) => (birthday ? Number(birthday.slice(5, 7)) : null);
+
+type SearchableClient = Pick<ClientType, 'name' | 'phone' | 'email' | 'cpf' | 'tags' | 'birthday' | 'preferred_professional_id' | 'marketing_consent'>;
+
+/** Pesquisa livre por nome, telefone, e-mail, CPF ou etiqueta. */
+export function matchesClientSearch(client: SearchableClient, search: string) {
+  const text = normalizeText(search);
+  if (!text) return true;
+  const digits = onlyDigits(search);
+  return normalizeText(client.name).includes(text)
+    || normalizeText(client.email).includes(text)
+    || (client.tags ?? []).some(tag => normalizeText(tag).includes(text))
+    || (digits.length >= 3 && (onlyDigits(client.phone).includes(digits) || onlyDigits(client.cpf).includes(digits)));
+}
+
+export function filterClients<T extends SearchableClient>(clients: T[], filters: ClientFilters): T[] {
+  return clients.filter(client =>
+    matchesClientSearch(client, filters.search ?? '')
+    && (!filters.tag || (client.tags ?? []).some(tag => normalizeText(tag) === normalizeText(filters.tag)))
+    && (!filters.preferredProfessionalId || client.preferred_professional_id === filters.preferredProfessionalId)
+    && (!filters.birthdayMonth || birthdayMonth(client.birthday) === filters.birthdayMonth)
+    && (filters.marketingConsent == null || !!client.marketing_consent === filters.marketingConsent));
+}
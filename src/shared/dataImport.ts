@@ -0,0 +1,204 @@
+// src/shared/dataImport.ts
+
+/**
+ * Importação de clientes, serviços e produtos a partir de planilhas (CSV ou XLSX).
+ *
+ * Cada coluna da planilha é associada a um campo do cadastro (a associação é
+ * sugerida pelo nome da coluna) e cada linha é convertida e validada com o mesmo
+ * schema usado nos formulários. Os valores seguem o formato brasileiro: preços como
+ * "R$ 1.234,56" (gravados em centavos), datas como "31/12/1990" e "sim"/"não".
+ */
+
+import type { z } from 'zod';
+import { CreateClientSchema, CreateProductSchema, CreateServiceSchema } from './types';
+import { normalizeTags, normalizeText, onlyDigits } from './clients';
+
+export type ImportTarget = 'clients' | 'services' | 'products';
+
+type FieldKind = 'text' | 'money' | 'integer' | 'date' | 'boolean' | 'tags' | 'cpf' | 'phone';
+
+export interface ImportField {
+  key: string;
+  label: string;
+  kind: FieldKind;
+  required?: boolean;
+  aliases: string[]; // Nomes de coluna reconhecidos (sem acentos, em minúsculas)
+}
+
+// Coluna da planilha escolhida para cada campo (índice) ou null se não for importado
+export type ColumnMapping = Record<string, number | null>;
+
+// Linha lida da planilha, com o número que tem no arquivo (o cabeçalho é a linha 1)
+export interface SheetRow {
+  line: number;
+  cells: string[];
+}
+
+export interface ImportRow<T = Record<string, unknown>> {
+  line: number;          // Linha na planilha (o cabeçalho é a linha 1)
+  cells: string[];       // Células originais, para a pré-visualização
+  data: T | null;        // Dados válidos, prontos a gravar
+  errors: string[];
+}
+
+export const IMPORT_TARGET_LABELS: Record<ImportTarget, string> = {
+  clients: 'Clientes',
+  services: 'Serviços',
+  products: 'Produtos',
+};
+
+export const IMPORT_FIELDS: Record<ImportTarget, ImportField[]> = {
+  clients: [
+    { key: 'name', label: 'Nome', kind: 'text', required: true, aliases: ['nome', 'cliente', 'nome completo', 'name'] },
+    { key: 'phone', label: 'Telefone', kind: 'phone', aliases: ['telefone', 'celular', 'whatsapp', 'fone', 'phone'] },
+    { key: 'email', label: 'E-mail', kind: 'text', aliases: ['email', 'e-mail', 'correio eletronico'] },
+    { key: 'birthday', label: 'Data de nascimento', kind: 'date', aliases: ['nascimento', 'data de nascimento', 'aniversario', 'birthday'] },
+    { key: 'cpf', label: 'CPF', kind: 'cpf', aliases: ['cpf', 'documento'] },
+    { key: 'address', label: 'Endereço', kind: 'text', aliases: ['endereco', 'morada', 'address'] },
+    { key: 'technical_notes', label: 'Notas técnicas', kind: 'text', aliases: ['notas tecnicas', 'alergias', 'formula'] },
+    { key: 'marketing_consent', label: 'Aceita marketing', kind: 'boolean', aliases: ['marketing', 'aceita marketing', 'consentimento'] },
+    { key: 'tags', label: 'Etiquetas', kind: 'tags', aliases: ['etiquetas', 'tags', 'grupo'] },
+    { key: 'notes', label: 'Notas', kind: 'text', aliases: ['notas', 'observacoes', 'obs', 'notes'] },
+  ],
+  services: [
+    { key: 'name', label: 'Nome', kind: 'text', required: true, aliases: ['nome', 'servico', 'name'] },
+    { key: 'price', label: 'Preço', kind: 'money', required: true, aliases: ['preco', 'valor', 'price'] },
+    { key: 'duration', label: 'Duração (min)', kind: 'integer', required: true, aliases: ['duracao', 'minutos', 'tempo', 'duration'] },
+    { key: 'description', label: 'Descrição', kind: 'text', aliases: ['descricao', 'description'] },
+  ],
+  products: [
+    { key: 'name', label: 'Nome', kind: 'text', required: true, aliases: ['nome', 'produto', 'name'] },
+    { key: 'price', label: 'Preço', kind: 'money', required: true, aliases: ['preco', 'valor', 'price'] },
+    { key: 'quantity', label: 'Quantidade', kind: 'integer', aliases: ['quantidade', 'estoque', 'qtd', 'quantity'] },
+    { key: 'description', label: 'Descrição', kind: 'text', aliases: ['descricao', 'description'] },
+  ],
+};
+
+const IMPORT_SCHEMAS: Record<ImportTarget, z.ZodTypeAny> = {
+  clients: CreateClientSchema,
+  services: CreateServiceSchema,
+  products: CreateProductSchema,
+};
+
+/** Tira as linhas vazias, que não contam como erro nem como registo. */
+export const withoutBlankRows = (rows: SheetRow[]) => rows.filter(row => row.cells.some(value => value.trim() !== ''));
+
+/**
+ * Lê um CSV (separado por vírgula ou ponto e vírgula, com aspas) para uma lista
+ * de linhas numeradas; as linhas vazias são ignoradas mas mantêm a numeração.
+ */
+export function parseCsv(text: string): SheetRow[] {
+  const content = text.replace(/^\uFEFF/, '');
+  const firstLine = content.split(/\r?\n/, 1)[0] ?? '';
+  const delimiter = (firstLine.match(/;/g)?.length ?? 0) > (firstLine.match(/,/g)?.length ?? 0) ? ';' : ',';
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') { cell += '"'; i++; }
+      else if (char === '"') quoted = false;
+      else cell += char;
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(cell); cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      row.push(cell); rows.push(row); row = []; cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  row.push(cell);
+  rows.push(row);
+  return withoutBlankRows(rows.map((cells, index) => ({ line: index + 1, cells })));
+}
+
+/** Associação sugerida entre os campos e as colunas, pelo nome do cabeçalho. */
+export function guessMapping(headers: string[], target: ImportTarget): ColumnMapping {
+  const normalized = headers.map(normalizeText);
+  return Object.fromEntries(IMPORT_FIELDS[target].map(field => {
+    const index = normalized.findIndex(header => header === normalizeText(field.label) || field.aliases.includes(header));
+    return [field.key, index >= 0 ? index : null];
+  }));
+}
+
+// Valor monetário em reais ("R$ 1.234,56", "1.234", "35,5" ou "35.50") para centavos
+const parseMoney = (value: string) => {
+  const clean = value.replace(/[^\d,.-]/g, '');
+  const thousands = clean.includes(',') || /^\d{1,3}(\.\d{3})+$/.test(clean);
+  const decimal = thousands ? clean.replace(/\./g, '').replace(',', '.') : clean;
+  const amount = Number(decimal);
+  return decimal && Number.isFinite(amount) ? Math.round(amount * 100) : NaN;
+};
+
+// Datas "DD/MM/AAAA", "AAAA-MM-DD" ou o número de série do Excel para "AAAA-MM-DD"
+const parseDate = (value: string) => {
+  const br = value.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
+  if (br) return `${br[3]}-${br[2].padStart(2, '0')}-${br[1].padStart(2, '0')}`;
+  if (/^\d{4}-\d{2}-\d{2}/.test(value)) return value.slice(0, 10);
+  if (/^\d{4,5}(\.\d+)?$/.test(value)) {
+    // O Excel conta os dias desde 30/12/1899
+    return new Date(Date.UTC(1899, 11, 30) + Math.floor(Number(value)) * 86400000).toISOString().slice(0, 10);
+  }
+  return value;
+};
+
+const TRUE_VALUES = ['sim', 's', 'yes', 'y', 'true', 'verdadeiro', '1', 'x'];
+
+/** Converte o texto de uma célula para o tipo do campo; células vazias ficam indefinidas. */
+export function coerceValue(raw: string | undefined, kind: FieldKind): unknown {
+  const value = (raw ?? '').trim();
+  if (value === '') return undefined;
+  switch (kind) {
+    case 'money': return parseMoney(value);
+    case 'integer': return Number(value.replace(/\s/g, '').replace(',', '.'));
+    case 'date': return parseDate(value);
+    case 'boolean': return TRUE_VALUES.includes(normalizeText(value));
+    case 'tags': return normalizeTags(value.split(/[,;|]/));
+    case 'cpf': return onlyDigits(value); // Sem completar com zeros: um CPF com menos de 11 dígitos é rejeitado
+    case 'phone': return onlyDigits(value);
+    default: return value;
+  }
+}
+
+// Mensagens do zod para campos em falta ou com o tipo errado (ex.: preço "abc")
+const describeIssue = (issue: z.ZodIssue) => {
+  if (issue.code !== 'invalid_type') return issue.message;
+  return issue.received === 'undefined' ? 'Campo obrigatório' : 'Valor inválido';
+};
+
+/**
+ * Converte e valida as linhas (sem o cabeçalho) com o schema do cadastro.
+ * CPFs repetidos dentro da planilha são assinalados na segunda ocorrência.
+ */
+export function validateRows(rows: SheetRow[], mapping: ColumnMapping, target: ImportTarget): ImportRow[] {
+  const schema = IMPORT_SCHEMAS[target];
+  const fields = IMPORT_FIELDS[target];
+  const seenCpfs = new Set<string>();
+
+  return rows.map(({ line, cells }) => {
+    const values = Object.fromEntries(fields
+      .filter(field => mapping[field.key] != null)
+      .map(field => [field.key, coerceValue(cells[mapping[field.key]!], field.kind)])
+      .filter(([, value]) => value !== undefined));
+
+    const errors: string[] = [];
+    const result = schema.safeParse(values);
+    if (!result.success) {
+      result.error.issues.forEach(issue => {
+        const field = fields.find(f => f.key === issue.path[0]);
+        errors.push(`${field?.label ?? issue.path.join('.')}: ${describeIssue(issue)}`);
+      });
+    }
+    if (typeof values.cpf === 'string') {
+      if (seenCpfs.has(values.cpf)) errors.push('CPF: Repetido na planilha');
+      seenCpfs.add(values.cpf);
+    }
+    return { line, cells, data: errors.length === 0 && result.success ? result.data : null, errors };
+  });
+}
@@ -0,0 +1,61 @@
+// src/shared/giftCards.ts
+
+/**
+ * Vales-presente: códigos, saldo, validação dos usos e desconto na receita do
+ * atendimento pago com um vale.
+ *
+ * O saldo não é guardado: é a soma do extrato (emissão e estornos positivos, usos
+ * negativos). A venda do vale já foi lançada como receita; por isso a parte de um
+ * atendimento paga com vale sai da receita desse atendimento. Valores em centavos.
+ */
+
+import type { GiftCardTransactionKind, GiftCardTransactionType, GiftCardType } from './types';
+
+export const GIFT_CARD_TRANSACTION_LABELS: Record<GiftCardTransactionKind, string> = {
+  issue: 'Emissão',
+  redeem: 'Uso',
+  refund: 'Estorno',
+};
+
+// Sem 0/O, 1/I/L: o código é lido e digitado à mão
+const CODE_ALPHABET = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789';
+const CODE_LENGTH = 8;
+
+/** Código aleatório no formato "XXXX-XXXX". */
+export function generateGiftCardCode(random: (size: number) => Uint8Array = size => crypto.getRandomValues(new Uint8Array(size))): string {
+  const chars = Array.from(random(CODE_LENGTH), byte => CODE_ALPHABET[byte % CODE_ALPHABET.length]).join('');
+  return `${chars.slice(0, 4)}-${chars.slice(4)}`;
+}
+
+/** Código digitado pelo cliente no formato guardado (maiúsculas, com o hífen). */
+export function normalizeGiftCardCode(input: string): string {
+  const chars = input.toUpperCase().replace(/[^A-Z0-9]/g, '');
+  return chars.length === CODE_LENGTH ? `${chars.slice(0, 4)}-${chars.slice(4)}` : chars;
+}
+
+export const giftCardBalance = (transactions: Pick<GiftCardTransactionType, 'amount'>[]) =>
+  transactions.reduce((sum, transaction) => sum + transaction.amount, 0);
+
+export const isGiftCardExpired = (card: Pick<GiftCardType, 'expires_at'>, date: string) => !!card.expires_at && date > card.expires_at;
+
+/** Motivo pelo qual o vale não pode pagar `amount` em `date`, ou nulo. */
+export function giftCardRedemptionError(card: Pick<GiftCardType, 'expires_at'>, balance: number, amount: number, date: string): string | null {
+  if (isGiftCardExpired(card, date)) return 'Este vale-presente expirou.';
+  if (!Number.isInteger(amount) || amount <= 0) return 'Informe um valor a usar.';
+  if (amount > balance) return 'O valor é maior do que o saldo do vale.';
+  return null;
+}
+
+/** Valor pago com vales num atendimento (usos menos estornos). */
+export const appointmentCredit = (transactions: Pick<GiftCardTransactionType, 'amount' | 'appointment_id'>[], appointmentId: number) =>
+  -transactions.filter(t => t.appointment_id === appointmentId).reduce((sum, t) => sum + t.amount, 0);
+
+/** Linhas com o valor pago com vale descontado pela ordem das linhas (nenhuma fica negativa). */
+export function applyCredit<T extends { price: number }>(lines: T[], credit: number): T[] {
+  let remaining = Math.max(credit, 0);
+  return lines.map(line => {
+    const discount = Math.min(line.price, remaining);
+    remaining -= discount;
+    return discount > 0 ? { ...line, price: line.price - discount } : line;
+  });
+}
@@ -0,0 +1,183 @@
+// src/shared/lgpd.ts
+
+/**
+ * Direitos dos titulares (LGPD): exportação de todos os dados de um cliente,
+ * anonimização e datas dos consentimentos.
+ *
+ * A anonimização apaga os dados pessoais mas mantém o registo do cliente com um
+ * nome genérico, para que os agendamentos e os lançamentos financeiros continuem
+ * somando nos relatórios. A exclusão remove também os agendamentos.
+ */
+
+import type {
+  AppointmentType,
+  ClientMergeType,
+  ClientNoteType,
+  ClientMembershipType,
+  ClientPackageType,
+  GiftCardType,
+  ClientType,
+  DataSubjectRequestKind,
+  DataSubjectRequestType,
+  FinancialEntryType,
+  LoyaltyTransactionType,
+  NotificationType,
+  ProductSaleType,
+  WaitlistEntryType,
+} from './types';
+import { pointsBalance } from './loyalty';
+import { giftCardBalance } from './giftCards';
+
+export const DATA_REQUEST_LABELS: Record<DataSubjectRequestKind, string> = {
+  export: 'Exportação dos dados',
+  anonymization: 'Anonimização',
+  deletion: 'Exclusão',
+};
+
+type FinancialRecord = Pick<FinancialEntryType, 'description' | 'amount' | 'type' | 'appointment_id'> & { entry_date: string | Date };
+
+export interface ClientDataSources {
+  appointments: AppointmentType[];
+  notes: ClientNoteType[];
+  waitlist: WaitlistEntryType[];
+  notifications: NotificationType[];
+  financialEntries: FinancialRecord[];
+  merges: ClientMergeType[];
+  requests: DataSubjectRequestType[];
+  loyaltyTransactions: LoyaltyTransactionType[];
+  productSales: ProductSaleType[];
+  packages: ClientPackageType[];
+  memberships: ClientMembershipType[];
+  giftCards: GiftCardType[];
+}
+
+// Texto que substitui as mensagens enviadas a um cliente anonimizado
+export const REDACTED_MESSAGE = '[Mensagem removida na anonimização]';
+
+/** Nome que substitui o do cliente anonimizado (também nos agendamentos e nas receitas). */
+export const anonymizedName = (clientId: number | undefined) => `Cliente anonimizado #${clientId ?? ''}`;
+
+export const isAnonymized = (client: Pick<ClientType, 'anonymized_at'>) => !!client.anonymized_at;
+
+// Tira o `user_id` (identifica o salão, não o cliente)
+const withoutOwner = <T extends { user_id?: string }>(row: T): Omit<T, 'user_id'> => {
+  const copy = { ...row };
+  delete copy.user_id;
+  return copy;
+};
+
+/** Todos os dados guardados sobre o cliente, organizados para entregar ao titular. */
+export function buildClientDataExport(client: ClientType, sources: ClientDataSources, generatedAt: Date) {
+  return {
+    generated_at: generatedAt.toISOString(),
+    client: withoutOwner(client),
+    appointments: sources.appointments.map(appointment => ({
+      date: appointment.appointment_date,
+      end_date: appointment.end_date,
+      status: appointment.status,
+      services: (appointment.items?.length ? appointment.items : [appointment]).map(item => ({ service: item.service, price: item.price })),
+      price: appointment.price,
+    })),
+    notes: sources.notes.map(note => ({ created_at: note.created_at, note: note.note })),
+    waitlist: sources.waitlist.map(entry => ({
+      start_date: entry.start_date,
+      end_date: entry.end_date,
+      status: entry.status,
+      notes: entry.notes,
+      created_at: entry.created_at,
+    })),
+    messages: sources.notifications.map(message => ({
+      kind: message.kind,
+      channel: message.channel,
+      recipient: message.recipient,
+      subject: message.subject,
+      body: message.body,
+      status: message.status,
+      sent_at: message.sent_at,
+    })),
+    payments: sources.financialEntries.map(entry => ({
+      date: entry.entry_date,
+      description: entry.description,
+      amount: entry.amount,
+      type: entry.type,
+    })),
+    purchases: sources.productSales.map(sale => ({
+      sold_at: sale.sold_at,
+      product: sale.product_name,
+      quantity: sale.quantity,
+      total: sale.total,
+    })),
+    packages: sources.packages.map(pkg => ({
+      name: pkg.package_name,
+      purchased_at: pkg.purchased_at,
+      expires_at: pkg.expires_at,
+      price: pkg.price,
+      sessions_total: pkg.sessions_total,
+      sessions_used: pkg.uses?.length ?? 0,
+    })),
+    memberships: sources.memberships.map(membership => ({
+      plan: membership.plan_name,
+      status: membership.status,
+      monthly_price: membership.monthly_price,
+      started_at: membership.started_at,
+      cancelled_at: membership.cancelled_at ?? null,
+    })),
+    gift_cards: sources.giftCards.map(card => ({
+      code: card.code,
+      initial_amount: card.initial_amount,
+      recipient_name: card.recipient_name ?? null,
+      sold_at: card.sold_at,
+      expires_at: card.expires_at ?? null,
+      balance: giftCardBalance(card.transactions ?? []),
+    })),
+    loyalty: {
+      balance: pointsBalance(sources.loyaltyTransactions),
+      transactions: sources.loyaltyTransactions.map(transaction => ({
+        created_at: transaction.created_at,
+        description: transaction.description,
+        points: transaction.points,
+      })),
+    },
+    merged_records: sources.merges.map(merge => ({ merged_at: merge.merged_at, client: withoutOwner(merge.merged_client) })),
+    requests: sources.requests.map(request => ({ type: request.request_type, fulfilled_at: request.fulfilled_at })),
+  };
+}
+
+export type ClientDataExport = ReturnType<typeof buildClientDataExport>;
+
+export const clientDataFileName = (client: Pick<ClientType, 'id'>, generatedAt: Date) =>
+  `dados-cliente-${client.id}-${generatedAt.toISOString().slice(0, 10)}.json`;
+
+/**
+ * Cliente sem dados pessoais. O profissional preferido fica (não identifica o
+ * cliente) e os consentimentos são revogados.
+ */
+export function anonymizeClientRecord<T extends ClientType>(client: T, now: Date): T {
+  const timestamp = now.toISOString();
+  return {
+    ...client,
+    name: anonymizedName(client.id),
+    phone: null,
+    email: null,
+    notes: null,
+    birthday: null,
+    cpf: null,
+    address: null,
+    technical_notes: null,
+    tags: [],
+    marketing_consent: false,
+    marketing_consent_at: timestamp,
+    privacy_consent_at: null,
+    anonymized_at: timestamp,
+  };
+}
+
+/** Regista a data da mudança do consentimento de marketing, quando ele muda. */
+export function withConsentTimestamps<T extends Pick<ClientType, 'marketing_consent'>>(
+  previous: Pick<ClientType, 'marketing_consent'> | null,
+  next: T,
+  now: Date,
+): T & Pick<ClientType, 'marketing_consent_at'> {
+  const changed = !!previous?.marketing_consent !== !!next.marketing_consent;
+  return changed ? { ...next, marketing_consent_at: now.toISOString() } : next;
+}
@@ -0,0 +1,74 @@
+// src/shared/loyalty.ts
+
+/**
+ * Programa de fidelidade: pontos ganhos nos atendimentos concluídos e nas vendas de
+ * produtos, saldo do extrato e prêmios ao alcance do cliente.
+ *
+ * Um serviço com `loyalty_points` rende sempre esses pontos; os restantes serviços
+ * e os produtos rendem `points_per_real` por real gasto, arredondado para baixo.
+ * Linhas sem valor (serviço oferecido) não rendem pontos. Valores em centavos.
+ */
+
+import type {
+  AppointmentItemType,
+  AppointmentType,
+  LoyaltyRewardKind,
+  LoyaltyRewardType,
+  LoyaltySettingsType,
+  LoyaltyTransactionKind,
+  LoyaltyTransactionType,
+  ServiceType,
+} from './types';
+
+export const REWARD_TYPE_LABELS: Record<LoyaltyRewardKind, string> = {
+  free_service: 'Serviço grátis',
+  discount: 'Desconto',
+};
+
+export const TRANSACTION_KIND_LABELS: Record<LoyaltyTransactionKind, string> = {
+  earn: 'Pontos ganhos',
+  redeem: 'Resgate',
+  adjustment: 'Ajuste',
+};
+
+export type LoyaltyRules = Pick<LoyaltySettingsType, 'enabled' | 'points_per_real'>;
+
+// Salão sem programa configurado
+export const DEFAULT_LOYALTY_RULES: LoyaltyRules = { enabled: false, points_per_real: 1 };
+
+type PointsAppointment = Pick<AppointmentType, 'service_id' | 'price'> & {
+  items?: Pick<AppointmentItemType, 'service_id' | 'price'>[];
+};
+
+/** Pontos rendidos por um valor gasto (a taxa tem até duas casas decimais). */
+export const pointsForAmount = (amount: number, rules: LoyaltyRules) =>
+  rules.enabled && amount > 0 ? Math.floor(Math.round(amount * rules.points_per_real) / 100) : 0;
+
+/** Pontos de um atendimento concluído, somados linha a linha. */
+export function appointmentPoints(
+  appointment: PointsAppointment,
+  services: Pick<ServiceType, 'id' | 'loyalty_points'>[],
+  rules: LoyaltyRules,
+): number {
+  if (!rules.enabled) return 0;
+  const lines = appointment.items?.length ? appointment.items : [appointment];
+  return lines.reduce((total, line) => {
+    if (line.price <= 0) return total;
+    const fixed = services.find(service => service.id === line.service_id)?.loyalty_points;
+    return total + (fixed ?? pointsForAmount(line.price, rules));
+  }, 0);
+}
+
+export const pointsBalance = (transactions: Pick<LoyaltyTransactionType, 'points'>[]) =>
+  transactions.reduce((total, transaction) => total + transaction.points, 0);
+
+/** Motivo pelo qual o prêmio não pode ser resgatado com o saldo atual, ou nulo. */
+export function redemptionError(reward: Pick<LoyaltyRewardType, 'active' | 'points_cost'>, balance: number): string | null {
+  if (!reward.active) return 'Este prêmio não está ativo.';
+  if (reward.points_cost > balance) return `Saldo insuficiente: faltam ${reward.points_cost - balance} pontos.`;
+  return null;
+}
+
+/** Prêmios ativos que o saldo já permite resgatar, do mais barato para o mais caro. */
+export const availableRewards = <T extends LoyaltyRewardType>(rewards: T[], balance: number) =>
+  rewards.filter(reward => !redemptionError(reward, balance)).sort((a, b) => a.points_cost - b.points_cost);
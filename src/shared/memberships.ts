@@ -0,0 +1,109 @@
+// src/shared/memberships.ts
+
+/**
+ * Planos de assinatura: ciclos mensais de cobrança, usos do ciclo e escolha da
+ * assinatura que cobre cada linha de um agendamento.
+ *
+ * Cada ciclo começa no dia do mês da adesão (no último dia, nos meses mais curtos)
+ * e termina na véspera do ciclo seguinte. Os usos são as linhas de agendamento
+ * cobertas pela assinatura com data dentro do ciclo, sem contar os cancelamentos.
+ * As datas são texto "YYYY-MM-DD".
+ */
+
+import type { AppointmentItemType, ClientMembershipType, MembershipStatus } from './types';
+import { CANCELLED_STATUSES } from './appointmentStatus';
+
+export const MEMBERSHIP_STATUS_LABELS: Record<MembershipStatus, string> = {
+  active: 'Ativa',
+  paused: 'Pausada',
+  cancelled: 'Cancelada',
+};
+
+export interface BillingPeriod {
+  start: string;
+  end: string; // Último dia do ciclo
+}
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+// Dia de início do ciclo num mês (`month` de 1 a 12), limitado ao tamanho do mês
+const cycleStart = (year: number, month: number, anchorDay: number) => {
+  const normalized = new Date(Date.UTC(year, month - 1, 1));
+  const lastDay = new Date(Date.UTC(normalized.getUTCFullYear(), normalized.getUTCMonth() + 1, 0)).getUTCDate();
+  return `${normalized.getUTCFullYear()}-${pad(normalized.getUTCMonth() + 1)}-${pad(Math.min(anchorDay, lastDay))}`;
+};
+
+const previousDay = (date: string) => {
+  const day = new Date(`${date}T00:00:00Z`);
+  day.setUTCDate(day.getUTCDate() - 1);
+  return day.toISOString().slice(0, 10);
+};
+
+/** Ciclo de cobrança que contém `date`, ou nulo antes da adesão. */
+export function billingPeriod(startedAt: string, date: string): BillingPeriod | null {
+  if (date < startedAt) return null;
+  const [year, month] = date.split('-').map(Number);
+  const anchorDay = Number(startedAt.slice(8, 10));
+  const thisMonth = cycleStart(year, month, anchorDay);
+  const start = date >= thisMonth ? thisMonth : cycleStart(year, month - 1, anchorDay);
+  const [startYear, startMonth] = start.split('-').map(Number);
+  return { start, end: previousDay(cycleStart(startYear, startMonth + 1, anchorDay)) };
+}
+
+/** Descrição da receita de uma mensalidade (sem o nome do cliente). */
+export const billingDescription = (planName: string, periodStart: string) =>
+  `Assinatura: ${planName} (ciclo de ${periodStart.split('-').reverse().join('/')})`;
+
+type MembershipUsage = Pick<ClientMembershipType, 'started_at' | 'uses'>;
+
+/**
+ * Usos da assinatura no ciclo de `date`. O agendamento em edição (`excludeAppointmentId`)
+ * não conta, porque as suas linhas vão ser avaliadas de novo.
+ */
+export function usesInPeriod(membership: MembershipUsage, date: string, excludeAppointmentId?: number): number {
+  const period = billingPeriod(membership.started_at, date);
+  if (!period) return 0;
+  return (membership.uses ?? []).filter(use => {
+    if (use.appointment_id === excludeAppointmentId || !use.appointment) return false;
+    const day = use.appointment.appointment_date.slice(0, 10);
+    return day >= period.start && day <= period.end
+      && !CANCELLED_STATUSES.includes(use.appointment.status ?? 'scheduled');
+  }).length;
+}
+
+type CoverableMembership = Pick<ClientMembershipType, 'id' | 'status' | 'service_ids' | 'usage_limit' | 'started_at' | 'uses'>;
+
+/**
+ * Assinatura que cobre cada linha de um agendamento em `date` (nulo: a linha é cobrada).
+ * Só contam as assinaturas ativas e já iniciadas, até ao limite de usos do ciclo; com
+ * várias, é usada a primeira da lista que ainda tenha usos.
+ */
+export function coveredLines(
+  lines: Pick<AppointmentItemType, 'service_id'>[],
+  memberships: CoverableMembership[],
+  date: string,
+  excludeAppointmentId?: number,
+): (number | null)[] {
+  const active = memberships.filter(m => m.status === 'active' && m.started_at <= date);
+  const available = new Map(active.map(m => [
+    m.id!,
+    m.usage_limit ? m.usage_limit - usesInPeriod(m, date, excludeAppointmentId) : Infinity,
+  ]));
+  return lines.map(line => {
+    const membership = active.find(m => m.service_ids.includes(line.service_id) && available.get(m.id!)! > 0);
+    if (!membership) return null;
+    available.set(membership.id!, available.get(membership.id!)! - 1);
+    return membership.id!;
+  });
+}
+
+/** Início do ciclo por cobrar em `today`, ou nulo se a assinatura não está ativa ou já foi cobrada. */
+export function dueBillingPeriod(
+  membership: Pick<ClientMembershipType, 'status' | 'started_at'>,
+  billedPeriods: string[],
+  today: string,
+): string | null {
+  if (membership.status !== 'active') return null;
+  const period = billingPeriod(membership.started_at, today);
+  return period && !billedPeriods.includes(period.start) ? period.start : null;
+}
@@ -0,0 +1,174 @@
+// src/shared/notifications.ts
+
+/**
+ * Mensagens enviadas aos clientes (lembretes, aniversários e pós-atendimento).
+ *
+ * Os textos são modelos com marcadores como `{{client_name}}`, preenchidos com os
+ * dados do agendamento; cada tipo de mensagem só aceita os marcadores que consegue
+ * preencher (ver `KIND_VARIABLES`). O lembrete é enviado quando faltam no máximo
+ * `reminder_hours_before` horas para o início; as datas são texto local do salão
+ * ("YYYY-MM-DD HH:mm:ss"), tal como em `availability.ts`.
+ */
+
+import type { z } from 'zod';
+import type { AppointmentStatus, ClientType, MessageTemplateFormData, NotificationChannel, NotificationKind, NotificationStatus } from './types';
+import { splitDateTime } from './availability';
+import { atMinutes } from './recurrence';
+
+export type TemplateVariable = 'client_name' | 'service' | 'professional' | 'date' | 'time' | 'salon_name' | 'confirm_url';
+
+export type TemplateValues = Partial<Record<TemplateVariable, string>>;
+
+export interface MessageContent {
+  subject?: string | null; // Só para e-mail
+  body: string;
+}
+
+// Marcadores disponíveis nos modelos, com a descrição mostrada na edição
+export const TEMPLATE_VARIABLES: Record<TemplateVariable, string> = {
+  client_name: 'Nome do cliente',
+  service: 'Serviço',
+  professional: 'Profissional',
+  date: 'Data (DD/MM/AAAA)',
+  time: 'Hora (HH:mm)',
+  salon_name: 'Nome do salão',
+  confirm_url: 'Link para confirmar ou gerir o agendamento',
+};
+
+// Marcadores que cada tipo de mensagem pode usar: um aniversário não tem agendamento
+export const KIND_VARIABLES: Record<NotificationKind, TemplateVariable[]> = {
+  reminder: ['client_name', 'service', 'professional', 'date', 'time', 'salon_name', 'confirm_url'],
+  post_visit: ['client_name', 'service', 'professional', 'date', 'salon_name'],
+  birthday: ['client_name', 'salon_name'],
+};
+
+export const KIND_LABELS: Record<NotificationKind, string> = {
+  reminder: 'Lembrete',
+  birthday: 'Aniversário',
+  post_visit: 'Pós-atendimento',
+};
+
+export const CHANNEL_LABELS: Record<NotificationChannel, string> = {
+  email: 'E-mail',
+  sms: 'SMS',
+  whatsapp: 'WhatsApp',
+};
+
+export const NOTIFICATION_STATUS_LABELS: Record<NotificationStatus, string> = {
+  pending: 'A enviar',
+  sent: 'Enviado',
+  failed: 'Falhou',
+};
+
+// Só se lembra quem ainda vai ser atendido
+export const REMINDER_STATUSES: AppointmentStatus[] = ['scheduled', 'confirmed'];
+
+// Textos usados enquanto o salão não personaliza os seus modelos
+export const DEFAULT_TEMPLATES: Record<NotificationKind, Record<NotificationChannel, MessageContent>> = {
+  reminder: {
+    email: {
+      subject: 'Lembrete: {{service}} em {{date}} às {{time}}',
+      body: 'Olá, {{client_name}}!\n\nLembramos que você tem {{service}} com {{professional}} no dia {{date}} às {{time}}.\n\nConfirme sua presença ou remarque em: {{confirm_url}}\n\n{{salon_name}}',
+    },
+    sms: {
+      body: '{{salon_name}}: {{client_name}}, lembrete de {{service}} em {{date}} às {{time}}. Confirme: {{confirm_url}}',
+    },
+    whatsapp: {
+      body: 'Olá, {{client_name}}! 👋 Lembramos do seu horário de {{service}} com {{professional}} no dia {{date}} às {{time}}. Confirme sua presença aqui: {{confirm_url}}',
+    },
+  },
+  birthday: {
+    email: {
+      subject: 'Feliz aniversário, {{client_name}}!',
+      body: 'Olá, {{client_name}}!\n\nToda a equipe do {{salon_name}} deseja um feliz aniversário. Esperamos você em breve para celebrar com um cuidado especial.\n\n{{salon_name}}',
+    },
+    sms: {
+      body: '{{salon_name}}: feliz aniversário, {{client_name}}! Venha comemorar com a gente.',
+    },
+    whatsapp: {
+      body: 'Feliz aniversário, {{client_name}}! 🎉 Toda a equipe do {{salon_name}} deseja um dia maravilhoso. Venha comemorar com a gente!',
+    },
+  },
+  post_visit: {
+    email: {
+      subject: 'Obrigado pela visita, {{client_name}}!',
+      body: 'Olá, {{client_name}}!\n\nObrigado por ter feito {{service}} com {{professional}} no dia {{date}}. Esperamos que tenha gostado do resultado!\n\nConte-nos como foi respondendo a este e-mail.\n\n{{salon_name}}',
+    },
+    sms: {
+      body: '{{salon_name}}: obrigado pela visita, {{client_name}}! Esperamos que tenha gostado de {{service}}.',
+    },
+    whatsapp: {
+      body: 'Olá, {{client_name}}! Obrigado por ter vindo fazer {{service}} com {{professional}}. 💜 Esperamos que tenha gostado! Conte-nos como foi.',
+    },
+  },
+};
+
+const PLACEHOLDER = /\{\{\s*(\w+)\s*\}\}/g;
+
+/** Marcadores usados num texto, sem repetições e pela ordem em que aparecem. */
+export const templatePlaceholders = (template: string) =>
+  [...new Set([...template.matchAll(PLACEHOLDER)].map(match => match[1]))];
+
+/** Preenche os marcadores; os desconhecidos ficam no texto para o erro ser visível. */
+export const renderTemplate = (template: string, values: TemplateValues) =>
+  template.replace(PLACEHOLDER, (placeholder, name: string) =>
+    name in TEMPLATE_VARIABLES ? values[name as TemplateVariable] ?? '' : placeholder);
+
+/** Marcadores de um texto que o tipo de mensagem não sabe preencher. */
+export const unknownPlaceholders = (template: string, kind: NotificationKind) =>
+  templatePlaceholders(template).filter(name => !(KIND_VARIABLES[kind] as string[]).includes(name));
+
+/** Refinamento do formulário de modelos: recusa marcadores desconhecidos antes de salvar. */
+export const checkTemplatePlaceholders = (data: MessageTemplateFormData, ctx: z.RefinementCtx) => {
+  (['subject', 'body'] as const).forEach(field => {
+    const unknown = unknownPlaceholders(data[field] ?? '', data.kind);
+    if (unknown.length > 0) {
+      ctx.addIssue({
+        code: 'custom',
+        path: [field],
+        message: `Marcador desconhecido: ${unknown.map(name => `{{${name}}}`).join(', ')}`,
+      });
+    }
+  });
+};
+
+export const renderMessage = (content: MessageContent, values: TemplateValues): MessageContent => ({
+  subject: content.subject ? renderTemplate(content.subject, values) : null,
+  body: renderTemplate(content.body, values),
+});
+
+/** Valores dos marcadores para um agendamento. */
+export function appointmentValues(
+  appointment: { client_name: string; service: string; appointment_date: string },
+  extra: { professional?: string | null; salonName?: string | null; confirmUrl?: string | null } = {}
+): TemplateValues {
+  const [date, time] = appointment.appointment_date.split(/[T ]/); // O Postgres devolve "YYYY-MM-DDTHH:mm:ss"
+  const [year, month, day] = date.split('-');
+  return {
+    client_name: appointment.client_name,
+    service: appointment.service,
+    professional: extra.professional ?? '',
+    date: `${day}/${month}/${year}`,
+    time: time.slice(0, 5),
+    salon_name: extra.salonName ?? '',
+    confirm_url: extra.confirmUrl ?? '',
+  };
+}
+
+/**
+ * Intervalo de inícios de agendamento que já devem receber o lembrete:
+ * depois de `now` e até `hoursBefore` horas à frente.
+ */
+export function reminderRange(hoursBefore: number, now: string) {
+  const { date, minutes } = splitDateTime(now);
+  return { from: now, to: atMinutes(date, minutes + hoursBefore * 60) };
+}
+
+export const isReminderDue = (appointmentDate: string, hoursBefore: number, now: string) => {
+  const { from, to } = reminderRange(hoursBefore, now);
+  return appointmentDate > from && appointmentDate <= to;
+};
+
+/** Endereço do cliente no canal escolhido, ou null se não estiver registado. */
+export const recipientFor = (channel: NotificationChannel, client: Pick<ClientType, 'email' | 'phone'>) =>
+  (channel === 'email' ? client.email : client.phone)?.trim() || null;
@@ -0,0 +1,140 @@
+// src/shared/onlineBooking.ts
+
+/**
+ * Regras da página pública de agendamento.
+ *
+ * O salão define até quantos dias à frente se pode agendar (janela) e com que
+ * antecedência mínima. Tal como em `availability.ts`, as datas são texto local
+ * do salão ("YYYY-MM-DD HH:mm:ss"); `zonedNow` converte o instante atual para
+ * esse formato no fuso horário do salão.
+ */
+
+import type { AppointmentStatus, BookingSettingsType } from './types';
+import type { AvailabilityContext } from './availability';
+import { getAvailableSlots, splitDateTime } from './availability';
+import { atMinutes } from './recurrence';
+
+export type BookingPolicy = Pick<BookingSettingsType, 'booking_window_days' | 'lead_time_minutes'>;
+export type CancellationPolicy = Pick<BookingSettingsType, 'cancellation_notice_hours'>;
+
+// Motivo pelo qual um horário não pode ser agendado online
+export type BookingTimeIssue = 'too_soon' | 'too_far';
+
+export interface PublicSlot {
+  time: string;               // "HH:mm"
+  professional_ids: number[]; // Profissionais livres nesse horário, pela ordem recebida
+}
+
+// Motivo pelo qual o cliente já não pode cancelar nem remarcar pelo link
+export type ClientChangeIssue = 'status' | 'deadline';
+
+// Só agendamentos ainda por atender podem ser alterados pelo cliente
+export const CLIENT_CHANGEABLE_STATUSES: AppointmentStatus[] = ['scheduled', 'confirmed'];
+
+// Limite de pedidos de agendamento por IP e salão
+export const BOOKING_RATE_LIMIT = { attempts: 5, windowMinutes: 60 };
+
+const MINUTES_PER_DAY = 24 * 60;
+
+/** Endereço da página a partir do nome do salão, ex.: "Estúdio Bela Flor" → "estudio-bela-flor". */
+export const slugify = (text: string) =>
+  text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+
+/** Só os dígitos do telefone, como em `clients.phone_digits`, para encontrar o cliente independentemente da formatação. */
+export const normalizePhone = (phone: string) => phone.replace(/\D/g, '');
+
+/** Instante atual como texto local ("YYYY-MM-DD HH:mm:ss") no fuso horário indicado. */
+export function zonedNow(timeZone: string, instant: Date = new Date()) {
+  const parts = new Intl.DateTimeFormat('en-CA', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(instant);
+  const part = (type: Intl.DateTimeFormatPartTypes) => parts.find(p => p.type === type)?.value ?? '00';
+  return `${part('year')}-${part('month')}-${part('day')} ${part('hour')}:${part('minute')}:${part('second')}`;
+}
+
+/**
+ * Primeiro horário agendável (agora + antecedência) e último dia da janela.
+ */
+export function bookingBounds(policy: BookingPolicy, now: string) {
+  const { date, minutes } = splitDateTime(now);
+  return {
+    earliest: atMinutes(date, minutes + policy.lead_time_minutes),
+    lastDate: atMinutes(date, policy.booking_window_days * MINUTES_PER_DAY).slice(0, 10),
+  };
+}
+
+/** Verifica se o início de um agendamento respeita a antecedência e a janela. */
+export function checkBookingTime(policy: BookingPolicy, now: string, appointmentDate: string): BookingTimeIssue | null {
+  const { earliest, lastDate } = bookingBounds(policy, now);
+  if (appointmentDate.slice(0, 16) < earliest.slice(0, 16)) return 'too_soon';
+  if (appointmentDate.slice(0, 10) > lastDate) return 'too_far';
+  return null;
+}
+
+/**
+ * Horários livres de um dia para a página pública. Com vários profissionais
+ * ("qualquer profissional"), junta os horários de todos e indica quem está livre em cada um.
+ */
+export function getPublicSlots(
+  context: AvailabilityContext,
+  policy: BookingPolicy,
+  now: string,
+  query: { date: string; duration: number; professionalIds: number[]; ignoreAppointmentId?: number }
+): PublicSlot[] {
+  const { earliest, lastDate } = bookingBounds(policy, now);
+  if (query.date > lastDate) return [];
+
+  const byTime = new Map<string, number[]>();
+  query.professionalIds.forEach(professionalId => {
+    const { slots } = getAvailableSlots(context, {
+      date: query.date,
+      professionalId,
+      duration: query.duration,
+      ignoreAppointmentId: query.ignoreAppointmentId,
+      now: earliest,
+    });
+    slots.forEach(time => byTime.set(time, [...(byTime.get(time) ?? []), professionalId]));
+  });
+  return [...byTime.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([time, professional_ids]) => ({ time, professional_ids }));
+}
+
+/** Último momento em que o cliente pode cancelar ou remarcar um agendamento. */
+export const clientChangeDeadline = (policy: CancellationPolicy, appointmentDate: string) => {
+  const { date, minutes } = splitDateTime(appointmentDate);
+  return atMinutes(date, minutes - policy.cancellation_notice_hours * 60);
+};
+
+/** Verifica se o cliente ainda pode cancelar ou remarcar o agendamento pelo link. */
+export function checkClientChange(
+  policy: CancellationPolicy,
+  now: string,
+  appointment: { appointment_date: string; status?: AppointmentStatus | null }
+): ClientChangeIssue | null {
+  if (!CLIENT_CHANGEABLE_STATUSES.includes(appointment.status ?? 'scheduled')) return 'status';
+  if (now.slice(0, 16) > clientChangeDeadline(policy, appointment.appointment_date).slice(0, 16)) return 'deadline';
+  return null;
+}
+
+export const CLIENT_CHANGE_MESSAGES: Record<ClientChangeIssue, string> = {
+  status: 'Este agendamento já não pode ser alterado.',
+  deadline: 'O prazo para cancelar ou remarcar online terminou. Entre em contato com o salão.',
+};
+
+export const BOOKING_TIME_MESSAGES: Record<BookingTimeIssue, string> = {
+  too_soon: 'Este horário não respeita a antecedência mínima do salão.',
+  too_far: 'Esta data está fora do período aberto para agendamentos.',
+};
@@ -0,0 +1,65 @@
+// src/shared/packages.ts
+
+/**
+ * Pacotes de sessões pré-pagas: prazo de uso, saldo de sessões e escolha do pacote
+ * que paga cada linha de um atendimento concluído.
+ *
+ * O saldo não é guardado: é o total de sessões menos as sessões usadas. Quando o
+ * cliente tem mais de um pacote para o mesmo serviço, é usado primeiro o que expira
+ * mais cedo (os sem prazo por último) e, entre esses, o mais antigo. As datas são
+ * texto "YYYY-MM-DD"; `expires_at` é o último dia de uso.
+ */
+
+import type { AppointmentItemType, ClientPackageType } from './types';
+
+export type PackageBalance = Pick<ClientPackageType, 'id' | 'service_ids' | 'sessions_total' | 'expires_at' | 'purchased_at'> & {
+  uses?: unknown[];
+};
+
+export interface SessionAllocation {
+  line: number; // Índice da linha do atendimento
+  client_package_id: number;
+  service_id: number;
+}
+
+/** Último dia de uso de um pacote comprado em `purchaseDate`, ou nulo sem prazo. */
+export function packageExpiry(purchaseDate: string, validityDays: number | null | undefined): string | null {
+  if (!validityDays) return null;
+  const date = new Date(`${purchaseDate}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + validityDays - 1);
+  return date.toISOString().slice(0, 10);
+}
+
+export const remainingSessions = (pkg: PackageBalance) => pkg.sessions_total - (pkg.uses?.length ?? 0);
+
+export const isExpired = (pkg: Pick<ClientPackageType, 'expires_at'>, date: string) => !!pkg.expires_at && date > pkg.expires_at;
+
+/** Pacotes com sessões por usar e dentro do prazo na data indicada, pela ordem de consumo. */
+export function usablePackages<T extends PackageBalance>(packages: T[], date: string): T[] {
+  return packages
+    .filter(pkg => remainingSessions(pkg) > 0 && !isExpired(pkg, date))
+    .sort((a, b) =>
+      (a.expires_at ?? '9999-12-31').localeCompare(b.expires_at ?? '9999-12-31')
+      || (a.purchased_at ?? '').localeCompare(b.purchased_at ?? ''));
+}
+
+/**
+ * Sessões a consumir pelas linhas de um atendimento realizado em `date`: uma por
+ * linha coberta, enquanto houver saldo. As linhas já sem custo (ex.: incluídas numa
+ * assinatura) não gastam sessões.
+ */
+export function allocateSessions(
+  lines: (Pick<AppointmentItemType, 'service_id'> & { price?: number })[],
+  packages: PackageBalance[],
+  date: string,
+): SessionAllocation[] {
+  const ordered = usablePackages(packages, date);
+  const available = new Map(ordered.map(pkg => [pkg.id!, remainingSessions(pkg)]));
+  return lines.flatMap((line, index) => {
+    if (line.price === 0) return [];
+    const pkg = ordered.find(p => p.service_ids.includes(line.service_id) && (available.get(p.id!) ?? 0) > 0);
+    if (!pkg) return [];
+    available.set(pkg.id!, available.get(pkg.id!)! - 1);
+    return [{ line: index, client_package_id: pkg.id!, service_id: line.service_id }];
+  });
+}
@@ -0,0 +1,143 @@
+// src/shared/promotions.ts
+
+/**
+ * Cupons e promoções: quando uma promoção vale para um agendamento e quanto desconta
+ * em cada linha de serviço.
+ *
+ * Cada agendamento tem no máximo uma promoção: o cupom informado ou, sem cupom, a
+ * regra automática com o maior desconto. Dia da semana, horário e validade são
+ * avaliados no início do agendamento. Valores em centavos.
+ */
+
+import type { AppointmentType, DiscountType, PromotionType } from './types';
+import { dayOfWeek, splitDateTime, toMinutes } from './availability';
+import { normalizeText } from './clients';
+
+export const DISCOUNT_TYPE_LABELS: Record<DiscountType, string> = {
+  percent: 'Percentagem',
+  fixed: 'Valor fixo',
+};
+
+export const WEEKDAY_LABELS = ['Dom', 'Seg', 'Ter', 'Qua', 'Qui', 'Sex', 'Sáb'];
+
+type PromotionRule = Omit<PromotionType, 'user_id' | 'name'>;
+type PricedLine = { service_id: number; price: number };
+
+export interface PricingContext {
+  appointmentDate: string; // "YYYY-MM-DD HH:mm:ss"
+  clientTags: string[];
+}
+
+export interface PricedAppointment<T extends PricedLine, P extends PromotionRule> {
+  lines: (T & { discount: number })[]; // `price` já descontado
+  gross: number;
+  discount: number;
+  net: number;
+  promotion: P | null;
+  couponError: string | null;
+}
+
+export const normalizeCouponCode = (input: string) => input.toUpperCase().replace(/\s+/g, '');
+
+/** A promoção vale na data e hora do agendamento e para as etiquetas do cliente (os serviços são vistos à parte). */
+export function promotionMatches(promotion: PromotionRule, context: PricingContext): boolean {
+  if (!promotion.active) return false;
+  const { date, minutes } = splitDateTime(context.appointmentDate);
+  if (promotion.valid_from && date < promotion.valid_from) return false;
+  if (promotion.valid_until && date > promotion.valid_until) return false;
+  if (promotion.weekdays.length > 0 && !promotion.weekdays.includes(dayOfWeek(date))) return false;
+  if (promotion.start_time && minutes < toMinutes(promotion.start_time)) return false;
+  if (promotion.end_time && minutes >= toMinutes(promotion.end_time)) return false;
+  if (promotion.client_tags.length === 0) return true;
+  const tags = new Set(context.clientTags.map(normalizeText));
+  return promotion.client_tags.some(tag => tags.has(normalizeText(tag)));
+}
+
+/** Desconto de cada linha; um valor fixo é repartido pelas linhas abrangidas, pela ordem. */
+export function lineDiscounts(promotion: PromotionRule, lines: PricedLine[]): number[] {
+  const eligible = (line: PricedLine) =>
+    line.price > 0 && (promotion.service_ids.length === 0 || promotion.service_ids.includes(line.service_id));
+  if (promotion.discount_type === 'percent') {
+    return lines.map(line => (eligible(line) ? Math.round((line.price * promotion.discount_value) / 100) : 0));
+  }
+  let remaining = promotion.discount_value;
+  return lines.map(line => {
+    if (!eligible(line)) return 0;
+    const discount = Math.min(line.price, remaining);
+    remaining -= discount;
+    return discount;
+  });
+}
+
+const totalDiscount = (promotion: PromotionRule, lines: PricedLine[]) =>
+  lineDiscounts(promotion, lines).reduce((sum, discount) => sum + discount, 0);
+
+/**
+ * Aplica ao agendamento o cupom `couponCode` ou, sem cupom, a melhor regra automática.
+ * Um cupom que não vale devolve o motivo em `couponError` e o preço sem desconto.
+ */
+export function priceAppointment<T extends PricedLine, P extends PromotionRule>(
+  promotions: P[],
+  lines: T[],
+  context: PricingContext,
+  couponCode?: string | null,
+): PricedAppointment<T, P> {
+  let promotion: P | null = null;
+  let couponError: string | null = null;
+
+  const code = normalizeCouponCode(couponCode ?? '');
+  if (code) {
+    const coupon = promotions.find(p => p.code && normalizeCouponCode(p.code) === code);
+    if (!coupon) couponError = 'Cupom não encontrado.';
+    else if (!promotionMatches(coupon, context)) couponError = 'O cupom não vale para esta data, horário ou cliente.';
+    else if (totalDiscount(coupon, lines) === 0) couponError = 'O cupom não se aplica aos serviços escolhidos.';
+    else promotion = coupon;
+  } else {
+    let best = 0;
+    for (const rule of promotions.filter(p => !p.code && promotionMatches(p, context))) {
+      const discount = totalDiscount(rule, lines);
+      if (discount > best) {
+        best = discount;
+        promotion = rule;
+      }
+    }
+  }
+
+  const discounts = promotion ? lineDiscounts(promotion, lines) : lines.map(() => 0);
+  const gross = lines.reduce((sum, line) => sum + line.price, 0);
+  const discount = discounts.reduce((sum, value) => sum + value, 0);
+  return {
+    lines: lines.map((line, index) => ({ ...line, price: line.price - discounts[index], discount: discounts[index] })),
+    gross,
+    discount,
+    net: gross - discount,
+    promotion,
+    couponError,
+  };
+}
+
+export type DiscountReportRow = Pick<AppointmentType, 'price' | 'gross_price' | 'discount_amount' | 'coupon_code'> & {
+  promotion?: { name: string } | null;
+};
+
+/** Bruto, desconto e líquido dos atendimentos, com o desconto de cada promoção. */
+export function summarizeDiscounts(rows: DiscountReportRow[]) {
+  const byPromotion = new Map<string, { count: number; discount: number }>();
+  let gross = 0;
+  let discount = 0;
+  rows.forEach(row => {
+    const rowDiscount = row.discount_amount ?? 0;
+    gross += row.gross_price ?? row.price;
+    discount += rowDiscount;
+    if (rowDiscount === 0) return;
+    const name = row.promotion?.name ?? (row.coupon_code ? `Cupom ${row.coupon_code}` : 'Promoção excluída');
+    const current = byPromotion.get(name) ?? { count: 0, discount: 0 };
+    byPromotion.set(name, { count: current.count + 1, discount: current.discount + rowDiscount });
+  });
+  return {
+    gross,
+    discount,
+    net: gross - discount,
+    byPromotion: [...byPromotion].map(([name, totals]) => ({ name, ...totals })).sort((a, b) => b.discount - a.discount),
+  };
+}
@@ -0,0 +1,129 @@
+// src/shared/queries.ts
+
+/**
+ * Consultas ao banco partilhadas pela aplicação (`store.ts`) e pelo Worker.
+ *
+ * Cada função recebe o cliente do Supabase: na aplicação é o da sessão do utilizador
+ * (com RLS); no Worker é o da chave de serviço, e por isso todas as consultas filtram
+ * pelo salão (`user_id`) ou pelos profissionais dele.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { ClientMembershipType, WaitlistEntryType } from './types';
+import type { AvailabilityContext } from './availability';
+import { splitDateTime } from './availability';
+import { expandAppointments } from './appointmentItems';
+import type { ItemizedAppointment } from './appointmentItems';
+import { findWaitlistMatches, freedSlots } from './waitlist';
+import { billingDescription, dueBillingPeriod } from './memberships';
+
+const UNIQUE_VIOLATION = '23505';
+
+/**
+ * Carrega do banco as regras dos profissionais indicados e os agendamentos entre duas
+ * datas, para calcular ou reconfirmar a disponibilidade com dados atualizados.
+ */
+export async function fetchAvailabilityContext(
+  db: SupabaseClient,
+  userId: string,
+  professionalIds: number[],
+  from: string,
+  to: string = from
+): Promise<AvailabilityContext> {
+  const [businessHours, schedules, businessExceptions, professionalExceptions, appointments] = await Promise.all([
+    db.from('business_settings').select('day_of_week, start_time, end_time').eq('user_id', userId).not('start_time', 'is', null).not('end_time', 'is', null),
+    db.from('professional_schedules').select('*').in('professional_id', professionalIds),
+    db.from('business_exceptions').select('*').eq('user_id', userId).gte('exception_date', from).lte('exception_date', to),
+    db.from('professional_exceptions').select('*').in('professional_id', professionalIds).lte('start_date', to).gte('end_date', from),
+    // Todos os agendamentos do período: uma linha de outro agendamento pode ocupar um dos profissionais
+    db.from('appointments').select('id, professional_id, client_name, service, appointment_date, end_date, status, items:appointment_services(service, duration, professional_id, position)').eq('user_id', userId).lte('appointment_date', `${to} 23:59:59`).gte('end_date', `${from} 00:00:00`),
+  ]);
+  const error = businessHours.error || schedules.error || businessExceptions.error || professionalExceptions.error || appointments.error;
+  if (error) throw error;
+  return {
+    businessHours: businessHours.data || [],
+    schedules: schedules.data || [],
+    businessExceptions: businessExceptions.data || [],
+    professionalExceptions: professionalExceptions.data || [],
+    appointments: expandAppointments(appointments.data || []),
+  };
+}
+
+/**
+ * Passa a 'matched' os pedidos da lista de espera que cabem nas vagas libertadas por
+ * agendamentos cancelados, remarcados ou excluídos (com o status anterior à mudança).
+ * `now` é a hora local do salão; devolve os pedidos atualizados.
+ */
+export async function matchFreedSlots(
+  db: SupabaseClient,
+  freed: ItemizedAppointment[],
+  userId: string,
+  now: string
+): Promise<WaitlistEntryType[]> {
+  const slots = freedSlots(freed, now);
+  if (slots.length === 0) return [];
+  const dates = slots.map(slot => splitDateTime(slot.appointment_date).date).sort();
+  const { data: entries, error } = await db.from('waitlist_entries').select('*')
+    .eq('user_id', userId)
+    .eq('status', 'waiting')
+    .lte('start_date', dates[dates.length - 1])
+    .gte('end_date', dates[0])
+    .order('created_at', { ascending: true });
+  if (error) throw error;
+  if (!entries || entries.length === 0) return [];
+
+  const { data: services, error: servicesError } = await db.from('services').select('id, duration').in('id', [...new Set(entries.map((e: WaitlistEntryType) => e.service_id))]);
+  if (servicesError) throw servicesError;
+  const matches = findWaitlistMatches<WaitlistEntryType>(entries, slots, serviceId => services?.find(s => s.id === serviceId)?.duration);
+
+  const matchedAt = new Date().toISOString();
+  const updates = await Promise.all(matches.map(({ entry, slot }) => db.from('waitlist_entries')
+    .update({ status: 'matched', matched_date: slot.appointment_date, matched_professional_id: slot.professional_id, matched_at: matchedAt, updated_at: matchedAt })
+    .eq('id', entry.id)
+    .eq('status', 'waiting')
+    .select()));
+  const failed = updates.find(update => update.error);
+  if (failed) throw failed.error;
+  return updates.flatMap(update => update.data || []);
+}
+
+/**
+ * Lança a mensalidade do ciclo de `today`, se ainda não foi lançada, como receita pontual:
+ * as receitas fixas repetem-se sozinhas todos os meses no Financeiro. É a cobrança da
+ * tarefa agendada do Worker e da aplicação (adesão e reativação). A mensalidade é
+ * registada antes da receita: a restrição única de `membership_billings` impede que duas
+ * execuções cobrem o mesmo ciclo. Devolve se a mensalidade foi lançada.
+ */
+export async function billMembership(db: SupabaseClient, membership: ClientMembershipType, today: string): Promise<boolean> {
+  const { data: billed, error } = await db.from('membership_billings').select('period_start').eq('client_membership_id', membership.id);
+  if (error) throw error;
+  const periodStart = dueBillingPeriod(membership, (billed || []).map((b: { period_start: string }) => b.period_start), today);
+  if (!periodStart) return false;
+
+  const { data: billing, error: billingError } = await db.from('membership_billings').insert([{
+    user_id: membership.user_id,
+    client_membership_id: membership.id,
+    period_start: periodStart,
+    amount: membership.monthly_price,
+  }]).select().single();
+  if (billingError) {
+    if (billingError.code === UNIQUE_VIOLATION) return false;
+    throw billingError;
+  }
+  const { data: entry, error: entryError } = await db.from('financial_entries').insert([{
+    user_id: membership.user_id,
+    description: billingDescription(membership.plan_name, periodStart),
+    amount: membership.monthly_price,
+    type: 'receita',
+    entry_type: 'pontual',
+    entry_date: periodStart,
+  }]).select().single();
+  if (entryError) {
+    // Sem a receita, o ciclo não pode ficar marcado como cobrado
+    await db.from('membership_billings').delete().eq('id', billing.id);
+    throw entryError;
+  }
+  const { error: linkError } = await db.from('membership_billings').update({ financial_entry_id: entry.id }).eq('id', billing.id);
+  if (linkError) throw linkError;
+  return true;
+}
@@ -0,0 +1,116 @@
+// src/shared/recurrence.ts
+
+/**
+ * Geração das ocorrências de agendamentos recorrentes.
+ *
+ * Tal como em `availability.ts`, as datas são tratadas como texto local
+ * ("YYYY-MM-DD HH:mm:ss") para não depender do fuso horário.
+ */
+
+import type { RecurrenceRuleType } from './types';
+import type { AvailabilityCheck } from './availability';
+import { splitDateTime, formatMinutes } from './availability';
+
+export interface Occurrence {
+  appointment_date: string; // YYYY-MM-DD HH:mm:ss
+  end_date: string;
+}
+
+// Alcance de uma edição ou exclusão numa série
+export type SeriesScope = 'this' | 'following' | 'all';
+
+// Ocorrência que não pôde ser agendada ou alterada, com o motivo
+export interface SkippedOccurrence extends Occurrence {
+  check: Extract<AvailabilityCheck, { available: false }>;
+}
+
+// Máximo de ocorrências de uma série (um ano de agendamentos semanais)
+export const MAX_OCCURRENCES = 52;
+
+const MINUTES_PER_DAY = 24 * 60;
+
+const parseDate = (date: string) => new Date(`${date}T00:00:00Z`);
+const formatDate = (date: Date) => date.toISOString().slice(0, 10);
+const daysInMonth = (year: number, month: number) => new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+
+// Soma minutos (também negativos) a uma data "YYYY-MM-DD", devolvendo um timestamp local.
+export const atMinutes = (date: string, minutes: number) => {
+  const day = parseDate(date);
+  day.setUTCDate(day.getUTCDate() + Math.floor(minutes / MINUTES_PER_DAY));
+  return `${formatDate(day)} ${formatMinutes(((minutes % MINUTES_PER_DAY) + MINUTES_PER_DAY) % MINUTES_PER_DAY)}:00`;
+};
+
+// Duração, em minutos, entre o início e o fim de um agendamento
+const durationOf = (occurrence: Occurrence) => {
+  const start = splitDateTime(occurrence.appointment_date);
+  const end = splitDateTime(occurrence.end_date);
+  const days = (parseDate(end.date).getTime() - parseDate(start.date).getTime()) / (MINUTES_PER_DAY * 60000);
+  return days * MINUTES_PER_DAY + end.minutes - start.minutes;
+};
+
+/**
+ * Data da n-ésima ocorrência (n=0 é a primeira).
+ * Na recorrência mensal, um dia inexistente no mês (ex.: 31) passa para o último dia do mês.
+ */
+const nthDate = (rule: RecurrenceRuleType, firstDate: string, n: number) => {
+  const first = parseDate(firstDate);
+  if (rule.frequency === 'weekly') {
+    first.setUTCDate(first.getUTCDate() + n * 7 * rule.interval);
+    return formatDate(first);
+  }
+  const monthIndex = first.getUTCMonth() + n * rule.interval;
+  const year = first.getUTCFullYear() + Math.floor(monthIndex / 12);
+  const month = ((monthIndex % 12) + 12) % 12;
+  const day = Math.min(rule.day_of_month ?? first.getUTCDate(), daysInMonth(year, month));
+  return formatDate(new Date(Date.UTC(year, month, day)));
+};
+
+/**
+ * Gera as ocorrências de uma série a partir do primeiro agendamento.
+ * Todas mantêm a hora de início e a duração do primeiro.
+ */
+export function generateOccurrences(rule: RecurrenceRuleType, first: Occurrence): Occurrence[] {
+  const start = splitDateTime(first.appointment_date);
+  const duration = durationOf(first);
+  const limit = Math.min(rule.end_type === 'count' ? rule.occurrences ?? 1 : MAX_OCCURRENCES, MAX_OCCURRENCES);
+
+  const occurrences: Occurrence[] = [];
+  for (let n = 0; occurrences.length < limit; n++) {
+    const date = nthDate(rule, start.date, n);
+    if (rule.end_type === 'until' && rule.until_date && date > rule.until_date) break;
+    // Na recorrência mensal com outro dia do mês, a primeira data pode ficar antes do início
+    if (date < start.date) continue;
+    occurrences.push({
+      appointment_date: atMinutes(date, start.minutes),
+      end_date: atMinutes(date, start.minutes + duration),
+    });
+  }
+  return occurrences;
+}
+
+/**
+ * A data final da série dá mais do que `MAX_OCCURRENCES` ocorrências a partir de
+ * `firstDate` ("YYYY-MM-DD"); em vez de cortar a série em silêncio, o formulário recusa-a.
+ */
+export function exceedsMaxOccurrences(rule: RecurrenceRuleType, firstDate: string): boolean {
+  if (rule.end_type !== 'until' || !rule.until_date) return false;
+  let count = 0;
+  for (let n = 0; ; n++) {
+    const date = nthDate(rule, firstDate, n);
+    if (date > rule.until_date) return false;
+    if (date >= firstDate && ++count > MAX_OCCURRENCES) return true;
+  }
+}
+
+/**
+ * Aplica a hora de início e a duração de um agendamento editado a outra
+ * ocorrência da série, mantendo a data dessa ocorrência.
+ */
+export function retimeOccurrence(occurrence: Pick<Occurrence, 'appointment_date'>, template: Occurrence): Occurrence {
+  const date = splitDateTime(occurrence.appointment_date).date;
+  const start = splitDateTime(template.appointment_date).minutes;
+  return {
+    appointment_date: atMinutes(date, start),
+    end_date: atMinutes(date, start + durationOf(template)),
+  };
+}
@@ -4,13 +4,394 @@ import { create } from 'zustand';
 import { supabase } from '../react-app/supabaseClient';
 import type {
   ClientType,
+  ClientNoteType,
+  ClientMergeType,
+  DataSubjectRequestKind,
+  DataSubjectRequestType,
   ProductType,
   ServiceType,
   AppointmentType,
+  AppointmentItemType,
+  AppointmentStatus,
+  AppointmentStatusChangeType,
+  AppointmentChangeType,
   FinancialEntryType,
   ProfessionalType,
-  BusinessHoursType
+  ProfessionalScheduleType,
+  ProfessionalExceptionType,
+  BusinessHoursType,
+  BusinessExceptionType,
+  RecurrenceRuleType,
+  WaitlistEntryType,
+  WaitlistStatus,
+  NotificationType,
+  MessageTemplateType,
+  LoyaltyRewardType,
+  LoyaltySettingsFormData,
+  LoyaltyTransactionType,
+  ProductSaleFormData,
+  ProductSaleType,
+  ServicePackageType,
+  ClientPackageType,
+  MembershipPlanType,
+  ClientMembershipType,
+  MembershipStatus,
+  GiftCardType,
+  GiftCardFormData,
+  GiftCardTransactionType,
+  PromotionType
 } from './types';
+import { splitDateTime, AppointmentConflictError } from './availability';
+import { generateOccurrences, retimeOccurrence } from './recurrence';
+import { CANCELLED_STATUSES, canTransition, occupiesSlot, requiresReason, STATUS_LABELS } from './appointmentStatus';
+import type { SeriesScope, SkippedOccurrence } from './recurrence';
+import { appointmentSegments, checkAppointmentAvailability, sortItems } from './appointmentItems';
+import { billMembership, fetchAvailabilityContext, matchFreedSlots } from './queries';
+import type { ItemizedAppointment } from './appointmentItems';
+import { zonedNow } from './onlineBooking';
+import { mergeClientRecords } from './clientDuplicates';
+import type { ImportRow, ImportTarget } from './dataImport';
+import { RESTORE_KEYS, RestoreRollbackError, createBackup, matchRestoredIds, remapAppointment, remapAppointmentItems, remapClient, remapFinancialEntry, remapId, withoutId } from './backup';
+import type { AccountBackup, IdMaps } from './backup';
+import { REDACTED_MESSAGE, anonymizeClientRecord, buildClientDataExport } from './lgpd';
+import type { ClientDataExport, ClientDataSources } from './lgpd';
+import { DEFAULT_LOYALTY_RULES, appointmentPoints, pointsBalance, pointsForAmount, redemptionError } from './loyalty';
+import type { LoyaltyRules } from './loyalty';
+import { allocateSessions, packageExpiry } from './packages';
+import { appointmentCredit, applyCredit, generateGiftCardCode, giftCardBalance, giftCardRedemptionError } from './giftCards';
+import type { DiscountReportRow } from './promotions';
+
+// Agendamentos com as suas linhas de serviço
+const APPOINTMENT_WITH_ITEMS = '*, items:appointment_services(*)';
+
+// Pacotes vendidos com as sessões já usadas (o saldo é calculado a partir delas)
+const CLIENT_PACKAGE_WITH_USES = '*, uses:package_session_uses(*)';
+
+// Assinaturas com as linhas de agendamento que cobriram (para contar os usos do ciclo)
+const CLIENT_MEMBERSHIP_WITH_USES = '*, uses:appointment_services(appointment_id, appointment:appointments(appointment_date, status))';
+
+// Vales com o extrato (o saldo é calculado a partir dele)
+const GIFT_CARD_WITH_TRANSACTIONS = '*, transactions:gift_card_transactions(*)';
+
+// Valores de cada atendimento para o relatório de descontos, com o nome da promoção
+const APPOINTMENT_DISCOUNTS = 'price, gross_price, discount_amount, coupon_code, promotion:promotions(name)';
+
+// Data de hoje no fuso do navegador, para os lançamentos feitos no balcão
+const localToday = () => splitDateTime(zonedNow(Intl.DateTimeFormat().resolvedOptions().timeZone)).date;
+
+// Profissionais ocupados por um agendamento (o do agendamento e os das linhas)
+const involvedProfessionals = (appointment: ItemizedAppointment) =>
+  [...new Set(appointmentSegments(appointment).map(segment => segment.professional_id))];
+
+const assertAvailable = async (appointment: ItemizedAppointment, userId: string) => {
+  const context = await fetchAvailabilityContext(supabase, userId, involvedProfessionals(appointment), splitDateTime(appointment.appointment_date).date);
+  const availability = checkAppointmentAvailability(context, appointment);
+  if (!availability.available) throw new AppointmentConflictError(availability);
+};
+
+// Código do PostgreSQL para violação da constraint `appointments_no_overlap` (migração 15)
+const EXCLUSION_VIOLATION = '23P01';
+// Código do PostgreSQL para violação de uma restrição única
+const UNIQUE_VIOLATION = '23505';
+// Recusa do índice `uq_promotions_code` (migração 32)
+const DUPLICATE_COUPON_MESSAGE = 'Já existe um cupom com este código.';
+
+// Converte a recusa do banco num erro de conflito com o agendamento em causa.
+// Acontece quando outro utilizador ocupa o horário entre a verificação e a gravação.
+const toConflictError = async (error: { code?: string }, appointment: ItemizedAppointment, userId: string) => {
+  if (error.code !== EXCLUSION_VIOLATION) return error;
+  try {
+    await assertAvailable(appointment, userId);
+  } catch (conflictError) {
+    if (conflictError instanceof AppointmentConflictError) return conflictError;
+  }
+  return new AppointmentConflictError({ available: false, reason: 'appointment_conflict' });
+};
+
+// Separa as ocorrências livres das que colidem com a agenda (dias fechados, ausências, conflitos).
+const partitionOccurrences = async <T extends ItemizedAppointment>(occurrences: T[], userId: string) => {
+  const dates = occurrences.map(o => splitDateTime(o.appointment_date).date).sort();
+  const professionalIds = [...new Set(occurrences.flatMap(involvedProfessionals))];
+  const context = await fetchAvailabilityContext(supabase, userId, professionalIds, dates[0], dates[dates.length - 1]);
+  const accepted: T[] = [];
+  const skipped: SkippedOccurrence[] = [];
+  occurrences.forEach(occurrence => {
+    const check = checkAppointmentAvailability(context, occurrence);
+    if (check.available) accepted.push(occurrence);
+    else skipped.push({ appointment_date: occurrence.appointment_date, end_date: occurrence.end_date, check });
+  });
+  return { accepted, skipped };
+};
+
+// As linhas de serviço vivem na tabela `appointment_services`, não em `appointments`.
+const withoutItems = <T extends { items?: unknown }>(appointment: T): Omit<T, 'items'> => {
+  const row = { ...appointment };
+  delete row.items;
+  return row;
+};
+
+// Grava as linhas de serviço de cada agendamento, substituindo as anteriores.
+const replaceItems = async (appointments: AppointmentType[], items: AppointmentItemType[]): Promise<AppointmentType[]> => {
+  const { error: deleteError } = await supabase.from('appointment_services').delete().in('appointment_id', appointments.map(a => a.id));
+  if (deleteError) throw deleteError;
+  const rows = appointments.flatMap(appointment => sortItems(items).map((item, position) => ({
+    user_id: appointment.user_id,
+    appointment_id: appointment.id,
+    service_id: item.service_id,
+    service: item.service,
+    price: item.price,
+    duration: item.duration,
+    professional_id: item.professional_id || null,
+    position,
+    client_membership_id: item.client_membership_id ?? null,
+    discount: item.discount ?? 0,
+  })));
+  if (rows.length === 0) return appointments.map(appointment => ({ ...appointment, items: [] }));
+  const { data, error } = await supabase.from('appointment_services').insert(rows).select();
+  if (error) throw error;
+  const saved: AppointmentItemType[] = data || [];
+  return appointments.map(appointment => ({ ...appointment, items: sortItems(saved.filter(item => item.appointment_id === appointment.id)) }));
+};
+
+// Regista mudanças de status no histórico (a data é preenchida pelo banco).
+const recordStatusChanges = async (changes: Omit<AppointmentStatusChangeType, 'id' | 'changed_at'>[]) => {
+  if (changes.length === 0) return;
+  const { error } = await supabase.from('appointment_status_history').insert(changes);
+  if (error) throw error;
+};
+
+const creationChanges = (appointments: AppointmentType[]) => appointments.map(a => ({
+  user_id: a.user_id,
+  appointment_id: a.id!,
+  from_status: null,
+  to_status: a.status ?? 'scheduled',
+}));
+
+// Passa a 'matched' os pedidos da lista de espera que cabem nas vagas libertadas (ver
+// `matchFreedSlots`). A operação que libertou as vagas já foi gravada, por isso um erro
+// aqui fica só no console.
+const flagWaitlistMatches = async (freed: ItemizedAppointment[], userId: string): Promise<WaitlistEntryType[]> => {
+  try {
+    return await matchFreedSlots(supabase, freed, userId, zonedNow(Intl.DateTimeFormat().resolvedOptions().timeZone));
+  } catch (error) {
+    console.error("Erro ao verificar a lista de espera:", error);
+    return [];
+  }
+};
+
+// Substitui na lista os pedidos atualizados
+const mergeWaitlist = (waitlist: WaitlistEntryType[], updated: WaitlistEntryType[]) =>
+  waitlist.map(entry => updated.find(u => u.id === entry.id) ?? entry);
+
+// As receitas dos atendimentos têm o nome do cliente na descrição (ver `changeAppointmentStatus`)
+const renameFinancialEntries = async (appointmentIds: number[], fromName: string, toName: string): Promise<number[]> => {
+  if (appointmentIds.length === 0 || fromName === toName) return [];
+  const { data, error } = await supabase.from('financial_entries').select('id, description')
+    .in('appointment_id', appointmentIds)
+    .eq('is_virtual', true);
+  if (error) throw error;
+  const renamed = (data || []).filter((entry: { description: string }) => entry.description.endsWith(`Cliente: ${fromName}`));
+  const updates = await Promise.all(renamed.map((entry: { id: number; description: string }) => supabase.from('financial_entries')
+    .update({ description: `${entry.description.slice(0, -fromName.length)}${toName}` })
+    .eq('id', entry.id)));
+  const failed = updates.find(update => update.error);
+  if (failed) throw failed.error;
+  return renamed.map((entry: { id: number }) => entry.id);
+};
+
+// Regista um pedido LGPD atendido (sem dados pessoais: só o id do cliente)
+const recordDataRequest = async (client: Pick<ClientType, 'id' | 'user_id'>, requestType: DataSubjectRequestKind) => {
+  const { error } = await supabase.from('data_subject_requests').insert([{ user_id: client.user_id, client_id: client.id, request_type: requestType }]);
+  if (error) throw error;
+};
+
+// Regras de fidelidade do salão; sem configuração gravada, o programa está desligado
+const fetchLoyaltyRules = async (userId: string): Promise<LoyaltyRules> => {
+  const { data, error } = await supabase.from('loyalty_settings').select('enabled, points_per_real').eq('user_id', userId).maybeSingle();
+  if (error) throw error;
+  return data ? { enabled: data.enabled, points_per_real: Number(data.points_per_real) } : DEFAULT_LOYALTY_RULES;
+};
+
+// O saldo é a soma do extrato de pontos do cliente
+const fetchClientBalance = async (clientId: number) => {
+  const { data, error } = await supabase.from('loyalty_transactions').select('points').eq('client_id', clientId);
+  if (error) throw error;
+  return pointsBalance(data || []);
+};
+
+const insertLoyaltyTransaction = async (transaction: Omit<LoyaltyTransactionType, 'id' | 'created_at'>): Promise<LoyaltyTransactionType> => {
+  const { data, error } = await supabase.from('loyalty_transactions').insert([transaction]).select().single();
+  if (error) throw error;
+  return data;
+};
+
+// Credita os pontos de um atendimento concluído pelas linhas cobradas, com os pontos
+// fixos dos serviços tal como estão no banco
+const awardAppointmentPoints = async (appointment: AppointmentType, lines: Pick<AppointmentItemType, 'service_id' | 'price'>[]) => {
+  const rules = await fetchLoyaltyRules(appointment.user_id);
+  if (!rules.enabled) return;
+  const serviceIds = [...new Set(lines.map(line => line.service_id))];
+  const { data: services, error } = await supabase.from('services').select('id, loyalty_points').in('id', serviceIds);
+  if (error) throw error;
+  const points = appointmentPoints({ ...appointment, items: lines }, services || [], rules);
+  if (points <= 0) return;
+  await insertLoyaltyTransaction({
+    user_id: appointment.user_id,
+    client_id: appointment.client_id,
+    points,
+    kind: 'earn',
+    description: `Atendimento: ${appointment.service}`,
+    appointment_id: appointment.id,
+  });
+};
+
+// Consome as sessões dos pacotes do cliente que cobrem as linhas do atendimento e
+// devolve os índices das linhas pagas por um pacote
+const consumePackageSessions = async (appointment: AppointmentType, lines: Pick<AppointmentItemType, 'service_id'>[]): Promise<Set<number>> => {
+  const { data: packages, error } = await supabase.from('client_packages').select(CLIENT_PACKAGE_WITH_USES).eq('client_id', appointment.client_id);
+  if (error) throw error;
+  const allocations = allocateSessions(lines, packages || [], splitDateTime(appointment.appointment_date).date);
+  if (allocations.length === 0) return new Set();
+  const { error: usesError } = await supabase.from('package_session_uses').insert(allocations.map(allocation => ({
+    user_id: appointment.user_id,
+    client_package_id: allocation.client_package_id,
+    appointment_id: appointment.id,
+    service_id: allocation.service_id,
+  })));
+  if (usesError) throw usesError;
+  return new Set(allocations.map(allocation => allocation.line));
+};
+
+// Movimentos de vales ligados a um agendamento, com o código do vale
+const fetchAppointmentGiftCardTransactions = async (appointmentIds: number[]): Promise<(GiftCardTransactionType & { gift_card?: { code: string } })[]> => {
+  if (appointmentIds.length === 0) return [];
+  const { data, error } = await supabase.from('gift_card_transactions').select('*, gift_card:gift_cards(code)').in('appointment_id', appointmentIds).order('created_at', { ascending: true });
+  if (error) throw error;
+  return data || [];
+};
+
+// Devolve aos vales o valor usado em agendamentos que não vão ser pagos (cancelados ou excluídos)
+const refundAppointmentGiftCards = async (appointmentIds: number[], description: string) => {
+  const transactions = await fetchAppointmentGiftCardTransactions(appointmentIds);
+  const credits = new Map<string, GiftCardTransactionType>();
+  transactions.forEach(transaction => {
+    const key = `${transaction.gift_card_id}:${transaction.appointment_id}`;
+    const current = credits.get(key);
+    credits.set(key, { ...transaction, amount: (current?.amount ?? 0) + transaction.amount });
+  });
+  const refunds = [...credits.values()].filter(credit => credit.amount < 0).map(credit => ({
+    user_id: credit.user_id,
+    gift_card_id: credit.gift_card_id,
+    amount: -credit.amount,
+    kind: 'refund',
+    appointment_id: credit.appointment_id,
+    description,
+  }));
+  if (refunds.length === 0) return;
+  const { error } = await supabase.from('gift_card_transactions').insert(refunds);
+  if (error) throw error;
+};
+
+// Sem status, um novo agendamento começa como 'scheduled' (valor por omissão no banco)
+type NewAppointment = Omit<AppointmentType, 'id' | 'user_id' | 'status'> & { status?: AppointmentStatus };
+
+// Alteração feita pelo cliente, com os dados do agendamento para a listagem
+export type ClientChange = AppointmentChangeType & {
+  appointment?: Pick<AppointmentType, 'client_name' | 'service' | 'appointment_date' | 'status'> | null;
+};
+
+export interface SeriesResult {
+  saved: AppointmentType[];
+  skipped: SkippedOccurrence[];
+}
+
+export interface ImportResult {
+  inserted: number;
+  failed: { line: number; message: string }[];
+}
+
+// Registos gravados na restauração de uma cópia de segurança
+export interface RestoreResult {
+  counts: Record<'professionals' | 'services' | 'products' | 'clients' | 'appointments' | 'financial_entries', number>;
+  warnings: string[];
+}
+
+export interface ProductSaleResult {
+  sale: ProductSaleType;
+  points: number; // Pontos de fidelidade creditados ao cliente
+}
+
+// Linhas gravadas de cada vez nas importações e restaurações
+const INSERT_BATCH_SIZE = 100;
+
+// Linhas gravadas numa restauração, por tabela, para desfazer tudo se algum passo falhar
+type InsertedRows = { table: string; ids: number[] }[];
+
+// Grava as linhas em lotes, anota os ids em `inserted` e devolve as linhas criadas com as colunas `columns`
+const insertInBatches = async (table: string, rows: object[], inserted: InsertedRows, columns: readonly string[] = []) => {
+  const created: { id: number }[] = [];
+  const log = { table, ids: [] as number[] };
+  inserted.push(log);
+  for (let start = 0; start < rows.length; start += INSERT_BATCH_SIZE) {
+    const { data, error } = await supabase.from(table).insert(rows.slice(start, start + INSERT_BATCH_SIZE)).select(['id', ...columns].join(', '));
+    if (error) throw error;
+    const batch = (data || []) as unknown as { id: number }[];
+    log.ids.push(...batch.map(row => row.id));
+    created.push(...batch);
+  }
+  return created;
+};
+
+// Apaga as linhas gravadas, da última tabela para a primeira (as ligações apontam para trás),
+// e devolve as tabelas onde ficaram linhas por apagar
+const deleteInserted = async (inserted: InsertedRows) => {
+  const failed: string[] = [];
+  for (const { table, ids } of [...inserted].reverse()) {
+    for (let start = 0; start < ids.length; start += INSERT_BATCH_SIZE) {
+      const { error } = await supabase.from(table).delete().in('id', ids.slice(start, start + INSERT_BATCH_SIZE));
+      if (error) {
+        console.error(`Erro ao desfazer a restauração em ${table}:`, error);
+        if (!failed.includes(table)) failed.push(table);
+      }
+    }
+  }
+  return failed;
+};
+
+// Configurações que a restauração substitui, com as colunas que identificam cada linha do salão
+const RESTORED_SETTINGS = [
+  { table: 'business_settings', keys: 'user_id, day_of_week' },
+  { table: 'booking_settings', keys: 'user_id' },
+  { table: 'notification_settings', keys: 'user_id' },
+  { table: 'message_templates', keys: 'user_id, kind, channel' },
+] as const;
+
+type SettingsSnapshot = { table: string; keys: string; rows: { id: number }[] }[];
+
+// Configurações do salão antes da restauração
+const snapshotSettings = async (userId: string): Promise<SettingsSnapshot> => Promise.all(RESTORED_SETTINGS.map(async ({ table, keys }) => {
+  const { data, error } = await supabase.from(table).select('*').eq('user_id', userId);
+  if (error) throw error;
+  return { table, keys, rows: data || [] };
+}));
+
+// Repõe as configurações guardadas: regrava as linhas anteriores e apaga as criadas pela
+// restauração. Devolve as tabelas que não foi possível repor
+const restoreSettings = async (snapshot: SettingsSnapshot, userId: string) => {
+  const failed: string[] = [];
+  for (const { table, keys, rows } of snapshot) {
+    const upsert = rows.length > 0 ? await supabase.from(table).upsert(rows, { onConflict: keys }) : { error: null };
+    const cleanup = upsert.error ? { error: null } : rows.length > 0
+      ? await supabase.from(table).delete().eq('user_id', userId).not('id', 'in', `(${rows.map(row => row.id).join(',')})`)
+      : await supabase.from(table).delete().eq('user_id', userId);
+    const error = upsert.error || cleanup.error;
+    if (error) {
+      console.error(`Erro ao repor as configurações em ${table}:`, error);
+      failed.push(table);
+    }
+  }
+  return failed;
+};
 
 // Interface que define a forma do nosso estado global
 interface AppState {
@@ -21,6 +402,17 @@ interface AppState {
   addClient: (client: Omit<ClientType, 'id' | 'user_id'>, userId: string) => Promise<ClientType>;
   updateClient: (client: ClientType) => Promise<void>;
   deleteClient: (clientId: number) => Promise<void>;
+  // Fusão de duplicados, com o registo de auditoria
+  mergeClients: (survivor: ClientType, duplicates: ClientType[]) => Promise<ClientType>;
+  fetchClientMerges: (userId: string) => Promise<ClientMergeType[]>;
+  // Notas da ficha do cliente (carregadas por cliente, fora do estado global)
+  fetchClientNotes: (clientId: number) => Promise<ClientNoteType[]>;
+  addClientNote: (clientId: number, note: string, userId: string) => Promise<ClientNoteType>;
+  deleteClientNote: (noteId: number) => Promise<void>;
+  // Pedidos dos titulares (LGPD), registados em `data_subject_requests`
+  exportClientData: (client: ClientType) => Promise<ClientDataExport>;
+  anonymizeClient: (client: ClientType) => Promise<ClientType>;
+  fetchDataSubjectRequests: (clientId: number) => Promise<DataSubjectRequestType[]>;
 
   // Produtos
   products: ProductType[];
@@ -28,6 +420,8 @@ interface AppState {
   addProduct: (product: Omit<ProductType, 'id' | 'user_id'>, userId: string) => Promise<void>;
   updateProduct: (product: ProductType) => Promise<void>;
   deleteProduct: (productId: number) => Promise<void>;
+  // Venda no balcão: baixa o estoque, lança a receita e credita os pontos do cliente
+  sellProduct: (product: ProductType, sale: ProductSaleFormData, userId: string) => Promise<ProductSaleResult>;
 
   // Serviços
   services: ServiceType[];
@@ -36,19 +430,44 @@ interface AppState {
   updateService: (service: ServiceType) => Promise<void>;
   deleteService: (serviceId: number) => Promise<void>;
 
+  // Importação de planilhas (clientes, serviços ou produtos já validados)
+  importRecords: (target: ImportTarget, rows: ImportRow[], userId: string) => Promise<ImportResult>;
+
+  // Cópia de segurança de toda a conta
+  exportAccountData: (userId: string) => Promise<AccountBackup>;
+  restoreAccountData: (backup: AccountBackup, userId: string) => Promise<RestoreResult>;
+
   // Profissionais
   professionals: ProfessionalType[];
   fetchProfessionals: (userId: string) => Promise<void>;
-  addProfessional: (professional: Omit<ProfessionalType, 'id' | 'user_id'>, userId: string) => Promise<void>;
+  // MODIFICADO: A função agora retorna o profissional criado (necessário para gravar o horário semanal)
+  addProfessional: (professional: Omit<ProfessionalType, 'id' | 'user_id'>, userId: string) => Promise<ProfessionalType>;
   updateProfessional: (professional: ProfessionalType) => Promise<void>;
   deleteProfessional: (professionalId: number) => Promise<void>;
 
+  // Horários Semanais dos Profissionais
+  professionalSchedules: ProfessionalScheduleType[];
+  fetchProfessionalSchedules: (userId: string) => Promise<void>;
+  saveProfessionalSchedule: (professionalId: number, schedule: Omit<ProfessionalScheduleType, 'id' | 'user_id' | 'professional_id'>[], userId: string) => Promise<void>;
+
+  // Ausências dos Profissionais
+  professionalExceptions: ProfessionalExceptionType[];
+  fetchProfessionalExceptions: (userId: string) => Promise<void>;
+  addProfessionalException: (exception: Omit<ProfessionalExceptionType, 'id' | 'user_id'>, userId: string) => Promise<void>;
+  deleteProfessionalException: (exceptionId: number) => Promise<void>;
+
   // Agendamentos
   appointments: AppointmentType[];
   fetchAppointments: (userId: string) => Promise<void>;
-  addAppointment: (appointment: Omit<AppointmentType, 'id' | 'user_id'>, userId: string) => Promise<void>;
+  addAppointment: (appointment: NewAppointment, userId: string) => Promise<void>;
   updateAppointment: (appointment: AppointmentType) => Promise<void>;
   deleteAppointment: (appointmentId: number) => Promise<void>;
+  addAppointmentSeries: (appointment: NewAppointment, rule: RecurrenceRuleType, userId: string) => Promise<SeriesResult>;
+  updateAppointmentSeries: (appointment: AppointmentType, scope: SeriesScope) => Promise<SeriesResult>;
+  deleteAppointmentSeries: (appointment: AppointmentType, scope: SeriesScope) => Promise<void>;
+  changeAppointmentStatus: (appointment: AppointmentType, status: AppointmentStatus, reason?: string | null) => Promise<void>;
+  fetchAppointmentStatusHistory: (appointmentId: number) => Promise<AppointmentStatusChangeType[]>;
+  fetchAppointmentNotifications: (appointmentId: number) => Promise<NotificationType[]>;
 
   // Entradas Financeiras
   financialEntries: FinancialEntryType[];
@@ -57,19 +476,111 @@ interface AppState {
   updateFinancialEntry: (entry: FinancialEntryType) => Promise<void>;
   deleteFinancialEntry: (entryId: number) => Promise<void>;
 
+  // Alterações feitas pelos clientes através do link de gestão (ainda não vistas)
+  clientChanges: ClientChange[];
+  fetchClientChanges: (userId: string) => Promise<void>;
+  markClientChangeSeen: (changeId: number) => Promise<void>;
+
+  // Lista de espera
+  waitlist: WaitlistEntryType[];
+  fetchWaitlist: (userId: string) => Promise<void>;
+  addWaitlistEntry: (entry: Omit<WaitlistEntryType, 'id' | 'user_id' | 'status'>, userId: string) => Promise<void>;
+  setWaitlistStatus: (entry: WaitlistEntryType, status: WaitlistStatus) => Promise<void>;
+  deleteWaitlistEntry: (entryId: number) => Promise<void>;
+
+  // Modelos de mensagem
+  messageTemplates: MessageTemplateType[];
+  fetchMessageTemplates: (userId: string) => Promise<void>;
+  saveMessageTemplate: (template: Omit<MessageTemplateType, 'id' | 'user_id'>, userId: string) => Promise<void>;
+  deleteMessageTemplate: (templateId: number) => Promise<void>;
+
+  // Pacotes de sessões pré-pagas
+  servicePackages: ServicePackageType[];
+  fetchServicePackages: (userId: string) => Promise<void>;
+  addServicePackage: (servicePackage: Omit<ServicePackageType, 'id' | 'user_id'>, userId: string) => Promise<void>;
+  updateServicePackage: (servicePackage: ServicePackageType) => Promise<void>;
+  deleteServicePackage: (packageId: number) => Promise<void>;
+  // A venda lança a receita do pacote de uma só vez
+  sellServicePackage: (servicePackage: ServicePackageType, clientId: number, userId: string) => Promise<ClientPackageType>;
+  fetchClientPackages: (clientId: number) => Promise<ClientPackageType[]>;
+
+  // Planos de assinatura
+  membershipPlans: MembershipPlanType[];
+  fetchMembershipPlans: (userId: string) => Promise<void>;
+  addMembershipPlan: (plan: Omit<MembershipPlanType, 'id' | 'user_id'>, userId: string) => Promise<void>;
+  updateMembershipPlan: (plan: MembershipPlanType) => Promise<void>;
+  deleteMembershipPlan: (planId: number) => Promise<void>;
+  // Assinaturas de todos os clientes do salão
+  memberships: ClientMembershipType[];
+  fetchMemberships: (userId: string) => Promise<void>;
+  // A adesão lança logo a mensalidade do primeiro ciclo
+  subscribeClient: (plan: MembershipPlanType, clientId: number, userId: string) => Promise<ClientMembershipType>;
+  // Pausar suspende a cobrança e os serviços incluídos; retomar cobra o ciclo atual, se ainda não foi cobrado
+  setMembershipStatus: (membership: ClientMembershipType, status: MembershipStatus) => Promise<void>;
+  fetchClientMemberships: (clientId: number) => Promise<ClientMembershipType[]>;
+
+  // Vales-presente
+  giftCards: GiftCardType[];
+  fetchGiftCards: (userId: string) => Promise<void>;
+  // A venda gera um código único e lança a receita do vale (`amount` já em centavos)
+  sellGiftCard: (giftCard: GiftCardFormData, userId: string) => Promise<GiftCardType>;
+  findGiftCard: (code: string, userId: string) => Promise<GiftCardType | null>;
+  // Os usos são feitos antes de concluir o atendimento: a receita é lançada sem o valor pago com vale
+  redeemGiftCard: (giftCard: GiftCardType, amount: number, appointment: AppointmentType) => Promise<GiftCardTransactionType>;
+  refundGiftCardRedemption: (transaction: GiftCardTransactionType, appointment: AppointmentType) => Promise<GiftCardTransactionType>;
+  fetchAppointmentGiftCards: (appointmentId: number) => Promise<(GiftCardTransactionType & { gift_card?: { code: string } })[]>;
+
+  // Promoções e cupons (o desconto é calculado no formulário do agendamento)
+  promotions: PromotionType[];
+  fetchPromotions: (userId: string) => Promise<void>;
+  addPromotion: (promotion: Omit<PromotionType, 'id' | 'user_id'>, userId: string) => Promise<void>;
+  updatePromotion: (promotion: PromotionType) => Promise<void>;
+  deletePromotion: (promotionId: number) => Promise<void>;
+  // Atendimentos concluídos no período (datas "YYYY-MM-DD"), com o bruto, o desconto e a promoção
+  fetchDiscountReport: (userId: string, startDate: string, endDate: string) => Promise<DiscountReportRow[]>;
+
+  // Programa de fidelidade
+  loyaltyRewards: LoyaltyRewardType[];
+  fetchLoyaltyRewards: (userId: string) => Promise<void>;
+  saveLoyaltyReward: (reward: Omit<LoyaltyRewardType, 'user_id'>, userId: string) => Promise<void>;
+  deleteLoyaltyReward: (rewardId: number) => Promise<void>;
+  fetchLoyaltySettings: (userId: string) => Promise<LoyaltyRules>;
+  saveLoyaltySettings: (settings: LoyaltySettingsFormData, userId: string) => Promise<void>;
+  // Extrato e saldo de pontos (carregados por cliente, fora do estado global)
+  fetchLoyaltyTransactions: (clientId: number) => Promise<LoyaltyTransactionType[]>;
+  fetchLoyaltyBalance: (clientId: number) => Promise<number>;
+  redeemLoyaltyReward: (client: ClientType, reward: LoyaltyRewardType) => Promise<LoyaltyTransactionType>;
+  adjustLoyaltyPoints: (client: ClientType, points: number, description: string) => Promise<LoyaltyTransactionType>;
+
   // Horários de Funcionamento
   businessHours: BusinessHoursType[];
   fetchBusinessHours: (userId: string) => Promise<void>;
 
+  // Exceções do Estabelecimento (feriados, horários especiais)
+  businessExceptions: BusinessExceptionType[];
+  fetchBusinessExceptions: (userId: string) => Promise<void>;
+
   // Estados de loading
   loading: {
     clients: boolean;
     products: boolean;
     services: boolean;
     professionals: boolean;
+    professionalSchedules: boolean;
+    professionalExceptions: boolean;
     appointments: boolean;
     financialEntries: boolean;
     businessHours: boolean;
+    businessExceptions: boolean;
+    clientChanges: boolean;
+    waitlist: boolean;
+    messageTemplates: boolean;
+    loyaltyRewards: boolean;
+    servicePackages: boolean;
+    membershipPlans: boolean;
+    memberships: boolean;
+    giftCards: boolean;
+    promotions: boolean;
   };
   setLoading: (key: keyof AppState['loading'], value: boolean) => void;
 }
@@ -104,10 +615,146 @@ export const useAppStore = create<AppState>((set, get) => ({
     if (error) throw error;
     if (data) set((state) => ({ clients: state.clients.map((c) => (c.id === client.id ? data[0] : c)) }));
   },
+  // Os agendamentos são excluídos com o cliente; as receitas ficam, mas sem o nome
+  // dele na descrição. A exclusão fica no registo LGPD.
+  // A anonimização dos lançamentos, o registo do pedido LGPD e a exclusão correm numa só
+  // transação (função `delete_client`, migração 34)
   deleteClient: async (clientId) => {
-    const { error } = await supabase.from('clients').delete().eq('id', clientId);
+    const { error } = await supabase.rpc('delete_client', { p_client_id: clientId });
     if (error) throw error;
-    set((state) => ({ clients: state.clients.filter((c) => c.id !== clientId) }));
+    set((state) => ({
+      clients: state.clients.filter((c) => c.id !== clientId),
+      appointments: state.appointments.filter((a) => a.client_id !== clientId),
+    }));
+  },
+  // Transfere tudo o que pertence aos duplicados para o cliente mantido, regista a
+  // auditoria e exclui os duplicados numa só transação (função `merge_clients`, migração 35)
+  mergeClients: async (survivor, duplicates) => {
+    const { data, error } = await supabase.rpc('merge_clients', {
+      p_survivor_id: survivor.id,
+      p_duplicate_ids: duplicates.map(d => d.id),
+      p_merged: mergeClientRecords(survivor, duplicates),
+    });
+    if (error) throw error;
+    const saved: ClientType = data?.[0] ?? survivor;
+    const duplicateIds = duplicates.map(d => d.id);
+    set((state) => ({
+      clients: state.clients.filter((c) => !duplicateIds.includes(c.id)).map((c) => (c.id === survivor.id ? saved : c)),
+      appointments: state.appointments.map((a) => (duplicateIds.includes(a.client_id) ? { ...a, client_id: survivor.id!, client_name: survivor.name } : a)),
+      waitlist: state.waitlist.map((w) => (duplicateIds.includes(w.client_id) ? { ...w, client_id: survivor.id! } : w)),
+    }));
+    return saved;
+  },
+  fetchClientMerges: async (userId) => {
+    const { data, error } = await supabase.from('client_merges').select('*').eq('user_id', userId).order('merged_at', { ascending: false });
+    if (error) throw error;
+    return data || [];
+  },
+  fetchClientNotes: async (clientId) => {
+    const { data, error } = await supabase.from('client_notes').select('*').eq('client_id', clientId).order('created_at', { ascending: false });
+    if (error) throw error;
+    return data || [];
+  },
+  addClientNote: async (clientId, note, userId) => {
+    const { data, error } = await supabase.from('client_notes').insert([{ client_id: clientId, note, user_id: userId }]).select().single();
+    if (error) throw error;
+    return data;
+  },
+  deleteClientNote: async (noteId) => {
+    const { error } = await supabase.from('client_notes').delete().eq('id', noteId);
+    if (error) throw error;
+  },
+  exportClientData: async (client) => {
+    const results = await Promise.all([
+      supabase.from('appointments').select(APPOINTMENT_WITH_ITEMS).eq('client_id', client.id).order('appointment_date', { ascending: true }),
+      supabase.from('client_notes').select('*').eq('client_id', client.id).order('created_at', { ascending: true }),
+      supabase.from('waitlist_entries').select('*').eq('client_id', client.id).order('created_at', { ascending: true }),
+      supabase.from('client_merges').select('*').eq('surviving_client_id', client.id),
+      supabase.from('data_subject_requests').select('*').eq('client_id', client.id).eq('user_id', client.user_id).order('fulfilled_at', { ascending: true }),
+      supabase.from('loyalty_transactions').select('*').eq('client_id', client.id).order('created_at', { ascending: true }),
+      supabase.from('product_sales').select('*').eq('client_id', client.id).order('sold_at', { ascending: true }),
+      supabase.from('client_packages').select(CLIENT_PACKAGE_WITH_USES).eq('client_id', client.id).order('purchased_at', { ascending: true }),
+      supabase.from('client_memberships').select('*').eq('client_id', client.id).order('started_at', { ascending: true }),
+      supabase.from('gift_cards').select(GIFT_CARD_WITH_TRANSACTIONS).eq('client_id', client.id).order('sold_at', { ascending: true }),
+    ]);
+    const failed = results.find(result => result.error);
+    if (failed) throw failed.error;
+    const [appointments, notes, waitlist, merges, requests, loyaltyTransactions, productSales, packages, memberships, giftCards] = results;
+
+    // Mensagens e receitas estão ligadas aos agendamentos, não ao cliente
+    const appointmentIds = (appointments.data || []).map((a: AppointmentType) => a.id);
+    let notifications: NotificationType[] = [];
+    let financialEntries: ClientDataSources['financialEntries'] = [];
+    if (appointmentIds.length > 0) {
+      const [messages, entries] = await Promise.all([
+        supabase.from('notifications').select('*').in('appointment_id', appointmentIds).order('created_at', { ascending: true }),
+        supabase.from('financial_entries').select('description, amount, type, entry_date, appointment_id').in('appointment_id', appointmentIds),
+      ]);
+      if (messages.error) throw messages.error;
+      if (entries.error) throw entries.error;
+      notifications = messages.data || [];
+      financialEntries = entries.data || [];
+    }
+
+    const exported = buildClientDataExport(client, {
+      appointments: appointments.data || [],
+      notes: notes.data || [],
+      waitlist: waitlist.data || [],
+      notifications,
+      financialEntries,
+      merges: merges.data || [],
+      requests: requests.data || [],
+      loyaltyTransactions: loyaltyTransactions.data || [],
+      productSales: productSales.data || [],
+      packages: packages.data || [],
+      memberships: memberships.data || [],
+      giftCards: giftCards.data || [],
+    }, new Date());
+    await recordDataRequest(client, 'export');
+    return exported;
+  },
+  // Apaga os dados pessoais do cliente e tudo o que os repete (nome nos agendamentos
+  // e nas receitas, mensagens enviadas, notas, cópias de fusões). Valores e datas ficam.
+  anonymizeClient: async (client) => {
+    const anonymized = anonymizeClientRecord(client, new Date());
+    const { data: appointments, error: appointmentsError } = await supabase.from('appointments')
+      .update({ client_name: anonymized.name })
+      .eq('client_id', client.id)
+      .select('id');
+    if (appointmentsError) throw appointmentsError;
+    const appointmentIds = (appointments || []).map((a: { id: number }) => a.id);
+    await renameFinancialEntries(appointmentIds, client.name, anonymized.name);
+    if (appointmentIds.length > 0) {
+      const { error } = await supabase.from('notifications').update({ recipient: null, subject: null, body: REDACTED_MESSAGE }).in('appointment_id', appointmentIds);
+      if (error) throw error;
+    }
+
+    const { error: notesError } = await supabase.from('client_notes').delete().eq('client_id', client.id);
+    if (notesError) throw notesError;
+    const { error: waitlistError } = await supabase.from('waitlist_entries').update({ notes: null }).eq('client_id', client.id);
+    if (waitlistError) throw waitlistError;
+    const { data: merges, error: mergesError } = await supabase.from('client_merges').select('id, merged_client').eq('surviving_client_id', client.id);
+    if (mergesError) throw mergesError;
+    const mergeUpdates = await Promise.all((merges || []).map((merge: Pick<ClientMergeType, 'id' | 'merged_client'>) => supabase.from('client_merges')
+      .update({ merged_client: anonymizeClientRecord(merge.merged_client, new Date()) })
+      .eq('id', merge.id)));
+    const failedMerge = mergeUpdates.find(update => update.error);
+    if (failedMerge) throw failedMerge.error;
+
+    const { data, error } = await supabase.from('clients').update(anonymized).eq('id', client.id).select();
+    if (error) throw error;
+    await recordDataRequest(client, 'anonymization');
+    const saved: ClientType = data?.[0] ?? anonymized;
+    set((state) => ({
+      clients: state.clients.map((c) => (c.id === client.id ? saved : c)),
+      appointments: state.appointments.map((a) => (a.client_id === client.id ? { ...a, client_name: anonymized.name } : a)),
+    }));
+    return saved;
+  },
+  fetchDataSubjectRequests: async (clientId) => {
+    const { data, error } = await supabase.from('data_subject_requests').select('*').eq('client_id', clientId).order('fulfilled_at', { ascending: false });
+    if (error) throw error;
+    return data || [];
   },
 
   // --- PRODUTOS ---
@@ -133,6 +780,49 @@ export const useAppStore = create<AppState>((set, get) => ({
     if (error) throw error;
     set((state) => ({ products: state.products.filter((p) => p.id !== productId) }));
   },
+  sellProduct: async (product, sale, userId) => {
+    const stock = product.quantity ?? 0;
+    if (sale.quantity > stock) throw new Error(`Estoque insuficiente: restam ${stock} unidade(s).`);
+    const total = product.price * sale.quantity;
+    const { data: saved, error } = await supabase.from('product_sales').insert([{
+      user_id: userId,
+      product_id: product.id,
+      client_id: sale.client_id || null,
+      product_name: product.name,
+      quantity: sale.quantity,
+      unit_price: product.price,
+      total,
+    }]).select().single();
+    if (error) throw error;
+
+    const { data: updated, error: stockError } = await supabase.from('products').update({ quantity: stock - sale.quantity }).eq('id', product.id).select();
+    if (stockError) throw stockError;
+    if (updated) set((state) => ({ products: state.products.map((p) => (p.id === product.id ? updated[0] : p)) }));
+
+    const { error: entryError } = await supabase.from('financial_entries').insert([{
+      user_id: userId,
+      description: `Produto: ${product.name} (${sale.quantity}x)`,
+      amount: total,
+      type: 'receita',
+      entry_type: 'pontual',
+      entry_date: localToday(),
+    }]);
+    if (entryError) throw entryError;
+
+    let points = 0;
+    if (saved.client_id) {
+      points = pointsForAmount(total, await fetchLoyaltyRules(userId));
+      if (points > 0) await insertLoyaltyTransaction({
+        user_id: userId,
+        client_id: saved.client_id,
+        points,
+        kind: 'earn',
+        description: `Compra: ${product.name} (${sale.quantity}x)`,
+        product_sale_id: saved.id,
+      });
+    }
+    return { sale: saved, points };
+  },
 
   // --- SERVIÇOS ---
   services: [],
@@ -158,6 +848,179 @@ export const useAppStore = create<AppState>((set, get) => ({
     set((state) => ({ services: state.services.filter((s) => s.id !== serviceId) }));
   },
 
+  // --- IMPORTAÇÃO ---
+  // Grava em lotes; se um lote falhar (ex.: CPF já registrado), as suas linhas são
+  // gravadas uma a uma para indicar exatamente quais falharam.
+  importRecords: async (target, rows, userId) => {
+    const result: ImportResult = { inserted: 0, failed: [] };
+    const valid = rows.filter(row => row.data);
+    for (let start = 0; start < valid.length; start += INSERT_BATCH_SIZE) {
+      const batch = valid.slice(start, start + INSERT_BATCH_SIZE);
+      const { error } = await supabase.from(target).insert(batch.map(row => ({ ...row.data, user_id: userId })));
+      if (!error) {
+        result.inserted += batch.length;
+        continue;
+      }
+      for (const row of batch) {
+        const { error: rowError } = await supabase.from(target).insert([{ ...row.data, user_id: userId }]);
+        if (rowError) result.failed.push({ line: row.line, message: rowError.code === '23505' ? 'Registo já existente' : rowError.message });
+        else result.inserted++;
+      }
+    }
+
+    const refresh = { clients: get().fetchClients, services: get().fetchServices, products: get().fetchProducts }[target];
+    await refresh(userId);
+    return result;
+  },
+
+  // --- CÓPIA DE SEGURANÇA ---
+  exportAccountData: async (userId) => {
+    const query = (table: string) => supabase.from(table).select('*').eq('user_id', userId).order('id', { ascending: true });
+    const results = await Promise.all([
+      query('professionals'),
+      query('professional_schedules'),
+      query('professional_exceptions'),
+      query('services'),
+      query('products'),
+      query('clients'),
+      query('client_notes'),
+      supabase.from('appointments').select(APPOINTMENT_WITH_ITEMS).eq('user_id', userId).order('id', { ascending: true }),
+      query('financial_entries'),
+      supabase.from('business_settings').select('day_of_week, start_time, end_time').eq('user_id', userId),
+      query('business_exceptions'),
+      supabase.from('booking_settings').select('slug, salon_name, enabled, booking_window_days, lead_time_minutes, cancellation_notice_hours, cancellation_policy, timezone').eq('user_id', userId).maybeSingle(),
+      supabase.from('notification_settings').select('reminders_enabled, channel, reminder_hours_before').eq('user_id', userId).maybeSingle(),
+      supabase.from('message_templates').select('kind, channel, subject, body').eq('user_id', userId),
+    ]);
+    const failed = results.find(result => result.error);
+    if (failed) throw failed.error;
+    const [
+      professionals, professionalSchedules, professionalExceptions, services, products, clients, clientNotes,
+      appointments, financialEntries, businessHours, businessExceptions, booking, notifications, messageTemplates,
+    ] = results;
+
+    return createBackup({
+      professionals: professionals.data || [],
+      professional_schedules: professionalSchedules.data || [],
+      professional_exceptions: professionalExceptions.data || [],
+      services: services.data || [],
+      products: products.data || [],
+      clients: clients.data || [],
+      client_notes: clientNotes.data || [],
+      appointments: appointments.data || [],
+      financial_entries: financialEntries.data || [],
+      settings: {
+        business_hours: businessHours.data || [],
+        business_exceptions: businessExceptions.data || [],
+        booking: booking.data ?? null,
+        notifications: notifications.data ?? null,
+        message_templates: messageTemplates.data || [],
+      },
+    }, new Date());
+  },
+  // Grava tudo como novo, pela ordem das dependências, trocando os ids da cópia pelos
+  // ids criados. Os registos existentes na conta são mantidos.
+  restoreAccountData: async (backup, userId) => {
+    const owned = <T extends object>(rows: T[]) => rows.map(row => ({ ...row, user_id: userId }));
+    const ids: IdMaps = { clients: new Map(), professionals: new Map(), services: new Map(), appointments: new Map() };
+    const warnings: string[] = [];
+    const { settings } = backup;
+
+    // Conflitos com os dados da conta, vistos antes de gravar qualquer linha
+    const cpfs = backup.clients.map(c => c.cpf).filter((cpf): cpf is string => !!cpf);
+    if (cpfs.length > 0) {
+      const { data, error } = await supabase.from('clients').select('name, cpf').eq('user_id', userId).in('cpf', cpfs);
+      if (error) throw error;
+      if (data && data.length > 0) {
+        throw new Error(`Já existem clientes com os CPFs da cópia: ${data.map(c => `${c.name} (${c.cpf})`).join(', ')}.`);
+      }
+    }
+    const exceptionDates = settings.business_exceptions.map(e => e.exception_date);
+    if (exceptionDates.length > 0) {
+      const { data, error } = await supabase.from('business_exceptions').select('exception_date').eq('user_id', userId).in('exception_date', exceptionDates);
+      if (error) throw error;
+      if (data && data.length > 0) {
+        throw new Error(`Já existem exceções de horário nas datas da cópia: ${data.map(e => e.exception_date).join(', ')}.`);
+      }
+    }
+
+    // Se algum passo falhar, as linhas já gravadas são apagadas, as configurações voltam ao
+    // que eram e o erro é relançado
+    const snapshot = await snapshotSettings(userId);
+    const inserted: InsertedRows = [];
+    try {
+      const professionals = owned(backup.professionals.map(withoutId));
+      ids.professionals = matchRestoredIds(backup.professionals.map(p => p.id), professionals,
+        await insertInBatches('professionals', professionals, inserted, RESTORE_KEYS.professionals), RESTORE_KEYS.professionals);
+      await insertInBatches('professional_schedules', owned(backup.professional_schedules.map(s => ({ ...s, professional_id: remapId(ids.professionals, s.professional_id) }))), inserted);
+      await insertInBatches('professional_exceptions', owned(backup.professional_exceptions.map(e => ({ ...e, professional_id: remapId(ids.professionals, e.professional_id) }))), inserted);
+      const services = owned(backup.services.map(withoutId));
+      ids.services = matchRestoredIds(backup.services.map(s => s.id), services,
+        await insertInBatches('services', services, inserted, RESTORE_KEYS.services), RESTORE_KEYS.services);
+      await insertInBatches('products', owned(backup.products), inserted);
+      const clients = owned(backup.clients.map(c => remapClient(c, ids)));
+      ids.clients = matchRestoredIds(backup.clients.map(c => c.id), clients,
+        await insertInBatches('clients', clients, inserted, RESTORE_KEYS.clients), RESTORE_KEYS.clients);
+      await insertInBatches('client_notes', owned(backup.client_notes.map(n => ({ ...n, client_id: remapId(ids.clients, n.client_id) }))), inserted);
+      const appointments = owned(backup.appointments.map(a => remapAppointment(a, ids)));
+      ids.appointments = matchRestoredIds(backup.appointments.map(a => a.id), appointments,
+        await insertInBatches('appointments', appointments, inserted, RESTORE_KEYS.appointments), RESTORE_KEYS.appointments);
+      await insertInBatches('appointment_services', owned(backup.appointments.flatMap(a => remapAppointmentItems(a, ids))), inserted);
+      await insertInBatches('financial_entries', owned(backup.financial_entries.map(f => remapFinancialEntry(f, ids))), inserted);
+      await insertInBatches('business_exceptions', owned(settings.business_exceptions), inserted);
+
+      // As configurações substituem as atuais e ficam para o fim, depois de todas as linhas
+      if (settings.business_hours.length > 0) {
+        const { error } = await supabase.from('business_settings').upsert(owned(settings.business_hours), { onConflict: 'user_id, day_of_week' });
+        if (error) throw error;
+      }
+      if (settings.booking) {
+        const { error } = await supabase.from('booking_settings').upsert({ ...settings.booking, user_id: userId }, { onConflict: 'user_id' });
+        // 23505: o endereço da página pública já é usado por outro salão
+        if (error?.code === '23505') warnings.push(`O endereço "${settings.booking.slug}" da página pública já está em uso; configure-o de novo nas configurações.`);
+        else if (error) throw error;
+      }
+      if (settings.notifications) {
+        const { error } = await supabase.from('notification_settings').upsert({ ...settings.notifications, user_id: userId }, { onConflict: 'user_id' });
+        if (error) throw error;
+      }
+      if (settings.message_templates.length > 0) {
+        const { error } = await supabase.from('message_templates').upsert(owned(settings.message_templates), { onConflict: 'user_id, kind, channel' });
+        if (error) throw error;
+      }
+    } catch (error) {
+      const pending = [...await restoreSettings(snapshot, userId), ...await deleteInserted(inserted)];
+      if (pending.length > 0) throw new RestoreRollbackError(error as Error, pending);
+      throw error;
+    }
+
+    const state = get();
+    await Promise.all([
+      state.fetchProfessionals(userId),
+      state.fetchProfessionalSchedules(userId),
+      state.fetchProfessionalExceptions(userId),
+      state.fetchServices(userId),
+      state.fetchProducts(userId),
+      state.fetchClients(userId),
+      state.fetchAppointments(userId),
+      state.fetchFinancialEntries(userId),
+      state.fetchBusinessHours(userId),
+      state.fetchBusinessExceptions(userId),
+      state.fetchMessageTemplates(userId),
+    ]);
+    return {
+      counts: {
+        professionals: backup.professionals.length,
+        services: backup.services.length,
+        products: backup.products.length,
+        clients: backup.clients.length,
+        appointments: backup.appointments.length,
+        financial_entries: backup.financial_entries.length,
+      },
+      warnings,
+    };
+  },
+
   // --- PROFISSIONAIS ---
   professionals: [],
   fetchProfessionals: async (userId) => {
@@ -169,7 +1032,12 @@ export const useAppStore = create<AppState>((set, get) => ({
   addProfessional: async (professional, userId) => {
     const { data, error } = await supabase.from('professionals').insert([{ ...professional, user_id: userId }]).select();
     if (error) throw error;
-    if (data) set((state) => ({ professionals: [...state.professionals, data[0]].sort((a, b) => a.name.localeCompare(b.name)) }));
+    if (data && data[0]) {
+      const newProfessional = data[0];
+      set((state) => ({ professionals: [...state.professionals, newProfessional].sort((a, b) => a.name.localeCompare(b.name)) }));
+      return newProfessional;
+    }
+    throw new Error("Não foi possível criar o profissional.");
   },
   updateProfessional: async (professional) => {
     const { data, error } = await supabase.from('professionals').update(professional).eq('id', professional.id).select();
@@ -179,31 +1047,278 @@ export const useAppStore = create<AppState>((set, get) => ({
   deleteProfessional: async (professionalId) => {
     const { error } = await supabase.from('professionals').delete().eq('id', professionalId);
     if (error) throw error;
-    set((state) => ({ professionals: state.professionals.filter((p) => p.id !== professionalId) }));
+    // As linhas de horário são removidas em cascata pela chave estrangeira.
+    set((state) => ({
+      professionals: state.professionals.filter((p) => p.id !== professionalId),
+      professionalSchedules: state.professionalSchedules.filter((s) => s.professional_id !== professionalId),
+      professionalExceptions: state.professionalExceptions.filter((e) => e.professional_id !== professionalId),
+    }));
+  },
+
+  // --- HORÁRIOS SEMANAIS DOS PROFISSIONAIS ---
+  professionalSchedules: [],
+  fetchProfessionalSchedules: async (userId) => {
+    set(state => ({ loading: { ...state.loading, professionalSchedules: true } }));
+    const { data, error } = await supabase.from('professional_schedules').select('*').eq('user_id', userId).order('day_of_week', { ascending: true });
+    if (error) console.error("Erro ao buscar horários dos profissionais:", error);
+    set({ professionalSchedules: data || [], loading: { ...get().loading, professionalSchedules: false } });
+  },
+  saveProfessionalSchedule: async (professionalId, schedule, userId) => {
+    const rows = schedule.map((day) => ({
+      ...day,
+      user_id: userId,
+      professional_id: professionalId,
+      start_time: day.start_time || null,
+      end_time: day.end_time || null,
+      lunch_start_time: day.lunch_start_time || null,
+      lunch_end_time: day.lunch_end_time || null,
+    }));
+    const { data, error } = await supabase
+      .from('professional_schedules')
+      .upsert(rows, { onConflict: 'professional_id, day_of_week' })
+      .select();
+    if (error) throw error;
+    if (data) set((state) => ({
+      professionalSchedules: [
+        ...state.professionalSchedules.filter((s) => s.professional_id !== professionalId),
+        ...data,
+      ],
+    }));
+  },
+
+  // --- AUSÊNCIAS DOS PROFISSIONAIS ---
+  professionalExceptions: [],
+  fetchProfessionalExceptions: async (userId) => {
+    set(state => ({ loading: { ...state.loading, professionalExceptions: true } }));
+    const { data, error } = await supabase.from('professional_exceptions').select('*').eq('user_id', userId).order('start_date', { ascending: true });
+    if (error) console.error("Erro ao buscar ausências dos profissionais:", error);
+    set({ professionalExceptions: data || [], loading: { ...get().loading, professionalExceptions: false } });
+  },
+  addProfessionalException: async (exception, userId) => {
+    const { data, error } = await supabase.from('professional_exceptions').insert([{ ...exception, user_id: userId }]).select();
+    if (error) throw error;
+    if (data) set((state) => ({ professionalExceptions: [...state.professionalExceptions, data[0]].sort((a, b) => a.start_date.localeCompare(b.start_date)) }));
+  },
+  deleteProfessionalException: async (exceptionId) => {
+    const { error } = await supabase.from('professional_exceptions').delete().eq('id', exceptionId);
+    if (error) throw error;
+    set((state) => ({ professionalExceptions: state.professionalExceptions.filter((e) => e.id !== exceptionId) }));
   },
 
   // --- AGENDAMENTOS ---
   appointments: [],
   fetchAppointments: async (userId) => {
     set(state => ({ loading: { ...state.loading, appointments: true } }));
-    const { data, error } = await supabase.from('appointments').select('*').eq('user_id', userId).order('appointment_date', { ascending: true });
+    const { data, error } = await supabase.from('appointments').select(APPOINTMENT_WITH_ITEMS).eq('user_id', userId).order('appointment_date', { ascending: true });
     if (error) console.error("Erro ao buscar agendamentos:", error);
     set({ appointments: data || [], loading: { ...get().loading, appointments: false } });
   },
   addAppointment: async (appointment, userId) => {
-    const { data, error } = await supabase.from('appointments').insert([{ ...appointment, user_id: userId }]).select();
-    if (error) throw error;
-    if (data) set((state) => ({ appointments: [...state.appointments, data[0]] }));
+    await assertAvailable(appointment, userId);
+    const { data, error } = await supabase.from('appointments').insert([{ ...withoutItems(appointment), user_id: userId }]).select();
+    if (error) throw await toConflictError(error, appointment, userId);
+    await recordStatusChanges(creationChanges(data || []));
+    const [saved] = await replaceItems(data || [], appointment.items ?? []);
+    if (saved) set((state) => ({ appointments: [...state.appointments, saved] }));
   },
   updateAppointment: async (appointment) => {
-    const { data, error } = await supabase.from('appointments').update(appointment).eq('id', appointment.id).select();
-    if (error) throw error;
-    if (data) set((state) => ({ appointments: state.appointments.map((a) => (a.id === appointment.id ? data[0] : a)) }));
+    // Só reconfirma a disponibilidade se o horário ou os profissionais ocupados mudaram
+    const current = get().appointments.find((a) => a.id === appointment.id);
+    if (!current || JSON.stringify(appointmentSegments(current)) !== JSON.stringify(appointmentSegments({ ...current, ...appointment }))) {
+      await assertAvailable(appointment, appointment.user_id);
+    }
+    const { data, error } = await supabase.from('appointments').update(withoutItems(appointment)).eq('id', appointment.id).select();
+    if (error) throw await toConflictError(error, appointment, appointment.user_id);
+    // Sem `items`, as linhas de serviço gravadas mantêm-se
+    const [saved] = appointment.items ? await replaceItems(data || [], appointment.items) : (data || []).map((a: AppointmentType) => ({ ...a, items: current?.items }));
+    if (saved) set((state) => ({ appointments: state.appointments.map((a) => (a.id === appointment.id ? saved : a)) }));
   },
   deleteAppointment: async (appointmentId) => {
+    const deleted = get().appointments.find((a) => a.id === appointmentId);
+    await refundAppointmentGiftCards([appointmentId], 'Estorno: agendamento excluído');
     const { error } = await supabase.from('appointments').delete().eq('id', appointmentId);
     if (error) throw error;
     set((state) => ({ appointments: state.appointments.filter((a) => a.id !== appointmentId) }));
+    if (deleted) {
+      const matched = await flagWaitlistMatches([deleted], deleted.user_id);
+      set((state) => ({ waitlist: mergeWaitlist(state.waitlist, matched) }));
+    }
+  },
+
+  // --- SÉRIES RECORRENTES ---
+  // Cria a série e as ocorrências livres; as restantes são devolvidas em `skipped`.
+  addAppointmentSeries: async (appointment, rule, userId) => {
+    const occurrences = generateOccurrences(rule, appointment).map(occurrence => ({ ...appointment, ...occurrence }));
+    const { accepted, skipped } = await partitionOccurrences(occurrences, userId);
+    if (accepted.length === 0) throw new AppointmentConflictError(skipped[0].check);
+
+    const { data: series, error: seriesError } = await supabase.from('appointment_series').insert([{
+      user_id: userId,
+      frequency: rule.frequency,
+      interval: rule.interval,
+      day_of_month: rule.frequency === 'monthly' ? rule.day_of_month : null,
+      until_date: rule.end_type === 'until' ? rule.until_date : null,
+      occurrences: rule.end_type === 'count' ? rule.occurrences : null,
+    }]).select().single();
+    if (seriesError) throw seriesError;
+
+    const rows = accepted.map(occurrence => ({ ...withoutItems(occurrence), user_id: userId, series_id: series.id }));
+    const { data, error } = await supabase.from('appointments').insert(rows).select();
+    if (error) {
+      await supabase.from('appointment_series').delete().eq('id', series.id);
+      throw await toConflictError(error, accepted[0], userId);
+    }
+    await recordStatusChanges(creationChanges(data || []));
+    const saved = await replaceItems(data || [], appointment.items ?? []);
+    set((state) => ({ appointments: [...state.appointments, ...saved] }));
+    return { saved, skipped };
+  },
+  // Aplica os dados, os serviços e o horário de um agendamento às outras ocorrências da série (cada uma mantém a sua data).
+  updateAppointmentSeries: async (appointment, scope) => {
+    if (scope === 'this' || !appointment.series_id) {
+      await get().updateAppointment(appointment);
+      const saved = get().appointments.find((a) => a.id === appointment.id);
+      return { saved: saved ? [saved] : [], skipped: [] };
+    }
+
+    const original = get().appointments.find((a) => a.id === appointment.id) ?? appointment;
+    let query = supabase.from('appointments').select(APPOINTMENT_WITH_ITEMS).eq('series_id', appointment.series_id);
+    if (scope === 'following') query = query.gte('appointment_date', original.appointment_date);
+    const { data: targets, error: targetsError } = await query;
+    if (targetsError) throw targetsError;
+
+    const updates: AppointmentType[] = (targets || []).map((target: AppointmentType) => target.id === appointment.id ? appointment : {
+      ...target,
+      client_id: appointment.client_id,
+      client_name: appointment.client_name,
+      professional_id: appointment.professional_id,
+      service_id: appointment.service_id,
+      service: appointment.service,
+      price: appointment.price,
+      gross_price: appointment.gross_price,
+      discount_amount: appointment.discount_amount,
+      promotion_id: appointment.promotion_id,
+      coupon_code: appointment.coupon_code,
+      items: appointment.items ?? target.items,
+      ...retimeOccurrence(target, appointment),
+    });
+    const { accepted, skipped } = await partitionOccurrences(updates, appointment.user_id);
+    if (accepted.length === 0) return { saved: [], skipped };
+
+    const { data, error } = await supabase.from('appointments').upsert(accepted.map(withoutItems)).select();
+    if (error) throw await toConflictError(error, accepted[0], appointment.user_id);
+    const saved = appointment.items
+      ? await replaceItems(data || [], appointment.items)
+      : (data || []).map((a: AppointmentType) => ({ ...a, items: accepted.find((u) => u.id === a.id)?.items }));
+    set((state) => ({ appointments: state.appointments.map((a) => saved.find((s) => s.id === a.id) ?? a) }));
+    return { saved, skipped };
+  },
+  deleteAppointmentSeries: async (appointment, scope) => {
+    if (scope === 'this' || !appointment.series_id) return get().deleteAppointment(appointment.id!);
+
+    const targets = get().appointments.filter((a) => a.series_id === appointment.series_id && (scope === 'all' || a.appointment_date >= appointment.appointment_date));
+    await refundAppointmentGiftCards(targets.map((a) => a.id!), 'Estorno: agendamento excluído');
+    let query = supabase.from('appointments').delete().eq('series_id', appointment.series_id);
+    if (scope === 'following') query = query.gte('appointment_date', appointment.appointment_date);
+    const { data, error } = await query.select('id');
+    if (error) throw error;
+    if (scope === 'all') {
+      const { error: seriesError } = await supabase.from('appointment_series').delete().eq('id', appointment.series_id);
+      if (seriesError) throw seriesError;
+    }
+    const deletedIds = (data || []).map((row: { id: number }) => row.id);
+    const deleted = get().appointments.filter((a) => deletedIds.includes(a.id!));
+    set((state) => ({ appointments: state.appointments.filter((a) => !deletedIds.includes(a.id!)) }));
+    const matched = await flagWaitlistMatches(deleted, appointment.user_id);
+    set((state) => ({ waitlist: mergeWaitlist(state.waitlist, matched) }));
+  },
+
+  // --- STATUS DOS AGENDAMENTOS ---
+  // Muda o status, regista a transição no histórico e mantém a receita do atendimento em sincronia.
+  changeAppointmentStatus: async (appointment, status, reason) => {
+    const from = appointment.status ?? 'scheduled';
+    if (!canTransition(from, status)) {
+      throw new Error(`Não é possível passar de "${STATUS_LABELS[from]}" para "${STATUS_LABELS[status]}".`);
+    }
+    if (requiresReason(status) && !reason) throw new Error('Informe o motivo.');
+    // Reativar um agendamento cancelado ou com falta volta a ocupar o horário
+    if (!occupiesSlot(from) && occupiesSlot(status)) {
+      await assertAvailable(appointment, appointment.user_id);
+    }
+
+    const { data, error } = await supabase.from('appointments')
+      .update({ status, attended: status === 'completed' })
+      .eq('id', appointment.id)
+      .select();
+    if (error) throw await toConflictError(error, appointment, appointment.user_id);
+
+    await recordStatusChanges([{
+      user_id: appointment.user_id,
+      appointment_id: appointment.id!,
+      from_status: from,
+      to_status: status,
+      reason: reason || null,
+    }]);
+
+    // A receita do atendimento existe enquanto o agendamento estiver concluído, com uma entrada por serviço
+    if (status === 'completed') {
+      const clientName = get().clients.find(c => c.id === appointment.client_id)?.name || appointment.client_name;
+      const lines = appointment.items?.length
+        ? sortItems(appointment.items)
+        : [{ service_id: appointment.service_id, service: appointment.service, price: appointment.price }];
+      // As linhas pagas com sessões de um pacote não geram receita: foi lançada na venda do pacote
+      const prepaid = await consumePackageSessions(appointment, lines);
+      const billed = lines.map((line, index) => (prepaid.has(index) ? { ...line, price: 0 } : line));
+      // O valor pago com vale-presente também já foi lançado, na venda do vale
+      const paid = applyCredit(billed, appointmentCredit(await fetchAppointmentGiftCardTransactions([appointment.id!]), appointment.id!));
+      const { error: entryError } = await supabase.from('financial_entries').insert(paid.filter(line => line.price > 0).map(line => ({
+        user_id: appointment.user_id,
+        description: `Serviço: ${line.service} - Cliente: ${clientName}`,
+        amount: line.price,
+        type: 'receita',
+        entry_type: 'pontual',
+        entry_date: splitDateTime(appointment.appointment_date).date,
+        appointment_id: appointment.id,
+        is_virtual: true, // Indica que foi gerado por um agendamento
+      })));
+      if (entryError) throw entryError;
+      await awardAppointmentPoints(appointment, paid);
+    } else if (from === 'completed') {
+      const { error: entryError } = await supabase.from('financial_entries').delete()
+        .eq('appointment_id', appointment.id)
+        .eq('is_virtual', true);
+      if (entryError) throw entryError;
+      // Os pontos ganhos no atendimento saem com a receita
+      const { error: pointsError } = await supabase.from('loyalty_transactions').delete()
+        .eq('appointment_id', appointment.id)
+        .eq('kind', 'earn');
+      if (pointsError) throw pointsError;
+      // As sessões consumidas voltam aos pacotes
+      const { error: sessionsError } = await supabase.from('package_session_uses').delete().eq('appointment_id', appointment.id);
+      if (sessionsError) throw sessionsError;
+    }
+
+    // O valor usado de vales-presente num atendimento cancelado volta aos vales
+    if (CANCELLED_STATUSES.includes(status)) await refundAppointmentGiftCards([appointment.id!], 'Estorno: atendimento cancelado');
+
+    if (data) set((state) => ({ appointments: state.appointments.map((a) => (a.id === appointment.id ? { ...data[0], items: appointment.items } : a)) }));
+
+    // Um cancelamento liberta o horário para a lista de espera
+    if (CANCELLED_STATUSES.includes(status)) {
+      const matched = await flagWaitlistMatches([{ ...appointment, status: from }], appointment.user_id);
+      set((state) => ({ waitlist: mergeWaitlist(state.waitlist, matched) }));
+    }
+  },
+  fetchAppointmentStatusHistory: async (appointmentId) => {
+    const { data, error } = await supabase.from('appointment_status_history').select('*').eq('appointment_id', appointmentId).order('changed_at', { ascending: true });
+    if (error) throw error;
+    return data || [];
+  },
+  // Mensagens enviadas ao cliente sobre o agendamento (lembretes), com o estado da entrega
+  fetchAppointmentNotifications: async (appointmentId) => {
+    const { data, error } = await supabase.from('notifications').select('*').eq('appointment_id', appointmentId).order('created_at', { ascending: true });
+    if (error) throw error;
+    return data || [];
   },
 
   // --- ENTRADAS FINANCEIRAS ---
@@ -239,15 +1354,429 @@ export const useAppStore = create<AppState>((set, get) => ({
     set({ businessHours: data || [], loading: { ...get().loading, businessHours: false } });
   },
 
+  // --- ALTERAÇÕES FEITAS PELOS CLIENTES ---
+  clientChanges: [],
+  fetchClientChanges: async (userId) => {
+    set(state => ({ loading: { ...state.loading, clientChanges: true } }));
+    const { data, error } = await supabase
+      .from('appointment_changes')
+      .select('*, appointment:appointments(client_name, service, appointment_date, status)')
+      .eq('user_id', userId)
+      .is('seen_at', null)
+      .order('created_at', { ascending: false });
+    if (error) console.error("Erro ao buscar alterações dos clientes:", error);
+    set({ clientChanges: data || [], loading: { ...get().loading, clientChanges: false } });
+  },
+  markClientChangeSeen: async (changeId) => {
+    const { error } = await supabase.from('appointment_changes').update({ seen_at: new Date().toISOString() }).eq('id', changeId);
+    if (error) throw error;
+    set(state => ({ clientChanges: state.clientChanges.filter(change => change.id !== changeId) }));
+  },
+
+  // --- LISTA DE ESPERA ---
+  // Só os pedidos em aberto: à espera ou com vaga encontrada
+  waitlist: [],
+  fetchWaitlist: async (userId) => {
+    set(state => ({ loading: { ...state.loading, waitlist: true } }));
+    const { data, error } = await supabase.from('waitlist_entries').select('*').eq('user_id', userId).in('status', ['waiting', 'matched']).order('created_at', { ascending: true });
+    if (error) console.error("Erro ao buscar a lista de espera:", error);
+    set({ waitlist: data || [], loading: { ...get().loading, waitlist: false } });
+  },
+  addWaitlistEntry: async (entry, userId) => {
+    const { data, error } = await supabase.from('waitlist_entries').insert([{ ...entry, user_id: userId }]).select();
+    if (error) throw error;
+    if (data) set((state) => ({ waitlist: [...state.waitlist, data[0]] }));
+  },
+  // Voltar a 'waiting' descarta a vaga encontrada; 'booked' e 'cancelled' fecham o pedido
+  setWaitlistStatus: async (entry, status) => {
+    const changes = status === 'waiting' ? { status, matched_date: null, matched_professional_id: null, matched_at: null } : { status };
+    const { data, error } = await supabase.from('waitlist_entries').update({ ...changes, updated_at: new Date().toISOString() }).eq('id', entry.id).select();
+    if (error) throw error;
+    set((state) => ({
+      waitlist: status === 'booked' || status === 'cancelled'
+        ? state.waitlist.filter((e) => e.id !== entry.id)
+        : mergeWaitlist(state.waitlist, data || []),
+    }));
+  },
+  deleteWaitlistEntry: async (entryId) => {
+    const { error } = await supabase.from('waitlist_entries').delete().eq('id', entryId);
+    if (error) throw error;
+    set((state) => ({ waitlist: state.waitlist.filter((e) => e.id !== entryId) }));
+  },
+
+  // --- MODELOS DE MENSAGEM ---
+  // Só os modelos personalizados; os restantes usam o texto padrão (ver `DEFAULT_TEMPLATES`)
+  messageTemplates: [],
+  fetchMessageTemplates: async (userId) => {
+    set(state => ({ loading: { ...state.loading, messageTemplates: true } }));
+    const { data, error } = await supabase.from('message_templates').select('*').eq('user_id', userId);
+    if (error) console.error("Erro ao buscar modelos de mensagem:", error);
+    set({ messageTemplates: data || [], loading: { ...get().loading, messageTemplates: false } });
+  },
+  // Um modelo por tipo e canal: salvar substitui o anterior
+  saveMessageTemplate: async (template, userId) => {
+    const { data, error } = await supabase.from('message_templates')
+      .upsert({ ...template, user_id: userId, updated_at: new Date().toISOString() }, { onConflict: 'user_id, kind, channel' })
+      .select();
+    if (error) throw error;
+    if (data) set((state) => ({
+      messageTemplates: [...state.messageTemplates.filter((t) => t.id !== data[0].id), data[0]],
+    }));
+  },
+  deleteMessageTemplate: async (templateId) => {
+    const { error } = await supabase.from('message_templates').delete().eq('id', templateId);
+    if (error) throw error;
+    set((state) => ({ messageTemplates: state.messageTemplates.filter((t) => t.id !== templateId) }));
+  },
+
+  // --- PACOTES ---
+  servicePackages: [],
+  fetchServicePackages: async (userId) => {
+    set(state => ({ loading: { ...state.loading, servicePackages: true } }));
+    const { data, error } = await supabase.from('service_packages').select('*').eq('user_id', userId).order('name', { ascending: true });
+    if (error) console.error("Erro ao buscar pacotes:", error);
+    set({ servicePackages: data || [], loading: { ...get().loading, servicePackages: false } });
+  },
+  addServicePackage: async (servicePackage, userId) => {
+    const { data, error } = await supabase.from('service_packages').insert([{ ...servicePackage, user_id: userId }]).select();
+    if (error) throw error;
+    if (data) set((state) => ({ servicePackages: [...state.servicePackages, data[0]].sort((a, b) => a.name.localeCompare(b.name)) }));
+  },
+  // Os pacotes já vendidos mantêm as condições da venda
+  updateServicePackage: async (servicePackage) => {
+    const { data, error } = await supabase.from('service_packages')
+      .update({ ...servicePackage, updated_at: new Date().toISOString() })
+      .eq('id', servicePackage.id)
+      .select();
+    if (error) throw error;
+    if (data) set((state) => ({ servicePackages: state.servicePackages.map((p) => (p.id === servicePackage.id ? data[0] : p)) }));
+  },
+  deleteServicePackage: async (packageId) => {
+    const { error } = await supabase.from('service_packages').delete().eq('id', packageId);
+    if (error) throw error;
+    set((state) => ({ servicePackages: state.servicePackages.filter((p) => p.id !== packageId) }));
+  },
+  sellServicePackage: async (servicePackage, clientId, userId) => {
+    const today = localToday();
+    const { data: sold, error } = await supabase.from('client_packages').insert([{
+      user_id: userId,
+      client_id: clientId,
+      package_id: servicePackage.id,
+      package_name: servicePackage.name,
+      service_ids: servicePackage.service_ids,
+      sessions_total: servicePackage.sessions,
+      price: servicePackage.price,
+      expires_at: packageExpiry(today, servicePackage.validity_days),
+    }]).select().single();
+    if (error) throw error;
+
+    const { error: entryError } = await supabase.from('financial_entries').insert([{
+      user_id: userId,
+      description: `Pacote: ${servicePackage.name} (${servicePackage.sessions} sessões)`,
+      amount: servicePackage.price,
+      type: 'receita',
+      entry_type: 'pontual',
+      entry_date: today,
+    }]);
+    if (entryError) throw entryError;
+
+    // As sessões usadas depois não rendem pontos; o pacote rende-os na compra
+    const points = pointsForAmount(servicePackage.price, await fetchLoyaltyRules(userId));
+    if (points > 0) await insertLoyaltyTransaction({
+      user_id: userId,
+      client_id: clientId,
+      points,
+      kind: 'earn',
+      description: `Pacote: ${servicePackage.name}`,
+    });
+    return { ...sold, uses: [] };
+  },
+  fetchClientPackages: async (clientId) => {
+    const { data, error } = await supabase.from('client_packages').select(CLIENT_PACKAGE_WITH_USES).eq('client_id', clientId).order('purchased_at', { ascending: false });
+    if (error) throw error;
+    return data || [];
+  },
+
+  // --- ASSINATURAS ---
+  membershipPlans: [],
+  fetchMembershipPlans: async (userId) => {
+    set(state => ({ loading: { ...state.loading, membershipPlans: true } }));
+    const { data, error } = await supabase.from('membership_plans').select('*').eq('user_id', userId).order('name', { ascending: true });
+    if (error) console.error("Erro ao buscar planos de assinatura:", error);
+    set({ membershipPlans: data || [], loading: { ...get().loading, membershipPlans: false } });
+  },
+  addMembershipPlan: async (plan, userId) => {
+    const { data, error } = await supabase.from('membership_plans').insert([{ ...plan, user_id: userId }]).select();
+    if (error) throw error;
+    if (data) set((state) => ({ membershipPlans: [...state.membershipPlans, data[0]].sort((a, b) => a.name.localeCompare(b.name)) }));
+  },
+  // As assinaturas já feitas mantêm as condições da adesão
+  updateMembershipPlan: async (plan) => {
+    const { data, error } = await supabase.from('membership_plans')
+      .update({ ...plan, updated_at: new Date().toISOString() })
+      .eq('id', plan.id)
+      .select();
+    if (error) throw error;
+    if (data) set((state) => ({ membershipPlans: state.membershipPlans.map((p) => (p.id === plan.id ? data[0] : p)) }));
+  },
+  deleteMembershipPlan: async (planId) => {
+    const { error } = await supabase.from('membership_plans').delete().eq('id', planId);
+    if (error) throw error;
+    set((state) => ({ membershipPlans: state.membershipPlans.filter((p) => p.id !== planId) }));
+  },
+  memberships: [],
+  fetchMemberships: async (userId) => {
+    set(state => ({ loading: { ...state.loading, memberships: true } }));
+    const { data, error } = await supabase.from('client_memberships').select('*').eq('user_id', userId).order('started_at', { ascending: false });
+    if (error) console.error("Erro ao buscar assinaturas:", error);
+    set({ memberships: data || [], loading: { ...get().loading, memberships: false } });
+  },
+  subscribeClient: async (plan, clientId, userId) => {
+    const { data: membership, error } = await supabase.from('client_memberships').insert([{
+      user_id: userId,
+      client_id: clientId,
+      plan_id: plan.id,
+      plan_name: plan.name,
+      service_ids: plan.service_ids,
+      usage_limit: plan.usage_limit ?? null,
+      monthly_price: plan.monthly_price,
+      status: 'active',
+      started_at: localToday(),
+    }]).select().single();
+    if (error) throw error;
+    await billMembership(supabase, membership, membership.started_at);
+    set((state) => ({ memberships: [membership, ...state.memberships] }));
+    return membership;
+  },
+  setMembershipStatus: async (membership, status) => {
+    if (membership.status === 'cancelled') throw new Error('Uma assinatura cancelada não pode ser alterada.');
+    const now = new Date().toISOString();
+    const { data, error } = await supabase.from('client_memberships').update({
+      status,
+      paused_at: status === 'paused' ? now : null,
+      cancelled_at: status === 'cancelled' ? now : null,
+      updated_at: now,
+    }).eq('id', membership.id).select().single();
+    if (error) throw error;
+    if (status === 'active') await billMembership(supabase, data, localToday());
+    set((state) => ({ memberships: state.memberships.map((m) => (m.id === membership.id ? data : m)) }));
+  },
+  fetchClientMemberships: async (clientId) => {
+    const { data, error } = await supabase.from('client_memberships').select(CLIENT_MEMBERSHIP_WITH_USES).eq('client_id', clientId).order('started_at', { ascending: true });
+    if (error) throw error;
+    return data || [];
+  },
+
+  // --- VALES-PRESENTE ---
+  giftCards: [],
+  fetchGiftCards: async (userId) => {
+    set(state => ({ loading: { ...state.loading, giftCards: true } }));
+    const { data, error } = await supabase.from('gift_cards').select(GIFT_CARD_WITH_TRANSACTIONS).eq('user_id', userId).order('sold_at', { ascending: false });
+    if (error) console.error("Erro ao buscar vales-presente:", error);
+    set({ giftCards: data || [], loading: { ...get().loading, giftCards: false } });
+  },
+  sellGiftCard: async (giftCard, userId) => {
+    // Um código repetido é recusado pela restrição única; tenta-se outro
+    let sold: GiftCardType | null = null;
+    for (let attempt = 0; !sold; attempt++) {
+      const { data, error } = await supabase.from('gift_cards').insert([{
+        user_id: userId,
+        code: generateGiftCardCode(),
+        initial_amount: giftCard.amount,
+        client_id: giftCard.client_id ?? null,
+        recipient_name: giftCard.recipient_name || null,
+        message: giftCard.message || null,
+        expires_at: giftCard.expires_at || null,
+      }]).select().single();
+      if (error && (error.code !== UNIQUE_VIOLATION || attempt >= 2)) throw error;
+      sold = data;
+    }
+
+    const { data: issued, error: issueError } = await supabase.from('gift_card_transactions').insert([{
+      user_id: userId,
+      gift_card_id: sold.id,
+      amount: giftCard.amount,
+      kind: 'issue',
+      description: 'Venda do vale',
+    }]).select().single();
+    if (issueError) throw issueError;
+
+    const { error: entryError } = await supabase.from('financial_entries').insert([{
+      user_id: userId,
+      description: `Vale-presente: ${sold.code}`,
+      amount: giftCard.amount,
+      type: 'receita',
+      entry_type: 'pontual',
+      entry_date: localToday(),
+    }]);
+    if (entryError) throw entryError;
+
+    const saved = { ...sold, transactions: [issued] };
+    set((state) => ({ giftCards: [saved, ...state.giftCards] }));
+    return saved;
+  },
+  findGiftCard: async (code, userId) => {
+    const { data, error } = await supabase.from('gift_cards').select(GIFT_CARD_WITH_TRANSACTIONS).eq('user_id', userId).eq('code', code).maybeSingle();
+    if (error) throw error;
+    return data;
+  },
+  redeemGiftCard: async (giftCard, amount, appointment) => {
+    if (appointment.status === 'completed') throw new Error('Use o vale antes de concluir o atendimento.');
+    // O saldo é relido do banco: o vale pode ter sido usado noutro atendimento entretanto
+    const { data: transactions, error } = await supabase.from('gift_card_transactions').select('amount').eq('gift_card_id', giftCard.id);
+    if (error) throw error;
+    const refusal = giftCardRedemptionError(giftCard, giftCardBalance(transactions || []), amount, localToday());
+    if (refusal) throw new Error(refusal);
+    const { data, error: redeemError } = await supabase.from('gift_card_transactions').insert([{
+      user_id: giftCard.user_id,
+      gift_card_id: giftCard.id,
+      amount: -amount,
+      kind: 'redeem',
+      appointment_id: appointment.id,
+      description: `Atendimento: ${appointment.service}`,
+    }]).select().single();
+    if (redeemError) throw redeemError;
+    return data;
+  },
+  refundGiftCardRedemption: async (transaction, appointment) => {
+    if (appointment.status === 'completed') throw new Error('O atendimento já foi concluído com este pagamento.');
+    const { data, error } = await supabase.from('gift_card_transactions').insert([{
+      user_id: transaction.user_id,
+      gift_card_id: transaction.gift_card_id,
+      amount: -transaction.amount,
+      kind: 'refund',
+      appointment_id: transaction.appointment_id,
+      description: `Estorno: ${appointment.service}`,
+    }]).select().single();
+    if (error) throw error;
+    return data;
+  },
+  fetchAppointmentGiftCards: (appointmentId) => fetchAppointmentGiftCardTransactions([appointmentId]),
+
+  // --- PROMOÇÕES ---
+  promotions: [],
+  fetchPromotions: async (userId) => {
+    set(state => ({ loading: { ...state.loading, promotions: true } }));
+    const { data, error } = await supabase.from('promotions').select('*').eq('user_id', userId).order('name', { ascending: true });
+    if (error) console.error("Erro ao buscar promoções:", error);
+    set({ promotions: data || [], loading: { ...get().loading, promotions: false } });
+  },
+  addPromotion: async (promotion, userId) => {
+    const { data, error } = await supabase.from('promotions').insert([{ ...promotion, user_id: userId }]).select();
+    if (error) throw error.code === UNIQUE_VIOLATION ? new Error(DUPLICATE_COUPON_MESSAGE) : error;
+    if (data) set((state) => ({ promotions: [...state.promotions, data[0]].sort((a, b) => a.name.localeCompare(b.name)) }));
+  },
+  // Os agendamentos já gravados mantêm o desconto calculado
+  updatePromotion: async (promotion) => {
+    const { data, error } = await supabase.from('promotions')
+      .update({ ...promotion, updated_at: new Date().toISOString() })
+      .eq('id', promotion.id)
+      .select();
+    if (error) throw error.code === UNIQUE_VIOLATION ? new Error(DUPLICATE_COUPON_MESSAGE) : error;
+    if (data) set((state) => ({ promotions: state.promotions.map((p) => (p.id === promotion.id ? data[0] : p)) }));
+  },
+  deletePromotion: async (promotionId) => {
+    const { error } = await supabase.from('promotions').delete().eq('id', promotionId);
+    if (error) throw error;
+    set((state) => ({ promotions: state.promotions.filter((p) => p.id !== promotionId) }));
+  },
+  fetchDiscountReport: async (userId, startDate, endDate) => {
+    const { data, error } = await supabase.from('appointments')
+      .select(APPOINTMENT_DISCOUNTS)
+      .eq('user_id', userId)
+      .eq('status', 'completed')
+      .gte('appointment_date', `${startDate} 00:00:00`)
+      .lte('appointment_date', `${endDate} 23:59:59`)
+      .returns<DiscountReportRow[]>();
+    if (error) throw error;
+    return data || [];
+  },
+
+  // --- PROGRAMA DE FIDELIDADE ---
+  loyaltyRewards: [],
+  fetchLoyaltyRewards: async (userId) => {
+    set(state => ({ loading: { ...state.loading, loyaltyRewards: true } }));
+    const { data, error } = await supabase.from('loyalty_rewards').select('*').eq('user_id', userId).order('points_cost', { ascending: true });
+    if (error) console.error("Erro ao buscar prêmios de fidelidade:", error);
+    set({ loyaltyRewards: data || [], loading: { ...get().loading, loyaltyRewards: false } });
+  },
+  saveLoyaltyReward: async (reward, userId) => {
+    const { id, ...fields } = reward;
+    const row = { ...fields, user_id: userId, updated_at: new Date().toISOString() };
+    const { data, error } = id
+      ? await supabase.from('loyalty_rewards').update(row).eq('id', id).select()
+      : await supabase.from('loyalty_rewards').insert([row]).select();
+    if (error) throw error;
+    if (data) set((state) => ({
+      loyaltyRewards: [...state.loyaltyRewards.filter((r) => r.id !== data[0].id), data[0]].sort((a, b) => a.points_cost - b.points_cost),
+    }));
+  },
+  // Os resgates feitos ficam no extrato, sem o prêmio
+  deleteLoyaltyReward: async (rewardId) => {
+    const { error } = await supabase.from('loyalty_rewards').delete().eq('id', rewardId);
+    if (error) throw error;
+    set((state) => ({ loyaltyRewards: state.loyaltyRewards.filter((r) => r.id !== rewardId) }));
+  },
+  fetchLoyaltySettings: fetchLoyaltyRules,
+  saveLoyaltySettings: async (settings, userId) => {
+    const { error } = await supabase.from('loyalty_settings')
+      .upsert({ ...settings, user_id: userId, updated_at: new Date().toISOString() }, { onConflict: 'user_id' });
+    if (error) throw error;
+  },
+  fetchLoyaltyTransactions: async (clientId) => {
+    const { data, error } = await supabase.from('loyalty_transactions').select('*').eq('client_id', clientId).order('created_at', { ascending: false });
+    if (error) throw error;
+    return data || [];
+  },
+  fetchLoyaltyBalance: fetchClientBalance,
+  // O saldo é reconfirmado no banco antes de cada resgate ou ajuste negativo
+  redeemLoyaltyReward: async (client, reward) => {
+    const refusal = redemptionError(reward, await fetchClientBalance(client.id!));
+    if (refusal) throw new Error(refusal);
+    return insertLoyaltyTransaction({
+      user_id: client.user_id,
+      client_id: client.id!,
+      points: -reward.points_cost,
+      kind: 'redeem',
+      description: `Resgate: ${reward.name}`,
+      reward_id: reward.id,
+    });
+  },
+  adjustLoyaltyPoints: async (client, points, description) => {
+    if (points < 0 && -points > await fetchClientBalance(client.id!)) throw new Error('O ajuste deixaria o saldo negativo.');
+    return insertLoyaltyTransaction({ user_id: client.user_id, client_id: client.id!, points, kind: 'adjustment', description });
+  },
+
+  // --- EXCEÇÕES DO ESTABELECIMENTO ---
+  businessExceptions: [],
+  fetchBusinessExceptions: async (userId) => {
+    set(state => ({ loading: { ...state.loading, businessExceptions: true } }));
+    const { data, error } = await supabase.from('business_exceptions').select('*').eq('user_id', userId).order('exception_date', { ascending: true });
+    if (error) console.error("Erro ao buscar exceções do estabelecimento:", error);
+    set({ businessExceptions: data || [], loading: { ...get().loading, businessExceptions: false } });
+  },
+
   // --- ESTADOS DE LOADING ---
   loading: {
     clients: true,
     products: true,
     services: true,
     professionals: true,
+    professionalSchedules: true,
+    professionalExceptions: true,
     appointments: true,
     financialEntries: true,
     businessHours: true,
+    businessExceptions: true,
+    clientChanges: true,
+    waitlist: true,
+    messageTemplates: true,
+    loyaltyRewards: true,
+    servicePackages: true,
+    membershipPlans: true,
+    memberships: true,
+    giftCards: true,
+    promotions: true,
   },
   setLoading: (key, value) => set((state) => ({
     loading: { ...state.loading, [key]: value }
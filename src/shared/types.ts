@@ -1,6 +1,8 @@
 // src/shared/types.ts
 
 import { z } from "zod";
+import { isValidCpf } from "./clients";
+import { MAX_OCCURRENCES, exceedsMaxOccurrences } from "./recurrence";
 
 // =================================================================
 // --- Schemas de Clientes ---
@@ -12,9 +14,54 @@ export const ClientSchema = z.object({
   phone: z.string().optional().nullable(),
   email: z.string().email({ message: "Email inválido" }).or(z.literal("")).optional().nullable(),
   notes: z.string().optional().nullable(),
+  birthday: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Data inválida").or(z.literal("")).optional().nullable(),
+  cpf: z.string().refine((cpf) => !cpf || isValidCpf(cpf), "CPF inválido").optional().nullable(), // Só os dígitos
+  address: z.string().max(300).optional().nullable(),
+  preferred_professional_id: z.number().optional().nullable(),
+  technical_notes: z.string().optional().nullable(), // Alergias, fórmula de coloração...
+  marketing_consent: z.boolean().optional(), // Falso por omissão no banco
+  tags: z.array(z.string().trim().min(1).max(40)).max(20, "Máximo de 20 etiquetas").optional(),
+  marketing_consent_at: z.string().optional().nullable(), // Última mudança do consentimento de marketing
+  privacy_consent_at: z.string().optional().nullable(),   // Autorização do tratamento dos dados (LGPD)
+  anonymized_at: z.string().optional().nullable(),        // Dados pessoais apagados a pedido do cliente
 });
 export const CreateClientSchema = ClientSchema.omit({ id: true, user_id: true });
 
+// Registo de auditoria da fusão de um cliente duplicado no cliente mantido
+export const ClientMergeSchema = z.object({
+  id: z.number().optional(),
+  user_id: z.string(),
+  surviving_client_id: z.number().nullable(),
+  merged_client_id: z.number(),
+  merged_client: ClientSchema, // Cópia do duplicado antes de ser excluído
+  appointment_ids: z.array(z.number()),
+  waitlist_entry_ids: z.array(z.number()),
+  note_ids: z.array(z.number()),
+  financial_entry_ids: z.array(z.number()),
+  merged_at: z.string().optional(),
+});
+
+// Pedido LGPD atendido: exportação, anonimização ou exclusão dos dados de um cliente
+export const DataSubjectRequestTypeSchema = z.enum(['export', 'anonymization', 'deletion']);
+
+export const DataSubjectRequestSchema = z.object({
+  id: z.number().optional(),
+  user_id: z.string(),
+  client_id: z.number(), // Sem chave estrangeira: o registo fica após a exclusão
+  request_type: DataSubjectRequestTypeSchema,
+  notes: z.string().optional().nullable(),
+  fulfilled_at: z.string().optional(),
+});
+
+// Anotação livre sobre o cliente, mostrada na linha do tempo da ficha
+export const ClientNoteSchema = z.object({
+  id: z.number().optional(),
+  user_id: z.string(),
+  client_id: z.number(),
+  note: z.string().trim().min(1, "A nota não pode ficar vazia").max(2000),
+  created_at: z.string().optional(),
+});
+
 
 // =================================================================
 // --- Schemas de Profissionais ---
@@ -27,6 +74,19 @@ export const ProfessionalSchema = z.object({
 });
 export const CreateProfessionalSchema = ProfessionalSchema.omit({ id: true, user_id: true });
 
+// Horário semanal: uma linha por profissional e dia da semana (0=domingo).
+// Horários nulos indicam que o profissional não trabalha nesse dia.
+export const ProfessionalScheduleSchema = z.object({
+  id: z.number().optional(),
+  user_id: z.string(),
+  professional_id: z.number(),
+  day_of_week: z.number().int().min(0).max(6),
+  start_time: z.string().nullable(),
+  end_time: z.string().nullable(),
+  lunch_start_time: z.string().optional().nullable(),
+  lunch_end_time: z.string().optional().nullable(),
+});
+
 
 // =================================================================
 // --- Schemas de Serviços ---
@@ -39,6 +99,7 @@ export const ServiceSchema = z.object({
   price: z.number().positive("O preço deve ser um número positivo"),
   duration: z.number().int().positive("A duração deve ser um número inteiro positivo (em minutos)"),
   color: z.string().regex(/^#[0-9a-fA-F]{6}$/, "Formato de cor inválido. Use hexadecimal, ex: #RRGGBB").optional().nullable(),
+  loyalty_points: z.number().int().min(0, "Os pontos não podem ser negativos").optional().nullable(), // Nulo: taxa por real do salão
 });
 export const CreateServiceSchema = ServiceSchema.omit({ id: true, user_id: true });
 
@@ -62,6 +123,37 @@ export const CreateProductSchema = ProductSchema.omit({ id: true, user_id: true
 // =================================================================
 // --- Schemas de Agendamentos ---
 // =================================================================
+// Ciclo de vida de um agendamento (ver `appointmentStatus.ts` para as transições permitidas)
+export const APPOINTMENT_STATUSES = [
+  'scheduled',
+  'confirmed',
+  'checked_in',
+  'in_service',
+  'completed',
+  'no_show',
+  'cancelled_by_client',
+  'cancelled_by_salon',
+] as const;
+export const AppointmentStatusSchema = z.enum(APPOINTMENT_STATUSES);
+
+// Origem do agendamento: criado na aplicação ou pela página pública de agendamento
+export const AppointmentSourceSchema = z.enum(['staff', 'online']);
+
+// Linha de serviço de um agendamento (corte, coloração, escova...), executada por ordem.
+// Sem profissional próprio, é feita pelo profissional do agendamento.
+export const AppointmentItemSchema = z.object({
+  id: z.number().optional(),
+  appointment_id: z.number().optional(),
+  service_id: z.number(),
+  service: z.string(),
+  price: z.number().int().min(0),   // Em centavos
+  duration: z.number().int().positive(), // Em minutos
+  professional_id: z.number().optional().nullable(),
+  position: z.number().int().min(0),
+  client_membership_id: z.number().optional().nullable(), // Incluída numa assinatura: preço zero
+  discount: z.number().int().min(0).optional(), // Desconto da promoção, já abatido em `price`
+});
+
 export const AppointmentSchema = z.object({
   id: z.number().optional(),
   user_id: z.string(),
@@ -73,20 +165,72 @@ export const AppointmentSchema = z.object({
   price: z.number(),
   appointment_date: z.string(),
   end_date: z.string(),
-  attended: z.boolean().default(false),
+  attended: z.boolean().default(false), // Mantido em sincronia com `status === 'completed'`
+  status: AppointmentStatusSchema.default('scheduled'),
+  series_id: z.number().optional().nullable(), // Série recorrente a que pertence
+  source: AppointmentSourceSchema.optional(), // 'online' quando criado pela página pública
+  items: z.array(AppointmentItemSchema).optional(), // `service_id`, `service` e `price` resumem as linhas
+  gross_price: z.number().int().optional().nullable(), // Antes do desconto; nulo nos agendamentos antigos
+  discount_amount: z.number().int().min(0).optional(),
+  promotion_id: z.number().optional().nullable(),
+  coupon_code: z.string().optional().nullable(),
+});
+
+export const CreateAppointmentSchema = AppointmentSchema.omit({ id: true, user_id: true });
+
+// Registo de cada mudança de status, com a data e o motivo
+export const AppointmentStatusChangeSchema = z.object({
+  id: z.number().optional(),
+  user_id: z.string(),
+  appointment_id: z.number(),
+  from_status: AppointmentStatusSchema.nullable(),
+  to_status: AppointmentStatusSchema,
+  reason: z.string().optional().nullable(),
+  changed_at: z.string(),
+});
+
+// Regra de recorrência: a cada N semanas ou meses, até uma data ou N ocorrências
+export const RecurrenceRuleSchema = z.object({
+  frequency: z.enum(['weekly', 'monthly']),
+  interval: z.number({ required_error: "Intervalo é obrigatório." }).int().min(1, "O intervalo deve ser pelo menos 1.").max(12, "O intervalo máximo é 12."),
+  day_of_month: z.number().int().min(1).max(31).optional().nullable(), // Só na recorrência mensal
+  end_type: z.enum(['until', 'count']),
+  until_date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Data final é obrigatória").optional().nullable(),
+  occurrences: z.number().int().min(2, "Mínimo de 2 ocorrências.").max(52, "Máximo de 52 ocorrências.").optional().nullable(),
+}).refine((data) => data.end_type !== 'until' || !!data.until_date, {
+  message: "Data final é obrigatória",
+  path: ["until_date"],
+}).refine((data) => data.end_type !== 'count' || !!data.occurrences, {
+  message: "Número de ocorrências é obrigatório",
+  path: ["occurrences"],
+});
+
+export const AppointmentItemFormSchema = z.object({
+  service_id: z.number({ required_error: "Serviço é obrigatório." }).min(1, "Serviço é obrigatório."),
+  professional_id: z.number().optional().nullable(),
+  price: z.number({ required_error: "Preço é obrigatório." }).positive("Preço deve ser positivo"),
+  duration: z.number({ required_error: "Duração é obrigatória." }).int().positive("A duração deve ser positiva"),
 });
 
 export const AppointmentFormSchema = z.object({
   client_id: z.number({ required_error: "Cliente é obrigatório." }).min(1, "Cliente é obrigatório."),
   professional_id: z.number({ required_error: "Profissional é obrigatório." }).min(1, "Profissional é obrigatório."),
-  service_id: z.number({ required_error: "Serviço é obrigatório." }).min(1, "Serviço é obrigatório."),
-  price: z.number().positive("Preço deve ser positivo"),
+  items: z.array(AppointmentItemFormSchema).min(1, "Adicione pelo menos um serviço."),
   appointment_date: z.date({ required_error: "A data de início é obrigatória." }),
   end_date: z.date({ required_error: "A data de fim é obrigatória." }),
   attended: z.boolean().default(false).optional(),
+  recurrence: RecurrenceRuleSchema.nullable().optional(), // Só na criação
 }).refine((data) => data.end_date > data.appointment_date, {
   message: "A data de fim deve ser posterior à data de início",
   path: ["end_date"],
+}).refine((data) => {
+  if (!data.recurrence) return true;
+  const start = data.appointment_date;
+  const firstDate = `${start.getFullYear()}-${String(start.getMonth() + 1).padStart(2, '0')}-${String(start.getDate()).padStart(2, '0')}`;
+  return !exceedsMaxOccurrences(data.recurrence, firstDate);
+}, {
+  message: `A série passaria de ${MAX_OCCURRENCES} ocorrências. Escolha uma data final mais próxima.`,
+  path: ["recurrence", "until_date"],
 });
 
 
@@ -108,6 +252,54 @@ export const FinancialEntrySchema = z.object({
 export const CreateFinancialEntrySchema = FinancialEntrySchema.omit({ id: true, user_id: true, is_virtual: true, appointment_id: true });
 
 
+// =================================================================
+// --- Schemas da Lista de Espera ---
+// =================================================================
+// waiting: à espera de vaga; matched: abriu uma vaga na janela do cliente;
+// booked: já foi agendado; cancelled: o cliente desistiu
+export const WaitlistStatusSchema = z.enum(['waiting', 'matched', 'booked', 'cancelled']);
+
+export const WaitlistEntrySchema = z.object({
+  id: z.number().optional(),
+  user_id: z.string(),
+  client_id: z.number({ required_error: "Selecione um cliente." }),
+  service_id: z.number({ required_error: "Selecione um serviço." }),
+  professional_id: z.number().optional().nullable(), // Nulo: qualquer profissional
+  start_date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Data é obrigatória"), // YYYY-MM-DD
+  end_date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Data é obrigatória"),   // YYYY-MM-DD
+  start_time: z.string().optional().nullable(), // Janela do dia; sem horas, qualquer horário
+  end_time: z.string().optional().nullable(),
+  notes: z.string().optional().nullable(),
+  status: WaitlistStatusSchema.default('waiting'),
+  matched_date: z.string().optional().nullable(),            // Início da vaga encontrada
+  matched_professional_id: z.number().optional().nullable(),
+  matched_at: z.string().optional().nullable(),
+  created_at: z.string().optional(),
+});
+export const CreateWaitlistEntrySchema = WaitlistEntrySchema.pick({
+  client_id: true,
+  service_id: true,
+  professional_id: true,
+  start_date: true,
+  end_date: true,
+  start_time: true,
+  end_time: true,
+  notes: true,
+})
+  .refine((data) => data.end_date >= data.start_date, {
+    message: "A data de fim deve ser igual ou posterior à data de início",
+    path: ["end_date"],
+  })
+  .refine((data) => !!data.start_time === !!data.end_time, {
+    message: "Preencha as duas horas ou deixe ambas vazias para qualquer horário",
+    path: ["end_time"],
+  })
+  .refine((data) => !data.start_time || !data.end_time || data.end_time > data.start_time, {
+    message: "A hora de fim deve ser posterior à hora de início",
+    path: ["end_time"],
+  });
+
+
 // =================================================================
 // --- Schemas de Configurações ---
 // =================================================================
@@ -117,13 +309,429 @@ export const BusinessHoursSchema = z.object({
   end_time: z.string().nullable(),
 });
 
+export const BusinessExceptionSchema = z.object({
+  id: z.number().optional(),
+  user_id: z.string(),
+  exception_date: z.string(), // YYYY-MM-DD
+  start_time: z.string().optional().nullable(), // null se fechado o dia inteiro
+  end_time: z.string().optional().nullable(),
+  description: z.string().min(1, "Descrição é obrigatória"),
+});
+
+// Ausência de um profissional (férias, folga, consulta...). Sem horário, cobre o dia inteiro.
+export const ProfessionalExceptionSchema = z.object({
+  id: z.number().optional(),
+  user_id: z.string(),
+  professional_id: z.number(),
+  start_date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Data é obrigatória"), // YYYY-MM-DD
+  end_date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Data é obrigatória"), // YYYY-MM-DD
+  start_time: z.string().optional().nullable(),
+  end_time: z.string().optional().nullable(),
+  description: z.string().min(1, "Descrição é obrigatória"),
+});
+export const CreateProfessionalExceptionSchema = ProfessionalExceptionSchema.omit({ id: true, user_id: true })
+  .refine((data) => data.end_date >= data.start_date, {
+    message: "A data de fim deve ser igual ou posterior à data de início",
+    path: ["end_date"],
+  })
+  .refine((data) => !!data.start_time === !!data.end_time, {
+    message: "Preencha as duas horas ou deixe ambas vazias para o dia inteiro",
+    path: ["end_time"],
+  })
+  .refine((data) => !data.start_time || !data.end_time || data.end_time > data.start_time, {
+    message: "A hora de fim deve ser posterior à hora de início",
+    path: ["end_time"],
+  });
+
+// Página pública de agendamento de um salão (uma linha por salão)
+export const BookingSettingsSchema = z.object({
+  id: z.number().optional(),
+  user_id: z.string(),
+  slug: z.string()
+    .min(3, "O endereço deve ter pelo menos 3 caracteres")
+    .regex(/^[a-z0-9]+(-[a-z0-9]+)*$/, "Use apenas letras minúsculas, números e hífens"),
+  salon_name: z.string().min(1, "Nome do salão é obrigatório"),
+  enabled: z.boolean(),
+  booking_window_days: z.number().int().min(1, "Mínimo de 1 dia").max(365, "Máximo de 365 dias"),
+  lead_time_minutes: z.number().int().min(0, "A antecedência não pode ser negativa"),
+  cancellation_notice_hours: z.number().int().min(0, "O prazo não pode ser negativo"),
+  cancellation_policy: z.string().max(1000).optional().nullable(), // Texto mostrado ao cliente
+  timezone: z.string().default('America/Sao_Paulo'),
+});
+export const BookingSettingsFormSchema = BookingSettingsSchema.omit({ id: true, user_id: true, timezone: true });
+
+// Alteração feita pelo cliente através do link de gestão, até ser vista pela equipa
+export const AppointmentChangeSchema = z.object({
+  id: z.number().optional(),
+  user_id: z.string(),
+  appointment_id: z.number(),
+  action: z.enum(['rescheduled', 'cancelled']),
+  previous_date: z.string().optional().nullable(),
+  new_date: z.string().optional().nullable(),
+  reason: z.string().optional().nullable(),
+  seen_at: z.string().optional().nullable(),
+  created_at: z.string(),
+});
+
+// Pedido de agendamento feito pela página pública (sem profissional: qualquer um livre)
+export const PublicBookingSchema = z.object({
+  service_id: z.number().int().positive("Selecione um serviço."),
+  professional_id: z.number().int().positive().optional().nullable(),
+  appointment_date: z.string().regex(/^\d{4}-\d{2}-\d{2} \d{2}:\d{2}:\d{2}$/, "Selecione um horário."),
+  client_name: z.string().trim().min(2, "Informe o seu nome.").max(100),
+  client_phone: z.string().trim().refine(phone => phone.replace(/\D/g, '').length >= 10, "Informe um telefone com DDD."),
+});
+
+// =================================================================
+// --- Schemas de Notificações ---
+// =================================================================
+export const NotificationChannelSchema = z.enum(['email', 'sms', 'whatsapp']);
+export const NotificationKindSchema = z.enum(['reminder', 'birthday', 'post_visit']);
+export const NotificationStatusSchema = z.enum(['pending', 'sent', 'failed']);
+
+// Lembretes automáticos do salão (uma linha por salão)
+export const NotificationSettingsSchema = z.object({
+  id: z.number().optional(),
+  user_id: z.string(),
+  reminders_enabled: z.boolean(),
+  channel: NotificationChannelSchema,
+  reminder_hours_before: z.number().int().min(1, "Mínimo de 1 hora").max(168, "Máximo de 168 horas (7 dias)"),
+});
+export const NotificationSettingsFormSchema = NotificationSettingsSchema.omit({ id: true, user_id: true });
+
+// Texto de uma mensagem, com marcadores como {{client_name}} (ver `shared/notifications.ts`)
+export const MessageTemplateSchema = z.object({
+  id: z.number().optional(),
+  user_id: z.string(),
+  kind: NotificationKindSchema,
+  channel: NotificationChannelSchema,
+  subject: z.string().max(200).optional().nullable(), // Só para e-mail
+  body: z.string().min(1, "A mensagem não pode ficar vazia").max(2000),
+});
+export const MessageTemplateFormSchema = MessageTemplateSchema.omit({ id: true, user_id: true });
+
+// Mensagem enviada (ou tentada) a um cliente
+export const NotificationSchema = z.object({
+  id: z.number().optional(),
+  user_id: z.string(),
+  appointment_id: z.number(),
+  kind: NotificationKindSchema,
+  channel: NotificationChannelSchema,
+  recipient: z.string().optional().nullable(),
+  subject: z.string().optional().nullable(),
+  body: z.string(),
+  status: NotificationStatusSchema,
+  provider: z.string().optional().nullable(),
+  provider_message_id: z.string().optional().nullable(),
+  error: z.string().optional().nullable(),
+  reference_date: z.string(), // Início do agendamento a que a mensagem se refere
+  sent_at: z.string().optional().nullable(),
+  created_at: z.string().optional(),
+});
+
+// =================================================================
+// --- Schemas de Fidelidade ---
+// =================================================================
+// Regras de acumulação de pontos do salão (uma linha por salão)
+export const LoyaltySettingsSchema = z.object({
+  id: z.number().optional(),
+  user_id: z.string(),
+  enabled: z.boolean(),
+  points_per_real: z.number({ invalid_type_error: "Informe os pontos por real" }).min(0, "A taxa não pode ser negativa").max(1000),
+});
+export const LoyaltySettingsFormSchema = LoyaltySettingsSchema.omit({ id: true, user_id: true });
+
+export const LoyaltyRewardTypeSchema = z.enum(['free_service', 'discount']);
+
+// Prêmio resgatável: um serviço grátis ou um desconto em centavos
+export const LoyaltyRewardSchema = z.object({
+  id: z.number().optional(),
+  user_id: z.string(),
+  name: z.string().trim().min(1, "Nome do prêmio é obrigatório").max(100),
+  points_cost: z.number({ invalid_type_error: "Informe os pontos" }).int().positive("O custo deve ser de pelo menos 1 ponto"),
+  reward_type: LoyaltyRewardTypeSchema,
+  service_id: z.number().optional().nullable(),
+  discount_amount: z.number().positive("O desconto deve ser positivo").optional().nullable(), // Em centavos
+  active: z.boolean(),
+});
+export const LoyaltyRewardFormSchema = LoyaltyRewardSchema.omit({ id: true, user_id: true })
+  .refine((data) => data.reward_type !== 'free_service' || !!data.service_id, {
+    message: "Selecione o serviço",
+    path: ["service_id"],
+  })
+  .refine((data) => data.reward_type !== 'discount' || !!data.discount_amount, {
+    message: "Informe o valor do desconto",
+    path: ["discount_amount"],
+  });
+
+// earn: ganhos num atendimento ou compra; redeem: resgate de um prêmio; adjustment: correção manual
+export const LoyaltyTransactionKindSchema = z.enum(['earn', 'redeem', 'adjustment']);
+
+export const LoyaltyTransactionSchema = z.object({
+  id: z.number().optional(),
+  user_id: z.string(),
+  client_id: z.number(),
+  points: z.number().int(), // Negativo nos resgates
+  kind: LoyaltyTransactionKindSchema,
+  description: z.string(),
+  appointment_id: z.number().optional().nullable(),
+  product_sale_id: z.number().optional().nullable(),
+  reward_id: z.number().optional().nullable(),
+  created_at: z.string().optional(),
+});
+
+// Venda de produtos no balcão; com cliente, rende pontos de fidelidade
+export const ProductSaleSchema = z.object({
+  id: z.number().optional(),
+  user_id: z.string(),
+  product_id: z.number().nullable(),
+  client_id: z.number().optional().nullable(),
+  product_name: z.string(),
+  quantity: z.number().int().positive(),
+  unit_price: z.number().int().min(0), // Em centavos
+  total: z.number().int().min(0),      // Em centavos
+  sold_at: z.string().optional(),
+});
+export const ProductSaleFormSchema = z.object({
+  quantity: z.number({ invalid_type_error: "Informe a quantidade" }).int().positive("A quantidade deve ser pelo menos 1"),
+  client_id: z.number().optional().nullable(),
+});
+
+// =================================================================
+// --- Schemas de Pacotes ---
+// =================================================================
+// Pacote de sessões pré-pagas; cada sessão vale para qualquer um dos serviços incluídos
+export const ServicePackageSchema = z.object({
+  id: z.number().optional(),
+  user_id: z.string(),
+  name: z.string().trim().min(1, "Nome do pacote é obrigatório").max(100),
+  description: z.string().optional().nullable(),
+  service_ids: z.array(z.number()).min(1, "Inclua pelo menos um serviço"),
+  sessions: z.number({ invalid_type_error: "Informe o número de sessões" }).int().positive("O pacote deve ter pelo menos 1 sessão").max(100, "Máximo de 100 sessões"),
+  price: z.number().positive("O preço deve ser um número positivo"),
+  validity_days: z.number().int().positive("A validade deve ser de pelo menos 1 dia").optional().nullable(), // Nulo: sem prazo
+  active: z.boolean(),
+});
+export const CreateServicePackageSchema = ServicePackageSchema.omit({ id: true, user_id: true });
+
+// Sessão de um pacote consumida por uma linha de um atendimento concluído
+export const PackageSessionUseSchema = z.object({
+  id: z.number().optional(),
+  user_id: z.string(),
+  client_package_id: z.number(),
+  appointment_id: z.number(),
+  service_id: z.number(),
+  used_at: z.string().optional(),
+});
+
+// Pacote vendido a um cliente, com as condições do momento da venda
+export const ClientPackageSchema = z.object({
+  id: z.number().optional(),
+  user_id: z.string(),
+  client_id: z.number(),
+  package_id: z.number().optional().nullable(),
+  package_name: z.string(),
+  service_ids: z.array(z.number()),
+  sessions_total: z.number().int().positive(),
+  price: z.number().int().min(0), // Em centavos
+  purchased_at: z.string().optional(),
+  expires_at: z.string().optional().nullable(), // YYYY-MM-DD, último dia de uso
+  uses: z.array(PackageSessionUseSchema).optional(),
+});
+
+// =================================================================
+// --- Schemas de Assinaturas ---
+// =================================================================
+// Plano mensal; os serviços incluídos ficam sem custo até ao limite de usos do ciclo
+export const MembershipPlanSchema = z.object({
+  id: z.number().optional(),
+  user_id: z.string(),
+  name: z.string().trim().min(1, "Nome do plano é obrigatório").max(100),
+  description: z.string().optional().nullable(),
+  service_ids: z.array(z.number()).min(1, "Inclua pelo menos um serviço"),
+  usage_limit: z.number().int().positive("O limite deve ser de pelo menos 1 uso").max(100).optional().nullable(), // Nulo: ilimitado
+  monthly_price: z.number().positive("A mensalidade deve ser um número positivo"),
+  active: z.boolean(),
+});
+export const CreateMembershipPlanSchema = MembershipPlanSchema.omit({ id: true, user_id: true });
+
+export const MembershipStatusSchema = z.enum(['active', 'paused', 'cancelled']);
+
+// Linha de agendamento coberta pela assinatura, com a data e o status do agendamento
+export const MembershipUseSchema = z.object({
+  appointment_id: z.number(),
+  appointment: z.object({
+    appointment_date: z.string(),
+    status: AppointmentStatusSchema.optional().nullable(),
+  }).optional().nullable(),
+});
+
+// Assinatura de um cliente, com as condições do plano no momento da adesão
+export const ClientMembershipSchema = z.object({
+  id: z.number().optional(),
+  user_id: z.string(),
+  client_id: z.number(),
+  plan_id: z.number().optional().nullable(),
+  plan_name: z.string(),
+  service_ids: z.array(z.number()),
+  usage_limit: z.number().int().positive().optional().nullable(),
+  monthly_price: z.number().int().positive(), // Em centavos
+  status: MembershipStatusSchema,
+  started_at: z.string(), // YYYY-MM-DD; o dia do mês marca o início de cada ciclo
+  paused_at: z.string().optional().nullable(),
+  cancelled_at: z.string().optional().nullable(),
+  uses: z.array(MembershipUseSchema).optional(),
+});
+
+// Mensalidade lançada para um ciclo
+export const MembershipBillingSchema = z.object({
+  id: z.number().optional(),
+  user_id: z.string(),
+  client_membership_id: z.number(),
+  period_start: z.string(),
+  amount: z.number().int().positive(),
+  financial_entry_id: z.number().optional().nullable(),
+  created_at: z.string().optional(),
+});
+
+// =================================================================
+// --- Schemas de Vales-presente ---
+// =================================================================
+export const GiftCardTransactionKindSchema = z.enum(['issue', 'redeem', 'refund']);
+
+// Movimento do extrato de um vale; o saldo é a soma dos movimentos
+export const GiftCardTransactionSchema = z.object({
+  id: z.number().optional(),
+  user_id: z.string(),
+  gift_card_id: z.number(),
+  amount: z.number().int(), // Em centavos; negativo nos usos
+  kind: GiftCardTransactionKindSchema,
+  appointment_id: z.number().optional().nullable(),
+  description: z.string(),
+  created_at: z.string().optional(),
+});
+
+export const GiftCardSchema = z.object({
+  id: z.number().optional(),
+  user_id: z.string(),
+  code: z.string(),
+  initial_amount: z.number().int().positive(), // Em centavos
+  client_id: z.number().optional().nullable(), // Cliente que comprou
+  recipient_name: z.string().optional().nullable(),
+  message: z.string().optional().nullable(),
+  expires_at: z.string().optional().nullable(), // YYYY-MM-DD, último dia de uso
+  sold_at: z.string().optional(),
+  transactions: z.array(GiftCardTransactionSchema).optional(),
+});
+
+// Formulário de venda (valor em reais)
+export const GiftCardFormSchema = z.object({
+  amount: z.number({ invalid_type_error: "Informe o valor" }).positive("O valor deve ser positivo"),
+  client_id: z.number().optional().nullable(),
+  recipient_name: z.string().trim().max(100).optional(),
+  message: z.string().trim().max(300).optional(),
+  expires_at: z.string().optional().nullable(),
+});
+
+// =================================================================
+// --- Schemas de Promoções ---
+// =================================================================
+export const DiscountTypeSchema = z.enum(['percent', 'fixed']);
+
+// Regra automática ou, com código, cupom. Critérios vazios ou nulos não restringem.
+export const PromotionSchema = z.object({
+  id: z.number().optional(),
+  user_id: z.string(),
+  name: z.string().trim().min(1, "Nome da promoção é obrigatório").max(100),
+  code: z.string().trim().max(30).optional().nullable(), // Nulo: aplicada automaticamente
+  discount_type: DiscountTypeSchema,
+  discount_value: z.number().positive("O desconto deve ser positivo"), // Percentagem ou centavos
+  service_ids: z.array(z.number()),
+  client_tags: z.array(z.string()),
+  weekdays: z.array(z.number().int().min(0).max(6)), // 0 = domingo
+  start_time: z.string().optional().nullable(), // HH:mm
+  end_time: z.string().optional().nullable(),
+  valid_from: z.string().optional().nullable(), // YYYY-MM-DD
+  valid_until: z.string().optional().nullable(),
+  active: z.boolean(),
+});
+
+// Formulário (desconto fixo em reais)
+export const CreatePromotionSchema = PromotionSchema.omit({ id: true, user_id: true })
+  .refine((data) => data.discount_type !== 'percent' || data.discount_value <= 100, {
+    message: "A percentagem máxima é 100",
+    path: ["discount_value"],
+  })
+  .refine((data) => !data.start_time || !data.end_time || data.start_time < data.end_time, {
+    message: "O horário final deve ser posterior ao inicial",
+    path: ["end_time"],
+  })
+  .refine((data) => !data.valid_from || !data.valid_until || data.valid_from <= data.valid_until, {
+    message: "A data final deve ser posterior à inicial",
+    path: ["valid_until"],
+  });
+
 // =================================================================
 // --- Tipos Derivados ---
 // =================================================================
 export type ClientType = z.infer<typeof ClientSchema>;
+export type CreateClientData = z.infer<typeof CreateClientSchema>;
+export type ClientNoteType = z.infer<typeof ClientNoteSchema>;
+export type ClientMergeType = z.infer<typeof ClientMergeSchema>;
+export type DataSubjectRequestType = z.infer<typeof DataSubjectRequestSchema>;
+export type DataSubjectRequestKind = z.infer<typeof DataSubjectRequestTypeSchema>;
 export type ProfessionalType = z.infer<typeof ProfessionalSchema>;
+export type ProfessionalScheduleType = z.infer<typeof ProfessionalScheduleSchema>;
 export type ServiceType = z.infer<typeof ServiceSchema>;
 export type ProductType = z.infer<typeof ProductSchema>;
 export type AppointmentType = z.infer<typeof AppointmentSchema>;
+export type AppointmentItemType = z.infer<typeof AppointmentItemSchema>;
+export type AppointmentStatus = z.infer<typeof AppointmentStatusSchema>;
+export type AppointmentStatusChangeType = z.infer<typeof AppointmentStatusChangeSchema>;
+export type RecurrenceRuleType = z.infer<typeof RecurrenceRuleSchema>;
 export type FinancialEntryType = z.infer<typeof FinancialEntrySchema>;
 export type BusinessHoursType = z.infer<typeof BusinessHoursSchema>;
+export type BusinessExceptionType = z.infer<typeof BusinessExceptionSchema>;
+export type ProfessionalExceptionType = z.infer<typeof ProfessionalExceptionSchema>;
+export type AppointmentSource = z.infer<typeof AppointmentSourceSchema>;
+export type BookingSettingsType = z.infer<typeof BookingSettingsSchema>;
+export type BookingSettingsFormData = z.infer<typeof BookingSettingsFormSchema>;
+export type PublicBookingData = z.infer<typeof PublicBookingSchema>;
+export type AppointmentChangeType = z.infer<typeof AppointmentChangeSchema>;
+export type WaitlistStatus = z.infer<typeof WaitlistStatusSchema>;
+export type WaitlistEntryType = z.infer<typeof WaitlistEntrySchema>;
+export type CreateWaitlistEntryData = z.infer<typeof CreateWaitlistEntrySchema>;
+export type NotificationChannel = z.infer<typeof NotificationChannelSchema>;
+export type NotificationKind = z.infer<typeof NotificationKindSchema>;
+export type NotificationStatus = z.infer<typeof NotificationStatusSchema>;
+export type NotificationSettingsType = z.infer<typeof NotificationSettingsSchema>;
+export type NotificationSettingsFormData = z.infer<typeof NotificationSettingsFormSchema>;
+export type MessageTemplateType = z.infer<typeof MessageTemplateSchema>;
+export type MessageTemplateFormData = z.infer<typeof MessageTemplateFormSchema>;
+export type NotificationType = z.infer<typeof NotificationSchema>;
+export type LoyaltySettingsType = z.infer<typeof LoyaltySettingsSchema>;
+export type LoyaltySettingsFormData = z.infer<typeof LoyaltySettingsFormSchema>;
+export type LoyaltyRewardKind = z.infer<typeof LoyaltyRewardTypeSchema>;
+export type LoyaltyRewardType = z.infer<typeof LoyaltyRewardSchema>;
+export type LoyaltyRewardFormData = z.infer<typeof LoyaltyRewardFormSchema>;
+export type LoyaltyTransactionKind = z.infer<typeof LoyaltyTransactionKindSchema>;
+export type LoyaltyTransactionType = z.infer<typeof LoyaltyTransactionSchema>;
+export type ProductSaleType = z.infer<typeof ProductSaleSchema>;
+export type ProductSaleFormData = z.infer<typeof ProductSaleFormSchema>;
+export type ServicePackageType = z.infer<typeof ServicePackageSchema>;
+export type CreateServicePackageData = z.infer<typeof CreateServicePackageSchema>;
+export type ClientPackageType = z.infer<typeof ClientPackageSchema>;
+export type PackageSessionUseType = z.infer<typeof PackageSessionUseSchema>;
+export type MembershipPlanType = z.infer<typeof MembershipPlanSchema>;
+export type CreateMembershipPlanData = z.infer<typeof CreateMembershipPlanSchema>;
+export type MembershipStatus = z.infer<typeof MembershipStatusSchema>;
+export type MembershipUseType = z.infer<typeof MembershipUseSchema>;
+export type ClientMembershipType = z.infer<typeof ClientMembershipSchema>;
+export type MembershipBillingType = z.infer<typeof MembershipBillingSchema>;
+export type GiftCardTransactionKind = z.infer<typeof GiftCardTransactionKindSchema>;
+export type GiftCardTransactionType = z.infer<typeof GiftCardTransactionSchema>;
+export type GiftCardType = z.infer<typeof GiftCardSchema>;
+export type GiftCardFormData = z.infer<typeof GiftCardFormSchema>;
+export type DiscountType = z.infer<typeof DiscountTypeSchema>;
+export type PromotionType = z.infer<typeof PromotionSchema>;
+export type CreatePromotionData = z.infer<typeof CreatePromotionSchema>;
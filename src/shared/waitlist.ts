@@ -0,0 +1,120 @@
+// src/shared/waitlist.ts
+
+/**
+ * Lista de espera para dias sem horários livres.
+ *
+ * Quando um agendamento é cancelado ou excluído, cada intervalo que ele ocupava
+ * (ver `appointmentSegments`) passa a ser uma vaga. Um pedido da lista de espera
+ * corresponde à vaga se estiver à espera, se a data estiver no seu período, se o
+ * profissional for o preferido (ou qualquer um) e se o serviço couber na vaga
+ * dentro da sua janela de horário. Os pedidos mais antigos têm prioridade e cada
+ * vaga só serve os pedidos que cabem no tempo libertado.
+ */
+
+import type { WaitlistEntryType, WaitlistStatus } from './types';
+import type { AvailabilityAppointment } from './availability';
+import { splitDateTime, toMinutes } from './availability';
+import { occupiesSlot } from './appointmentStatus';
+import { appointmentSegments } from './appointmentItems';
+import type { ItemizedAppointment } from './appointmentItems';
+import { atMinutes } from './recurrence';
+
+export type FreedSlot = Pick<AvailabilityAppointment, 'professional_id' | 'appointment_date' | 'end_date'>;
+
+export type WaitlistCandidate = Pick<
+  WaitlistEntryType,
+  'status' | 'service_id' | 'professional_id' | 'start_date' | 'end_date' | 'start_time' | 'end_time' | 'created_at'
+> & { id?: number };
+
+export interface WaitlistMatch<T extends WaitlistCandidate> {
+  entry: T;
+  slot: FreedSlot; // Parte da vaga reservada ao pedido, com a duração do serviço
+}
+
+export const WAITLIST_STATUS_LABELS: Record<WaitlistStatus, string> = {
+  waiting: 'Aguardando',
+  matched: 'Vaga disponível',
+  booked: 'Agendado',
+  cancelled: 'Desistiu',
+};
+
+export const WAITLIST_BADGE_CLASSES: Record<WaitlistStatus, string> = {
+  waiting: 'bg-gray-100 text-gray-700',
+  matched: 'bg-amber-100 text-amber-800',
+  booked: 'bg-green-100 text-green-800',
+  cancelled: 'bg-red-100 text-red-700',
+};
+
+/**
+ * Vagas libertadas por agendamentos cancelados ou excluídos, com o status que tinham
+ * antes da mudança. Só contam os que ocupavam o horário e que ainda não começaram.
+ */
+export function freedSlots(appointments: ItemizedAppointment[], now: string): FreedSlot[] {
+  return appointments
+    .filter(appointment => occupiesSlot(appointment.status ?? 'scheduled'))
+    .flatMap(appointmentSegments)
+    .filter(segment => segment.appointment_date > now);
+}
+
+// Primeiro minuto da vaga, dentro da janela de horário do cliente, em que o serviço cabe (ou null)
+const fittingStart = (entry: WaitlistCandidate, slot: FreedSlot, duration: number): number | null => {
+  if (entry.status !== 'waiting') return null;
+  if (entry.professional_id && entry.professional_id !== slot.professional_id) return null;
+
+  const start = splitDateTime(slot.appointment_date);
+  const end = splitDateTime(slot.end_date);
+  if (start.date < entry.start_date || start.date > entry.end_date) return null;
+
+  // Parte da vaga que cai na janela de horário do cliente
+  const from = Math.max(start.minutes, entry.start_time ? toMinutes(entry.start_time) : 0);
+  const to = Math.min(end.date === start.date ? end.minutes : 24 * 60, entry.end_time ? toMinutes(entry.end_time) : 24 * 60);
+  return to - from >= duration ? from : null;
+};
+
+/**
+ * Verifica se uma vaga serve a um pedido da lista de espera.
+ * `duration` é a duração do serviço pedido, em minutos.
+ */
+export function matchesWaitlistEntry(entry: WaitlistCandidate, slot: FreedSlot, duration: number): boolean {
+  return fittingStart(entry, slot, duration) !== null;
+}
+
+// Mais antigos primeiro; sem data de criação, pela ordem dos ids
+const byPriority = (a: WaitlistCandidate, b: WaitlistCandidate) =>
+  (a.created_at ?? '').localeCompare(b.created_at ?? '') || (a.id ?? 0) - (b.id ?? 0);
+
+/**
+ * Encontra os pedidos servidos pelas vagas libertadas, dos mais antigos para os mais recentes.
+ * Cada pedido fica com a parte da vaga que o serviço ocupa e o resto da vaga continua livre
+ * para os pedidos seguintes; as durações vêm do catálogo de serviços.
+ */
+export function findWaitlistMatches<T extends WaitlistCandidate>(
+  entries: T[],
+  slots: FreedSlot[],
+  serviceDuration: (serviceId: number) => number | undefined
+): WaitlistMatch<T>[] {
+  const free = [...slots];
+  const matches: WaitlistMatch<T>[] = [];
+  [...entries].sort(byPriority).forEach(entry => {
+    const duration = serviceDuration(entry.service_id);
+    if (duration === undefined) return;
+    const index = free.findIndex(s => matchesWaitlistEntry(entry, s, duration));
+    if (index < 0) return;
+
+    const slot = free[index];
+    const from = fittingStart(entry, slot, duration)!;
+    const start = splitDateTime(slot.appointment_date);
+    const end = splitDateTime(slot.end_date);
+    const taken = {
+      professional_id: slot.professional_id,
+      appointment_date: atMinutes(start.date, from),
+      end_date: atMinutes(start.date, from + duration),
+    };
+    const rest: FreedSlot[] = [];
+    if (from > start.minutes) rest.push({ ...slot, end_date: taken.appointment_date });
+    if (end.date !== start.date || from + duration < end.minutes) rest.push({ ...slot, appointment_date: taken.end_date });
+    free.splice(index, 1, ...rest);
+    matches.push({ entry, slot: taken });
+  });
+  return matches;
+}
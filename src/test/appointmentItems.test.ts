@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import { appointmentSegments, checkAppointmentAvailability, expandAppointments, itemsTotals, summarizeItems } from '../shared/appointmentItems';
+import type { AvailabilityContext } from '../shared/availability';
+
+const MONDAY = '2024-01-15';
+
+const schedule = (professional_id: number) => ({
+  professional_id, day_of_week: 1, start_time: '09:00', end_time: '18:00', lunch_start_time: null, lunch_end_time: null,
+});
+
+const baseContext = (overrides: Partial<AvailabilityContext> = {}): AvailabilityContext => ({
+  businessHours: [],
+  schedules: [schedule(1), schedule(2)],
+  businessExceptions: [],
+  professionalExceptions: [],
+  appointments: [],
+  ...overrides,
+});
+
+// Corte (30 min, profissional 1) + coloração (60 min, profissional 2) + escova (30 min, profissional 1)
+const combo = {
+  id: 7,
+  professional_id: 1,
+  client_name: 'Ana',
+  appointment_date: `${MONDAY} 10:00:00`,
+  end_date: `${MONDAY} 12:00:00`,
+  items: [
+    { service: 'Escova', duration: 30, professional_id: null, position: 2 },
+    { service: 'Corte', duration: 30, professional_id: null, position: 0 },
+    { service: 'Coloração', duration: 60, professional_id: 2, position: 1 },
+  ],
+};
+
+describe('Appointment items', () => {
+  it('should total the price and duration of the items', () => {
+    expect(itemsTotals([{ price: 5000, duration: 30 }, { price: 12000, duration: 60 }])).toEqual({ price: 17000, duration: 90 });
+  });
+
+  it('should summarize the services in order', () => {
+    expect(summarizeItems(combo.items)).toBe('Corte + Coloração + Escova');
+  });
+
+  describe('appointmentSegments', () => {
+    it('should occupy the main professional for the whole appointment and the other only during their item', () => {
+      const whole = { id: 7, professional_id: 1, client_name: 'Ana', appointment_date: combo.appointment_date, end_date: combo.end_date };
+      expect(appointmentSegments(combo)).toEqual([
+        whole,
+        { ...whole, professional_id: 2, service: 'Coloração', appointment_date: `${MONDAY} 10:30:00`, end_date: `${MONDAY} 11:30:00` },
+      ]);
+    });
+
+    it('should end the last item at the end of a resized appointment', () => {
+      const resized = { ...combo, end_date: `${MONDAY} 12:15:00`, items: [combo.items[1], { ...combo.items[2], position: 1 }] };
+      const segments = appointmentSegments(resized);
+      expect(segments[1]).toMatchObject({ professional_id: 2, appointment_date: `${MONDAY} 10:30:00`, end_date: `${MONDAY} 12:15:00` });
+    });
+  });
+
+  describe('checkAppointmentAvailability', () => {
+    it('should reject a combo when a second professional is busy during their item', () => {
+      const busy = { id: 20, professional_id: 2, appointment_date: `${MONDAY} 11:00:00`, end_date: `${MONDAY} 11:30:00` };
+      const result = checkAppointmentAvailability(baseContext({ appointments: [busy] }), combo);
+      expect(result).toMatchObject({ available: false, reason: 'appointment_conflict', conflict: busy });
+    });
+
+    it('should allow the second professional to work outside their item', () => {
+      const context = baseContext({ appointments: expandAppointments([combo]) });
+      const result = checkAppointmentAvailability(context, { professional_id: 2, appointment_date: `${MONDAY} 11:30:00`, end_date: `${MONDAY} 12:00:00` });
+      expect(result.available).toBe(true);
+    });
+
+    it('should ignore its own segments when editing', () => {
+      const context = baseContext({ appointments: expandAppointments([combo]) });
+      expect(checkAppointmentAvailability(context, combo).available).toBe(true);
+    });
+  });
+});
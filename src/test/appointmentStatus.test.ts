@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import { canTransition, computeStatusKpis, occupiesSlot, requiresReason, STATUS_TRANSITIONS } from '../shared/appointmentStatus';
+import { APPOINTMENT_STATUSES } from '../shared/types';
+
+describe('Appointment status', () => {
+  describe('canTransition', () => {
+    it('should follow the lifecycle from scheduled to completed', () => {
+      expect(canTransition('scheduled', 'confirmed')).toBe(true);
+      expect(canTransition('confirmed', 'checked_in')).toBe(true);
+      expect(canTransition('checked_in', 'in_service')).toBe(true);
+      expect(canTransition('in_service', 'completed')).toBe(true);
+    });
+
+    it('should reject skipping back or jumping ahead', () => {
+      expect(canTransition('scheduled', 'completed')).toBe(false);
+      expect(canTransition('completed', 'no_show')).toBe(false);
+      expect(canTransition('cancelled_by_client', 'completed')).toBe(false);
+    });
+
+    it('should define transitions only to known statuses', () => {
+      Object.values(STATUS_TRANSITIONS).flat().forEach(status => expect(APPOINTMENT_STATUSES).toContain(status));
+    });
+  });
+
+  it('should require a reason for cancellations and no-shows', () => {
+    expect(requiresReason('cancelled_by_salon')).toBe(true);
+    expect(requiresReason('no_show')).toBe(true);
+    expect(requiresReason('confirmed')).toBe(false);
+  });
+
+  it('should free the slot only for cancelled and no-show appointments', () => {
+    expect(occupiesSlot(undefined)).toBe(true);
+    expect(occupiesSlot('in_service')).toBe(true);
+    expect(occupiesSlot('no_show')).toBe(false);
+    expect(occupiesSlot('cancelled_by_client')).toBe(false);
+  });
+
+  describe('computeStatusKpis', () => {
+    it('should compute the no-show rate over resolved appointments only', () => {
+      const kpis = computeStatusKpis([
+        { status: 'completed' },
+        { status: 'completed' },
+        { status: 'completed' },
+        { status: 'no_show' },
+        { status: 'scheduled' },
+        { status: 'cancelled_by_client' },
+      ]);
+      expect(kpis).toEqual({ total: 6, completed: 3, noShows: 1, cancelled: 1, noShowRate: 0.25, cancellationRate: 1 / 6 });
+    });
+
+    it('should return zero rates without appointments', () => {
+      expect(computeStatusKpis([])).toMatchObject({ noShowRate: 0, cancellationRate: 0 });
+    });
+  });
+});
@@ -0,0 +1,182 @@
+import { describe, it, expect } from 'vitest';
+import { getAvailableSlots, checkAvailability, getBlockedIntervals, describeUnavailability, AppointmentConflictError } from '../shared/availability';
+import type { AvailabilityContext } from '../shared/availability';
+
+// 2024-01-15 é uma segunda-feira (day_of_week = 1)
+const MONDAY = '2024-01-15';
+
+const baseContext = (overrides: Partial<AvailabilityContext> = {}): AvailabilityContext => ({
+  businessHours: [],
+  schedules: [
+    { professional_id: 1, day_of_week: 1, start_time: '09:00:00', end_time: '12:00:00', lunch_start_time: null, lunch_end_time: null },
+  ],
+  businessExceptions: [],
+  professionalExceptions: [],
+  appointments: [],
+  ...overrides,
+});
+
+describe('Availability', () => {
+  describe('getAvailableSlots', () => {
+    it('should generate slots within the professional schedule', () => {
+      const result = getAvailableSlots(baseContext(), { date: MONDAY, professionalId: 1, duration: 60 });
+      expect(result.reason).toBeNull();
+      expect(result.slots).toEqual(['09:00', '09:30', '10:00', '10:30', '11:00']);
+    });
+
+    it('should report a day off when the professional does not work on that weekday', () => {
+      const result = getAvailableSlots(baseContext(), { date: '2024-01-16', professionalId: 1, duration: 30 });
+      expect(result.slots).toEqual([]);
+      expect(result.reason).toBe('day_off');
+    });
+
+    it('should report a missing schedule', () => {
+      const result = getAvailableSlots(baseContext(), { date: MONDAY, professionalId: 2, duration: 30 });
+      expect(result.reason).toBe('no_schedule');
+    });
+
+    it('should clamp the day to the business hours', () => {
+      const context = baseContext({ businessHours: [{ day_of_week: 1, start_time: '10:00:00', end_time: '18:00:00' }] });
+      const result = getAvailableSlots(context, { date: MONDAY, professionalId: 1, duration: 60 });
+      expect(result.slots).toEqual(['10:00', '10:30', '11:00']);
+    });
+
+    it('should close the salon on days without business hours', () => {
+      const context = baseContext({ businessHours: [{ day_of_week: 2, start_time: '09:00:00', end_time: '18:00:00' }] });
+      const result = getAvailableSlots(context, { date: MONDAY, professionalId: 1, duration: 30 });
+      expect(result.reason).toBe('salon_closed');
+    });
+
+    it('should honour business exceptions', () => {
+      const closed = baseContext({ businessExceptions: [{ exception_date: MONDAY, start_time: null, end_time: null, description: 'Feriado' }] });
+      const closedResult = getAvailableSlots(closed, { date: MONDAY, professionalId: 1, duration: 30 });
+      expect(closedResult.reason).toBe('salon_closed');
+      expect(closedResult.description).toBe('Feriado');
+
+      const special = baseContext({ businessExceptions: [{ exception_date: MONDAY, start_time: '10:00', end_time: '11:00', description: 'Meio período' }] });
+      expect(getAvailableSlots(special, { date: MONDAY, professionalId: 1, duration: 30 }).slots).toEqual(['10:00', '10:30']);
+    });
+
+    it('should remove lunch, absences and existing appointments', () => {
+      const context = baseContext({
+        schedules: [
+          { professional_id: 1, day_of_week: 1, start_time: '09:00', end_time: '14:00', lunch_start_time: '12:00', lunch_end_time: '13:00' },
+        ],
+        professionalExceptions: [
+          { professional_id: 1, start_date: MONDAY, end_date: MONDAY, start_time: '13:00', end_time: '14:00', description: 'Médico' },
+        ],
+        appointments: [
+          { id: 10, professional_id: 1, appointment_date: `${MONDAY} 10:00:00`, end_date: `${MONDAY} 11:00:00` },
+          { id: 11, professional_id: 2, appointment_date: `${MONDAY} 09:00:00`, end_date: `${MONDAY} 10:00:00` },
+        ],
+      });
+      const result = getAvailableSlots(context, { date: MONDAY, professionalId: 1, duration: 30 });
+      expect(result.slots).toEqual(['09:00', '09:30', '11:00', '11:30']);
+
+      const editing = getAvailableSlots(context, { date: MONDAY, professionalId: 1, duration: 30, ignoreAppointmentId: 10 });
+      expect(editing.slots).toContain('10:00');
+    });
+
+    it('should block the whole day for a full-day absence', () => {
+      const context = baseContext({
+        professionalExceptions: [
+          { professional_id: 1, start_date: '2024-01-10', end_date: '2024-01-20', start_time: null, end_time: null, description: 'Férias' },
+        ],
+      });
+      const result = getAvailableSlots(context, { date: MONDAY, professionalId: 1, duration: 30 });
+      expect(result.reason).toBe('professional_absent');
+    });
+
+    it('should skip slots that have already passed', () => {
+      const result = getAvailableSlots(baseContext(), { date: MONDAY, professionalId: 1, duration: 30, now: `${MONDAY} 10:15` });
+      expect(result.slots).toEqual(['10:30', '11:00', '11:30']);
+    });
+  });
+
+  describe('checkAvailability', () => {
+    it('should accept a free interval', () => {
+      const result = checkAvailability(baseContext(), { professional_id: 1, appointment_date: `${MONDAY} 09:00:00`, end_date: `${MONDAY} 10:00:00` });
+      expect(result.available).toBe(true);
+    });
+
+    it('should report the conflicting appointment', () => {
+      const existing = { id: 10, professional_id: 1, appointment_date: `${MONDAY}T10:00:00`, end_date: `${MONDAY}T11:00:00` };
+      const result = checkAvailability(baseContext({ appointments: [existing] }), {
+        professional_id: 1, appointment_date: `${MONDAY} 10:30:00`, end_date: `${MONDAY} 11:30:00`,
+      });
+      expect(result).toEqual({ available: false, reason: 'appointment_conflict', conflict: existing });
+    });
+
+    it('should ignore the appointment being edited', () => {
+      const existing = { id: 10, professional_id: 1, appointment_date: `${MONDAY} 10:00:00`, end_date: `${MONDAY} 11:00:00` };
+      const result = checkAvailability(baseContext({ appointments: [existing] }), { ...existing, end_date: `${MONDAY} 11:30:00` });
+      expect(result.available).toBe(true);
+    });
+
+    it('should ignore cancelled and no-show appointments', () => {
+      const cancelled = { id: 10, professional_id: 1, appointment_date: `${MONDAY} 10:00:00`, end_date: `${MONDAY} 11:00:00`, status: 'cancelled_by_client' as const };
+      const noShow = { ...cancelled, id: 11, status: 'no_show' as const };
+      const result = checkAvailability(baseContext({ appointments: [cancelled, noShow] }), {
+        professional_id: 1, appointment_date: `${MONDAY} 10:00:00`, end_date: `${MONDAY} 11:00:00`,
+      });
+      expect(result.available).toBe(true);
+    });
+
+    it('should reject intervals outside the working hours', () => {
+      const result = checkAvailability(baseContext(), { professional_id: 1, appointment_date: `${MONDAY} 11:30:00`, end_date: `${MONDAY} 12:30:00` });
+      expect(result).toMatchObject({ available: false, reason: 'outside_hours' });
+    });
+  });
+
+  describe('getBlockedIntervals', () => {
+    it('should block time outside the schedule, lunch and absences', () => {
+      const context = baseContext({
+        schedules: [
+          { professional_id: 1, day_of_week: 1, start_time: '09:00', end_time: '18:00', lunch_start_time: '12:00', lunch_end_time: '13:00' },
+        ],
+        professionalExceptions: [
+          { professional_id: 1, start_date: MONDAY, end_date: MONDAY, start_time: '16:00', end_time: '17:00', description: 'Médico' },
+        ],
+      });
+      expect(getBlockedIntervals(context, { date: MONDAY, professionalId: 1 })).toEqual([
+        { start: 0, end: 540, reason: 'outside_hours' },
+        { start: 720, end: 780, reason: 'lunch' },
+        { start: 960, end: 1020, reason: 'absence', description: 'Médico' },
+        { start: 1080, end: 1440, reason: 'outside_hours' },
+      ]);
+    });
+
+    it('should block the whole day when the salon is closed', () => {
+      const context = baseContext({ businessExceptions: [{ exception_date: MONDAY, start_time: null, end_time: null, description: 'Feriado' }] });
+      expect(getBlockedIntervals(context, { date: MONDAY })).toEqual([
+        { start: 0, end: 1440, reason: 'salon_closed', description: 'Feriado' },
+      ]);
+    });
+
+    it('should only use the business hours when no professional is given', () => {
+      const context = baseContext({ businessHours: [{ day_of_week: 1, start_time: '08:00', end_time: '20:00' }] });
+      expect(getBlockedIntervals(context, { date: MONDAY })).toEqual([
+        { start: 0, end: 480, reason: 'outside_hours' },
+        { start: 1200, end: 1440, reason: 'outside_hours' },
+      ]);
+    });
+  });
+
+  describe('describeUnavailability', () => {
+    it('should include the description when present', () => {
+      expect(describeUnavailability('salon_closed', 'Natal')).toBe('O estabelecimento está fechado neste dia (Natal).');
+      expect(describeUnavailability('lunch')).toBe('O horário coincide com o almoço do profissional.');
+    });
+  });
+
+  describe('AppointmentConflictError', () => {
+    it('should carry the reason and the conflicting appointment', () => {
+      const conflict = { id: 10, professional_id: 1, client_name: 'Ana', appointment_date: `${MONDAY} 10:00:00`, end_date: `${MONDAY} 11:00:00` };
+      const error = new AppointmentConflictError({ available: false, reason: 'appointment_conflict', conflict });
+      expect(error).toBeInstanceOf(Error);
+      expect(error.message).toBe('O profissional já tem um agendamento neste horário.');
+      expect(error.reason).toBe('appointment_conflict');
+      expect(error.conflict).toBe(conflict);
+    });
+  });
+});
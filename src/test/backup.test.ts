@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest';
+import { BACKUP_VERSION, RESTORE_KEYS, RestoreRollbackError, createBackup, matchRestoredIds, parseBackup, referenceErrors, remapAppointment, remapAppointmentItems, remapClient, remapFinancialEntry } from '../shared/backup';
+import type { AccountBackup, BackupData, IdMaps } from '../shared/backup';
+
+const data = (): BackupData => ({
+  professionals: [{ id: 7, name: 'Paula', color: '#ff0000' }],
+  professional_schedules: [{ professional_id: 7, day_of_week: 1, start_time: '09:00', end_time: '18:00' }],
+  professional_exceptions: [],
+  services: [{ id: 3, name: 'Corte', price: 5000, duration: 30 }],
+  products: [{ name: 'Shampoo', price: 2500, quantity: 4 }],
+  clients: [{ id: 11, name: 'Ana', preferred_professional_id: 7, tags: ['VIP'] }],
+  client_notes: [{ client_id: 11, note: 'Prefere a manhã' }],
+  appointments: [{
+    id: 20, client_id: 11, professional_id: 7, service_id: 3, client_name: 'Ana', service: 'Corte', price: 5000,
+    appointment_date: '2026-03-02 10:00:00', end_date: '2026-03-02 10:30:00', attended: true, status: 'completed',
+    items: [{ service_id: 3, service: 'Corte', price: 5000, duration: 30, professional_id: null, position: 0 }],
+  }],
+  financial_entries: [{ description: 'Corte - Cliente: Ana', amount: 5000, type: 'receita', entry_type: 'pontual', entry_date: '2026-03-02', appointment_id: 20, is_virtual: true }],
+  settings: {
+    business_hours: [{ day_of_week: 1, start_time: '09:00', end_time: '18:00' }],
+    business_exceptions: [],
+    booking: null,
+    notifications: { reminders_enabled: true, channel: 'whatsapp', reminder_hours_before: 24 },
+    message_templates: [],
+  },
+});
+
+const ids: IdMaps = {
+  clients: new Map([[11, 101]]),
+  professionals: new Map([[7, 107]]),
+  services: new Map([[3, 103]]),
+  appointments: new Map([[20, 120]]),
+};
+
+describe('Account backup', () => {
+  it('should export versioned rows without the account owner', () => {
+    const rows = data();
+    const backup = createBackup({ ...rows, clients: [{ ...rows.clients[0], user_id: 'u1' } as AccountBackup['clients'][number]] }, new Date('2026-03-10T12:00:00Z'));
+    expect(backup.version).toBe(BACKUP_VERSION);
+    expect(backup.exported_at).toBe('2026-03-10T12:00:00.000Z');
+    expect(backup.clients[0]).not.toHaveProperty('user_id');
+    expect(parseBackup(JSON.parse(JSON.stringify(backup)))).toEqual({ success: true, backup });
+  });
+
+  it('should reject foreign files, newer versions and invalid rows', () => {
+    const backup = createBackup(data(), new Date());
+    expect(parseBackup({ clients: [] })).toMatchObject({ success: false, errors: ['O arquivo não é uma cópia de segurança do SalonFlow.'] });
+    expect(parseBackup({ ...backup, version: BACKUP_VERSION + 1 })).toMatchObject({ success: false });
+    const invalid = parseBackup({ ...backup, services: [{ ...backup.services[0], price: -1 }] });
+    expect(invalid).toMatchObject({ success: false, errors: ['services.0.price: O preço deve ser um número positivo'] });
+  });
+
+  it('should report links to records missing from the backup', () => {
+    const backup = createBackup({ ...data(), services: [] }, new Date());
+    expect(referenceErrors(backup)).toEqual(['Agendamento #20: serviço #3 não existe na cópia']);
+    expect(parseBackup(backup).success).toBe(false);
+  });
+
+  it('should rebuild the foreign keys with the new ids', () => {
+    const backup = createBackup(data(), new Date());
+    expect(remapClient(backup.clients[0], ids)).toEqual({ name: 'Ana', preferred_professional_id: 107, tags: ['VIP'] });
+    const appointment = remapAppointment(backup.appointments[0], ids);
+    expect(appointment).toMatchObject({ client_id: 101, professional_id: 107, service_id: 103 });
+    expect(appointment).not.toHaveProperty('id');
+    expect(appointment).not.toHaveProperty('items');
+    expect(remapAppointmentItems(backup.appointments[0], ids)).toEqual([
+      { appointment_id: 120, service_id: 103, service: 'Corte', price: 5000, duration: 30, professional_id: null, position: 0 },
+    ]);
+    expect(remapFinancialEntry(backup.financial_entries[0], ids).appointment_id).toBe(120);
+  });
+
+  it('should fail loudly when an id was not restored', () => {
+    const backup = createBackup(data(), new Date());
+    expect(() => remapAppointment(backup.appointments[0], { ...ids, clients: new Map() })).toThrow('Registo #11 não encontrado na restauração.');
+  });
+
+  it('should match the restored ids by natural key, whatever the order returned', () => {
+    const sent = [
+      { client_id: 101, professional_id: 107, service_id: 103, appointment_date: '2026-03-02 10:00:00', status: 'completed' },
+      { client_id: 101, professional_id: 107, service_id: 103, appointment_date: '2026-03-09 10:00:00', status: 'scheduled' },
+    ];
+    const created = [
+      { id: 502, ...sent[1], appointment_date: '2026-03-09T10:00:00' },
+      { id: 501, ...sent[0], appointment_date: '2026-03-02T10:00:00' },
+    ];
+    expect(matchRestoredIds([20, 21], sent, created, RESTORE_KEYS.appointments)).toEqual(new Map([[20, 501], [21, 502]]));
+    expect(() => matchRestoredIds([20, 21], sent, created.slice(0, 1), RESTORE_KEYS.appointments)).toThrow('Registo #20 não encontrado na restauração.');
+  });
+
+  it('should name the tables left to review when the restore cannot be undone', () => {
+    const error = new RestoreRollbackError(new Error('Falha ao gravar.'), ['business_settings', 'clients']);
+    expect(error.message).toBe('Falha ao gravar. Não foi possível desfazer toda a restauração; confira os dados de: business_settings, clients.');
+    expect(error.pending).toEqual(['business_settings', 'clients']);
+  });
+});
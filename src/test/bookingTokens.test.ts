@@ -0,0 +1,27 @@
+import { describe, it, expect } from 'vitest';
+import { issueManageToken, verifyManageToken, MANAGE_TOKEN_TTL_DAYS } from '../shared/bookingTokens';
+
+const SECRET = 'segredo-de-teste';
+const NOW = Date.UTC(2024, 0, 15, 12, 0, 0);
+
+describe('Booking tokens', () => {
+  it('should accept a token signed with the same secret', async () => {
+    const { token, expiresAt } = await issueManageToken(SECRET, 42, NOW);
+    expect(expiresAt).toBe(NOW / 1000 + MANAGE_TOKEN_TTL_DAYS * 24 * 60 * 60);
+    expect(await verifyManageToken(SECRET, token, NOW)).toEqual({ valid: true, payload: { appointmentId: 42, expiresAt } });
+  });
+
+  it('should reject tampered tokens and other secrets', async () => {
+    const { token } = await issueManageToken(SECRET, 42, NOW);
+    const [, expiresAt, signature] = token.split('.');
+    expect(await verifyManageToken(SECRET, `43.${expiresAt}.${signature}`, NOW)).toEqual({ valid: false, reason: 'invalid' });
+    expect(await verifyManageToken('outro-segredo', token, NOW)).toEqual({ valid: false, reason: 'invalid' });
+    expect(await verifyManageToken(SECRET, 'lixo', NOW)).toEqual({ valid: false, reason: 'invalid' });
+  });
+
+  it('should reject expired tokens', async () => {
+    const { token } = await issueManageToken(SECRET, 42, NOW);
+    const later = NOW + (MANAGE_TOKEN_TTL_DAYS + 1) * 24 * 60 * 60 * 1000;
+    expect(await verifyManageToken(SECRET, token, later)).toEqual({ valid: false, reason: 'expired' });
+  });
+});
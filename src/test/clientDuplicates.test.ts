@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest';
+import { duplicateReasons, findDuplicateGroups, findPossibleDuplicates, mergeClientRecords, nameSimilarity, normalizePhone } from '../shared/clientDuplicates';
+import type { ClientType } from '../shared/types';
+
+const client = (id: number, data: Partial<ClientType>): ClientType => ({ id, user_id: 'u1', name: `Cliente ${id}`, ...data });
+
+describe('Client duplicates', () => {
+  it('should compare phones without formatting or country code', () => {
+    expect(normalizePhone('+55 (11) 99999-0000')).toBe('11999990000');
+    expect(normalizePhone('011 99999-0000')).toBe('11999990000');
+    expect(duplicateReasons({ name: 'Ana', phone: '(11) 99999-0000' }, { name: 'Bia', phone: '5511999990000' })).toEqual(['phone']);
+  });
+
+  it('should find names that differ only by accents, order or a typo', () => {
+    expect(nameSimilarity('José da Silva', 'jose da silva')).toBe(1);
+    expect(nameSimilarity('Silva Maria', 'Maria Silva')).toBe(1);
+    expect(nameSimilarity('Mariana Souza', 'Mariana Sousa')).toBeGreaterThanOrEqual(0.85);
+    expect(nameSimilarity('Ana Souza', 'Ana Paula Souza')).toBeLessThan(0.85);
+  });
+
+  it('should group records linked by any of the criteria', () => {
+    const clients = [
+      client(3, { name: 'Ana Souza', email: 'ana@exemplo.com' }),
+      client(1, { name: 'Ana S.', phone: '11999990000' }),
+      client(2, { name: 'Ana', phone: '(11) 99999-0000', email: 'ANA@exemplo.com' }),
+      client(4, { name: 'Carla Dias', phone: '21988887777' }),
+    ];
+    const groups = findDuplicateGroups(clients);
+    expect(groups).toHaveLength(1);
+    expect(groups[0].clients.map(c => c.id)).toEqual([1, 2, 3]);
+    expect(groups[0].reasons.sort()).toEqual(['email', 'phone']);
+  });
+
+  it('should warn about an existing client while registering a new one', () => {
+    const clients = [client(1, { name: 'Mariana Sousa' }), client(2, { name: 'Paula Reis' })];
+    expect(findPossibleDuplicates({ name: 'mariana souza' }, clients).map(c => c.id)).toEqual([1]);
+    expect(findPossibleDuplicates({ id: 1, name: 'Mariana Sousa' }, clients)).toEqual([]);
+  });
+
+  it('should keep the survivor data and fill the gaps from the duplicates', () => {
+    const survivor = client(1, { name: 'Ana Souza', phone: '11999990000', notes: 'Prefere manhãs', tags: ['VIP'], marketing_consent: false });
+    const merged = mergeClientRecords(survivor, [
+      client(2, { name: 'Ana', phone: '21900000000', email: 'ana@exemplo.com', notes: 'Prefere manhãs', tags: ['vip', 'noiva'], marketing_consent: true }),
+      client(3, { name: 'Ana S.', email: 'outra@exemplo.com', technical_notes: 'Alergia a amônia' }),
+    ]);
+    expect(merged).toMatchObject({
+      id: 1, name: 'Ana Souza', phone: '11999990000', email: 'ana@exemplo.com',
+      notes: 'Prefere manhãs', technical_notes: 'Alergia a amônia', tags: ['VIP', 'noiva'], marketing_consent: false,
+    });
+  });
+});
@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import { splitByDate, summarizeClient } from '../shared/clientProfile';
+import type { ProfileAppointment, ProfileEntry } from '../shared/clientProfile';
+
+const now = '2024-01-20 12:00:00';
+
+const appointments: ProfileAppointment[] = [
+  {
+    id: 1, professional_id: 1, service: 'Corte + Escova', appointment_date: '2024-01-05 10:00:00', status: 'completed',
+    items: [{ service: 'Corte', professional_id: null }, { service: 'Escova', professional_id: 2 }],
+  },
+  { id: 2, professional_id: 1, service: 'Corte', appointment_date: '2024-01-12 10:00:00', status: 'completed' },
+  { id: 3, professional_id: 2, service: 'Manicure', appointment_date: '2024-01-15 09:00:00', status: 'no_show' },
+  { id: 4, professional_id: 1, service: 'Corte', appointment_date: '2024-01-25 10:00:00', status: 'cancelled_by_client' },
+  { id: 5, professional_id: 1, service: 'Corte', appointment_date: '2024-02-01 10:00:00', status: 'scheduled' },
+];
+
+const entries: ProfileEntry[] = [
+  { amount: 5000, type: 'receita', appointment_id: 1 },
+  { amount: 3000, type: 'receita', appointment_id: 1 },
+  { amount: 5000, type: 'receita', appointment_id: 2 },
+  { amount: 9900, type: 'receita', appointment_id: 99 }, // Outro cliente
+  { amount: 1000, type: 'despesa', appointment_id: null },
+];
+
+describe('Client profile', () => {
+  it('should total what the client spent on completed visits', () => {
+    const summary = summarizeClient(appointments, entries, now);
+    expect(summary.visits).toBe(2);
+    expect(summary.totalSpent).toBe(13000);
+    expect(summary.averageTicket).toBe(6500);
+    expect(summary.noShows).toBe(1);
+    expect(summary.lastVisit).toBe('2024-01-12 10:00:00');
+  });
+
+  it('should skip cancelled appointments when looking for the next one', () => {
+    expect(summarizeClient(appointments, entries, now).nextAppointment).toBe('2024-02-01 10:00:00');
+  });
+
+  it('should count each service line with the professional who did it', () => {
+    const summary = summarizeClient(appointments, entries, now);
+    expect(summary.services).toEqual([{ key: 'Corte', count: 2 }, { key: 'Escova', count: 1 }]);
+    expect(summary.professionals).toEqual([{ key: 1, count: 2 }, { key: 2, count: 1 }]);
+  });
+
+  it('should split the history into upcoming and past appointments', () => {
+    const { upcoming, past } = splitByDate(appointments, now);
+    expect(upcoming.map(a => a.id)).toEqual([4, 5]);
+    expect(past.map(a => a.id)).toEqual([3, 2, 1]);
+  });
+
+  it('should handle a client without visits', () => {
+    expect(summarizeClient([], entries, now)).toMatchObject({ visits: 0, totalSpent: 0, averageTicket: 0, lastVisit: null, nextAppointment: null });
+  });
+});
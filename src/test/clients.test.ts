@@ -0,0 +1,41 @@
+import { describe, it, expect } from 'vitest';
+import { collectTags, filterClients, formatCpf, isValidCpf, matchesClientSearch, normalizeTags, normalizeText } from '../shared/clients';
+
+const clients = [
+  { name: 'José Almeida', phone: '11999990000', email: 'jose@exemplo.com', cpf: '52998224725', tags: ['VIP'], birthday: '1990-03-15', preferred_professional_id: 1, marketing_consent: true },
+  { name: 'Ana Souza', phone: '21988887777', email: null, cpf: null, tags: ['noiva', 'vip '], birthday: '1985-07-02', preferred_professional_id: 2, marketing_consent: false },
+  { name: 'Márcia Lima', phone: null, email: 'marcia@exemplo.com', cpf: null, tags: [], birthday: null, preferred_professional_id: null, marketing_consent: false },
+];
+
+describe('Clients', () => {
+  it('should validate the CPF check digits', () => {
+    expect(isValidCpf('529.982.247-25')).toBe(true);
+    expect(isValidCpf('52998224724')).toBe(false);
+    expect(isValidCpf('111.111.111-11')).toBe(false);
+    expect(formatCpf('52998224725')).toBe('529.982.247-25');
+  });
+
+  it('should compare names without accents or case', () => {
+    expect(normalizeText('  Márcia   LIMA ')).toBe('marcia lima');
+  });
+
+  it('should search by name, phone digits, CPF and tag', () => {
+    expect(matchesClientSearch(clients[0], 'jose')).toBe(true);
+    expect(matchesClientSearch(clients[0], '(11) 99999')).toBe(true);
+    expect(matchesClientSearch(clients[0], '529.982')).toBe(true);
+    expect(matchesClientSearch(clients[1], 'noi')).toBe(true);
+    expect(matchesClientSearch(clients[2], 'ana')).toBe(false);
+  });
+
+  it('should combine the list filters', () => {
+    expect(filterClients(clients, { tag: 'VIP' }).map(c => c.name)).toEqual(['José Almeida', 'Ana Souza']);
+    expect(filterClients(clients, { tag: 'VIP', marketingConsent: true }).map(c => c.name)).toEqual(['José Almeida']);
+    expect(filterClients(clients, { birthdayMonth: 7 }).map(c => c.name)).toEqual(['Ana Souza']);
+    expect(filterClients(clients, { preferredProfessionalId: 1, search: 'ana' })).toEqual([]);
+  });
+
+  it('should tidy the tags and list them once', () => {
+    expect(normalizeTags([' VIP', 'vip', '', 'Noiva '])).toEqual(['VIP', 'Noiva']);
+    expect(collectTags(clients)).toEqual(['noiva', 'VIP']);
+  });
+});
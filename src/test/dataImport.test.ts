@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import { coerceValue, guessMapping, parseCsv, validateRows } from '../shared/dataImport';
+
+describe('Data import', () => {
+  it('should read CSV with semicolons, quotes and line breaks inside cells', () => {
+    const csv = '\uFEFFNome;Telefone;Observações\r\n"Silva; Ana";(11) 99999-0000;"Prefere ""manhãs""\nsempre"\r\n\r\nBia;;\n';
+    expect(parseCsv(csv)).toEqual([
+      { line: 1, cells: ['Nome', 'Telefone', 'Observações'] },
+      { line: 2, cells: ['Silva; Ana', '(11) 99999-0000', 'Prefere "manhãs"\nsempre'] },
+      { line: 4, cells: ['Bia', '', ''] },
+    ]);
+  });
+
+  it('should suggest the columns by their header', () => {
+    expect(guessMapping(['Cliente', 'Celular', 'E-mail', 'Aniversário', 'Outra'], 'clients')).toMatchObject({
+      name: 0, phone: 1, email: 2, birthday: 3, cpf: null,
+    });
+    expect(guessMapping(['Serviço', 'Valor', 'Duração'], 'services')).toEqual({ name: 0, price: 1, duration: 2, description: null });
+  });
+
+  it('should convert Brazilian formats', () => {
+    expect(coerceValue('R$ 1.234,56', 'money')).toBe(123456);
+    expect(coerceValue('1.234', 'money')).toBe(123400);
+    expect(coerceValue('35.5', 'money')).toBe(3550);
+    expect(coerceValue('5/3/1990', 'date')).toBe('1990-03-05');
+    expect(coerceValue('32874', 'date')).toBe('1990-01-01');
+    expect(coerceValue('Sim', 'boolean')).toBe(true);
+    expect(coerceValue('vip; Noiva', 'tags')).toEqual(['vip', 'Noiva']);
+    expect(coerceValue('  ', 'text')).toBeUndefined();
+  });
+
+  it('should validate every row and report the errors by line', () => {
+    const [, ...rows] = parseCsv('Nome;Preço;Duração\nCorte;50,00;30\n;;\n;abc;30\nEscova;40;0');
+    const result = validateRows(rows, { name: 0, price: 1, duration: 2, description: null }, 'services');
+    expect(result[0]).toEqual({ line: 2, cells: ['Corte', '50,00', '30'], data: { name: 'Corte', price: 5000, duration: 30 }, errors: [] });
+    expect(result[1].line).toBe(4);
+    expect(result[1].data).toBeNull();
+    expect(result[1].errors).toEqual(['Nome: Campo obrigatório', 'Preço: Valor inválido']);
+    expect(result[2].errors).toEqual(['Duração (min): A duração deve ser um número inteiro positivo (em minutos)']);
+  });
+
+  it('should reject invalid and repeated CPFs', () => {
+    const cells = [['Ana', '529.982.247-25'], ['Ana Souza', '52998224725'], ['Bia', '123'], ['Carla', '1234567890']];
+    const result = validateRows(cells.map((row, index) => ({ line: index + 2, cells: row })), { name: 0, cpf: 1 }, 'clients');
+    expect(result.map(row => row.errors)).toEqual([[], ['CPF: Repetido na planilha'], ['CPF: CPF inválido'], ['CPF: CPF inválido']]);
+    expect(coerceValue('1234567890', 'cpf')).toBe('1234567890');
+  });
+});
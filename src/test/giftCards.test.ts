@@ -0,0 +1,35 @@
+import { describe, it, expect } from 'vitest';
+import { appointmentCredit, applyCredit, generateGiftCardCode, giftCardBalance, giftCardRedemptionError, normalizeGiftCardCode } from '../shared/giftCards';
+
+describe('Gift cards', () => {
+  it('should generate readable codes and accept them typed loosely', () => {
+    const code = generateGiftCardCode(size => new Uint8Array(size).map((_, i) => i));
+    expect(code).toBe('ABCD-EFGH');
+    expect(generateGiftCardCode()).toMatch(/^[A-HJKMNP-Z2-9]{4}-[A-HJKMNP-Z2-9]{4}$/);
+    expect(normalizeGiftCardCode(' abcd efgh ')).toBe('ABCD-EFGH');
+    expect(normalizeGiftCardCode('abc')).toBe('ABC');
+  });
+
+  it('should validate redemptions against the balance and the expiry', () => {
+    const transactions = [{ amount: 10000 }, { amount: -3000 }, { amount: 1000 }];
+    const balance = giftCardBalance(transactions);
+    expect(balance).toBe(8000);
+    expect(giftCardRedemptionError({ expires_at: '2026-12-31' }, balance, 8000, '2026-12-31')).toBeNull();
+    expect(giftCardRedemptionError({ expires_at: '2026-12-31' }, balance, 8000, '2027-01-01')).toBe('Este vale-presente expirou.');
+    expect(giftCardRedemptionError({ expires_at: null }, balance, 8001, '2027-01-01')).toBe('O valor é maior do que o saldo do vale.');
+    expect(giftCardRedemptionError({ expires_at: null }, balance, 0, '2027-01-01')).toBe('Informe um valor a usar.');
+  });
+
+  it('should take the gift card payment out of the appointment revenue', () => {
+    const transactions = [
+      { amount: -5000, appointment_id: 7 },
+      { amount: -2000, appointment_id: 7 },
+      { amount: 2000, appointment_id: 7 },
+      { amount: -1000, appointment_id: 8 },
+    ];
+    const credit = appointmentCredit(transactions, 7);
+    expect(credit).toBe(5000);
+    expect(applyCredit([{ price: 3000 }, { price: 4000 }], credit)).toEqual([{ price: 0 }, { price: 2000 }]);
+    expect(applyCredit([{ price: 3000 }], 0)).toEqual([{ price: 3000 }]);
+  });
+});
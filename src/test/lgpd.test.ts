@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest';
+import { anonymizeClientRecord, anonymizedName, buildClientDataExport, withConsentTimestamps } from '../shared/lgpd';
+import { findDuplicateGroups } from '../shared/clientDuplicates';
+import type { AppointmentType, ClientType } from '../shared/types';
+
+const now = new Date('2026-05-10T15:00:00Z');
+
+const client: ClientType = {
+  id: 12,
+  user_id: 'u1',
+  name: 'Maria Souza',
+  phone: '11999990000',
+  email: 'maria@exemplo.com',
+  cpf: '52998224725',
+  birthday: '1990-04-01',
+  address: 'Rua A, 10',
+  notes: 'Chega sempre cedo',
+  technical_notes: 'Alergia a amônia',
+  tags: ['VIP'],
+  marketing_consent: true,
+  preferred_professional_id: 3,
+  privacy_consent_at: '2025-01-01T10:00:00Z',
+};
+
+const appointment: AppointmentType = {
+  id: 40, user_id: 'u1', client_id: 12, professional_id: 3, service_id: 1, client_name: 'Maria Souza', service: 'Corte + Escova',
+  price: 9000, appointment_date: '2026-04-01 10:00:00', end_date: '2026-04-01 11:00:00', attended: true, status: 'completed',
+  items: [
+    { service_id: 1, service: 'Corte', price: 5000, duration: 30, position: 0 },
+    { service_id: 2, service: 'Escova', price: 4000, duration: 30, position: 1 },
+  ],
+};
+
+describe('LGPD tools', () => {
+  it('should scrub every personal field and revoke the consents', () => {
+    const anonymized = anonymizeClientRecord(client, now);
+    expect(anonymized).toMatchObject({
+      id: 12,
+      name: anonymizedName(12),
+      phone: null,
+      email: null,
+      cpf: null,
+      birthday: null,
+      address: null,
+      notes: null,
+      technical_notes: null,
+      tags: [],
+      marketing_consent: false,
+      privacy_consent_at: null,
+      anonymized_at: now.toISOString(),
+      preferred_professional_id: 3,
+    });
+  });
+
+  it('should not suggest anonymized clients as duplicates of each other', () => {
+    const clients = [anonymizeClientRecord(client, now), anonymizeClientRecord({ ...client, id: 13 }, now)];
+    expect(findDuplicateGroups(clients)).toEqual([]);
+  });
+
+  it('should stamp the marketing consent only when it changes', () => {
+    expect(withConsentTimestamps(null, { marketing_consent: true }, now)).toEqual({ marketing_consent: true, marketing_consent_at: now.toISOString() });
+    expect(withConsentTimestamps(null, { marketing_consent: false }, now)).toEqual({ marketing_consent: false });
+    expect(withConsentTimestamps({ marketing_consent: true }, { marketing_consent: true }, now)).toEqual({ marketing_consent: true });
+    expect(withConsentTimestamps({ marketing_consent: true }, { marketing_consent: false }, now).marketing_consent_at).toBe(now.toISOString());
+  });
+
+  it('should export the client data without the salon account', () => {
+    const exported = buildClientDataExport(client, {
+      appointments: [appointment],
+      notes: [{ id: 1, user_id: 'u1', client_id: 12, note: 'Prefere a manhã', created_at: '2026-03-01T10:00:00Z' }],
+      waitlist: [],
+      notifications: [],
+      financialEntries: [{ description: 'Corte + Escova - Cliente: Maria Souza', amount: 9000, type: 'receita', entry_date: '2026-04-01', appointment_id: 40 }],
+      merges: [],
+      requests: [{ id: 1, user_id: 'u1', client_id: 12, request_type: 'export', fulfilled_at: '2026-05-01T10:00:00Z' }],
+      loyaltyTransactions: [
+        { id: 1, user_id: 'u1', client_id: 12, points: 90, kind: 'earn', description: 'Atendimento: Corte + Escova', appointment_id: 40, created_at: '2026-04-01T14:00:00Z' },
+        { id: 2, user_id: 'u1', client_id: 12, points: -50, kind: 'redeem', description: 'Resgate: Escova grátis', created_at: '2026-04-20T14:00:00Z' },
+      ],
+      productSales: [],
+      packages: [],
+      memberships: [],
+      giftCards: [],
+    }, now);
+
+    expect(exported.generated_at).toBe(now.toISOString());
+    expect(exported.client).not.toHaveProperty('user_id');
+    expect(exported.client.cpf).toBe('52998224725');
+    expect(exported.appointments[0].services).toEqual([{ service: 'Corte', price: 5000 }, { service: 'Escova', price: 4000 }]);
+    expect(exported.notes).toEqual([{ created_at: '2026-03-01T10:00:00Z', note: 'Prefere a manhã' }]);
+    expect(exported.payments[0].amount).toBe(9000);
+    expect(exported.loyalty.balance).toBe(40);
+    expect(exported.requests).toEqual([{ type: 'export', fulfilled_at: '2026-05-01T10:00:00Z' }]);
+  });
+});
@@ -0,0 +1,41 @@
+import { describe, it, expect } from 'vitest';
+import { appointmentPoints, availableRewards, pointsBalance, pointsForAmount, redemptionError } from '../shared/loyalty';
+import type { LoyaltyRewardType } from '../shared/types';
+
+const rules = { enabled: true, points_per_real: 1 };
+const services = [{ id: 1, loyalty_points: null }, { id: 2, loyalty_points: 50 }];
+
+const reward = (id: number, points_cost: number, active = true): LoyaltyRewardType => ({
+  id, user_id: 'u1', name: `Prêmio ${id}`, points_cost, reward_type: 'discount', discount_amount: 2000, active,
+});
+
+describe('Loyalty program', () => {
+  it('should earn points per real spent, rounding down', () => {
+    expect(pointsForAmount(4599, rules)).toBe(45);
+    expect(pointsForAmount(10000, { enabled: true, points_per_real: 1.15 })).toBe(115);
+    expect(pointsForAmount(10000, { enabled: false, points_per_real: 1 })).toBe(0);
+  });
+
+  it('should use the fixed points of a service and skip free lines', () => {
+    const appointment = {
+      service_id: 1,
+      price: 12000,
+      items: [
+        { service_id: 1, price: 7000 },
+        { service_id: 2, price: 5000 },
+        { service_id: 2, price: 0 },
+      ],
+    };
+    expect(appointmentPoints(appointment, services, rules)).toBe(70 + 50);
+    expect(appointmentPoints({ service_id: 2, price: 5000 }, services, rules)).toBe(50);
+    expect(appointmentPoints(appointment, services, { ...rules, enabled: false })).toBe(0);
+  });
+
+  it('should only offer active rewards the balance covers', () => {
+    const balance = pointsBalance([{ points: 120 }, { points: 30 }, { points: -50 }]);
+    expect(balance).toBe(100);
+    expect(availableRewards([reward(1, 150), reward(2, 100), reward(3, 80, false), reward(4, 40)], balance).map(r => r.id)).toEqual([4, 2]);
+    expect(redemptionError(reward(1, 150), balance)).toBe('Saldo insuficiente: faltam 50 pontos.');
+    expect(redemptionError(reward(3, 80, false), balance)).toBe('Este prêmio não está ativo.');
+  });
+});
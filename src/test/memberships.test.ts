@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import { billingPeriod, coveredLines, dueBillingPeriod, usesInPeriod } from '../shared/memberships';
+import type { ClientMembershipType } from '../shared/types';
+
+const membership = (overrides: Partial<ClientMembershipType> = {}): ClientMembershipType => ({
+  id: 1,
+  user_id: 'user-1',
+  client_id: 1,
+  plan_name: 'Clube do corte',
+  service_ids: [1],
+  usage_limit: null,
+  monthly_price: 9900,
+  status: 'active',
+  started_at: '2026-01-31',
+  uses: [],
+  ...overrides,
+});
+
+describe('Membership plans', () => {
+  it('should anchor the monthly cycle on the subscription day', () => {
+    expect(billingPeriod('2026-01-31', '2026-01-30')).toBeNull();
+    expect(billingPeriod('2026-01-31', '2026-02-15')).toEqual({ start: '2026-01-31', end: '2026-02-27' });
+    expect(billingPeriod('2026-01-31', '2026-02-28')).toEqual({ start: '2026-02-28', end: '2026-03-30' });
+    expect(billingPeriod('2026-12-10', '2027-01-05')).toEqual({ start: '2026-12-10', end: '2027-01-09' });
+  });
+
+  it('should bill each cycle of an active membership once', () => {
+    expect(dueBillingPeriod(membership(), [], '2026-03-31')).toBe('2026-03-31');
+    expect(dueBillingPeriod(membership(), ['2026-03-31'], '2026-04-10')).toBeNull();
+    expect(dueBillingPeriod(membership({ status: 'paused' }), [], '2026-04-10')).toBeNull();
+  });
+
+  it('should cover lines up to the usage limit of the cycle, ignoring cancellations', () => {
+    const uses = [
+      { appointment_id: 10, appointment: { appointment_date: '2026-02-02 10:00:00', status: 'completed' as const } },
+      { appointment_id: 11, appointment: { appointment_date: '2026-02-05 10:00:00', status: 'cancelled_by_client' as const } },
+      { appointment_id: 12, appointment: { appointment_date: '2026-01-31 10:00:00', status: 'scheduled' as const } },
+    ];
+    const limited = membership({ usage_limit: 3, uses });
+    expect(usesInPeriod(limited, '2026-02-20')).toBe(2);
+    expect(usesInPeriod(limited, '2026-02-20', 12)).toBe(1);
+
+    const lines = [{ service_id: 1 }, { service_id: 2 }, { service_id: 1 }];
+    expect(coveredLines(lines, [limited], '2026-02-20')).toEqual([1, null, null]);
+    expect(coveredLines(lines, [limited], '2026-03-01')).toEqual([1, null, 1]);
+    expect(coveredLines(lines, [membership({ status: 'paused' })], '2026-03-01')).toEqual([null, null, null]);
+  });
+});
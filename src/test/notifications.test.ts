@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import { appointmentValues, checkTemplatePlaceholders, isReminderDue, recipientFor, renderMessage, renderTemplate, templatePlaceholders, unknownPlaceholders, DEFAULT_TEMPLATES, KIND_VARIABLES } from '../shared/notifications';
+import { consoleProvider, createNotificationProvider } from '../worker/notifications';
+import { MessageTemplateFormSchema } from '../shared/types';
+
+const appointment = { client_name: 'Ana', service: 'Corte', appointment_date: '2024-01-16 14:30:00' };
+
+describe('Notifications', () => {
+  it('should fill the placeholders and keep unknown ones visible', () => {
+    expect(renderTemplate('Olá, {{client_name}}! {{ service }} às {{time}}', { client_name: 'Ana', service: 'Corte', time: '14:30' }))
+      .toBe('Olá, Ana! Corte às 14:30');
+    expect(renderTemplate('{{nome}} e {{professional}}', {})).toBe('{{nome}} e ');
+  });
+
+  it('should list the placeholders used in a template', () => {
+    expect(templatePlaceholders('{{date}} {{time}} {{date}} {{nome}}')).toEqual(['date', 'time', 'nome']);
+  });
+
+  it('should format the appointment values for the messages', () => {
+    const values = appointmentValues(appointment, { professional: 'Bia', salonName: 'Bela Flor', confirmUrl: 'https://x/manage/t' });
+    expect(values).toMatchObject({ date: '16/01/2024', time: '14:30', professional: 'Bia', salon_name: 'Bela Flor' });
+    expect(renderMessage(DEFAULT_TEMPLATES.reminder.email, values).subject).toBe('Lembrete: Corte em 16/01/2024 às 14:30');
+    // Datas lidas do Postgres vêm com "T"
+    expect(appointmentValues({ ...appointment, appointment_date: '2024-01-16T14:30:00' })).toMatchObject({ date: '16/01/2024', time: '14:30' });
+  });
+
+  it('should send the reminder only within the configured hours before the appointment', () => {
+    expect(isReminderDue(appointment.appointment_date, 24, '2024-01-15 14:30:00')).toBe(true);
+    expect(isReminderDue(appointment.appointment_date, 24, '2024-01-15 14:00:00')).toBe(false);
+    expect(isReminderDue(appointment.appointment_date, 24, '2024-01-16 14:30:00')).toBe(false);
+  });
+
+  it('should pick the client contact for the channel', () => {
+    const client = { email: 'ana@exemplo.com', phone: ' ' };
+    expect(recipientFor('email', client)).toBe('ana@exemplo.com');
+    expect(recipientFor('whatsapp', client)).toBeNull();
+  });
+
+  it('should only accept the placeholders the message kind can fill', () => {
+    expect(unknownPlaceholders('{{client_name}}, {{service}} em {{date}}', 'birthday')).toEqual(['service', 'date']);
+    expect(unknownPlaceholders('{{nome}} {{confirm_url}}', 'reminder')).toEqual(['nome']);
+    Object.entries(DEFAULT_TEMPLATES).forEach(([kind, channels]) => Object.values(channels).forEach(content => {
+      expect(unknownPlaceholders(`${content.subject ?? ''} ${content.body}`, kind as keyof typeof KIND_VARIABLES)).toEqual([]);
+    }));
+  });
+
+  it('should reject unknown placeholders before saving a template', () => {
+    const schema = MessageTemplateFormSchema.superRefine(checkTemplatePlaceholders);
+    const result = schema.safeParse({ kind: 'post_visit', channel: 'email', subject: 'Olá {{nome}}', body: 'Até {{time}}' });
+    expect(result.success).toBe(false);
+    expect(result.error?.issues.map(issue => [issue.path[0], issue.message])).toEqual([
+      ['subject', 'Marcador desconhecido: {{nome}}'],
+      ['body', 'Marcador desconhecido: {{time}}'],
+    ]);
+    expect(schema.safeParse({ kind: 'birthday', channel: 'sms', body: 'Parabéns, {{client_name}}!' }).success).toBe(true);
+  });
+
+  it('should fail the delivery when the channel has no credentials', async () => {
+    const provider = createNotificationProvider({ RESEND_API_KEY: 're_123' }, 'email');
+    expect(provider).not.toBe(consoleProvider);
+    expect(await provider.send({ channel: 'email', to: 'ana@exemplo.com', body: 'Olá' }))
+      .toEqual({ status: 'failed', error: 'Canal não configurado' });
+    expect(createNotificationProvider({ NOTIFICATION_PROVIDER: 'console' }, 'sms')).toBe(consoleProvider);
+  });
+});
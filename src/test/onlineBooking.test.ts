@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import { bookingBounds, checkBookingTime, checkClientChange, clientChangeDeadline, getPublicSlots, normalizePhone, slugify, zonedNow } from '../shared/onlineBooking';
+import type { AvailabilityContext } from '../shared/availability';
+
+// 2024-01-15 é uma segunda-feira (day_of_week = 1)
+const MONDAY = '2024-01-15';
+
+const schedule = (professional_id: number, start_time: string, end_time: string) => ({
+  professional_id, day_of_week: 1, start_time, end_time, lunch_start_time: null, lunch_end_time: null,
+});
+
+const baseContext = (overrides: Partial<AvailabilityContext> = {}): AvailabilityContext => ({
+  businessHours: [],
+  schedules: [schedule(1, '09:00', '11:00'), schedule(2, '10:00', '12:00')],
+  businessExceptions: [],
+  professionalExceptions: [],
+  appointments: [],
+  ...overrides,
+});
+
+const policy = { booking_window_days: 7, lead_time_minutes: 120 };
+
+describe('Online booking', () => {
+  it('should build a slug from the salon name', () => {
+    expect(slugify('Estúdio  Bela Flor!')).toBe('estudio-bela-flor');
+    expect(slugify('  --Salão 24h-- ')).toBe('salao-24h');
+  });
+
+  it('should compare phones by their digits only', () => {
+    expect(normalizePhone('(11) 91234-5678')).toBe(normalizePhone('11912345678'));
+  });
+
+  it('should format the current time in the salon timezone', () => {
+    expect(zonedNow('America/Sao_Paulo', new Date('2024-01-15T12:30:00Z'))).toBe('2024-01-15 09:30:00');
+  });
+
+  it('should compute the lead time and the booking window', () => {
+    expect(bookingBounds(policy, `${MONDAY} 23:00:00`)).toEqual({ earliest: '2024-01-16 01:00:00', lastDate: '2024-01-22' });
+  });
+
+  it('should reject bookings too soon or too far ahead', () => {
+    const now = `${MONDAY} 08:00:00`;
+    expect(checkBookingTime(policy, now, `${MONDAY} 09:30:00`)).toBe('too_soon');
+    expect(checkBookingTime(policy, now, `${MONDAY} 10:00:00`)).toBeNull();
+    expect(checkBookingTime(policy, now, '2024-01-22 18:00:00')).toBeNull();
+    expect(checkBookingTime(policy, now, '2024-01-23 09:00:00')).toBe('too_far');
+  });
+
+  it('should merge the slots of every professional for "any professional"', () => {
+    const slots = getPublicSlots(baseContext(), policy, '2024-01-14 08:00:00', { date: MONDAY, duration: 60, professionalIds: [1, 2] });
+    expect(slots).toEqual([
+      { time: '09:00', professional_ids: [1] },
+      { time: '09:30', professional_ids: [1] },
+      { time: '10:00', professional_ids: [1, 2] },
+      { time: '10:30', professional_ids: [2] },
+      { time: '11:00', professional_ids: [2] },
+    ]);
+  });
+
+  it('should hide slots inside the lead time and days outside the window', () => {
+    const slots = getPublicSlots(baseContext(), policy, `${MONDAY} 08:00:00`, { date: MONDAY, duration: 60, professionalIds: [1, 2] });
+    expect(slots.map(slot => slot.time)).toEqual(['10:00', '10:30', '11:00']);
+    expect(getPublicSlots(baseContext(), policy, '2024-01-01 08:00:00', { date: MONDAY, duration: 60, professionalIds: [1] })).toEqual([]);
+  });
+
+  it('should let clients change a booking only before the cancellation deadline', () => {
+    const cancellation = { cancellation_notice_hours: 24 };
+    const appointment = { appointment_date: '2024-01-16 10:00:00', status: 'confirmed' as const };
+    expect(clientChangeDeadline(cancellation, appointment.appointment_date)).toBe(`${MONDAY} 10:00:00`);
+    expect(checkClientChange(cancellation, `${MONDAY} 09:59:00`, appointment)).toBeNull();
+    expect(checkClientChange(cancellation, `${MONDAY} 10:01:00`, appointment)).toBe('deadline');
+    expect(checkClientChange(cancellation, `${MONDAY} 08:00:00`, { ...appointment, status: 'cancelled_by_client' })).toBe('status');
+  });
+});
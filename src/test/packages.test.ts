@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import { allocateSessions, packageExpiry, remainingSessions, usablePackages } from '../shared/packages';
+import type { PackageBalance } from '../shared/packages';
+
+const pkg = (id: number, overrides: Partial<PackageBalance> = {}): PackageBalance => ({
+  id,
+  service_ids: [1],
+  sessions_total: 10,
+  expires_at: null,
+  purchased_at: `2026-01-0${id}T10:00:00Z`,
+  uses: [],
+  ...overrides,
+});
+
+describe('Service packages', () => {
+  it('should count the validity from the purchase day', () => {
+    expect(packageExpiry('2026-01-15', 30)).toBe('2026-02-13');
+    expect(packageExpiry('2026-12-31', 1)).toBe('2026-12-31');
+    expect(packageExpiry('2026-01-15', null)).toBeNull();
+  });
+
+  it('should keep only packages with sessions left and within the validity', () => {
+    const packages = [
+      pkg(1),
+      pkg(2, { sessions_total: 2, uses: [{}, {}] }),
+      pkg(3, { expires_at: '2026-03-01' }),
+      pkg(4, { expires_at: '2026-05-01' }),
+    ];
+    expect(remainingSessions(packages[1])).toBe(0);
+    expect(usablePackages(packages, '2026-03-01').map(p => p.id)).toEqual([3, 4, 1]);
+    expect(usablePackages(packages, '2026-03-02').map(p => p.id)).toEqual([4, 1]);
+  });
+
+  it('should consume one session per covered line, soonest expiry first', () => {
+    const packages = [
+      pkg(1, { service_ids: [1, 2] }),
+      pkg(2, { service_ids: [1], sessions_total: 1, expires_at: '2026-06-30' }),
+    ];
+    const lines = [{ service_id: 1 }, { service_id: 3 }, { service_id: 1 }, { service_id: 2 }];
+    expect(allocateSessions(lines, packages, '2026-06-01')).toEqual([
+      { line: 0, client_package_id: 2, service_id: 1 },
+      { line: 2, client_package_id: 1, service_id: 1 },
+      { line: 3, client_package_id: 1, service_id: 2 },
+    ]);
+    expect(allocateSessions(lines, [pkg(1, { sessions_total: 1 })], '2026-06-01')).toEqual([
+      { line: 0, client_package_id: 1, service_id: 1 },
+    ]);
+  });
+});
@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import { priceAppointment, promotionMatches, summarizeDiscounts } from '../shared/promotions';
+import type { PromotionType } from '../shared/types';
+
+const promotion = (overrides: Partial<PromotionType> = {}): PromotionType => ({
+  id: 1,
+  user_id: 'user-1',
+  name: 'Terça de manhã',
+  code: null,
+  discount_type: 'percent',
+  discount_value: 20,
+  service_ids: [],
+  client_tags: [],
+  weekdays: [],
+  start_time: null,
+  end_time: null,
+  valid_from: null,
+  valid_until: null,
+  active: true,
+  ...overrides,
+});
+
+const tuesdayMorning = { appointmentDate: '2026-10-20 09:30:00', clientTags: ['VIP'] };
+
+describe('Promotions', () => {
+  it('should match promotions by weekday, time, validity and client tag', () => {
+    const morning = promotion({ weekdays: [2], start_time: '08:00', end_time: '12:00' });
+    expect(promotionMatches(morning, tuesdayMorning)).toBe(true);
+    expect(promotionMatches(morning, { ...tuesdayMorning, appointmentDate: '2026-10-20 12:00:00' })).toBe(false);
+    expect(promotionMatches(morning, { ...tuesdayMorning, appointmentDate: '2026-10-21 09:30:00' })).toBe(false);
+    expect(promotionMatches(promotion({ valid_until: '2026-10-19' }), tuesdayMorning)).toBe(false);
+    expect(promotionMatches(promotion({ client_tags: ['vip'] }), tuesdayMorning)).toBe(true);
+    expect(promotionMatches(promotion({ client_tags: ['Noivas'] }), tuesdayMorning)).toBe(false);
+    expect(promotionMatches(promotion({ active: false }), tuesdayMorning)).toBe(false);
+  });
+
+  it('should apply the best automatic rule or the coupon informed', () => {
+    const lines = [{ service_id: 1, price: 5000 }, { service_id: 2, price: 3000 }];
+    const rules = [
+      promotion({ id: 1, discount_value: 10 }),
+      promotion({ id: 2, discount_type: 'fixed', discount_value: 1000, service_ids: [2] }),
+      promotion({ id: 3, code: 'BEMVINDA', discount_type: 'fixed', discount_value: 6000 }),
+    ];
+
+    const automatic = priceAppointment(rules, lines, tuesdayMorning);
+    expect(automatic.promotion?.id).toBe(2);
+    expect(automatic.lines).toEqual([{ service_id: 1, price: 5000, discount: 0 }, { service_id: 2, price: 2000, discount: 1000 }]);
+    expect([automatic.gross, automatic.discount, automatic.net]).toEqual([8000, 1000, 7000]);
+
+    const coupon = priceAppointment(rules, lines, tuesdayMorning, ' bemvinda ');
+    expect(coupon.promotion?.id).toBe(3);
+    expect(coupon.lines.map(line => line.discount)).toEqual([5000, 1000]);
+    expect(coupon.net).toBe(2000);
+
+    const unknown = priceAppointment(rules, lines, tuesdayMorning, 'NAOEXISTE');
+    expect(unknown.couponError).toBe('Cupom não encontrado.');
+    expect(unknown.discount).toBe(0);
+  });
+
+  it('should summarize gross, discount and net by promotion', () => {
+    expect(summarizeDiscounts([
+      { price: 8000, gross_price: 10000, discount_amount: 2000, coupon_code: null, promotion: { name: 'Terça de manhã' } },
+      { price: 4000, gross_price: 5000, discount_amount: 1000, coupon_code: 'BEMVINDA', promotion: null },
+      { price: 3000, gross_price: null, discount_amount: 0, coupon_code: null, promotion: null },
+    ])).toEqual({
+      gross: 18000,
+      discount: 3000,
+      net: 15000,
+      byPromotion: [
+        { name: 'Terça de manhã', count: 1, discount: 2000 },
+        { name: 'Cupom BEMVINDA', count: 1, discount: 1000 },
+      ],
+    });
+  });
+});
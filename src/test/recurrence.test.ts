@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest';
+import { exceedsMaxOccurrences, generateOccurrences, retimeOccurrence, MAX_OCCURRENCES } from '../shared/recurrence';
+import { AppointmentFormSchema, RecurrenceRuleSchema } from '../shared/types';
+
+const first = { appointment_date: '2024-01-15 10:00:00', end_date: '2024-01-15 10:45:00' };
+
+describe('Recurrence', () => {
+  describe('generateOccurrences', () => {
+    it('should repeat every N weeks for a number of occurrences', () => {
+      const occurrences = generateOccurrences({ frequency: 'weekly', interval: 2, end_type: 'count', occurrences: 3 }, first);
+      expect(occurrences).toEqual([
+        { appointment_date: '2024-01-15 10:00:00', end_date: '2024-01-15 10:45:00' },
+        { appointment_date: '2024-01-29 10:00:00', end_date: '2024-01-29 10:45:00' },
+        { appointment_date: '2024-02-12 10:00:00', end_date: '2024-02-12 10:45:00' },
+      ]);
+    });
+
+    it('should stop at the until date', () => {
+      const occurrences = generateOccurrences({ frequency: 'weekly', interval: 1, end_type: 'until', until_date: '2024-02-05' }, first);
+      expect(occurrences.map(o => o.appointment_date.slice(0, 10))).toEqual(['2024-01-15', '2024-01-22', '2024-01-29', '2024-02-05']);
+    });
+
+    it('should repeat monthly on the given day, clamping to the end of short months', () => {
+      const start = { appointment_date: '2024-01-31 09:00:00', end_date: '2024-01-31 10:00:00' };
+      const occurrences = generateOccurrences({ frequency: 'monthly', interval: 1, day_of_month: 31, end_type: 'count', occurrences: 4 }, start);
+      expect(occurrences.map(o => o.appointment_date.slice(0, 10))).toEqual(['2024-01-31', '2024-02-29', '2024-03-31', '2024-04-30']);
+    });
+
+    it('should skip a monthly date that falls before the first appointment', () => {
+      const occurrences = generateOccurrences({ frequency: 'monthly', interval: 1, day_of_month: 10, end_type: 'count', occurrences: 2 }, first);
+      expect(occurrences.map(o => o.appointment_date.slice(0, 10))).toEqual(['2024-02-10', '2024-03-10']);
+    });
+
+    it('should cap open-ended series', () => {
+      const occurrences = generateOccurrences({ frequency: 'weekly', interval: 1, end_type: 'until', until_date: '2030-01-01' }, first);
+      expect(occurrences).toHaveLength(MAX_OCCURRENCES);
+    });
+  });
+
+  describe('exceedsMaxOccurrences', () => {
+    it('should flag until dates beyond the occurrence cap', () => {
+      const weekly = { frequency: 'weekly' as const, interval: 1, end_type: 'until' as const };
+      // 52 semanas a partir de 15/01/2024: a última cai em 06/01/2025
+      expect(exceedsMaxOccurrences({ ...weekly, until_date: '2025-01-06' }, '2024-01-15')).toBe(false);
+      expect(exceedsMaxOccurrences({ ...weekly, until_date: '2025-01-13' }, '2024-01-15')).toBe(true);
+      expect(exceedsMaxOccurrences({ ...weekly, end_type: 'count', occurrences: 52 }, '2024-01-15')).toBe(false);
+    });
+
+    it('should reject the appointment form instead of truncating the series', () => {
+      const form = {
+        client_id: 1,
+        professional_id: 1,
+        items: [{ service_id: 1, price: 5000, duration: 45 }],
+        appointment_date: new Date(2024, 0, 15, 10, 0),
+        end_date: new Date(2024, 0, 15, 10, 45),
+        recurrence: { frequency: 'weekly' as const, interval: 1, end_type: 'until' as const, until_date: '2030-01-01' },
+      };
+      const result = AppointmentFormSchema.safeParse(form);
+      expect(result.success).toBe(false);
+      expect(result.error?.issues[0].path).toEqual(['recurrence', 'until_date']);
+      expect(AppointmentFormSchema.safeParse({ ...form, recurrence: { ...form.recurrence, until_date: '2024-06-30' } }).success).toBe(true);
+    });
+  });
+
+  describe('retimeOccurrence', () => {
+    it('should keep the date and apply the new time and duration', () => {
+      const edited = { appointment_date: '2024-01-15 14:30:00', end_date: '2024-01-15 15:30:00' };
+      expect(retimeOccurrence({ appointment_date: '2024-01-22T10:00:00' }, edited)).toEqual({
+        appointment_date: '2024-01-22 14:30:00',
+        end_date: '2024-01-22 15:30:00',
+      });
+    });
+  });
+
+  describe('RecurrenceRuleSchema', () => {
+    it('should require the end condition for the chosen end type', () => {
+      expect(RecurrenceRuleSchema.safeParse({ frequency: 'weekly', interval: 1, end_type: 'until' }).success).toBe(false);
+      expect(RecurrenceRuleSchema.safeParse({ frequency: 'weekly', interval: 1, end_type: 'count' }).success).toBe(false);
+      expect(RecurrenceRuleSchema.safeParse({ frequency: 'weekly', interval: 1, end_type: 'count', occurrences: 4 }).success).toBe(true);
+    });
+  });
+});
@@ -32,6 +32,9 @@ const mockSupabase = {
       })),
     })),
   })),
+  rpc: vi.fn(() => ({
+    error: null,
+  })),
 };
 
 vi.mock('../react-app/supabaseClient', () => ({
@@ -45,6 +45,22 @@ describe('Toast Components', () => {
       expect(screen.getByText('Error!')).toBeInTheDocument();
       expect(screen.getByText('Something went wrong')).toBeInTheDocument();
     });
+
+    it('should run the action when its button is clicked', () => {
+      const mockOnRemove = vi.fn();
+      const mockAction = vi.fn();
+      const actionToast: Toast = {
+        id: '3',
+        type: 'success',
+        title: 'Agendamento reagendado',
+        action: { label: 'Desfazer', onClick: mockAction },
+      };
+
+      render(<ToastComponent toast={actionToast} onRemove={mockOnRemove} />);
+      fireEvent.click(screen.getByRole('button', { name: 'Desfazer' }));
+
+      expect(mockAction).toHaveBeenCalledTimes(1);
+    });
   });
 
   describe('ToastContainer', () => {
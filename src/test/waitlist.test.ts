@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest';
+import { findWaitlistMatches, freedSlots, matchesWaitlistEntry } from '../shared/waitlist';
+import type { WaitlistCandidate } from '../shared/waitlist';
+
+const entry = (overrides: Partial<WaitlistCandidate> = {}): WaitlistCandidate => ({
+  id: 1,
+  status: 'waiting',
+  service_id: 10,
+  professional_id: null,
+  start_date: '2024-01-15',
+  end_date: '2024-01-19',
+  start_time: null,
+  end_time: null,
+  ...overrides,
+});
+
+const slot = (appointment_date: string, end_date: string, professional_id = 1) => ({ professional_id, appointment_date, end_date });
+
+describe('Waitlist', () => {
+  it('should match a slot inside the date range when the service fits', () => {
+    const freed = slot('2024-01-16 10:00:00', '2024-01-16 11:00:00');
+    expect(matchesWaitlistEntry(entry(), freed, 60)).toBe(true);
+    expect(matchesWaitlistEntry(entry(), freed, 90)).toBe(false);
+    expect(matchesWaitlistEntry(entry({ end_date: '2024-01-15' }), freed, 60)).toBe(false);
+  });
+
+  it('should respect the professional preference and the entry status', () => {
+    const freed = slot('2024-01-16 10:00:00', '2024-01-16 11:00:00', 2);
+    expect(matchesWaitlistEntry(entry({ professional_id: 1 }), freed, 30)).toBe(false);
+    expect(matchesWaitlistEntry(entry({ professional_id: 2 }), freed, 30)).toBe(true);
+    expect(matchesWaitlistEntry(entry({ status: 'matched' }), freed, 30)).toBe(false);
+  });
+
+  it('should only count the part of the slot inside the time-of-day window', () => {
+    const freed = slot('2024-01-16 09:00:00', '2024-01-16 11:00:00');
+    expect(matchesWaitlistEntry(entry({ start_time: '10:00', end_time: '12:00' }), freed, 60)).toBe(true);
+    expect(matchesWaitlistEntry(entry({ start_time: '10:30', end_time: '12:00' }), freed, 60)).toBe(false);
+  });
+
+  it('should match entries in arrival order, each to at most one slot', () => {
+    const slots = [slot('2024-01-16 10:00:00', '2024-01-16 11:00:00'), slot('2024-01-17 10:00:00', '2024-01-17 11:00:00')];
+    const durations: Record<number, number> = { 10: 60, 20: 120 };
+    const matches = findWaitlistMatches(
+      [entry({ id: 1, start_date: '2024-01-17' }), entry({ id: 2, service_id: 20 }), entry({ id: 3 })],
+      slots,
+      serviceId => durations[serviceId]
+    );
+    expect(matches.map(m => [m.entry.id, m.slot.appointment_date])).toEqual([
+      [1, '2024-01-17 10:00:00'],
+      [3, '2024-01-16 10:00:00'],
+    ]);
+  });
+
+  it('should give the freed time to the oldest entries, only as far as it goes', () => {
+    const slots = [slot('2024-01-16 09:00:00', '2024-01-16 11:00:00')];
+    const matches = findWaitlistMatches(
+      [
+        entry({ id: 4, created_at: '2024-01-10T12:00:00Z' }),
+        entry({ id: 5, created_at: '2024-01-08T12:00:00Z', start_time: '10:00', end_time: '12:00' }),
+        entry({ id: 6, created_at: '2024-01-09T12:00:00Z' }),
+      ],
+      slots,
+      () => 60
+    );
+    expect(matches.map(m => [m.entry.id, m.slot.appointment_date, m.slot.end_date])).toEqual([
+      [5, '2024-01-16 10:00:00', '2024-01-16 11:00:00'],
+      [6, '2024-01-16 09:00:00', '2024-01-16 10:00:00'],
+    ]);
+  });
+
+  it('should free the slots of every professional involved, only for future appointments that occupied them', () => {
+    const appointment = {
+      professional_id: 1,
+      appointment_date: '2024-01-16 10:00:00',
+      end_date: '2024-01-16 11:00:00',
+      status: 'scheduled' as const,
+      items: [
+        { service: 'Corte', duration: 30, professional_id: null, position: 0 },
+        { service: 'Escova', duration: 30, professional_id: 2, position: 1 },
+      ],
+    };
+    expect(freedSlots([appointment], '2024-01-15 12:00:00').map(s => s.professional_id)).toEqual([1, 2]);
+    expect(freedSlots([appointment], '2024-01-16 12:00:00')).toEqual([]);
+    expect(freedSlots([{ ...appointment, status: 'no_show' }], '2024-01-15 12:00:00')).toEqual([]);
+  });
+});
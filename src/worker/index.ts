@@ -17,8 +17,42 @@ import {
   CreateAppointmentSchema,
   CreateFinancialEntrySchema,
   CreateProductSchema,
-  CreateProfessionalSchema
+  CreateProfessionalSchema,
+  PublicBookingSchema,
+  CreateWaitlistEntrySchema,
+  type AppointmentItemType,
+  type AppointmentType,
+  type BookingSettingsType,
+  type ClientMembershipType,
+  type MessageTemplateType,
+  type NotificationSettingsType,
 } from '../shared/types';
+import {
+  getAvailableSlots,
+  describeUnavailability,
+  splitDateTime,
+  type AvailabilityContext,
+} from '../shared/availability';
+import { checkAppointmentAvailability, expandAppointments, type ItemizedAppointment } from '../shared/appointmentItems';
+import {
+  BOOKING_RATE_LIMIT,
+  BOOKING_TIME_MESSAGES,
+  CLIENT_CHANGE_MESSAGES,
+  bookingBounds,
+  checkBookingTime,
+  checkClientChange,
+  clientChangeDeadline,
+  getPublicSlots,
+  normalizePhone,
+  zonedNow,
+} from '../shared/onlineBooking';
+import { atMinutes } from '../shared/recurrence';
+import { issueManageToken, verifyManageToken } from '../shared/bookingTokens';
+import { DEFAULT_TEMPLATES, REMINDER_STATUSES, appointmentValues, recipientFor, reminderRange, renderMessage } from '../shared/notifications';
+import { createNotificationProvider } from './notifications';
+import { EXCLUSION_VIOLATION, UNIQUE_VIOLATION, createServiceClient, supabaseAuth } from './supabase';
+import { billMembership, fetchAvailabilityContext, matchFreedSlots } from '../shared/queries';
+import type { SupabaseClient } from '@supabase/supabase-js';
 
 // --- Schemas de Validação Locais ---
 // Criar schemas para rotas que não os tinham definidos no `shared/types.ts`
@@ -35,6 +69,265 @@ const BusinessExceptionSchema = z.object({
   description: z.string().min(1, "Descrição é obrigatória"),
 });
 
+const AvailabilityQuerySchema = z.object({
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/), // Formato YYYY-MM-DD
+  professional_id: z.coerce.number().int().positive(),
+  duration: z.coerce.number().int().positive(), // Minutos
+  ignore_appointment_id: z.coerce.number().int().positive().optional(),
+});
+
+const ManageAvailabilityQuerySchema = z.object({
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/), // Formato YYYY-MM-DD
+});
+
+const ManageCancelSchema = z.object({
+  reason: z.string().trim().max(500).optional().nullable(),
+});
+
+const ManageRescheduleSchema = z.object({
+  appointment_date: z.string().regex(/^\d{4}-\d{2}-\d{2} \d{2}:\d{2}:\d{2}$/), // Formato YYYY-MM-DD HH:mm:ss
+});
+
+const PublicAvailabilityQuerySchema = z.object({
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/), // Formato YYYY-MM-DD
+  service_id: z.coerce.number().int().positive(),
+  professional_id: z.coerce.number().int().positive().optional(),
+});
+
+
+// --- Disponibilidade ---
+// Carrega do banco as regras e os agendamentos de um dia. Os agendamentos são de todos os
+// profissionais, porque uma linha de serviço pode ser feita por outro profissional.
+const loadAvailabilityContext = async (db: D1Database, userId: string, date: string): Promise<AvailabilityContext> => {
+  const [businessHours, schedules, businessExceptions, professionalExceptions, appointments, items] = await Promise.all([
+    db.prepare(`SELECT day_of_week, start_time, end_time FROM business_settings WHERE user_id = ?`).bind(userId).all(),
+    db.prepare(`SELECT * FROM professional_schedules WHERE user_id = ?`).bind(userId).all(),
+    db.prepare(`SELECT * FROM business_exceptions WHERE user_id = ? AND exception_date = ?`).bind(userId, date).all(),
+    db.prepare(`SELECT * FROM professional_exceptions WHERE user_id = ? AND start_date <= ? AND end_date >= ?`).bind(userId, date, date).all(),
+    db.prepare(`SELECT id, professional_id, client_name, service, appointment_date, end_date, status FROM appointments WHERE user_id = ? AND DATE(appointment_date) <= ? AND DATE(end_date) >= ?`).bind(userId, date, date).all(),
+    db.prepare(`SELECT s.appointment_id, s.service, s.duration, s.professional_id, s.position FROM appointment_services s JOIN appointments a ON a.id = s.appointment_id WHERE a.user_id = ? AND DATE(a.appointment_date) <= ? AND DATE(a.end_date) >= ?`).bind(userId, date, date).all(),
+  ]);
+  const itemized = (appointments.results as unknown as ItemizedAppointment[]).map(appointment => ({
+    ...appointment,
+    items: (items.results as unknown as (AppointmentItemType & { appointment_id: number })[]).filter(item => item.appointment_id === appointment.id),
+  }));
+  return {
+    businessHours: businessHours.results,
+    schedules: schedules.results,
+    businessExceptions: businessExceptions.results,
+    professionalExceptions: professionalExceptions.results,
+    appointments: expandAppointments(itemized),
+  } as unknown as AvailabilityContext;
+};
+
+// Grava as linhas de serviço de um agendamento, substituindo as anteriores.
+const saveAppointmentItems = async (db: D1Database, userId: string, appointmentId: number, items: AppointmentItemType[] | undefined) => {
+  if (!items) return;
+  await db.batch([
+    db.prepare(`DELETE FROM appointment_services WHERE appointment_id = ?`).bind(appointmentId),
+    ...items.map((item, position) => db.prepare(`
+      INSERT INTO appointment_services (user_id, appointment_id, service_id, service, price, duration, professional_id, position)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `).bind(userId, appointmentId, item.service_id, item.service, item.price, item.duration, item.professional_id || null, position)),
+  ]);
+};
+
+// --- Agendamento Online ---
+// As rotas públicas leem e gravam no Postgres do Supabase, onde a equipa vê a agenda.
+
+// Configurações de um salão com a página pública ativa, ou null.
+const loadBookingSettings = async (db: SupabaseClient, slug: string): Promise<BookingSettingsType | null> => {
+  const { data, error } = await db.from('booking_settings').select('*').eq('slug', slug).eq('enabled', true).maybeSingle();
+  if (error) throw error;
+  return data;
+};
+
+// Profissionais a considerar: o escolhido pelo cliente ou todos ("qualquer profissional").
+const bookableProfessionalIds = async (db: SupabaseClient, userId: string, professionalId?: number | null) => {
+  const { data, error } = await db.from('professionals').select('id').eq('user_id', userId).order('name', { ascending: true });
+  if (error) throw error;
+  const ids = (data || []).map((p: { id: number }) => p.id);
+  return professionalId ? ids.filter((id: number) => id === professionalId) : ids;
+};
+
+// Serviço do salão, ou null.
+const loadService = async (db: SupabaseClient, userId: string, serviceId: number) => {
+  const { data, error } = await db.from('services').select('id, name, price, duration').eq('id', serviceId).eq('user_id', userId).maybeSingle();
+  if (error) throw error;
+  return data as { id: number; name: string; price: number; duration: number } | null;
+};
+
+// Encontra o cliente pelo telefone (só os dígitos, ver `clients.phone_digits`) ou cria um novo.
+const findOrCreateBookingClient = async (db: SupabaseClient, userId: string, name: string, phone: string) => {
+  const { data: existing, error } = await db.from('clients').select('id')
+    .eq('user_id', userId).eq('phone_digits', normalizePhone(phone))
+    .order('id', { ascending: true }).limit(1).maybeSingle();
+  if (error) throw error;
+  if (existing) return Number(existing.id);
+  const { data: created, error: insertError } = await db.from('clients')
+    .insert([{ user_id: userId, name, phone, notes: 'Cadastrado pelo agendamento online' }]).select('id').single();
+  if (insertError) throw insertError;
+  return Number(created.id);
+};
+
+// --- Links de Gestão de Agendamento ---
+// Como o agendamento online, as rotas do link leem e gravam no Postgres do Supabase.
+
+// Agendamento (com as linhas de serviço) e configurações do salão de um token válido.
+const loadManagedAppointment = async (db: SupabaseClient, secret: string, token: string) => {
+  const check = await verifyManageToken(secret, token);
+  if (!check.valid) return { error: check.reason === 'expired' ? "Este link expirou. Entre em contato com o salão." : "Link inválido.", status: check.reason === 'expired' ? 410 : 404 } as const;
+
+  const { data: appointment, error } = await db.from('appointments')
+    .select('*, items:appointment_services(service, duration, professional_id, position)')
+    .eq('id', check.payload.appointmentId).maybeSingle();
+  if (error) throw error;
+  if (!appointment) return { error: "Agendamento não encontrado.", status: 404 } as const;
+  const { data: settings, error: settingsError } = await db.from('booking_settings').select('*').eq('user_id', appointment.user_id).maybeSingle();
+  if (settingsError) throw settingsError;
+  if (!settings) return { error: "Agendamento online indisponível.", status: 404 } as const;
+  return {
+    settings: settings as BookingSettingsType,
+    appointment: appointment as ItemizedAppointment & AppointmentType,
+  };
+};
+
+// Profissionais de um agendamento: o principal e os das linhas de serviço.
+const involvedProfessionalIds = (appointment: ItemizedAppointment) => [
+  ...new Set([appointment.professional_id, ...(appointment.items || []).map(item => item.professional_id)].filter((id): id is number => !!id)),
+];
+
+// Sinaliza a lista de espera para a vaga libertada; uma falha aqui não desfaz a alteração já gravada.
+const flagFreedSlot = async (db: SupabaseClient, settings: BookingSettingsType, freed: ItemizedAppointment) => {
+  try {
+    await matchFreedSlots(db, [freed], settings.user_id, zonedNow(settings.timezone));
+  } catch (error) {
+    console.error('Erro ao procurar pedidos da lista de espera:', error);
+  }
+};
+
+// Endereço público do link de gestão, na mesma origem do pedido.
+const manageUrl = (requestUrl: string, token: string) => new URL(`/manage/${token}`, requestUrl).toString();
+
+// Hora local e nome do salão (das configurações do agendamento online, se existirem).
+const loadSalonClock = async (db: SupabaseClient, userId: string) => {
+  const { data: settings, error } = await db.from('booking_settings').select('salon_name, timezone').eq('user_id', userId).maybeSingle();
+  if (error) throw error;
+  return {
+    now: zonedNow(settings?.timezone ?? 'America/Sao_Paulo'),
+    salonName: settings ? String(settings.salon_name) : null,
+  };
+};
+
+// --- Lembretes ---
+// Envia os lembretes em falta dos salões com lembretes ativos (ou só de um salão), a
+// partir do Postgres do Supabase, onde a equipa configura os lembretes e vê o registo.
+// Cada mensagem fica registada em `notifications`, mesmo quando o cliente não tem
+// contato no canal, para não ser tentada outra vez.
+const sendDueReminders = async (env: Env, appUrl: string | undefined, userId?: string) => {
+  const db = createServiceClient(env);
+  let settingsQuery = db.from('notification_settings').select('*').eq('reminders_enabled', true);
+  if (userId) settingsQuery = settingsQuery.eq('user_id', userId);
+  const { data: salons, error: settingsError } = await settingsQuery;
+  if (settingsError) throw settingsError;
+  const totals = { sent: 0, failed: 0 };
+
+  for (const salon of (salons || []) as NotificationSettingsType[]) {
+    const { now, salonName } = await loadSalonClock(db, salon.user_id);
+    const { from, to } = reminderRange(salon.reminder_hours_before, now);
+    const [appointments, template] = await Promise.all([
+      db.from('appointments')
+        .select('id, client_name, service, appointment_date, client:clients(email, phone), professional:professionals(name)')
+        .eq('user_id', salon.user_id)
+        .in('status', REMINDER_STATUSES)
+        .gt('appointment_date', from)
+        .lte('appointment_date', to),
+      db.from('message_templates').select('subject, body')
+        .eq('user_id', salon.user_id).eq('kind', 'reminder').eq('channel', salon.channel).maybeSingle(),
+    ]);
+    if (appointments.error || template.error) throw appointments.error || template.error;
+    const rows = (appointments.data || []) as unknown as {
+      id: number; client_name: string; service: string; appointment_date: string;
+      client: { email: string | null; phone: string | null } | null;
+      professional: { name: string } | null;
+    }[];
+    if (rows.length === 0) continue;
+
+    // Lembretes já gerados para o horário atual de cada agendamento
+    const { data: sent, error: sentError } = await db.from('notifications').select('appointment_id, reference_date')
+      .eq('kind', 'reminder').in('appointment_id', rows.map(row => row.id));
+    if (sentError) throw sentError;
+    const provider = createNotificationProvider(env, salon.channel);
+
+    for (const row of rows) {
+      if ((sent || []).some(n => n.appointment_id === row.id && n.reference_date === row.appointment_date)) continue;
+      const appointment = { id: row.id, client_name: row.client_name, service: row.service, appointment_date: row.appointment_date };
+      const recipient = recipientFor(salon.channel, { email: row.client?.email ?? null, phone: row.client?.phone ?? null });
+      // O link de confirmação é o link de gestão, disponível com o agendamento online configurado
+      const confirmUrl = appUrl && salonName !== null
+        ? manageUrl(appUrl, (await issueManageToken(env.BOOKING_TOKEN_SECRET, appointment.id)).token)
+        : null;
+      const message = renderMessage((template.data as Pick<MessageTemplateType, 'subject' | 'body'> | null) ?? DEFAULT_TEMPLATES.reminder[salon.channel], appointmentValues(appointment, {
+        professional: row.professional?.name ?? null,
+        salonName,
+        confirmUrl,
+      }));
+
+      const { data: notification, error: insertError } = await db.from('notifications').insert([{
+        user_id: salon.user_id,
+        appointment_id: appointment.id,
+        kind: 'reminder',
+        channel: salon.channel,
+        recipient,
+        subject: message.subject ?? null,
+        body: message.body,
+        status: recipient ? 'pending' : 'failed',
+        error: recipient ? null : 'Cliente sem contato registado para este canal',
+        reference_date: appointment.appointment_date,
+      }]).select('id').single();
+      // A restrição única de `notifications` recusa o lembrete já gerado por outra execução
+      if (insertError?.code === UNIQUE_VIOLATION) continue;
+      if (insertError) throw insertError;
+      if (!recipient) {
+        totals.failed++;
+        continue;
+      }
+
+      const result = await provider.send({ channel: salon.channel, to: recipient, subject: message.subject, body: message.body })
+        .catch((error: Error) => ({ status: 'failed' as const, error: error.message }));
+      const { error: updateError } = result.status === 'sent'
+        ? await db.from('notifications').update({ status: 'sent', provider: provider.name, provider_message_id: result.providerMessageId, sent_at: new Date().toISOString() }).eq('id', notification.id)
+        : await db.from('notifications').update({ status: 'failed', provider: provider.name, error: result.error }).eq('id', notification.id);
+      if (updateError) throw updateError;
+      if (result.status === 'sent') totals.sent++;
+      else totals.failed++;
+    }
+  }
+  return totals;
+};
+
+// --- Assinaturas ---
+// Lança a mensalidade do ciclo atual das assinaturas ativas (ou só das de um salão), com a
+// mesma cobrança que a aplicação usa (`billMembership`), no Postgres do Supabase.
+const billDueMemberships = async (env: Env, userId?: string) => {
+  const db = createServiceClient(env);
+  let membershipsQuery = db.from('client_memberships').select('*').eq('status', 'active');
+  if (userId) membershipsQuery = membershipsQuery.eq('user_id', userId);
+  const { data: memberships, error } = await membershipsQuery;
+  if (error) throw error;
+  const clocks = new Map<string, string>();
+  let billed = 0;
+
+  for (const membership of (memberships || []) as ClientMembershipType[]) {
+    if (!clocks.has(membership.user_id)) {
+      const { now } = await loadSalonClock(db, membership.user_id);
+      clocks.set(membership.user_id, splitDateTime(now).date);
+    }
+    if (await billMembership(db, membership, clocks.get(membership.user_id)!)) billed++;
+  }
+  return { billed };
+};
+
 
 const app = new Hono<{ Bindings: Env }>();
 
@@ -102,7 +395,7 @@ app.get("/api/dashboard/today-appointments", authMiddleware, async (c) => {
   const user = c.get("user");
   if (!user) return c.json({ error: "Unauthorized" }, 401);
   const today = new Date().toISOString().split('T')[0];
-  const appointments = await c.env.DB.prepare(`SELECT id, client_name, service, price, professional, appointment_date, is_confirmed FROM appointments WHERE user_id = ? AND DATE(appointment_date) = ? ORDER BY appointment_date ASC`).bind(user.id, today).all();
+  const appointments = await c.env.DB.prepare(`SELECT id, client_name, service, price, professional_id, appointment_date, end_date, status FROM appointments WHERE user_id = ? AND DATE(appointment_date) = ? ORDER BY appointment_date ASC`).bind(user.id, today).all();
   return c.json(appointments.results);
 });
 
@@ -348,6 +641,325 @@ app.post(
 );
 
 
+// --- Rota de Disponibilidade ---
+app.get(
+  "/api/availability",
+  authMiddleware,
+  zValidator('query', AvailabilityQuerySchema),
+  async (c) => {
+    const user = c.get("user");
+    if (!user) return c.json({ error: "Unauthorized" }, 401);
+    const query = c.req.valid('query');
+    const context = await loadAvailabilityContext(c.env.DB, user.id, query.date);
+    const result = getAvailableSlots(context, {
+      date: query.date,
+      professionalId: query.professional_id,
+      duration: query.duration,
+      ignoreAppointmentId: query.ignore_appointment_id,
+    });
+    return c.json(result);
+  }
+);
+
+
+// --- Rotas Públicas de Agendamento Online (sem autenticação) ---
+app.get("/api/public/:slug", async (c) => {
+  const db = createServiceClient(c.env);
+  const settings = await loadBookingSettings(db, c.req.param('slug'));
+  if (!settings) return c.json({ error: "Página de agendamento não encontrada" }, 404);
+  const [services, professionals] = await Promise.all([
+    db.from('services').select('id, name, description, price, duration').eq('user_id', settings.user_id).order('name', { ascending: true }),
+    db.from('professionals').select('id, name').eq('user_id', settings.user_id).order('name', { ascending: true }),
+  ]);
+  if (services.error || professionals.error) throw services.error || professionals.error;
+  const now = zonedNow(settings.timezone);
+  const { earliest, lastDate } = bookingBounds(settings, now);
+  return c.json({
+    salon_name: settings.salon_name,
+    first_date: earliest.slice(0, 10),
+    last_date: lastDate,
+    services: services.data,
+    professionals: professionals.data,
+  });
+});
+
+app.get(
+  "/api/public/:slug/availability",
+  zValidator('query', PublicAvailabilityQuerySchema),
+  async (c) => {
+    const db = createServiceClient(c.env);
+    const settings = await loadBookingSettings(db, c.req.param('slug'));
+    if (!settings) return c.json({ error: "Página de agendamento não encontrada" }, 404);
+    const query = c.req.valid('query');
+    const service = await loadService(db, settings.user_id, query.service_id);
+    if (!service) return c.json({ error: "Serviço não encontrado" }, 404);
+
+    const professionalIds = await bookableProfessionalIds(db, settings.user_id, query.professional_id);
+    const context = await fetchAvailabilityContext(db, settings.user_id, professionalIds, query.date);
+    const slots = getPublicSlots(context, settings, zonedNow(settings.timezone), {
+      date: query.date,
+      duration: service.duration,
+      professionalIds,
+    });
+    // Não expõe quais profissionais estão livres, apenas os horários
+    return c.json({ slots: slots.map(slot => slot.time) });
+  }
+);
+
+app.post(
+  "/api/public/:slug/bookings",
+  zValidator('json', PublicBookingSchema),
+  async (c) => {
+    const db = createServiceClient(c.env);
+    const slug = c.req.param('slug');
+    const settings = await loadBookingSettings(db, slug);
+    if (!settings) return c.json({ error: "Página de agendamento não encontrada" }, 404);
+
+    // Limite de pedidos por IP, contado antes de qualquer outra validação. Sem IP não há
+    // como contar: os pedidos não podem partilhar uma chave comum que os bloquearia a todos
+    const clientKey = c.req.header('cf-connecting-ip');
+    if (!clientKey) return c.json({ error: "Não foi possível identificar a origem do pedido." }, 400);
+    const windowStart = new Date(Date.now() - BOOKING_RATE_LIMIT.windowMinutes * 60000).toISOString();
+    const { count, error: attemptsError } = await db.from('booking_attempts').select('id', { count: 'exact', head: true })
+      .eq('slug', slug).eq('client_key', clientKey).gt('created_at', windowStart);
+    if (attemptsError) throw attemptsError;
+    if ((count ?? 0) >= BOOKING_RATE_LIMIT.attempts) {
+      return c.json({ error: "Muitas tentativas de agendamento. Tente novamente mais tarde." }, 429);
+    }
+    const { error: attemptError } = await db.from('booking_attempts').insert([{ slug, client_key: clientKey }]);
+    if (attemptError) throw attemptError;
+
+    const booking = c.req.valid('json');
+    const now = zonedNow(settings.timezone);
+    const timeIssue = checkBookingTime(settings, now, booking.appointment_date);
+    if (timeIssue) return c.json({ error: BOOKING_TIME_MESSAGES[timeIssue] }, 422);
+
+    const service = await loadService(db, settings.user_id, booking.service_id);
+    if (!service) return c.json({ error: "Serviço não encontrado" }, 404);
+
+    // Reconfirma o horário e, sem profissional escolhido, fica com o primeiro livre
+    const start = splitDateTime(booking.appointment_date);
+    const professionalIds = await bookableProfessionalIds(db, settings.user_id, booking.professional_id);
+    const context = await fetchAvailabilityContext(db, settings.user_id, professionalIds, start.date);
+    const slot = getPublicSlots(context, settings, now, {
+      date: start.date,
+      duration: service.duration,
+      professionalIds,
+    }).find(s => s.time === booking.appointment_date.slice(11, 16));
+    if (!slot) return c.json({ error: "Este horário já não está disponível. Escolha outro." }, 409);
+    const professionalId = slot.professional_ids[0];
+
+    const clientId = await findOrCreateBookingClient(db, settings.user_id, booking.client_name, booking.client_phone);
+    const endDate = atMinutes(start.date, start.minutes + service.duration);
+    const { data: appointment, error: appointmentError } = await db.from('appointments').insert([{
+      user_id: settings.user_id,
+      client_id: clientId,
+      professional_id: professionalId,
+      service_id: service.id,
+      client_name: booking.client_name,
+      service: service.name,
+      price: service.price,
+      appointment_date: booking.appointment_date,
+      end_date: endDate,
+      attended: false,
+      status: 'scheduled',
+      source: 'online',
+    }]).select('id').single();
+    // A constraint de sobreposição recusa o horário ocupado entretanto por outro pedido
+    if (appointmentError?.code === EXCLUSION_VIOLATION) return c.json({ error: "Este horário já não está disponível. Escolha outro." }, 409);
+    if (appointmentError) throw appointmentError;
+    const appointmentId = Number(appointment.id);
+
+    const [history, items] = await Promise.all([
+      db.from('appointment_status_history').insert([{ user_id: settings.user_id, appointment_id: appointmentId, from_status: null, to_status: 'scheduled', reason: 'Agendamento online' }]),
+      db.from('appointment_services').insert([{
+        user_id: settings.user_id,
+        appointment_id: appointmentId,
+        service_id: service.id,
+        service: service.name,
+        price: service.price,
+        duration: service.duration,
+        professional_id: null,
+        position: 0,
+      }]),
+    ]);
+    if (history.error || items.error) {
+      // Sem a linha de serviço o agendamento ficaria incompleto na agenda
+      await db.from('appointments').delete().eq('id', appointmentId);
+      throw history.error || items.error;
+    }
+
+    const { data: professional } = await db.from('professionals').select('name').eq('id', professionalId).maybeSingle();
+    const { token } = await issueManageToken(c.env.BOOKING_TOKEN_SECRET, appointmentId);
+    return c.json({
+      id: appointmentId,
+      service: service.name,
+      professional: professional?.name,
+      appointment_date: booking.appointment_date,
+      end_date: endDate,
+      manage_url: manageUrl(c.req.url, token),
+    }, 201);
+  }
+);
+
+
+// --- Rotas Públicas de Gestão de Agendamento (link assinado enviado ao cliente) ---
+app.get("/api/manage/:token", async (c) => {
+  const db = createServiceClient(c.env);
+  const managed = await loadManagedAppointment(db, c.env.BOOKING_TOKEN_SECRET, c.req.param('token'));
+  if ('error' in managed) return c.json({ error: managed.error }, managed.status);
+  const { appointment, settings } = managed;
+
+  const { data: professional } = await db.from('professionals').select('name').eq('id', appointment.professional_id).maybeSingle();
+  const now = zonedNow(settings.timezone);
+  const issue = checkClientChange(settings, now, appointment);
+  const { earliest, lastDate } = bookingBounds(settings, now);
+  return c.json({
+    salon_name: settings.salon_name,
+    client_name: appointment.client_name,
+    service: appointment.service,
+    professional: professional?.name,
+    appointment_date: appointment.appointment_date,
+    end_date: appointment.end_date,
+    status: appointment.status,
+    can_confirm: appointment.status === 'scheduled',
+    can_change: issue === null,
+    change_blocked_reason: issue ? CLIENT_CHANGE_MESSAGES[issue] : null,
+    change_deadline: clientChangeDeadline(settings, appointment.appointment_date),
+    cancellation_policy: settings.cancellation_policy ?? null,
+    first_date: earliest.slice(0, 10),
+    last_date: lastDate,
+  });
+});
+
+app.get(
+  "/api/manage/:token/availability",
+  zValidator('query', ManageAvailabilityQuerySchema),
+  async (c) => {
+    const db = createServiceClient(c.env);
+    const managed = await loadManagedAppointment(db, c.env.BOOKING_TOKEN_SECRET, c.req.param('token'));
+    if ('error' in managed) return c.json({ error: managed.error }, managed.status);
+    const { appointment, settings } = managed;
+    const { date } = c.req.valid('query');
+
+    // Mesmo profissional e mesma duração; as linhas com outros profissionais também têm de caber
+    const start = splitDateTime(appointment.appointment_date);
+    const end = splitDateTime(appointment.end_date);
+    const duration = end.minutes - start.minutes;
+    const context = await fetchAvailabilityContext(db, appointment.user_id, involvedProfessionalIds(appointment), date);
+    const slots = getPublicSlots(context, settings, zonedNow(settings.timezone), {
+      date,
+      duration,
+      professionalIds: [appointment.professional_id],
+      ignoreAppointmentId: appointment.id,
+    }).filter(slot => {
+      const slotStart = splitDateTime(`${date} ${slot.time}`);
+      return checkAppointmentAvailability(context, {
+        ...appointment,
+        appointment_date: atMinutes(date, slotStart.minutes),
+        end_date: atMinutes(date, slotStart.minutes + duration),
+      }).available;
+    });
+    return c.json({ slots: slots.map(slot => slot.time) });
+  }
+);
+
+app.post(
+  "/api/manage/:token/cancel",
+  zValidator('json', ManageCancelSchema),
+  async (c) => {
+    const db = createServiceClient(c.env);
+    const managed = await loadManagedAppointment(db, c.env.BOOKING_TOKEN_SECRET, c.req.param('token'));
+    if ('error' in managed) return c.json({ error: managed.error }, managed.status);
+    const { appointment, settings } = managed;
+
+    const issue = checkClientChange(settings, zonedNow(settings.timezone), appointment);
+    if (issue) return c.json({ error: CLIENT_CHANGE_MESSAGES[issue] }, 422);
+
+    const { reason } = c.req.valid('json');
+    const historyReason = reason ? `Cancelado pelo cliente pelo link: ${reason}` : 'Cancelado pelo cliente pelo link';
+    // Só cancela se o status não mudou desde a leitura (ex.: a equipa marcou entretanto como concluído)
+    const { data: cancelled, error } = await db.from('appointments')
+      .update({ status: 'cancelled_by_client', attended: false, updated_at: new Date().toISOString() })
+      .eq('id', appointment.id).eq('status', appointment.status).select('id');
+    if (error) throw error;
+    if (!cancelled || cancelled.length === 0) return c.json({ error: "Este agendamento foi alterado entretanto. Atualize a página." }, 409);
+    const [history, change] = await Promise.all([
+      db.from('appointment_status_history').insert([{ user_id: appointment.user_id, appointment_id: appointment.id, from_status: appointment.status, to_status: 'cancelled_by_client', reason: historyReason }]),
+      db.from('appointment_changes').insert([{ user_id: appointment.user_id, appointment_id: appointment.id, action: 'cancelled', previous_date: appointment.appointment_date, reason: reason || null }]),
+    ]);
+    if (history.error || change.error) throw history.error || change.error;
+    await flagFreedSlot(db, settings, appointment);
+    return c.json({ success: true, status: 'cancelled_by_client' });
+  }
+);
+
+// Confirmação de presença pelo link enviado no lembrete
+app.post("/api/manage/:token/confirm", async (c) => {
+  const db = createServiceClient(c.env);
+  const managed = await loadManagedAppointment(db, c.env.BOOKING_TOKEN_SECRET, c.req.param('token'));
+  if ('error' in managed) return c.json({ error: managed.error }, managed.status);
+  const { appointment } = managed;
+
+  if (appointment.status !== 'scheduled') {
+    return c.json({ error: "Este agendamento já não pode ser confirmado." }, 422);
+  }
+  const { data: confirmed, error } = await db.from('appointments')
+    .update({ status: 'confirmed', updated_at: new Date().toISOString() })
+    .eq('id', appointment.id).eq('status', 'scheduled').select('id');
+  if (error) throw error;
+  if (!confirmed || confirmed.length === 0) return c.json({ error: "Este agendamento já não pode ser confirmado." }, 422);
+  const { error: historyError } = await db.from('appointment_status_history').insert([{ user_id: appointment.user_id, appointment_id: appointment.id, from_status: 'scheduled', to_status: 'confirmed', reason: 'Confirmado pelo cliente pelo link' }]);
+  if (historyError) throw historyError;
+  return c.json({ success: true, status: 'confirmed' });
+});
+
+app.post(
+  "/api/manage/:token/reschedule",
+  zValidator('json', ManageRescheduleSchema),
+  async (c) => {
+    const db = createServiceClient(c.env);
+    const managed = await loadManagedAppointment(db, c.env.BOOKING_TOKEN_SECRET, c.req.param('token'));
+    if ('error' in managed) return c.json({ error: managed.error }, managed.status);
+    const { appointment, settings } = managed;
+
+    const now = zonedNow(settings.timezone);
+    const issue = checkClientChange(settings, now, appointment);
+    if (issue) return c.json({ error: CLIENT_CHANGE_MESSAGES[issue] }, 422);
+    const { appointment_date } = c.req.valid('json');
+    const timeIssue = checkBookingTime(settings, now, appointment_date);
+    if (timeIssue) return c.json({ error: BOOKING_TIME_MESSAGES[timeIssue] }, 422);
+
+    // Mantém a duração e reconfirma todos os profissionais envolvidos
+    const start = splitDateTime(appointment.appointment_date);
+    const end = splitDateTime(appointment.end_date);
+    const newStart = splitDateTime(appointment_date);
+    const rescheduled = {
+      ...appointment,
+      appointment_date,
+      end_date: atMinutes(newStart.date, newStart.minutes + end.minutes - start.minutes),
+    };
+    const context = await fetchAvailabilityContext(db, appointment.user_id, involvedProfessionalIds(appointment), newStart.date);
+    const availability = checkAppointmentAvailability(context, rescheduled);
+    if (!availability.available) {
+      return c.json({ error: "Este horário já não está disponível. Escolha outro." }, 409);
+    }
+
+    const { error } = await db.from('appointments')
+      .update({ appointment_date: rescheduled.appointment_date, end_date: rescheduled.end_date, updated_at: new Date().toISOString() })
+      .eq('id', appointment.id);
+    // A constraint de sobreposição recusa o horário ocupado entretanto por outro pedido
+    if (error?.code === EXCLUSION_VIOLATION) return c.json({ error: "Este horário já não está disponível. Escolha outro." }, 409);
+    if (error) throw error;
+    const { error: changeError } = await db.from('appointment_changes').insert([{ user_id: appointment.user_id, appointment_id: appointment.id, action: 'rescheduled', previous_date: appointment.appointment_date, new_date: rescheduled.appointment_date }]);
+    if (changeError) throw changeError;
+    // O horário antigo ficou livre, como num cancelamento
+    await flagFreedSlot(db, settings, appointment);
+    return c.json({ success: true, appointment_date: rescheduled.appointment_date, end_date: rescheduled.end_date });
+  }
+);
+
+
 // --- Rotas de Agendamentos (com validação) ---
 app.get("/api/appointments", authMiddleware, async (c) => {
     const user = c.get("user");
@@ -364,10 +976,18 @@ app.post(
     const user = c.get("user");
     if (!user) return c.json({ error: "Unauthorized" }, 401);
     const validatedData = c.req.valid('json');
+    // Reconfirma a disponibilidade no momento da gravação
+    const context = await loadAvailabilityContext(c.env.DB, user.id, splitDateTime(validatedData.appointment_date).date);
+    const availability = checkAppointmentAvailability(context, validatedData);
+    if (!availability.available) {
+      return c.json({ error: describeUnavailability(availability.reason, availability.description), ...availability }, 409);
+    }
     const result = await c.env.DB.prepare(`
-      INSERT INTO appointments (user_id, client_name, service, price, professional, appointment_date, is_confirmed)
-      VALUES (?, ?, ?, ?, ?, ?, ?)
-    `).bind(user.id, validatedData.client_name, validatedData.service, validatedData.price, validatedData.professional, validatedData.appointment_date, validatedData.is_confirmed || false).run();
+      INSERT INTO appointments (user_id, client_id, professional_id, service_id, client_name, service, price, appointment_date, end_date, attended, status)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 'scheduled')
+    `).bind(user.id, validatedData.client_id, validatedData.professional_id, validatedData.service_id, validatedData.client_name, validatedData.service, validatedData.price, validatedData.appointment_date, validatedData.end_date, false).run();
+    await c.env.DB.prepare(`INSERT INTO appointment_status_history (user_id, appointment_id, from_status, to_status) VALUES (?, ?, NULL, 'scheduled')`).bind(user.id, result.meta.last_row_id).run();
+    await saveAppointmentItems(c.env.DB, user.id, result.meta.last_row_id, validatedData.items);
     return c.json({ id: result.meta.last_row_id }, 201);
   }
 );
@@ -381,14 +1001,34 @@ app.put(
     if (!user) return c.json({ error: "Unauthorized" }, 401);
     const appointmentId = c.req.param('id');
     const validatedData = c.req.valid('json');
+    // Reconfirma a disponibilidade, ignorando o próprio agendamento
+    const context = await loadAvailabilityContext(c.env.DB, user.id, splitDateTime(validatedData.appointment_date).date);
+    const availability = checkAppointmentAvailability(context, { ...validatedData, id: Number(appointmentId) });
+    if (!availability.available) {
+      return c.json({ error: describeUnavailability(availability.reason, availability.description), ...availability }, 409);
+    }
     await c.env.DB.prepare(`
-      UPDATE appointments SET client_name = ?, service = ?, price = ?, professional = ?, appointment_date = ?, is_confirmed = ?, updated_at = CURRENT_TIMESTAMP
+      UPDATE appointments SET client_id = ?, professional_id = ?, service_id = ?, client_name = ?, service = ?, price = ?, appointment_date = ?, end_date = ?, updated_at = CURRENT_TIMESTAMP
       WHERE id = ? AND user_id = ?
-    `).bind(validatedData.client_name, validatedData.service, validatedData.price, validatedData.professional, validatedData.appointment_date, validatedData.is_confirmed || false, appointmentId, user.id).run();
+    `).bind(validatedData.client_id, validatedData.professional_id, validatedData.service_id, validatedData.client_name, validatedData.service, validatedData.price, validatedData.appointment_date, validatedData.end_date, appointmentId, user.id).run();
+    await saveAppointmentItems(c.env.DB, user.id, Number(appointmentId), validatedData.items);
     return c.json({ success: true });
   }
 );
 
+// O status só muda por esta rota, que valida a transição e a regista no histórico.
+// Emite o link de gestão que a equipa envia ao cliente
+app.post("/api/appointments/:id/manage-link", supabaseAuth, async (c) => {
+  const userId = c.get("supabaseUserId");
+  if (!userId) return c.json({ error: "Unauthorized" }, 401);
+  const { data: appointment, error } = await createServiceClient(c.env).from('appointments').select('id')
+    .eq('id', c.req.param('id')).eq('user_id', userId).maybeSingle();
+  if (error) throw error;
+  if (!appointment) return c.json({ error: "Agendamento não encontrado" }, 404);
+  const { token, expiresAt } = await issueManageToken(c.env.BOOKING_TOKEN_SECRET, Number(appointment.id));
+  return c.json({ url: manageUrl(c.req.url, token), expires_at: new Date(expiresAt * 1000).toISOString() });
+});
+
 app.delete("/api/appointments/:id", authMiddleware, async (c) => {
     const user = c.get("user");
     if (!user) return c.json({ error: "Unauthorized" }, 401);
@@ -397,4 +1037,57 @@ app.delete("/api/appointments/:id", authMiddleware, async (c) => {
     return c.json({ success: true });
 });
 
-export default app;
+
+// --- Rotas da Lista de Espera ---
+app.get("/api/waitlist", authMiddleware, async (c) => {
+  const user = c.get("user");
+  if (!user) return c.json({ error: "Unauthorized" }, 401);
+  const entries = await c.env.DB.prepare(`SELECT * FROM waitlist_entries WHERE user_id = ? AND status IN ('waiting', 'matched') ORDER BY created_at ASC`).bind(user.id).all();
+  return c.json(entries.results);
+});
+
+app.post(
+  "/api/waitlist",
+  authMiddleware,
+  zValidator('json', CreateWaitlistEntrySchema),
+  async (c) => {
+    const user = c.get("user");
+    if (!user) return c.json({ error: "Unauthorized" }, 401);
+    const data = c.req.valid('json');
+    const result = await c.env.DB.prepare(`
+      INSERT INTO waitlist_entries (user_id, client_id, service_id, professional_id, start_date, end_date, start_time, end_time, notes)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).bind(user.id, data.client_id, data.service_id, data.professional_id || null, data.start_date, data.end_date, data.start_time || null, data.end_time || null, data.notes || null).run();
+    return c.json({ id: result.meta.last_row_id }, 201);
+  }
+);
+
+app.delete("/api/waitlist/:id", authMiddleware, async (c) => {
+  const user = c.get("user");
+  if (!user) return c.json({ error: "Unauthorized" }, 401);
+  await c.env.DB.prepare(`DELETE FROM waitlist_entries WHERE id = ? AND user_id = ?`).bind(c.req.param('id'), user.id).run();
+  return c.json({ success: true });
+});
+
+// Envia já os lembretes em falta do salão, sem esperar pela tarefa agendada
+app.post("/api/notifications/send-due", supabaseAuth, async (c) => {
+  const userId = c.get("supabaseUserId");
+  if (!userId) return c.json({ error: "Unauthorized" }, 401);
+  return c.json(await sendDueReminders(c.env, new URL(c.req.url).origin, userId));
+});
+
+// Lança já as mensalidades em falta do salão, sem esperar pela tarefa agendada
+app.post("/api/memberships/bill-due", supabaseAuth, async (c) => {
+  const userId = c.get("supabaseUserId");
+  if (!userId) return c.json({ error: "Unauthorized" }, 401);
+  return c.json(await billDueMemberships(c.env, userId));
+});
+
+export default {
+  fetch: app.fetch,
+  // Tarefa agendada (ver `triggers` em wrangler.toml) que envia os lembretes e lança as mensalidades
+  scheduled: async (_event: unknown, env: Env, ctx: { waitUntil: (promise: Promise<unknown>) => void }) => {
+    ctx.waitUntil(sendDueReminders(env, env.APP_URL));
+    ctx.waitUntil(billDueMemberships(env));
+  },
+};
@@ -0,0 +1,105 @@
+// src/worker/notifications.ts
+
+/**
+ * Fornecedores de envio de mensagens.
+ *
+ * Cada canal tem um fornecedor com a mesma interface: SMS e WhatsApp pela Twilio,
+ * e-mail pela Resend. Com NOTIFICATION_PROVIDER = "console", as mensagens são
+ * apenas escritas no log do Worker, o que permite testar os lembretes em
+ * desenvolvimento sem enviar nada. Um canal sem credenciais falha o envio, para
+ * que o registo não mostre como entregue uma mensagem que ninguém recebeu.
+ */
+
+import type { NotificationChannel } from '../shared/types';
+
+export interface OutgoingMessage {
+  channel: NotificationChannel;
+  to: string;
+  subject?: string | null;
+  body: string;
+}
+
+export type DeliveryResult =
+  | { status: 'sent'; providerMessageId: string | null }
+  | { status: 'failed'; error: string };
+
+export interface NotificationProvider {
+  name: string;
+  send: (message: OutgoingMessage) => Promise<DeliveryResult>;
+}
+
+// Variáveis do Worker usadas pelos fornecedores (definidas com `wrangler secret put`)
+export interface NotificationEnv {
+  NOTIFICATION_PROVIDER?: string;
+  TWILIO_ACCOUNT_SID?: string;
+  TWILIO_AUTH_TOKEN?: string;
+  TWILIO_SMS_FROM?: string;
+  TWILIO_WHATSAPP_FROM?: string;
+  RESEND_API_KEY?: string;
+  EMAIL_FROM?: string;
+}
+
+// Lê a mensagem de erro devolvida pela API do fornecedor
+const readProviderError = async (response: Response) => {
+  const body = await response.json().catch(() => null) as { message?: string } | null;
+  return body?.message ?? `Erro ${response.status} do fornecedor`;
+};
+
+export const consoleProvider: NotificationProvider = {
+  name: 'console',
+  send: async (message) => {
+    console.log(`[notificação ${message.channel}] para ${message.to}${message.subject ? ` — ${message.subject}` : ''}\n${message.body}`);
+    return { status: 'sent', providerMessageId: null };
+  },
+};
+
+// Canal sem credenciais: cada envio fica registado como falhado
+export const unconfiguredProvider: NotificationProvider = {
+  name: 'unconfigured',
+  send: async () => ({ status: 'failed', error: 'Canal não configurado' }),
+};
+
+const twilioProvider = (accountSid: string, authToken: string, from: string, prefix = ''): NotificationProvider => ({
+  name: 'twilio',
+  send: async (message) => {
+    const response = await fetch(`https://api.twilio.com/2010-04-01/Accounts/${accountSid}/Messages.json`, {
+      method: 'POST',
+      headers: {
+        Authorization: `Basic ${btoa(`${accountSid}:${authToken}`)}`,
+        'Content-Type': 'application/x-www-form-urlencoded',
+      },
+      body: new URLSearchParams({ From: `${prefix}${from}`, To: `${prefix}${message.to}`, Body: message.body }),
+    });
+    if (!response.ok) return { status: 'failed', error: await readProviderError(response) };
+    const { sid } = await response.json() as { sid?: string };
+    return { status: 'sent', providerMessageId: sid ?? null };
+  },
+});
+
+const resendProvider = (apiKey: string, from: string): NotificationProvider => ({
+  name: 'resend',
+  send: async (message) => {
+    const response = await fetch('https://api.resend.com/emails', {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${apiKey}`, 'Content-Type': 'application/json' },
+      body: JSON.stringify({ from, to: message.to, subject: message.subject ?? '', text: message.body }),
+    });
+    if (!response.ok) return { status: 'failed', error: await readProviderError(response) };
+    const { id } = await response.json() as { id?: string };
+    return { status: 'sent', providerMessageId: id ?? null };
+  },
+});
+
+/** Fornecedor de um canal, conforme as credenciais configuradas no Worker. */
+export function createNotificationProvider(env: NotificationEnv, channel: NotificationChannel): NotificationProvider {
+  if (env.NOTIFICATION_PROVIDER === 'console') return consoleProvider;
+
+  if (channel === 'email' && env.RESEND_API_KEY && env.EMAIL_FROM) {
+    return resendProvider(env.RESEND_API_KEY, env.EMAIL_FROM);
+  }
+  if (channel !== 'email' && env.TWILIO_ACCOUNT_SID && env.TWILIO_AUTH_TOKEN) {
+    const from = channel === 'whatsapp' ? env.TWILIO_WHATSAPP_FROM : env.TWILIO_SMS_FROM;
+    if (from) return twilioProvider(env.TWILIO_ACCOUNT_SID, env.TWILIO_AUTH_TOKEN, from, channel === 'whatsapp' ? 'whatsapp:' : '');
+  }
+  return unconfiguredProvider;
+}
@@ -0,0 +1,44 @@
+// src/worker/supabase.ts
+
+/**
+ * Acesso do Worker ao banco Postgres do Supabase, o mesmo que a aplicação usa.
+ *
+ * As rotas públicas (agendamento online, links de gestão) não têm sessão de utilizador
+ * e usam a chave de serviço, que ignora o RLS: cada consulta tem de filtrar pelo salão
+ * (`user_id`). As rotas da equipa usam `supabaseAuth`, que valida o token da sessão do
+ * Supabase enviado pela aplicação no cabeçalho `Authorization`.
+ */
+
+import { createClient, type SupabaseClient } from '@supabase/supabase-js';
+import type { MiddlewareHandler } from 'hono';
+
+declare module 'hono' {
+  interface ContextVariableMap {
+    supabaseUserId?: string; // Utilizador da sessão do Supabase, definido por `supabaseAuth`
+  }
+}
+
+// Variáveis do Worker com o endereço e a chave de serviço do Supabase
+export interface SupabaseEnv {
+  SUPABASE_URL: string;
+  SUPABASE_SERVICE_ROLE_KEY: string; // Definida com `wrangler secret put`
+}
+
+export const createServiceClient = (env: SupabaseEnv): SupabaseClient =>
+  createClient(env.SUPABASE_URL, env.SUPABASE_SERVICE_ROLE_KEY, {
+    auth: { persistSession: false, autoRefreshToken: false },
+  });
+
+// Código do PostgreSQL para violação da constraint `appointments_no_overlap` (migração 15)
+export const EXCLUSION_VIOLATION = '23P01';
+export const UNIQUE_VIOLATION = '23505';
+
+/** Exige um token de sessão válido do Supabase e guarda o id do utilizador em `supabaseUserId`. */
+export const supabaseAuth: MiddlewareHandler<{ Bindings: SupabaseEnv }> = async (c, next) => {
+  const token = c.req.header('Authorization')?.match(/^Bearer\s+(.+)$/i)?.[1];
+  if (!token) return c.json({ error: "Unauthorized" }, 401);
+  const { data, error } = await createServiceClient(c.env).auth.getUser(token);
+  if (error || !data.user) return c.json({ error: "Unauthorized" }, 401);
+  c.set('supabaseUserId', data.user.id);
+  await next();
+};